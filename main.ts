@@ -5,15 +5,29 @@ import { fakeTradeRouteWithOptions } from "./src/routes/fake-trade";
 import { crossPlatformAnalysisRoute } from "./src/routes/cross-platform-analysis";
 import { priceDiffDetectionRoute } from "./src/routes/price-diff-detection";
 import { backtestRoute } from "./src/routes/backtest";
+import { arbitrageBacktestRoute } from "./src/routes/arbitrage-backtest";
+import { recordRoute } from "./src/routes/record";
+import { mockExchangeRoute } from "./src/routes/mock-exchange";
+import { validateConfigRoute } from "./src/routes/validate-config";
+import { reportRoute } from "./src/routes/report";
+import { strategyRoute } from "./src/routes/strategy";
+import { parseExecutionMode } from "./src/execution/execution-config";
+import type { ExecutionMode } from "./src/execution/types";
+import {
+  parseMarketHorizon,
+  type CoinSymbol,
+  type MarketHorizon,
+} from "./src/services/auto-market";
+import { normalizeCoinKey } from "./src/services/profile-config";
+import { parseSeed } from "./src/services/rng";
 import { selectOne } from "./src/cli/prompts";
+import type { StrategyRunMode } from "./src/strategies/strategy";
 
-type CoinSymbol = "eth" | "btc" | "sol" | "xrp";
-const COINS: CoinSymbol[] = ["eth", "btc", "sol", "xrp"];
 function normalizeCoins(values: string[] | undefined): CoinSymbol[] | undefined {
   if (!values || values.length === 0) return undefined;
   const out = values
-    .map((v) => v.trim().toLowerCase())
-    .filter((v) => COINS.includes(v as CoinSymbol)) as CoinSymbol[];
+    .map((v) => normalizeCoinKey(v))
+    .filter((v): v is CoinSymbol => v !== null);
   return out.length > 0 ? out : undefined;
 }
 
@@ -22,12 +36,23 @@ type CLIMode =
   | "watch-market"
   | "cross-platform-analysis"
   | "price-diff-detection"
-  | "backtest";
+  | "backtest"
+  | "sweep"
+  | "walk-forward"
+  | "stress"
+  | "arbitrage-backtest"
+  | "record"
+  | "mock-exchange"
+  | "validate-config"
+  | "report"
+  | "strategy";
 type Provider = "polymarket" | "kalshi";
 
 interface CLIArgs {
   mode?: CLIMode;
   profiles?: string[];
+  strategies?: string[];
+  strategyMode?: StrategyRunMode;
   coins?: string[];
   market?: string;
   auto?: boolean;
@@ -36,11 +61,27 @@ interface CLIArgs {
   dataDir?: string;
   start?: string;
   end?: string;
-  backtestMode?: "fast" | "visual";
+  backtestMode?: "fast" | "visual" | "sweep" | "walk-forward" | "stress";
+  sweepSpec?: string;
+  train?: string;
+  test?: string;
+  step?: string;
+  optimize?: boolean;
+  verify?: boolean;
+  updateGolden?: boolean;
+  trials?: number;
+  latency?: string;
+  haircut?: string;
+  missRate?: string;
   headless?: boolean;
   headlessSummary?: boolean;
   realisticFill?: boolean;
   fillUsd?: number;
+  execution?: ExecutionMode;
+  resume?: string;
+  seed?: number;
+  run?: string;
+  horizon?: MarketHorizon;
   help?: boolean;
 }
 
@@ -58,6 +99,21 @@ function normalizeMode(value: string | undefined): CLIMode | undefined {
   if (normalized === "cross-platform-analysis" || normalized === "cross-platform" || normalized === "outcome-analysis" || normalized === "analysis") return "cross-platform-analysis";
   if (normalized === "price-diff-detection" || normalized === "price-diff" || normalized === "diff") return "price-diff-detection";
   if (normalized === "backtest" || normalized === "historical") return "backtest";
+  if (normalized === "sweep" || normalized === "param-sweep") return "sweep";
+  if (normalized === "walk-forward" || normalized === "walkforward" || normalized === "wf") {
+    return "walk-forward";
+  }
+  if (normalized === "stress" || normalized === "stress-test" || normalized === "monte-carlo") {
+    return "stress";
+  }
+  if (normalized === "arbitrage-backtest" || normalized === "arb-backtest") return "arbitrage-backtest";
+  if (normalized === "record" || normalized === "recorder") return "record";
+  if (normalized === "mock-exchange" || normalized === "mock") return "mock-exchange";
+  if (normalized === "validate-config" || normalized === "validate" || normalized === "check-config") {
+    return "validate-config";
+  }
+  if (normalized === "report" || normalized === "run-report") return "report";
+  if (normalized === "strategy" || normalized === "strategies") return "strategy";
   return undefined;
 }
 
@@ -71,16 +127,32 @@ function splitList(value: string | undefined): string[] {
 
 function normalizeBacktestMode(
   value: string | undefined,
-): "fast" | "visual" | undefined {
+): "fast" | "visual" | "sweep" | "walk-forward" | "stress" | undefined {
   if (!value) return undefined;
   const normalized = value.toLowerCase().trim();
   if (normalized === "fast" || normalized === "max") return "fast";
+  if (normalized === "sweep") return "sweep";
+  if (normalized === "walk-forward" || normalized === "walkforward" || normalized === "wf") {
+    return "walk-forward";
+  }
+  if (normalized === "stress" || normalized === "stress-test" || normalized === "monte-carlo") {
+    return "stress";
+  }
   if (normalized === "visual" || normalized === "slow" || normalized === "debug") {
     return "visual";
   }
   return undefined;
 }
 
+function normalizeStrategyMode(value: string | undefined): StrategyRunMode | undefined {
+  if (!value) return undefined;
+  const normalized = value.toLowerCase().trim();
+  if (normalized === "paper" || normalized === "live") return "paper";
+  if (normalized === "backtest" || normalized === "historical") return "backtest";
+  if (normalized === "sweep") return "sweep";
+  return undefined;
+}
+
 function normalizeProvider(value: string | undefined): Provider | undefined {
   if (!value) return undefined;
   const normalized = value.toLowerCase().trim();
@@ -90,7 +162,7 @@ function normalizeProvider(value: string | undefined): Provider | undefined {
 }
 
 function parseArgs(argv: string[]): CLIArgs {
-  const args: CLIArgs = { profiles: [], coins: [] };
+  const args: CLIArgs = { profiles: [], strategies: [], coins: [] };
 
   for (let i = 0; i < argv.length; i++) {
     const raw = argv[i] ?? "";
@@ -131,6 +203,49 @@ function parseArgs(argv: string[]): CLIArgs {
       continue;
     }
 
+    if (raw === "--sweep") {
+      args.mode = "sweep";
+      continue;
+    }
+
+    if (raw === "--walk-forward") {
+      args.mode = "walk-forward";
+      continue;
+    }
+
+    if (raw === "--optimize") {
+      args.optimize = true;
+      continue;
+    }
+
+    if (raw === "--verify") {
+      args.mode = args.mode ?? "backtest";
+      args.verify = true;
+      continue;
+    }
+
+    if (raw === "--update-golden") {
+      args.mode = args.mode ?? "backtest";
+      args.verify = true;
+      args.updateGolden = true;
+      continue;
+    }
+
+    if (raw === "--stress") {
+      args.mode = "stress";
+      continue;
+    }
+
+    if (raw === "--arbitrage-backtest" || raw === "--arb-backtest") {
+      args.mode = "arbitrage-backtest";
+      continue;
+    }
+
+    if (raw === "--record") {
+      args.mode = "record";
+      continue;
+    }
+
     if (raw === "--fast") {
       args.backtestMode = "fast";
       continue;
@@ -188,6 +303,50 @@ function parseArgs(argv: string[]): CLIArgs {
       continue;
     }
 
+    if (raw.startsWith("--execution=")) {
+      args.execution = parseExecutionMode(raw.slice("--execution=".length));
+      continue;
+    }
+
+    if (raw === "--execution") {
+      args.execution = parseExecutionMode(argv[i + 1]);
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--seed=")) {
+      args.seed = parseSeed(raw.slice("--seed=".length), "--seed");
+      continue;
+    }
+
+    if (raw === "--seed") {
+      args.seed = parseSeed(argv[i + 1] ?? "", "--seed");
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--resume=")) {
+      args.resume = raw.slice("--resume=".length).trim();
+      continue;
+    }
+
+    if (raw === "--resume") {
+      args.resume = argv[i + 1]?.trim();
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--run=")) {
+      args.run = raw.slice("--run=".length).trim();
+      continue;
+    }
+
+    if (raw === "--run") {
+      args.run = argv[i + 1]?.trim();
+      i += 1;
+      continue;
+    }
+
     if (raw.startsWith("--backtest-mode=")) {
       args.backtestMode = normalizeBacktestMode(
         raw.slice("--backtest-mode=".length),
@@ -223,6 +382,30 @@ function parseArgs(argv: string[]): CLIArgs {
       continue;
     }
 
+    if (raw.startsWith("--strategies=")) {
+      args.strategies?.push(...splitList(raw.slice("--strategies=".length)));
+      continue;
+    }
+
+    if (raw === "--strategies") {
+      args.strategies?.push(...splitList(argv[i + 1]));
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--strategy-mode=")) {
+      args.mode = args.mode ?? "strategy";
+      args.strategyMode = normalizeStrategyMode(raw.slice("--strategy-mode=".length));
+      continue;
+    }
+
+    if (raw === "--strategy-mode") {
+      args.mode = args.mode ?? "strategy";
+      args.strategyMode = normalizeStrategyMode(argv[i + 1]);
+      i += 1;
+      continue;
+    }
+
     if (raw.startsWith("--coins=")) {
       args.coins?.push(...splitList(raw.slice("--coins=".length)));
       continue;
@@ -288,6 +471,105 @@ function parseArgs(argv: string[]): CLIArgs {
       continue;
     }
 
+    if (raw.startsWith("--sweep-spec=")) {
+      args.sweepSpec = raw.slice("--sweep-spec=".length).trim();
+      continue;
+    }
+
+    if (raw === "--sweep-spec") {
+      args.sweepSpec = (argv[i + 1] ?? "").trim();
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--train=")) {
+      args.train = raw.slice("--train=".length).trim();
+      continue;
+    }
+
+    if (raw === "--train") {
+      args.train = (argv[i + 1] ?? "").trim();
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--test=")) {
+      args.test = raw.slice("--test=".length).trim();
+      continue;
+    }
+
+    if (raw === "--test") {
+      args.test = (argv[i + 1] ?? "").trim();
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--step=")) {
+      args.step = raw.slice("--step=".length).trim();
+      continue;
+    }
+
+    if (raw === "--step") {
+      args.step = (argv[i + 1] ?? "").trim();
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--trials=")) {
+      args.trials = Number(raw.slice("--trials=".length).trim());
+      continue;
+    }
+
+    if (raw === "--trials") {
+      args.trials = Number((argv[i + 1] ?? "").trim());
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--latency=")) {
+      args.latency = raw.slice("--latency=".length).trim();
+      continue;
+    }
+
+    if (raw === "--latency") {
+      args.latency = (argv[i + 1] ?? "").trim();
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--haircut=")) {
+      args.haircut = raw.slice("--haircut=".length).trim();
+      continue;
+    }
+
+    if (raw === "--haircut") {
+      args.haircut = (argv[i + 1] ?? "").trim();
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--miss-rate=")) {
+      args.missRate = raw.slice("--miss-rate=".length).trim();
+      continue;
+    }
+
+    if (raw === "--miss-rate") {
+      args.missRate = (argv[i + 1] ?? "").trim();
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith("--horizon=")) {
+      args.horizon = parseMarketHorizon(raw.slice("--horizon=".length)) ?? undefined;
+      continue;
+    }
+
+    if (raw === "--horizon") {
+      args.horizon = parseMarketHorizon(argv[i + 1] ?? "") ?? undefined;
+      i += 1;
+      continue;
+    }
+
     if (raw.startsWith("--start=")) {
       args.start = raw.slice("--start=".length).trim();
       continue;
@@ -318,6 +600,9 @@ function parseArgs(argv: string[]): CLIArgs {
   if (args.profiles && args.profiles.length === 0) {
     delete args.profiles;
   }
+  if (args.strategies && args.strategies.length === 0) {
+    delete args.strategies;
+  }
   if (args.coins && args.coins.length === 0) {
     delete args.coins;
   }
@@ -344,19 +629,49 @@ function printUsage(): void {
     "  bun run main.ts -- --mode price-diff-detection",
     "  bun run main.ts -- --mode backtest --auto --data-dir backtest-data --speed max",
     "  bun run main.ts -- --mode backtest --auto --backtest-mode fast",
+    "  bun run main.ts -- --mode sweep --coins eth --sweep-spec sweep.json --start 2025-01-01 --end 2025-01-02",
+    "  bun run main.ts -- --mode walk-forward --profiles arbPaperV1 --coins eth --start 2025-01-01 --end 2025-01-15 --train 3d --test 1d",
+    "  bun run main.ts -- --mode walk-forward --coins eth --sweep-spec sweep.json --optimize --start 2025-01-01 --end 2025-01-15",
+    "  bun run main.ts -- --mode backtest --verify",
+    "  bun run main.ts -- --mode stress --profiles arbPaperV1 --coins eth --start 2025-01-01 --end 2025-01-03 --trials 100 --latency 15-400",
+    "  bun run main.ts -- --mode arbitrage-backtest --auto --start 2025-01-01 --end 2025-01-02",
+    "  bun run main.ts -- --mode record --coins eth,btc",
+    "  bun run main.ts -- --mode fake-trade --auto --execution dry-run",
+    "  bun run main.ts -- --mode fake-trade --headless --resume latest",
+    "  bun run main.ts -- --mode mock-exchange",
+    "  bun run main.ts -- --mode validate-config --profiles arbPaperV1 --coins eth",
+    "  bun run main.ts -- --mode report --run backtest-run2",
+    "  bun run main.ts -- --mode strategy --strategies arbLive --coins eth",
+    "  bun run main.ts -- --mode strategy --strategy-mode backtest --start 2025-01-01 --end 2025-01-02",
     "",
     "Flags:",
-    "  --mode <fake-trade|watch-market|cross-platform-analysis|price-diff-detection|backtest>",
-    "  --fake-trade | --watch-market | --cross-platform-analysis | --price-diff-detection | --backtest",
-    "  --profiles <name1,name2>   (arbitrage bot)",
-    "  --coins <eth,btc,sol,xrp>  (arbitrage bot, cross-platform-analysis, price-diff-detection)",
+    "  --mode <fake-trade|watch-market|cross-platform-analysis|price-diff-detection|backtest|sweep|walk-forward|stress|arbitrage-backtest|record|mock-exchange|validate-config|report|strategy>",
+    "  --fake-trade | --watch-market | --cross-platform-analysis | --price-diff-detection | --backtest | --sweep | --walk-forward | --stress | --arb-backtest | --record",
+    "  --profiles <name1,name2>   (arbitrage bot, validate-config: filter resolved output)",
+    "  --strategies <name1,name2> (strategy: entries from the strategies section, default all)",
+    "  --strategy-mode <paper|backtest|sweep> (strategy: run live on paper or replay recorded data, default paper)",
+    "  --coins <eth,btc,sol,xrp>  (arbitrage bot, cross-platform-analysis, price-diff-detection, record, validate-config, strategy)",
     "  --auto                     (arbitrage bot: select all profiles/coins)",
+    "  --execution <paper|dry-run|live> (arbitrage bot and strategy paper runs: order execution, default paper)",
+    "  --resume <runId|latest>    (arbitrage bot, strategy paper: continue a run from logs/<runId>/checkpoint.json)",
+    "  --seed <n>                 (arbitrage bot, price-diff-detection, backtest modes, arbitrage-backtest, strategy: random seed, default RNG_SEED or fresh; recorded in seed.json)",
+    "  --run <runDir|runId>       (report: run directory, or a run id under logs/)",
     "  --provider <polymarket|kalshi> (watch-market)",
     "  --kalshi | --polymarket    (provider shortcut)",
     "  --market <keyword|url>     (watch-market)",
-    "  --data-dir <path>          (backtest)",
+    "  --data-dir <path>          (backtest, arbitrage-backtest, strategy, record output)",
     "  --speed <n|max>            (backtest)",
-    "  --backtest-mode <fast|visual> (backtest)",
+    "  --backtest-mode <fast|visual|sweep|walk-forward|stress> (backtest)",
+    "  --sweep-spec <path>        (sweep, walk-forward --optimize, strategy sweep: grid spec JSON, default ./sweep.json)",
+    "  --train <dur> --test <dur> (walk-forward: window lengths like 12h, 3d; default 3d / 1d)",
+    "  --step <dur>               (walk-forward: fold offset, default the test length)",
+    "  --optimize                 (walk-forward: pick the best sweep variant per train window)",
+    "  --verify                   (backtest: replay tests/fixtures/backtest and compare with the golden results)",
+    "  --update-golden            (backtest --verify: rewrite the golden results from this run)",
+    "  --trials <n>               (stress: randomized execution trials per profile, default 50)",
+    "  --latency <ms|min-max>     (stress: per-trial decision latency, default 15-250)",
+    "  --haircut <f|min-max>      (stress: fraction of book depth not fillable, default 0-0.5)",
+    "  --miss-rate <p|min-max>    (stress: probability a fill is missed, default 0-0.2)",
     "  --fast                    (backtest alias for fast)",
     "  --visual                  (backtest alias for visual)",
     "  --headless                (backtest/arbitrage/cross-platform-analysis/price-diff-detection: disable dashboard UI)",
@@ -364,8 +679,9 @@ function printUsage(): void {
     "  --realistic-fill          (price-diff-detection: book-walk fill simulation)",
     "  --no-realistic-fill       (price-diff-detection: disable fill simulation)",
     "  --fill-usd <amount>       (price-diff-detection: USD budget for fill simulation)",
-    "  --start <iso|ms>           (backtest)",
-    "  --end <iso|ms>             (backtest)",
+    "  --horizon <15m|1h|4h|daily> (backtest, sweep, strategy, arbitrage-backtest: market window, default 15m)",
+    "  --start <iso|ms>           (backtest, arbitrage-backtest, strategy backtest/sweep)",
+    "  --end <iso|ms>             (backtest, arbitrage-backtest, strategy backtest/sweep)",
     "  --help",
   ];
   console.log(lines.join("\n"));
@@ -402,6 +718,9 @@ const run = async () => {
       autoSelect: cliArgs.auto,
       provider: cliArgs.provider,
       headless: cliArgs.headless || cliArgs.headlessSummary,
+      execution: cliArgs.execution,
+      resume: cliArgs.resume,
+      seed: cliArgs.seed,
     });
     return;
   }
@@ -427,21 +746,103 @@ const run = async () => {
       headlessSummary: cliArgs.headlessSummary,
       realisticFill: cliArgs.realisticFill,
       fillUsd: cliArgs.fillUsd,
+      seed: cliArgs.seed,
     });
     return;
   }
 
-  if (cliArgs.mode === "backtest") {
+  if (
+    cliArgs.mode === "backtest" ||
+    cliArgs.mode === "sweep" ||
+    cliArgs.mode === "walk-forward" ||
+    cliArgs.mode === "stress"
+  ) {
     await backtestRoute({
       profiles: cliArgs.profiles,
       coins: cliArgs.coins,
       autoSelect: cliArgs.auto,
       dataDir: cliArgs.dataDir,
       speed: cliArgs.speed,
-      mode: cliArgs.backtestMode,
+      mode:
+        cliArgs.mode === "sweep" || cliArgs.mode === "walk-forward" || cliArgs.mode === "stress"
+          ? cliArgs.mode
+          : cliArgs.backtestMode,
       headless: cliArgs.headless,
       startMs: parseTime(cliArgs.start),
       endMs: parseTime(cliArgs.end),
+      sweepSpecPath: cliArgs.sweepSpec,
+      horizon: cliArgs.horizon,
+      seed: cliArgs.seed,
+      verify: cliArgs.verify ? { update: cliArgs.updateGolden } : undefined,
+      walkForward: {
+        train: cliArgs.train,
+        test: cliArgs.test,
+        step: cliArgs.step,
+        optimize: cliArgs.optimize,
+      },
+      stress: {
+        trials: cliArgs.trials,
+        latency: cliArgs.latency,
+        haircut: cliArgs.haircut,
+        missRate: cliArgs.missRate,
+      },
+    });
+    return;
+  }
+
+  if (cliArgs.mode === "record") {
+    await recordRoute({
+      coins: cliArgs.coins,
+      dataDir: cliArgs.dataDir,
+    });
+    return;
+  }
+
+  if (cliArgs.mode === "mock-exchange") {
+    await mockExchangeRoute();
+    return;
+  }
+
+  if (cliArgs.mode === "validate-config") {
+    await validateConfigRoute({
+      profiles: cliArgs.profiles,
+      coins: cliArgs.coins,
+    });
+    return;
+  }
+
+  if (cliArgs.mode === "report") {
+    await reportRoute({ run: cliArgs.run });
+    return;
+  }
+
+  if (cliArgs.mode === "strategy") {
+    await strategyRoute({
+      strategies: cliArgs.strategies,
+      coins: cliArgs.coins,
+      run: cliArgs.strategyMode,
+      dataDir: cliArgs.dataDir,
+      startMs: parseTime(cliArgs.start),
+      endMs: parseTime(cliArgs.end),
+      horizon: cliArgs.horizon,
+      sweepSpecPath: cliArgs.sweepSpec,
+      seed: cliArgs.seed,
+      execution: cliArgs.execution,
+      resume: cliArgs.resume,
+    });
+    return;
+  }
+
+  if (cliArgs.mode === "arbitrage-backtest") {
+    await arbitrageBacktestRoute({
+      profiles: cliArgs.profiles,
+      coins: cliArgs.coins,
+      autoSelect: cliArgs.auto,
+      dataDir: cliArgs.dataDir,
+      startMs: parseTime(cliArgs.start),
+      endMs: parseTime(cliArgs.end),
+      horizon: cliArgs.horizon,
+      seed: cliArgs.seed,
     });
     return;
   }
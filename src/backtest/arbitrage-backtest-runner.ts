@@ -0,0 +1,164 @@
+import type { ArbitrageEngine } from "../services/arbitrage-engine";
+import type { CoinSymbol } from "../services/auto-market";
+import type { MarketSnapshot } from "../services/market-data-hub";
+import type { BacktestHub } from "./backtest-hub";
+
+const PAIR_CLOSE_TOLERANCE_MS = 1000;
+
+export interface ArbitrageBacktestRunnerOptions {
+  tickIntervalMs?: number;
+  progressEveryMs?: number;
+  onProgress?: (nowMs: number, endMs: number) => void;
+}
+
+/**
+ * Only hand the engine a coin when both venues are open on the same window.
+ * The hubs keep a closed market around until the next one starts, which
+ * would otherwise look tradable or pair with the other venue's next market.
+ */
+export function pairSnapshots(
+  polySnapshots: Map<CoinSymbol, MarketSnapshot>,
+  kalshiSnapshots: Map<CoinSymbol, MarketSnapshot>,
+): {
+  poly: Map<CoinSymbol, MarketSnapshot>;
+  kalshi: Map<CoinSymbol, MarketSnapshot>;
+} {
+  const poly = new Map<CoinSymbol, MarketSnapshot>();
+  const kalshi = new Map<CoinSymbol, MarketSnapshot>();
+  for (const [coin, polySnap] of polySnapshots.entries()) {
+    const kalshiSnap = kalshiSnapshots.get(coin);
+    if (!kalshiSnap) continue;
+    const polyClose = polySnap.marketCloseTimeMs ?? null;
+    const kalshiClose = kalshiSnap.marketCloseTimeMs ?? null;
+    if (polyClose === null || kalshiClose === null) continue;
+    if (Math.abs(polyClose - kalshiClose) > PAIR_CLOSE_TOLERANCE_MS) continue;
+    if ((polySnap.timeLeftSec ?? 0) <= 0 || (kalshiSnap.timeLeftSec ?? 0) <= 0) {
+      continue;
+    }
+    poly.set(coin, polySnap);
+    kalshi.set(coin, kalshiSnap);
+  }
+  return { poly, kalshi };
+}
+
+/**
+ * Steps a Polymarket hub and a Kalshi hub on one simulated clock and feeds
+ * paired snapshots to ArbitrageEngine at max speed.
+ */
+export class ArbitrageBacktestRunner {
+  private polyHub: BacktestHub;
+  private kalshiHub: BacktestHub;
+  private engines: ArbitrageEngine[];
+  private options: ArbitrageBacktestRunnerOptions;
+  private currentTime = 0;
+  private tickIntervalMs = 250;
+  private nextEvalTimeMs = 0;
+
+  constructor(
+    polyHub: BacktestHub,
+    kalshiHub: BacktestHub,
+    engines: ArbitrageEngine[],
+    options: ArbitrageBacktestRunnerOptions = {},
+  ) {
+    this.polyHub = polyHub;
+    this.kalshiHub = kalshiHub;
+    this.engines = engines;
+    this.options = options;
+  }
+
+  getStartTimeMs(): number {
+    return Math.min(this.polyHub.getStartTimeMs(), this.kalshiHub.getStartTimeMs());
+  }
+
+  getEndTimeMs(): number {
+    return Math.max(this.polyHub.getEndTimeMs(), this.kalshiHub.getEndTimeMs());
+  }
+
+  run(): void {
+    this.tickIntervalMs = this.options.tickIntervalMs ?? 250;
+    this.currentTime = this.getStartTimeMs();
+    this.nextEvalTimeMs = this.currentTime + this.tickIntervalMs;
+    const endTime = this.getEndTimeMs();
+    const progressEveryMs = this.options.progressEveryMs ?? 3_600_000;
+    let nextProgressMs = this.currentTime + progressEveryMs;
+
+    while (this.currentTime < endTime) {
+      const nextTime = this.getNextStepTime(endTime);
+      if (nextTime === null) {
+        break;
+      }
+
+      this.currentTime = nextTime;
+      this.polyHub.advanceTo(this.currentTime);
+      this.kalshiHub.advanceTo(this.currentTime);
+      this.evaluate(this.currentTime);
+
+      while (this.nextEvalTimeMs <= this.currentTime) {
+        this.nextEvalTimeMs += this.tickIntervalMs;
+      }
+
+      if (this.options.onProgress && this.currentTime >= nextProgressMs) {
+        this.options.onProgress(this.currentTime, endTime);
+        nextProgressMs = this.currentTime + progressEveryMs;
+      }
+    }
+  }
+
+  private getNextStepTime(endTime: number): number | null {
+    if (this.currentTime >= endTime) {
+      return null;
+    }
+
+    let next = endTime;
+    for (const hubNext of [
+      this.polyHub.getNextEventTime(),
+      this.kalshiHub.getNextEventTime(),
+    ]) {
+      if (hubNext !== null) {
+        next = Math.min(next, hubNext);
+      }
+    }
+    for (const engine of this.engines) {
+      const due = engine.getNextPendingTime();
+      if (due !== null && due > this.currentTime) {
+        next = Math.min(next, due);
+      }
+    }
+    if (this.nextEvalTimeMs > this.currentTime) {
+      next = Math.min(next, this.nextEvalTimeMs);
+    }
+
+    if (next <= this.currentTime) {
+      const bumped = Math.min(endTime, this.currentTime + 1);
+      return bumped > this.currentTime ? bumped : null;
+    }
+
+    return next;
+  }
+
+  private evaluate(nowMs: number): void {
+    const scheduledEval = nowMs >= this.nextEvalTimeMs;
+    const polyDirty = this.polyHub.drainDirtyCoins();
+    const kalshiDirty = this.kalshiHub.drainDirtyCoins();
+    const pendingDue = this.engines.some((engine) => {
+      const due = engine.getNextPendingTime();
+      return due !== null && due <= nowMs;
+    });
+    if (
+      !scheduledEval &&
+      !pendingDue &&
+      polyDirty.size === 0 &&
+      kalshiDirty.size === 0
+    ) {
+      return;
+    }
+
+    const { poly, kalshi } = pairSnapshots(
+      this.polyHub.getSnapshots(),
+      this.kalshiHub.getSnapshots(),
+    );
+    for (const engine of this.engines) {
+      engine.evaluate(poly, kalshi, nowMs);
+    }
+  }
+}
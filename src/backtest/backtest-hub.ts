@@ -5,6 +5,8 @@ import type {
   OrderBookSnapshot,
 } from "../services/market-data-hub";
 import type {
+  BacktestBookEvent,
+  BacktestBookLevel,
   BacktestCryptoTick,
   BacktestMarketMeta,
   BacktestTradeEvent,
@@ -43,7 +45,7 @@ function parseEnvNumber(
 }
 
 interface BacktestEventEntry {
-  type: "tick" | "market" | "trade";
+  type: "tick" | "market" | "trade" | "book";
   coin: CoinSymbol;
   slug?: string;
 }
@@ -71,6 +73,7 @@ interface BacktestInputs {
   marketsByCoin: Map<CoinSymbol, BacktestMarketMeta[]>;
   tradeFilesBySlug: Map<string, string>;
   cryptoTickFilesByCoin: Map<CoinSymbol, string>;
+  bookFilesBySlug?: Map<string, string>;
   tradeRangesBySlug?: Map<string, TradeRange>;
   tickRangesByCoin?: Map<CoinSymbol, TickRange>;
   latencyMs: number;
@@ -80,6 +83,7 @@ export class BacktestHub {
   private marketsByCoin: Map<CoinSymbol, BacktestMarketMeta[]>;
   private tradeFilesBySlug: Map<string, string>;
   private cryptoTickFilesByCoin: Map<CoinSymbol, string>;
+  private bookFilesBySlug: Map<string, string>;
   private tradeRangesBySlug?: Map<string, TradeRange>;
   private tickRangesByCoin?: Map<CoinSymbol, TickRange>;
   private latencyMs: number;
@@ -90,7 +94,10 @@ export class BacktestHub {
     new Map();
   private tickStreamsByCoin: Map<CoinSymbol, JsonlSyncReader<BacktestCryptoTick>> =
     new Map();
+  private bookStreamsBySlug: Map<string, JsonlSyncReader<BacktestBookEvent>> =
+    new Map();
   private finishedTradeSlugs: Set<string> = new Set();
+  private finishedBookSlugs: Set<string> = new Set();
   private currentTimeMs = 0;
   private minTimeMs = 0;
   private maxTimeMs = 0;
@@ -102,6 +109,7 @@ export class BacktestHub {
     this.marketsByCoin = inputs.marketsByCoin;
     this.tradeFilesBySlug = inputs.tradeFilesBySlug;
     this.cryptoTickFilesByCoin = inputs.cryptoTickFilesByCoin;
+    this.bookFilesBySlug = inputs.bookFilesBySlug ?? new Map();
     this.tradeRangesBySlug = inputs.tradeRangesBySlug;
     this.tickRangesByCoin = inputs.tickRangesByCoin;
     this.latencyMs = inputs.latencyMs;
@@ -168,6 +176,15 @@ export class BacktestHub {
       }
     }
 
+    for (const state of this.states.values()) {
+      const stream = this.getBookStream(state.slug);
+      if (!stream) continue;
+      const book = stream.peek();
+      if (book) {
+        next = next === null ? book.timestamp : Math.min(next, book.timestamp);
+      }
+    }
+
     return next;
   }
 
@@ -175,6 +192,7 @@ export class BacktestHub {
     this.currentTimeMs = timeMs;
     this.activateMarkets(timeMs);
     this.processCryptoTicks(timeMs);
+    this.processBooks(timeMs);
     this.processTrades(timeMs);
     this.updateSnapshots(timeMs);
   }
@@ -189,6 +207,10 @@ export class BacktestHub {
     for (const stream of this.tradeStreamsBySlug.values()) {
       stream.close();
     }
+    for (const stream of this.bookStreamsBySlug.values()) {
+      stream.close();
+    }
+    this.bookStreamsBySlug.clear();
     for (const stream of this.tickStreamsByCoin.values()) {
       stream.close();
     }
@@ -281,6 +303,56 @@ export class BacktestHub {
     return stream;
   }
 
+  private getBookStream(slug: string): JsonlSyncReader<BacktestBookEvent> | null {
+    if (this.finishedBookSlugs.has(slug)) return null;
+    const existing = this.bookStreamsBySlug.get(slug);
+    if (existing) return existing;
+    const filePath = this.bookFilesBySlug.get(slug);
+    if (!filePath) return null;
+
+    const bufferLines = parseEnvNumber(
+      "BACKTEST_STREAM_BOOK_BUFFER_LINES",
+      2000,
+      100,
+    );
+    const chunkSize = parseEnvNumber(
+      "BACKTEST_STREAM_CHUNK_BYTES",
+      1 << 20,
+      4096,
+    );
+
+    const stream = new JsonlSyncReader<BacktestBookEvent>(filePath, {
+      bufferLines,
+      chunkSize,
+      parse: (line) => {
+        const record = JSON.parse(line) as BacktestBookEvent;
+        if (!record || typeof record !== "object") return null;
+        const timestamp = Number(record.timestamp);
+        if (!Number.isFinite(timestamp) || !record.tokenId) return null;
+        if (record.timestamp !== timestamp) record.timestamp = timestamp;
+        if (!Array.isArray(record.bids)) record.bids = [];
+        if (!Array.isArray(record.asks)) record.asks = [];
+        return record;
+      },
+      onError: (error) => {
+        console.warn(
+          `[backtest] Failed to parse book line for ${slug}: ${error.message}`,
+        );
+      },
+    });
+
+    this.bookStreamsBySlug.set(slug, stream);
+    return stream;
+  }
+
+  private closeBookStream(slug: string): void {
+    const stream = this.bookStreamsBySlug.get(slug);
+    if (!stream) return;
+    stream.close();
+    this.bookStreamsBySlug.delete(slug);
+    this.finishedBookSlugs.add(slug);
+  }
+
   private closeTradeStream(slug: string, markFinished: boolean): void {
     const stream = this.tradeStreamsBySlug.get(slug);
     if (!stream) return;
@@ -297,6 +369,7 @@ export class BacktestHub {
       this.updateMarketEvent(coin);
       this.eventQueue.remove(`tick:${coin}`);
       this.eventQueue.remove(`trade:${coin}`);
+      this.eventQueue.remove(`book:${coin}`);
     }
   }
 
@@ -362,6 +435,21 @@ export class BacktestHub {
     });
   }
 
+  private updateBookEvent(coin: CoinSymbol, slug: string | undefined): void {
+    if (!this.useEventQueue) return;
+    const stream = slug ? this.getBookStream(slug) : null;
+    const nextBook = stream?.peek();
+    if (!nextBook || !slug) {
+      this.eventQueue.remove(`book:${coin}`);
+      return;
+    }
+    this.eventQueue.upsert(`book:${coin}`, nextBook.timestamp, {
+      type: "book",
+      coin,
+      slug,
+    });
+  }
+
   isDone(): boolean {
     return this.currentTimeMs >= this.maxTimeMs;
   }
@@ -374,6 +462,7 @@ export class BacktestHub {
         const prevSlug = this.activeSlugByCoin.get(coin);
         if (prevSlug) {
           this.closeTradeStream(prevSlug, true);
+          this.closeBookStream(prevSlug);
         }
         this.activeSlugByCoin.delete(coin);
       }
@@ -394,6 +483,7 @@ export class BacktestHub {
           this.getTradeStream(next.slug);
           this.markDirty(coin);
           this.updateTradeEvent(coin, next.slug);
+          this.updateBookEvent(coin, next.slug);
           this.updateTickEvent(coin);
           break;
         }
@@ -464,6 +554,7 @@ export class BacktestHub {
         continue;
       }
 
+      const hasRecordedBook = this.bookFilesBySlug.has(state.slug);
       let didUpdate = false;
       while (true) {
         const trade = stream.peek();
@@ -472,6 +563,13 @@ export class BacktestHub {
         stream.shift();
 
         const existing = state.orderBooks.get(trade.tokenId);
+        if (hasRecordedBook) {
+          // Recorded L2 books are authoritative; prints only feed signals.
+          if (existing) existing.lastTrade = trade.price;
+          state.recentTrades.push(trade);
+          didUpdate = true;
+          continue;
+        }
         let bids = existing?.bids ?? [];
         let asks = existing?.asks ?? [];
         let updatedBid = false;
@@ -549,6 +647,86 @@ export class BacktestHub {
     }
   }
 
+  private processBooks(timeMs: number): void {
+    if (this.bookFilesBySlug.size === 0) return;
+    for (const state of this.states.values()) {
+      const stream = this.getBookStream(state.slug);
+      if (!stream) {
+        this.updateBookEvent(state.coin, undefined);
+        continue;
+      }
+
+      let didUpdate = false;
+      while (true) {
+        const event = stream.peek();
+        if (!event) break;
+        if (event.timestamp > timeMs) break;
+        stream.shift();
+
+        const previous = state.orderBooks.get(event.tokenId);
+        const isDelta = event.kind === "delta";
+        const bids = (isDelta
+          ? this.mergeBookLevels(previous?.bids ?? [], event.bids)
+          : event.bids.filter((level) => level.size > 0)
+        ).sort((a, b) => b.price - a.price);
+        const asks = (isDelta
+          ? this.mergeBookLevels(previous?.asks ?? [], event.asks)
+          : event.asks.filter((level) => level.size > 0)
+        ).sort((a, b) => a.price - b.price);
+        let totalBidValue = 0;
+        let totalAskValue = 0;
+        for (const bid of bids) totalBidValue += bid.price * bid.size;
+        for (const ask of asks) totalAskValue += ask.price * ask.size;
+
+        state.orderBooks.set(event.tokenId, {
+          bids,
+          asks,
+          lastTrade: previous?.lastTrade ?? 0,
+          totalBidValue,
+          totalAskValue,
+        });
+        if (bids[0]) {
+          state.bestBid.set(event.tokenId, bids[0].price);
+        } else {
+          state.bestBid.delete(event.tokenId);
+        }
+        if (asks[0]) {
+          state.bestAsk.set(event.tokenId, asks[0].price);
+        } else {
+          state.bestAsk.delete(event.tokenId);
+        }
+        state.lastBookUpdateMs = event.timestamp;
+        didUpdate = true;
+      }
+
+      if (didUpdate) {
+        this.markDirty(state.coin);
+      }
+      this.updateBookEvent(state.coin, state.slug);
+    }
+  }
+
+  private mergeBookLevels(
+    current: OrderBookLevel[],
+    updates: BacktestBookLevel[],
+  ): OrderBookLevel[] {
+    const byPrice = new Map<number, number>();
+    for (const level of current) {
+      byPrice.set(level.price, level.size);
+    }
+    for (const level of updates) {
+      if (level.size > 0) {
+        byPrice.set(level.price, level.size);
+      } else {
+        byPrice.delete(level.price);
+      }
+    }
+    return Array.from(byPrice.entries()).map(([price, size]) => ({
+      price,
+      size,
+    }));
+  }
+
   private collectLevels(
     levels: BacktestTradeLevel[],
     side: "BUY" | "SELL",
@@ -607,15 +785,19 @@ export class BacktestHub {
     meta: BacktestMarketMeta,
     timeMs: number,
   ): BacktestMarketState {
+    const priceToBeat = meta.priceToBeat ?? 0;
     return {
+      provider: meta.provider,
       coin: meta.coin,
       symbol: `${meta.coin}/usd`,
       marketName: meta.marketName,
       slug: meta.slug,
+      marketTicker: meta.marketTicker ?? null,
       timeLeftSec: (meta.endMs - timeMs) / 1000,
-      priceToBeat: 0,
-      referencePrice: 0,
-      referenceSource: "missing",
+      marketCloseTimeMs: meta.endMs,
+      priceToBeat,
+      referencePrice: priceToBeat,
+      referenceSource: priceToBeat > 0 ? "price_to_beat" : "missing",
       cryptoPrice: 0,
       cryptoPriceTimestamp: 0,
       dataStatus: "unknown",
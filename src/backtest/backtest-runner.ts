@@ -4,6 +4,16 @@ import type { ProfileViewState } from "../cli/profile-dashboard";
 import type { BacktestHub } from "./backtest-hub";
 import type { CoinSymbol } from "../services/auto-market";
 import type { MarketSnapshot } from "../services/market-data-hub";
+import type { RiskManager } from "../services/risk-manager";
+import {
+  REPLAY_MAX_SPEED,
+  REPLAY_MIN_SPEED,
+  marketRotated,
+  openMarkets,
+  type ReplayBookmark,
+  type ReplayClockState,
+  type ReplayControls,
+} from "./replay-controls";
 
 function parseEnvFlag(name: string, defaultValue: boolean): boolean {
   const raw = process.env[name];
@@ -22,13 +32,18 @@ export interface BacktestRunnerOptions {
   activeProfileIndex: () => number;
   setActiveProfileIndex: (index: number) => void;
   selectedCoins: CoinSymbol[];
+  /** Shared portfolio risk, shown on the dashboard. */
+  risk?: RiskManager;
   onComplete?: () => void;
   render?: boolean;
   headless?: boolean;
   headlessLogEveryMs?: number;
+  /** Shows the replay clock; the keys are wired up by the caller. */
+  replay?: boolean;
+  onBookmark?: (bookmark: ReplayBookmark) => void;
 }
 
-export class BacktestRunner {
+export class BacktestRunner implements ReplayControls {
   private hub: BacktestHub;
   private engines: ProfileEngine[];
   private dashboard: ProfileDashboard;
@@ -41,6 +56,11 @@ export class BacktestRunner {
   private headlessLogEveryMs = 15000;
   private headlessLogIndex: Map<string, number> = new Map();
   private useDirtyEval = parseEnvFlag("BACKTEST_DIRTY_EVAL", true);
+  private speed = 0;
+  private paused = false;
+  private replayInput: string | null = null;
+  private replayStatus: string | null = null;
+  private bookmarks: ReplayBookmark[] = [];
 
   constructor(
     hub: BacktestHub,
@@ -56,6 +76,7 @@ export class BacktestRunner {
 
   start(): void {
     const speed = this.options.speed;
+    this.speed = speed;
     const isMaxSpeed = !Number.isFinite(speed) || speed <= 0;
     this.tickIntervalMs = this.options.tickIntervalMs ?? 250;
 
@@ -85,6 +106,120 @@ export class BacktestRunner {
     }
   }
 
+  getCurrentTimeMs(): number {
+    return this.currentTime;
+  }
+
+  /** Redraws the dashboard now, e.g. after a profile switch while paused. */
+  refresh(): void {
+    if (this.options.render === false || this.options.headless) {
+      return;
+    }
+    this.renderDashboard(this.hub.getSnapshots(), true);
+  }
+
+  togglePause(): void {
+    this.paused = !this.paused;
+    this.replayStatus = null;
+    if (this.paused) {
+      this.stop();
+      this.refresh();
+      return;
+    }
+    this.scheduleNextTick();
+  }
+
+  stepEvent(): void {
+    this.pause();
+    const hubNext = this.hub.getNextEventTime();
+    const target = hubNext !== null && hubNext > this.currentTime ? hubNext : this.currentTime + 1;
+    this.processUntil(target, false);
+    this.replayStatus = null;
+    this.refresh();
+  }
+
+  stepDecision(): void {
+    this.pause();
+    const decisionsBefore = this.countDecisions();
+    const found = this.playUntil(() => this.countDecisions() > decisionsBefore);
+    this.replayStatus = found ? "Stopped at a trade decision" : "No further trade decisions";
+    this.refresh();
+  }
+
+  seekNextRotation(): void {
+    const marketsBefore = openMarkets(this.hub.getSnapshots());
+    const found = this.playUntil(() => marketRotated(marketsBefore, openMarkets(this.hub.getSnapshots())));
+    this.replayStatus = found ? "Stopped at a market rotation" : "No further market rotations";
+    this.refresh();
+  }
+
+  seekTo(targetMs: number): void {
+    if (targetMs <= this.currentTime) {
+      this.replayStatus = "Replay only runs forward; pick a later time";
+      this.refresh();
+      return;
+    }
+    this.processUntil(targetMs, false);
+    this.replayStatus =
+      targetMs > this.hub.getEndTimeMs() ? "Target is past the end of the data" : null;
+    this.refresh();
+  }
+
+  scaleSpeed(factor: number): void {
+    this.speed = Math.min(REPLAY_MAX_SPEED, Math.max(REPLAY_MIN_SPEED, this.speed * factor));
+    this.replayStatus = null;
+    if (this.timer) {
+      this.stop();
+      this.scheduleNextTick();
+    }
+    this.refresh();
+  }
+
+  addBookmark(): void {
+    const bookmark: ReplayBookmark = {
+      index: this.bookmarks.length + 1,
+      timeMs: this.currentTime,
+      markets: [...openMarkets(this.hub.getSnapshots()).values()],
+    };
+    this.bookmarks.push(bookmark);
+    this.options.onBookmark?.(bookmark);
+    this.replayStatus = `Bookmark #${bookmark.index} at ${new Date(bookmark.timeMs).toISOString()}`;
+    this.refresh();
+  }
+
+  setInput(input: string | null): void {
+    this.replayInput = input;
+    this.refresh();
+  }
+
+  setStatus(status: string | null): void {
+    this.replayStatus = status;
+    this.refresh();
+  }
+
+  private pause(): void {
+    this.paused = true;
+    this.stop();
+  }
+
+  private countDecisions(): number {
+    let count = 0;
+    for (const engine of this.engines) {
+      count += engine.getDecisionCount();
+    }
+    return count;
+  }
+
+  /** Steps without rendering until `reached` holds; false at the end of the data. */
+  private playUntil(reached: () => boolean): boolean {
+    const endTime = this.hub.getEndTimeMs();
+    while (this.currentTime < endTime) {
+      this.processUntil(endTime, false, 1);
+      if (reached()) return true;
+    }
+    return false;
+  }
+
   private runMaxSpeed(): void {
     const endTime = this.hub.getEndTimeMs();
     this.processUntil(endTime, false);
@@ -92,13 +227,16 @@ export class BacktestRunner {
   }
 
   private scheduleNextTick(): void {
+    if (this.paused) {
+      return;
+    }
     const endTime = this.hub.getEndTimeMs();
     if (this.currentTime >= endTime) {
       this.options.onComplete?.();
       return;
     }
 
-    const speed = this.options.speed;
+    const speed = this.speed;
     const frameMs = this.tickIntervalMs;
     const delayMs = Math.max(0, Math.floor(frameMs / speed));
     const targetTime = Math.min(endTime, this.currentTime + frameMs);
@@ -109,11 +247,17 @@ export class BacktestRunner {
     }, delayMs);
   }
 
-  private processUntil(targetTime: number, render: boolean): void {
+  private processUntil(
+    targetTime: number,
+    render: boolean,
+    maxSteps: number = Number.POSITIVE_INFINITY,
+  ): void {
     const endTime = this.hub.getEndTimeMs();
     const cappedTarget = Math.min(targetTime, endTime);
 
-    while (this.currentTime < cappedTarget) {
+    let steps = 0;
+    while (this.currentTime < cappedTarget && steps < maxSteps) {
+      steps += 1;
       const nextTime = this.getNextStepTime(cappedTarget);
       if (nextTime === null) {
         break;
@@ -191,51 +335,7 @@ export class BacktestRunner {
         return;
       }
 
-      const profileViews: ProfileViewState[] = this.engines.map((engine) => ({
-        name: engine.getName(),
-        summary: engine.getSummary(),
-        markets: engine.getMarketViews(),
-        logs: engine.getLogs(),
-        pnlHistory: engine.getPnlHistory(),
-      }));
-
-      const activeIndex = Math.min(
-        this.options.activeProfileIndex(),
-        profileViews.length - 1,
-      );
-      const activeProfile = profileViews[activeIndex];
-      const activeCoin =
-        activeProfile && activeProfile.markets.length > 0
-          ? activeProfile.markets[0]?.coin ?? null
-          : this.options.selectedCoins[0] || null;
-      const snap = activeCoin ? snapshots.get(activeCoin) : undefined;
-      const isKalshi = snap?.provider === "kalshi";
-      const usingMarketHistory = Boolean(
-        isKalshi && snap?.kalshiMarketPriceHistory?.length,
-      );
-      const activeCoinHistory =
-        activeCoin && snap
-          ? usingMarketHistory
-            ? snap.kalshiMarketPriceHistory
-            : snap.priceHistory || []
-          : [];
-      const activeCoinPriceLabel = isKalshi
-        ? usingMarketHistory
-          ? "Market Price (odds)"
-          : "Spot Price (fallback)"
-        : activeCoin
-          ? `Spot Price (${activeCoin.toUpperCase()})`
-          : "Spot Price";
-
-      this.dashboard.update({
-        runId: this.options.runId,
-        modeLabel: this.options.modeLabel,
-        activeProfileIndex: activeIndex,
-        profiles: profileViews,
-        activeCoin,
-        activeCoinPriceHistory: activeCoinHistory ?? [],
-        activeCoinPriceLabel,
-      });
+      this.renderDashboard(snapshots);
       return;
     }
 
@@ -276,6 +376,13 @@ export class BacktestRunner {
       return;
     }
 
+    this.renderDashboard(snapshots);
+  }
+
+  private renderDashboard(
+    snapshots: Map<CoinSymbol, MarketSnapshot>,
+    force: boolean = false,
+  ): void {
     const profileViews: ProfileViewState[] = this.engines.map((engine) => ({
       name: engine.getName(),
       summary: engine.getSummary(),
@@ -312,15 +419,33 @@ export class BacktestRunner {
         ? `Spot Price (${activeCoin.toUpperCase()})`
         : "Spot Price";
 
-    this.dashboard.update({
-      runId: this.options.runId,
-      modeLabel: this.options.modeLabel,
-      activeProfileIndex: activeIndex,
-      profiles: profileViews,
-      activeCoin,
-      activeCoinPriceHistory: activeCoinHistory ?? [],
-      activeCoinPriceLabel,
-    });
+    this.dashboard.update(
+      {
+        runId: this.options.runId,
+        modeLabel: this.options.modeLabel,
+        activeProfileIndex: activeIndex,
+        profiles: profileViews,
+        activeCoin,
+        activeCoinPriceHistory: activeCoinHistory ?? [],
+        activeCoinPriceLabel,
+        risk: this.options.risk?.getState(),
+        replay: this.options.replay ? this.getReplayClock() : undefined,
+      },
+      force,
+    );
+  }
+
+  private getReplayClock(): ReplayClockState {
+    return {
+      timeMs: this.currentTime,
+      startMs: this.hub.getStartTimeMs(),
+      endMs: this.hub.getEndTimeMs(),
+      speed: this.speed,
+      paused: this.paused,
+      input: this.replayInput,
+      status: this.replayStatus,
+      bookmarks: this.bookmarks,
+    };
   }
 
   private logHeadlessSnapshot(
@@ -4,6 +4,7 @@ import { Readable } from "stream";
 import * as readline from "readline";
 import * as unzipper from "unzipper";
 import type { CoinSymbol } from "../services/auto-market";
+import { getCoinRegistry } from "../services/coin-registry";
 import type { BacktestCryptoTick } from "./types";
 import { writeJsonlLines } from "./jsonl";
 import { mapWithConcurrency } from "./concurrency";
@@ -54,13 +55,6 @@ const BINANCE_PROGRESS_EVERY = Number.isFinite(progressRaw)
   ? Math.max(1, Math.floor(progressRaw))
   : 10;
 
-const COIN_TO_SYMBOL: Record<CoinSymbol, string> = {
-  eth: "ETHUSDT",
-  btc: "BTCUSDT",
-  sol: "SOLUSDT",
-  xrp: "XRPUSDT",
-};
-
 interface BinanceAggTrade {
   a: number;
   p: string;
@@ -545,11 +539,10 @@ async function fetchBinanceAggTradesHistory(
   log?.(`Binance REST base: ${baseUrl}`, "INFO");
 
   await mapWithConcurrency(coins, concurrency, async (coin) => {
-    const symbol = COIN_TO_SYMBOL[coin];
+    const { binanceSymbol: symbol, rtdsSymbol: outSymbol } = getCoinRegistry().get(coin);
     if (!symbol) {
       throw new Error(`No Binance symbol configured for coin ${coin}.`);
     }
-    const outSymbol = `${coin}/usd`;
     const override = request.outputOverrides?.[coin];
     const outPath = override?.path ?? join(dataDir, "crypto", `${coin}.jsonl`);
 
@@ -819,11 +812,10 @@ async function fetchBinanceVisionHistory(
   log?.(`Binance Vision mode: ${visionMode}`, "INFO");
 
   await mapWithConcurrency(coins, concurrency, async (coin) => {
-    const symbol = COIN_TO_SYMBOL[coin];
+    const { binanceSymbol: symbol, rtdsSymbol: outSymbol } = getCoinRegistry().get(coin);
     if (!symbol) {
       throw new Error(`No Binance symbol configured for coin ${coin}.`);
     }
-    const outSymbol = `${coin}/usd`;
     const outPath = join(dataDir, "crypto", `${coin}.jsonl`);
     const tempPath = join(dataDir, "crypto", `${coin}.vision.tmp`);
     let totalTicks = 0;
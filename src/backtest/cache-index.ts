@@ -0,0 +1,107 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import type { CoinSymbol } from "../services/auto-market";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cache Index Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CryptoTickCacheEntry {
+  minTs: number;
+  maxTs: number;
+  count: number;
+  lastFetchedAt: number;
+}
+
+export interface MarketTradeCacheEntry {
+  minTs: number;
+  maxTs: number;
+  count: number;
+  truncated: boolean;
+  lastFetchedAt: number;
+}
+
+export interface MarketMetaCacheEntry {
+  slug: string;
+  coin: CoinSymbol;
+  startMs: number;
+  endMs: number;
+  lastFetchedAt: number;
+}
+
+export interface CacheIndex {
+  version: number;
+  cryptoTicks: Record<string, CryptoTickCacheEntry>;
+  marketTrades: Record<string, MarketTradeCacheEntry>;
+  marketMeta: Record<string, MarketMetaCacheEntry>;
+}
+
+export const CACHE_VERSION = 1;
+
+export function getCacheIndexPath(dataDir: string): string {
+  return join(dataDir, "cache", "index.json");
+}
+
+export function loadCacheIndex(dataDir: string): CacheIndex {
+  const indexPath = getCacheIndexPath(dataDir);
+  if (!existsSync(indexPath)) {
+    return {
+      version: CACHE_VERSION,
+      cryptoTicks: {},
+      marketTrades: {},
+      marketMeta: {},
+    };
+  }
+  try {
+    const raw = readFileSync(indexPath, "utf8");
+    const parsed = JSON.parse(raw) as CacheIndex;
+    if (parsed.version !== CACHE_VERSION) {
+      // Version mismatch, return fresh cache
+      return {
+        version: CACHE_VERSION,
+        cryptoTicks: {},
+        marketTrades: {},
+        marketMeta: {},
+      };
+    }
+    return parsed;
+  } catch {
+    return {
+      version: CACHE_VERSION,
+      cryptoTicks: {},
+      marketTrades: {},
+      marketMeta: {},
+    };
+  }
+}
+
+export function saveCacheIndex(dataDir: string, index: CacheIndex): void {
+  const indexPath = getCacheIndexPath(dataDir);
+  const dir = dirname(indexPath);
+  if (dir && dir !== "." && dir !== "\\") {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(indexPath, JSON.stringify(index, null, 2), "utf8");
+}
+
+export function isCryptoTicksCached(
+  index: CacheIndex,
+  coin: CoinSymbol,
+  startMs: number,
+  endMs: number,
+): boolean {
+  const entry = index.cryptoTicks[coin];
+  if (!entry) return false;
+  return entry.minTs <= startMs && entry.maxTs >= endMs;
+}
+
+export function isMarketTradeCached(
+  index: CacheIndex,
+  slug: string,
+  startMs: number,
+  endMs: number,
+): boolean {
+  const entry = index.marketTrades[slug];
+  if (!entry) return false;
+  return entry.minTs <= startMs && entry.maxTs >= endMs;
+}
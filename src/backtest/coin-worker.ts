@@ -1,8 +1,16 @@
 import { join } from "path";
-import type { CoinSymbol } from "../services/auto-market";
+import {
+  DEFAULT_MARKET_HORIZON,
+  type CoinSymbol,
+  type MarketHorizon,
+} from "../services/auto-market";
 import { loadProfilesFromConfig, sanitizeProfileName } from "../services/profile-config";
 import { RunLogger } from "../services/run-logger";
+import { TradeJournal } from "../services/trade-journal";
 import { ProfileEngine } from "../services/profile-engine";
+import { loadFeeModels } from "../services/fee-model";
+import { loadRiskLimits, RiskManager } from "../services/risk-manager";
+import { SeededRng } from "../services/rng";
 import type { TimedTradeConfig } from "../services/profile-engine";
 import { BacktestHub } from "./backtest-hub";
 import { BacktestRunner } from "./backtest-runner";
@@ -18,6 +26,8 @@ type CoinWorkerRequest = {
   runDir: string;
   selectedProfiles: string[];
   latencyMs: number;
+  horizon: MarketHorizon;
+  seed: number;
 };
 
 type CoinWorkerResponse =
@@ -38,11 +48,24 @@ type CoinWorkerResponse =
 const ctx: any = self as any;
 
 ctx.onmessage = async (event: MessageEvent<CoinWorkerRequest>) => {
-  const { coin, dataDir, startMs, endMs, runDir, selectedProfiles, latencyMs } =
-    event.data;
+  const {
+    coin,
+    dataDir,
+    startMs,
+    endMs,
+    runDir,
+    selectedProfiles,
+    latencyMs,
+    horizon,
+    seed,
+  } = event.data;
 
   try {
     const loaded = loadProfilesFromConfig();
+    const fees = loadFeeModels();
+    // The route only starts workers when no cap spans coins, so the
+    // per-coin caps checked here are the whole story.
+    const risk = new RiskManager(loadRiskLimits());
     const profiles = loaded.profiles.filter((profile) =>
       selectedProfiles.includes(profile.name),
     );
@@ -57,7 +80,7 @@ ctx.onmessage = async (event: MessageEvent<CoinWorkerRequest>) => {
       return;
     }
 
-    const data = await loadBacktestData(dataDir, [coin], startMs, endMs);
+    const data = await loadBacktestData(dataDir, [coin], startMs, endMs, horizon);
 
     const hub = new BacktestHub({
       marketsByCoin: data.marketsByCoin,
@@ -68,11 +91,13 @@ ctx.onmessage = async (event: MessageEvent<CoinWorkerRequest>) => {
       latencyMs,
     });
 
+    // Workers write in parallel, so each coin gets its own journal like its logs.
+    const journal = new TradeJournal(join(runDir, `journal-${coin}.jsonl`));
     const profileEngines: ProfileEngine[] = [];
     for (const profile of profiles) {
       const filtered = new Map<CoinSymbol, TimedTradeConfig>();
       const cfg = profile.configs.get(coin);
-      if (cfg) {
+      if (cfg && (cfg.horizon ?? DEFAULT_MARKET_HORIZON) === horizon) {
         filtered.set(coin, cfg);
       }
       if (filtered.size === 0) continue;
@@ -85,6 +110,10 @@ ctx.onmessage = async (event: MessageEvent<CoinWorkerRequest>) => {
           decisionLatencyMs: 250,
           crossDebug: true,
           crossAllowNoFlip: true,
+          fees,
+          risk,
+          journal,
+          rng: new SeededRng(seed).fork(`profile:${profile.name}`),
         }),
       );
     }
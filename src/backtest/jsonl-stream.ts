@@ -1,4 +1,14 @@
-import { openSync, readSync, closeSync } from "fs";
+import {
+  closeSync,
+  existsSync,
+  openSync,
+  readFileSync,
+  readSync,
+  readdirSync,
+  statSync,
+} from "fs";
+import { join } from "path";
+import { gunzipSync } from "zlib";
 
 type ParseFn<T> = (line: string) => T | null;
 type ErrorFn = (error: Error, line: string) => void;
@@ -10,8 +20,45 @@ interface JsonlStreamOptions<T> {
   onError?: ErrorFn;
 }
 
+const JSONL_EXTENSIONS = [".jsonl", ".jsonl.gz"];
+
+function isJsonlFile(name: string): boolean {
+  return JSONL_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+/**
+ * Finds `<dir>/<name>.jsonl`, `<dir>/<name>.jsonl.gz`, or a `<dir>/<name>/`
+ * directory of rotated segments, in that order.
+ */
+export function resolveJsonlSource(dir: string, name: string): string | null {
+  for (const ext of JSONL_EXTENSIONS) {
+    const candidate = join(dir, `${name}${ext}`);
+    if (existsSync(candidate)) return candidate;
+  }
+  const segmentDir = join(dir, name);
+  if (existsSync(segmentDir) && statSync(segmentDir).isDirectory()) {
+    return segmentDir;
+  }
+  return null;
+}
+
+function listJsonlSegments(filePath: string): string[] {
+  if (!statSync(filePath).isDirectory()) return [filePath];
+  return readdirSync(filePath)
+    .filter(isJsonlFile)
+    .sort()
+    .map((name) => join(filePath, name));
+}
+
+/**
+ * Streams JSONL records from a plain file, a gzip file (inflated whole, so keep
+ * segments small), or a directory whose segments are read in name order.
+ */
 export class JsonlSyncReader<T> {
-  private fd: number | null;
+  private segments: string[];
+  private segmentIndex = -1;
+  private fd: number | null = null;
+  private inflated: Buffer | null = null;
   private position = 0;
   private leftover = "";
   private buffer: T[] = [];
@@ -24,7 +71,7 @@ export class JsonlSyncReader<T> {
   private readonly chunkBuffer: Buffer;
 
   constructor(filePath: string, options: JsonlStreamOptions<T> = {}) {
-    this.fd = openSync(filePath, "r");
+    this.segments = listJsonlSegments(filePath);
     this.chunkSize = Math.max(4096, options.chunkSize ?? 1 << 20);
     this.bufferLines = Math.max(1, options.bufferLines ?? 2000);
     this.parseLine =
@@ -34,6 +81,7 @@ export class JsonlSyncReader<T> {
       });
     this.onError = options.onError;
     this.chunkBuffer = Buffer.alloc(this.chunkSize);
+    this.openNextSegment();
   }
 
   peek(): T | null {
@@ -47,30 +95,67 @@ export class JsonlSyncReader<T> {
   }
 
   close(): void {
+    this.closeSegment();
+    this.segmentIndex = this.segments.length;
+    this.eof = true;
+  }
+
+  private closeSegment(): void {
     if (this.fd !== null) {
       closeSync(this.fd);
       this.fd = null;
     }
+    this.inflated = null;
+  }
+
+  private openNextSegment(): boolean {
+    this.closeSegment();
+    this.segmentIndex += 1;
+    this.position = 0;
+    const segment = this.segments[this.segmentIndex];
+    if (!segment) {
+      this.eof = true;
+      return false;
+    }
+    if (segment.endsWith(".gz")) {
+      this.inflated = gunzipSync(readFileSync(segment));
+    } else {
+      this.fd = openSync(segment, "r");
+    }
+    return true;
+  }
+
+  private readChunk(): Buffer | null {
+    if (this.inflated) {
+      if (this.position >= this.inflated.length) return null;
+      const end = Math.min(this.inflated.length, this.position + this.chunkSize);
+      const chunk = this.inflated.subarray(this.position, end);
+      this.position = end;
+      return chunk;
+    }
+    if (this.fd === null) return null;
+    const bytesRead = readSync(
+      this.fd,
+      this.chunkBuffer,
+      0,
+      this.chunkBuffer.length,
+      this.position,
+    );
+    if (bytesRead <= 0) return null;
+    this.position += bytesRead;
+    return this.chunkBuffer.subarray(0, bytesRead);
   }
 
   private fillBuffer(minLines: number): void {
-    if (this.eof || this.fd === null) return;
+    if (this.eof) return;
     while (this.buffer.length < Math.max(minLines, this.bufferLines) && !this.eof) {
-      const bytesRead = readSync(
-        this.fd,
-        this.chunkBuffer,
-        0,
-        this.chunkBuffer.length,
-        this.position,
-      );
-      if (bytesRead <= 0) {
-        this.eof = true;
+      const chunk = this.readChunk();
+      if (!chunk) {
         this.flushLeftover();
-        return;
+        this.openNextSegment();
+        continue;
       }
-      const chunk = this.chunkBuffer.subarray(0, bytesRead).toString("utf8");
-      this.position += bytesRead;
-      this.consumeChunk(chunk);
+      this.consumeChunk(chunk.toString("utf8"));
     }
   }
 
@@ -88,8 +173,8 @@ export class JsonlSyncReader<T> {
   private flushLeftover(): void {
     const trimmed = this.leftover.trim();
     if (!trimmed) return;
-    this.pushParsed(trimmed);
     this.leftover = "";
+    this.pushParsed(trimmed);
   }
 
   private pushParsed(line: string): void {
@@ -0,0 +1,516 @@
+import { existsSync, renameSync, unlinkSync } from "fs";
+import { join } from "path";
+import type {
+  KalshiClient,
+  KalshiMarket,
+  KalshiTrade,
+} from "../clients/kalshi/kalshi-client";
+import type { CoinSymbol } from "../services/auto-market";
+import { parseStrikePrice } from "../services/kalshi-market-data-hub";
+import type { KalshiCoinSelection } from "../services/profile-config";
+import { parseKalshiOfficialOutcome } from "../services/outcome-resolution";
+import type { BacktestMarketMeta, BacktestTradeEvent } from "./types";
+import { readJsonlFile, writeJsonlLines } from "./jsonl";
+import { mapWithConcurrency } from "./concurrency";
+import { sortTradesChronologically } from "./trade-utils";
+import {
+  isMarketTradeCached,
+  loadCacheIndex,
+  saveCacheIndex,
+  type CacheIndex,
+} from "./cache-index";
+
+const DEFAULT_MARKETS_LIMIT = 1000;
+const DEFAULT_TRADES_LIMIT = 1000;
+const MAX_MARKETS_PAGES = 50;
+const CLOSE_LOOKAHEAD_SEC = 24 * 60 * 60;
+
+const delayRaw = Number(process.env.KALSHI_FETCH_DELAY_MS);
+const FETCH_DELAY_MS = Number.isFinite(delayRaw) ? Math.max(0, delayRaw) : 100;
+const retriesRaw = Number(process.env.KALSHI_FETCH_RETRIES);
+const FETCH_MAX_RETRIES = Number.isFinite(retriesRaw)
+  ? Math.max(0, Math.floor(retriesRaw))
+  : 5;
+const maxPagesRaw = Number(process.env.KALSHI_FETCH_MAX_TRADE_PAGES);
+const MAX_TRADE_PAGES = Number.isFinite(maxPagesRaw)
+  ? Math.max(1, Math.floor(maxPagesRaw))
+  : 100;
+const tradeEndGraceRaw = Number(process.env.KALSHI_TRADE_END_GRACE_MS);
+const TRADE_END_GRACE_MS = Number.isFinite(tradeEndGraceRaw)
+  ? Math.max(0, Math.floor(tradeEndGraceRaw))
+  : 60_000;
+const tradeConcurrencyRaw = Number(process.env.KALSHI_FETCH_CONCURRENCY);
+const TRADE_CONCURRENCY = Number.isFinite(tradeConcurrencyRaw)
+  ? tradeConcurrencyRaw
+  : 2;
+const progressEveryRaw = Number(process.env.BACKTEST_PROGRESS_EVERY);
+const PROGRESS_EVERY = Number.isFinite(progressEveryRaw)
+  ? Math.max(1, Math.floor(progressEveryRaw))
+  : 10;
+const truncationCooldownRaw = Number(process.env.BACKTEST_TRUNCATION_COOLDOWN_MS);
+const TRUNCATION_COOLDOWN_MS = Number.isFinite(truncationCooldownRaw)
+  ? Math.max(500, Math.floor(truncationCooldownRaw))
+  : 2000;
+const truncationSplitsRaw = Number(process.env.KALSHI_FETCH_TRUNCATION_SPLITS);
+const TRUNCATION_MAX_SPLITS = Number.isFinite(truncationSplitsRaw)
+  ? Math.max(0, Math.floor(truncationSplitsRaw))
+  : 3;
+
+type LogLevel = "INFO" | "WARN" | "ERROR";
+type LogFn = (message: string, level?: LogLevel) => void;
+
+export interface KalshiHistoryResult {
+  markets: BacktestMarketMeta[];
+  emptyMarkets: string[];
+  truncatedMarkets: string[];
+  cachedMarkets: number;
+}
+
+interface TradeWindow {
+  minTs: number;
+  maxTs: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseRetryAfterMs(value: unknown): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.floor(seconds * 1000));
+  }
+  const dateMs = Date.parse(String(value));
+  if (!Number.isNaN(dateMs)) {
+    return Math.max(0, dateMs - Date.now());
+  }
+  return null;
+}
+
+function computeBackoffMs(attempt: number, retryAfterMs: number | null): number {
+  if (retryAfterMs !== null) {
+    return retryAfterMs;
+  }
+  const base = Math.max(250, FETCH_DELAY_MS) * Math.pow(2, attempt);
+  const jitter = Math.floor(base * 0.2 * Math.random());
+  return base + jitter;
+}
+
+/**
+ * Runs a Kalshi API call, retrying rate limits, server errors and network
+ * failures with backoff. Client errors (other 4xx) are thrown immediately.
+ */
+async function withRetry<T>(
+  label: string,
+  call: () => Promise<T>,
+  log?: LogFn,
+): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await call();
+    } catch (error) {
+      const response = (
+        error as {
+          response?: { status?: number; headers?: Record<string, unknown> };
+        }
+      )?.response;
+      const status = typeof response?.status === "number" ? response.status : null;
+      const retryable = status === null || status === 429 || status >= 500;
+      if (!retryable || attempt >= FETCH_MAX_RETRIES) {
+        throw error;
+      }
+      const waitMs = computeBackoffMs(
+        attempt,
+        parseRetryAfterMs(response?.headers?.["retry-after"]),
+      );
+      log?.(
+        `Kalshi ${label} failed (${status ?? "network"}); retry ${attempt + 1}/${FETCH_MAX_RETRIES} in ${waitMs}ms.`,
+        "WARN",
+      );
+      await sleep(waitMs);
+    }
+  }
+}
+
+function parseTimeMs(value: unknown): number | null {
+  if (typeof value !== "string" || !value) return null;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function parsePrice(dollars: unknown, cents: unknown): number | null {
+  const fromDollars = typeof dollars === "string" ? Number(dollars) : NaN;
+  if (Number.isFinite(fromDollars) && fromDollars > 0) return fromDollars;
+  const fromCents = typeof cents === "number" ? cents : Number(cents);
+  if (Number.isFinite(fromCents) && fromCents > 0) return fromCents / 100;
+  return null;
+}
+
+/**
+ * Maps a settled Kalshi market onto the shared backtest market layout: the
+ * ticker doubles as slug, YES/NO are the token ids and the strike is the
+ * price to beat. Returns null when the window or ticker is missing.
+ */
+export function normalizeKalshiMarket(
+  market: KalshiMarket,
+  coin: CoinSymbol,
+): BacktestMarketMeta | null {
+  const record = market as Record<string, unknown>;
+  const ticker = market.ticker ?? market.market_ticker;
+  if (!ticker) return null;
+  const endMs = parseTimeMs(market.close_time ?? market.closeTime);
+  const startMs = parseTimeMs(record.open_time);
+  if (endMs === null || startMs === null || startMs >= endMs) return null;
+
+  const meta: BacktestMarketMeta = {
+    slug: ticker,
+    coin,
+    marketName: market.title ?? ticker,
+    startMs,
+    endMs,
+    upTokenId: "YES",
+    downTokenId: "NO",
+    provider: "kalshi",
+    marketTicker: ticker,
+  };
+  const strike = parseStrikePrice(record);
+  if (strike > 0) meta.priceToBeat = strike;
+  const official = parseKalshiOfficialOutcome(record);
+  if (official.outcome === "UP" || official.outcome === "DOWN") {
+    meta.outcome = official.outcome;
+  }
+  return meta;
+}
+
+/**
+ * Normalizes one Kalshi trade as a taker buy of the side it lifted, priced in
+ * dollars. Every Kalshi fill is also the opposite side's sale at 1 - price,
+ * which the hub does not need.
+ */
+export function normalizeKalshiTrade(trade: KalshiTrade): BacktestTradeEvent | null {
+  const timestamp = parseTimeMs(trade.created_time);
+  if (timestamp === null) return null;
+  const side = String(trade.taker_side ?? "").toLowerCase();
+  if (side !== "yes" && side !== "no") return null;
+  const price =
+    side === "yes"
+      ? parsePrice(trade.yes_price_dollars, trade.yes_price)
+      : parsePrice(trade.no_price_dollars, trade.no_price);
+  const size = Number(trade.count_fp ?? trade.count);
+  if (price === null || !Number.isFinite(size) || size <= 0) return null;
+  return {
+    timestamp,
+    tokenId: side === "yes" ? "YES" : "NO",
+    price,
+    size,
+    side: "BUY",
+    tradeId: trade.trade_id,
+  };
+}
+
+export async function fetchKalshiMarketsForRange(
+  client: KalshiClient,
+  coins: CoinSymbol[],
+  selectorsByCoin: Map<CoinSymbol, KalshiCoinSelection>,
+  startMs: number,
+  endMs: number,
+  options?: { log?: LogFn },
+): Promise<BacktestMarketMeta[]> {
+  const log = options?.log;
+  const bySlug = new Map<string, BacktestMarketMeta>();
+  const minCloseTs = Math.floor(startMs / 1000);
+  const maxCloseTs = Math.ceil(endMs / 1000) + CLOSE_LOOKAHEAD_SEC;
+
+  for (const coin of coins) {
+    const seriesTickers = selectorsByCoin.get(coin)?.seriesTickers ?? [];
+    if (seriesTickers.length === 0) {
+      log?.(`No Kalshi seriesTickers configured for ${coin.toUpperCase()}.`, "WARN");
+      continue;
+    }
+    for (const seriesTicker of seriesTickers) {
+      let cursor: string | undefined;
+      let count = 0;
+      for (let page = 0; page < MAX_MARKETS_PAGES; page += 1) {
+        const result = await withRetry(
+          `markets ${seriesTicker}`,
+          () =>
+            client.getMarkets({
+              seriesTicker,
+              status: "settled",
+              minCloseTs,
+              maxCloseTs,
+              limit: DEFAULT_MARKETS_LIMIT,
+              cursor,
+            }),
+          log,
+        );
+        for (const market of result.markets) {
+          const meta = normalizeKalshiMarket(market, coin);
+          if (!meta) continue;
+          if (meta.endMs <= startMs || meta.startMs >= endMs) continue;
+          bySlug.set(meta.slug, meta);
+          count += 1;
+        }
+        cursor = result.cursor || undefined;
+        if (!cursor) break;
+        if (page === MAX_MARKETS_PAGES - 1) {
+          log?.(
+            `Kalshi market listing for ${seriesTicker} hit ${MAX_MARKETS_PAGES} pages; narrow the date range.`,
+            "WARN",
+          );
+        }
+        await sleep(FETCH_DELAY_MS);
+      }
+      log?.(`Kalshi ${seriesTicker}: ${count} settled markets in range.`);
+    }
+  }
+
+  return Array.from(bySlug.values()).sort((a, b) => a.startMs - b.startMs);
+}
+
+async function fetchTradeWindow(
+  client: KalshiClient,
+  ticker: string,
+  window: TradeWindow,
+  log?: LogFn,
+): Promise<{ trades: KalshiTrade[]; truncated: boolean }> {
+  const trades: KalshiTrade[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_TRADE_PAGES; page += 1) {
+    const result = await withRetry(
+      `trades ${ticker}`,
+      () =>
+        client.getTrades({
+          ticker,
+          minTs: window.minTs,
+          maxTs: window.maxTs,
+          limit: DEFAULT_TRADES_LIMIT,
+          cursor,
+        }),
+      log,
+    );
+    trades.push(...result.trades);
+    cursor = result.cursor || undefined;
+    if (!cursor) return { trades, truncated: false };
+    await sleep(FETCH_DELAY_MS);
+  }
+  return { trades, truncated: true };
+}
+
+function tradeKey(trade: KalshiTrade): string {
+  return (
+    trade.trade_id ??
+    `${trade.created_time}:${trade.taker_side}:${trade.yes_price}:${trade.count}`
+  );
+}
+
+/**
+ * Fetches every trade of one market. When a window runs past the page cap it
+ * is split in half after a cooldown and refetched, up to
+ * KALSHI_FETCH_TRUNCATION_SPLITS times, before the market is marked truncated.
+ */
+async function fetchTradesForMarket(
+  client: KalshiClient,
+  market: BacktestMarketMeta,
+  venueDir: string,
+  log?: LogFn,
+): Promise<{ count: number; truncated: boolean }> {
+  const ticker = market.marketTicker ?? market.slug;
+  const byKey = new Map<string, KalshiTrade>();
+  let pending: TradeWindow[] = [
+    {
+      minTs: Math.floor(market.startMs / 1000),
+      maxTs: Math.ceil((market.endMs + TRADE_END_GRACE_MS) / 1000),
+    },
+  ];
+  let truncated = false;
+
+  for (let split = 0; pending.length > 0; split += 1) {
+    const overflow: TradeWindow[] = [];
+    for (const window of pending) {
+      const result = await fetchTradeWindow(client, ticker, window, log);
+      for (const trade of result.trades) {
+        byKey.set(tradeKey(trade), trade);
+      }
+      if (result.truncated) overflow.push(window);
+    }
+    if (overflow.length === 0) break;
+    const splittable = overflow.filter((window) => window.maxTs - window.minTs > 1);
+    if (split >= TRUNCATION_MAX_SPLITS || splittable.length < overflow.length) {
+      truncated = true;
+      log?.(
+        `Market ${market.slug} truncated after ${split} window splits; ${byKey.size} trades recovered.`,
+        "WARN",
+      );
+      break;
+    }
+    const cooldownMs = TRUNCATION_COOLDOWN_MS * Math.pow(1.5, split);
+    log?.(
+      `Trade pagination hit ${MAX_TRADE_PAGES} pages for ${market.slug}; splitting ${overflow.length} window(s) after ${cooldownMs}ms cooldown.`,
+      "WARN",
+    );
+    await sleep(cooldownMs);
+    pending = splittable.flatMap((window) => {
+      const mid = Math.floor((window.minTs + window.maxTs) / 2);
+      return [
+        { minTs: window.minTs, maxTs: mid },
+        { minTs: mid, maxTs: window.maxTs },
+      ];
+    });
+  }
+
+  const normalized: BacktestTradeEvent[] = [];
+  for (const trade of byKey.values()) {
+    const event = normalizeKalshiTrade(trade);
+    if (event) normalized.push(event);
+  }
+  if (normalized.length > 0) {
+    // Write through a temp file so an interrupted run never leaves a partial
+    // trade file that the next run would treat as cached.
+    const tradePath = join(venueDir, "trades", `${market.slug}.jsonl`);
+    const tmpPath = `${tradePath}.tmp`;
+    const sorted = sortTradesChronologically(normalized, market.slug);
+    writeJsonlLines(tmpPath, sorted, { append: false });
+    renameSync(tmpPath, tradePath);
+  }
+  return { count: normalized.length, truncated };
+}
+
+function loadCachedMarkets(venueDir: string): BacktestMarketMeta[] {
+  const marketsPath = join(venueDir, "markets.jsonl");
+  if (!existsSync(marketsPath)) return [];
+  try {
+    return readJsonlFile<BacktestMarketMeta>(marketsPath);
+  } catch {
+    return [];
+  }
+}
+
+function markTradesCached(
+  cacheIndex: CacheIndex,
+  market: BacktestMarketMeta,
+  count: number,
+  truncated: boolean,
+): void {
+  // Settled markets take no more trades, so the fetched window is the
+  // market's whole life; record it as coverage rather than trade bounds.
+  cacheIndex.marketTrades[market.slug] = {
+    minTs: market.startMs,
+    maxTs: market.endMs,
+    count,
+    truncated,
+    lastFetchedAt: Date.now(),
+  };
+}
+
+/**
+ * Downloads settled Kalshi markets for the configured series plus their trade
+ * history into `venueDir` (markets.jsonl, trades/<ticker>.jsonl,
+ * cache/index.json). Markets whose trades are already cached are skipped, and
+ * the index is saved as markets complete so an interrupted run resumes.
+ */
+export async function fetchKalshiHistory(
+  client: KalshiClient,
+  venueDir: string,
+  coins: CoinSymbol[],
+  selectorsByCoin: Map<CoinSymbol, KalshiCoinSelection>,
+  startMs: number,
+  endMs: number,
+  options?: { log?: LogFn; concurrency?: number; progressEvery?: number },
+): Promise<KalshiHistoryResult> {
+  const log = options?.log;
+  const concurrency = options?.concurrency ?? TRADE_CONCURRENCY;
+  const progressEvery = options?.progressEvery ?? PROGRESS_EVERY;
+  log?.(
+    `Fetching Kalshi historical data (${new Date(startMs).toISOString()} -> ${new Date(
+      endMs,
+    ).toISOString()})`,
+  );
+
+  const cacheIndex = loadCacheIndex(venueDir);
+  const fetched = await fetchKalshiMarketsForRange(
+    client,
+    coins,
+    selectorsByCoin,
+    startMs,
+    endMs,
+    { log },
+  );
+  const merged = new Map(loadCachedMarkets(venueDir).map((m) => [m.slug, m]));
+  for (const market of fetched) {
+    merged.set(market.slug, market);
+    cacheIndex.marketMeta[market.slug] = {
+      slug: market.slug,
+      coin: market.coin,
+      startMs: market.startMs,
+      endMs: market.endMs,
+      lastFetchedAt: Date.now(),
+    };
+  }
+  const allMarkets = Array.from(merged.values()).sort((a, b) => a.startMs - b.startMs);
+  writeJsonlLines(join(venueDir, "markets.jsonl"), allMarkets, { append: false });
+
+  const pending: BacktestMarketMeta[] = [];
+  let cachedMarkets = 0;
+  for (const market of fetched) {
+    const tradePath = join(venueDir, "trades", `${market.slug}.jsonl`);
+    const entry = cacheIndex.marketTrades[market.slug];
+    const cached =
+      isMarketTradeCached(cacheIndex, market.slug, market.startMs, market.endMs) &&
+      !entry?.truncated &&
+      (entry?.count === 0 || existsSync(tradePath));
+    if (cached) {
+      cachedMarkets += 1;
+    } else {
+      if (existsSync(`${tradePath}.tmp`)) unlinkSync(`${tradePath}.tmp`);
+      pending.push(market);
+    }
+  }
+  if (cachedMarkets > 0) {
+    log?.(`Cache hit: ${cachedMarkets} Kalshi markets already have trades.`);
+  }
+
+  const results = await mapWithConcurrency(
+    pending,
+    concurrency,
+    async (market) => {
+      try {
+        const result = await fetchTradesForMarket(client, market, venueDir, log);
+        markTradesCached(cacheIndex, market, result.count, result.truncated);
+        return { slug: market.slug, ...result, failed: false };
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Trade fetch failed.";
+        log?.(`Kalshi trade fetch failed for ${market.slug}: ${message}`, "ERROR");
+        return { slug: market.slug, count: 0, truncated: false, failed: true };
+      }
+    },
+    (completed, total) => {
+      if (completed % progressEvery === 0 || completed === total) {
+        saveCacheIndex(venueDir, cacheIndex);
+        log?.(`Kalshi trades fetched for ${completed}/${total} markets.`);
+      }
+    },
+  );
+  saveCacheIndex(venueDir, cacheIndex);
+
+  const emptyMarkets = results
+    .filter((item) => item.count === 0)
+    .map((item) => item.slug);
+  const truncatedMarkets = results
+    .filter((item) => item.truncated)
+    .map((item) => item.slug);
+  const failed = results.filter((item) => item.failed).length;
+  if (failed > 0) {
+    log?.(`Kalshi trades failed for ${failed} markets; rerun to resume.`, "WARN");
+  }
+  if (truncatedMarkets.length > 0) {
+    log?.(
+      `Kalshi trades truncated for ${truncatedMarkets.length} markets (data may be incomplete).`,
+      "WARN",
+    );
+  }
+
+  return { markets: fetched, emptyMarkets, truncatedMarkets, cachedMarkets };
+}
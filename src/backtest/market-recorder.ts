@@ -0,0 +1,534 @@
+import { appendFileSync, existsSync, mkdirSync } from "fs";
+import { dirname, join } from "path";
+import { gzipSync } from "zlib";
+import type { MarketEvent } from "../clients/market-ws";
+import type { CryptoPricePayload } from "../clients/crypto-ws";
+import type {
+  KalshiOrderbookLevel,
+  KalshiOrderbookUpdate,
+  KalshiTradeUpdate,
+} from "../clients/kalshi/kalshi-ws";
+import { parseUpDownSlugStartMs, type CoinSymbol } from "../services/auto-market";
+import type { MarketSnapshot } from "../services/market-data-hub";
+import { readJsonlFile, writeJsonlLines } from "./jsonl";
+import type {
+  BacktestBookEvent,
+  BacktestBookLevel,
+  BacktestCryptoTick,
+  BacktestMarketMeta,
+  BacktestTradeEvent,
+} from "./types";
+
+export type RecorderVenue = "polymarket" | "kalshi";
+
+export interface MarketRecorderOptions {
+  coins: CoinSymbol[];
+  /** Live snapshot sources used to learn market metadata and token routing. */
+  sources: Partial<Record<RecorderVenue, () => Map<CoinSymbol, MarketSnapshot>>>;
+  flushBytes?: number;
+  cryptoSegmentMs?: number;
+  closeGraceMs?: number;
+  /**
+   * Looks up a closed market's official result. Markets whose result is
+   * still unknown are retried every `outcomeRetryMs`, up to `outcomeAttempts`
+   * times.
+   */
+  resolveOutcome?: (
+    venue: RecorderVenue,
+    meta: BacktestMarketMeta,
+  ) => Promise<"UP" | "DOWN" | null>;
+  outcomeRetryMs?: number;
+  outcomeAttempts?: number;
+  now?: () => number;
+}
+
+export interface MarketRecorderStats {
+  markets: number;
+  bookEvents: number;
+  trades: number;
+  cryptoTicks: number;
+  openFiles: number;
+  outcomes: number;
+}
+
+interface RecordedMarket {
+  venue: RecorderVenue;
+  meta: BacktestMarketMeta;
+}
+
+interface PendingOutcome extends RecordedMarket {
+  attempts: number;
+  nextAttemptMs: number;
+  inFlight: boolean;
+}
+
+interface RecordedBook {
+  bids: Map<number, number>;
+  asks: Map<number, number>;
+}
+
+/**
+ * Appends one gzip member per flush, so a crash loses at most the unflushed
+ * buffer and every file stays readable by `gunzipSync`.
+ */
+class GzipJsonlSink {
+  private lines: string[] = [];
+  private bytes = 0;
+
+  constructor(readonly filePath: string) {
+    mkdirSync(dirname(filePath), { recursive: true });
+  }
+
+  get pendingBytes(): number {
+    return this.bytes;
+  }
+
+  push(record: unknown): void {
+    const line = JSON.stringify(record);
+    this.lines.push(line);
+    this.bytes += line.length + 1;
+  }
+
+  flush(): void {
+    if (this.lines.length === 0) return;
+    appendFileSync(this.filePath, gzipSync(this.lines.join("\n") + "\n"));
+    this.lines = [];
+    this.bytes = 0;
+  }
+}
+
+function toLevels(book: Map<number, number>): BacktestBookLevel[] {
+  return Array.from(book.entries()).map(([price, size]) => ({ price, size }));
+}
+
+function toBookMap(levels: KalshiOrderbookLevel[]): Map<number, number> {
+  const book = new Map<number, number>();
+  for (const level of levels) {
+    if (level.size > 0) book.set(level.price, level.size);
+  }
+  return book;
+}
+
+function diffLevels(
+  previous: Map<number, number>,
+  next: Map<number, number>,
+): BacktestBookLevel[] {
+  const changes: BacktestBookLevel[] = [];
+  for (const [price, size] of next.entries()) {
+    if (previous.get(price) !== size) changes.push({ price, size });
+  }
+  for (const price of previous.keys()) {
+    if (!next.has(price)) changes.push({ price, size: 0 });
+  }
+  return changes;
+}
+
+function formatSegmentName(segmentStartMs: number): string {
+  return new Date(segmentStartMs).toISOString().slice(0, 16).replace(":", "-") + "Z";
+}
+
+/**
+ * Writes live Polymarket/Kalshi books, trades and spot ticks in the layout
+ * `arbitrage-backtest` replays: per venue `markets.jsonl`,
+ * `books/<slug>.jsonl.gz` and `trades/<slug>.jsonl.gz` (Kalshi under
+ * `kalshi/`), plus `crypto/<coin>/<segment>.jsonl.gz`. Book and trade files
+ * rotate with the market; crypto rotates every `cryptoSegmentMs`.
+ * Timestamps are local receive time so a replay sees what the bot saw.
+ */
+export class MarketRecorder {
+  private rootDir: string;
+  private options: MarketRecorderOptions;
+  private now: () => number;
+  private flushBytes: number;
+  private cryptoSegmentMs: number;
+  private closeGraceMs: number;
+  private outcomeRetryMs: number;
+  private outcomeAttempts: number;
+  private pendingOutcomes: Map<string, PendingOutcome> = new Map();
+  private outcomeRequests: Set<Promise<void>> = new Set();
+  private symbolToCoin: Map<string, CoinSymbol> = new Map();
+  private markets: Map<string, RecordedMarket> = new Map();
+  private knownSlugs: Map<RecorderVenue, Set<string>> = new Map();
+  private tokenToSlug: Map<string, string> = new Map();
+  private tickerToSlug: Map<string, string> = new Map();
+  private kalshiBooks: Map<string, RecordedBook> = new Map();
+  private sinks: Map<string, GzipJsonlSink> = new Map();
+  private cryptoSegments: Map<CoinSymbol, number> = new Map();
+  private stats: MarketRecorderStats = {
+    markets: 0,
+    bookEvents: 0,
+    trades: 0,
+    cryptoTicks: 0,
+    openFiles: 0,
+    outcomes: 0,
+  };
+
+  constructor(rootDir: string, options: MarketRecorderOptions) {
+    this.rootDir = rootDir;
+    this.options = options;
+    this.now = options.now ?? Date.now;
+    this.flushBytes = options.flushBytes ?? 1 << 20;
+    this.cryptoSegmentMs = options.cryptoSegmentMs ?? 60 * 60 * 1000;
+    this.closeGraceMs = options.closeGraceMs ?? 60_000;
+    this.outcomeRetryMs = options.outcomeRetryMs ?? 60_000;
+    this.outcomeAttempts = options.outcomeAttempts ?? 30;
+    for (const coin of options.coins) {
+      this.symbolToCoin.set(`${coin}/usd`, coin);
+    }
+    for (const venue of ["polymarket", "kalshi"] as const) {
+      const marketsPath = join(this.getVenueDir(venue), "markets.jsonl");
+      const known = new Set<string>();
+      if (existsSync(marketsPath)) {
+        for (const meta of readJsonlFile<BacktestMarketMeta>(marketsPath)) {
+          known.add(meta.slug);
+        }
+      }
+      this.knownSlugs.set(venue, known);
+    }
+  }
+
+  getStats(): MarketRecorderStats {
+    return { ...this.stats, openFiles: this.sinks.size };
+  }
+
+  recordPolymarketEvent(event: MarketEvent): void {
+    const timestamp = this.now();
+    if (event.event_type === "book") {
+      const slug = this.resolveSlug("polymarket", event.asset_id);
+      if (!slug) return;
+      this.pushBook("polymarket", slug, {
+        timestamp,
+        tokenId: event.asset_id,
+        kind: "snapshot",
+        bids: this.parseLevels(event.bids),
+        asks: this.parseLevels(event.asks),
+      });
+      return;
+    }
+
+    if (event.event_type === "price_change") {
+      const deltas = new Map<string, BacktestBookEvent>();
+      for (const change of event.price_changes ?? []) {
+        const price = Number(change.price);
+        const size = Number(change.size);
+        if (!Number.isFinite(price) || !Number.isFinite(size)) continue;
+        let delta = deltas.get(change.asset_id);
+        if (!delta) {
+          delta = {
+            timestamp,
+            tokenId: change.asset_id,
+            kind: "delta",
+            bids: [],
+            asks: [],
+          };
+          deltas.set(change.asset_id, delta);
+        }
+        (change.side === "BUY" ? delta.bids : delta.asks).push({ price, size });
+      }
+      for (const delta of deltas.values()) {
+        const slug = this.resolveSlug("polymarket", delta.tokenId);
+        if (slug) this.pushBook("polymarket", slug, delta);
+      }
+      return;
+    }
+
+    const slug = this.resolveSlug("polymarket", event.asset_id);
+    if (!slug) return;
+    const price = Number(event.price);
+    const size = Number(event.size);
+    if (!Number.isFinite(price) || !Number.isFinite(size)) return;
+    this.pushTrade("polymarket", slug, {
+      timestamp,
+      tokenId: event.asset_id,
+      price,
+      size,
+      side: event.side,
+      tradeId: event.transaction_hash,
+    });
+  }
+
+  /**
+   * Kalshi WS hands over the whole book on every delta, so the recorder diffs
+   * against what it last wrote and only stores the changed levels.
+   */
+  recordKalshiOrderbook(update: KalshiOrderbookUpdate): void {
+    const slug = this.resolveSlug("kalshi", update.marketTicker);
+    if (!slug) return;
+    const timestamp = this.now();
+    const sides: Array<[string, KalshiOrderbookLevel[], KalshiOrderbookLevel[]]> = [
+      ["YES", update.yesBids, update.yesAsks],
+      ["NO", update.noBids, update.noAsks],
+    ];
+    for (const [tokenId, bidLevels, askLevels] of sides) {
+      const key = `${slug}:${tokenId}`;
+      const next: RecordedBook = {
+        bids: toBookMap(bidLevels),
+        asks: toBookMap(askLevels),
+      };
+      const previous = this.kalshiBooks.get(key);
+      this.kalshiBooks.set(key, next);
+      if (!previous) {
+        this.pushBook("kalshi", slug, {
+          timestamp,
+          tokenId,
+          kind: "snapshot",
+          bids: toLevels(next.bids),
+          asks: toLevels(next.asks),
+        });
+        continue;
+      }
+      const bids = diffLevels(previous.bids, next.bids);
+      const asks = diffLevels(previous.asks, next.asks);
+      if (bids.length === 0 && asks.length === 0) continue;
+      this.pushBook("kalshi", slug, { timestamp, tokenId, kind: "delta", bids, asks });
+    }
+  }
+
+  recordKalshiTrade(update: KalshiTradeUpdate): void {
+    const slug = this.resolveSlug("kalshi", update.marketTicker);
+    if (!slug || update.count === null) return;
+    const taker = update.takerSide?.toLowerCase();
+    const tokenId = taker === "no" ? "NO" : "YES";
+    const price = tokenId === "NO" ? update.noPrice : update.yesPrice;
+    if (price === null) return;
+    this.pushTrade("kalshi", slug, {
+      timestamp: this.now(),
+      tokenId,
+      price,
+      size: update.count,
+      side: taker === "yes" || taker === "no" ? "BUY" : undefined,
+    });
+  }
+
+  recordCryptoPrice(payload: CryptoPricePayload): void {
+    const coin = this.symbolToCoin.get(payload.symbol.toLowerCase());
+    if (!coin || !Number.isFinite(payload.value)) return;
+    const timestamp =
+      payload.timestamp >= 1e12 ? payload.timestamp : payload.timestamp * 1000;
+    if (!Number.isFinite(timestamp)) return;
+
+    const segmentStartMs =
+      Math.floor(timestamp / this.cryptoSegmentMs) * this.cryptoSegmentMs;
+    const currentSegment = this.cryptoSegments.get(coin);
+    if (currentSegment !== undefined && segmentStartMs > currentSegment) {
+      this.closeSink(this.getCryptoPath(coin, currentSegment));
+    }
+    if (currentSegment === undefined || segmentStartMs > currentSegment) {
+      this.cryptoSegments.set(coin, segmentStartMs);
+    }
+
+    const tick: BacktestCryptoTick = {
+      symbol: payload.symbol.toLowerCase(),
+      timestamp,
+      value: payload.value,
+    };
+    const activeSegment = this.cryptoSegments.get(coin) ?? segmentStartMs;
+    this.push(this.getCryptoPath(coin, activeSegment), tick);
+    this.stats.cryptoTicks += 1;
+  }
+
+  /**
+   * Flushes buffered lines and rotates files for markets past close + grace.
+   * Those markets then wait for their official outcome, which is written
+   * into `markets.jsonl` once known.
+   */
+  flush(): void {
+    const nowMs = this.now();
+    for (const [key, market] of this.markets.entries()) {
+      if (market.meta.endMs + this.closeGraceMs > nowMs) continue;
+      const venueDir = this.getVenueDir(market.venue);
+      this.closeSink(join(venueDir, "books", `${market.meta.slug}.jsonl.gz`));
+      this.closeSink(join(venueDir, "trades", `${market.meta.slug}.jsonl.gz`));
+      this.markets.delete(key);
+      if (this.options.resolveOutcome) {
+        this.pendingOutcomes.set(key, {
+          ...market,
+          attempts: 0,
+          nextAttemptMs: nowMs,
+          inFlight: false,
+        });
+      }
+      for (const map of [this.tokenToSlug, this.tickerToSlug]) {
+        for (const [id, slug] of map.entries()) {
+          if (slug === market.meta.slug) map.delete(id);
+        }
+      }
+      for (const bookKey of this.kalshiBooks.keys()) {
+        if (bookKey.startsWith(`${market.meta.slug}:`)) {
+          this.kalshiBooks.delete(bookKey);
+        }
+      }
+    }
+    for (const sink of this.sinks.values()) {
+      sink.flush();
+    }
+    this.requestOutcomes(nowMs);
+  }
+
+  /** Resolves once every outcome lookup started so far has finished. */
+  async settleOutcomes(): Promise<void> {
+    await Promise.all(this.outcomeRequests);
+  }
+
+  close(): void {
+    for (const sink of this.sinks.values()) {
+      sink.flush();
+    }
+    this.sinks.clear();
+  }
+
+  private requestOutcomes(nowMs: number): void {
+    const resolveOutcome = this.options.resolveOutcome;
+    if (!resolveOutcome) return;
+    for (const [key, pending] of this.pendingOutcomes.entries()) {
+      if (pending.inFlight || pending.nextAttemptMs > nowMs) continue;
+      pending.inFlight = true;
+      pending.attempts += 1;
+      const request = resolveOutcome(pending.venue, pending.meta)
+        .catch(() => null)
+        .then((outcome) => {
+          pending.inFlight = false;
+          if (outcome === "UP" || outcome === "DOWN") {
+            this.pendingOutcomes.delete(key);
+            this.writeOutcome(pending, outcome);
+            return;
+          }
+          if (pending.attempts >= this.outcomeAttempts) {
+            this.pendingOutcomes.delete(key);
+            return;
+          }
+          pending.nextAttemptMs = this.now() + this.outcomeRetryMs;
+        })
+        .finally(() => {
+          this.outcomeRequests.delete(request);
+        });
+      this.outcomeRequests.add(request);
+    }
+  }
+
+  /** Rewrites the venue's `markets.jsonl` with the outcome on that market's line. */
+  private writeOutcome(market: RecordedMarket, outcome: "UP" | "DOWN"): void {
+    const marketsPath = join(this.getVenueDir(market.venue), "markets.jsonl");
+    if (!existsSync(marketsPath)) return;
+    const metas = readJsonlFile<BacktestMarketMeta>(marketsPath);
+    let found = false;
+    for (const meta of metas) {
+      if (meta.slug === market.meta.slug) {
+        meta.outcome = outcome;
+        found = true;
+      }
+    }
+    if (!found) return;
+    writeJsonlLines(marketsPath, metas);
+    this.stats.outcomes += 1;
+  }
+
+  private getVenueDir(venue: RecorderVenue): string {
+    return venue === "kalshi" ? join(this.rootDir, "kalshi") : this.rootDir;
+  }
+
+  private getCryptoPath(coin: CoinSymbol, segmentStartMs: number): string {
+    return join(
+      this.rootDir,
+      "crypto",
+      coin,
+      `${formatSegmentName(segmentStartMs)}.jsonl.gz`,
+    );
+  }
+
+  private parseLevels(
+    levels: Array<{ price: string; size: string }> | undefined,
+  ): BacktestBookLevel[] {
+    const parsed: BacktestBookLevel[] = [];
+    for (const level of levels ?? []) {
+      const price = Number(level.price);
+      const size = Number(level.size);
+      if (Number.isFinite(price) && Number.isFinite(size)) {
+        parsed.push({ price, size });
+      }
+    }
+    return parsed;
+  }
+
+  private resolveSlug(venue: RecorderVenue, id: string): string | null {
+    const lookup = venue === "kalshi" ? this.tickerToSlug : this.tokenToSlug;
+    const known = lookup.get(id);
+    if (known) return known;
+    // New markets show up in the hub before their first WS event arrives.
+    this.syncMarkets(venue);
+    return lookup.get(id) ?? null;
+  }
+
+  private syncMarkets(venue: RecorderVenue): void {
+    const source = this.options.sources[venue];
+    if (!source) return;
+    const nowMs = this.now();
+    for (const snapshot of source().values()) {
+      const endMs = snapshot.marketCloseTimeMs ?? null;
+      if (endMs === null || endMs + this.closeGraceMs <= nowMs) continue;
+      const key = `${venue}:${snapshot.slug}`;
+      if (this.markets.has(key)) continue;
+
+      const meta: BacktestMarketMeta = {
+        slug: snapshot.slug,
+        coin: snapshot.coin,
+        marketName: snapshot.marketName,
+        startMs:
+          (venue === "polymarket" ? parseUpDownSlugStartMs(snapshot.slug) : null) ??
+          nowMs,
+        endMs,
+        upTokenId: snapshot.upTokenId,
+        downTokenId: snapshot.downTokenId,
+        provider: venue,
+      };
+      if (snapshot.priceToBeat > 0) meta.priceToBeat = snapshot.priceToBeat;
+      if (snapshot.marketTicker) meta.marketTicker = snapshot.marketTicker;
+      this.markets.set(key, { venue, meta });
+
+      if (venue === "kalshi") {
+        this.tickerToSlug.set(snapshot.marketTicker ?? snapshot.slug, snapshot.slug);
+      } else {
+        this.tokenToSlug.set(snapshot.upTokenId, snapshot.slug);
+        this.tokenToSlug.set(snapshot.downTokenId, snapshot.slug);
+      }
+
+      const known = this.knownSlugs.get(venue);
+      if (known && !known.has(snapshot.slug)) {
+        known.add(snapshot.slug);
+        writeJsonlLines(join(this.getVenueDir(venue), "markets.jsonl"), [meta], {
+          append: true,
+        });
+        this.stats.markets += 1;
+      }
+    }
+  }
+
+  private pushBook(venue: RecorderVenue, slug: string, event: BacktestBookEvent): void {
+    this.push(join(this.getVenueDir(venue), "books", `${slug}.jsonl.gz`), event);
+    this.stats.bookEvents += 1;
+  }
+
+  private pushTrade(venue: RecorderVenue, slug: string, trade: BacktestTradeEvent): void {
+    this.push(join(this.getVenueDir(venue), "trades", `${slug}.jsonl.gz`), trade);
+    this.stats.trades += 1;
+  }
+
+  private push(filePath: string, record: unknown): void {
+    let sink = this.sinks.get(filePath);
+    if (!sink) {
+      sink = new GzipJsonlSink(filePath);
+      this.sinks.set(filePath, sink);
+    }
+    sink.push(record);
+    if (sink.pendingBytes >= this.flushBytes) {
+      sink.flush();
+    }
+  }
+
+  private closeSink(filePath: string): void {
+    const sink = this.sinks.get(filePath);
+    if (!sink) return;
+    sink.flush();
+    this.sinks.delete(filePath);
+  }
+}
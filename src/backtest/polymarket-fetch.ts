@@ -12,8 +12,17 @@ import {
   type EventDetails,
   type MarketDetails,
 } from "../services/market-service";
-import { resolveMarketStartMs, parseUpDownSlugStartMs } from "../services/auto-market";
-import type { CoinSymbol } from "../services/auto-market";
+import {
+  DEFAULT_MARKET_HORIZON,
+  horizonDurationMs,
+  horizonSlugTokens,
+  isUpDownSlugForHorizon,
+  resolveMarketStartMs,
+  parseUpDownSlugStartMs,
+  upDownSeriesSlugs,
+} from "../services/auto-market";
+import { getCoinRegistry } from "../services/coin-registry";
+import type { CoinSymbol, MarketHorizon } from "../services/auto-market";
 import type {
   BacktestMarketMeta,
   BacktestTradeEvent,
@@ -40,7 +49,6 @@ function stripEnvValue(value: string | undefined): string | undefined {
   return trimmed;
 }
 
-const MARKET_DURATION_MS = 15 * 60 * 1000;
 const DEFAULT_TRADES_LIMIT = 500;
 const DEFAULT_TRADES_DELAY_MS = 300;
 const DEFAULT_TRADES_TIMEOUT_MS = 15000;
@@ -370,7 +378,10 @@ function extractMarkets(payload: unknown): MarketDetails[] {
   return [];
 }
 
-function resolveEventWindow(event: EventDetails): {
+function resolveEventWindow(
+  event: EventDetails,
+  horizon: MarketHorizon,
+): {
   startMs: number | null;
   endMs: number | null;
   isFallbackStart: boolean;
@@ -385,7 +396,7 @@ function resolveEventWindow(event: EventDetails): {
   }
   const end =
     parseTimestamp(event.endDate) ??
-    (start ? start + MARKET_DURATION_MS : null);
+    (start ? start + horizonDurationMs(horizon) : null);
   return {
     startMs: start,
     endMs: end,
@@ -393,15 +404,6 @@ function resolveEventWindow(event: EventDetails): {
   };
 }
 
-function isUpDown15mSlug(slug: string | undefined, coin: CoinSymbol): boolean {
-  if (!slug) return false;
-  const pattern = new RegExp(
-    `^${coin}-(?:updown|up-or-down)-15m-\\d{9,13}`,
-    "i",
-  );
-  return pattern.test(slug);
-}
-
 function normalizeTrade(
   raw: Record<string, unknown>,
   validTokenIds: Set<string>,
@@ -516,23 +518,23 @@ export async function fetchMarketsForRange(
   options?: {
     log?: LogFn;
     concurrency?: number;
+    horizon?: MarketHorizon;
   },
 ): Promise<BacktestMarketMeta[]> {
   const marketsMap = new Map<string, BacktestMarketMeta>();
   const log = options?.log;
   const concurrency = options?.concurrency ?? MARKET_CONCURRENCY;
+  const horizon = options?.horizon ?? DEFAULT_MARKET_HORIZON;
+  const durationMs = horizonDurationMs(horizon);
 
   const coinResults = await mapWithConcurrency(
     coins,
     concurrency,
     async (coin) => {
       try {
-        log?.(`Fetching ${coin.toUpperCase()} markets...`);
+        log?.(`Fetching ${coin.toUpperCase()} ${horizon} markets...`);
         const coinMarkets: BacktestMarketMeta[] = [];
-        const seriesSlugs = [
-          `${coin}-up-or-down-15m`,
-          `${coin}-updown-15m`,
-        ];
+        const seriesSlugs = upDownSeriesSlugs(coin, horizon);
         const seenEvents = new Set<string>();
 
         const seriesResults = await Promise.all(
@@ -570,7 +572,7 @@ export async function fetchMarketsForRange(
               startMs: eventStart,
               endMs: eventEnd,
               isFallbackStart,
-            } = resolveEventWindow(eventDetails);
+            } = resolveEventWindow(eventDetails, horizon);
 
             if (
               !isFallbackStart &&
@@ -595,7 +597,7 @@ export async function fetchMarketsForRange(
               const fetched = await getEventBySlug(eventDetails.slug);
               if (fetched) {
                 eventDetails = fetched;
-                const resolved = resolveEventWindow(eventDetails);
+                const resolved = resolveEventWindow(eventDetails, horizon);
                 if (resolved.startMs) {
                   eventStart = resolved.startMs;
                 }
@@ -631,7 +633,7 @@ export async function fetchMarketsForRange(
               const marketEnd =
                 parseTimestamp(marketDetails.endDate) ??
                 eventEnd ??
-                marketStart + MARKET_DURATION_MS;
+                marketStart + durationMs;
 
               metas.push({
                 slug: marketDetails.slug,
@@ -646,6 +648,7 @@ export async function fetchMarketsForRange(
                 endMs: marketEnd,
                 upTokenId: tokens.upTokenId,
                 downTokenId: tokens.downTokenId,
+                horizon,
               });
             }
 
@@ -673,7 +676,7 @@ export async function fetchMarketsForRange(
             `No ${coin.toUpperCase()} markets found via series; running fallback search.`,
             "WARN",
           );
-          const fallback = await fetchMarketsByQuery(coin, startMs, endMs);
+          const fallback = await fetchMarketsByQuery(coin, startMs, endMs, horizon);
           coinMarkets.push(...fallback);
         }
 
@@ -715,11 +718,14 @@ async function fetchMarketsByQuery(
   coin: CoinSymbol,
   startMs: number,
   endMs: number,
+  horizon: MarketHorizon,
 ): Promise<BacktestMarketMeta[]> {
+  const token = horizonSlugTokens(horizon)[0];
+  const prefix = getCoinRegistry().get(coin).polymarketSlugPrefix;
   const queries = [
-    `${coin}-updown-15m`,
-    `${coin} updown 15m`,
-    `${coin} up or down 15m`,
+    `${prefix}-updown-${token}`,
+    `${prefix} updown ${token}`,
+    `${prefix} up or down ${token}`,
   ];
   const closedModes: Array<boolean | undefined> = [true, false, undefined];
   const results: BacktestMarketMeta[] = [];
@@ -731,7 +737,7 @@ async function fetchMarketsByQuery(
       if (markets.length === 0) continue;
 
       for (const market of markets) {
-        if (!market.slug || !isUpDown15mSlug(market.slug, coin)) continue;
+        if (!market.slug || !isUpDownSlugForHorizon(market.slug, coin, horizon)) continue;
         if (seen.has(market.slug)) continue;
 
         let marketDetails: MarketDetails | null = market;
@@ -748,7 +754,7 @@ async function fetchMarketsByQuery(
         if (marketStart < startMs || marketStart > endMs) continue;
         const marketEnd =
           parseTimestamp(marketDetails.endDate) ??
-          marketStart + MARKET_DURATION_MS;
+          marketStart + horizonDurationMs(horizon);
 
         results.push({
           slug: marketDetails.slug,
@@ -760,6 +766,7 @@ async function fetchMarketsByQuery(
           endMs: marketEnd,
           upTokenId: tokens.upTokenId,
           downTokenId: tokens.downTokenId,
+          horizon,
         });
         seen.add(marketDetails.slug);
       }
@@ -0,0 +1,181 @@
+import type { CoinSymbol } from "../services/auto-market";
+import type { MarketSnapshot } from "../services/market-data-hub";
+
+/** What the visual backtest exposes to the replay keys. */
+export interface ReplayControls {
+  togglePause(): void;
+  /** Advances to the next hub event (tick, book or trade) and pauses. */
+  stepEvent(): void;
+  /** Plays until any profile makes an entry or cross decision and pauses. */
+  stepDecision(): void;
+  scaleSpeed(factor: number): void;
+  /** Plays forward to `targetMs`; the replay cannot rewind. */
+  seekTo(targetMs: number): void;
+  /** Plays until any coin rotates to its next market. */
+  seekNextRotation(): void;
+  addBookmark(): void;
+  getCurrentTimeMs(): number;
+  /** Text typed for a seek target, or null when not entering one. */
+  setInput(input: string | null): void;
+  setStatus(status: string | null): void;
+}
+
+export interface ReplayBookmark {
+  index: number;
+  timeMs: number;
+  /** Markets open at the bookmark, one per coin. */
+  markets: string[];
+}
+
+/** Replay clock shown on the profile dashboard. */
+export interface ReplayClockState {
+  timeMs: number;
+  startMs: number;
+  endMs: number;
+  speed: number;
+  paused: boolean;
+  input: string | null;
+  status: string | null;
+  bookmarks: ReplayBookmark[];
+}
+
+export const REPLAY_MIN_SPEED = 0.125;
+export const REPLAY_MAX_SPEED = 4096;
+
+export const REPLAY_HELP =
+  "Space: pause | .: step event | n: next decision | r: next market | +/-: speed | g: go to time | b: bookmark";
+
+const RELATIVE_UNITS_MS: Record<string, number> = {
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+};
+
+/**
+ * Parses a seek target typed on the dashboard: `+90s`, `+5m` or `+1h`
+ * relative to `nowMs`, `HH:MM[:SS]` (UTC) on the day of `nowMs`, an ISO
+ * timestamp, or epoch milliseconds. Null when the input is none of these.
+ */
+export function parseReplayTarget(input: string, nowMs: number): number | null {
+  const value = input.trim();
+  const relative = /^\+(\d+(?:\.\d+)?)([smh])$/i.exec(value);
+  if (relative) {
+    const unit = RELATIVE_UNITS_MS[relative[2]!.toLowerCase()]!;
+    return nowMs + Math.round(Number(relative[1]) * unit);
+  }
+  const clock = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value);
+  if (clock) {
+    const [hours, minutes, seconds] = [clock[1], clock[2], clock[3] ?? "0"].map(Number) as [
+      number,
+      number,
+      number,
+    ];
+    if (hours > 23 || minutes > 59 || seconds > 59) return null;
+    const day = new Date(nowMs);
+    return Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hours, minutes, seconds);
+  }
+  if (/^\d{12,}$/.test(value)) {
+    return Number(value);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const parsed = Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Markets open per coin, to notice a rotation between two points in the replay. */
+export function openMarkets(snapshots: Map<CoinSymbol, MarketSnapshot>): Map<CoinSymbol, string> {
+  const markets = new Map<CoinSymbol, string>();
+  for (const [coin, snapshot] of snapshots) {
+    markets.set(coin, snapshot.slug);
+  }
+  return markets;
+}
+
+export function marketRotated(
+  before: Map<CoinSymbol, string>,
+  after: Map<CoinSymbol, string>,
+): boolean {
+  for (const [coin, slug] of after) {
+    if (before.get(coin) !== slug) return true;
+  }
+  return false;
+}
+
+/**
+ * Maps raw-mode key presses to replay controls. Returns true when the key
+ * was consumed; while a seek target is being typed every printable key is.
+ */
+export function createReplayKeyHandler(controls: ReplayControls): (key: string) => boolean {
+  let input: string | null = null;
+
+  const submit = () => {
+    const typed = input ?? "";
+    input = null;
+    controls.setInput(null);
+    if (typed.trim() === "") return;
+    const target = parseReplayTarget(typed, controls.getCurrentTimeMs());
+    if (target === null) {
+      controls.setStatus(`Cannot read "${typed}" (try +5m, 14:30, or an ISO time)`);
+      return;
+    }
+    controls.seekTo(target);
+  };
+
+  const handleChar = (char: string): boolean => {
+    if (input !== null) {
+      if (char === "\r" || char === "\n") {
+        submit();
+      } else if (char === "\x7f" || char === "\b") {
+        input = input.length > 0 ? input.slice(0, -1) : null;
+        controls.setInput(input);
+      } else if (char >= " " && char <= "~") {
+        input += char;
+        controls.setInput(input);
+      }
+      return true;
+    }
+
+    switch (char) {
+      case " ":
+      case "p":
+        controls.togglePause();
+        return true;
+      case ".":
+        controls.stepEvent();
+        return true;
+      case "n":
+        controls.stepDecision();
+        return true;
+      case "r":
+        controls.seekNextRotation();
+        return true;
+      case "+":
+      case "=":
+        controls.scaleSpeed(2);
+        return true;
+      case "-":
+      case "_":
+        controls.scaleSpeed(0.5);
+        return true;
+      case "b":
+        controls.addBookmark();
+        return true;
+      case "g":
+        input = "";
+        controls.setStatus(null);
+        controls.setInput(input);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  return (key: string) => {
+    if (key === "\x03") return false;
+    let handled = false;
+    for (const char of key) {
+      handled = handleChar(char) || handled;
+    }
+    return handled;
+  };
+}
@@ -0,0 +1,126 @@
+import type { CoinSymbol } from "../services/auto-market";
+import type { MarketSnapshot } from "../services/market-data-hub";
+import type { StrategyHost } from "../strategies/strategy-host";
+import type { BacktestHub } from "./backtest-hub";
+
+export interface StrategyBacktestRunnerOptions {
+  tickIntervalMs?: number;
+  progressEveryMs?: number;
+  onProgress?: (nowMs: number, endMs: number) => void;
+}
+
+/**
+ * Steps a Polymarket hub and, for strategies that read Kalshi, a Kalshi hub
+ * on one simulated clock at max speed. Same stepping as the arbitrage
+ * backtest: hub events, pending decision deadlines and a fixed eval tick.
+ */
+export class StrategyBacktestRunner {
+  private polyHub: BacktestHub;
+  private kalshiHub: BacktestHub | null;
+  private host: StrategyHost;
+  private options: StrategyBacktestRunnerOptions;
+  private currentTime = 0;
+  private tickIntervalMs = 250;
+  private nextEvalTimeMs = 0;
+
+  constructor(
+    polyHub: BacktestHub,
+    kalshiHub: BacktestHub | null,
+    host: StrategyHost,
+    options: StrategyBacktestRunnerOptions = {},
+  ) {
+    this.polyHub = polyHub;
+    this.kalshiHub = kalshiHub;
+    this.host = host;
+    this.options = options;
+  }
+
+  getStartTimeMs(): number {
+    return this.kalshiHub
+      ? Math.min(this.polyHub.getStartTimeMs(), this.kalshiHub.getStartTimeMs())
+      : this.polyHub.getStartTimeMs();
+  }
+
+  getEndTimeMs(): number {
+    return this.kalshiHub
+      ? Math.max(this.polyHub.getEndTimeMs(), this.kalshiHub.getEndTimeMs())
+      : this.polyHub.getEndTimeMs();
+  }
+
+  run(): void {
+    this.tickIntervalMs = this.options.tickIntervalMs ?? 250;
+    this.currentTime = this.getStartTimeMs();
+    this.nextEvalTimeMs = this.currentTime + this.tickIntervalMs;
+    const endTime = this.getEndTimeMs();
+    const progressEveryMs = this.options.progressEveryMs ?? 3_600_000;
+    let nextProgressMs = this.currentTime + progressEveryMs;
+
+    while (this.currentTime < endTime) {
+      const nextTime = this.getNextStepTime(endTime);
+      if (nextTime === null) {
+        break;
+      }
+
+      this.currentTime = nextTime;
+      this.polyHub.advanceTo(this.currentTime);
+      this.kalshiHub?.advanceTo(this.currentTime);
+      this.evaluate(this.currentTime);
+
+      while (this.nextEvalTimeMs <= this.currentTime) {
+        this.nextEvalTimeMs += this.tickIntervalMs;
+      }
+
+      if (this.options.onProgress && this.currentTime >= nextProgressMs) {
+        this.options.onProgress(this.currentTime, endTime);
+        nextProgressMs = this.currentTime + progressEveryMs;
+      }
+    }
+  }
+
+  private getNextStepTime(endTime: number): number | null {
+    if (this.currentTime >= endTime) {
+      return null;
+    }
+
+    let next = endTime;
+    for (const hubNext of [
+      this.polyHub.getNextEventTime(),
+      this.kalshiHub?.getNextEventTime() ?? null,
+    ]) {
+      if (hubNext !== null) {
+        next = Math.min(next, hubNext);
+      }
+    }
+    const due = this.host.getNextPendingTime();
+    if (due !== null && due > this.currentTime) {
+      next = Math.min(next, due);
+    }
+    if (this.nextEvalTimeMs > this.currentTime) {
+      next = Math.min(next, this.nextEvalTimeMs);
+    }
+
+    if (next <= this.currentTime) {
+      const bumped = Math.min(endTime, this.currentTime + 1);
+      return bumped > this.currentTime ? bumped : null;
+    }
+
+    return next;
+  }
+
+  private evaluate(nowMs: number): void {
+    const scheduledEval = nowMs >= this.nextEvalTimeMs;
+    const polyDirty = this.polyHub.drainDirtyCoins();
+    const kalshiDirty = this.kalshiHub?.drainDirtyCoins() ?? new Set<CoinSymbol>();
+    const due = this.host.getNextPendingTime();
+    const pendingDue = due !== null && due <= nowMs;
+    if (!scheduledEval && !pendingDue && polyDirty.size === 0 && kalshiDirty.size === 0) {
+      return;
+    }
+
+    this.host.evaluate(
+      this.polyHub.getSnapshots(),
+      this.kalshiHub?.getSnapshots() ?? new Map<CoinSymbol, MarketSnapshot>(),
+      nowMs,
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import type { SweepExecution } from "./sweep-kernel";
+
+export interface StressRange {
+  min: number;
+  max: number;
+}
+
+/** What a stress trial draws its execution model from, uniformly per range. */
+export interface StressDistribution {
+  trials: number;
+  /** Per-trial decision latency base, ms. */
+  latencyMs: StressRange;
+  /** Per-decision jitter on top of the trial's base, ms. */
+  latencyJitterMs: number;
+  /** Per-trial fraction of displayed depth that is not fillable. */
+  depthHaircut: StressRange;
+  /** Per-trial probability that a fill is missed. */
+  missFillProbability: StressRange;
+}
+
+export interface StressTrial {
+  index: number;
+  execution: SweepExecution;
+}
+
+/** One trial's result for one profile. */
+export interface StressOutcome {
+  totalProfit: number;
+  totalTrades: number;
+}
+
+export interface StressSummary {
+  profile: string;
+  trials: number;
+  /** Profit of the unstressed run (the kernel's default execution). */
+  baselineProfit: number | null;
+  mean: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  worst: number;
+  best: number;
+  probabilityOfLoss: number;
+  meanTrades: number;
+}
+
+export const DEFAULT_STRESS_TRIALS = 50;
+
+/** Parses `a-b` or a single value `a` (min = max) within [lower, upper]. */
+export function parseStressRange(
+  value: string,
+  label: string,
+  lower: number,
+  upper: number = Number.POSITIVE_INFINITY,
+): StressRange {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(?:-\s*(\d+(?:\.\d+)?)\s*)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Config error: ${label} must be a number or a range like 0.1-0.3`);
+  }
+  const min = Number(match[1]);
+  const max = match[2] === undefined ? min : Number(match[2]);
+  if (min > max) {
+    throw new Error(`Config error: ${label} range must be low-high`);
+  }
+  if (min < lower || max > upper) {
+    throw new Error(
+      `Config error: ${label} must be within ${lower}..${Number.isFinite(upper) ? upper : "inf"}`,
+    );
+  }
+  return { min, max };
+}
+
+function draw(range: StressRange, random: () => number): number {
+  return range.min + (range.max - range.min) * random();
+}
+
+export function sampleStressTrials(
+  distribution: StressDistribution,
+  random: () => number = Math.random,
+): StressTrial[] {
+  const trials: StressTrial[] = [];
+  for (let index = 1; index <= distribution.trials; index += 1) {
+    trials.push({
+      index,
+      execution: {
+        latencyBaseMs: Math.round(draw(distribution.latencyMs, random)),
+        latencyJitterMs: distribution.latencyJitterMs,
+        depthHaircut: draw(distribution.depthHaircut, random),
+        missFillProbability: draw(distribution.missFillProbability, random),
+      },
+    });
+  }
+  return trials;
+}
+
+/** Linear interpolation between closest ranks; `sorted` must be ascending. */
+export function percentile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = clampUnit(q) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const low = sorted[lower] ?? 0;
+  const high = sorted[upper] ?? low;
+  return low + (high - low) * (position - lower);
+}
+
+function clampUnit(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+export function summarizeStress(
+  profile: string,
+  outcomes: StressOutcome[],
+  baseline: StressOutcome | null = null,
+): StressSummary {
+  const profits = outcomes.map((outcome) => outcome.totalProfit).sort((a, b) => a - b);
+  const count = profits.length;
+  const sum = profits.reduce((total, value) => total + value, 0);
+  const trades = outcomes.reduce((total, outcome) => total + outcome.totalTrades, 0);
+  return {
+    profile,
+    trials: count,
+    baselineProfit: baseline ? baseline.totalProfit : null,
+    mean: count > 0 ? sum / count : 0,
+    p5: percentile(profits, 0.05),
+    p25: percentile(profits, 0.25),
+    p50: percentile(profits, 0.5),
+    p75: percentile(profits, 0.75),
+    p95: percentile(profits, 0.95),
+    worst: profits[0] ?? 0,
+    best: profits[count - 1] ?? 0,
+    probabilityOfLoss:
+      count > 0 ? profits.filter((value) => value < 0).length / count : 0,
+    meanTrades: count > 0 ? trades / count : 0,
+  };
+}
+
+function formatRange(range: StressRange, digits: number): string {
+  return range.min === range.max
+    ? range.min.toFixed(digits)
+    : `${range.min.toFixed(digits)}..${range.max.toFixed(digits)}`;
+}
+
+export function formatStressReport(
+  title: string,
+  distribution: StressDistribution,
+  summaries: StressSummary[],
+): string[] {
+  const lines = [
+    `# ${title}`,
+    "",
+    `- Trials: ${distribution.trials}`,
+    `- Decision latency: ${formatRange(distribution.latencyMs, 0)}ms + jitter ${distribution.latencyJitterMs}ms`,
+    `- Depth haircut: ${formatRange(distribution.depthHaircut, 2)}`,
+    `- Missed-fill probability: ${formatRange(distribution.missFillProbability, 2)}`,
+    "",
+    "| profile | baseline | mean | p5 | p25 | p50 | p75 | p95 | worst | P(loss) | trades |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+  ];
+  for (const row of summaries) {
+    lines.push(
+      `| ${[
+        row.profile,
+        row.baselineProfit === null ? "-" : row.baselineProfit.toFixed(2),
+        row.mean.toFixed(2),
+        row.p5.toFixed(2),
+        row.p25.toFixed(2),
+        row.p50.toFixed(2),
+        row.p75.toFixed(2),
+        row.p95.toFixed(2),
+        row.worst.toFixed(2),
+        `${(row.probabilityOfLoss * 100).toFixed(1)}%`,
+        row.meanTrades.toFixed(1),
+      ].join(" | ")} |`,
+    );
+  }
+  lines.push("");
+  return lines;
+}
@@ -0,0 +1,378 @@
+import { existsSync, readFileSync } from "fs";
+import { stripJsonComments } from "../services/profile-config";
+import type { TimedTradeConfig } from "../services/profile-engine";
+
+export type SweepValue = number | boolean | string | null;
+
+export interface SweepParameter {
+  path: string;
+  values: SweepValue[];
+}
+
+export interface SweepSpec {
+  baseProfile: string | null;
+  top: number;
+  parameters: SweepParameter[];
+}
+
+export interface SweepVariant {
+  id: string;
+  params: Record<string, SweepValue>;
+}
+
+const DEFAULT_TOP = 20;
+const MAX_RANGE_STEPS = 1000;
+const ROOT_KEYS = new Set([
+  "tradeAllowedTimeLeft",
+  "rules",
+  "cross",
+  "edgeModel",
+  "sizeModel",
+  "gateModel",
+  "lossGovernor",
+  "crossModes",
+]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSweepValue(value: unknown): value is SweepValue {
+  return (
+    value === null ||
+    typeof value === "boolean" ||
+    typeof value === "string" ||
+    (typeof value === "number" && Number.isFinite(value))
+  );
+}
+
+function roundStep(value: number): number {
+  return Number(value.toFixed(10));
+}
+
+function expandRange(raw: Record<string, unknown>, context: string): number[] {
+  const min = Number(raw.min);
+  const max = Number(raw.max);
+  const step = Number(raw.step);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || !Number.isFinite(step)) {
+    throw new Error(`Config error: ${context} range needs numeric min/max/step`);
+  }
+  if (step <= 0 || max < min) {
+    throw new Error(`Config error: ${context} range needs step > 0 and max >= min`);
+  }
+  const count = Math.floor((max - min) / step + 1e-9) + 1;
+  if (count > MAX_RANGE_STEPS) {
+    throw new Error(
+      `Config error: ${context} range expands to ${count} values (max ${MAX_RANGE_STEPS})`,
+    );
+  }
+  const values: number[] = [];
+  for (let i = 0; i < count; i += 1) {
+    values.push(roundStep(min + i * step));
+  }
+  return values;
+}
+
+function parseParameterValues(raw: unknown, context: string): SweepValue[] {
+  let values: unknown[];
+  if (Array.isArray(raw)) {
+    values = raw;
+  } else if (isRecord(raw) && Array.isArray(raw.values)) {
+    values = raw.values;
+  } else if (isRecord(raw)) {
+    values = expandRange(raw, context);
+  } else if (isSweepValue(raw)) {
+    values = [raw];
+  } else {
+    throw new Error(`Config error: ${context} must be a list, range, or value`);
+  }
+
+  if (values.length === 0) {
+    throw new Error(`Config error: ${context} has no values`);
+  }
+  for (const value of values) {
+    if (!isSweepValue(value)) {
+      throw new Error(`Config error: ${context} contains a non-scalar value`);
+    }
+  }
+  return Array.from(new Set(values as SweepValue[]));
+}
+
+function validatePath(path: string): void {
+  const segments = path.split(".");
+  const root = segments[0] ?? "";
+  if (!ROOT_KEYS.has(root)) {
+    throw new Error(`Config error: sweep parameter ${path} has unknown root ${root}`);
+  }
+  if (segments.some((segment) => segment.length === 0)) {
+    throw new Error(`Config error: sweep parameter ${path} is malformed`);
+  }
+  if (root === "tradeAllowedTimeLeft" && segments.length !== 1) {
+    throw new Error(`Config error: sweep parameter ${path} is malformed`);
+  }
+  if (root !== "tradeAllowedTimeLeft" && segments.length < 2) {
+    throw new Error(`Config error: sweep parameter ${path} must name a field`);
+  }
+}
+
+/**
+ * `checkPath` validates each parameter path; the default accepts
+ * TimedTradeConfig paths only.
+ */
+export function parseSweepSpec(
+  raw: unknown,
+  checkPath: (path: string) => void = validatePath,
+): SweepSpec {
+  if (!isRecord(raw)) {
+    throw new Error("Config error: sweep spec must be an object");
+  }
+
+  const baseProfile =
+    typeof raw.baseProfile === "string" && raw.baseProfile.trim().length > 0
+      ? raw.baseProfile.trim()
+      : null;
+
+  let top = DEFAULT_TOP;
+  if (raw.top !== undefined) {
+    const parsed = Number(raw.top);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error("Config error: sweep top must be a positive integer");
+    }
+    top = parsed;
+  }
+
+  if (!isRecord(raw.parameters)) {
+    throw new Error("Config error: sweep spec missing parameters");
+  }
+
+  const parameters: SweepParameter[] = [];
+  for (const [path, value] of Object.entries(raw.parameters)) {
+    checkPath(path);
+    parameters.push({
+      path,
+      values: parseParameterValues(value, `sweep parameter ${path}`),
+    });
+  }
+
+  return { baseProfile, top, parameters };
+}
+
+export function loadSweepSpec(
+  filePath: string,
+  checkPath?: (path: string) => void,
+): SweepSpec {
+  if (!existsSync(filePath)) {
+    throw new Error(`Config error: sweep spec not found at ${filePath}`);
+  }
+  const raw = readFileSync(filePath, "utf8");
+  return parseSweepSpec(JSON.parse(stripJsonComments(raw)), checkPath);
+}
+
+/**
+ * Cartesian product of all parameter values, in spec order. The first
+ * parameter varies slowest so related variants stay adjacent in the output.
+ */
+export function expandSweepGrid(spec: SweepSpec, maxVariants: number): SweepVariant[] {
+  let total = 1;
+  for (const parameter of spec.parameters) {
+    total *= parameter.values.length;
+    if (total > maxVariants) {
+      throw new Error(
+        `Config error: sweep grid exceeds ${maxVariants} variants (raise SWEEP_MAX_VARIANTS or narrow the grid)`,
+      );
+    }
+  }
+
+  const width = String(total).length;
+  const variants: SweepVariant[] = [];
+  for (let index = 0; index < total; index += 1) {
+    const params: Record<string, SweepValue> = {};
+    let remainder = index;
+    for (let p = spec.parameters.length - 1; p >= 0; p -= 1) {
+      const parameter = spec.parameters[p]!;
+      const count = parameter.values.length;
+      params[parameter.path] = parameter.values[remainder % count]!;
+      remainder = Math.floor(remainder / count);
+    }
+    const ordered: Record<string, SweepValue> = {};
+    for (const parameter of spec.parameters) {
+      ordered[parameter.path] = params[parameter.path]!;
+    }
+    variants.push({
+      id: `v${String(index + 1).padStart(width, "0")}`,
+      params: ordered,
+    });
+  }
+  return variants;
+}
+
+function selectRules(
+  rules: Array<Record<string, unknown>>,
+  segment: string,
+  path: string,
+): { targets: Array<Record<string, unknown>>; consumed: boolean } {
+  if (!/^\d+$/.test(segment)) {
+    return { targets: rules, consumed: false };
+  }
+  const tierSeconds = Number(segment);
+  const match = rules.find((rule) => rule.tierSeconds === tierSeconds);
+  if (!match) {
+    throw new Error(`Config error: sweep parameter ${path} targets missing tier ${segment}`);
+  }
+  return { targets: [match], consumed: true };
+}
+
+/** TimedTradeConfig fields that are not numbers; any other swept field must be one. */
+const BOOLEAN_FIELDS = new Set(["enabled", "requireSignals", "applyGateMultiplier", "applyToSize"]);
+const STRING_FIELDS = new Set(["horizon", "mode", "sizeStrategy"]);
+
+function checkFieldType(field: string, current: unknown, value: SweepValue, path: string): void {
+  if (value === null) {
+    if (current !== undefined && current !== null) {
+      throw new Error(`Config error: sweep parameter ${path} cannot be null`);
+    }
+    return;
+  }
+  const expected =
+    current !== undefined && current !== null
+      ? typeof current
+      : BOOLEAN_FIELDS.has(field)
+        ? "boolean"
+        : STRING_FIELDS.has(field)
+          ? "string"
+          : "number";
+  if (typeof value !== expected) {
+    throw new Error(
+      `Config error: sweep parameter ${path} must be a ${expected}, got ${JSON.stringify(value)}`,
+    );
+  }
+}
+
+/**
+ * Sets `path` inside `target`. With `strict` (typed profile configs) every
+ * object on the path must already exist and the value must match the
+ * field's type; otherwise missing objects are created.
+ */
+function assignPath(
+  target: Record<string, unknown>,
+  segments: string[],
+  value: SweepValue,
+  path: string,
+  strict: boolean,
+): void {
+  let cursor = target;
+  for (let i = 0; i < segments.length - 1; i += 1) {
+    const key = segments[i]!;
+    if (key === "rules" && Array.isArray(cursor.rules)) {
+      const rules = cursor.rules as Array<Record<string, unknown>>;
+      const { targets, consumed } = selectRules(rules, segments[i + 1] ?? "", path);
+      const rest = segments.slice(i + (consumed ? 2 : 1));
+      if (rest.length === 0) {
+        throw new Error(`Config error: sweep parameter ${path} must name a rule field`);
+      }
+      for (const rule of targets) {
+        assignPath(rule, rest, value, path, strict);
+      }
+      return;
+    }
+    const next = cursor[key];
+    if (next === undefined || next === null) {
+      if (strict) {
+        // A partial block would switch on a model the base profile never used.
+        throw new Error(
+          `Config error: sweep parameter ${path} targets ${segments
+            .slice(0, i + 1)
+            .join(".")}, which the base profile does not configure`,
+        );
+      }
+      const created: Record<string, unknown> = {};
+      cursor[key] = created;
+      cursor = created;
+      continue;
+    }
+    if (!isRecord(next)) {
+      throw new Error(`Config error: sweep parameter ${path} crosses non-object ${key}`);
+    }
+    cursor = next;
+  }
+  const field = segments[segments.length - 1]!;
+  if (strict) {
+    checkFieldType(field, cursor[field], value, path);
+  }
+  cursor[field] = value;
+}
+
+function normalizeTiers(
+  rules: Array<{ tierSeconds: number }>,
+  context: string,
+): void {
+  const seen = new Set<number>();
+  for (const rule of rules) {
+    if (!Number.isInteger(rule.tierSeconds) || rule.tierSeconds <= 0) {
+      throw new Error(`Config error: ${context} tierSeconds must be a positive integer`);
+    }
+    if (seen.has(rule.tierSeconds)) {
+      throw new Error(`Config error: ${context} duplicate tier ${rule.tierSeconds}`);
+    }
+    seen.add(rule.tierSeconds);
+  }
+  rules.sort((a, b) => a.tierSeconds - b.tierSeconds);
+}
+
+/**
+ * Returns a deep copy of `base` with the variant's parameters applied.
+ * Paths address TimedTradeConfig fields; `rules.<field>` hits every tier,
+ * `rules.<tierSeconds>.<field>` hits the tier keyed that way in config.json.
+ */
+export function applySweepVariant(
+  base: TimedTradeConfig,
+  variant: SweepVariant,
+): TimedTradeConfig {
+  const config = structuredClone(base) as TimedTradeConfig;
+  const target = config as unknown as Record<string, unknown>;
+  for (const [path, value] of Object.entries(variant.params)) {
+    assignPath(target, path.split("."), value, path, true);
+  }
+
+  const context = `sweep variant ${variant.id}`;
+  if (
+    typeof config.tradeAllowedTimeLeft !== "number" ||
+    !Number.isFinite(config.tradeAllowedTimeLeft) ||
+    config.tradeAllowedTimeLeft <= 0
+  ) {
+    throw new Error(`Config error: ${context} tradeAllowedTimeLeft must be positive`);
+  }
+  normalizeTiers(config.rules, context);
+  if (config.cross) {
+    normalizeTiers(config.cross.rules, `${context} cross`);
+  }
+  return config;
+}
+
+/**
+ * Returns a deep copy of a raw config object (a `strategies` entry as
+ * written in config.json) with the variant's dotted paths set; missing
+ * objects along a path are created.
+ */
+export function applySweepParams(
+  raw: Record<string, unknown>,
+  variant: SweepVariant,
+): Record<string, unknown> {
+  const config = structuredClone(raw);
+  for (const [path, value] of Object.entries(variant.params)) {
+    assignPath(config, path.split("."), value, path, false);
+  }
+  return config;
+}
+
+/**
+ * SweepKernel needs identical tier layouts across its configs, so variants
+ * that move tierSeconds are split into one kernel per layout.
+ */
+export function buildTierSignature(config: TimedTradeConfig): string {
+  const tiers = config.rules.map((rule) => rule.tierSeconds).join(",");
+  const crossTiers = config.cross
+    ? config.cross.rules.map((rule) => rule.tierSeconds).join(",")
+    : "";
+  return `${tiers}|${crossTiers}`;
+}
@@ -1,6 +1,7 @@
 import type { CoinSymbol } from "../services/auto-market";
 import type { MarketSnapshot } from "../services/market-data-hub";
 import type { SizeStrategy, TimedTradeConfig } from "../services/profile-engine";
+import { resolveSeed, SeededRng } from "../services/rng";
 
 type OptionalNumber = number | null;
 
@@ -77,8 +78,32 @@ export interface SweepKernelSummary {
   openExposure: number;
 }
 
+/**
+ * Execution quality one kernel profile trades under. Sweeps use the
+ * defaults; stress runs give every trial its own draw.
+ */
+export interface SweepExecution {
+  latencyBaseMs: number;
+  /** Each decision waits `latencyBaseMs` plus up to this much, uniformly. */
+  latencyJitterMs: number;
+  /** Fraction of every book level that is not really there when we fill (0..1). */
+  depthHaircut: number;
+  /** Chance a fill that would happen is missed entirely (0..1). */
+  missFillProbability: number;
+}
+
+export function defaultSweepExecution(): SweepExecution {
+  return {
+    latencyBaseMs: LATENCY_BASE_MS,
+    latencyJitterMs: LATENCY_JITTER_MS,
+    depthHaircut: 0,
+    missFillProbability: 0,
+  };
+}
+
 export class SweepKernel {
   private coin: CoinSymbol;
+  private rng: SeededRng;
   private startMs: number;
   private lastNowMs: number;
   private profileCount: number;
@@ -187,6 +212,10 @@ export class SweepKernel {
   private crossOpSizeScaleMult: Float64Array;
   private crossOpMinRecovery: Float64Array;
   private crossOpMinLoss: Float64Array;
+  private latencyBaseMs: Float64Array;
+  private latencyJitterMs: Float64Array;
+  private depthFactor: Float64Array;
+  private missFillProbability: Float64Array;
 
   private totalTrades: Int32Array;
   private crossTrades: Int32Array;
@@ -215,11 +244,17 @@ export class SweepKernel {
     coin: CoinSymbol,
     configs: TimedTradeConfig[],
     startMs: number,
+    execution: SweepExecution[] = [],
+    rng: SeededRng = new SeededRng(resolveSeed()),
   ) {
     if (configs.length === 0) {
       throw new Error("SweepKernel requires at least one profile config.");
     }
+    if (execution.length > 0 && execution.length !== configs.length) {
+      throw new Error("SweepKernel requires one execution model per profile config.");
+    }
     this.coin = coin;
+    this.rng = rng;
     this.startMs = startMs;
     this.lastNowMs = startMs;
     this.profileCount = configs.length;
@@ -355,6 +390,10 @@ export class SweepKernel {
     this.crossOpSizeScaleMult = new Float64Array(this.profileCount);
     this.crossOpMinRecovery = new Float64Array(this.profileCount);
     this.crossOpMinLoss = new Float64Array(this.profileCount);
+    this.latencyBaseMs = new Float64Array(this.profileCount);
+    this.latencyJitterMs = new Float64Array(this.profileCount);
+    this.depthFactor = new Float64Array(this.profileCount);
+    this.missFillProbability = new Float64Array(this.profileCount);
 
     for (let p = 0; p < this.profileCount; p += 1) {
       const config = configs[p]!;
@@ -618,6 +657,12 @@ export class SweepKernel {
         opportunistic?.minRecoveryMultiple,
       );
       this.crossOpMinLoss[p] = encodeNullable(opportunistic?.minLossToTrigger);
+
+      const model = execution[p] ?? defaultSweepExecution();
+      this.latencyBaseMs[p] = Math.max(0, model.latencyBaseMs);
+      this.latencyJitterMs[p] = Math.max(0, model.latencyJitterMs);
+      this.depthFactor[p] = 1 - clamp(model.depthHaircut, 0, 1);
+      this.missFillProbability[p] = clamp(model.missFillProbability, 0, 1);
     }
 
     this.totalTrades = new Int32Array(this.profileCount);
@@ -955,7 +1000,11 @@ export class SweepKernel {
           }
 
           const exitBids = currentOutcome === 1 ? bidsUp : bidsDown;
-          const exitFill = this.simulateSell(exitBids, this.positionShares[p] ?? 0);
+          const exitFill = this.simulateSell(
+            exitBids,
+            this.positionShares[p] ?? 0,
+            this.depthFactor[p] ?? 1,
+          );
           if (!exitFill) continue;
           const realized = exitFill.proceeds - (this.positionCost[p] ?? 0);
           if (realized >= 0) continue;
@@ -976,11 +1025,13 @@ export class SweepKernel {
             maxShare,
             maxSpend,
             this.crossMinSpend[offset] ?? 0,
+            this.depthFactor[p] ?? 1,
           );
           if (!entryFill) continue;
 
           const potentialProfit = entryFill.shares - entryFill.cost;
           if (potentialProfit < -realized * minRecovery) continue;
+          if (this.missesFill(p)) continue;
 
           this.realizedPnl[p] = (this.realizedPnl[p] ?? 0) + realized;
           this.positionOutcome[p] = targetOutcome;
@@ -1162,8 +1213,11 @@ export class SweepKernel {
           continue;
       }
 
+      const jitterMs = this.latencyJitterMs[p] ?? 0;
       const dueMs =
-        nowMs + LATENCY_BASE_MS + Math.floor(Math.random() * LATENCY_JITTER_MS);
+        nowMs +
+        (this.latencyBaseMs[p] ?? 0) +
+        (jitterMs > 0 ? Math.floor(this.rng.next() * jitterMs) : 0);
       this.pendingDueMs[p] = dueMs;
       this.pendingOutcome[p] = favoredUp ? 1 : 2;
       this.pendingRuleIdx[p] = tierIdx;
@@ -1322,8 +1376,10 @@ export class SweepKernel {
       this.maxShare[offset] ?? 0,
       maxSpend,
       this.minSpend[offset] ?? 0,
+      this.depthFactor[profileIdx] ?? 1,
     );
     if (!fill) return;
+    if (this.missesFill(profileIdx)) return;
 
     this.positionOutcome[profileIdx] = outcome;
     this.positionShares[profileIdx] = fill.shares;
@@ -1335,12 +1391,18 @@ export class SweepKernel {
     this.marketHadTrade[profileIdx] = 1;
   }
 
+  private missesFill(profileIdx: number): boolean {
+    const probability = this.missFillProbability[profileIdx] ?? 0;
+    return probability > 0 && this.rng.next() < probability;
+  }
+
   private simulateBuy(
     asks: Array<{ price: number; size: number }>,
     minShare: number,
     maxShare: number,
     maxSpend: number,
     minSpend: number,
+    depthFactor: number,
   ): { shares: number; cost: number } | null {
     let remaining = maxSpend;
     let cost = 0;
@@ -1349,7 +1411,7 @@ export class SweepKernel {
     for (const ask of asks) {
       if (ask.price > maxShare) break;
       if (ask.price < minShare) continue;
-      const availableValue = ask.price * ask.size;
+      const availableValue = ask.price * ask.size * depthFactor;
       if (availableValue <= 0) continue;
       const useValue = Math.min(remaining, availableValue);
       const sharesToBuy = useValue / ask.price;
@@ -1370,6 +1432,7 @@ export class SweepKernel {
   private simulateSell(
     bids: Array<{ price: number; size: number }>,
     sharesToSell: number,
+    depthFactor: number,
   ): { shares: number; proceeds: number } | null {
     if (sharesToSell <= 0) return null;
     let remaining = sharesToSell;
@@ -1377,8 +1440,9 @@ export class SweepKernel {
     let shares = 0;
 
     for (const bid of bids) {
-      if (bid.size <= 0) continue;
-      const sharesToTake = Math.min(bid.size, remaining);
+      const size = bid.size * depthFactor;
+      if (size <= 0) continue;
+      const sharesToTake = Math.min(size, remaining);
       if (sharesToTake <= 0) continue;
       shares += sharesToTake;
       proceeds += sharesToTake * bid.price;
@@ -0,0 +1,246 @@
+import type { CoinSymbol } from "../services/auto-market";
+import type { BacktestHub } from "./backtest-hub";
+import type { SweepKernel, SweepKernelSummary } from "./sweep-kernel";
+import type { SweepValue, SweepVariant } from "./sweep-grid";
+
+export interface SweepKernelGroup {
+  coin: CoinSymbol;
+  kernel: SweepKernel;
+  variantIds: string[];
+}
+
+export interface SweepRunnerOptions {
+  tickIntervalMs?: number;
+  onProgress?: (nowMs: number, endMs: number) => void;
+  progressEveryMs?: number;
+}
+
+export interface SweepResultRow {
+  rank: number;
+  id: string;
+  params: Record<string, SweepValue>;
+  totalTrades: number;
+  crossTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  totalProfit: number;
+  openExposure: number;
+  byCoin: Partial<Record<CoinSymbol, SweepKernelSummary>>;
+}
+
+/**
+ * Drives BacktestHub at max speed and feeds each coin's snapshot into that
+ * coin's kernels. Mirrors BacktestRunner's stepping: hub events, pending
+ * decision deadlines, and a fixed eval tick so markets resolve on time.
+ */
+export class SweepRunner {
+  private hub: BacktestHub;
+  private groups: SweepKernelGroup[];
+  private groupsByCoin: Map<CoinSymbol, SweepKernelGroup[]> = new Map();
+  private options: SweepRunnerOptions;
+  private currentTime = 0;
+  private tickIntervalMs = 250;
+  private nextEvalTimeMs = 0;
+
+  constructor(
+    hub: BacktestHub,
+    groups: SweepKernelGroup[],
+    options: SweepRunnerOptions = {},
+  ) {
+    this.hub = hub;
+    this.groups = groups;
+    this.options = options;
+    for (const group of groups) {
+      const list = this.groupsByCoin.get(group.coin) ?? [];
+      list.push(group);
+      this.groupsByCoin.set(group.coin, list);
+    }
+  }
+
+  run(): void {
+    this.tickIntervalMs = this.options.tickIntervalMs ?? 250;
+    this.currentTime = this.hub.getCurrentTimeMs();
+    this.nextEvalTimeMs = this.currentTime + this.tickIntervalMs;
+    const endTime = this.hub.getEndTimeMs();
+    const progressEveryMs = this.options.progressEveryMs ?? 3_600_000;
+    let nextProgressMs = this.currentTime + progressEveryMs;
+
+    while (this.currentTime < endTime) {
+      const nextTime = this.getNextStepTime(endTime);
+      if (nextTime === null) {
+        break;
+      }
+
+      this.currentTime = nextTime;
+      this.hub.advanceTo(this.currentTime);
+      this.evaluate(this.currentTime);
+
+      while (this.nextEvalTimeMs <= this.currentTime) {
+        this.nextEvalTimeMs += this.tickIntervalMs;
+      }
+
+      if (this.options.onProgress && this.currentTime >= nextProgressMs) {
+        this.options.onProgress(this.currentTime, endTime);
+        nextProgressMs = this.currentTime + progressEveryMs;
+      }
+    }
+  }
+
+  private getNextStepTime(endTime: number): number | null {
+    if (this.currentTime >= endTime) {
+      return null;
+    }
+
+    let next = endTime;
+    const hubNext = this.hub.getNextEventTime();
+    if (hubNext !== null) {
+      next = Math.min(next, hubNext);
+    }
+    for (const group of this.groups) {
+      const due = group.kernel.getNextPendingTime();
+      if (due !== null && due > this.currentTime) {
+        next = Math.min(next, due);
+      }
+    }
+    if (this.nextEvalTimeMs > this.currentTime) {
+      next = Math.min(next, this.nextEvalTimeMs);
+    }
+
+    if (next <= this.currentTime) {
+      const bumped = Math.min(endTime, this.currentTime + 1);
+      return bumped > this.currentTime ? bumped : null;
+    }
+
+    return next;
+  }
+
+  private evaluate(nowMs: number): void {
+    const scheduledEval = nowMs >= this.nextEvalTimeMs;
+    const dirtyCoins = this.hub.drainDirtyCoins();
+
+    for (const [coin, groups] of this.groupsByCoin.entries()) {
+      const snapshot = this.hub.getSnapshot(coin);
+      if (!snapshot) continue;
+      const pending = groups.some((group) => {
+        const due = group.kernel.getNextPendingTime();
+        return due !== null && due <= nowMs;
+      });
+      if (!scheduledEval && !pending && !dirtyCoins.has(coin)) continue;
+      for (const group of groups) {
+        group.kernel.evaluate(snapshot, nowMs);
+      }
+    }
+  }
+}
+
+function compareRows(a: SweepResultRow, b: SweepResultRow): number {
+  if (b.totalProfit !== a.totalProfit) return b.totalProfit - a.totalProfit;
+  const aRate = a.winRate ?? -1;
+  const bRate = b.winRate ?? -1;
+  if (bRate !== aRate) return bRate - aRate;
+  if (b.totalTrades !== a.totalTrades) return b.totalTrades - a.totalTrades;
+  return a.id.localeCompare(b.id);
+}
+
+/**
+ * Sums per-coin kernel summaries into one row per variant, ranked by PnL,
+ * then win rate, then trade count.
+ */
+export function rankSweepResults(
+  variants: SweepVariant[],
+  groups: SweepKernelGroup[],
+): SweepResultRow[] {
+  const rowsById = new Map<string, SweepResultRow>();
+  for (const variant of variants) {
+    rowsById.set(variant.id, {
+      rank: 0,
+      id: variant.id,
+      params: variant.params,
+      totalTrades: 0,
+      crossTrades: 0,
+      wins: 0,
+      losses: 0,
+      winRate: null,
+      totalProfit: 0,
+      openExposure: 0,
+      byCoin: {},
+    });
+  }
+
+  for (const group of groups) {
+    const summaries = group.kernel.getSummaries();
+    for (let i = 0; i < group.variantIds.length; i += 1) {
+      const row = rowsById.get(group.variantIds[i]!);
+      const summary = summaries[i];
+      if (!row || !summary) continue;
+      row.totalTrades += summary.totalTrades;
+      row.crossTrades += summary.crossTrades;
+      row.wins += summary.wins;
+      row.losses += summary.losses;
+      row.totalProfit += summary.totalProfit;
+      row.openExposure += summary.openExposure;
+      row.byCoin[group.coin] = summary;
+    }
+  }
+
+  return rankSweepRows(Array.from(rowsById.values()));
+}
+
+/** Fills in win rates and ranks summed rows in place; returns them sorted. */
+export function rankSweepRows(rows: SweepResultRow[]): SweepResultRow[] {
+  for (const row of rows) {
+    const decided = row.wins + row.losses;
+    row.winRate = decided > 0 ? row.wins / decided : null;
+  }
+  rows.sort(compareRows);
+  rows.forEach((row, index) => {
+    row.rank = index + 1;
+  });
+  return rows;
+}
+
+function formatParamValue(value: SweepValue): string {
+  if (value === null) return "null";
+  return String(value);
+}
+
+export function formatSweepTable(
+  rows: SweepResultRow[],
+  paramPaths: string[],
+  limit?: number,
+): string[] {
+  const shown = limit !== undefined ? rows.slice(0, limit) : rows;
+  const header = [
+    "rank",
+    "id",
+    "pnl",
+    "winRate",
+    "trades",
+    "cross",
+    "wins",
+    "losses",
+    "exposure",
+    ...paramPaths,
+  ];
+  const lines = [
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+  ];
+  for (const row of shown) {
+    const cells = [
+      String(row.rank),
+      row.id,
+      row.totalProfit.toFixed(2),
+      row.winRate === null ? "-" : `${(row.winRate * 100).toFixed(1)}%`,
+      String(row.totalTrades),
+      String(row.crossTrades),
+      String(row.wins),
+      String(row.losses),
+      row.openExposure.toFixed(2),
+      ...paramPaths.map((path) => formatParamValue(row.params[path] ?? null)),
+    ];
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+  return lines;
+}
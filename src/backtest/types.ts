@@ -1,4 +1,5 @@
-import type { CoinSymbol } from "../services/auto-market";
+import type { CoinSymbol, MarketHorizon } from "../services/auto-market";
+import type { MarketProvider } from "../providers/provider";
 
 export type BacktestTradeSide = "BUY" | "SELL";
 
@@ -20,6 +21,11 @@ export interface BacktestMarketMeta {
   upTokenId: string;
   downTokenId: string;
   priceToBeat?: number;
+  provider?: MarketProvider;
+  marketTicker?: string;
+  outcome?: "UP" | "DOWN";
+  /** Market window length; missing means 15m (caches written before horizons). */
+  horizon?: MarketHorizon;
 }
 
 export interface BacktestTradeEvent {
@@ -34,6 +40,25 @@ export interface BacktestTradeEvent {
   makerOrders?: BacktestTradeLevel[];
 }
 
+export interface BacktestBookLevel {
+  price: number;
+  size: number;
+}
+
+export type BacktestBookEventKind = "snapshot" | "delta";
+
+/**
+ * Book update for one token at `timestamp`. A snapshot (the default) replaces
+ * the previous book; a delta sets the listed levels, with size 0 removing one.
+ */
+export interface BacktestBookEvent {
+  timestamp: number;
+  tokenId: string;
+  kind?: BacktestBookEventKind;
+  bids: BacktestBookLevel[];
+  asks: BacktestBookLevel[];
+}
+
 export interface BacktestCryptoTick {
   symbol: string;
   timestamp: number;
@@ -0,0 +1,316 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { DEFAULT_MARKET_HORIZON, type CoinSymbol } from "../services/auto-market";
+import { parseFeeModels } from "../services/fee-model";
+import {
+  loadProfilesFromConfig,
+  parseConfigFile,
+  sanitizeProfileName,
+} from "../services/profile-config";
+import { ProfileEngine, type TimedTradeConfig } from "../services/profile-engine";
+import { parseRiskLimits, RiskManager } from "../services/risk-manager";
+import { SeededRng } from "../services/rng";
+import { RunLogger } from "../services/run-logger";
+import { JOURNAL_FILE, readJournal, TradeJournal, type JournalEvent } from "../services/trade-journal";
+import { ProfileDashboard } from "../cli/profile-dashboard";
+import { BacktestHub } from "./backtest-hub";
+import { BacktestRunner } from "./backtest-runner";
+import { loadBacktestData } from "../routes/backtest";
+
+/** Checked-in dataset and profiles replayed by `backtest --verify`. */
+export const VERIFY_FIXTURE_DIR = join(process.cwd(), "tests", "fixtures", "backtest");
+export const GOLDEN_DIR = "golden";
+
+// Fixed so the results only move when the engines or the fixture do, not
+// with RNG_SEED or BACKTEST_LATENCY_MS.
+const VERIFY_SEED = 20250106;
+const VERIFY_LATENCY_MS = 80;
+
+export interface GoldenSummary {
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  totalProfit: number;
+  openExposure: number;
+}
+
+/** What a profile is expected to do on the fixture; one golden file each. */
+export interface GoldenResult {
+  profile: string;
+  summary: GoldenSummary;
+  /** Fills, cancels and traded settlements, one line each, in journal order. */
+  trades: string[];
+}
+
+export interface VerifyProfileResult {
+  profile: string;
+  /** Readable differences from the golden file; empty when it matches. */
+  diff: string[];
+  /** No golden file existed (and none was written). */
+  missing: boolean;
+}
+
+export interface VerifyReport {
+  results: VerifyProfileResult[];
+  /** Golden files rewritten from this run instead of compared. */
+  updated: boolean;
+  passed: boolean;
+}
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+const fixed = (value: number | null) => (value === null ? "-" : value.toFixed(4));
+
+function formatTradeLine(event: JournalEvent): string | null {
+  const time = new Date(event.ts).toISOString();
+  switch (event.type) {
+    case "fill": {
+      const legs = event.legs
+        .map(
+          (leg) =>
+            `${leg.side} ${leg.outcome} ${fixed(leg.shares)}@${fixed(leg.avgPrice)} cost=${fixed(leg.cost)} fee=${fixed(leg.fee)}`,
+        )
+        .join(" + ");
+      return `${time} fill ${event.market} ${event.fillSource} ${legs} pnl=${fixed(event.realizedPnl)}`;
+    }
+    case "cancel":
+      return `${time} cancel ${event.market} ${event.reason}`;
+    case "settlement": {
+      if (event.result === "none") return null;
+      const outcome = event.outcomes[0]?.outcome ?? "-";
+      return `${time} settle ${event.market} ${outcome} ${event.result} pnl=${fixed(event.pnl)}`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Replays the fixture through every profile in its config, headless and at
+ * max speed, and returns each profile's results in golden-file form. Logs
+ * and the journal go to `runDir`.
+ */
+export async function runVerifyBacktest(
+  fixtureDir: string,
+  runDir: string,
+): Promise<GoldenResult[]> {
+  const parsed = parseConfigFile(join(fixtureDir, "config.json"));
+  const { profiles, coinOptions } = loadProfilesFromConfig(parsed);
+  if (profiles.length === 0) {
+    throw new Error(`Config error: ${fixtureDir}/config.json has no profiles`);
+  }
+
+  const data = await loadBacktestData(fixtureDir, coinOptions);
+  const hub = new BacktestHub({
+    marketsByCoin: data.marketsByCoin,
+    tradeFilesBySlug: data.tradeFilesBySlug,
+    cryptoTickFilesByCoin: data.cryptoTickFilesByCoin,
+    tradeRangesBySlug: data.tradeRangesBySlug,
+    tickRangesByCoin: data.tickRangesByCoin,
+    latencyMs: VERIFY_LATENCY_MS,
+  });
+
+  mkdirSync(runDir, { recursive: true });
+  const systemLogger = new RunLogger(join(runDir, "system.log"));
+  systemLogger.log(`Backtest verify (${fixtureDir}), seed ${VERIFY_SEED}`);
+  const fees = parseFeeModels(parsed);
+  const risk = new RiskManager(parseRiskLimits(parsed.risk), systemLogger);
+  const journalPath = join(runDir, JOURNAL_FILE);
+  const journal = new TradeJournal(journalPath);
+  const rng = new SeededRng(VERIFY_SEED);
+  const engines: ProfileEngine[] = [];
+  for (const profile of profiles) {
+    const configs = new Map<CoinSymbol, TimedTradeConfig>();
+    for (const [coin, config] of profile.configs) {
+      if ((config.horizon ?? DEFAULT_MARKET_HORIZON) === DEFAULT_MARKET_HORIZON) {
+        configs.set(coin, config);
+      }
+    }
+    if (configs.size === 0) continue;
+    const logger = new RunLogger(join(runDir, `${sanitizeProfileName(profile.name)}.log`));
+    engines.push(
+      new ProfileEngine(profile.name, configs, logger, hub.getStartTimeMs(), {
+        advancedSignals: true,
+        decisionLatencyMs: 250,
+        crossDebug: true,
+        crossAllowNoFlip: true,
+        fees,
+        risk,
+        journal,
+        rng: rng.fork(`profile:${profile.name}`),
+      }),
+    );
+  }
+
+  const runner = new BacktestRunner(hub, engines, new ProfileDashboard(), {
+    speed: 0,
+    runId: "verify",
+    modeLabel: "Backtest Verify",
+    activeProfileIndex: () => 0,
+    setActiveProfileIndex: () => {},
+    selectedCoins: coinOptions,
+    risk,
+    render: false,
+    headless: true,
+  });
+  runner.start();
+  hub.close();
+
+  const events = existsSync(journalPath) ? readJournal(journalPath) : [];
+  return engines.map((engine) => {
+    const summary = engine.getSummary();
+    const trades: string[] = [];
+    for (const event of events) {
+      if (event.engine !== engine.getName()) continue;
+      const line = formatTradeLine(event);
+      if (line) trades.push(line);
+    }
+    return {
+      profile: engine.getName(),
+      summary: {
+        totalTrades: summary.totalTrades,
+        wins: summary.wins,
+        losses: summary.losses,
+        totalProfit: round(summary.totalProfit),
+        openExposure: round(summary.openExposure),
+      },
+      trades,
+    };
+  });
+}
+
+function goldenPath(fixtureDir: string, profile: string): string {
+  return join(fixtureDir, GOLDEN_DIR, `${sanitizeProfileName(profile)}.json`);
+}
+
+export function readGoldenResult(fixtureDir: string, profile: string): GoldenResult | null {
+  const path = goldenPath(fixtureDir, profile);
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, "utf8")) as GoldenResult;
+}
+
+export function writeGoldenResult(fixtureDir: string, result: GoldenResult): void {
+  mkdirSync(join(fixtureDir, GOLDEN_DIR), { recursive: true });
+  writeFileSync(goldenPath(fixtureDir, result.profile), `${JSON.stringify(result, null, 2)}\n`, "utf8");
+}
+
+/**
+ * Line diff (longest common subsequence) with `-` for expected-only and `+`
+ * for actual-only lines, plus up to `context` unchanged lines around each change.
+ */
+export function diffLines(expected: string[], actual: string[], context = 2): string[] {
+  const rows = expected.length;
+  const cols = actual.length;
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lcs[i]![j] =
+        expected[i] === actual[j]
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const ops: Array<{ mark: " " | "-" | "+"; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && expected[i] === actual[j]) {
+      ops.push({ mark: " ", line: expected[i]! });
+      i += 1;
+      j += 1;
+    } else if (i < rows && (j === cols || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      ops.push({ mark: "-", line: expected[i]! });
+      i += 1;
+    } else {
+      ops.push({ mark: "+", line: actual[j]! });
+      j += 1;
+    }
+  }
+
+  const out: string[] = [];
+  let lastShown = -1;
+  ops.forEach((op, index) => {
+    if (op.mark === " ") return;
+    const from = Math.max(lastShown + 1, index - context);
+    if (lastShown >= 0 && from > lastShown + 1) out.push("  ...");
+    for (let k = from; k < index; k += 1) out.push(`  ${ops[k]!.line}`);
+    out.push(`${op.mark} ${op.line}`);
+    lastShown = index;
+    for (let k = index + 1; k < ops.length && k <= index + context && ops[k]!.mark === " "; k += 1) {
+      out.push(`  ${ops[k]!.line}`);
+      lastShown = k;
+    }
+  });
+  return out;
+}
+
+/** Summary fields that moved, then the trade list diff. Empty when they match. */
+export function diffGoldenResult(expected: GoldenResult, actual: GoldenResult): string[] {
+  const out: string[] = [];
+  for (const key of Object.keys(expected.summary) as Array<keyof GoldenSummary>) {
+    if (expected.summary[key] !== actual.summary[key]) {
+      out.push(`summary ${key}: ${expected.summary[key]} -> ${actual.summary[key]}`);
+    }
+  }
+  const trades = diffLines(expected.trades, actual.trades);
+  if (trades.length > 0) {
+    out.push(`trades (${expected.trades.length} -> ${actual.trades.length}):`, ...trades);
+  }
+  return out;
+}
+
+/**
+ * Runs the fixture and compares every profile against its golden file, or
+ * rewrites the golden files from this run when `update` is set.
+ */
+export async function verifyBacktest(options: {
+  runDir: string;
+  fixtureDir?: string;
+  update?: boolean;
+}): Promise<VerifyReport> {
+  const fixtureDir = options.fixtureDir ?? VERIFY_FIXTURE_DIR;
+  const actual = await runVerifyBacktest(fixtureDir, options.runDir);
+  const results: VerifyProfileResult[] = [];
+  for (const result of actual) {
+    if (options.update) {
+      writeGoldenResult(fixtureDir, result);
+      results.push({ profile: result.profile, diff: [], missing: false });
+      continue;
+    }
+    const expected = readGoldenResult(fixtureDir, result.profile);
+    results.push({
+      profile: result.profile,
+      diff: expected ? diffGoldenResult(expected, result) : [],
+      missing: expected === null,
+    });
+  }
+  return {
+    results,
+    updated: options.update === true,
+    passed: results.every((result) => !result.missing && result.diff.length === 0),
+  };
+}
+
+export function formatVerifyReport(report: VerifyReport): string[] {
+  const lines: string[] = [];
+  for (const result of report.results) {
+    if (report.updated) {
+      lines.push(`${result.profile}: golden file updated`);
+    } else if (result.missing) {
+      lines.push(`${result.profile}: no golden file (run with --update-golden)`);
+    } else if (result.diff.length === 0) {
+      lines.push(`${result.profile}: ok`);
+    } else {
+      lines.push(`${result.profile}: CHANGED`, ...result.diff.map((line) => `  ${line}`));
+    }
+  }
+  if (!report.updated) {
+    lines.push(
+      report.passed
+        ? "Backtest verify passed."
+        : "Backtest verify failed. If the change is intended, rerun with --update-golden and commit the golden files.",
+    );
+  }
+  return lines;
+}
@@ -0,0 +1,240 @@
+import type { SweepValue } from "./sweep-grid";
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 7 * 86_400_000,
+};
+
+export interface WalkForwardFold {
+  index: number;
+  trainStartMs: number;
+  trainEndMs: number;
+  testStartMs: number;
+  testEndMs: number;
+}
+
+/** The counters walk-forward reads from a ranked sweep row. */
+export interface WalkForwardSummary {
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  totalProfit: number;
+}
+
+export interface WalkForwardSelection {
+  id: string;
+  params: Record<string, SweepValue>;
+  train: WalkForwardSummary;
+}
+
+export interface WalkForwardFoldResult {
+  fold: WalkForwardFold;
+  /** Best variant on the train fold; null when parameters are not optimized. */
+  selected: WalkForwardSelection | null;
+  /** Out-of-sample result per profile on the test fold. */
+  test: Map<string, WalkForwardSummary>;
+}
+
+export interface WalkForwardAggregate extends WalkForwardSummary {
+  profile: string;
+  folds: number;
+  profitableFolds: number;
+  winRate: number | null;
+  worstFoldProfit: number | null;
+  /**
+   * Out-of-sample PnL rate over in-sample PnL rate of the selected
+   * variants (walk-forward efficiency); only for the optimized profile.
+   */
+  efficiency: number | null;
+}
+
+/** Parses `90m`, `12h`, `3d`, `1w`. */
+export function parseDurationMs(value: string, label: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([mhdw])$/i.exec(value.trim());
+  const unit = match?.[2] ? DURATION_UNITS_MS[match[2].toLowerCase()] : undefined;
+  if (!match || unit === undefined) {
+    throw new Error(`Config error: ${label} must be a duration like 90m, 12h, 3d or 1w`);
+  }
+  const ms = Number(match[1]) * unit;
+  if (!(ms > 0)) {
+    throw new Error(`Config error: ${label} must be positive`);
+  }
+  return ms;
+}
+
+/**
+ * Rolling folds over [startMs, endMs): each train window is followed by
+ * its test window, and the pair moves forward by `stepMs` (default: the
+ * test length, so test windows tile the range). A trailing partial test
+ * window is dropped.
+ */
+export function buildWalkForwardFolds(
+  startMs: number,
+  endMs: number,
+  trainMs: number,
+  testMs: number,
+  stepMs: number = testMs,
+): WalkForwardFold[] {
+  if (trainMs <= 0 || testMs <= 0 || stepMs <= 0) {
+    throw new Error("Config error: walk-forward train, test and step must be positive");
+  }
+  const folds: WalkForwardFold[] = [];
+  for (let trainStartMs = startMs; trainStartMs + trainMs + testMs <= endMs; trainStartMs += stepMs) {
+    folds.push({
+      index: folds.length + 1,
+      trainStartMs,
+      trainEndMs: trainStartMs + trainMs,
+      testStartMs: trainStartMs + trainMs,
+      testEndMs: trainStartMs + trainMs + testMs,
+    });
+  }
+  if (folds.length === 0) {
+    throw new Error("Config error: backtest range is shorter than one train + test window");
+  }
+  return folds;
+}
+
+/** Keeps markets that start inside [startMs, endMs) so no market is in two windows. */
+export function marketStartsInWindow(
+  market: { startMs: number },
+  startMs: number,
+  endMs: number,
+): boolean {
+  return market.startMs >= startMs && market.startMs < endMs;
+}
+
+export function aggregateWalkForward(
+  results: WalkForwardFoldResult[],
+  optimizedProfile: string | null = null,
+): WalkForwardAggregate[] {
+  const byProfile = new Map<string, WalkForwardAggregate>();
+  for (const result of results) {
+    for (const [profile, summary] of result.test) {
+      const row = byProfile.get(profile) ?? {
+        profile,
+        folds: 0,
+        profitableFolds: 0,
+        totalTrades: 0,
+        wins: 0,
+        losses: 0,
+        totalProfit: 0,
+        winRate: null,
+        worstFoldProfit: null,
+        efficiency: null,
+      };
+      row.folds += 1;
+      row.profitableFolds += summary.totalProfit > 0 ? 1 : 0;
+      row.totalTrades += summary.totalTrades;
+      row.wins += summary.wins;
+      row.losses += summary.losses;
+      row.totalProfit += summary.totalProfit;
+      row.worstFoldProfit =
+        row.worstFoldProfit === null
+          ? summary.totalProfit
+          : Math.min(row.worstFoldProfit, summary.totalProfit);
+      byProfile.set(profile, row);
+    }
+  }
+
+  const rows = Array.from(byProfile.values());
+  for (const row of rows) {
+    const decided = row.wins + row.losses;
+    row.winRate = decided > 0 ? row.wins / decided : null;
+  }
+
+  const optimized = optimizedProfile ? byProfile.get(optimizedProfile) : undefined;
+  if (optimized) {
+    let trainProfit = 0;
+    let trainMs = 0;
+    let testMs = 0;
+    for (const result of results) {
+      if (!result.selected) continue;
+      trainProfit += result.selected.train.totalProfit;
+      trainMs += result.fold.trainEndMs - result.fold.trainStartMs;
+      testMs += result.fold.testEndMs - result.fold.testStartMs;
+    }
+    if (trainProfit > 0 && trainMs > 0 && testMs > 0) {
+      optimized.efficiency = optimized.totalProfit / testMs / (trainProfit / trainMs);
+    }
+  }
+  return rows;
+}
+
+function iso(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function formatParams(params: Record<string, SweepValue>): string {
+  const entries = Object.entries(params);
+  return entries.length === 0
+    ? "-"
+    : entries.map(([path, value]) => `${path}=${value === null ? "null" : String(value)}`).join(", ");
+}
+
+export function formatWalkForwardReport(
+  title: string,
+  results: WalkForwardFoldResult[],
+  aggregates: WalkForwardAggregate[],
+): string[] {
+  const optimize = results.some((result) => result.selected !== null);
+  const profiles = aggregates.map((row) => row.profile);
+  const foldHeader = [
+    "fold",
+    "train",
+    "test",
+    ...(optimize ? ["selected", "trainPnl"] : []),
+    ...profiles.map((profile) => `${profile} pnl`),
+  ];
+  const lines = [
+    `# ${title}`,
+    "",
+    "## Out-of-sample by profile",
+    "",
+    "| profile | folds | profitable | pnl | worstFold | trades | winRate | efficiency |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- |",
+  ];
+  for (const row of aggregates) {
+    lines.push(
+      `| ${[
+        row.profile,
+        String(row.folds),
+        String(row.profitableFolds),
+        row.totalProfit.toFixed(2),
+        row.worstFoldProfit === null ? "-" : row.worstFoldProfit.toFixed(2),
+        String(row.totalTrades),
+        row.winRate === null ? "-" : `${(row.winRate * 100).toFixed(1)}%`,
+        row.efficiency === null ? "-" : row.efficiency.toFixed(2),
+      ].join(" | ")} |`,
+    );
+  }
+  lines.push(
+    "",
+    "## Folds",
+    "",
+    `| ${foldHeader.join(" | ")} |`,
+    `| ${foldHeader.map(() => "---").join(" | ")} |`,
+  );
+  for (const result of results) {
+    const { fold } = result;
+    const cells = [
+      String(fold.index),
+      `${iso(fold.trainStartMs)} -> ${iso(fold.trainEndMs)}`,
+      `${iso(fold.testStartMs)} -> ${iso(fold.testEndMs)}`,
+    ];
+    if (optimize) {
+      cells.push(
+        result.selected ? `${result.selected.id} (${formatParams(result.selected.params)})` : "-",
+        result.selected ? result.selected.train.totalProfit.toFixed(2) : "-",
+      );
+    }
+    for (const profile of profiles) {
+      const summary = result.test.get(profile);
+      cells.push(summary ? `${summary.totalProfit.toFixed(2)} (${summary.totalTrades})` : "-");
+    }
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+  lines.push("");
+  return lines;
+}
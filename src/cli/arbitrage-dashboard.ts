@@ -3,6 +3,8 @@ import { colors } from "./dashboard";
 import { enableTui } from "./tui";
 import type { CoinSymbol } from "../services/auto-market";
 import type { MarketSnapshot } from "../services/market-data-hub";
+import { formatStrikeBand } from "../services/strike-band";
+import { formatRiskState, type RiskState } from "../services/risk-manager";
 import type {
   ArbitrageMarketView,
   ArbitrageSummary,
@@ -28,6 +30,8 @@ export interface ArbitrageDashboardState {
   kalshiSnapshots: Map<CoinSymbol, MarketSnapshot>;
   polyOddsHistoryByCoin: Map<CoinSymbol, number[]>;
   kalshiOddsHistoryByCoin: Map<CoinSymbol, number[]>;
+  /** Portfolio risk shared by every profile. */
+  risk?: RiskState;
 }
 
 const ANSI_RE = /\x1b\[[0-9;]*m/g;
@@ -84,6 +88,11 @@ function renderCoinTabs(coins: CoinSymbol[], activeIndex: number): string {
   return `${tabs}\n`;
 }
 
+function renderRiskLine(risk: RiskState): string {
+  const color = risk.killSwitch ? colors.bright + colors.red : colors.dim;
+  return `${color}${formatRiskState(risk)}${colors.reset}\n`;
+}
+
 export class ArbitrageDashboard {
   private state: ArbitrageDashboardState;
   private lastRenderTime = 0;
@@ -159,6 +168,9 @@ export class ArbitrageDashboard {
     }
 
     output += this.renderSummary(activeProfile);
+    if (this.state.risk) {
+      output += renderRiskLine(this.state.risk);
+    }
     output += `${colors.dim}${"-".repeat(80)}${colors.reset}\n`;
 
     output += this.renderGraphs(activeProfile, activeCoin);
@@ -186,7 +198,7 @@ export class ArbitrageDashboard {
       output += `${line}\n`;
     }
     output += `${colors.dim}${"-".repeat(80)}${colors.reset}\n`;
-    output += `${colors.dim}Up/Down: switch profile | Left/Right: switch coin | Ctrl+C to exit${colors.reset}\n`;
+    output += `${colors.dim}Up/Down: switch profile | Left/Right: switch coin | X: kill switch | Ctrl+C to exit${colors.reset}\n`;
 
     process.stdout.write(output);
   }
@@ -223,7 +235,11 @@ export class ArbitrageDashboard {
       summary.losses
     } | Win Rate: ${winRate.toFixed(1)}% | PnL: ${formatCurrency(
       summary.totalProfit,
-    )} | Exposure: ${formatCurrency(exposure)}${colors.reset}\n`;
+    )} | Leg Risk PnL: ${formatCurrency(summary.legRiskPnl)} | Fees: ${formatCurrency(
+      summary.totalFees,
+    )} | Exposure: ${formatCurrency(
+      exposure,
+    )} | Unhedged: ${formatCurrency(summary.unhedgedExposure)}${colors.reset}\n`;
 
     return line;
   }
@@ -335,7 +351,17 @@ export class ArbitrageDashboard {
     const position = market.position
       ? `${market.position.direction} shares=${market.position.shares} cost=${formatCurrency(
           market.position.costTotal,
-        )}`
+        )}${
+          market.position.unhedgedVenue
+            ? ` naked=${market.position.unhedgedVenue}:${market.position.unhedgedShares} (${formatCurrency(
+                market.position.unhedgedCost,
+              )})`
+            : ""
+        }${
+          market.position.band.band !== "none"
+            ? ` strike=${market.position.kalshiSlug} band=${formatStrikeBand(market.position.band)}`
+            : ""
+        }`
       : "none";
     const lastResult = market.lastResult ?? "none";
 
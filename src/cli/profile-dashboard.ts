@@ -6,6 +6,8 @@ import type {
   ProfileMarketView,
   ProfileSummary,
 } from "../services/profile-engine";
+import { formatRiskState, type RiskState } from "../services/risk-manager";
+import { REPLAY_HELP, type ReplayClockState } from "../backtest/replay-controls";
 
 export interface ProfileViewState {
   name: string;
@@ -24,6 +26,10 @@ export interface ProfileDashboardState {
   activeCoinPriceHistory: number[];
   activeCoinPriceLabel?: string;
   useCandleGraph?: boolean;
+  /** Portfolio risk shared by every profile. */
+  risk?: RiskState;
+  /** Backtest replay clock and controls (visual backtest only). */
+  replay?: ReplayClockState;
 }
 
 export class ProfileDashboard {
@@ -76,6 +82,9 @@ export class ProfileDashboard {
     output += `${colors.bright}${colors.cyan}${modeLabel}${colors.reset} ${colors.dim}(${runId})${colors.reset}\n`;
 
     output += this.renderProfileTabs();
+    if (this.state.replay) {
+      output += this.renderReplayClock(this.state.replay);
+    }
     output += `${colors.dim}${"-".repeat(80)}${colors.reset}\n`;
 
     if (!activeProfile) {
@@ -85,6 +94,12 @@ export class ProfileDashboard {
     }
 
     output += this.renderSummary(activeProfile);
+    if (this.state.risk) {
+      const riskColor = this.state.risk.killSwitch
+        ? colors.bright + colors.red
+        : colors.dim;
+      output += `${riskColor}${formatRiskState(this.state.risk)}${colors.reset}\n`;
+    }
     output += `${colors.dim}${"-".repeat(80)}${colors.reset}\n`;
 
     output += this.renderGraphs(activeProfile);
@@ -101,6 +116,9 @@ export class ProfileDashboard {
       output += `${line}\n`;
     }
     output += `${colors.dim}${"-".repeat(80)}${colors.reset}\n`;
+    if (this.state.replay) {
+      output += `${colors.dim}${REPLAY_HELP}${colors.reset}\n`;
+    }
     output += `${colors.dim}Up/Down or Left/Right: switch profile | Ctrl+C to exit${colors.reset}\n`;
 
     process.stdout.write(output);
@@ -124,6 +142,31 @@ export class ProfileDashboard {
     return `${tabs}\n`;
   }
 
+  private renderReplayClock(replay: ReplayClockState): string {
+    const span = replay.endMs - replay.startMs;
+    const progress =
+      span > 0 ? ((replay.timeMs - replay.startMs) / span) * 100 : 100;
+    const state = replay.paused
+      ? `${colors.bright}${colors.yellow}PAUSED${colors.reset}`
+      : `${colors.green}PLAYING${colors.reset}`;
+    const speed = replay.speed >= 1 ? replay.speed.toFixed(0) : replay.speed.toFixed(3).replace(/0+$/, "");
+    let output = `Replay ${new Date(replay.timeMs).toISOString()} | ${state} | ${speed}x | ${progress.toFixed(
+      1,
+    )}% | Bookmarks: ${replay.bookmarks.length}\n`;
+    if (replay.input !== null) {
+      output += `${colors.bright}Go to (+5m, 14:30, ISO):${colors.reset} ${replay.input}_\n`;
+    } else if (replay.status) {
+      output += `${colors.dim}${replay.status}${colors.reset}\n`;
+    }
+    const recent = replay.bookmarks.slice(-3);
+    if (recent.length > 0) {
+      output += `${colors.dim}${recent
+        .map((bookmark) => `#${bookmark.index} ${new Date(bookmark.timeMs).toISOString()}`)
+        .join(" | ")}${colors.reset}\n`;
+    }
+    return output;
+  }
+
   private renderSummary(profile: ProfileViewState): string {
     const summary = profile.summary;
     const totalMarkets = summary.wins + summary.losses;
@@ -45,6 +45,21 @@ export interface KalshiMarket {
   [key: string]: unknown;
 }
 
+export interface KalshiTrade {
+  trade_id?: string;
+  ticker?: string;
+  price?: number | null;
+  count?: number | null;
+  count_fp?: string | null;
+  yes_price?: number | null;
+  no_price?: number | null;
+  yes_price_dollars?: string | null;
+  no_price_dollars?: string | null;
+  taker_side?: string;
+  created_time?: string;
+  [key: string]: unknown;
+}
+
 export class KalshiClient {
   private marketsApi: MarketApi;
   private eventsApi: EventsApi;
@@ -114,6 +129,28 @@ export class KalshiClient {
     };
   }
 
+  async getTrades(params: {
+    limit?: number;
+    cursor?: string;
+    ticker?: string;
+    minTs?: number;
+    maxTs?: number;
+  }): Promise<{ trades: KalshiTrade[]; cursor?: string }> {
+    const response = await this.marketsApi.getTrades(
+      params.limit,
+      params.cursor,
+      params.ticker,
+      params.minTs,
+      params.maxTs,
+    );
+    const payload = this.unwrapResponse<any>(response);
+    const trades = Array.isArray(payload?.trades) ? payload.trades : [];
+    return {
+      trades: trades as KalshiTrade[],
+      cursor: payload?.cursor ?? payload?.next_cursor ?? payload?.nextCursor,
+    };
+  }
+
   async searchMarkets(
     term: string,
     options?: { limit?: number; status?: string },
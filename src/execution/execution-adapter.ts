@@ -0,0 +1,162 @@
+import type { MarketProvider } from "../providers/provider";
+import type { RunLogger } from "../services/run-logger";
+import { getKalshiEnvConfig } from "../clients/kalshi/kalshi-config";
+import { getPolymarketExecutionConfig } from "./execution-config";
+import { KalshiOrderGateway } from "./kalshi-gateway";
+import { PolymarketOrderGateway } from "./polymarket-gateway";
+import type {
+  ExecutionAdapter,
+  ExecutionMode,
+  ExecutionOrder,
+  ExecutionReport,
+  SignedOrderRequest,
+  VenueOrderGateway,
+} from "./types";
+
+export type VenueGateways = Partial<Record<MarketProvider, VenueOrderGateway>>;
+
+/** Credential and signature headers kept out of the order logs. */
+const REDACTED_HEADERS = [
+  "POLY_API_KEY",
+  "POLY_PASSPHRASE",
+  "POLY_SIGNATURE",
+  "KALSHI-ACCESS-KEY",
+  "KALSHI-ACCESS-SIGNATURE",
+];
+/** Polymarket repeats the API key as the order `owner`. */
+const REDACTED_BODY_FIELDS = ["owner"];
+
+function rejected(error: unknown): ExecutionReport {
+  return {
+    status: "rejected",
+    orderId: null,
+    sentShares: 0,
+    filledShares: 0,
+    avgPrice: 0,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+function resolveGateway(gateways: VenueGateways, order: ExecutionOrder): VenueOrderGateway {
+  const gateway = gateways[order.venue];
+  if (!gateway) {
+    throw new Error(`No ${order.venue} order gateway configured.`);
+  }
+  return gateway;
+}
+
+export function formatSignedRequest(request: SignedOrderRequest): string {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(request.headers)) {
+    headers[key] = REDACTED_HEADERS.includes(key.toUpperCase()) ? "<redacted>" : value;
+  }
+  let body = request.body;
+  if (body && typeof body === "object" && !Array.isArray(body)) {
+    const redacted: Record<string, unknown> = { ...(body as Record<string, unknown>) };
+    for (const field of REDACTED_BODY_FIELDS) {
+      if (field in redacted) redacted[field] = "<redacted>";
+    }
+    body = redacted;
+  }
+  return `${request.venue} ${request.method} ${request.url} headers=${JSON.stringify(
+    headers,
+  )} body=${JSON.stringify(body)}`;
+}
+
+/** Fills every order in full at the book's expected price. */
+export class PaperExecutionAdapter implements ExecutionAdapter {
+  readonly mode: ExecutionMode = "paper";
+
+  async placeOrder(order: ExecutionOrder): Promise<ExecutionReport> {
+    return {
+      status: "filled",
+      orderId: `paper-${order.clientOrderId}`,
+      sentShares: order.shares,
+      filledShares: order.shares,
+      avgPrice: order.expectedPrice ?? order.price,
+    };
+  }
+}
+
+/**
+ * Signs each order exactly as live would and logs the request, then fills it
+ * as paper. Nothing is sent to the venues.
+ */
+export class DryRunExecutionAdapter implements ExecutionAdapter {
+  readonly mode: ExecutionMode = "dry-run";
+  private gateways: VenueGateways;
+  private logger: RunLogger;
+  private paper = new PaperExecutionAdapter();
+
+  constructor(gateways: VenueGateways, logger: RunLogger) {
+    this.gateways = gateways;
+    this.logger = logger;
+  }
+
+  async placeOrder(order: ExecutionOrder): Promise<ExecutionReport> {
+    let request: SignedOrderRequest;
+    try {
+      request = await resolveGateway(this.gateways, order).sign(order);
+      this.logger.log(`DRY_RUN_ORDER ${order.clientOrderId} ${formatSignedRequest(request)}`);
+    } catch (error) {
+      const report = rejected(error);
+      this.logger.log(
+        `DRY_RUN_ORDER ${order.clientOrderId} sign failed: ${report.error}`,
+        "ERROR",
+      );
+      return report;
+    }
+    return this.paper.placeOrder({ ...order, shares: request.shares });
+  }
+}
+
+export class LiveExecutionAdapter implements ExecutionAdapter {
+  readonly mode: ExecutionMode = "live";
+  private gateways: VenueGateways;
+  private logger: RunLogger | null;
+
+  constructor(gateways: VenueGateways, logger?: RunLogger) {
+    this.gateways = gateways;
+    this.logger = logger ?? null;
+  }
+
+  async placeOrder(order: ExecutionOrder): Promise<ExecutionReport> {
+    let report: ExecutionReport;
+    try {
+      const gateway = resolveGateway(this.gateways, order);
+      const request = await gateway.sign(order);
+      this.logger?.log(`LIVE_ORDER ${order.clientOrderId} ${formatSignedRequest(request)}`);
+      report = await gateway.submit(request, order);
+    } catch (error) {
+      report = rejected(error);
+    }
+    this.logger?.log(
+      `LIVE_ORDER_RESULT ${order.clientOrderId} status=${report.status} sent=${report.sentShares} filled=${report.filledShares} avg=${report.avgPrice.toFixed(
+        4,
+      )} orderId=${report.orderId ?? "n/a"}${report.error ? ` error=${report.error}` : ""}`,
+      report.status === "rejected" ? "WARN" : "INFO",
+    );
+    return report;
+  }
+}
+
+/**
+ * Builds the adapter for `--execution`. Live and dry-run need credentials for
+ * both venues and throw a config error when they are missing.
+ */
+export function createExecutionAdapter(
+  mode: ExecutionMode,
+  logger: RunLogger,
+  env: NodeJS.ProcessEnv = process.env,
+): ExecutionAdapter {
+  if (mode === "paper") {
+    return new PaperExecutionAdapter();
+  }
+  const gateways: VenueGateways = {
+    polymarket: new PolymarketOrderGateway(getPolymarketExecutionConfig(env)),
+    kalshi: new KalshiOrderGateway(getKalshiEnvConfig(env)),
+  };
+  return mode === "live"
+    ? new LiveExecutionAdapter(gateways, logger)
+    : new DryRunExecutionAdapter(gateways, logger);
+}
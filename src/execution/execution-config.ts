@@ -0,0 +1,70 @@
+import type { ExecutionMode } from "./types";
+
+export interface PolymarketExecutionConfig {
+  host: string;
+  chainId: number;
+  privateKey: string;
+  apiKey: string;
+  apiSecret: string;
+  apiPassphrase: string;
+  signatureType?: number;
+  funderAddress?: string;
+}
+
+function stripEnvValue(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  let trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (trimmed.length >= 2) {
+    const first = trimmed[0];
+    const last = trimmed[trimmed.length - 1];
+    if ((first === "\"" && last === "\"") || (first === "'" && last === "'")) {
+      trimmed = trimmed.slice(1, -1).trim();
+    }
+  }
+  const lowered = trimmed.toLowerCase();
+  if (lowered === "null" || lowered === "undefined") return undefined;
+  return trimmed;
+}
+
+export function parseExecutionMode(value: string | undefined): ExecutionMode | undefined {
+  if (!value) return undefined;
+  const normalized = value.trim().toLowerCase().replace(/_/g, "-");
+  if (normalized === "paper" || normalized === "fake") return "paper";
+  if (normalized === "dry-run" || normalized === "dryrun" || normalized === "dry") {
+    return "dry-run";
+  }
+  if (normalized === "live" || normalized === "real") return "live";
+  return undefined;
+}
+
+export function getPolymarketExecutionConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): PolymarketExecutionConfig {
+  const privateKey = stripEnvValue(env.POLYMARKET_CLOB_PRIVATE_KEY);
+  const apiKey = stripEnvValue(env.POLYMARKET_CLOB_API_KEY);
+  const apiSecret = stripEnvValue(env.POLYMARKET_CLOB_API_SECRET);
+  const apiPassphrase = stripEnvValue(env.POLYMARKET_CLOB_API_PASSPHRASE);
+  if (!privateKey) {
+    throw new Error("Missing POLYMARKET_CLOB_PRIVATE_KEY environment variable.");
+  }
+  if (!apiKey || !apiSecret || !apiPassphrase) {
+    throw new Error(
+      "Missing Polymarket API credentials. Set POLYMARKET_CLOB_API_KEY, POLYMARKET_CLOB_API_SECRET and POLYMARKET_CLOB_API_PASSPHRASE.",
+    );
+  }
+
+  const chainRaw = Number(stripEnvValue(env.POLYMARKET_CLOB_CHAIN_ID));
+  const signatureRaw = Number(stripEnvValue(env.POLYMARKET_CLOB_SIGNATURE_TYPE));
+  return {
+    host:
+      stripEnvValue(env.POLYMARKET_CLOB_API_BASE) ?? "https://clob.polymarket.com",
+    chainId: Number.isFinite(chainRaw) ? Math.floor(chainRaw) : 137,
+    privateKey,
+    apiKey,
+    apiSecret,
+    apiPassphrase,
+    signatureType: Number.isFinite(signatureRaw) ? Math.floor(signatureRaw) : undefined,
+    funderAddress: stripEnvValue(env.POLYMARKET_CLOB_FUNDER),
+  };
+}
@@ -0,0 +1,117 @@
+import {
+  createKalshiAuthHeaders,
+  loadPrivateKeyPem,
+} from "../clients/kalshi/kalshi-auth";
+import type { KalshiEnvConfig } from "../clients/kalshi/kalshi-config";
+import type {
+  ExecutionOrder,
+  ExecutionReport,
+  SignedOrderRequest,
+  VenueOrderGateway,
+} from "./types";
+
+function toNumber(value: unknown): number | null {
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Places Kalshi limit orders through `POST /portfolio/orders`, signed with
+ * the same RSA-PSS scheme as the REST client. Orders are fill-or-kill so a
+ * leg either fills at the limit or not at all.
+ */
+export class KalshiOrderGateway implements VenueOrderGateway {
+  private config: KalshiEnvConfig;
+  private privateKeyPem: string;
+
+  constructor(config: KalshiEnvConfig) {
+    this.config = config;
+    if (config.privateKeyPem) {
+      this.privateKeyPem = config.privateKeyPem;
+    } else if (config.privateKeyPath) {
+      this.privateKeyPem = loadPrivateKeyPem(config.privateKeyPath);
+    } else {
+      throw new Error("Missing Kalshi private key for order signing.");
+    }
+  }
+
+  async sign(order: ExecutionOrder): Promise<SignedOrderRequest> {
+    const url = `${this.config.baseUrl.replace(/\/+$/, "")}/portfolio/orders`;
+    const side = order.tokenId.toUpperCase() === "YES" ? "yes" : "no";
+    const cents = Math.min(99, Math.max(1, Math.round(order.price * 100)));
+    const count = Math.floor(order.shares + 1e-9);
+    if (count < 1) {
+      throw new Error(`Kalshi order ${order.clientOrderId} is below one contract (${order.shares}).`);
+    }
+    const body = {
+      ticker: order.marketId,
+      client_order_id: order.clientOrderId,
+      side,
+      action: order.side === "BUY" ? "buy" : "sell",
+      count,
+      type: "limit",
+      [side === "yes" ? "yes_price" : "no_price"]: cents,
+      time_in_force: "fill_or_kill",
+    };
+    const headers = createKalshiAuthHeaders({
+      apiKey: this.config.apiKey,
+      privateKeyPem: this.privateKeyPem,
+      method: "POST",
+      path: new URL(url).pathname,
+    });
+    return { venue: "kalshi", method: "POST", url, headers, body, shares: count };
+  }
+
+  async submit(
+    request: SignedOrderRequest,
+    order: ExecutionOrder,
+  ): Promise<ExecutionReport> {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: JSON.stringify(request.body),
+    });
+    const payload = (await response.json().catch(() => null)) as Record<
+      string,
+      unknown
+    > | null;
+    const record = (payload?.order ?? null) as Record<string, unknown> | null;
+    if (!response.ok || !record) {
+      const error = payload?.error as { message?: string } | string | undefined;
+      const message =
+        typeof error === "string" ? error : error?.message ?? `HTTP ${response.status}`;
+      return {
+        status: "rejected",
+        orderId: null,
+        sentShares: request.shares,
+        filledShares: 0,
+        avgPrice: 0,
+        error: message,
+      };
+    }
+
+    const filledShares =
+      toNumber(record.fill_count) ?? toNumber(record.taker_fill_count) ?? 0;
+    const costDollars =
+      toNumber(record.taker_fill_cost_dollars) ??
+      (toNumber(record.taker_fill_cost) ?? NaN) / 100;
+    const avgPrice =
+      filledShares > 0 && Number.isFinite(costDollars) && costDollars > 0
+        ? costDollars / filledShares
+        : order.price;
+    return {
+      status:
+        filledShares <= 0
+          ? "rejected"
+          : filledShares >= request.shares
+            ? "filled"
+            : "partial",
+      orderId: (record.order_id as string | undefined) ?? null,
+      sentShares: request.shares,
+      filledShares,
+      avgPrice: filledShares > 0 ? avgPrice : 0,
+      error:
+        filledShares > 0 ? undefined : `Order ${String(record.status ?? "not filled")}.`,
+    };
+  }
+}
@@ -0,0 +1,206 @@
+import { constants, createPublicKey, verify } from "crypto";
+import type { MarketProvider } from "../providers/provider";
+import { buildKalshiSignatureMessage } from "../clients/kalshi/kalshi-auth";
+
+const KALSHI_ORDERS_PATH = "/trade-api/v2/portfolio/orders";
+const POLY_ORDER_PATH = "/order";
+const POLY_AMOUNT_SCALE = 1e6;
+
+export interface MockExchangeOrder {
+  venue: MarketProvider;
+  orderId: string;
+  receivedAt: number;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+  filledShares: number;
+}
+
+export interface MockExchangeOptions {
+  /** 0 picks a free port. */
+  port?: number;
+  /** Fraction of each order filled per venue (default 1). */
+  fillRatio?: Partial<Record<MarketProvider, number>>;
+  /** When set, Kalshi request signatures are verified against this key. */
+  kalshiPublicKeyPem?: string;
+  onOrder?: (order: MockExchangeOrder) => void;
+}
+
+export interface MockExchange {
+  /** Polymarket CLOB host (POLYMARKET_CLOB_API_BASE). */
+  url: string;
+  /** Kalshi REST base (KALSHI_BASE_URL). */
+  kalshiBaseUrl: string;
+  orders: MockExchangeOrder[];
+  setFillRatio(venue: MarketProvider, ratio: number): void;
+  stop(): void;
+}
+
+function json(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    record[key] = value;
+  });
+  return record;
+}
+
+function verifyKalshiSignature(
+  publicKeyPem: string,
+  headers: Headers,
+  path: string,
+): boolean {
+  const signature = headers.get("kalshi-access-signature");
+  const timestamp = Number(headers.get("kalshi-access-timestamp"));
+  if (!signature || !Number.isFinite(timestamp)) return false;
+  return verify(
+    "sha256",
+    Buffer.from(buildKalshiSignatureMessage(timestamp, "POST", path)),
+    {
+      key: createPublicKey(publicKeyPem),
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+    },
+    Buffer.from(signature, "base64"),
+  );
+}
+
+/**
+ * Local stand-in for the Polymarket CLOB and Kalshi order endpoints, so the
+ * live execution path can run end to end offline. Orders fill at their limit
+ * price, scaled by the per-venue fill ratio.
+ */
+export function startMockExchange(options: MockExchangeOptions = {}): MockExchange {
+  const fillRatio: Record<MarketProvider, number> = {
+    polymarket: options.fillRatio?.polymarket ?? 1,
+    kalshi: options.fillRatio?.kalshi ?? 1,
+  };
+  const orders: MockExchangeOrder[] = [];
+  let sequence = 0;
+
+  const record = (
+    venue: MarketProvider,
+    request: Request,
+    body: Record<string, unknown>,
+    filledShares: number,
+  ): MockExchangeOrder => {
+    sequence += 1;
+    const order: MockExchangeOrder = {
+      venue,
+      orderId: `mock-${venue}-${sequence}`,
+      receivedAt: Date.now(),
+      headers: headersToRecord(request.headers),
+      body,
+      filledShares,
+    };
+    orders.push(order);
+    options.onOrder?.(order);
+    return order;
+  };
+
+  const handlePolymarketOrder = async (request: Request): Promise<Response> => {
+    if (!request.headers.get("poly_api_key") || !request.headers.get("poly_signature")) {
+      return json({ error: "Unauthorized/Invalid api key" }, 401);
+    }
+    const body = (await request.json()) as Record<string, unknown>;
+    const order = (body.order ?? {}) as Record<string, unknown>;
+    const makerAmount = Number(order.makerAmount) / POLY_AMOUNT_SCALE;
+    const takerAmount = Number(order.takerAmount) / POLY_AMOUNT_SCALE;
+    if (!Number.isFinite(makerAmount) || !Number.isFinite(takerAmount)) {
+      return json({ success: false, errorMsg: "invalid order amounts" }, 400);
+    }
+    const ratio = Math.max(0, Math.min(1, fillRatio.polymarket));
+    const buy = order.side === "BUY";
+    const shares = (buy ? takerAmount : makerAmount) * ratio;
+    const placed = record("polymarket", request, body, shares);
+    return json({
+      success: true,
+      errorMsg: "",
+      orderID: placed.orderId,
+      status: shares > 0 ? "matched" : "unmatched",
+      makingAmount: String(makerAmount * ratio),
+      takingAmount: String(takerAmount * ratio),
+    });
+  };
+
+  const handleKalshiOrder = async (
+    request: Request,
+    path: string,
+  ): Promise<Response> => {
+    if (
+      !request.headers.get("kalshi-access-key") ||
+      !request.headers.get("kalshi-access-signature") ||
+      !request.headers.get("kalshi-access-timestamp")
+    ) {
+      return json({ error: { code: "unauthorized", message: "missing auth headers" } }, 401);
+    }
+    if (
+      options.kalshiPublicKeyPem &&
+      !verifyKalshiSignature(options.kalshiPublicKeyPem, request.headers, path)
+    ) {
+      return json({ error: { code: "unauthorized", message: "bad signature" } }, 401);
+    }
+    const body = (await request.json()) as Record<string, unknown>;
+    const count = Math.floor(Number(body.count));
+    const priceCents = Number(body.side === "yes" ? body.yes_price : body.no_price);
+    if (!Number.isFinite(count) || count <= 0 || !Number.isFinite(priceCents)) {
+      return json({ error: { code: "invalid_parameters", message: "bad order" } }, 400);
+    }
+    const ratio = Math.max(0, Math.min(1, fillRatio.kalshi));
+    const filled = Math.floor(count * ratio);
+    const placed = record("kalshi", request, body, filled);
+    return json(
+      {
+        order: {
+          order_id: placed.orderId,
+          client_order_id: body.client_order_id,
+          ticker: body.ticker,
+          status: filled > 0 ? "executed" : "canceled",
+          fill_count: filled,
+          remaining_count: 0,
+          taker_fill_cost: filled * priceCents,
+        },
+      },
+      201,
+    );
+  };
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    fetch: async (request) => {
+      const url = new URL(request.url);
+      if (request.method === "GET" && url.pathname === "/tick-size") {
+        return json({ minimum_tick_size: 0.01 });
+      }
+      if (request.method === "GET" && url.pathname === "/neg-risk") {
+        return json({ neg_risk: false });
+      }
+      if (request.method === "GET" && url.pathname === "/fee-rate") {
+        return json({ base_fee: 0 });
+      }
+      if (request.method === "POST" && url.pathname === POLY_ORDER_PATH) {
+        return handlePolymarketOrder(request);
+      }
+      if (request.method === "POST" && url.pathname === KALSHI_ORDERS_PATH) {
+        return handleKalshiOrder(request, url.pathname);
+      }
+      return json({ error: "not found" }, 404);
+    },
+  });
+
+  const url = `http://${server.hostname}:${server.port}`;
+  return {
+    url,
+    kalshiBaseUrl: `${url}/trade-api/v2`,
+    orders,
+    setFillRatio: (venue, ratio) => {
+      fillRatio[venue] = ratio;
+    },
+    stop: () => server.stop(true),
+  };
+}
@@ -0,0 +1,154 @@
+import { Wallet } from "@ethersproject/wallet";
+import {
+  ClobClient,
+  OrderType,
+  Side,
+  createL2Headers,
+  type Chain,
+} from "@polymarket/clob-client";
+import type { PolymarketExecutionConfig } from "./execution-config";
+import type {
+  ExecutionOrder,
+  ExecutionReport,
+  SignedOrderRequest,
+  VenueOrderGateway,
+} from "./types";
+
+const ORDER_PATH = "/order";
+
+type ClobSignatureType = ConstructorParameters<typeof ClobClient>[4];
+
+function toNumber(value: unknown): number | null {
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Builds EIP-712 signed CLOB orders with `@polymarket/clob-client` and posts
+ * them as fill-or-kill. The L2 auth headers are computed over the exact body
+ * that `submit` sends, so a dry-run log shows the real wire payload.
+ */
+export class PolymarketOrderGateway implements VenueOrderGateway {
+  private client: ClobClient;
+  private signer: Wallet;
+  private config: PolymarketExecutionConfig;
+
+  constructor(config: PolymarketExecutionConfig) {
+    this.config = config;
+    this.signer = new Wallet(config.privateKey);
+    this.client = new ClobClient(
+      config.host,
+      config.chainId as Chain,
+      this.signer,
+      {
+        key: config.apiKey,
+        secret: config.apiSecret,
+        passphrase: config.apiPassphrase,
+      },
+      config.signatureType as ClobSignatureType,
+      config.funderAddress,
+    );
+  }
+
+  async sign(order: ExecutionOrder): Promise<SignedOrderRequest> {
+    const signed = await this.client.createOrder({
+      tokenID: order.tokenId,
+      price: order.price,
+      size: order.shares,
+      side: order.side === "BUY" ? Side.BUY : Side.SELL,
+    });
+    // Same shape as the client's orderToJson, which it does not export.
+    const body = {
+      deferExec: false,
+      order: {
+        salt: parseInt(signed.salt, 10),
+        maker: signed.maker,
+        signer: signed.signer,
+        taker: signed.taker,
+        tokenId: signed.tokenId,
+        makerAmount: signed.makerAmount,
+        takerAmount: signed.takerAmount,
+        side: order.side,
+        expiration: signed.expiration,
+        nonce: signed.nonce,
+        feeRateBps: signed.feeRateBps,
+        signatureType: signed.signatureType,
+        signature: signed.signature,
+      },
+      owner: this.config.apiKey,
+      orderType: OrderType.FOK,
+    };
+    const headers = await createL2Headers(
+      this.signer,
+      {
+        key: this.config.apiKey,
+        secret: this.config.apiSecret,
+        passphrase: this.config.apiPassphrase,
+      },
+      { method: "POST", requestPath: ORDER_PATH, body: JSON.stringify(body) },
+    );
+    return {
+      venue: "polymarket",
+      method: "POST",
+      url: `${this.config.host.replace(/\/+$/, "")}${ORDER_PATH}`,
+      headers: { ...headers, "Content-Type": "application/json" },
+      body,
+      shares: order.shares,
+    };
+  }
+
+  async submit(
+    request: SignedOrderRequest,
+    order: ExecutionOrder,
+  ): Promise<ExecutionReport> {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: JSON.stringify(request.body),
+    });
+    const payload = (await response.json().catch(() => null)) as Record<
+      string,
+      unknown
+    > | null;
+    if (!response.ok || !payload || payload.success === false) {
+      const message =
+        (payload?.errorMsg as string | undefined) ??
+        (payload?.error as string | undefined) ??
+        `HTTP ${response.status}`;
+      return {
+        status: "rejected",
+        orderId: (payload?.orderID as string | undefined) ?? null,
+        sentShares: request.shares,
+        filledShares: 0,
+        avgPrice: 0,
+        error: message,
+      };
+    }
+
+    // makingAmount is what we gave, takingAmount what we got.
+    const making = toNumber(payload.makingAmount);
+    const taking = toNumber(payload.takingAmount);
+    const shares = order.side === "BUY" ? taking : making;
+    const notional = order.side === "BUY" ? making : taking;
+    const matched = String(payload.status ?? "").toLowerCase() === "matched";
+    const filledShares =
+      shares !== null && shares > 0 ? shares : matched ? order.shares : 0;
+    const avgPrice =
+      filledShares > 0 && notional !== null && notional > 0 && shares
+        ? notional / filledShares
+        : order.price;
+    return {
+      status:
+        filledShares <= 0
+          ? "rejected"
+          : filledShares + 1e-9 >= request.shares
+            ? "filled"
+            : "partial",
+      orderId: (payload.orderID as string | undefined) ?? null,
+      sentShares: request.shares,
+      filledShares,
+      avgPrice: filledShares > 0 ? avgPrice : 0,
+      error: filledShares > 0 ? undefined : "Order not matched.",
+    };
+  }
+}
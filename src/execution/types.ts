@@ -0,0 +1,62 @@
+import type { MarketProvider } from "../providers/provider";
+
+/**
+ * paper   - fills are simulated from the local books (no orders leave the bot)
+ * dry-run - orders are built and signed exactly as live, logged, then filled as paper
+ * live    - signed orders are sent to the venues
+ */
+export type ExecutionMode = "paper" | "dry-run" | "live";
+
+export type ExecutionSide = "BUY" | "SELL";
+
+export interface ExecutionOrder {
+  venue: MarketProvider;
+  /** Polymarket slug or Kalshi market ticker. */
+  marketId: string;
+  /** Polymarket CLOB token id, or "YES"/"NO" on Kalshi. */
+  tokenId: string;
+  side: ExecutionSide;
+  /** Limit price in dollars (0-1). */
+  price: number;
+  shares: number;
+  /** Average fill the local book predicts; paper fills use it. */
+  expectedPrice?: number;
+  clientOrderId: string;
+}
+
+export type ExecutionStatus = "filled" | "partial" | "rejected";
+
+export interface ExecutionReport {
+  status: ExecutionStatus;
+  orderId: string | null;
+  /** Size that went to the venue; Kalshi rounds down to whole contracts. */
+  sentShares: number;
+  filledShares: number;
+  avgPrice: number;
+  error?: string;
+}
+
+/** A venue request exactly as it would go on the wire. */
+export interface SignedOrderRequest {
+  venue: MarketProvider;
+  method: "POST";
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+  /** Order size the body carries after venue rounding. */
+  shares: number;
+}
+
+/**
+ * Venue-specific order handling. `sign` must not touch the network beyond
+ * the lookups needed to build the order, so dry-run can call it safely.
+ */
+export interface VenueOrderGateway {
+  sign(order: ExecutionOrder): Promise<SignedOrderRequest>;
+  submit(request: SignedOrderRequest, order: ExecutionOrder): Promise<ExecutionReport>;
+}
+
+export interface ExecutionAdapter {
+  readonly mode: ExecutionMode;
+  placeOrder(order: ExecutionOrder): Promise<ExecutionReport>;
+}
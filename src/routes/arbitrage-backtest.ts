@@ -0,0 +1,488 @@
+import { existsSync } from "fs";
+import { join } from "path";
+import { ArbitrageEngine } from "../services/arbitrage-engine";
+import {
+  loadArbitrageConfig,
+  type ArbitrageCoinConfig,
+  type ArbitrageProfileConfig,
+} from "../services/arbitrage-config";
+import { loadFeeModels, type VenueFeeModels } from "../services/fee-model";
+import {
+  formatRiskState,
+  loadRiskLimits,
+  RiskManager,
+  type RiskLimits,
+} from "../services/risk-manager";
+import { resolveSeed, SeededRng, writeSeedFile } from "../services/rng";
+import { RunLogger } from "../services/run-logger";
+import { JOURNAL_FILE, TradeJournal } from "../services/trade-journal";
+import {
+  DEFAULT_MARKET_HORIZON,
+  type CoinSymbol,
+  type MarketHorizon,
+} from "../services/auto-market";
+import type { NormalizedOutcome } from "../services/cross-platform-compare";
+import {
+  loadProviderConfig,
+  normalizeCoinKey,
+  sanitizeProfileName,
+  type KalshiCoinSelection,
+} from "../services/profile-config";
+import { KalshiClient } from "../clients/kalshi/kalshi-client";
+import { getKalshiEnvConfig } from "../clients/kalshi/kalshi-config";
+import { BacktestHub } from "../backtest/backtest-hub";
+import { ArbitrageBacktestRunner } from "../backtest/arbitrage-backtest-runner";
+import { fetchKalshiHistory } from "../backtest/kalshi-fetch";
+import { readJsonlFile } from "../backtest/jsonl";
+import { resolveJsonlSource } from "../backtest/jsonl-stream";
+import type { BacktestMarketMeta } from "../backtest/types";
+import { selectMany } from "../cli/prompts";
+
+export interface ArbitrageBacktestRouteOptions {
+  profiles?: string[];
+  coins?: string[];
+  autoSelect?: boolean;
+  dataDir?: string;
+  startMs?: number;
+  endMs?: number;
+  /**
+   * Market window to backtest. Defaults to the horizon the selected coin
+   * configs trade; configs for other horizons are skipped.
+   */
+  horizon?: MarketHorizon;
+  /** Seed for the engines' random draws; see `resolveSeed`. */
+  seed?: number;
+}
+
+export interface VenueData {
+  marketsByCoin: Map<CoinSymbol, BacktestMarketMeta[]>;
+  tradeFilesBySlug: Map<string, string>;
+  bookFilesBySlug: Map<string, string>;
+  outcomesBySlug: Map<string, NormalizedOutcome>;
+  marketCount: number;
+}
+
+function parseLatencyMs(): number {
+  const raw = process.env.BACKTEST_LATENCY_MS;
+  if (!raw) return 80;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : 80;
+}
+
+function parseDecisionLatencyMs(): number {
+  const raw = process.env.ARB_BACKTEST_DECISION_LATENCY_MS;
+  if (!raw) return 250;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? Math.max(0, Math.floor(parsed)) : 250;
+}
+
+function getNextRunDir(): { runDir: string; runId: string } {
+  const logsDir = join(process.cwd(), "logs");
+  let index = 1;
+
+  while (true) {
+    const name = index === 1 ? "arb-backtest-run" : `arb-backtest-run${index}`;
+    const candidate = join(logsDir, name);
+    if (!existsSync(candidate)) {
+      return { runDir: candidate, runId: name };
+    }
+    index += 1;
+  }
+}
+
+/**
+ * Loads one venue's recorded markets. Layout (relative to `venueDir`):
+ * markets.jsonl, books/<slug>.jsonl (full-depth), trades/<slug>.jsonl.
+ * Book and trade files may also be gzipped, as written by `--mode record`.
+ * With `horizon`, markets of other windows are skipped.
+ */
+export function loadVenueData(
+  venueDir: string,
+  provider: "polymarket" | "kalshi",
+  coins: CoinSymbol[],
+  startMs: number,
+  endMs: number,
+  horizon?: MarketHorizon,
+): VenueData {
+  const data: VenueData = {
+    marketsByCoin: new Map(),
+    tradeFilesBySlug: new Map(),
+    bookFilesBySlug: new Map(),
+    outcomesBySlug: new Map(),
+    marketCount: 0,
+  };
+  const marketsPath = join(venueDir, "markets.jsonl");
+  if (!existsSync(marketsPath)) return data;
+
+  const coinSet = new Set(coins);
+  const markets = readJsonlFile<BacktestMarketMeta>(marketsPath)
+    .filter((market) => coinSet.has(market.coin))
+    .filter((market) => market.endMs > startMs && market.startMs < endMs)
+    .filter((market) => !horizon || (market.horizon ?? DEFAULT_MARKET_HORIZON) === horizon)
+    .sort((a, b) => a.startMs - b.startMs);
+
+  for (const market of markets) {
+    const bookPath = resolveJsonlSource(join(venueDir, "books"), market.slug);
+    const tradePath = resolveJsonlSource(join(venueDir, "trades"), market.slug);
+    if (!bookPath && !tradePath) continue;
+    if (bookPath) data.bookFilesBySlug.set(market.slug, bookPath);
+    if (tradePath) data.tradeFilesBySlug.set(market.slug, tradePath);
+    if (market.outcome) data.outcomesBySlug.set(market.slug, market.outcome);
+
+    const list = data.marketsByCoin.get(market.coin) ?? [];
+    list.push({ ...market, provider });
+    data.marketsByCoin.set(market.coin, list);
+    data.marketCount += 1;
+  }
+
+  return data;
+}
+
+/**
+ * Fills the Kalshi venue cache from the API when credentials and
+ * `seriesTickers` are configured; otherwise the backtest uses whatever is
+ * already on disk.
+ */
+async function syncKalshiHistory(
+  venueDir: string,
+  coins: CoinSymbol[],
+  startMs: number,
+  endMs: number,
+  logger: RunLogger,
+): Promise<void> {
+  let client: KalshiClient;
+  let selectorsByCoin: Map<CoinSymbol, KalshiCoinSelection> | undefined;
+  try {
+    selectorsByCoin = loadProviderConfig("kalshi").kalshiSelectorsByCoin;
+    client = new KalshiClient(getKalshiEnvConfig(process.env));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.log(`Kalshi fetch skipped, using cached data only: ${message}`, "WARN");
+    return;
+  }
+  if (!selectorsByCoin) return;
+  try {
+    await fetchKalshiHistory(
+      client,
+      venueDir,
+      coins,
+      selectorsByCoin,
+      startMs,
+      endMs,
+      { log: (message, level) => logger.log(message, level) },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.log(`Kalshi fetch failed, using cached data only: ${message}`, "WARN");
+  }
+}
+
+async function resolveSelections(
+  options: ArbitrageBacktestRouteOptions,
+  profileNames: string[],
+  coinOptions: CoinSymbol[],
+): Promise<{ profiles: string[]; coins: CoinSymbol[] } | null> {
+  const profileLookup = new Map(
+    profileNames.map((name) => [name.toLowerCase(), name]),
+  );
+  let profiles: string[] = [];
+  if (options.profiles && options.profiles.length > 0) {
+    for (const name of options.profiles) {
+      const match = profileLookup.get(name.toLowerCase().trim());
+      if (match) {
+        profiles.push(match);
+      } else {
+        console.log(`Unknown profile: ${name}`);
+      }
+    }
+  } else if (options.autoSelect) {
+    profiles = profileNames;
+  } else if (process.stdin.isTTY) {
+    profiles = await selectMany(
+      "Select profiles",
+      profileNames.map((name) => ({ title: name, value: name })),
+    );
+  }
+  if (profiles.length === 0) {
+    console.log("No profiles selected. Use --profiles or --auto.");
+    return null;
+  }
+
+  let coins: CoinSymbol[] = [];
+  if (options.coins && options.coins.length > 0) {
+    const normalized = options.coins.map((coin) => coin.toLowerCase().trim());
+    coins = normalized.includes("all")
+      ? coinOptions
+      : normalized
+          .map((coin) => normalizeCoinKey(coin))
+          .filter((coin): coin is CoinSymbol => !!coin);
+  } else if (options.autoSelect) {
+    coins = coinOptions;
+  } else if (process.stdin.isTTY) {
+    const picked = await selectMany(
+      "Select coins",
+      coinOptions.map((coin) => ({
+        title: coin.toUpperCase(),
+        value: coin.toUpperCase(),
+      })),
+    );
+    coins = picked
+      .map((coin) => normalizeCoinKey(coin))
+      .filter((coin): coin is CoinSymbol => !!coin);
+  }
+  if (coins.length === 0) {
+    console.log("No coins selected. Use --coins or --auto.");
+    return null;
+  }
+
+  return { profiles: Array.from(new Set(profiles)), coins };
+}
+
+/**
+ * The market window to replay: `--horizon` when given, otherwise the one
+ * horizon the selected profiles' coin configs share. Null when they differ.
+ */
+function resolveHorizon(
+  requested: MarketHorizon | undefined,
+  profiles: ArbitrageProfileConfig[],
+  selections: { profiles: string[]; coins: CoinSymbol[] },
+): MarketHorizon | null {
+  if (requested) return requested;
+  const horizons = new Set<MarketHorizon>();
+  for (const profile of profiles) {
+    if (!selections.profiles.includes(profile.name)) continue;
+    for (const coin of selections.coins) {
+      const cfg = profile.coins.get(coin);
+      if (cfg) horizons.add(cfg.horizon);
+    }
+  }
+  if (horizons.size > 1) return null;
+  return horizons.values().next().value ?? DEFAULT_MARKET_HORIZON;
+}
+
+export async function arbitrageBacktestRoute(
+  options: ArbitrageBacktestRouteOptions = {},
+): Promise<void> {
+  let loaded: ReturnType<typeof loadArbitrageConfig>;
+  let fees: VenueFeeModels;
+  let riskLimits: RiskLimits;
+  try {
+    loaded = loadArbitrageConfig();
+    fees = loadFeeModels();
+    riskLimits = loadRiskLimits();
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to load config.json.";
+    console.log(message);
+    return;
+  }
+  if (loaded.profiles.length === 0) {
+    console.log("No arbitrage profiles found in config.json.");
+    return;
+  }
+
+  const selections = await resolveSelections(
+    options,
+    loaded.profiles.map((profile) => profile.name),
+    loaded.coinOptions,
+  );
+  if (!selections) return;
+
+  const horizon = resolveHorizon(options.horizon, loaded.profiles, selections);
+  if (!horizon) {
+    console.log(
+      "Selected arbitrage configs trade more than one horizon; pass --horizon to pick one.",
+    );
+    return;
+  }
+
+  const startMs = options.startMs;
+  const endMs = options.endMs;
+  if (!startMs || !endMs) {
+    console.log("Arbitrage backtest requires --start and --end.");
+    return;
+  }
+  if (startMs >= endMs) {
+    console.log("Start date must be before end date.");
+    return;
+  }
+
+  const dataDir = options.dataDir ?? join(process.cwd(), "backtest-data");
+  const latencyMs = parseLatencyMs();
+  const { runDir, runId } = getNextRunDir();
+  const seed = resolveSeed(options.seed);
+  writeSeedFile(runDir, seed);
+  const rng = new SeededRng(seed);
+  const systemLogger = new RunLogger(join(runDir, "system.log"), 200, {
+    stdout: true,
+  });
+  await syncKalshiHistory(
+    join(dataDir, "kalshi"),
+    selections.coins,
+    startMs,
+    endMs,
+    systemLogger,
+  );
+
+  const polyData = loadVenueData(
+    dataDir,
+    "polymarket",
+    selections.coins,
+    startMs,
+    endMs,
+    horizon,
+  );
+  const kalshiData = loadVenueData(
+    join(dataDir, "kalshi"),
+    "kalshi",
+    selections.coins,
+    startMs,
+    endMs,
+    horizon,
+  );
+  if (polyData.marketCount === 0 || kalshiData.marketCount === 0) {
+    console.log(
+      `Arbitrage backtest needs recorded markets for both venues in ${dataDir} (Polymarket: ${polyData.marketCount}, Kalshi: ${kalshiData.marketCount}).`,
+    );
+    return;
+  }
+
+  const cryptoTickFilesByCoin = new Map<CoinSymbol, string>();
+  for (const coin of selections.coins) {
+    const tickPath = resolveJsonlSource(join(dataDir, "crypto"), coin);
+    if (tickPath) {
+      cryptoTickFilesByCoin.set(coin, tickPath);
+    }
+  }
+
+  const mismatchLogger = new RunLogger(join(runDir, "mismatch.log"));
+  const journal = new TradeJournal(join(runDir, JOURNAL_FILE));
+  systemLogger.log(
+    `Arbitrage backtest starting (${selections.coins.join(", ")}, ${horizon}), latency ${latencyMs}ms, seed ${seed}`,
+  );
+  systemLogger.log(`Backtest data dir: ${dataDir}`);
+  systemLogger.log(`Backtest window: ${startMs} -> ${endMs}`);
+  systemLogger.log(
+    `Markets - polymarket: ${polyData.marketCount} (${polyData.bookFilesBySlug.size} with books), kalshi: ${kalshiData.marketCount} (${kalshiData.bookFilesBySlug.size} with books)`,
+  );
+  for (const coin of selections.coins) {
+    if (!cryptoTickFilesByCoin.has(coin)) {
+      systemLogger.log(
+        `No crypto ticks for ${coin.toUpperCase()}; unrecorded outcomes cannot be computed.`,
+        "WARN",
+      );
+    }
+  }
+
+  const polyHub = new BacktestHub({
+    marketsByCoin: polyData.marketsByCoin,
+    tradeFilesBySlug: polyData.tradeFilesBySlug,
+    bookFilesBySlug: polyData.bookFilesBySlug,
+    cryptoTickFilesByCoin,
+    latencyMs,
+  });
+  const kalshiHub = new BacktestHub({
+    marketsByCoin: kalshiData.marketsByCoin,
+    tradeFilesBySlug: kalshiData.tradeFilesBySlug,
+    bookFilesBySlug: kalshiData.bookFilesBySlug,
+    cryptoTickFilesByCoin,
+    latencyMs,
+  });
+
+  const recordedOutcomes = new Map([
+    ...polyData.outcomesBySlug,
+    ...kalshiData.outcomesBySlug,
+  ]);
+  const outcomeSource = {
+    resolve: (snapshot: { slug: string }) =>
+      recordedOutcomes.get(snapshot.slug) ?? null,
+  };
+  const runStartMs = Math.min(polyHub.getStartTimeMs(), kalshiHub.getStartTimeMs());
+  const decisionLatencyMs = parseDecisionLatencyMs();
+
+  const risk = new RiskManager(riskLimits, systemLogger);
+  const engines: ArbitrageEngine[] = [];
+  for (const profile of loaded.profiles) {
+    if (!selections.profiles.includes(profile.name)) continue;
+    const filtered = new Map<CoinSymbol, ArbitrageCoinConfig>();
+    for (const coin of selections.coins) {
+      const cfg = profile.coins.get(coin);
+      if (!cfg) continue;
+      if (cfg.horizon !== horizon) {
+        systemLogger.log(
+          `Profile ${profile.name} ${coin} trades ${cfg.horizon} markets, not ${horizon}; skipping.`,
+          "WARN",
+        );
+        continue;
+      }
+      filtered.set(coin, cfg);
+    }
+    if (filtered.size === 0) {
+      systemLogger.log(
+        `Profile ${profile.name} has no configs for selected coins, skipping.`,
+        "WARN",
+      );
+      continue;
+    }
+    const profileLogger = new RunLogger(
+      join(runDir, `${sanitizeProfileName(profile.name)}.log`),
+    );
+    engines.push(
+      new ArbitrageEngine(
+        profile.name,
+        filtered,
+        profileLogger,
+        {
+          outcomeSource,
+          mismatchLogger,
+          decisionLatencyMs,
+          fees,
+          risk,
+          journal,
+          rng: rng.fork(`profile:${profile.name}`),
+        },
+        runStartMs,
+      ),
+    );
+  }
+
+  if (engines.length === 0) {
+    systemLogger.log("No profiles eligible for selected coins.", "WARN");
+    polyHub.close();
+    kalshiHub.close();
+    return;
+  }
+
+  const runner = new ArbitrageBacktestRunner(polyHub, kalshiHub, engines, {
+    onProgress: (nowMs, runEndMs) => {
+      systemLogger.log(
+        `Progress ${new Date(nowMs).toISOString()} / ${new Date(runEndMs).toISOString()}`,
+      );
+    },
+  });
+  try {
+    runner.run();
+  } finally {
+    polyHub.close();
+    kalshiHub.close();
+  }
+
+  systemLogger.log(
+    `Arbitrage backtest complete (${selections.coins.join(", ")}), run ${runId}`,
+  );
+  for (const engine of engines) {
+    const summary = engine.getSummary();
+    systemLogger.log(
+      `${engine.getName()} summary trades=${summary.totalTrades} wins=${summary.wins} losses=${summary.losses} pnl=${summary.totalProfit.toFixed(
+        2,
+      )} legRisk=${summary.legRiskPnl.toFixed(2)} fees=${summary.totalFees.toFixed(
+        2,
+      )} exposure=${summary.openExposure.toFixed(
+        2,
+      )} unhedged=${summary.unhedgedExposure.toFixed(2)} runtime=${summary.runtimeSec.toFixed(
+        1,
+      )}s`,
+    );
+  }
+  systemLogger.log(formatRiskState(risk.getState()));
+}
@@ -18,18 +18,40 @@ import {
   type ProfileSummary,
 } from "../services/profile-engine";
 import { RunLogger } from "../services/run-logger";
+import { JOURNAL_FILE, TradeJournal } from "../services/trade-journal";
 import { ProfileDashboard } from "../cli/profile-dashboard";
-import type { CoinSymbol } from "../services/auto-market";
+import {
+  DEFAULT_MARKET_HORIZON,
+  type CoinSymbol,
+  type MarketHorizon,
+} from "../services/auto-market";
+import { getCoinRegistry } from "../services/coin-registry";
 import {
   loadProfilesFromConfig,
   normalizeCoinKey,
   sanitizeProfileName,
   type ProfileDefinition,
 } from "../services/profile-config";
+import { loadFeeModels, type VenueFeeModels } from "../services/fee-model";
+import {
+  formatRiskState,
+  crossCoinRiskLimits,
+  loadRiskLimits,
+  RiskManager,
+  type RiskLimits,
+} from "../services/risk-manager";
 import { BacktestHub } from "../backtest/backtest-hub";
 import { BacktestRunner } from "../backtest/backtest-runner";
+import { createReplayKeyHandler } from "../backtest/replay-controls";
+import { resolveSeed, SeededRng, writeSeedFile } from "../services/rng";
 import { readJsonlFile, writeJsonlLines } from "../backtest/jsonl";
 import { JsonlSyncReader } from "../backtest/jsonl-stream";
+import {
+  isCryptoTicksCached,
+  isMarketTradeCached,
+  loadCacheIndex,
+  saveCacheIndex,
+} from "../backtest/cache-index";
 import { mergeSortedTradeFiles, mergeSortedTickFiles } from "../backtest/jsonl-merge";
 import {
   compareTrades,
@@ -46,6 +68,49 @@ import {
 } from "../backtest/polymarket-fetch";
 import { fetchBinanceCryptoHistory } from "../backtest/binance-fetch";
 import { mapWithConcurrency } from "../backtest/concurrency";
+import {
+  SweepKernel,
+  defaultSweepExecution,
+  type SweepExecution,
+} from "../backtest/sweep-kernel";
+import {
+  applySweepVariant,
+  buildTierSignature,
+  expandSweepGrid,
+  loadSweepSpec,
+  type SweepSpec,
+  type SweepVariant,
+} from "../backtest/sweep-grid";
+import {
+  SweepRunner,
+  formatSweepTable,
+  rankSweepResults,
+  type SweepKernelGroup,
+  type SweepResultRow,
+} from "../backtest/sweep-runner";
+import {
+  aggregateWalkForward,
+  buildWalkForwardFolds,
+  formatWalkForwardReport,
+  marketStartsInWindow,
+  parseDurationMs,
+  type WalkForwardFold,
+  type WalkForwardFoldResult,
+  type WalkForwardSummary,
+} from "../backtest/walk-forward";
+import {
+  DEFAULT_STRESS_TRIALS,
+  formatStressReport,
+  parseStressRange,
+  sampleStressTrials,
+  summarizeStress,
+  type StressDistribution,
+} from "../backtest/stress-test";
+import {
+  formatVerifyReport,
+  verifyBacktest,
+  type VerifyReport,
+} from "../backtest/verify";
 import { promptText, selectMany, selectOne } from "../cli/prompts";
 
 export interface BacktestRouteOptions {
@@ -54,95 +119,58 @@ export interface BacktestRouteOptions {
   autoSelect?: boolean;
   dataDir?: string;
   speed?: number;
-  mode?: "fast" | "visual";
+  mode?: "fast" | "visual" | "sweep" | "walk-forward" | "stress";
   startMs?: number;
   endMs?: number;
   headless?: boolean;
+  sweepSpecPath?: string;
+  walkForward?: WalkForwardOptions;
+  stress?: StressOptions;
+  /** Market window to backtest; configs for other horizons are skipped. */
+  horizon?: MarketHorizon;
+  /** Seed for every random draw in the run; see `resolveSeed`. */
+  seed?: number;
+  /** Replays the checked-in fixture and compares it with the golden results. */
+  verify?: VerifyOptions;
 }
 
-type LogLevel = "INFO" | "WARN" | "ERROR";
-type LogFn = (message: string, level?: LogLevel) => void;
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Cache Index Types
-// ─────────────────────────────────────────────────────────────────────────────
-
-interface CryptoTickCacheEntry {
-  minTs: number;
-  maxTs: number;
-  count: number;
-  lastFetchedAt: number;
-}
-
-interface MarketTradeCacheEntry {
-  minTs: number;
-  maxTs: number;
-  count: number;
-  truncated: boolean;
-  lastFetchedAt: number;
+export interface VerifyOptions {
+  /** Rewrites the golden files from this run instead of comparing. */
+  update?: boolean;
+  /** Defaults to tests/fixtures/backtest. */
+  fixtureDir?: string;
 }
 
-interface MarketMetaCacheEntry {
-  slug: string;
-  coin: CoinSymbol;
-  startMs: number;
-  endMs: number;
-  lastFetchedAt: number;
+export interface WalkForwardOptions {
+  /** Train window length, e.g. `3d`; default 3d. */
+  train?: string;
+  /** Test window length; default 1d. */
+  test?: string;
+  /** How far each fold moves; defaults to the test length. */
+  step?: string;
+  /** Pick the best sweep variant on each train window and trade it on the test window. */
+  optimize?: boolean;
 }
 
-interface CacheIndex {
-  version: number;
-  cryptoTicks: Record<string, CryptoTickCacheEntry>;
-  marketTrades: Record<string, MarketTradeCacheEntry>;
-  marketMeta: Record<string, MarketMetaCacheEntry>;
-}
-
-const CACHE_VERSION = 1;
-
-function getCacheIndexPath(dataDir: string): string {
-  return join(dataDir, "cache", "index.json");
+export interface StressOptions {
+  /** Trials per profile; default 50. */
+  trials?: number;
+  /** Decision latency base range in ms, e.g. `15-250`. */
+  latency?: string;
+  /** Fraction of book depth removed at fill time, e.g. `0-0.5`. */
+  haircut?: string;
+  /** Probability a fill is missed, e.g. `0-0.2`. */
+  missRate?: string;
 }
 
-function loadCacheIndex(dataDir: string): CacheIndex {
-  const indexPath = getCacheIndexPath(dataDir);
-  if (!existsSync(indexPath)) {
-    return {
-      version: CACHE_VERSION,
-      cryptoTicks: {},
-      marketTrades: {},
-      marketMeta: {},
-    };
-  }
-  try {
-    const raw = readFileSync(indexPath, "utf8");
-    const parsed = JSON.parse(raw) as CacheIndex;
-    if (parsed.version !== CACHE_VERSION) {
-      // Version mismatch, return fresh cache
-      return {
-        version: CACHE_VERSION,
-        cryptoTicks: {},
-        marketTrades: {},
-        marketMeta: {},
-      };
-    }
-    return parsed;
-  } catch {
-    return {
-      version: CACHE_VERSION,
-      cryptoTicks: {},
-      marketTrades: {},
-      marketMeta: {},
-    };
-  }
-}
+type LogLevel = "INFO" | "WARN" | "ERROR";
+type LogFn = (message: string, level?: LogLevel) => void;
 
-function saveCacheIndex(dataDir: string, index: CacheIndex): void {
-  const indexPath = getCacheIndexPath(dataDir);
-  const dir = dirname(indexPath);
-  if (dir && dir !== "." && dir !== "\\") {
-    mkdirSync(dir, { recursive: true });
-  }
-  writeFileSync(indexPath, JSON.stringify(index, null, 2), "utf8");
+function isMarketHorizon(
+  market: BacktestMarketMeta,
+  horizon: MarketHorizon,
+): boolean {
+  return (market.horizon ?? DEFAULT_MARKET_HORIZON) === horizon;
 }
 
 function loadCachedMarkets(
@@ -150,6 +178,7 @@ function loadCachedMarkets(
   selectedCoins: CoinSymbol[],
   startMs: number,
   endMs: number,
+  horizon: MarketHorizon,
   log?: LogFn,
 ): BacktestMarketMeta[] {
   const marketsPath = join(dataDir, "markets.jsonl");
@@ -158,6 +187,7 @@ function loadCachedMarkets(
     const cached = readJsonlFile<BacktestMarketMeta>(marketsPath);
     return cached.filter((market) => {
       if (!selectedCoins.includes(market.coin)) return false;
+      if (!isMarketHorizon(market, horizon)) return false;
       if (startMs && market.endMs < startMs) return false;
       if (endMs && market.startMs > endMs) return false;
       return true;
@@ -250,28 +280,6 @@ function ensureSortedTradeFile(filePath: string, slug: string): void {
   console.warn(`[backtest] Sorted trade file for ${slug}.`);
 }
 
-function isCryptoTicksCached(
-  index: CacheIndex,
-  coin: CoinSymbol,
-  startMs: number,
-  endMs: number,
-): boolean {
-  const entry = index.cryptoTicks[coin];
-  if (!entry) return false;
-  return entry.minTs <= startMs && entry.maxTs >= endMs;
-}
-
-function isMarketTradeCached(
-  index: CacheIndex,
-  slug: string,
-  startMs: number,
-  endMs: number,
-): boolean {
-  const entry = index.marketTrades[slug];
-  if (!entry) return false;
-  return entry.minTs <= startMs && entry.maxTs >= endMs;
-}
-
 function parseLatencyMs(): number {
   const raw = process.env.BACKTEST_LATENCY_MS;
   if (!raw) return 80;
@@ -323,6 +331,20 @@ function parseRegressionLogEnabled(): boolean {
   return !["false", "0", "off", "no"].includes(normalized);
 }
 
+function parseSweepMaxVariants(): number {
+  const raw = process.env.SWEEP_MAX_VARIANTS;
+  if (!raw) return 4096;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? Math.max(1, Math.floor(parsed)) : 4096;
+}
+
+function parseStressJitterMs(): number {
+  const raw = process.env.STRESS_LATENCY_JITTER_MS;
+  const parsed = raw ? Number(raw) : NaN;
+  if (!Number.isFinite(parsed) || parsed < 0) return 50;
+  return Math.floor(parsed);
+}
+
 function parseHeadlessLogEveryMs(): number | undefined {
   const raw = process.env.BACKTEST_HEADLESS_LOG_EVERY_MS;
   if (!raw) return undefined;
@@ -417,12 +439,17 @@ async function promptDateRange(): Promise<
   return { startMs, endMs };
 }
 
-async function promptBacktestMode(): Promise<"fast" | "visual" | null> {
+async function promptBacktestMode(): Promise<
+  "fast" | "visual" | "sweep" | "walk-forward" | "stress" | null
+> {
   return selectOne(
     "Backtest mode",
     [
       { title: "Visual (default)", value: "visual" },
       { title: "Fast", value: "fast" },
+      { title: "Parameter sweep", value: "sweep" },
+      { title: "Walk-forward (out-of-sample)", value: "walk-forward" },
+      { title: "Execution stress (Monte Carlo)", value: "stress" },
     ],
     0,
   );
@@ -432,6 +459,7 @@ function setupProfileNavigation(
   profileCount: number,
   getIndex: () => number,
   setIndex: (nextIndex: number) => void,
+  onKey?: (key: string) => boolean,
 ): () => void {
   let keyBuffer = Buffer.alloc(0);
 
@@ -465,6 +493,10 @@ function setupProfileNavigation(
 
     keyBuffer = Buffer.alloc(0);
 
+    if (onKey?.(keyStr)) {
+      return;
+    }
+
     if (keyStr.toLowerCase() === "w" || keyStr === "k") {
       const next = Math.max(0, getIndex() - 1);
       setIndex(next);
@@ -489,7 +521,7 @@ function setupProfileNavigation(
     }
   };
 
-  if (profileCount > 1) {
+  if ((profileCount > 1 || onKey) && process.stdin.isTTY) {
     process.stdin.setRawMode(true);
     process.stdin.resume();
     process.stdin.setEncoding("utf-8");
@@ -550,7 +582,7 @@ function resolveSelection(
     }
   }
 
-  const fallbackCoins: CoinSymbol[] = ["eth", "btc", "sol", "xrp"];
+  const fallbackCoins = getCoinRegistry().ids();
   const coinsToSelect = coinOptions.length > 0 ? coinOptions : fallbackCoins;
   let selectedCoins: CoinSymbol[] | null = null;
 
@@ -599,6 +631,7 @@ export async function loadBacktestData(
   selectedCoins: CoinSymbol[],
   startMs?: number,
   endMs?: number,
+  horizon: MarketHorizon = DEFAULT_MARKET_HORIZON,
 ): Promise<{
   marketsByCoin: Map<CoinSymbol, BacktestMarketMeta[]>;
   tradeFilesBySlug: Map<string, string>;
@@ -622,6 +655,7 @@ export async function loadBacktestData(
 
   for (const market of allMarkets) {
     if (!selectedCoins.includes(market.coin)) continue;
+    if (!isMarketHorizon(market, horizon)) continue;
     if (startMs && market.endMs < startMs) continue;
     if (endMs && market.startMs > endMs) continue;
     if (!marketsByCoin.has(market.coin)) {
@@ -849,6 +883,7 @@ function countCachedMarkets(
   selectedCoins: CoinSymbol[],
   startMs: number,
   endMs: number,
+  horizon: MarketHorizon,
 ): number {
   const marketsPath = join(dataDir, "markets.jsonl");
   if (!existsSync(marketsPath)) return 0;
@@ -856,6 +891,7 @@ function countCachedMarkets(
     const allMarkets = readJsonlFile<BacktestMarketMeta>(marketsPath);
     return allMarkets.filter((market) => {
       if (!selectedCoins.includes(market.coin)) return false;
+      if (!isMarketHorizon(market, horizon)) return false;
       if (market.endMs < startMs) return false;
       if (market.startMs > endMs) return false;
       return true;
@@ -883,6 +919,8 @@ async function runCoinWorker(
     runDir: string;
     selectedProfiles: string[];
     latencyMs: number;
+    horizon: MarketHorizon;
+    seed: number;
   },
 ): Promise<CoinWorkerResponse> {
   return new Promise((resolve) => {
@@ -917,6 +955,8 @@ async function runCoinWorker(
       runDir: payload.runDir,
       selectedProfiles: payload.selectedProfiles,
       latencyMs: payload.latencyMs,
+      horizon: payload.horizon,
+      seed: payload.seed,
     });
   });
 }
@@ -930,6 +970,8 @@ async function runFastCoinWorkers(
     runDir: string;
     selectedProfiles: string[];
     latencyMs: number;
+    horizon: MarketHorizon;
+    seed: number;
   },
 ): Promise<{ summariesByProfile: Map<string, ProfileSummary>; failedCoins: CoinSymbol[] }> {
   const workerLimit = Math.min(parseCoinWorkerLimit(), coins.length);
@@ -997,10 +1039,11 @@ async function fetchBacktestData(
   selectedCoins: CoinSymbol[],
   startMs: number,
   endMs: number,
+  horizon: MarketHorizon,
   log: LogFn,
 ): Promise<FetchBacktestDataResult> {
   log(
-    `Fetching Polymarket historical data (${new Date(startMs).toISOString()} -> ${new Date(
+    `Fetching Polymarket ${horizon} historical data (${new Date(startMs).toISOString()} -> ${new Date(
       endMs,
     ).toISOString()})`,
   );
@@ -1017,6 +1060,7 @@ async function fetchBacktestData(
     selectedCoins,
     startMs,
     endMs,
+    horizon,
     log,
   );
   const cachedCoins = new Set(cachedMarkets.map((market) => market.coin));
@@ -1044,7 +1088,7 @@ async function fetchBacktestData(
       startMs,
       endMs,
       dataDir,
-      { log },
+      { log, horizon },
     );
     markets = mergeMarketsBySlug(cachedMarkets, fetchedMarkets);
 
@@ -1429,16 +1473,529 @@ async function fetchBacktestData(
   };
 }
 
+interface SweepRunInputs {
+  spec: SweepSpec;
+  specPath: string;
+  baseProfile: ProfileDefinition;
+  selectedCoins: CoinSymbol[];
+  dataDir: string;
+  startMs: number;
+  endMs: number;
+  runDir: string;
+  runId: string;
+  latencyMs: number;
+  horizon: MarketHorizon;
+  fetchResult: FetchBacktestDataResult;
+  rng: SeededRng;
+}
+
+interface KernelWindowInputs {
+  dataDir: string;
+  coins: CoinSymbol[];
+  startMs: number;
+  endMs: number;
+  latencyMs: number;
+  horizon: MarketHorizon;
+  variants: SweepVariant[];
+  /** Config a variant trades on a coin; null leaves that coin out for the variant. */
+  configFor: (coin: CoinSymbol, variant: SweepVariant) => TimedTradeConfig | null;
+  /** Execution model per variant; kernel defaults when omitted. */
+  executionFor?: (variant: SweepVariant) => SweepExecution;
+  /** Only markets starting inside the window, so adjacent folds never share one. */
+  strictWindow?: boolean;
+  /** Each kernel draws from its own fork, keyed by coin, window and tier layout. */
+  rng: SeededRng;
+  log: LogFn;
+}
+
+/**
+ * Replays one window through SweepKernels, one kernel per coin and tier
+ * layout, and returns the variants ranked like a sweep.
+ */
+async function runKernelWindow(inputs: KernelWindowInputs): Promise<SweepResultRow[]> {
+  const { log } = inputs;
+  const data = await loadBacktestData(
+    inputs.dataDir,
+    inputs.coins,
+    inputs.startMs,
+    inputs.endMs,
+    inputs.horizon,
+  );
+  if (data.missingTradeFiles.length > 0) {
+    log(
+      `Missing trade files: ${data.missingTradeFiles.length} markets skipped during load.`,
+      "WARN",
+    );
+  }
+  if (inputs.strictWindow) {
+    for (const [coin, markets] of data.marketsByCoin) {
+      const kept = markets.filter((market) =>
+        marketStartsInWindow(market, inputs.startMs, inputs.endMs),
+      );
+      if (kept.length > 0) {
+        data.marketsByCoin.set(coin, kept);
+      } else {
+        data.marketsByCoin.delete(coin);
+      }
+    }
+    if (data.marketsByCoin.size === 0) {
+      log(
+        `No markets start in ${new Date(inputs.startMs).toISOString()} -> ${new Date(inputs.endMs).toISOString()}.`,
+        "WARN",
+      );
+      return rankSweepResults(inputs.variants, []);
+    }
+  }
+
+  const hub = new BacktestHub({
+    marketsByCoin: data.marketsByCoin,
+    tradeFilesBySlug: data.tradeFilesBySlug,
+    cryptoTickFilesByCoin: data.cryptoTickFilesByCoin,
+    tradeRangesBySlug: data.tradeRangesBySlug,
+    tickRangesByCoin: data.tickRangesByCoin,
+    latencyMs: inputs.latencyMs,
+  });
+
+  const groups: SweepKernelGroup[] = [];
+  for (const coin of inputs.coins) {
+    const layouts = new Map<
+      string,
+      { configs: TimedTradeConfig[]; variantIds: string[]; execution: SweepExecution[] }
+    >();
+    for (const variant of inputs.variants) {
+      const config = inputs.configFor(coin, variant);
+      if (!config) continue;
+      const signature = buildTierSignature(config);
+      const layout = layouts.get(signature) ?? { configs: [], variantIds: [], execution: [] };
+      layout.configs.push(config);
+      layout.variantIds.push(variant.id);
+      if (inputs.executionFor) layout.execution.push(inputs.executionFor(variant));
+      layouts.set(signature, layout);
+    }
+    for (const [signature, layout] of layouts) {
+      groups.push({
+        coin,
+        kernel: new SweepKernel(
+          coin,
+          layout.configs,
+          hub.getStartTimeMs(),
+          layout.execution,
+          inputs.rng.fork(`kernel:${coin}:${inputs.startMs}:${signature}`),
+        ),
+        variantIds: layout.variantIds,
+      });
+    }
+    if (layouts.size > 1) {
+      log(`${coin}: ${layouts.size} tier layouts, one kernel each.`);
+    }
+  }
+
+  const runner = new SweepRunner(hub, groups, {
+    onProgress: (nowMs, endMs) => {
+      log(
+        `Sweep progress ${new Date(nowMs).toISOString()} / ${new Date(endMs).toISOString()}`,
+      );
+    },
+  });
+  try {
+    runner.run();
+  } finally {
+    hub.close();
+  }
+  return rankSweepResults(inputs.variants, groups);
+}
+
+async function runSweepBacktest(inputs: SweepRunInputs): Promise<void> {
+  const systemLogger = new RunLogger(join(inputs.runDir, "system.log"));
+  const log = createCliLogger(systemLogger, "sweep");
+  const perfLogEnabled = parsePerfLogEnabled();
+
+  const variants = expandSweepGrid(inputs.spec, parseSweepMaxVariants());
+  log(
+    `Sweep starting (${inputs.selectedCoins.join(", ")}), base profile ${inputs.baseProfile.name}, ${variants.length} variants, latency ${inputs.latencyMs}ms, seed ${inputs.rng.seed}`,
+  );
+  log(`Sweep spec: ${inputs.specPath}`);
+  log(`Backtest data dir: ${inputs.dataDir}`);
+  log(`Backtest window: ${inputs.startMs} -> ${inputs.endMs}`);
+  if (inputs.fetchResult.truncatedMarkets.length > 0) {
+    log(
+      `Truncated (offset limit): ${inputs.fetchResult.truncatedMarkets.length} markets (data may be incomplete).`,
+      "WARN",
+    );
+  }
+  if (inputs.fetchResult.missingAfterRetries.length > 0) {
+    log(
+      `Missing after retries: ${inputs.fetchResult.missingAfterRetries.length} markets dropped.`,
+      "WARN",
+    );
+  }
+
+  const sweepCoins = inputs.selectedCoins.filter((coin) => {
+    const config = inputs.baseProfile.configs.get(coin);
+    return !!config && (config.horizon ?? DEFAULT_MARKET_HORIZON) === inputs.horizon;
+  });
+  for (const coin of inputs.selectedCoins) {
+    if (!sweepCoins.includes(coin)) {
+      log(
+        `Profile ${inputs.baseProfile.name} has no ${inputs.horizon} config for ${coin}, skipping.`,
+        "WARN",
+      );
+    }
+  }
+  if (sweepCoins.length === 0) {
+    log("No coins eligible for sweep.", "WARN");
+    return;
+  }
+
+  const runStart = Date.now();
+  const rows = await runKernelWindow({
+    dataDir: inputs.dataDir,
+    coins: sweepCoins,
+    startMs: inputs.startMs,
+    endMs: inputs.endMs,
+    latencyMs: inputs.latencyMs,
+    horizon: inputs.horizon,
+    variants,
+    configFor: (coin, variant) =>
+      applySweepVariant(inputs.baseProfile.configs.get(coin)!, variant),
+    rng: inputs.rng,
+    log,
+  });
+
+  const paramPaths = inputs.spec.parameters.map((parameter) => parameter.path);
+  const table = formatSweepTable(rows, paramPaths);
+  const report = [
+    `# Sweep ${inputs.runId}`,
+    "",
+    `- Base profile: ${inputs.baseProfile.name}`,
+    `- Coins: ${sweepCoins.join(", ")}`,
+    `- Window: ${new Date(inputs.startMs).toISOString()} -> ${new Date(inputs.endMs).toISOString()}`,
+    `- Variants: ${variants.length}`,
+    "",
+    ...table,
+    "",
+  ];
+  writeFileSync(join(inputs.runDir, "sweep-results.md"), report.join("\n"), "utf8");
+  writeJsonlLines(join(inputs.runDir, "sweep-results.jsonl"), rows);
+
+  log(`Sweep complete (${sweepCoins.join(", ")}), run ${inputs.runId}`);
+  for (const line of formatSweepTable(rows, paramPaths, inputs.spec.top)) {
+    log(line);
+  }
+  log(`Results written to ${join(inputs.runDir, "sweep-results.md")}`);
+  if (perfLogEnabled) {
+    log(`Sweep runtime ms: ${Date.now() - runStart}`);
+  }
+}
+
+interface WalkForwardRunInputs {
+  folds: WalkForwardFold[];
+  profiles: ProfileDefinition[];
+  /** Set with --optimize: the grid and the profile it is applied to. */
+  sweep: { spec: SweepSpec; specPath: string; baseProfile: ProfileDefinition } | null;
+  selectedCoins: CoinSymbol[];
+  dataDir: string;
+  runDir: string;
+  runId: string;
+  latencyMs: number;
+  horizon: MarketHorizon;
+  rng: SeededRng;
+}
+
+function toWalkForwardSummary(row: SweepResultRow | undefined): WalkForwardSummary {
+  return {
+    totalTrades: row?.totalTrades ?? 0,
+    wins: row?.wins ?? 0,
+    losses: row?.losses ?? 0,
+    totalProfit: row?.totalProfit ?? 0,
+  };
+}
+
+async function runWalkForwardBacktest(inputs: WalkForwardRunInputs): Promise<void> {
+  const systemLogger = new RunLogger(join(inputs.runDir, "system.log"));
+  const log = createCliLogger(systemLogger, "walk-forward");
+  const { sweep, horizon } = inputs;
+  const configForHorizon = (profile: ProfileDefinition, coin: CoinSymbol) => {
+    const config = profile.configs.get(coin);
+    return config && (config.horizon ?? DEFAULT_MARKET_HORIZON) === horizon ? config : null;
+  };
+
+  const profiles = inputs.profiles.filter((profile) => {
+    const eligible = inputs.selectedCoins.some((coin) => configForHorizon(profile, coin));
+    if (!eligible) {
+      log(`Profile ${profile.name} has no ${horizon} config for the selected coins, skipping.`, "WARN");
+    }
+    return eligible;
+  });
+  const fixedVariants: SweepVariant[] = profiles.map((profile) => ({ id: profile.name, params: {} }));
+  const grid = sweep ? expandSweepGrid(sweep.spec, parseSweepMaxVariants()) : [];
+  const optimizedLabel = sweep ? `${sweep.baseProfile.name} (optimized)` : null;
+  const sweepCoins = sweep
+    ? inputs.selectedCoins.filter((coin) => configForHorizon(sweep.baseProfile, coin))
+    : [];
+  if (fixedVariants.length === 0 && sweepCoins.length === 0) {
+    log("No profiles eligible for walk-forward.", "WARN");
+    return;
+  }
+
+  log(
+    `Walk-forward starting (${inputs.selectedCoins.join(", ")}), ${inputs.folds.length} folds, ${
+      sweep ? `optimizing ${sweep.baseProfile.name} over ${grid.length} variants` : "fixed profiles"
+    }, latency ${inputs.latencyMs}ms, seed ${inputs.rng.seed}`,
+  );
+  if (sweep) log(`Sweep spec: ${sweep.specPath}`);
+
+  const results: WalkForwardFoldResult[] = [];
+  for (const fold of inputs.folds) {
+    const window = (startMs: number, endMs: number) =>
+      `${new Date(startMs).toISOString()} -> ${new Date(endMs).toISOString()}`;
+    let selected: WalkForwardFoldResult["selected"] = null;
+    if (sweep && sweepCoins.length > 0) {
+      log(`Fold ${fold.index}: train ${window(fold.trainStartMs, fold.trainEndMs)}`);
+      const trainRows = await runKernelWindow({
+        dataDir: inputs.dataDir,
+        coins: sweepCoins,
+        startMs: fold.trainStartMs,
+        endMs: fold.trainEndMs,
+        latencyMs: inputs.latencyMs,
+        horizon,
+        variants: grid,
+        configFor: (coin, variant) =>
+          applySweepVariant(sweep.baseProfile.configs.get(coin)!, variant),
+        strictWindow: true,
+        rng: inputs.rng,
+        log,
+      });
+      const best = trainRows[0];
+      if (best) {
+        selected = { id: best.id, params: best.params, train: toWalkForwardSummary(best) };
+        log(`Fold ${fold.index}: selected ${best.id} (train pnl ${best.totalProfit.toFixed(2)})`);
+      }
+    }
+
+    log(`Fold ${fold.index}: test ${window(fold.testStartMs, fold.testEndMs)}`);
+    const testVariants = [...fixedVariants];
+    if (selected && optimizedLabel) {
+      testVariants.push({ id: optimizedLabel, params: selected.params });
+    }
+    const testCoins = Array.from(new Set([...inputs.selectedCoins, ...sweepCoins]));
+    const testRows = await runKernelWindow({
+      dataDir: inputs.dataDir,
+      coins: testCoins,
+      startMs: fold.testStartMs,
+      endMs: fold.testEndMs,
+      latencyMs: inputs.latencyMs,
+      horizon,
+      variants: testVariants,
+      configFor: (coin, variant) => {
+        if (sweep && variant.id === optimizedLabel) {
+          const base = configForHorizon(sweep.baseProfile, coin);
+          return base ? applySweepVariant(base, variant) : null;
+        }
+        const profile = profiles.find((entry) => entry.name === variant.id);
+        return profile ? configForHorizon(profile, coin) : null;
+      },
+      strictWindow: true,
+      rng: inputs.rng,
+      log,
+    });
+    const test = new Map(
+      testVariants.map((variant) => [
+        variant.id,
+        toWalkForwardSummary(testRows.find((row) => row.id === variant.id)),
+      ]),
+    );
+    results.push({ fold, selected, test });
+  }
+
+  const aggregates = aggregateWalkForward(results, optimizedLabel);
+  const report = formatWalkForwardReport(`Walk-forward ${inputs.runId}`, results, aggregates);
+  writeFileSync(join(inputs.runDir, "walk-forward.md"), report.join("\n"), "utf8");
+  writeJsonlLines(
+    join(inputs.runDir, "walk-forward.jsonl"),
+    results.map((result) => ({
+      ...result.fold,
+      selected: result.selected,
+      test: Object.fromEntries(result.test),
+    })),
+  );
+
+  log(`Walk-forward complete (${inputs.selectedCoins.join(", ")}), run ${inputs.runId}`);
+  for (const row of aggregates) {
+    log(
+      `${row.profile} out-of-sample pnl=${row.totalProfit.toFixed(2)} trades=${row.totalTrades} profitableFolds=${row.profitableFolds}/${row.folds}${
+        row.efficiency === null ? "" : ` efficiency=${row.efficiency.toFixed(2)}`
+      }`,
+    );
+  }
+  log(`Results written to ${join(inputs.runDir, "walk-forward.md")}`);
+}
+
+interface StressRunInputs {
+  distribution: StressDistribution;
+  profiles: ProfileDefinition[];
+  selectedCoins: CoinSymbol[];
+  dataDir: string;
+  startMs: number;
+  endMs: number;
+  runDir: string;
+  runId: string;
+  latencyMs: number;
+  horizon: MarketHorizon;
+  rng: SeededRng;
+}
+
+/**
+ * Replays the window once with every profile under the default execution
+ * plus `trials` randomized execution draws, all in the same kernel pass.
+ */
+async function runStressBacktest(inputs: StressRunInputs): Promise<void> {
+  const systemLogger = new RunLogger(join(inputs.runDir, "system.log"));
+  const log = createCliLogger(systemLogger, "stress");
+  const { distribution, horizon } = inputs;
+  const configForHorizon = (profile: ProfileDefinition, coin: CoinSymbol) => {
+    const config = profile.configs.get(coin);
+    return config && (config.horizon ?? DEFAULT_MARKET_HORIZON) === horizon ? config : null;
+  };
+
+  const profiles = inputs.profiles.filter((profile) => {
+    const eligible = inputs.selectedCoins.some((coin) => configForHorizon(profile, coin));
+    if (!eligible) {
+      log(`Profile ${profile.name} has no ${horizon} config for the selected coins, skipping.`, "WARN");
+    }
+    return eligible;
+  });
+  if (profiles.length === 0) {
+    log("No profiles eligible for stress testing.", "WARN");
+    return;
+  }
+
+  const stressRng = inputs.rng.fork("stress");
+  const trials = sampleStressTrials(distribution, () => stressRng.next());
+  const variants: SweepVariant[] = [];
+  const executionById = new Map<string, SweepExecution>();
+  const profileById = new Map<string, ProfileDefinition>();
+  for (const profile of profiles) {
+    variants.push({ id: profile.name, params: {} });
+    profileById.set(profile.name, profile);
+    for (const trial of trials) {
+      const id = `${profile.name}#${trial.index}`;
+      variants.push({ id, params: {} });
+      executionById.set(id, trial.execution);
+      profileById.set(id, profile);
+    }
+  }
+
+  log(
+    `Stress starting (${inputs.selectedCoins.join(", ")}), ${profiles.length} profiles x ${distribution.trials} trials, latency ${inputs.latencyMs}ms, seed ${inputs.rng.seed}`,
+  );
+  const runStart = Date.now();
+  const rows = await runKernelWindow({
+    dataDir: inputs.dataDir,
+    coins: inputs.selectedCoins,
+    startMs: inputs.startMs,
+    endMs: inputs.endMs,
+    latencyMs: inputs.latencyMs,
+    horizon,
+    variants,
+    configFor: (coin, variant) => {
+      const profile = profileById.get(variant.id);
+      return profile ? configForHorizon(profile, coin) : null;
+    },
+    executionFor: (variant) => executionById.get(variant.id) ?? defaultSweepExecution(),
+    rng: inputs.rng,
+    log,
+  });
+
+  const rowById = new Map(rows.map((row) => [row.id, row]));
+  const summaries = profiles.map((profile) => {
+    const baseline = rowById.get(profile.name);
+    return summarizeStress(
+      profile.name,
+      trials.map((trial) => {
+        const row = rowById.get(`${profile.name}#${trial.index}`);
+        return { totalProfit: row?.totalProfit ?? 0, totalTrades: row?.totalTrades ?? 0 };
+      }),
+      baseline ? { totalProfit: baseline.totalProfit, totalTrades: baseline.totalTrades } : null,
+    );
+  });
+
+  const report = formatStressReport(`Stress ${inputs.runId}`, distribution, summaries);
+  writeFileSync(join(inputs.runDir, "stress.md"), report.join("\n"), "utf8");
+  writeJsonlLines(
+    join(inputs.runDir, "stress-trials.jsonl"),
+    profiles.flatMap((profile) =>
+      trials.map((trial) => {
+        const row = rowById.get(`${profile.name}#${trial.index}`);
+        return {
+          profile: profile.name,
+          trial: trial.index,
+          ...trial.execution,
+          totalTrades: row?.totalTrades ?? 0,
+          wins: row?.wins ?? 0,
+          losses: row?.losses ?? 0,
+          totalProfit: row?.totalProfit ?? 0,
+        };
+      }),
+    ),
+  );
+
+  log(`Stress complete (${inputs.selectedCoins.join(", ")}), run ${inputs.runId}`);
+  for (const row of summaries) {
+    log(
+      `${row.profile} baseline=${row.baselineProfit?.toFixed(2) ?? "-"} p5=${row.p5.toFixed(2)} p50=${row.p50.toFixed(2)} p95=${row.p95.toFixed(2)} P(loss)=${(row.probabilityOfLoss * 100).toFixed(1)}%`,
+    );
+  }
+  log(`Results written to ${join(inputs.runDir, "stress.md")}`);
+  if (parsePerfLogEnabled()) {
+    log(`Stress runtime ms: ${Date.now() - runStart}`);
+  }
+}
+
+async function runVerify(options: VerifyOptions): Promise<void> {
+  const { runDir, runId } = getNextRunDir();
+  let report: VerifyReport;
+  try {
+    report = await verifyBacktest({
+      runDir,
+      fixtureDir: options.fixtureDir,
+      update: options.update,
+    });
+  } catch (error) {
+    console.log(error instanceof Error ? error.message : "Backtest verify failed.");
+    process.exitCode = 1;
+    return;
+  }
+  const systemLogger = new RunLogger(join(runDir, "system.log"));
+  for (const line of formatVerifyReport(report)) {
+    systemLogger.log(line, report.passed || report.updated ? "INFO" : "WARN");
+    console.log(`[backtest] ${line}`);
+  }
+  console.log(`[backtest] Verify run ${runId}: ${runDir}`);
+  if (!report.passed && !report.updated) {
+    process.exitCode = 1;
+  }
+}
+
 export async function backtestRoute(
   options: BacktestRouteOptions = {},
 ): Promise<void> {
+  if (options.verify) {
+    await runVerify(options.verify);
+    return;
+  }
+
   let profiles: ProfileDefinition[] = [];
   let coinOptions: CoinSymbol[] = [];
+  let fees: VenueFeeModels;
+  let riskLimits: RiskLimits;
 
   try {
     const loaded = loadProfilesFromConfig();
     profiles = loaded.profiles;
     coinOptions = loaded.coinOptions;
+    fees = loadFeeModels();
+    riskLimits = loadRiskLimits();
   } catch (error) {
     const message =
       error instanceof Error ? error.message : "Failed to load config.json.";
@@ -1478,7 +2035,7 @@ export async function backtestRoute(
 
     if (!options.coins) {
       const coinsToSelect =
-        coinOptions.length > 0 ? coinOptions : ["eth", "btc", "sol", "xrp"];
+        coinOptions.length > 0 ? coinOptions : getCoinRegistry().ids();
       const selectedCoinsRaw = await selectMany(
         "Select coins",
         coinsToSelect.map((coin) => ({
@@ -1502,6 +2059,7 @@ export async function backtestRoute(
   }
 
   const dataDir = options.dataDir ?? join(process.cwd(), "backtest-data");
+  const horizon = options.horizon ?? DEFAULT_MARKET_HORIZON;
   const latencyMs = parseLatencyMs();
   let runMode = options.mode;
   if (!runMode && process.stdin.isTTY) {
@@ -1534,16 +2092,91 @@ export async function backtestRoute(
     return;
   }
 
+  let walkForwardFolds: WalkForwardFold[] = [];
+  const walkForwardOptimize = options.walkForward?.optimize === true;
+  if (runMode === "walk-forward") {
+    try {
+      const trainMs = parseDurationMs(options.walkForward?.train ?? "3d", "--train");
+      const testMs = parseDurationMs(options.walkForward?.test ?? "1d", "--test");
+      const stepMs = options.walkForward?.step
+        ? parseDurationMs(options.walkForward.step, "--step")
+        : testMs;
+      walkForwardFolds = buildWalkForwardFolds(rangeStartMs, rangeEndMs, trainMs, testMs, stepMs);
+    } catch (error) {
+      console.log(error instanceof Error ? error.message : "Walk-forward setup error.");
+      return;
+    }
+  }
+
+  let stressDistribution: StressDistribution | null = null;
+  if (runMode === "stress") {
+    try {
+      const trials = options.stress?.trials ?? DEFAULT_STRESS_TRIALS;
+      if (!Number.isInteger(trials) || trials <= 0) {
+        throw new Error("Config error: --trials must be a positive integer");
+      }
+      stressDistribution = {
+        trials,
+        latencyMs: parseStressRange(options.stress?.latency ?? "15-250", "--latency", 0),
+        latencyJitterMs: parseStressJitterMs(),
+        depthHaircut: parseStressRange(options.stress?.haircut ?? "0-0.5", "--haircut", 0, 1),
+        missFillProbability: parseStressRange(
+          options.stress?.missRate ?? "0-0.2",
+          "--miss-rate",
+          0,
+          1,
+        ),
+      };
+    } catch (error) {
+      console.log(error instanceof Error ? error.message : "Stress setup error.");
+      return;
+    }
+  }
+
+  let sweepSpec: SweepSpec | null = null;
+  const sweepSpecPath =
+    options.sweepSpecPath ?? join(process.cwd(), "sweep.json");
+  let sweepBaseProfile: ProfileDefinition | null = null;
+  if (runMode === "sweep" || (runMode === "walk-forward" && walkForwardOptimize)) {
+    try {
+      sweepSpec = loadSweepSpec(sweepSpecPath);
+    } catch (error) {
+      console.log(error instanceof Error ? error.message : "Sweep spec error.");
+      return;
+    }
+    const baseName = sweepSpec.baseProfile ?? selectedProfiles[0];
+    sweepBaseProfile =
+      profiles.find(
+        (profile) => profile.name.toLowerCase() === baseName?.toLowerCase(),
+      ) ?? null;
+    if (!sweepBaseProfile) {
+      console.log(`Unknown sweep base profile: ${baseName}`);
+      return;
+    }
+    if (!sweepSpec.baseProfile && selectedProfiles.length > 1) {
+      console.log(
+        `Sweep uses one base profile; using ${sweepBaseProfile.name} (set baseProfile in the spec to choose).`,
+      );
+    }
+  }
+
   const { runDir, runId } = getNextRunDir();
+  const seed = resolveSeed(options.seed);
+  writeSeedFile(runDir, seed);
+  const rng = new SeededRng(seed);
 
   const resolvedMode = runMode ?? "visual";
   const speed = options.speed ?? (resolvedMode === "fast" ? 0 : 1);
   const headless = options.headless === true || resolvedMode === "fast";
+  // Workers each hold their own RiskManager, which would split caps that
+  // are meant to span coins.
+  const crossCoinLimits = crossCoinRiskLimits(riskLimits);
   const useCoinWorkers =
     resolvedMode === "fast" &&
     speed <= 0 &&
     parseCoinWorkerEnabled() &&
-    selectedCoins.length > 1;
+    selectedCoins.length > 1 &&
+    crossCoinLimits.length === 0;
   const perfLogEnabled = parsePerfLogEnabled();
   const regressionLogEnabled = parseRegressionLogEnabled();
 
@@ -1560,6 +2193,7 @@ export async function backtestRoute(
       selectedCoins,
       rangeStartMs,
       rangeEndMs,
+      horizon,
       fetchLog,
     );
   } catch (error) {
@@ -1567,10 +2201,77 @@ export async function backtestRoute(
     return;
   }
 
+  if (resolvedMode === "walk-forward") {
+    try {
+      await runWalkForwardBacktest({
+        folds: walkForwardFolds,
+        profiles: profiles.filter((profile) => selectedProfiles.includes(profile.name)),
+        sweep:
+          sweepSpec && sweepBaseProfile
+            ? { spec: sweepSpec, specPath: sweepSpecPath, baseProfile: sweepBaseProfile }
+            : null,
+        selectedCoins,
+        dataDir,
+        runDir,
+        runId,
+        latencyMs,
+        horizon,
+        rng,
+      });
+    } catch (error) {
+      console.log(error instanceof Error ? error.message : "Walk-forward failed.");
+    }
+    return;
+  }
+
+  if (resolvedMode === "stress" && stressDistribution) {
+    try {
+      await runStressBacktest({
+        distribution: stressDistribution,
+        profiles: profiles.filter((profile) => selectedProfiles.includes(profile.name)),
+        selectedCoins,
+        dataDir,
+        startMs: rangeStartMs,
+        endMs: rangeEndMs,
+        runDir,
+        runId,
+        latencyMs,
+        horizon,
+        rng,
+      });
+    } catch (error) {
+      console.log(error instanceof Error ? error.message : "Stress run failed.");
+    }
+    return;
+  }
+
+  if (resolvedMode === "sweep" && sweepSpec && sweepBaseProfile) {
+    try {
+      await runSweepBacktest({
+        spec: sweepSpec,
+        specPath: sweepSpecPath,
+        baseProfile: sweepBaseProfile,
+        selectedCoins,
+        dataDir,
+        startMs: rangeStartMs,
+        endMs: rangeEndMs,
+        runDir,
+        runId,
+        latencyMs,
+        horizon,
+        fetchResult,
+        rng,
+      });
+    } catch (error) {
+      console.log(error instanceof Error ? error.message : "Sweep failed.");
+    }
+    return;
+  }
+
   if (useCoinWorkers) {
     const systemLogger = new RunLogger(join(runDir, "system.log"));
     systemLogger.log(
-      `Backtest starting (${selectedCoins.join(", ")}), latency ${latencyMs}ms`,
+      `Backtest starting (${selectedCoins.join(", ")}), latency ${latencyMs}ms, seed ${seed}`,
     );
     systemLogger.log(`Backtest data dir: ${dataDir}`);
     if (rangeStartMs || rangeEndMs) {
@@ -1584,6 +2285,7 @@ export async function backtestRoute(
       selectedCoins,
       rangeStartMs,
       rangeEndMs,
+      horizon,
     );
     systemLogger.log("─── Fetch Summary ───");
     systemLogger.log(`Total markets fetched: ${totalMarketsCount}`);
@@ -1617,6 +2319,8 @@ export async function backtestRoute(
         runDir,
         selectedProfiles,
         latencyMs,
+        horizon,
+        seed,
       },
     );
     if (perfLogEnabled) {
@@ -1670,7 +2374,13 @@ export async function backtestRoute(
   let loadDurationMs: number | null = null;
   try {
     const loadStart = perfLogEnabled ? Date.now() : 0;
-    data = await loadBacktestData(dataDir, selectedCoins, rangeStartMs, rangeEndMs);
+    data = await loadBacktestData(
+      dataDir,
+      selectedCoins,
+      rangeStartMs,
+      rangeEndMs,
+      horizon,
+    );
     if (perfLogEnabled) {
       loadDurationMs = Date.now() - loadStart;
     }
@@ -1681,7 +2391,7 @@ export async function backtestRoute(
 
   const systemLogger = new RunLogger(join(runDir, "system.log"));
   systemLogger.log(
-    `Backtest starting (${selectedCoins.join(", ")}), latency ${latencyMs}ms`,
+    `Backtest starting (${selectedCoins.join(", ")}), latency ${latencyMs}ms, seed ${seed}`,
   );
   systemLogger.log(`Backtest data dir: ${dataDir}`);
   if (
@@ -1691,6 +2401,16 @@ export async function backtestRoute(
     selectedCoins.length <= 1
   ) {
     systemLogger.log("Coin workers disabled for single-coin fast mode.");
+  } else if (
+    resolvedMode === "fast" &&
+    speed <= 0 &&
+    parseCoinWorkerEnabled() &&
+    crossCoinLimits.length > 0
+  ) {
+    systemLogger.log(
+      `Coin workers disabled: risk caps span coins (${crossCoinLimits.join(", ")}).`,
+      "WARN",
+    );
   }
   if (perfLogEnabled && loadDurationMs !== null) {
     systemLogger.log(`Backtest data load ms: ${loadDurationMs}`);
@@ -1721,6 +2441,8 @@ export async function backtestRoute(
     systemLogger.log(line, "WARN");
   }
 
+  const risk = new RiskManager(riskLimits, systemLogger);
+  const journal = new TradeJournal(join(runDir, JOURNAL_FILE));
   const profileEngines: ProfileEngine[] = [];
   for (const profile of profiles) {
     if (!selectedProfiles.includes(profile.name)) {
@@ -1730,9 +2452,16 @@ export async function backtestRoute(
     const filtered = new Map<CoinSymbol, TimedTradeConfig>();
     for (const coin of selectedCoins) {
       const cfg = profile.configs.get(coin);
-      if (cfg) {
-        filtered.set(coin, cfg);
+      if (!cfg) continue;
+      const cfgHorizon = cfg.horizon ?? DEFAULT_MARKET_HORIZON;
+      if (cfgHorizon !== horizon) {
+        systemLogger.log(
+          `Profile ${profile.name} ${coin} trades ${cfgHorizon} markets, not ${horizon}; skipping.`,
+          "WARN",
+        );
+        continue;
       }
+      filtered.set(coin, cfg);
     }
 
     if (filtered.size === 0) {
@@ -1756,6 +2485,10 @@ export async function backtestRoute(
           decisionLatencyMs: 250,
           crossDebug: true,
           crossAllowNoFlip: true,
+          fees,
+          risk,
+          journal,
+          rng: rng.fork(`profile:${profile.name}`),
         },
       ),
     );
@@ -1802,18 +2535,10 @@ export async function backtestRoute(
   systemLogger.log("─── End Fetch Summary ───");
 
   const renderDashboard = resolvedMode !== "fast" && !headless;
+  // Replay controls need timed playback; max speed runs to the end in one go.
+  const replayControls = renderDashboard && Number.isFinite(speed) && speed > 0;
   const dashboard = new ProfileDashboard();
   let activeProfileIndex = 0;
-  const cleanupNavigation = renderDashboard
-    ? setupProfileNavigation(
-        profileEngines.length,
-        () => activeProfileIndex,
-        (nextIndex) => {
-          activeProfileIndex = nextIndex;
-        },
-      )
-    : () => {};
-
   const runStart = perfLogEnabled ? Date.now() : 0;
   const logFinalSummary = () => {
     const header = `Backtest complete (${selectedCoins.join(", ")}), run ${runId}`;
@@ -1830,6 +2555,7 @@ export async function backtestRoute(
       systemLogger.log(line);
       console.log(`[backtest] ${line}`);
     }
+    systemLogger.log(formatRiskState(risk.getState()));
 
     if (regressionLogEnabled) {
       const summaryList = profileEngines.map((engine) => ({
@@ -1861,9 +2587,17 @@ export async function backtestRoute(
       activeProfileIndex = index;
     },
     selectedCoins,
+    risk,
     render: renderDashboard,
     headless,
     headlessLogEveryMs: parseHeadlessLogEveryMs(),
+    replay: replayControls,
+    onBookmark: (bookmark) => {
+      writeJsonlLines(join(runDir, "bookmarks.jsonl"), [bookmark], { append: true });
+      systemLogger.log(
+        `Bookmark #${bookmark.index} at ${new Date(bookmark.timeMs).toISOString()} (${bookmark.markets.join(", ")})`,
+      );
+    },
     onComplete: () => {
       hub.close();
       logFinalSummary();
@@ -1871,6 +2605,17 @@ export async function backtestRoute(
       process.exit(0);
     },
   });
+  const cleanupNavigation = renderDashboard
+    ? setupProfileNavigation(
+        profileEngines.length,
+        () => activeProfileIndex,
+        (nextIndex) => {
+          activeProfileIndex = nextIndex;
+          if (replayControls) runner.refresh();
+        },
+        replayControls ? createReplayKeyHandler(runner) : undefined,
+      )
+    : () => {};
 
   runner.start();
 
@@ -7,6 +7,8 @@ import { existsSync, mkdirSync } from "fs";
 import { join } from "path";
 import { MarketDataHub, type MarketSnapshot } from "../services/market-data-hub";
 import { KalshiMarketDataHub } from "../services/kalshi-market-data-hub";
+import { MarketEventBus } from "../services/market-event-bus";
+import { EvalScheduler } from "../services/eval-scheduler";
 import { RunLogger } from "../services/run-logger";
 import { loadProviderConfig, normalizeCoinKey } from "../services/profile-config";
 import { getKalshiEnvConfig } from "../clients/kalshi/kalshi-config";
@@ -34,6 +36,8 @@ import {
 
 const ODDS_HISTORY_LIMIT = 180;
 const RENDER_INTERVAL_MS = 500;
+// Safety tick for close detection, official-outcome retries and summaries.
+const EVAL_FALLBACK_MS = parseEnvNumber("CROSS_ANALYSIS_EVAL_FALLBACK_MS", 1_000, 100);
 const MISMATCH_HISTORY_TAIL = 6;
 const FINAL_WINDOW_MS = parseEnvNumber("CROSS_ANALYSIS_FINAL_WINDOW_MS", 60_000, 10_000);
 const FINAL_GRACE_MS = parseEnvNumber("CROSS_ANALYSIS_FINAL_GRACE_MS", 120_000, 30_000);
@@ -351,11 +355,13 @@ export async function crossPlatformAnalysisRoute(
     );
   }
 
-  const polyHub = new MarketDataHub(debugLogger);
+  const bus = new MarketEventBus(systemLogger);
+  const polyHub = new MarketDataHub(debugLogger, { bus });
   const kalshiHub = new KalshiMarketDataHub(
     debugLogger,
     kalshiEnvConfig,
     kalshiSelectors,
+    { bus },
   );
 
   await polyHub.start(coins);
@@ -393,9 +399,9 @@ export async function crossPlatformAnalysisRoute(
       )
     : () => {};
 
-  const timer = setInterval(() => {
+  // Pairs are tracked on every hub update; rendering stays on its own timer.
+  const evaluate = (now: number) => {
     try {
-      const now = Date.now();
       const polySnapshots = polyHub.getSnapshots();
       const kalshiSnapshots = kalshiHub.getSnapshots();
 
@@ -935,42 +941,6 @@ export async function crossPlatformAnalysisRoute(
       const polySnap = polySnapshots.get(coin);
       const kalshiSnap = kalshiSnapshots.get(coin);
 
-      if (polySnap) {
-        const upTokenId = polySnap.upTokenId;
-        const bid = upTokenId ? polySnap.bestBid.get(upTokenId) ?? null : null;
-        const ask = upTokenId ? polySnap.bestAsk.get(upTokenId) ?? null : null;
-        const mid = computeOddsMid(bid ?? null, ask ?? null);
-        if (mid != null) {
-          const arr = polyOddsHistoryByCoin.get(coin)!;
-          arr.push(mid);
-          if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
-        }
-      }
-
-      if (kalshiSnap) {
-        const arr = kalshiOddsHistoryByCoin.get(coin)!;
-        if (
-          arr.length === 0 &&
-          kalshiSnap.kalshiMarketPriceHistory &&
-          kalshiSnap.kalshiMarketPriceHistory.length > 0
-        ) {
-          arr.push(
-            ...kalshiSnap.kalshiMarketPriceHistory.slice(-ODDS_HISTORY_LIMIT),
-          );
-        }
-        const odds =
-          kalshiSnap.kalshiMarketPrice ??
-          kalshiSnap.kalshiLastPrice ??
-          null;
-        if (odds != null) {
-          const last = arr[arr.length - 1];
-          if (last !== odds) {
-            arr.push(odds);
-            if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
-          }
-        }
-      }
-
       const staleReasons: string[] = [];
       if (!polySnap) {
         staleReasons.push("poly_missing");
@@ -1113,6 +1083,67 @@ export async function crossPlatformAnalysisRoute(
       }
       lastSummaryLogMs = now;
     }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      systemLogger.log(`ANALYSIS_LOOP_ERROR ${message}`, "ERROR");
+    }
+  };
+
+  const scheduler = new EvalScheduler({
+    evaluate,
+    nextPendingTime: () => null,
+    fallbackMs: EVAL_FALLBACK_MS,
+  });
+  const stopAnalysisFeed = bus.subscribe("cross-analysis", () => scheduler.trigger(), {
+    types: ["book", "spot", "market-rotated", "data-status", "reference-price"],
+    coins,
+  });
+  scheduler.start();
+
+  const renderTimer = setInterval(() => {
+    try {
+      const polySnapshots = polyHub.getSnapshots();
+      const kalshiSnapshots = kalshiHub.getSnapshots();
+      for (const coin of coins) {
+        const polySnap = polySnapshots.get(coin);
+        const kalshiSnap = kalshiSnapshots.get(coin);
+
+        if (polySnap) {
+          const upTokenId = polySnap.upTokenId;
+          const bid = upTokenId ? polySnap.bestBid.get(upTokenId) ?? null : null;
+          const ask = upTokenId ? polySnap.bestAsk.get(upTokenId) ?? null : null;
+          const mid = computeOddsMid(bid ?? null, ask ?? null);
+          if (mid != null) {
+            const arr = polyOddsHistoryByCoin.get(coin)!;
+            arr.push(mid);
+            if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
+          }
+        }
+
+        if (kalshiSnap) {
+          const arr = kalshiOddsHistoryByCoin.get(coin)!;
+          if (
+            arr.length === 0 &&
+            kalshiSnap.kalshiMarketPriceHistory &&
+            kalshiSnap.kalshiMarketPriceHistory.length > 0
+          ) {
+            arr.push(
+              ...kalshiSnap.kalshiMarketPriceHistory.slice(-ODDS_HISTORY_LIMIT),
+            );
+          }
+          const odds =
+            kalshiSnap.kalshiMarketPrice ??
+            kalshiSnap.kalshiLastPrice ??
+            null;
+          if (odds != null) {
+            const last = arr[arr.length - 1];
+            if (last !== odds) {
+              arr.push(odds);
+              if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
+            }
+          }
+        }
+      }
 
       if (dashboard) {
         const activeCoin =
@@ -1137,7 +1168,9 @@ export async function crossPlatformAnalysisRoute(
   }, RENDER_INTERVAL_MS);
 
   process.on("SIGINT", () => {
-    clearInterval(timer);
+    scheduler.stop();
+    stopAnalysisFeed();
+    clearInterval(renderTimer);
     cleanupNavigation();
     polyHub.stop();
     kalshiHub.stop();
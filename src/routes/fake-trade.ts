@@ -1,31 +1,64 @@
 import { existsSync } from "fs";
 import { join } from "path";
-import { MarketDataHub } from "../services/market-data-hub";
+import { MarketDataHub, type MarketSnapshot } from "../services/market-data-hub";
 import { KalshiMarketDataHub } from "../services/kalshi-market-data-hub";
-import { ArbitrageEngine } from "../services/arbitrage-engine";
+import {
+  formatBusStats,
+  MARKET_EVENTS_FILE,
+  MarketEventBus,
+  recordMarketEvents,
+} from "../services/market-event-bus";
+import { EvalScheduler } from "../services/eval-scheduler";
+import {
+  ArbitrageEngine,
+  type ArbitrageEngineCheckpoint,
+} from "../services/arbitrage-engine";
 import { RunLogger } from "../services/run-logger";
+import { readSeedFile, resolveSeed, SeededRng, writeSeedFile } from "../services/rng";
+import { JOURNAL_FILE, TradeJournal } from "../services/trade-journal";
 import { ArbitrageDashboard } from "../cli/arbitrage-dashboard";
-import type { CoinSymbol } from "../services/auto-market";
+import type { CoinSymbol, MarketHorizon } from "../services/auto-market";
 import { promptText, selectMany } from "../cli/prompts";
 import {
+  defaultKalshiSelection,
   loadProviderConfig,
   normalizeCoinKey,
+  resolveKalshiSelectorsForHorizon,
   sanitizeProfileName,
   type KalshiCoinSelection,
 } from "../services/profile-config";
 import {
   loadArbitrageConfig,
   type ArbitrageCoinConfig,
+  type ArbitrageConfigResult,
 } from "../services/arbitrage-config";
+import { ConfigWatcher, planConfigReload } from "../services/config-reload";
 import { getKalshiEnvConfig } from "../clients/kalshi/kalshi-config";
 import { KalshiClient } from "../clients/kalshi/kalshi-client";
 import { computeOddsMid } from "../services/cross-platform-compare";
+import { getCoinRegistry } from "../services/coin-registry";
 import {
   deriveSeriesTickerFromMarket,
   looksLikeKalshiMarketTicker,
   normalizeKalshiTicker,
   parseKalshiMarketUrl,
 } from "../clients/kalshi/kalshi-url";
+import { createExecutionAdapter } from "../execution/execution-adapter";
+import { loadFeeModels, type VenueFeeModels } from "../services/fee-model";
+import {
+  loadRiskLimits,
+  RiskManager,
+  type RiskLimits,
+} from "../services/risk-manager";
+import type { ExecutionAdapter, ExecutionMode } from "../execution/types";
+import {
+  CHECKPOINT_VERSION,
+  findCheckpointRun,
+  LATEST_RUN,
+  readCheckpoint,
+  writeCheckpoint,
+  type RunCheckpoint,
+} from "../services/engine-checkpoint";
 
 const ODDS_HISTORY_LIMIT = 180;
 
@@ -35,6 +68,56 @@ export interface FakeTradeRouteOptions {
   autoSelect?: boolean;
   provider?: string;
   headless?: boolean;
+  execution?: ExecutionMode;
+  /** Run id under logs/ (or "latest") whose checkpoint to continue from. */
+  resume?: string;
+  /** Seed for the engines' random draws; a resumed run reuses its own. */
+  seed?: number;
+}
+
+interface ResumedRun {
+  runDir: string;
+  runId: string;
+  checkpoint: RunCheckpoint<ArbitrageEngineCheckpoint>;
+}
+
+interface HorizonHubs {
+  horizon: MarketHorizon;
+  coins: CoinSymbol[];
+  polyHub: MarketDataHub;
+  kalshiHub: KalshiMarketDataHub;
+  polyOddsHistoryByCoin: Map<CoinSymbol, number[]>;
+  kalshiOddsHistoryByCoin: Map<CoinSymbol, number[]>;
+}
+
+function parseEnvFlag(name: string, defaultValue: boolean): boolean {
+  const raw = process.env[name];
+  if (!raw) return defaultValue;
+  const normalized = raw.trim().toLowerCase();
+  if (["false", "0", "off", "no"].includes(normalized)) return false;
+  if (["true", "1", "on", "yes"].includes(normalized)) return true;
+  return defaultValue;
+}
+
+function parseEnvNumber(name: string, defaultValue: number, minValue: number): number {
+  const raw = process.env[name];
+  if (!raw) return defaultValue;
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed)) return defaultValue;
+  return Math.max(minValue, parsed);
+}
+
+/** Picks each coin's entry from the map of the horizon that coin trades on. */
+function mergeByHorizon<T>(
+  byHorizon: Map<MarketHorizon, Map<CoinSymbol, T>>,
+  coinHorizons: Map<CoinSymbol, MarketHorizon>,
+): Map<CoinSymbol, T> {
+  const merged = new Map<CoinSymbol, T>();
+  for (const [coin, horizon] of coinHorizons.entries()) {
+    const value = byHorizon.get(horizon)?.get(coin);
+    if (value !== undefined) merged.set(coin, value);
+  }
+  return merged;
 }
 
 function getNextRunDir(): { runDir: string; runId: string } {
@@ -51,23 +134,13 @@ function getNextRunDir(): { runDir: string; runId: string } {
   }
 }
 
-function createEmptyKalshiSelection(): KalshiCoinSelection {
-  return {
-    tickers: [],
-    seriesTickers: [],
-    eventTickers: [],
-    marketUrls: [],
-    autoDiscover: true,
-  };
-}
-
 function ensureKalshiSelection(
   selections: Map<CoinSymbol, KalshiCoinSelection>,
   coin: CoinSymbol,
 ): KalshiCoinSelection {
   const existing = selections.get(coin);
   if (existing) return existing;
-  const next = createEmptyKalshiSelection();
+  const next = defaultKalshiSelection(coin);
   selections.set(coin, next);
   return next;
 }
@@ -172,6 +245,7 @@ function setupProfileAndCoinNavigation(
   getCoinCount: () => number,
   getCoinIndex: () => number,
   setCoinIndex: (nextIndex: number) => void,
+  toggleKillSwitch?: () => void,
 ): () => void {
   let keyBuffer = Buffer.alloc(0);
 
@@ -248,6 +322,11 @@ function setupProfileAndCoinNavigation(
       return;
     }
 
+    if (keyStr.toLowerCase() === "x" && toggleKillSwitch) {
+      toggleKillSwitch();
+      return;
+    }
+
     if (keyStr === "\x03") {
       process.emit("SIGINT", "SIGINT");
     }
@@ -260,7 +339,10 @@ function setupProfileAndCoinNavigation(
     }
   };
 
-  if ((getProfileCount() > 1 || getCoinCount() > 1) && process.stdin.isTTY) {
+  if (
+    (getProfileCount() > 1 || getCoinCount() > 1 || toggleKillSwitch) &&
+    process.stdin.isTTY
+  ) {
     process.stdin.setRawMode(true);
     process.stdin.resume();
     process.stdin.setEncoding("utf-8");
@@ -277,6 +359,33 @@ export async function fakeTradeRoute(): Promise<void> {
 export async function fakeTradeRouteWithOptions(
   options: FakeTradeRouteOptions = {},
 ): Promise<void> {
+  let resumed: ResumedRun | null = null;
+  if (options.resume) {
+    const found = findCheckpointRun(join(process.cwd(), "logs"), options.resume);
+    if (!found && options.resume !== LATEST_RUN) {
+      console.log(`No checkpoint found for run ${options.resume} in logs/.`);
+      return;
+    }
+    if (found) {
+      try {
+        resumed = { ...found, checkpoint: readCheckpoint<ArbitrageEngineCheckpoint>(found.runDir) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Checkpoint error.";
+        console.log(message);
+        return;
+      }
+      // The resumed run trades what it traded before unless told otherwise.
+      options = {
+        ...options,
+        profiles: options.profiles?.length ? options.profiles : resumed.checkpoint.profiles,
+        coins: options.coins?.length ? options.coins : resumed.checkpoint.coins,
+      };
+    } else {
+      // `latest` on a first start (e.g. a fresh container) starts a new run.
+      console.log("No checkpoint to resume yet, starting a new run.");
+    }
+  }
+
   if (options.provider) {
     console.log(
       "Provider selection is ignored for arbitrage mode (uses Polymarket + Kalshi).",
@@ -288,10 +397,14 @@ export async function fakeTradeRouteWithOptions(
   let kalshiSelectorsByCoin: Map<CoinSymbol, KalshiCoinSelection> | undefined;
   let polyCoinOptions: CoinSymbol[] = [];
   let kalshiCoinOptions: CoinSymbol[] = [];
+  let fees: VenueFeeModels;
+  let riskLimits: RiskLimits;
   try {
     const arbLoaded = loadArbitrageConfig();
     profiles = arbLoaded.profiles;
     coinOptions = arbLoaded.coinOptions;
+    fees = loadFeeModels();
+    riskLimits = loadRiskLimits();
 
     const polyLoaded = loadProviderConfig("polymarket");
     const kalshiLoaded = loadProviderConfig("kalshi");
@@ -360,7 +473,7 @@ export async function fakeTradeRouteWithOptions(
   }
   const resolvedProfiles = selectedProfiles ?? [];
 
-  const fallbackCoins: CoinSymbol[] = ["eth", "btc", "sol", "xrp"];
+  const fallbackCoins = getCoinRegistry().ids();
   const polySet = new Set(polyCoinOptions);
   const kalshiSet = new Set(kalshiCoinOptions);
   const intersection = coinOptions.filter(
@@ -445,13 +558,17 @@ export async function fakeTradeRouteWithOptions(
     }
   }
 
-  const { runDir, runId } = getNextRunDir();
+  const { runDir, runId } = resumed ?? getNextRunDir();
+  const seed = resolveSeed(options.seed ?? (resumed ? readSeedFile(runDir) ?? undefined : undefined));
+  writeSeedFile(runDir, seed);
+  const rng = new SeededRng(seed);
   const systemLogger = new RunLogger(join(runDir, "system.log"), 200, {
     stdout: options.headless === true,
   });
   const mismatchLogger = new RunLogger(join(runDir, "mismatch.log"), 200, {
     stdout: options.headless === true,
   });
+  const journal = new TradeJournal(join(runDir, JOURNAL_FILE));
 
   let kalshiConfig;
   try {
@@ -462,20 +579,35 @@ export async function fakeTradeRouteWithOptions(
     return;
   }
 
-  const polyHub = new MarketDataHub(systemLogger, { requireCryptoPrice: false });
-  const kalshiHub = new KalshiMarketDataHub(
-    systemLogger,
-    kalshiConfig,
-    kalshiSelectorsByCoin,
-    { requireCryptoPrice: false },
-  );
-
-  await polyHub.start(resolvedCoins);
-  await kalshiHub.start(resolvedCoins);
+  const executionMode = options.execution ?? "paper";
+  let executor: ExecutionAdapter;
+  try {
+    executor = createExecutionAdapter(
+      executionMode,
+      new RunLogger(join(runDir, "execution.log"), 200, {
+        stdout: options.headless === true,
+      }),
+    );
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Execution config error.";
+    console.log(message);
+    return;
+  }
+  if (executionMode !== "paper") {
+    systemLogger.log(
+      `Execution mode ${executionMode}${executionMode === "live" ? ": orders will be sent to Polymarket and Kalshi" : ""}.`,
+      executionMode === "live" ? "WARN" : "INFO",
+    );
+  }
 
   const kalshiOutcomeClient = new KalshiClient(kalshiConfig);
+  const risk = new RiskManager(riskLimits, systemLogger);
   const profileEngines: ArbitrageEngine[] = [];
+  // What each engine trades, for diffing hot reloads (engines own their maps).
+  const runningConfigs = new Map<string, Map<CoinSymbol, ArbitrageCoinConfig>>();
   const profileCoinsByName = new Map<string, CoinSymbol[]>();
+  const coinHorizonsByProfile = new Map<string, Map<CoinSymbol, MarketHorizon>>();
   const activeCoinIndexByProfile = new Map<string, number>();
   for (const profile of profiles) {
     if (!resolvedProfiles.includes(profile.name)) {
@@ -483,10 +615,12 @@ export async function fakeTradeRouteWithOptions(
     }
 
     const filtered = new Map<CoinSymbol, ArbitrageCoinConfig>();
+    const coinHorizons = new Map<CoinSymbol, MarketHorizon>();
     for (const coin of resolvedCoins) {
       const cfg = profile.coins.get(coin);
       if (cfg) {
         filtered.set(coin, cfg);
+        coinHorizons.set(coin, cfg.horizon);
       }
     }
     const profileCoins = resolvedCoins.filter((coin) => filtered.has(coin));
@@ -508,28 +642,161 @@ export async function fakeTradeRouteWithOptions(
         kalshiOutcomeClient,
         mismatchLogger,
         headlessSummary: options.headless === true,
+        executor,
+        fees,
+        risk,
+        journal,
+        rng: rng.fork(`profile:${profile.name}`),
       }),
     );
+    runningConfigs.set(profile.name, new Map(filtered));
     profileCoinsByName.set(profile.name, profileCoins);
+    coinHorizonsByProfile.set(profile.name, coinHorizons);
     if (!activeCoinIndexByProfile.has(profile.name)) {
       activeCoinIndexByProfile.set(profile.name, 0);
     }
   }
 
-  const polyOddsHistoryByCoin = new Map<CoinSymbol, number[]>();
-  const kalshiOddsHistoryByCoin = new Map<CoinSymbol, number[]>();
-  for (const coin of resolvedCoins) {
-    polyOddsHistoryByCoin.set(coin, []);
-    kalshiOddsHistoryByCoin.set(coin, []);
-  }
-
   if (profileEngines.length === 0) {
     systemLogger.log("No profiles eligible for selected coins.", "WARN");
-    polyHub.stop();
-    kalshiHub.stop();
     return;
   }
 
+  if (resumed) {
+    const { checkpoint } = resumed;
+    const nowMs = Date.now();
+    if (checkpoint.risk) risk.restoreCheckpoint(checkpoint.risk, nowMs);
+    for (const engine of profileEngines) {
+      const saved = checkpoint.engines[engine.getName()];
+      if (saved) engine.restoreCheckpoint(saved, nowMs);
+    }
+    for (const name of Object.keys(checkpoint.engines)) {
+      if (!profileEngines.some((engine) => engine.getName() === name)) {
+        systemLogger.log(`Checkpointed profile ${name} is not running; its state was dropped.`, "WARN");
+      }
+    }
+    systemLogger.log(
+      `Resumed run ${runId} from checkpoint saved ${new Date(checkpoint.savedAtMs).toISOString()}.`,
+    );
+  }
+
+  const saveCheckpoint = () => {
+    try {
+      writeCheckpoint(runDir, {
+        version: CHECKPOINT_VERSION,
+        runId,
+        savedAtMs: Date.now(),
+        profiles: profileEngines.map((engine) => engine.getName()),
+        coins: resolvedCoins,
+        engines: Object.fromEntries(
+          profileEngines.map((engine) => [engine.getName(), engine.exportCheckpoint()]),
+        ),
+        risk: risk.exportCheckpoint(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error.";
+      systemLogger.log(`Checkpoint write failed: ${message}`, "ERROR");
+    }
+  };
+  const checkpointIntervalMs = parseEnvNumber("CHECKPOINT_INTERVAL_MS", 5000, 0);
+  const checkpointTimer =
+    checkpointIntervalMs > 0 ? setInterval(saveCheckpoint, checkpointIntervalMs) : null;
+
+  // One hub pair per horizon in use, so the same coin can trade several
+  // horizons side by side in different profiles.
+  const coinsByHorizon = new Map<MarketHorizon, Set<CoinSymbol>>();
+  for (const coinHorizons of coinHorizonsByProfile.values()) {
+    for (const [coin, horizon] of coinHorizons.entries()) {
+      const coins = coinsByHorizon.get(horizon) ?? new Set<CoinSymbol>();
+      coins.add(coin);
+      coinsByHorizon.set(horizon, coins);
+    }
+  }
+  // Every hub publishes onto one bus; the engines, the event log and any
+  // other consumer subscribe there instead of polling the hubs.
+  const bus = new MarketEventBus(systemLogger);
+  const stopEventLog = recordMarketEvents(bus, join(runDir, MARKET_EVENTS_FILE));
+  const horizonHubs: HorizonHubs[] = [];
+  for (const [horizon, coinSet] of coinsByHorizon.entries()) {
+    const coins = resolvedCoins.filter((coin) => coinSet.has(coin));
+    const hubs: HorizonHubs = {
+      horizon,
+      coins,
+      polyHub: new MarketDataHub(systemLogger, {
+        requireCryptoPrice: false,
+        horizon,
+        bus,
+      }),
+      kalshiHub: new KalshiMarketDataHub(
+        systemLogger,
+        kalshiConfig,
+        resolveKalshiSelectorsForHorizon(kalshiSelectorsByCoin, horizon),
+        { requireCryptoPrice: false, horizon, bus },
+      ),
+      polyOddsHistoryByCoin: new Map(coins.map((coin) => [coin, []])),
+      kalshiOddsHistoryByCoin: new Map(coins.map((coin) => [coin, []])),
+    };
+    await hubs.polyHub.start(coins);
+    await hubs.kalshiHub.start(coins);
+    horizonHubs.push(hubs);
+  }
+
+  const collectSnapshots = () => {
+    const poly = new Map<MarketHorizon, Map<CoinSymbol, MarketSnapshot>>();
+    const kalshi = new Map<MarketHorizon, Map<CoinSymbol, MarketSnapshot>>();
+    for (const hubs of horizonHubs) {
+      poly.set(hubs.horizon, hubs.polyHub.getSnapshots());
+      kalshi.set(hubs.horizon, hubs.kalshiHub.getSnapshots());
+    }
+    return { poly, kalshi };
+  };
+  const stopHubs = () => {
+    for (const hubs of horizonHubs) {
+      hubs.polyHub.stop();
+      hubs.kalshiHub.stop();
+    }
+  };
+
+  // Re-parse config.json on save and hand changed parameters to the
+  // engines; an invalid file is rejected as a whole and nothing changes.
+  const reloadConfig = () => {
+    let loaded: ArbitrageConfigResult;
+    try {
+      loaded = loadArbitrageConfig();
+      loadProviderConfig("polymarket");
+      loadProviderConfig("kalshi");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to load config.json.";
+      systemLogger.log(`CONFIG reload rejected, keeping current settings: ${message}`, "WARN");
+      return;
+    }
+    const plan = planConfigReload(
+      runningConfigs,
+      new Map(loaded.profiles.map((profile) => [profile.name, profile.coins])),
+      ["horizon"],
+    );
+    for (const line of plan.skipped) {
+      systemLogger.log(`CONFIG ${line}`, "WARN");
+    }
+    for (const line of plan.changes) {
+      systemLogger.log(`CONFIG ${line}`);
+    }
+    for (const [profileName, updates] of plan.updates.entries()) {
+      profileEngines.find((engine) => engine.getName() === profileName)?.updateConfigs(updates);
+      const running = runningConfigs.get(profileName);
+      for (const [coin, config] of updates.entries()) {
+        running?.set(coin, config);
+      }
+    }
+    if (plan.changes.length === 0 && plan.skipped.length === 0) {
+      systemLogger.log("CONFIG reloaded, no parameter changes.");
+    }
+  };
+  const configWatcher = parseEnvFlag("CONFIG_HOT_RELOAD", true)
+    ? new ConfigWatcher(join(process.cwd(), "config.json"), reloadConfig)
+    : null;
+
   const dashboard = options.headless ? null : new ArbitrageDashboard();
   let activeProfileIndex = 0;
 
@@ -578,69 +845,97 @@ export async function fakeTradeRouteWithOptions(
           const clamped = Math.max(0, Math.min(nextIndex, coins.length - 1));
           activeCoinIndexByProfile.set(profileName, clamped);
         },
+        () => risk.setKillSwitch(!risk.isHalted()),
       )
     : () => {};
 
-  // ── Fast evaluation loop (1ms) ───────────────────────────────────
-  // The arb engine must react to opportunities sub-millisecond.
-  // setInterval floors to 1ms in Node; this is the fastest poll possible.
-  const evalTimer = setInterval(() => {
-    try {
-      const polySnapshots = polyHub.getSnapshots();
-      const kalshiSnapshots = kalshiHub.getSnapshots();
-      const now = Date.now();
+  // ── Event-driven evaluation ─────────────────────────────────────
+  // The arb engine reacts to each book, trade and spot update as the hub
+  // applies it; delayed decisions get their own timer and a slow tick
+  // covers the clock-only rules.
+  const scheduler = new EvalScheduler({
+    evaluate: (now) => {
+      try {
+        const snapshots = collectSnapshots();
+        for (const engine of profileEngines) {
+          const coinHorizons = coinHorizonsByProfile.get(engine.getName());
+          if (!coinHorizons) continue;
+          engine.evaluate(
+            mergeByHorizon(snapshots.poly, coinHorizons),
+            mergeByHorizon(snapshots.kalshi, coinHorizons),
+            now,
+          );
+        }
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Unknown error in eval loop.";
+        systemLogger.log(`Arbitrage eval error: ${message}`, "ERROR");
+      }
+    },
+    nextPendingTime: () => {
+      let next: number | null = null;
       for (const engine of profileEngines) {
-        engine.evaluate(polySnapshots, kalshiSnapshots, now);
+        const due = engine.getNextPendingTime();
+        if (due !== null && (next === null || due < next)) next = due;
       }
-    } catch (error) {
-      const message =
-        error instanceof Error ? error.message : "Unknown error in eval loop.";
-      systemLogger.log(`Arbitrage eval error: ${message}`, "ERROR");
-    }
-  }, 1);
+      return next;
+    },
+    fallbackMs: parseEnvNumber("ARB_EVAL_FALLBACK_MS", 100, 1),
+  });
+  const stopEngineFeed = bus.subscribe("engines", () => scheduler.trigger(), {
+    types: ["book", "trade", "spot", "market-rotated", "reference-price"],
+  });
+  scheduler.start();
+  const busStatsTimer = setInterval(() => {
+    systemLogger.log(formatBusStats(bus.getStats()));
+  }, parseEnvNumber("MARKET_BUS_STATS_MS", 300_000, 10_000));
 
   // ── Render loop (250ms) ────────────────────────────────────────
   // Dashboard rendering and odds history are visual-only; 4 fps for snappy UI.
   const renderTimer = setInterval(() => {
     try {
-      const polySnapshots = polyHub.getSnapshots();
-      const kalshiSnapshots = kalshiHub.getSnapshots();
-      for (const coin of resolvedCoins) {
-        const polySnap = polySnapshots.get(coin);
-        if (polySnap) {
-          const upTokenId = polySnap.upTokenId;
-          const bid = upTokenId ? polySnap.bestBid.get(upTokenId) ?? null : null;
-          const ask = upTokenId ? polySnap.bestAsk.get(upTokenId) ?? null : null;
-          const mid = computeOddsMid(bid ?? null, ask ?? null);
-          if (mid != null) {
-            const arr = polyOddsHistoryByCoin.get(coin);
-            if (arr) {
-              arr.push(mid);
-              if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
+      const snapshots = collectSnapshots();
+      for (const hubs of horizonHubs) {
+        const polySnapshots = snapshots.poly.get(hubs.horizon) ?? new Map();
+        const kalshiSnapshots = snapshots.kalshi.get(hubs.horizon) ?? new Map();
+        const { polyOddsHistoryByCoin, kalshiOddsHistoryByCoin } = hubs;
+        for (const coin of hubs.coins) {
+          const polySnap = polySnapshots.get(coin);
+          if (polySnap) {
+            const upTokenId = polySnap.upTokenId;
+            const bid = upTokenId ? polySnap.bestBid.get(upTokenId) ?? null : null;
+            const ask = upTokenId ? polySnap.bestAsk.get(upTokenId) ?? null : null;
+            const mid = computeOddsMid(bid ?? null, ask ?? null);
+            if (mid != null) {
+              const arr = polyOddsHistoryByCoin.get(coin);
+              if (arr) {
+                arr.push(mid);
+                if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
+              }
             }
           }
-        }
 
-        const kalshiSnap = kalshiSnapshots.get(coin);
-        if (kalshiSnap) {
-          const arr = kalshiOddsHistoryByCoin.get(coin);
-          if (arr) {
-            if (
-              arr.length === 0 &&
-              kalshiSnap.kalshiMarketPriceHistory &&
-              kalshiSnap.kalshiMarketPriceHistory.length > 0
-            ) {
-              arr.push(
-                ...kalshiSnap.kalshiMarketPriceHistory.slice(-ODDS_HISTORY_LIMIT),
-              );
-            }
-            const odds =
-              kalshiSnap.kalshiMarketPrice ?? kalshiSnap.kalshiLastPrice ?? null;
-            if (odds != null) {
-              const last = arr[arr.length - 1];
-              if (last !== odds) {
-                arr.push(odds);
-                if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
+          const kalshiSnap = kalshiSnapshots.get(coin);
+          if (kalshiSnap) {
+            const arr = kalshiOddsHistoryByCoin.get(coin);
+            if (arr) {
+              if (
+                arr.length === 0 &&
+                kalshiSnap.kalshiMarketPriceHistory &&
+                kalshiSnap.kalshiMarketPriceHistory.length > 0
+              ) {
+                arr.push(
+                  ...kalshiSnap.kalshiMarketPriceHistory.slice(-ODDS_HISTORY_LIMIT),
+                );
+              }
+              const odds =
+                kalshiSnap.kalshiMarketPrice ?? kalshiSnap.kalshiLastPrice ?? null;
+              if (odds != null) {
+                const last = arr[arr.length - 1];
+                if (last !== odds) {
+                  arr.push(odds);
+                  if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
+                }
               }
             }
           }
@@ -679,19 +974,31 @@ export async function fakeTradeRouteWithOptions(
         activeProfile.markets[0]?.coin ??
         resolvedCoins[0] ??
         null;
+      const coinHorizons =
+        coinHorizonsByProfile.get(activeProfileName) ?? new Map<CoinSymbol, MarketHorizon>();
+      const historyByHorizon = (
+        pick: (hubs: HorizonHubs) => Map<CoinSymbol, number[]>,
+      ) => new Map(horizonHubs.map((hubs) => [hubs.horizon, pick(hubs)]));
 
       dashboard.update({
         runId,
-        modeLabel: "Arbitrage Bot (paper)",
+        modeLabel: `Arbitrage Bot (${executionMode})`,
         activeProfileIndex,
         profiles: profileViews,
         coins: profileCoins,
         activeCoinIndex: safeIndex,
         activeCoin,
-        polySnapshots,
-        kalshiSnapshots,
-        polyOddsHistoryByCoin,
-        kalshiOddsHistoryByCoin,
+        polySnapshots: mergeByHorizon(snapshots.poly, coinHorizons),
+        kalshiSnapshots: mergeByHorizon(snapshots.kalshi, coinHorizons),
+        polyOddsHistoryByCoin: mergeByHorizon(
+          historyByHorizon((hubs) => hubs.polyOddsHistoryByCoin),
+          coinHorizons,
+        ),
+        kalshiOddsHistoryByCoin: mergeByHorizon(
+          historyByHorizon((hubs) => hubs.kalshiOddsHistoryByCoin),
+          coinHorizons,
+        ),
+        risk: risk.getState(),
       });
     } catch (error) {
       const message =
@@ -700,12 +1007,20 @@ export async function fakeTradeRouteWithOptions(
     }
   }, 250);
 
-  process.on("SIGINT", () => {
-    clearInterval(evalTimer);
+  // Docker stops containers with SIGTERM; both signals leave a final checkpoint.
+  const shutdown = () => {
+    scheduler.stop();
+    stopEngineFeed();
+    stopEventLog();
+    clearInterval(busStatsTimer);
     clearInterval(renderTimer);
+    if (checkpointTimer) clearInterval(checkpointTimer);
+    saveCheckpoint();
+    configWatcher?.close();
     cleanupNavigation();
-    polyHub.stop();
-    kalshiHub.stop();
+    stopHubs();
     process.exit(0);
-  });
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
 }
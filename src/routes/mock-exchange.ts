@@ -0,0 +1,47 @@
+import { startMockExchange } from "../execution/mock-exchange";
+
+export interface MockExchangeRouteOptions {
+  port?: number;
+}
+
+function parseEnvNumber(
+  name: string,
+  defaultValue: number,
+  minValue: number,
+): number {
+  const raw = process.env[name];
+  if (!raw) return defaultValue;
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed)) return defaultValue;
+  return Math.max(minValue, parsed);
+}
+
+export async function mockExchangeRoute(
+  options: MockExchangeRouteOptions = {},
+): Promise<void> {
+  const port = options.port ?? Math.floor(parseEnvNumber("MOCK_EXCHANGE_PORT", 8787, 0));
+  const exchange = startMockExchange({
+    port,
+    fillRatio: {
+      polymarket: parseEnvNumber("MOCK_EXCHANGE_POLY_FILL_RATIO", 1, 0),
+      kalshi: parseEnvNumber("MOCK_EXCHANGE_KALSHI_FILL_RATIO", 1, 0),
+    },
+    onOrder: (order) => {
+      console.log(
+        `[mock-exchange] ${order.venue} order ${order.orderId} filled=${order.filledShares} body=${JSON.stringify(order.body)}`,
+      );
+    },
+  });
+
+  console.log(`Mock exchange listening on ${exchange.url}`);
+  console.log("Point the bot at it with:");
+  console.log(`  POLYMARKET_CLOB_API_BASE=${exchange.url}`);
+  console.log(`  KALSHI_BASE_URL=${exchange.kalshiBaseUrl}`);
+  console.log("Press Ctrl+C to stop.");
+
+  process.on("SIGINT", () => {
+    exchange.stop();
+    console.log(`Mock exchange stopped orders=${exchange.orders.length}`);
+    process.exit(0);
+  });
+}
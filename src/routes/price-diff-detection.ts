@@ -8,7 +8,10 @@ import { join } from "path";
 import type { CoinSymbol } from "../services/auto-market";
 import { MarketDataHub, type MarketSnapshot } from "../services/market-data-hub";
 import { KalshiMarketDataHub } from "../services/kalshi-market-data-hub";
+import { MarketEventBus } from "../services/market-event-bus";
+import { EvalScheduler } from "../services/eval-scheduler";
 import { RunLogger } from "../services/run-logger";
+import { resolveSeed, SeededRng, writeSeedFile } from "../services/rng";
 import { loadProviderConfig, normalizeCoinKey } from "../services/profile-config";
 import { getKalshiEnvConfig } from "../clients/kalshi/kalshi-config";
 import { computeOddsMid } from "../services/cross-platform-compare";
@@ -16,14 +19,21 @@ import { PriceDiffDashboard } from "../cli/price-diff-dashboard";
 import { promptConfirm, promptText, selectMany } from "../cli/prompts";
 import { setupCoinNavigation } from "../cli/coin-navigation";
 import {
+  buildFillEstimate,
   computeFillEstimate,
   randomDelayMs,
   resolveAsks,
   type FillEstimate,
 } from "../services/arbitrage-fill";
+import { loadFeeModels } from "../services/fee-model";
+import { JOURNAL_FILE, TradeJournal } from "../services/trade-journal";
 
 const ODDS_HISTORY_LIMIT = 180;
+// Best-ask flags have no fill size; fees are estimated for this many shares.
+const FEE_REFERENCE_SHARES = 100;
 const RENDER_INTERVAL_MS = 300;
+// Safety tick for stale-data checks and summaries when no updates arrive.
+const EVAL_FALLBACK_MS = parseEnvNumber("PRICE_DIFF_EVAL_FALLBACK_MS", 1_000, 100);
 const FLAG_LOG_INTERVAL_MS = parseEnvNumber(
   "PRICE_DIFF_LOG_INTERVAL_MS",
   10_000,
@@ -116,6 +126,8 @@ export interface PriceDiffDetectionRouteOptions {
   headlessSummary?: boolean;
   realisticFill?: boolean;
   fillUsd?: number;
+  /** Seed for the simulated confirm delays; see `resolveSeed`. */
+  seed?: number;
 }
 
 interface FillConfirm extends FillEstimate {
@@ -168,6 +180,7 @@ export async function priceDiffDetectionRoute(
 ): Promise<void> {
   const polyConfig = loadProviderConfig("polymarket");
   const kalshiConfigResult = loadProviderConfig("kalshi");
+  const fees = loadFeeModels();
   const summaryOnly = options.headlessSummary === true;
   const headless = options.headless || summaryOnly;
   const availableCoins = polyConfig.coinOptions.filter((c) =>
@@ -277,12 +290,25 @@ export async function priceDiffDetectionRoute(
     mkdirSync(logsRoot, { recursive: true });
   }
   const { runDir, runId } = getNextRunDir(logsRoot);
+  const seed = resolveSeed(options.seed);
+  writeSeedFile(runDir, seed);
+  const confirmRng = new SeededRng(seed).fork("confirm");
   const systemLogger = new RunLogger(join(runDir, "system.log"), 200, {
     stdout: summaryOnly,
   });
   const debugLogger = summaryOnly
     ? new RunLogger(join(runDir, "debug.log"))
     : systemLogger;
+  const journal = new TradeJournal(join(runDir, JOURNAL_FILE));
+  const journalBase = (coin: CoinSymbol, market: string) => ({
+    ts: Date.now(),
+    source: "price-diff" as const,
+    engine: "price-diff",
+    coin,
+    market,
+  });
+  const labelDirection = (label: string): "upNo" | "downYes" =>
+    label === "PolyUp_vs_KalshiNo" ? "upNo" : "downYes";
 
   const recentLogsByCoin = new Map<CoinSymbol, string[]>();
   const pushRecentLog = (message: string, coin?: CoinSymbol): void => {
@@ -394,8 +420,10 @@ export async function priceDiffDetectionRoute(
     }
   }
 
+  const bus = new MarketEventBus(systemLogger);
   const polyHub = new MarketDataHub(debugLogger, {
     requireCryptoPrice: false,
+    bus,
   });
   const kalshiHub = new KalshiMarketDataHub(
     debugLogger,
@@ -403,6 +431,7 @@ export async function priceDiffDetectionRoute(
     kalshiSelectors,
     {
       requireCryptoPrice: false,
+      bus,
     },
   );
 
@@ -425,6 +454,7 @@ export async function priceDiffDetectionRoute(
     coin: CoinSymbol,
     label: string,
     gap: number,
+    netGap: number,
     cost: number,
     polyAsk: number | null,
     kalshiAsk: number | null,
@@ -440,18 +470,28 @@ export async function priceDiffDetectionRoute(
             : "equal"
         : "n/a";
     systemLogger.log(
-      `PRICE_DIFF ${coin.toUpperCase()} ${label} gap=${gap.toFixed(4)} cost=${cost.toFixed(4)} threshold=${threshold.toFixed(4)} polyAsk=${formatMaybe(
+      `PRICE_DIFF ${coin.toUpperCase()} ${label} gap=${gap.toFixed(4)} netGap=${netGap.toFixed(4)} cost=${cost.toFixed(4)} threshold=${threshold.toFixed(4)} polyAsk=${formatMaybe(
         polyAsk,
         4,
       )} kalshiAsk=${formatMaybe(kalshiAsk, 4)} cheaper=${cheaper} poly=${polySlug} kalshi=${kalshiSlug}`,
     );
     pushRecentLog(
-      `PRICE_DIFF ${coin.toUpperCase()} ${label} gap=${gap.toFixed(4)} cost=${cost.toFixed(4)} threshold=${threshold.toFixed(4)} polyAsk=${formatMaybe(
+      `PRICE_DIFF ${coin.toUpperCase()} ${label} gap=${gap.toFixed(4)} netGap=${netGap.toFixed(4)} cost=${cost.toFixed(4)} threshold=${threshold.toFixed(4)} polyAsk=${formatMaybe(
         polyAsk,
         4,
       )} kalshiAsk=${formatMaybe(kalshiAsk, 4)} cheaper=${cheaper}`,
       coin,
     );
+    journal.record({
+      ...journalBase(coin, `${polySlug}|${kalshiSlug}`),
+      type: "candidate",
+      direction: labelDirection(label),
+      gap,
+      netGap,
+      shares: null,
+      cost,
+      details: { polyAsk, kalshiAsk, threshold },
+    });
   };
 
   const logRealisticCandidate = (
@@ -465,6 +505,8 @@ export async function priceDiffDetectionRoute(
       4,
     )} avgKalshi=${estimate.avgKalshi.toFixed(4)} gap=${estimate.gap.toFixed(
       4,
+    )} netGap=${estimate.netGap.toFixed(4)} fees=${estimate.totalFees.toFixed(
+      2,
     )} cost=${estimate.totalCost.toFixed(2)} budget=${(fillUsd ?? 0).toFixed(
       2,
     )} poly=${polySlug} kalshi=${kalshiSlug}`;
@@ -476,9 +518,24 @@ export async function priceDiffDetectionRoute(
     pushRecentLog(
       `REALISTIC_FILL_CANDIDATE ${coin.toUpperCase()} ${label} shares=${estimate.shares} gap=${estimate.gap.toFixed(
         4,
-      )} cost=${estimate.totalCost.toFixed(2)}`,
+      )} net=${estimate.netGap.toFixed(4)} cost=${estimate.totalCost.toFixed(2)}`,
       coin,
     );
+    journal.record({
+      ...journalBase(coin, `${polySlug}|${kalshiSlug}`),
+      type: "candidate",
+      direction: labelDirection(label),
+      gap: estimate.gap,
+      netGap: estimate.netGap,
+      shares: estimate.shares,
+      cost: estimate.totalCost,
+      details: {
+        avgPoly: estimate.avgPoly,
+        avgKalshi: estimate.avgKalshi,
+        fees: estimate.totalFees,
+        budget: fillUsd ?? null,
+      },
+    });
   };
 
   const logRealisticConfirm = (
@@ -523,7 +580,9 @@ export async function priceDiffDetectionRoute(
       4,
     )} avgKalshi=${confirm.avgKalshi.toFixed(4)} gap=${confirm.gap.toFixed(
       4,
-    )} origGap=${originalGap.toFixed(4)} slippage=${slippageLabel} cost=${confirm.totalCost.toFixed(
+    )} netGap=${confirm.netGap.toFixed(4)} origGap=${originalGap.toFixed(
+      4,
+    )} slippage=${slippageLabel} fees=${confirm.totalFees.toFixed(2)} cost=${confirm.totalCost.toFixed(
       2,
     )} delayMs=${confirm.delayMs} fill=${fillSource} poly=${polySlug} kalshi=${kalshiSlug}`;
     systemLogger.log(message);
@@ -548,7 +607,7 @@ export async function priceDiffDetectionRoute(
     const polyAsks = resolveAsks(polySnap, polyTokenId);
     const kalshiAsks = resolveAsks(kalshiSnap, kalshiTokenId);
     if (polyAsks.length === 0 || kalshiAsks.length === 0) return null;
-    return computeFillEstimate(polyAsks, kalshiAsks, fillUsd);
+    return computeFillEstimate(polyAsks, kalshiAsks, fillUsd, fees);
   };
 
   const scheduleRealisticConfirm = (
@@ -559,9 +618,20 @@ export async function priceDiffDetectionRoute(
   ): void => {
     const pending = pendingConfirmByCoin.get(coin);
     if (!pending) return;
-    const delayMs = randomDelayMs(EXEC_DELAY_MIN_MS, EXEC_DELAY_MAX_MS);
+    const delayMs = randomDelayMs(EXEC_DELAY_MIN_MS, EXEC_DELAY_MAX_MS, confirmRng);
     const committedAtMs = Date.now();
     const originalGap = candidate.gap;
+    const originalNetGap = candidate.netGap;
+    const orderId = `${coin}-${committedAtMs}`;
+    journal.record({
+      ...journalBase(coin, marketKey),
+      type: "order",
+      orderId,
+      direction,
+      shares: candidate.shares,
+      cost: candidate.totalCost,
+      delayMs,
+    });
 
     const timer = setTimeout(() => {
       const polySnap = polyHub.getSnapshots().get(coin);
@@ -623,7 +693,7 @@ export async function priceDiffDetectionRoute(
       const matchedSet = marketMatchedByCoin.get(coin);
       if (counts && marketFlags && matchedSet) {
         // Count if original gap was above threshold (since that's what triggered the trade)
-        if (originalGap >= threshold) {
+        if (originalNetGap >= threshold) {
           if (direction === "upNo" && !marketFlags.upNo.has(marketKey)) {
             marketFlags.upNo.add(marketKey);
             counts.upNoMarkets += 1;
@@ -656,6 +726,41 @@ export async function priceDiffDetectionRoute(
         slug1,
         slug2,
       );
+      const polyOutcome =
+        direction === "upNo"
+          ? polySnap?.upOutcome ?? "Up"
+          : polySnap?.downOutcome ?? "Down";
+      journal.record({
+        ...journalBase(coin, marketKey),
+        type: "fill",
+        orderId,
+        direction,
+        legs: [
+          {
+            venue: "polymarket",
+            side: "buy",
+            outcome: polyOutcome,
+            shares: actualFill.shares,
+            avgPrice: actualFill.avgPoly,
+            cost: actualFill.costPoly,
+            fee: actualFill.feePoly,
+          },
+          {
+            venue: "kalshi",
+            side: "buy",
+            outcome: direction === "upNo" ? "NO" : "YES",
+            shares: actualFill.shares,
+            avgPrice: actualFill.avgKalshi,
+            cost: actualFill.costKalshi,
+            fee: actualFill.feeKalshi,
+          },
+        ],
+        expectedGap: originalGap,
+        gap: actualFill.gap,
+        slippage,
+        realizedPnl: 0,
+        fillSource,
+      });
 
       pending[direction] = undefined;
     }, delayMs);
@@ -670,8 +775,8 @@ export async function priceDiffDetectionRoute(
     };
   };
 
-  const timer = setInterval(() => {
-    const now = Date.now();
+  // Gap detection runs on every book change; rendering stays on its own timer.
+  const evaluate = (now: number) => {
     try {
       const polySnapshots = polyHub.getSnapshots();
       const kalshiSnapshots = kalshiHub.getSnapshots();
@@ -680,42 +785,6 @@ export async function priceDiffDetectionRoute(
         const polySnap = polySnapshots.get(coin);
         const kalshiSnap = kalshiSnapshots.get(coin);
 
-        if (polySnap) {
-          const upTokenId = polySnap.upTokenId;
-          const bid = upTokenId ? polySnap.bestBid.get(upTokenId) ?? null : null;
-          const ask = upTokenId ? polySnap.bestAsk.get(upTokenId) ?? null : null;
-          const mid = computeOddsMid(bid ?? null, ask ?? null);
-          if (mid != null) {
-            const arr = polyOddsHistoryByCoin.get(coin)!;
-            arr.push(mid);
-            if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
-          }
-        }
-
-        if (kalshiSnap) {
-          const arr = kalshiOddsHistoryByCoin.get(coin)!;
-          if (
-            arr.length === 0 &&
-            kalshiSnap.kalshiMarketPriceHistory &&
-            kalshiSnap.kalshiMarketPriceHistory.length > 0
-          ) {
-            arr.push(
-              ...kalshiSnap.kalshiMarketPriceHistory.slice(-ODDS_HISTORY_LIMIT),
-            );
-          }
-          const odds =
-            kalshiSnap.kalshiMarketPrice ??
-            kalshiSnap.kalshiLastPrice ??
-            null;
-          if (odds != null) {
-            const last = arr[arr.length - 1];
-            if (last !== odds) {
-              arr.push(odds);
-              if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
-            }
-          }
-        }
-
         const staleReasons: string[] = [];
         if (!polySnap) staleReasons.push("poly_missing");
         if (!kalshiSnap) staleReasons.push("kalshi_missing");
@@ -809,10 +878,29 @@ export async function priceDiffDetectionRoute(
         const gapPolyDownKalshiYes =
           costPolyDownKalshiYes != null ? 1 - costPolyDownKalshiYes : null;
 
+        const netGapPolyUpKalshiNo =
+          polyUpAsk != null && kalshiNoAsk != null
+            ? buildFillEstimate(
+                FEE_REFERENCE_SHARES,
+                FEE_REFERENCE_SHARES * polyUpAsk,
+                FEE_REFERENCE_SHARES * kalshiNoAsk,
+                fees,
+              ).netGap
+            : null;
+        const netGapPolyDownKalshiYes =
+          polyDownAsk != null && kalshiYesAsk != null
+            ? buildFillEstimate(
+                FEE_REFERENCE_SHARES,
+                FEE_REFERENCE_SHARES * polyDownAsk,
+                FEE_REFERENCE_SHARES * kalshiYesAsk,
+                fees,
+              ).netGap
+            : null;
+
         const abovePolyUpKalshiNo =
-          gapPolyUpKalshiNo != null && gapPolyUpKalshiNo >= threshold;
+          netGapPolyUpKalshiNo != null && netGapPolyUpKalshiNo >= threshold;
         const abovePolyDownKalshiYes =
-          gapPolyDownKalshiYes != null && gapPolyDownKalshiYes >= threshold;
+          netGapPolyDownKalshiYes != null && netGapPolyDownKalshiYes >= threshold;
 
         const realisticUpNo = computeRealisticEstimate(
           polySnap,
@@ -887,6 +975,7 @@ export async function priceDiffDetectionRoute(
                 coin,
                 "PolyUp_vs_KalshiNo",
                 gapPolyUpKalshiNo,
+                netGapPolyUpKalshiNo ?? gapPolyUpKalshiNo,
                 costPolyUpKalshiNo,
                 polyUpAsk,
                 kalshiNoAsk,
@@ -912,6 +1001,7 @@ export async function priceDiffDetectionRoute(
                 coin,
                 "PolyDown_vs_KalshiYes",
                 gapPolyDownKalshiYes,
+                netGapPolyDownKalshiYes ?? gapPolyDownKalshiYes,
                 costPolyDownKalshiYes,
                 polyDownAsk,
                 kalshiYesAsk,
@@ -932,7 +1022,7 @@ export async function priceDiffDetectionRoute(
 
           if (
             realisticUpNo &&
-            realisticUpNo.gap >= threshold &&
+            realisticUpNo.netGap >= threshold &&
             !pending.upNo &&
             now - confirmState.lastConfirmUpNoMs >= FLAG_LOG_INTERVAL_MS
           ) {
@@ -948,7 +1038,7 @@ export async function priceDiffDetectionRoute(
 
           if (
             realisticDownYes &&
-            realisticDownYes.gap >= threshold &&
+            realisticDownYes.netGap >= threshold &&
             !pending.downYes &&
             now - confirmState.lastConfirmDownYesMs >= FLAG_LOG_INTERVAL_MS
           ) {
@@ -993,6 +1083,69 @@ export async function priceDiffDetectionRoute(
         }
         lastSummaryLogMs = now;
       }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      systemLogger.log(`PRICE_DIFF_LOOP_ERROR ${message}`, "ERROR");
+      pushRecentLog(`PRICE_DIFF_LOOP_ERROR ${message}`);
+    }
+  };
+
+  const scheduler = new EvalScheduler({
+    evaluate,
+    // Realistic confirms run on their own timers.
+    nextPendingTime: () => null,
+    fallbackMs: EVAL_FALLBACK_MS,
+  });
+  const stopDetectionFeed = bus.subscribe("price-diff", () => scheduler.trigger(), {
+    types: ["book", "market-rotated", "data-status"],
+    coins,
+  });
+  scheduler.start();
+
+  const renderTimer = setInterval(() => {
+    try {
+      const polySnapshots = polyHub.getSnapshots();
+      const kalshiSnapshots = kalshiHub.getSnapshots();
+      for (const coin of coins) {
+        const polySnap = polySnapshots.get(coin);
+        const kalshiSnap = kalshiSnapshots.get(coin);
+
+        if (polySnap) {
+          const upTokenId = polySnap.upTokenId;
+          const bid = upTokenId ? polySnap.bestBid.get(upTokenId) ?? null : null;
+          const ask = upTokenId ? polySnap.bestAsk.get(upTokenId) ?? null : null;
+          const mid = computeOddsMid(bid ?? null, ask ?? null);
+          if (mid != null) {
+            const arr = polyOddsHistoryByCoin.get(coin)!;
+            arr.push(mid);
+            if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
+          }
+        }
+
+        if (kalshiSnap) {
+          const arr = kalshiOddsHistoryByCoin.get(coin)!;
+          if (
+            arr.length === 0 &&
+            kalshiSnap.kalshiMarketPriceHistory &&
+            kalshiSnap.kalshiMarketPriceHistory.length > 0
+          ) {
+            arr.push(
+              ...kalshiSnap.kalshiMarketPriceHistory.slice(-ODDS_HISTORY_LIMIT),
+            );
+          }
+          const odds =
+            kalshiSnap.kalshiMarketPrice ??
+            kalshiSnap.kalshiLastPrice ??
+            null;
+          if (odds != null) {
+            const last = arr[arr.length - 1];
+            if (last !== odds) {
+              arr.push(odds);
+              if (arr.length > ODDS_HISTORY_LIMIT) arr.shift();
+            }
+          }
+        }
+      }
 
       if (dashboard) {
         const activeCoin =
@@ -1023,7 +1176,9 @@ export async function priceDiffDetectionRoute(
   }, RENDER_INTERVAL_MS);
 
   process.on("SIGINT", () => {
-    clearInterval(timer);
+    scheduler.stop();
+    stopDetectionFeed();
+    clearInterval(renderTimer);
     cleanupNavigation();
     polyHub.stop();
     kalshiHub.stop();
@@ -0,0 +1,205 @@
+import { existsSync } from "fs";
+import { join } from "path";
+import { MarketDataHub } from "../services/market-data-hub";
+import { KalshiMarketDataHub } from "../services/kalshi-market-data-hub";
+import {
+  MARKET_EVENTS_FILE,
+  MarketEventBus,
+  recordMarketEvents,
+} from "../services/market-event-bus";
+import { RunLogger } from "../services/run-logger";
+import { loadProviderConfig, normalizeCoinKey } from "../services/profile-config";
+import { getKalshiEnvConfig } from "../clients/kalshi/kalshi-config";
+import { KalshiClient } from "../clients/kalshi/kalshi-client";
+import {
+  fetchKalshiOfficialOutcome,
+  fetchPolymarketOfficialOutcome,
+} from "../services/outcome-resolution";
+import type { CoinSymbol } from "../services/auto-market";
+import { MarketRecorder } from "../backtest/market-recorder";
+import { selectMany } from "../cli/prompts";
+
+export interface RecordRouteOptions {
+  coins?: string[];
+  dataDir?: string;
+}
+
+function parseEnvNumber(
+  name: string,
+  defaultValue: number,
+  minValue: number,
+): number {
+  const raw = process.env[name];
+  if (!raw) return defaultValue;
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed)) return defaultValue;
+  return Math.max(minValue, parsed);
+}
+
+function getNextRunDir(): { runDir: string; runId: string } {
+  const logsDir = join(process.cwd(), "logs");
+  let index = 1;
+
+  while (true) {
+    const name = index === 1 ? "record-run" : `record-run${index}`;
+    const candidate = join(logsDir, name);
+    if (!existsSync(candidate)) {
+      return { runDir: candidate, runId: name };
+    }
+    index += 1;
+  }
+}
+
+async function resolveCoins(
+  options: RecordRouteOptions,
+  coinOptions: CoinSymbol[],
+): Promise<CoinSymbol[]> {
+  if (options.coins && options.coins.length > 0) {
+    const normalized = options.coins.map((coin) => coin.toLowerCase().trim());
+    if (normalized.includes("all")) return coinOptions;
+    return normalized
+      .map((coin) => normalizeCoinKey(coin))
+      .filter((coin): coin is CoinSymbol => !!coin && coinOptions.includes(coin));
+  }
+  if (!process.stdin.isTTY) return coinOptions;
+  const picked = await selectMany(
+    "Select coins to record",
+    coinOptions.map((coin) => ({
+      title: coin.toUpperCase(),
+      value: coin.toUpperCase(),
+    })),
+  );
+  return picked
+    .map((coin) => normalizeCoinKey(coin))
+    .filter((coin): coin is CoinSymbol => !!coin);
+}
+
+export async function recordRoute(options: RecordRouteOptions = {}): Promise<void> {
+  let polyCoins: CoinSymbol[];
+  try {
+    polyCoins = loadProviderConfig("polymarket").coinOptions;
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Failed to load config.json.";
+    console.log(message);
+    return;
+  }
+
+  const coins = await resolveCoins(options, polyCoins);
+  if (coins.length === 0) {
+    console.log("No coins selected. Use --coins.");
+    return;
+  }
+
+  const outputDir =
+    options.dataDir ?? join(process.cwd(), "backtest-data", "recorded");
+  const { runDir, runId } = getNextRunDir();
+  const systemLogger = new RunLogger(join(runDir, "system.log"), 200, {
+    stdout: true,
+  });
+  const dataLogger = new RunLogger(join(runDir, "data.log"));
+  // Raw frames reach the recorder through the taps; the bus keeps the
+  // selection and data-status history next to the logs.
+  const bus = new MarketEventBus(systemLogger);
+  recordMarketEvents(bus, join(runDir, MARKET_EVENTS_FILE));
+
+  let kalshiHub: KalshiMarketDataHub | null = null;
+  let polyHub: MarketDataHub | null = null;
+  let kalshiOutcomeClient: KalshiClient | null = null;
+  const recorder = new MarketRecorder(outputDir, {
+    coins,
+    sources: {
+      polymarket: () => polyHub?.getSnapshots() ?? new Map(),
+      kalshi: () => kalshiHub?.getSnapshots() ?? new Map(),
+    },
+    flushBytes: parseEnvNumber("RECORD_FLUSH_BYTES", 1 << 20, 4096),
+    cryptoSegmentMs:
+      parseEnvNumber("RECORD_CRYPTO_SEGMENT_MIN", 60, 1) * 60 * 1000,
+    closeGraceMs: parseEnvNumber("RECORD_CLOSE_GRACE_MS", 60000, 0),
+    resolveOutcome: async (venue, meta) => {
+      const official =
+        venue === "kalshi"
+          ? kalshiOutcomeClient
+            ? await fetchKalshiOfficialOutcome(
+                kalshiOutcomeClient,
+                meta.marketTicker ?? meta.slug,
+              )
+            : null
+          : await fetchPolymarketOfficialOutcome(meta.slug);
+      const outcome = official?.outcome;
+      return outcome === "UP" || outcome === "DOWN" ? outcome : null;
+    },
+    outcomeRetryMs: parseEnvNumber("RECORD_OUTCOME_RETRY_MS", 60000, 1000),
+  });
+
+  polyHub = new MarketDataHub(dataLogger, {
+    requireCryptoPrice: false,
+    onMarketEvent: (event) => recorder.recordPolymarketEvent(event),
+    onCryptoPrice: (payload) => recorder.recordCryptoPrice(payload),
+    bus,
+  });
+
+  let kalshiCoins: CoinSymbol[] = [];
+  try {
+    const kalshiConfig = loadProviderConfig("kalshi");
+    const kalshiEnvConfig = getKalshiEnvConfig(process.env);
+    if (kalshiConfig.kalshiSelectorsByCoin) {
+      kalshiCoins = coins.filter((coin) => kalshiConfig.coinOptions.includes(coin));
+      kalshiOutcomeClient = new KalshiClient(kalshiEnvConfig);
+      kalshiHub = new KalshiMarketDataHub(
+        dataLogger,
+        kalshiEnvConfig,
+        kalshiConfig.kalshiSelectorsByCoin,
+        {
+          requireCryptoPrice: false,
+          onOrderbook: (update) => recorder.recordKalshiOrderbook(update),
+          onTrade: (update) => recorder.recordKalshiTrade(update),
+          bus,
+        },
+      );
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    systemLogger.log(`Kalshi unavailable, recording Polymarket only: ${message}`, "WARN");
+  }
+
+  systemLogger.log(
+    `Recorder ${runId} starting (${coins.join(", ")}) -> ${outputDir}`,
+  );
+  await polyHub.start(coins);
+  if (kalshiHub && kalshiCoins.length > 0) {
+    await kalshiHub.start(kalshiCoins);
+  }
+
+  const flushIntervalMs = parseEnvNumber("RECORD_FLUSH_MS", 5000, 250);
+  const statsIntervalMs = parseEnvNumber("RECORD_STATS_MS", 60000, 1000);
+  let lastStatsMs = Date.now();
+  const timer = setInterval(() => {
+    try {
+      recorder.flush();
+      const now = Date.now();
+      if (now - lastStatsMs >= statsIntervalMs) {
+        lastStatsMs = now;
+        const stats = recorder.getStats();
+        systemLogger.log(
+          `Recorded markets=${stats.markets} books=${stats.bookEvents} trades=${stats.trades} ticks=${stats.cryptoTicks} outcomes=${stats.outcomes} openFiles=${stats.openFiles}`,
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      systemLogger.log(`RECORD_FLUSH_ERROR ${message}`, "ERROR");
+    }
+  }, flushIntervalMs);
+
+  process.on("SIGINT", () => {
+    clearInterval(timer);
+    polyHub?.stop();
+    kalshiHub?.stop();
+    recorder.close();
+    const stats = recorder.getStats();
+    systemLogger.log(
+      `Recorder stopped markets=${stats.markets} books=${stats.bookEvents} trades=${stats.trades} ticks=${stats.cryptoTicks}`,
+    );
+    process.exit(0);
+  });
+}
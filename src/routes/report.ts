@@ -0,0 +1,73 @@
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { basename, join, resolve } from "path";
+import { readJournal, type JournalEvent } from "../services/trade-journal";
+import {
+  buildRunReport,
+  formatReportHtml,
+  formatReportMarkdown,
+} from "../services/run-report";
+
+export interface ReportRouteOptions {
+  /** Run directory, or a run id under logs/ (e.g. `run3`, `backtest-run2`, `price-diff/run`). */
+  run?: string;
+}
+
+const JOURNAL_PATTERN = /^journal.*\.jsonl$/;
+
+function resolveRunDir(run: string): string | null {
+  const candidates = [resolve(run), join(process.cwd(), "logs", run)];
+  for (const candidate of candidates) {
+    if (existsSync(candidate) && statSync(candidate).isDirectory()) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Writes report.md and report.html into a finished (or running) run
+ * directory from its journal files and mismatch.log.
+ */
+export async function reportRoute(options: ReportRouteOptions = {}): Promise<void> {
+  if (!options.run) {
+    console.log("Pass the run to report on with --run <runDir|runId>.");
+    process.exitCode = 1;
+    return;
+  }
+  const runDir = resolveRunDir(options.run);
+  if (!runDir) {
+    console.log(`Run ${options.run} not found (looked in . and logs/).`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const journalFiles = readdirSync(runDir)
+    .filter((name) => JOURNAL_PATTERN.test(name))
+    .sort();
+  if (journalFiles.length === 0) {
+    console.log(`No journal*.jsonl in ${runDir}; runs from before the trade journal cannot be reported.`);
+    process.exitCode = 1;
+    return;
+  }
+  const events: JournalEvent[] = [];
+  for (const name of journalFiles) {
+    events.push(...readJournal(join(runDir, name)));
+  }
+  const mismatchPath = join(runDir, "mismatch.log");
+  const mismatchLines = existsSync(mismatchPath)
+    ? readFileSync(mismatchPath, "utf8").split("\n")
+    : [];
+
+  const report = buildRunReport(events, mismatchLines);
+  const title = `Run report: ${basename(runDir)}`;
+  const markdownPath = join(runDir, "report.md");
+  const htmlPath = join(runDir, "report.html");
+  writeFileSync(markdownPath, formatReportMarkdown(report, title), "utf8");
+  writeFileSync(htmlPath, formatReportHtml(report, title), "utf8");
+
+  console.log(`${title} (${events.length} events from ${journalFiles.join(", ")})`);
+  for (const profile of report.profiles) {
+    console.log(
+      `${profile.engine} trades=${profile.trades} pnl=${profile.totalPnl.toFixed(2)} maxDrawdown=${profile.maxDrawdown.toFixed(2)}`,
+    );
+  }
+  console.log(`Report written to ${markdownPath} and ${htmlPath}`);
+}
@@ -0,0 +1,781 @@
+import { existsSync, writeFileSync } from "fs";
+import { join } from "path";
+import { KalshiClient } from "../clients/kalshi/kalshi-client";
+import { getKalshiEnvConfig } from "../clients/kalshi/kalshi-config";
+import { BacktestHub } from "../backtest/backtest-hub";
+import { writeJsonlLines } from "../backtest/jsonl";
+import { resolveJsonlSource } from "../backtest/jsonl-stream";
+import { StrategyBacktestRunner } from "../backtest/strategy-backtest-runner";
+import { loadSweepSpec } from "../backtest/sweep-grid";
+import { formatSweepTable } from "../backtest/sweep-runner";
+import { createExecutionAdapter } from "../execution/execution-adapter";
+import type { ExecutionAdapter, ExecutionMode } from "../execution/types";
+import {
+  DEFAULT_MARKET_HORIZON,
+  type CoinSymbol,
+  type MarketHorizon,
+} from "../services/auto-market";
+import { ConfigWatcher, diffConfigValues } from "../services/config-reload";
+import {
+  CHECKPOINT_VERSION,
+  findCheckpointRun,
+  LATEST_RUN,
+  readCheckpoint,
+  writeCheckpoint,
+  type RunCheckpoint,
+} from "../services/engine-checkpoint";
+import type { NormalizedOutcome } from "../services/cross-platform-compare";
+import { EvalScheduler } from "../services/eval-scheduler";
+import { parseFeeModels, type VenueFeeModels } from "../services/fee-model";
+import { KalshiMarketDataHub } from "../services/kalshi-market-data-hub";
+import { MarketDataHub, type MarketSnapshot } from "../services/market-data-hub";
+import {
+  formatBusStats,
+  MARKET_EVENTS_FILE,
+  MarketEventBus,
+  recordMarketEvents,
+} from "../services/market-event-bus";
+import {
+  defaultKalshiSelection,
+  normalizeCoinKey,
+  parseConfigFile,
+  parseProviderConfig,
+  resolveKalshiSelectorsForHorizon,
+  sanitizeProfileName,
+} from "../services/profile-config";
+import {
+  formatRiskState,
+  parseRiskLimits,
+  RiskManager,
+  type RiskLimits,
+} from "../services/risk-manager";
+import { readSeedFile, resolveSeed, SeededRng, writeSeedFile } from "../services/rng";
+import { RunLogger } from "../services/run-logger";
+import { JOURNAL_FILE, TradeJournal } from "../services/trade-journal";
+import {
+  createStrategy,
+  listStrategyTypes,
+  parseStrategiesConfig,
+  type StrategyInstanceConfig,
+} from "../strategies/registry";
+import type { StrategyContext, StrategyRunMode, StrategySummary } from "../strategies/strategy";
+import { StrategyHost, type HostedStrategy } from "../strategies/strategy-host";
+import {
+  checkStrategySweepPath,
+  expandStrategySweep,
+  rankStrategySweep,
+} from "../strategies/strategy-sweep";
+import { loadVenueData } from "./arbitrage-backtest";
+
+export interface StrategyRouteOptions {
+  /** Names from the `strategies` section; default all. */
+  strategies?: string[];
+  coins?: string[];
+  /** Default paper. */
+  run?: StrategyRunMode;
+  dataDir?: string;
+  startMs?: number;
+  endMs?: number;
+  horizon?: MarketHorizon;
+  /** Sweep grid; paths address the strategy's config entry. Default ./sweep.json. */
+  sweepSpecPath?: string;
+  /** Seed for every random draw in the run; see `resolveSeed`. */
+  seed?: number;
+  /** Order execution for paper runs (default paper); replays always fill as paper. */
+  execution?: ExecutionMode;
+  /** Paper run id under logs/ (or "latest") whose checkpoint to continue from. */
+  resume?: string;
+}
+
+interface ResumedRun {
+  runDir: string;
+  runId: string;
+  checkpoint: RunCheckpoint;
+}
+
+interface SharedInputs {
+  fees: VenueFeeModels;
+  riskLimits: RiskLimits;
+  horizon: MarketHorizon;
+  runDir: string;
+  runId: string;
+  rng: SeededRng;
+  systemLogger: RunLogger;
+}
+
+interface ReplayData {
+  polyHub: BacktestHub;
+  kalshiHub: BacktestHub | null;
+  recordedOutcome: (snapshot: MarketSnapshot) => NormalizedOutcome | null;
+  close: () => void;
+}
+
+function parseEnvNumber(name: string, defaultValue: number, minValue: number): number {
+  const raw = process.env[name];
+  if (!raw) return defaultValue;
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed)) return defaultValue;
+  return Math.max(minValue, parsed);
+}
+
+function parseEnvFlag(name: string, defaultValue: boolean): boolean {
+  const raw = process.env[name];
+  if (!raw) return defaultValue;
+  const normalized = raw.trim().toLowerCase();
+  if (["false", "0", "off", "no"].includes(normalized)) return false;
+  if (["true", "1", "on", "yes"].includes(normalized)) return true;
+  return defaultValue;
+}
+
+function getNextRunDir(run: StrategyRunMode): { runDir: string; runId: string } {
+  const logsDir = join(process.cwd(), "logs");
+  let index = 1;
+
+  while (true) {
+    const base = `strategy-${run}-run`;
+    const name = index === 1 ? base : `${base}${index}`;
+    const candidate = join(logsDir, name);
+    if (!existsSync(candidate)) {
+      return { runDir: candidate, runId: name };
+    }
+    index += 1;
+  }
+}
+
+function formatSummary(name: string, summary: StrategySummary): string {
+  return `${name} summary trades=${summary.totalTrades} wins=${summary.wins} losses=${summary.losses} pnl=${summary.totalProfit.toFixed(
+    2,
+  )} exposure=${summary.openExposure.toFixed(2)} runtime=${summary.runtimeSec.toFixed(1)}s`;
+}
+
+function selectStrategies(
+  instances: StrategyInstanceConfig[],
+  names: string[] | undefined,
+): StrategyInstanceConfig[] {
+  if (!names || names.length === 0) return instances;
+  const byName = new Map(instances.map((instance) => [instance.name.toLowerCase(), instance]));
+  const selected: StrategyInstanceConfig[] = [];
+  for (const name of names) {
+    const match = byName.get(name.trim().toLowerCase());
+    if (match) {
+      selected.push(match);
+    } else {
+      console.log(`Unknown strategy: ${name}`);
+    }
+  }
+  return Array.from(new Set(selected));
+}
+
+/** Coins the strategy trades on the horizon, narrowed to `--coins` when given. */
+function coinsFor(
+  instance: StrategyInstanceConfig,
+  horizon: MarketHorizon,
+  coinFilter: Set<CoinSymbol> | null,
+): CoinSymbol[] {
+  return instance.definition
+    .coins(instance.config, horizon)
+    .filter((coin) => !coinFilter || coinFilter.has(coin));
+}
+
+function usesKalshi(instances: StrategyInstanceConfig[]): boolean {
+  return instances.some((instance) => instance.definition.venues.includes("kalshi"));
+}
+
+function loadReplayData(
+  dataDir: string,
+  coins: CoinSymbol[],
+  startMs: number,
+  endMs: number,
+  horizon: MarketHorizon,
+  withKalshi: boolean,
+  log: RunLogger,
+): ReplayData | null {
+  const polyData = loadVenueData(dataDir, "polymarket", coins, startMs, endMs, horizon);
+  const kalshiData = withKalshi
+    ? loadVenueData(join(dataDir, "kalshi"), "kalshi", coins, startMs, endMs, horizon)
+    : null;
+  if (polyData.marketCount === 0 || (kalshiData && kalshiData.marketCount === 0)) {
+    console.log(
+      `Strategy replay needs recorded markets in ${dataDir} (Polymarket: ${polyData.marketCount}${
+        kalshiData ? `, Kalshi: ${kalshiData.marketCount}` : ""
+      }). Fetch them with --mode backtest or --mode arbitrage-backtest, or record them.`,
+    );
+    return null;
+  }
+
+  const cryptoTickFilesByCoin = new Map<CoinSymbol, string>();
+  for (const coin of coins) {
+    const tickPath = resolveJsonlSource(join(dataDir, "crypto"), coin);
+    if (tickPath) {
+      cryptoTickFilesByCoin.set(coin, tickPath);
+    } else {
+      log.log(`No crypto ticks for ${coin.toUpperCase()}; unrecorded outcomes cannot be computed.`, "WARN");
+    }
+  }
+
+  const latencyMs = parseEnvNumber("BACKTEST_LATENCY_MS", 80, 0);
+  log.log(
+    `Markets - polymarket: ${polyData.marketCount}${kalshiData ? `, kalshi: ${kalshiData.marketCount}` : ""}, latency ${latencyMs}ms`,
+  );
+  const polyHub = new BacktestHub({
+    marketsByCoin: polyData.marketsByCoin,
+    tradeFilesBySlug: polyData.tradeFilesBySlug,
+    bookFilesBySlug: polyData.bookFilesBySlug,
+    cryptoTickFilesByCoin,
+    latencyMs,
+  });
+  const kalshiHub = kalshiData
+    ? new BacktestHub({
+        marketsByCoin: kalshiData.marketsByCoin,
+        tradeFilesBySlug: kalshiData.tradeFilesBySlug,
+        bookFilesBySlug: kalshiData.bookFilesBySlug,
+        cryptoTickFilesByCoin,
+        latencyMs,
+      })
+    : null;
+  const recordedOutcomes = new Map([
+    ...polyData.outcomesBySlug,
+    ...(kalshiData?.outcomesBySlug ?? []),
+  ]);
+  return {
+    polyHub,
+    kalshiHub,
+    recordedOutcome: (snapshot) => recordedOutcomes.get(snapshot.slug) ?? null,
+    close: () => {
+      polyHub.close();
+      kalshiHub?.close();
+    },
+  };
+}
+
+function replayStartMs(data: ReplayData): number {
+  return data.kalshiHub
+    ? Math.min(data.polyHub.getStartTimeMs(), data.kalshiHub.getStartTimeMs())
+    : data.polyHub.getStartTimeMs();
+}
+
+function runReplay(data: ReplayData, host: StrategyHost, log: RunLogger): void {
+  const runner = new StrategyBacktestRunner(data.polyHub, data.kalshiHub, host, {
+    onProgress: (nowMs, endMs) => {
+      log.log(`Progress ${new Date(nowMs).toISOString()} / ${new Date(endMs).toISOString()}`);
+    },
+  });
+  try {
+    runner.run();
+  } finally {
+    data.close();
+    host.close();
+  }
+}
+
+async function runPaper(
+  selected: StrategyInstanceConfig[],
+  coinFilter: Set<CoinSymbol> | null,
+  parsed: Record<string, unknown>,
+  executionMode: ExecutionMode,
+  resumed: ResumedRun | null,
+  shared: SharedInputs,
+): Promise<void> {
+  const { horizon, runDir, runId, systemLogger } = shared;
+  const withKalshi = usesKalshi(selected);
+  const bus = new MarketEventBus(systemLogger);
+  let kalshiHub: KalshiMarketDataHub | null = null;
+  let kalshiClient: KalshiClient | null = null;
+  const coins = Array.from(
+    new Set(selected.flatMap((instance) => coinsFor(instance, horizon, coinFilter))),
+  );
+  if (coins.length === 0) {
+    console.log(`No selected strategy trades ${horizon} markets on the selected coins.`);
+    return;
+  }
+
+  if (withKalshi) {
+    try {
+      const kalshiConfig = getKalshiEnvConfig();
+      const selectors =
+        parseProviderConfig(parsed, "kalshi").kalshiSelectorsByCoin ?? new Map();
+      for (const coin of coins) {
+        if (!selectors.has(coin)) selectors.set(coin, defaultKalshiSelection(coin));
+      }
+      kalshiClient = new KalshiClient(kalshiConfig);
+      kalshiHub = new KalshiMarketDataHub(
+        systemLogger,
+        kalshiConfig,
+        resolveKalshiSelectorsForHorizon(selectors, horizon),
+        { requireCryptoPrice: false, horizon, bus },
+      );
+    } catch (error) {
+      console.log(error instanceof Error ? error.message : "Kalshi config error.");
+      return;
+    }
+  }
+
+  let executor: ExecutionAdapter;
+  try {
+    executor = createExecutionAdapter(
+      executionMode,
+      new RunLogger(join(runDir, "execution.log"), 200, { stdout: true }),
+    );
+  } catch (error) {
+    console.log(error instanceof Error ? error.message : "Execution config error.");
+    return;
+  }
+  if (executionMode !== "paper") {
+    systemLogger.log(
+      `Execution mode ${executionMode}${executionMode === "live" ? ": orders will be sent to the venues" : ""}.`,
+      executionMode === "live" ? "WARN" : "INFO",
+    );
+  }
+
+  const journal = new TradeJournal(join(runDir, JOURNAL_FILE));
+  const risk = new RiskManager(shared.riskLimits, systemLogger);
+  const hosted: HostedStrategy[] = [];
+  // Entry each strategy runs, for diffing hot reloads.
+  const runningEntries = new Map<string, StrategyInstanceConfig>();
+  for (const instance of selected) {
+    const strategyCoins = coinsFor(instance, horizon, coinFilter);
+    if (strategyCoins.length === 0) {
+      systemLogger.log(`Strategy ${instance.name} has no ${horizon} coins selected, skipping.`, "WARN");
+      continue;
+    }
+    runningEntries.set(instance.name, instance);
+    const context: StrategyContext = {
+      name: instance.name,
+      mode: "paper",
+      horizon,
+      coins: strategyCoins,
+      startTimeMs: Date.now(),
+      logger: new RunLogger(join(runDir, `${sanitizeProfileName(instance.name)}.log`)),
+      fees: shared.fees,
+      risk,
+      journal,
+      rng: shared.rng.fork(`strategy:${instance.name}`),
+      recordedOutcome: null,
+      kalshiClient,
+      executor,
+    };
+    hosted.push({ name: instance.name, strategy: createStrategy(instance, context) });
+  }
+  const host = new StrategyHost(hosted, journal);
+
+  if (resumed) {
+    const { checkpoint } = resumed;
+    const nowMs = Date.now();
+    if (checkpoint.risk) risk.restoreCheckpoint(checkpoint.risk, nowMs);
+    for (const { name, strategy } of hosted) {
+      const saved = checkpoint.engines[name];
+      if (saved === undefined) continue;
+      if (strategy.restoreCheckpoint) {
+        strategy.restoreCheckpoint(saved, nowMs);
+      } else {
+        systemLogger.log(`Strategy ${name} cannot restore checkpoints; it starts fresh.`, "WARN");
+      }
+    }
+    for (const name of Object.keys(checkpoint.engines)) {
+      if (!hosted.some((entry) => entry.name === name)) {
+        systemLogger.log(`Checkpointed strategy ${name} is not running; its state was dropped.`, "WARN");
+      }
+    }
+    systemLogger.log(
+      `Resumed run ${runId} from checkpoint saved ${new Date(checkpoint.savedAtMs).toISOString()}.`,
+    );
+  }
+
+  const saveCheckpoint = () => {
+    const engines: Record<string, unknown> = {};
+    for (const { name, strategy } of hosted) {
+      if (strategy.exportCheckpoint) engines[name] = strategy.exportCheckpoint();
+    }
+    try {
+      writeCheckpoint(runDir, {
+        version: CHECKPOINT_VERSION,
+        runId,
+        savedAtMs: Date.now(),
+        profiles: hosted.map((entry) => entry.name),
+        coins,
+        engines,
+        risk: risk.exportCheckpoint(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error.";
+      systemLogger.log(`Checkpoint write failed: ${message}`, "ERROR");
+    }
+  };
+  const checkpointIntervalMs = parseEnvNumber("CHECKPOINT_INTERVAL_MS", 5000, 0);
+  const checkpointTimer =
+    checkpointIntervalMs > 0 ? setInterval(saveCheckpoint, checkpointIntervalMs) : null;
+
+  // Re-parse the strategies section on save and hand changed entries to
+  // strategies that can take them; an invalid file changes nothing.
+  const reloadConfig = () => {
+    let loaded: StrategyInstanceConfig[];
+    try {
+      loaded = parseStrategiesConfig(parseConfigFile());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to load config.json.";
+      systemLogger.log(`CONFIG reload rejected, keeping current settings: ${message}`, "WARN");
+      return;
+    }
+    const loadedByName = new Map(loaded.map((instance) => [instance.name, instance]));
+    let changed = false;
+    for (const { name, strategy } of hosted) {
+      const running = runningEntries.get(name);
+      const next = loadedByName.get(name);
+      if (!running) continue;
+      if (!next) {
+        systemLogger.log(`CONFIG ${name} is no longer in config.json; it keeps its settings until restart`, "WARN");
+        continue;
+      }
+      const lines = diffConfigValues(running.raw, next.raw);
+      if (lines.length === 0) continue;
+      changed = true;
+      if (next.type !== running.type || !strategy.updateConfig) {
+        systemLogger.log(`CONFIG ${name} changed; restart to apply`, "WARN");
+        continue;
+      }
+      for (const line of lines) {
+        systemLogger.log(`CONFIG ${name} ${line}`);
+      }
+      strategy.updateConfig(next.config);
+      runningEntries.set(name, next);
+    }
+    if (!changed) {
+      systemLogger.log("CONFIG reloaded, no parameter changes.");
+    }
+  };
+  const configWatcher = parseEnvFlag("CONFIG_HOT_RELOAD", true)
+    ? new ConfigWatcher(join(process.cwd(), "config.json"), reloadConfig)
+    : null;
+
+  const stopEventLog = recordMarketEvents(bus, join(runDir, MARKET_EVENTS_FILE));
+  const polyHub = new MarketDataHub(systemLogger, { requireCryptoPrice: false, horizon, bus });
+  await polyHub.start(coins);
+  await kalshiHub?.start(coins);
+  systemLogger.log(
+    `Strategy paper run ${runId} started (${hosted.map((entry) => entry.name).join(", ")}) on ${coins.join(", ")}`,
+  );
+
+  const logSummaries = () => {
+    for (const { name, strategy } of host.getStrategies()) {
+      systemLogger.log(formatSummary(name, strategy.getViews().summary));
+    }
+    systemLogger.log(formatRiskState(risk.getState()));
+    systemLogger.log(formatBusStats(bus.getStats()));
+  };
+
+  // Strategies run on every hub update; the scheduler adds delayed
+  // decisions and a slow tick for clock-only rules.
+  const scheduler = new EvalScheduler({
+    evaluate: (nowMs) => {
+      try {
+        host.evaluate(
+          polyHub.getSnapshots(),
+          kalshiHub?.getSnapshots() ?? new Map<CoinSymbol, MarketSnapshot>(),
+          nowMs,
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error in eval loop.";
+        systemLogger.log(`Strategy eval error: ${message}`, "ERROR");
+      }
+    },
+    nextPendingTime: () => host.getNextPendingTime(),
+    fallbackMs: parseEnvNumber("STRATEGY_EVAL_MS", 100, 1),
+  });
+  const stopStrategyFeed = bus.subscribe("strategies", () => scheduler.trigger(), {
+    types: ["book", "trade", "spot", "market-rotated", "reference-price"],
+    coins,
+  });
+  scheduler.start();
+  const summaryTimer = setInterval(logSummaries, parseEnvNumber("STRATEGY_SUMMARY_MS", 60_000, 1_000));
+
+  const shutdown = () => {
+    configWatcher?.close();
+    scheduler.stop();
+    stopStrategyFeed();
+    stopEventLog();
+    clearInterval(summaryTimer);
+    if (checkpointTimer) clearInterval(checkpointTimer);
+    saveCheckpoint();
+    polyHub.stop();
+    kalshiHub?.stop();
+    host.close();
+    logSummaries();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+function runBacktest(
+  selected: StrategyInstanceConfig[],
+  coinFilter: Set<CoinSymbol> | null,
+  dataDir: string,
+  startMs: number,
+  endMs: number,
+  shared: SharedInputs,
+): void {
+  const { horizon, runDir, runId, systemLogger } = shared;
+  const coins = Array.from(
+    new Set(selected.flatMap((instance) => coinsFor(instance, horizon, coinFilter))),
+  );
+  if (coins.length === 0) {
+    console.log(`No selected strategy trades ${horizon} markets on the selected coins.`);
+    return;
+  }
+  const data = loadReplayData(dataDir, coins, startMs, endMs, horizon, usesKalshi(selected), systemLogger);
+  if (!data) return;
+
+  const journal = new TradeJournal(join(runDir, JOURNAL_FILE));
+  const risk = new RiskManager(shared.riskLimits, systemLogger);
+  const hosted: HostedStrategy[] = [];
+  for (const instance of selected) {
+    const strategyCoins = coinsFor(instance, horizon, coinFilter);
+    if (strategyCoins.length === 0) {
+      systemLogger.log(`Strategy ${instance.name} has no ${horizon} coins selected, skipping.`, "WARN");
+      continue;
+    }
+    const context: StrategyContext = {
+      name: instance.name,
+      mode: "backtest",
+      horizon,
+      coins: strategyCoins,
+      startTimeMs: replayStartMs(data),
+      logger: new RunLogger(join(runDir, `${sanitizeProfileName(instance.name)}.log`)),
+      fees: shared.fees,
+      risk,
+      journal,
+      rng: shared.rng.fork(`strategy:${instance.name}`),
+      recordedOutcome: data.recordedOutcome,
+      kalshiClient: null,
+      executor: null,
+    };
+    hosted.push({ name: instance.name, strategy: createStrategy(instance, context) });
+  }
+  const host = new StrategyHost(hosted, journal);
+  runReplay(data, host, systemLogger);
+
+  systemLogger.log(`Strategy backtest complete (${coins.join(", ")}), run ${runId}`);
+  for (const { name, strategy } of hosted) {
+    systemLogger.log(formatSummary(name, strategy.getViews().summary));
+  }
+  systemLogger.log(formatRiskState(risk.getState()));
+}
+
+function runSweep(
+  selected: StrategyInstanceConfig[],
+  coinFilter: Set<CoinSymbol> | null,
+  dataDir: string,
+  startMs: number,
+  endMs: number,
+  sweepSpecPath: string,
+  shared: SharedInputs,
+): void {
+  const { horizon, runDir, runId, systemLogger } = shared;
+  let expanded: ReturnType<typeof expandStrategySweep>;
+  let base: StrategyInstanceConfig;
+  let paramPaths: string[];
+  let top: number;
+  try {
+    const spec = loadSweepSpec(sweepSpecPath, checkStrategySweepPath);
+    const baseName = spec.baseProfile ?? selected[0]?.name;
+    const match = selected.find(
+      (instance) => instance.name.toLowerCase() === baseName?.toLowerCase(),
+    );
+    if (!match) {
+      console.log(`Unknown sweep base strategy: ${baseName}`);
+      return;
+    }
+    base = match;
+    expanded = expandStrategySweep(base, spec, parseEnvNumber("SWEEP_MAX_VARIANTS", 4096, 1));
+    paramPaths = spec.parameters.map((parameter) => parameter.path);
+    top = spec.top;
+  } catch (error) {
+    console.log(error instanceof Error ? error.message : "Sweep spec error.");
+    return;
+  }
+
+  const coins = coinsFor(base, horizon, coinFilter);
+  if (coins.length === 0) {
+    console.log(`Strategy ${base.name} trades no ${horizon} markets on the selected coins.`);
+    return;
+  }
+  const data = loadReplayData(dataDir, coins, startMs, endMs, horizon, usesKalshi([base]), systemLogger);
+  if (!data) return;
+
+  systemLogger.log(`Sweeping ${base.name} (${base.type}) over ${expanded.length} variants`);
+  const journal = new TradeJournal(join(runDir, JOURNAL_FILE));
+  // Variants share one log; each gets its own risk caps so they stay independent.
+  const variantLogger = new RunLogger(join(runDir, "variants.log"));
+  const hosted: HostedStrategy[] = expanded.map(({ instance }) => ({
+    name: instance.name,
+    strategy: createStrategy(instance, {
+      name: instance.name,
+      mode: "sweep",
+      horizon,
+      coins,
+      startTimeMs: replayStartMs(data),
+      logger: variantLogger,
+      fees: shared.fees,
+      risk: new RiskManager(shared.riskLimits),
+      journal,
+      rng: shared.rng.fork(`strategy:${instance.name}`),
+      recordedOutcome: data.recordedOutcome,
+      kalshiClient: null,
+      executor: null,
+    }),
+  }));
+  const host = new StrategyHost(hosted, journal);
+  runReplay(data, host, systemLogger);
+
+  const summaries = new Map<string, StrategySummary>();
+  expanded.forEach(({ variant }, index) => {
+    const strategy = hosted[index]?.strategy;
+    if (strategy) summaries.set(variant.id, strategy.getViews().summary);
+  });
+  const rows = rankStrategySweep(
+    expanded.map(({ variant }) => variant),
+    summaries,
+  );
+  const report = [
+    `# Strategy sweep ${runId}`,
+    "",
+    `- Strategy: ${base.name} (${base.type})`,
+    `- Coins: ${coins.join(", ")}`,
+    `- Window: ${new Date(startMs).toISOString()} -> ${new Date(endMs).toISOString()}`,
+    `- Variants: ${expanded.length}`,
+    "",
+    ...formatSweepTable(rows, paramPaths),
+    "",
+  ];
+  writeFileSync(join(runDir, "sweep-results.md"), report.join("\n"), "utf8");
+  writeJsonlLines(join(runDir, "sweep-results.jsonl"), rows);
+
+  systemLogger.log(`Strategy sweep complete (${coins.join(", ")}), run ${runId}`);
+  for (const line of formatSweepTable(rows, paramPaths, top)) {
+    systemLogger.log(line);
+  }
+  systemLogger.log(`Results written to ${join(runDir, "sweep-results.md")}`);
+}
+
+/**
+ * Runs strategies from the `strategies` section of config.json through the
+ * registry: live on paper, or replayed over recorded data as a backtest or
+ * a parameter sweep. The same strategy code runs in all three.
+ */
+export async function strategyRoute(options: StrategyRouteOptions = {}): Promise<void> {
+  let resumed: ResumedRun | null = null;
+  if (options.resume) {
+    if ((options.run ?? "paper") !== "paper") {
+      console.log("--resume only applies to --strategy-mode paper.");
+      return;
+    }
+    const found = findCheckpointRun(join(process.cwd(), "logs"), options.resume);
+    if (!found && options.resume !== LATEST_RUN) {
+      console.log(`No checkpoint found for run ${options.resume} in logs/.`);
+      return;
+    }
+    if (found) {
+      try {
+        resumed = { ...found, checkpoint: readCheckpoint(found.runDir) };
+      } catch (error) {
+        console.log(error instanceof Error ? error.message : "Checkpoint error.");
+        return;
+      }
+      // The resumed run trades what it traded before unless told otherwise.
+      options = {
+        ...options,
+        strategies: options.strategies?.length ? options.strategies : resumed.checkpoint.profiles,
+        coins: options.coins?.length ? options.coins : resumed.checkpoint.coins,
+      };
+    } else {
+      console.log("No checkpoint to resume yet, starting a new run.");
+    }
+  }
+
+  let parsed: Record<string, unknown>;
+  let instances: StrategyInstanceConfig[];
+  let fees: VenueFeeModels;
+  let riskLimits: RiskLimits;
+  try {
+    parsed = parseConfigFile();
+    instances = parseStrategiesConfig(parsed);
+    fees = parseFeeModels(parsed);
+    riskLimits = parseRiskLimits(parsed.risk);
+  } catch (error) {
+    console.log(error instanceof Error ? error.message : "Failed to load config.json.");
+    return;
+  }
+
+  if (instances.length === 0) {
+    const types = listStrategyTypes()
+      .map((definition) => `${definition.type} (${definition.description})`)
+      .join(", ");
+    console.log(`No strategies found in config.json. Add a "strategies" section; types: ${types}.`);
+    return;
+  }
+
+  const selected = selectStrategies(instances, options.strategies);
+  if (selected.length === 0) {
+    console.log("No strategies selected.");
+    return;
+  }
+
+  let coinFilter: Set<CoinSymbol> | null = null;
+  if (options.coins && options.coins.length > 0) {
+    const normalized = options.coins.map((coin) => coin.trim().toLowerCase());
+    if (!normalized.includes("all")) {
+      coinFilter = new Set(
+        normalized
+          .map((coin) => normalizeCoinKey(coin))
+          .filter((coin): coin is CoinSymbol => !!coin),
+      );
+    }
+  }
+
+  const run = options.run ?? "paper";
+  const horizon = options.horizon ?? DEFAULT_MARKET_HORIZON;
+  if (run !== "paper") {
+    if (!options.startMs || !options.endMs) {
+      console.log(`Strategy ${run} requires --start and --end.`);
+      return;
+    }
+    if (options.startMs >= options.endMs) {
+      console.log("Start date must be before end date.");
+      return;
+    }
+  }
+
+  const { runDir, runId } = resumed ?? getNextRunDir(run);
+  const seed = resolveSeed(options.seed ?? (resumed ? readSeedFile(runDir) ?? undefined : undefined));
+  writeSeedFile(runDir, seed);
+  const systemLogger = new RunLogger(join(runDir, "system.log"), 200, { stdout: true });
+  systemLogger.log(
+    `Strategy ${run} starting (${selected.map((instance) => `${instance.name}:${instance.type}`).join(", ")}), horizon ${horizon}, seed ${seed}`,
+  );
+  const shared: SharedInputs = {
+    fees,
+    riskLimits,
+    horizon,
+    runDir,
+    runId,
+    rng: new SeededRng(seed),
+    systemLogger,
+  };
+
+  const dataDir = options.dataDir ?? join(process.cwd(), "backtest-data");
+  if (run === "paper") {
+    await runPaper(selected, coinFilter, parsed, options.execution ?? "paper", resumed, shared);
+  } else if (run === "backtest") {
+    runBacktest(selected, coinFilter, dataDir, options.startMs!, options.endMs!, shared);
+  } else {
+    runSweep(
+      selected,
+      coinFilter,
+      dataDir,
+      options.startMs!,
+      options.endMs!,
+      options.sweepSpecPath ?? join(process.cwd(), "sweep.json"),
+      shared,
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  CONFIG_SCHEMA_VERSION,
+  countIssues,
+  validateConfig,
+  type ConfigIssue,
+  type ResolvedProfileConfig,
+} from "../services/config-validation";
+import { stripJsonComments } from "../services/profile-config";
+
+export interface ValidateConfigRouteOptions {
+  /** Path to the config file; defaults to ./config.json. */
+  path?: string;
+  /** Only print resolved configs for these profiles. */
+  profiles?: string[];
+  /** Only print resolved configs for these coins. */
+  coins?: string[];
+}
+
+function formatIssue(issue: ConfigIssue): string {
+  const label = issue.severity === "error" ? "ERROR" : "WARN ";
+  return `${label} ${issue.path}: ${issue.message}`;
+}
+
+function printResolved(
+  resolved: ResolvedProfileConfig[],
+  options: ValidateConfigRouteOptions,
+): void {
+  const profiles = new Set((options.profiles ?? []).map((name) => name.trim()));
+  const coins = new Set((options.coins ?? []).map((coin) => coin.toLowerCase().trim()));
+  const selected = resolved.filter(
+    (entry) =>
+      (profiles.size === 0 || profiles.has(entry.profile)) &&
+      (coins.size === 0 || coins.has(entry.coin)),
+  );
+  if (selected.length === 0) {
+    console.log("No provider profile configs to resolve.");
+    return;
+  }
+  console.log("Resolved profile configs (as resolveProfileConfigForCoin returns them):");
+  for (const entry of selected) {
+    console.log("");
+    console.log(
+      `${entry.provider} ${entry.profile} group=${entry.group} coin=${entry.coin.toUpperCase()}`,
+    );
+    console.log(JSON.stringify(entry.config, null, 2));
+  }
+}
+
+/**
+ * Validates config.json without starting any mode: every schema problem and
+ * contradictory rule at once, then the resolved per-coin configs. Exits
+ * non-zero when there are errors.
+ */
+export async function validateConfigRoute(
+  options: ValidateConfigRouteOptions = {},
+): Promise<void> {
+  const path = options.path ?? join(process.cwd(), "config.json");
+  console.log(`Validating ${path} (schemaVersion ${CONFIG_SCHEMA_VERSION}, config.schema.json)`);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripJsonComments(readFileSync(path, "utf8")));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(formatIssue({ severity: "error", path: "$", message: `unreadable JSON: ${message}` }));
+    process.exitCode = 1;
+    return;
+  }
+
+  const { issues, resolved } = validateConfig(raw);
+  for (const issue of issues) {
+    console.log(formatIssue(issue));
+  }
+  const { errors, warnings } = countIssues(issues);
+  if (issues.length > 0) console.log("");
+
+  if (resolved.length === 0 && errors > 0) {
+    console.log("Fix the errors above to see the resolved profile configs.");
+  } else {
+    printResolved(resolved, options);
+  }
+  console.log("");
+  console.log(`${errors} error(s), ${warnings} warning(s).`);
+  if (errors > 0) {
+    process.exitCode = 1;
+  }
+}
@@ -8,6 +8,7 @@ import { resolveMarketProvider } from "../providers/provider";
 import { MarketWS, type MarketEvent } from "../clients/market-ws";
 import { CryptoWS, type CryptoPricePayload } from "../clients/crypto-ws";
 import { fetchHistoricalCryptoPrice } from "../services/crypto-service";
+import { getCoinRegistry } from "../services/coin-registry";
 import { Dashboard, colors } from "../cli/dashboard";
 import { promptText } from "../cli/prompts";
 import { getKalshiEnvConfig } from "../clients/kalshi/kalshi-config";
@@ -93,21 +94,17 @@ export async function watchMarketRoute(
     let cryptoWs: CryptoWS | null = null;
     let cryptoSymbol: string | null = null;
 
-    if (
-      marketQuestion.includes("ethereum") ||
-      marketQuestion.includes("eth ")
-    ) {
-      cryptoSymbol = "eth/usd";
-    } else if (
-      marketQuestion.includes("bitcoin") ||
-      marketQuestion.includes("btc ")
-    ) {
-      cryptoSymbol = "btc/usd";
-    } else if (
-      marketQuestion.includes("solana") ||
-      marketQuestion.includes("sol ")
-    ) {
-      cryptoSymbol = "sol/usd";
+    const registry = getCoinRegistry();
+    for (const coin of registry.ids()) {
+      const definition = registry.get(coin);
+      const names = [definition.name.toLowerCase(), ...definition.aliases];
+      if (
+        names.some((name) => marketQuestion.includes(name)) ||
+        marketQuestion.includes(`${coin} `)
+      ) {
+        cryptoSymbol = definition.rtdsSymbol;
+        break;
+      }
     }
 
     if (cryptoSymbol) {
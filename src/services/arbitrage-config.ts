@@ -1,9 +1,24 @@
 import { readFileSync } from "fs";
 import { join } from "path";
-import type { CoinSymbol } from "./auto-market";
+import {
+  DEFAULT_MARKET_HORIZON,
+  MARKET_HORIZONS,
+  parseMarketHorizon,
+  type CoinSymbol,
+  type MarketHorizon,
+} from "./auto-market";
 import { normalizeCoinKey, stripJsonComments } from "./profile-config";
+import { LEG_RISK_POLICIES, type LegRiskPolicy } from "./arbitrage-legs";
+
+const DEFAULT_LEG_RISK_POLICY: LegRiskPolicy = "unwind";
+const DEFAULT_LEG_CHASE_CENTS = 2;
+const DEFAULT_MAX_LOSE_BAND_PCT = 0.05;
+const DEFAULT_SETTLEMENT_BASIS_BPS = 2;
+const DEFAULT_MAX_MISMATCH_PROB = 0.1;
 
 export interface ArbitrageCoinConfig {
+  /** Up/Down market window both venues are matched on. */
+  horizon: MarketHorizon;
   tradeAllowedTimeLeft: number;
   tradeStopTimeLeft: number | null;
   minGap: number;
@@ -13,6 +28,16 @@ export interface ArbitrageCoinConfig {
   minDepthValue: number | null;
   maxPriceStalenessSec: number | null;
   fillUsd: number | null;
+  legRiskPolicy: LegRiskPolicy;
+  legChaseCents: number;
+  /** Evaluate every strike of the Kalshi event, not only the selected market. */
+  strikeLadder: boolean;
+  /** Widest lose-both band allowed, in percent of the Poly threshold; null = no limit. */
+  maxLoseBandPct: number | null;
+  /** Std dev of Kalshi (CF Benchmarks) minus Polymarket (Chainlink) settlement, in bps of spot. */
+  settlementBasisBps: number;
+  /** Above this chance of both legs losing the fill budget is scaled down; null = never. */
+  maxMismatchProb: number | null;
 }
 
 export interface ArbitrageProfileConfig {
@@ -60,7 +85,44 @@ function parseOptionalNumberField(
   return parsed;
 }
 
-function parseCoinConfig(
+function parseLegRiskPolicy(value: unknown, context: string): LegRiskPolicy {
+  if (value === undefined || value === null) return DEFAULT_LEG_RISK_POLICY;
+  const normalized = typeof value === "string" ? value.trim().toLowerCase() : "";
+  const policy = LEG_RISK_POLICIES.find((entry) => entry === normalized);
+  if (!policy) {
+    throw new Error(
+      `Config error: ${context} legRiskPolicy must be one of ${LEG_RISK_POLICIES.join(", ")}`,
+    );
+  }
+  return policy;
+}
+
+function parseOptionalBooleanField(
+  value: unknown,
+  context: string,
+  label: string,
+  fallback: boolean,
+): boolean {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== "boolean") {
+    throw new Error(`Config error: ${context} ${label} must be true or false`);
+  }
+  return value;
+}
+
+function parseHorizon(value: unknown, context: string): MarketHorizon {
+  if (value === undefined || value === null) return DEFAULT_MARKET_HORIZON;
+  const horizon = typeof value === "string" ? parseMarketHorizon(value) : null;
+  if (!horizon) {
+    throw new Error(
+      `Config error: ${context} horizon must be one of ${MARKET_HORIZONS.join(", ")}`,
+    );
+  }
+  return horizon;
+}
+
+/** Parses one coin's config; `profileName` and `coinKey` only label errors. */
+export function parseCoinConfig(
   profileName: string,
   coinKey: string,
   raw: Record<string, unknown>,
@@ -108,7 +170,38 @@ function parseCoinConfig(
     );
   }
 
+  const legChaseCents =
+    parseOptionalNumberField(raw.legChaseCents, context, "legChaseCents") ??
+    DEFAULT_LEG_CHASE_CENTS;
+  if (legChaseCents < 0) {
+    throw new Error(`Config error: ${context} legChaseCents must be >= 0`);
+  }
+
+  // An explicit null lifts the limit; a missing key keeps the default.
+  const maxLoseBandPct =
+    raw.maxLoseBandPct === undefined
+      ? DEFAULT_MAX_LOSE_BAND_PCT
+      : parseOptionalNumberField(raw.maxLoseBandPct, context, "maxLoseBandPct");
+  if (maxLoseBandPct !== null && maxLoseBandPct < 0) {
+    throw new Error(`Config error: ${context} maxLoseBandPct must be >= 0`);
+  }
+
+  const settlementBasisBps =
+    parseOptionalNumberField(raw.settlementBasisBps, context, "settlementBasisBps") ??
+    DEFAULT_SETTLEMENT_BASIS_BPS;
+  if (settlementBasisBps < 0) {
+    throw new Error(`Config error: ${context} settlementBasisBps must be >= 0`);
+  }
+  const maxMismatchProb =
+    raw.maxMismatchProb === undefined
+      ? DEFAULT_MAX_MISMATCH_PROB
+      : parseOptionalNumberField(raw.maxMismatchProb, context, "maxMismatchProb");
+  if (maxMismatchProb !== null && (maxMismatchProb <= 0 || maxMismatchProb > 1)) {
+    throw new Error(`Config error: ${context} maxMismatchProb must be > 0 and <= 1`);
+  }
+
   return {
+    horizon: parseHorizon(raw.horizon, context),
     tradeAllowedTimeLeft,
     tradeStopTimeLeft,
     minGap,
@@ -126,6 +219,17 @@ function parseCoinConfig(
       "maxPriceStalenessSec",
     ),
     fillUsd: parseOptionalNumberField(raw.fillUsd, context, "fillUsd"),
+    legRiskPolicy: parseLegRiskPolicy(raw.legRiskPolicy, context),
+    legChaseCents,
+    strikeLadder: parseOptionalBooleanField(
+      raw.strikeLadder,
+      context,
+      "strikeLadder",
+      true,
+    ),
+    maxLoseBandPct,
+    settlementBasisBps,
+    maxMismatchProb,
   };
 }
 
@@ -146,7 +250,13 @@ function deriveCoinOptions(profiles: ArbitrageProfileConfig[]): CoinSymbol[] {
 }
 
 export function loadArbitrageConfig(): ArbitrageConfigResult {
-  const parsed = parseConfigFile();
+  return parseArbitrageConfig(parseConfigFile());
+}
+
+/** Resolves the `arbitrage` section of an already parsed config.json. */
+export function parseArbitrageConfig(
+  parsed: Record<string, unknown>,
+): ArbitrageConfigResult {
   const raw = parsed.arbitrage;
   if (!raw || typeof raw !== "object") {
     throw new Error("Config error: missing arbitrage section");
@@ -1,15 +1,56 @@
+import { randomUUID } from "crypto";
 import type { CoinSymbol } from "./auto-market";
 import type { MarketSnapshot } from "./market-data-hub";
 import { RunLogger } from "./run-logger";
 import type { ArbitrageCoinConfig } from "./arbitrage-config";
 import {
+  buildFillEstimate,
   computeFillEstimate,
   randomDelayMs,
   resolveAsks,
   type FillEstimate,
 } from "./arbitrage-fill";
+import { NO_FEES, type VenueFeeModels } from "./fee-model";
+import { RiskManager, type RiskLeg } from "./risk-manager";
+import { PendingConfigUpdates } from "./config-reload";
+import { resolveSeed, SeededRng } from "./rng";
+import type { JournalLeg, JournalOutcome, TradeJournal } from "./trade-journal";
+import {
+  createLeg,
+  legAvgPrice,
+  walkAsks,
+  walkBids,
+  worstAskPrice,
+  LegManager,
+  type ArbitrageLeg,
+  type LegAction,
+  type LegFill,
+  type LegRiskSettings,
+} from "./arbitrage-legs";
 import type { NormalizedOutcome } from "./cross-platform-compare";
+import {
+  estimateMismatchRisk,
+  NO_MISMATCH_RISK,
+  resolveHorizonVol,
+  type MismatchRisk,
+} from "./mismatch-risk";
+import {
+  bandRank,
+  classifyStrikeBand,
+  findKalshiStrike,
+  formatStrikeBand,
+  isBandAllowed,
+  listKalshiStrikes,
+  type StrikeBandRisk,
+} from "./strike-band";
 import type { KalshiClient } from "../clients/kalshi/kalshi-client";
+import type { MarketProvider } from "../providers/provider";
+import type {
+  ExecutionAdapter,
+  ExecutionOrder,
+  ExecutionReport,
+  ExecutionSide,
+} from "../execution/types";
 import {
   computeFinalPrice,
   computeOutcomeFromValues,
@@ -27,6 +68,7 @@ const { min: EXEC_DELAY_MIN_MS, max: EXEC_DELAY_MAX_MS } = resolveDelayRange(
   EXEC_DELAY_MAX_ENV,
 );
 const DEFAULT_TIE_EPSILON = 0.002;
+const EXEC_LIMIT_SLIPPAGE = parseEnvNumber("EXECUTION_LIMIT_SLIPPAGE", 0.01, 0);
 
 const FINAL_WINDOW_MS = parseEnvNumber(
   "CROSS_ANALYSIS_FINAL_WINDOW_MS",
@@ -81,6 +123,12 @@ export interface ArbitrageSummary {
   losses: number;
   totalProfit: number;
   openExposure: number;
+  /** Cost of shares held on one venue without the opposite leg. */
+  unhedgedExposure: number;
+  /** Realized from unwinds plus settlement of naked shares; included in totalProfit. */
+  legRiskPnl: number;
+  /** Venue fees paid; already deducted from totalProfit. */
+  totalFees: number;
 }
 
 export interface ArbitragePositionSummary {
@@ -90,6 +138,13 @@ export interface ArbitragePositionSummary {
   avgKalshi: number;
   costTotal: number;
   confirmedAtMs: number;
+  polyShares: number;
+  kalshiShares: number;
+  unhedgedVenue: MarketProvider | null;
+  unhedgedShares: number;
+  unhedgedCost: number;
+  kalshiSlug: string;
+  band: StrikeBandRisk;
 }
 
 export interface ArbitrageMarketView {
@@ -127,17 +182,44 @@ interface PendingOrder {
   kalshiTarget: NormalizedOutcome;
   delayMs: number;
   committedAtMs: number;
+  polyLimit: number;
+  kalshiLimit: number;
+  /** Slug of the Kalshi strike the order is on (the selected market or a ladder strike). */
+  kalshiKey: string;
+  band: StrikeBandRisk;
+  mismatchRisk: MismatchRisk;
+  /** RiskManager ticket holding this order's exposure. */
+  riskTicket: number;
+  /** Set once both legs are sent through a non-paper executor. */
+  submittedAtMs: number | null;
+  /** Journal id, `<coin>-<committedAtMs>`. */
+  orderId: string;
 }
 
 interface ArbitragePosition {
   marketKey: string;
+  orderId: string;
   polySlug: string;
   kalshiSlug: string;
   direction: ArbitrageDirection;
+  /** Hedged shares (held on both venues). */
   shares: number;
+  polyShares: number;
+  kalshiShares: number;
   avgPoly: number;
   avgKalshi: number;
+  /** Includes fees. */
   costTotal: number;
+  riskTicket: number;
+  fees: number;
+  unhedgedVenue: MarketProvider | null;
+  unhedgedShares: number;
+  unhedgedCost: number;
+  /** Unwind PnL already booked for this entry. */
+  legRiskRealized: number;
+  band: StrikeBandRisk;
+  /** Predicted at entry; compared with the result in mismatch.log. */
+  mismatchRisk: MismatchRisk;
   actualGap: number;
   originalGap: number;
   slippage: number;
@@ -199,18 +281,56 @@ interface CoinState {
   };
 }
 
+interface ArbitrageCoinCheckpoint {
+  position: ArbitragePosition | null;
+  pendingOrder: PendingOrder | null;
+  /** Legs of the position's (or order's) risk ticket at checkpoint time. */
+  riskLegs: RiskLeg[];
+  lastResult: string | null;
+}
+
+/** Engine state written to a run checkpoint; see `restoreCheckpoint`. */
+export interface ArbitrageEngineCheckpoint {
+  startMs: number;
+  summary: ArbitrageSummary;
+  pnlHistory: number[];
+  coins: Record<CoinSymbol, ArbitrageCoinCheckpoint>;
+  /** Position in the engine's random stream; absent in older checkpoints. */
+  rngState?: number;
+}
+
+/**
+ * Settled outcomes known ahead of time (e.g. recorded alongside backtest
+ * data). When set, the engine resolves from it instead of the official APIs.
+ */
+export interface ArbitrageOutcomeSource {
+  resolve(snapshot: MarketSnapshot): NormalizedOutcome | null;
+}
+
 export interface ArbitrageEngineOptions {
-  kalshiOutcomeClient: KalshiClient;
+  kalshiOutcomeClient?: KalshiClient;
+  outcomeSource?: ArbitrageOutcomeSource;
   mismatchLogger?: RunLogger;
   decisionLatencyMs?: number;
   headlessSummary?: boolean;
+  /** Order routing; paper (or unset) keeps the synchronous simulated fills. */
+  executor?: ExecutionAdapter;
+  /** Venue fee models; defaults to no fees. */
+  fees?: VenueFeeModels;
+  /** Portfolio limits shared with the other engines; defaults to no caps. */
+  risk?: RiskManager;
+  /** Typed event stream written alongside the text logs. */
+  journal?: TradeJournal;
+  /** Draws the simulated execution delay; defaults to a fresh seed. */
+  rng?: SeededRng;
 }
 
 export class ArbitrageEngine {
   private name: string;
   private configs: Map<CoinSymbol, ArbitrageCoinConfig>;
   private logger: RunLogger;
-  private kalshiOutcomeClient: KalshiClient;
+  private kalshiOutcomeClient: KalshiClient | null;
+  private outcomeSource: ArbitrageOutcomeSource | null;
   private mismatchLogger: RunLogger | null;
   private summary: ArbitrageSummary;
   private pnlHistory: number[];
@@ -218,6 +338,12 @@ export class ArbitrageEngine {
   private states: Map<CoinSymbol, CoinState>;
   private decisionLatencyMs: number | null;
   private summaryOnly: boolean;
+  private executor: ExecutionAdapter | null;
+  private fees: VenueFeeModels;
+  private risk: RiskManager;
+  private journal: TradeJournal | null;
+  private rng: SeededRng;
+  private configUpdates = new PendingConfigUpdates<ArbitrageCoinConfig>();
 
   constructor(
     name: string,
@@ -229,9 +355,16 @@ export class ArbitrageEngine {
     this.name = name;
     this.configs = configs;
     this.logger = logger;
-    this.kalshiOutcomeClient = options.kalshiOutcomeClient;
+    this.kalshiOutcomeClient = options.kalshiOutcomeClient ?? null;
+    this.outcomeSource = options.outcomeSource ?? null;
     this.mismatchLogger = options.mismatchLogger ?? null;
     this.summaryOnly = options.headlessSummary === true;
+    this.executor =
+      options.executor && options.executor.mode !== "paper" ? options.executor : null;
+    this.fees = options.fees ?? NO_FEES;
+    this.risk = options.risk ?? new RiskManager();
+    this.journal = options.journal ?? null;
+    this.rng = options.rng ?? new SeededRng(resolveSeed());
     this.startMs = startTimeMs ?? Date.now();
     this.summary = {
       runtimeSec: 0,
@@ -240,6 +373,9 @@ export class ArbitrageEngine {
       losses: 0,
       totalProfit: 0,
       openExposure: 0,
+      unhedgedExposure: 0,
+      legRiskPnl: 0,
+      totalFees: 0,
     };
     this.pnlHistory = [];
     this.states = new Map();
@@ -269,6 +405,113 @@ export class ArbitrageEngine {
     return this.logger.getRecentLines();
   }
 
+  /**
+   * Queues reloaded coin configs. Each one takes effect on the next
+   * evaluate where that coin has no pending order; unknown coins are dropped.
+   */
+  updateConfigs(configs: Map<CoinSymbol, ArbitrageCoinConfig>): void {
+    this.configUpdates.queue(configs);
+  }
+
+  exportCheckpoint(): ArbitrageEngineCheckpoint {
+    const coins: Record<CoinSymbol, ArbitrageCoinCheckpoint> = {};
+    for (const [coin, state] of this.states.entries()) {
+      if (!state.position && !state.pendingOrder && state.lastResult === null) continue;
+      const ticket = state.position?.riskTicket ?? state.pendingOrder?.riskTicket ?? null;
+      coins[coin] = {
+        position: state.position
+          ? {
+              ...state.position,
+              polySnap: withoutStrikeLadder(state.position.polySnap),
+              kalshiSnap: withoutStrikeLadder(state.position.kalshiSnap),
+            }
+          : null,
+        pendingOrder: state.pendingOrder ? { ...state.pendingOrder } : null,
+        riskLegs: ticket === null ? [] : this.risk.getTicketLegs(ticket) ?? [],
+        lastResult: state.lastResult,
+      };
+    }
+    return {
+      startMs: this.startMs,
+      summary: { ...this.summary },
+      pnlHistory: [...this.pnlHistory],
+      coins,
+      rngState: this.rng.getState(),
+    };
+  }
+
+  /**
+   * Rehydrates state saved by a previous process. Positions and orders get
+   * fresh risk tickets; evaluate then reattaches positions to the live
+   * snapshots while `buildMarketKey` still matches, and settles the rest
+   * from their saved snapshots through the official outcome fetchers.
+   * Orders that were already at the venues are dropped: their fills are unknown.
+   */
+  restoreCheckpoint(checkpoint: ArbitrageEngineCheckpoint, nowMs: number = Date.now()): void {
+    this.startMs = checkpoint.startMs;
+    if (checkpoint.rngState !== undefined) this.rng.setState(checkpoint.rngState);
+    this.summary = { ...checkpoint.summary };
+    this.pnlHistory = [...checkpoint.pnlHistory];
+    for (const [coin, saved] of Object.entries(checkpoint.coins)) {
+      const label = coin.toUpperCase();
+      const state = this.states.get(coin);
+      if (!state) {
+        if (saved.position || saved.pendingOrder) {
+          this.logger.log(
+            `${label} is no longer traded by this profile; its checkpointed ${
+              saved.position ? "position" : "order"
+            } was dropped`,
+            "ERROR",
+          );
+        }
+        continue;
+      }
+      state.lastResult = saved.lastResult;
+      if (saved.position) {
+        state.position = {
+          ...saved.position,
+          riskTicket: this.risk.adopt(this.name, coin, saved.riskLegs),
+          // A fetch in flight at shutdown never reported back.
+          polyOfficialFetchPending: false,
+          kalshiOfficialFetchPending: false,
+        };
+        this.logger.log(
+          `${label} position restored (${saved.position.marketKey}, cost=${saved.position.costTotal.toFixed(2)})`,
+        );
+        continue;
+      }
+      const pending = saved.pendingOrder;
+      if (!pending) continue;
+      if (pending.submittedAtMs !== null) {
+        this.logger.log(
+          `${label} order submitted at ${new Date(
+            pending.submittedAtMs,
+          ).toISOString()} was in flight at shutdown; fills unknown, check ${pending.marketKey} on the venues`,
+          "ERROR",
+        );
+        continue;
+      }
+      state.pendingOrder = {
+        ...pending,
+        dueMs: Math.max(pending.dueMs, nowMs),
+        riskTicket: this.risk.adopt(this.name, coin, saved.riskLegs),
+      };
+      this.logger.log(`${label} pending order restored (${pending.marketKey})`);
+    }
+  }
+
+  getNextPendingTime(): number | null {
+    let next: number | null = null;
+    for (const state of this.states.values()) {
+      const due = state.pendingOrder?.dueMs;
+      if (due === undefined) continue;
+      if (next === null || due < next) {
+        next = due;
+      }
+    }
+    return next;
+  }
+
   getMarketViews(): ArbitrageMarketView[] {
     const views: ArbitrageMarketView[] = [];
     for (const [coin, state] of this.states.entries()) {
@@ -316,6 +559,13 @@ export class ArbitrageEngine {
               avgKalshi: state.position.avgKalshi,
               costTotal: state.position.costTotal,
               confirmedAtMs: state.position.confirmedAtMs,
+              polyShares: state.position.polyShares,
+              kalshiShares: state.position.kalshiShares,
+              unhedgedVenue: state.position.unhedgedVenue,
+              unhedgedShares: state.position.unhedgedShares,
+              unhedgedCost: state.position.unhedgedCost,
+              kalshiSlug: state.position.kalshiSlug,
+              band: state.position.band,
             }
           : null,
         lastResult: state.lastResult,
@@ -332,6 +582,15 @@ export class ArbitrageEngine {
   ): void {
     this.summary.runtimeSec = (nowMs - this.startMs) / 1000;
     let openExposure = 0;
+    let unhedgedExposure = 0;
+
+    const reloaded = this.configUpdates.applyTo(
+      this.configs,
+      (coin) => Boolean(this.states.get(coin)?.pendingOrder),
+    );
+    for (const coin of reloaded) {
+      this.logger.log(`${coin.toUpperCase()} config reloaded`);
+    }
 
     for (const [coin, config] of this.configs.entries()) {
       const state = this.states.get(coin) ?? this.createState();
@@ -343,32 +602,46 @@ export class ArbitrageEngine {
       }
 
       if (state.position) {
-        if (polySnap && kalshiSnap) {
-          const currentKey = buildMarketKey(polySnap, kalshiSnap);
+        const strikeSnap = kalshiSnap
+          ? findKalshiStrike(kalshiSnap, state.position.kalshiSlug)
+          : null;
+        if (polySnap && strikeSnap) {
+          const currentKey = buildMarketKey(polySnap, strikeSnap);
           if (currentKey === state.position.marketKey) {
             state.position.polySnap = polySnap;
-            state.position.kalshiSnap = kalshiSnap;
+            state.position.kalshiSnap = strikeSnap;
           }
         }
         openExposure += state.position.costTotal;
+        unhedgedExposure += state.position.unhedgedCost;
         this.maybeResolvePosition(state, nowMs);
         this.states.set(coin, state);
         continue;
       }
 
       if (state.pendingOrder) {
+        if (state.pendingOrder.submittedAtMs !== null) {
+          // Orders are at the venues; wait for their reports.
+          this.states.set(coin, state);
+          continue;
+        }
+        const strikeSnap = kalshiSnap
+          ? findKalshiStrike(kalshiSnap, state.pendingOrder.kalshiKey)
+          : null;
         if (
           !polySnap ||
-          !kalshiSnap ||
-          buildMarketKey(polySnap, kalshiSnap) !== state.pendingOrder.marketKey
+          !strikeSnap ||
+          buildMarketKey(polySnap, strikeSnap) !== state.pendingOrder.marketKey
         ) {
           this.logger.log(
             `${coin.toUpperCase()} pending order canceled (market changed)`,
             "WARN",
           );
+          this.recordCancel(coin, state.pendingOrder, "market changed", nowMs);
+          this.risk.close(state.pendingOrder.riskTicket, 0, nowMs);
           state.pendingOrder = null;
         } else if (nowMs >= state.pendingOrder.dueMs) {
-          this.confirmPendingOrder(state, config, polySnap, kalshiSnap, nowMs);
+          this.confirmPendingOrder(state, config, polySnap, strikeSnap, nowMs);
         }
         this.states.set(coin, state);
         continue;
@@ -379,7 +652,6 @@ export class ArbitrageEngine {
         continue;
       }
 
-      const marketKey = buildMarketKey(polySnap, kalshiSnap);
       const timeLeft = resolveMinTimeLeft(polySnap, kalshiSnap);
       const fillBudget = resolveFillBudget(config);
 
@@ -390,12 +662,14 @@ export class ArbitrageEngine {
         polySnap,
         kalshiSnap,
         fillBudget,
+        this.fees,
         );
         const rawDownYes = computeDisplayEstimate(
         "downYes",
         polySnap,
         kalshiSnap,
         fillBudget,
+        this.fees,
         );
         state.lastEstimates = {
           upNo: rawUpNo?.estimate ?? null,
@@ -437,22 +711,26 @@ export class ArbitrageEngine {
         continue;
       }
 
-      const upNo = buildCandidate(
-        "upNo",
-        polySnap,
-        kalshiSnap,
-        fillBudget,
-        config,
-      );
-      const downYes = buildCandidate(
-        "downYes",
-        polySnap,
-        kalshiSnap,
-        fillBudget,
-        config,
-      );
+      // Every strike of the Kalshi event is paired with both Poly sides; the
+      // band between the two thresholds decides which pairs are allowed.
+      const strikes = config.strikeLadder ? listKalshiStrikes(kalshiSnap) : [kalshiSnap];
+      const candidates: Candidate[] = [];
+      for (const strikeSnap of strikes) {
+        if (strikeSnap !== kalshiSnap && strikeSnap.dataStatus !== "healthy") continue;
+        for (const direction of ["upNo", "downYes"] as const) {
+          const candidate = buildCandidate(
+            direction,
+            polySnap,
+            strikeSnap,
+            fillBudget,
+            config,
+            this.fees,
+          );
+          if (candidate) candidates.push(candidate);
+        }
+      }
 
-      const selected = chooseCandidate(upNo, downYes);
+      const selected = chooseCandidate(candidates);
       state.lastEstimates.selected = selected?.direction ?? null;
 
       if (!selected) {
@@ -466,36 +744,75 @@ export class ArbitrageEngine {
       }
       state.lastDecisionMs = nowMs;
 
+      const decision = this.risk.request({
+        owner: this.name,
+        coin,
+        legs: [
+          {
+            venue: "polymarket",
+            cost: selected.estimate.costPoly + selected.estimate.feePoly,
+          },
+          {
+            venue: "kalshi",
+            cost: selected.estimate.costKalshi + selected.estimate.feeKalshi,
+          },
+        ],
+        nowMs,
+      });
+      if (!decision.allowed) {
+        this.states.set(coin, state);
+        continue;
+      }
+
       const delayMs =
         this.decisionLatencyMs !== null
           ? this.decisionLatencyMs
-          : randomDelayMs(EXEC_DELAY_MIN_MS, EXEC_DELAY_MAX_MS);
+          : randomDelayMs(EXEC_DELAY_MIN_MS, EXEC_DELAY_MAX_MS, this.rng);
+      const limits = resolveLegLimits(
+        selected.direction,
+        polySnap,
+        selected.kalshiSnap,
+        selected.estimate.shares,
+      );
 
       state.pendingOrder = {
         dueMs: nowMs + delayMs,
         direction: selected.direction,
-        marketKey,
+        marketKey: buildMarketKey(polySnap, selected.kalshiSnap),
         candidate: selected.estimate,
         originalGap: selected.estimate.gap,
         polyTarget: selected.polyTarget,
         kalshiTarget: selected.kalshiTarget,
         delayMs,
         committedAtMs: nowMs,
+        polyLimit: limits?.poly ?? resolveLimitPrice(selected.estimate.avgPoly),
+        kalshiLimit: limits?.kalshi ?? resolveLimitPrice(selected.estimate.avgKalshi),
+        kalshiKey: resolveKalshiKey(selected.kalshiSnap),
+        band: selected.band,
+        mismatchRisk: selected.risk,
+        riskTicket: decision.ticket,
+        submittedAtMs: null,
+        orderId: `${coin}-${nowMs}`,
       };
+      this.recordCommit(coin, state.pendingOrder, selected, polySnap.timeLeftSec, nowMs);
 
       if (!this.summaryOnly) {
         this.logger.log(
           `${coin.toUpperCase()} ARB_CANDIDATE ${selected.direction} gap=${selected.estimate.gap.toFixed(
             4,
-          )} shares=${selected.estimate.shares} cost=${selected.estimate.totalCost.toFixed(
+          )} netGap=${selected.estimate.netGap.toFixed(4)} shares=${selected.estimate.shares} cost=${selected.estimate.totalCost.toFixed(
             2,
-          )} delay=${delayMs}ms`,
+          )} delay=${delayMs}ms${formatBandSuffix(
+            selected.kalshiSnap,
+            selected.band,
+          )}${formatMismatchSuffix(selected)}`,
         );
       }
       this.states.set(coin, state);
     }
 
     this.summary.openExposure = openExposure;
+    this.summary.unhedgedExposure = unhedgedExposure;
     this.pnlHistory.push(this.summary.totalProfit);
     if (this.pnlHistory.length > 180) {
       this.pnlHistory.shift();
@@ -528,33 +845,204 @@ export class ArbitrageEngine {
   ): void {
     const pending = state.pendingOrder;
     if (!pending) return;
+    const settings = {
+      policy: config.legRiskPolicy,
+      chaseCents: config.legChaseCents,
+    };
+
+    if (this.executor) {
+      // Live orders are priced from the post-delay books they are sent into.
+      const fillBudget = resolveFillBudget(config);
+      const postDelayCandidate = fillBudget
+        ? buildCandidateNoValidation(
+            pending.direction,
+            polySnap,
+            kalshiSnap,
+            fillBudget,
+            this.fees,
+          )
+        : null;
+      const fill = postDelayCandidate?.estimate ?? pending.candidate;
+      this.submitOrders(state, pending, fill, settings, polySnap, kalshiSnap, nowMs);
+      return;
+    }
+
+    // Execution delay model: both legs were sent at commit with limits from
+    // the books seen then, and each now fills on its own against the
+    // post-delay book. No abort is possible; uneven fills go to the leg policy.
+    const polyTokenId = resolvePolyTokenId(pending.direction, polySnap) ?? "";
+    const legs = new LegManager(
+      createLeg("polymarket", polyTokenId, pending.candidate.shares, pending.polyLimit),
+      createLeg(
+        "kalshi",
+        resolveKalshiTokenId(pending.direction),
+        pending.candidate.shares,
+        pending.kalshiLimit,
+      ),
+      settings,
+    );
+    for (const leg of [legs.poly, legs.kalshi]) {
+      const snapshot = leg.venue === "polymarket" ? polySnap : kalshiSnap;
+      legs.recordFill(
+        leg.venue,
+        this.withFee(
+          leg.venue,
+          walkAsks(resolveAsks(snapshot, leg.tokenId), leg.targetShares, leg.limitPrice),
+        ),
+      );
+    }
+    this.logLegImbalance(polySnap.coin, pending, legs);
+    for (let action = legs.nextAction(); action; action = legs.nextAction()) {
+      this.applyPaperLegAction(polySnap, kalshiSnap, legs, action);
+    }
+    this.finishLegs(state, pending, legs, polySnap, kalshiSnap, nowMs, "paper");
+  }
+
+  private applyPaperLegAction(
+    polySnap: MarketSnapshot,
+    kalshiSnap: MarketSnapshot,
+    legs: LegManager,
+    action: LegAction,
+  ): void {
+    const leg = legs.getLeg(action.venue);
+    const snapshot = action.venue === "polymarket" ? polySnap : kalshiSnap;
+    if (action.kind === "chase") {
+      const fill = this.withFee(
+        action.venue,
+        walkAsks(
+          resolveAsks(snapshot, leg.tokenId),
+          action.shares,
+          action.limitPrice,
+          leg.filledShares,
+        ),
+      );
+      legs.recordFill(action.venue, fill);
+      this.logLegAction(polySnap.coin, action, fill, 0);
+      return;
+    }
+    if (action.kind === "unwind") {
+      const fill = this.withFee(
+        action.venue,
+        walkBids(snapshot.orderBooks.get(leg.tokenId)?.bids ?? [], action.shares),
+      );
+      const pnl = legs.recordUnwind(action.venue, fill);
+      this.logLegAction(polySnap.coin, action, fill, pnl);
+      return;
+    }
+    this.logLegAction(polySnap.coin, action, null, 0);
+  }
 
-    // Execution delay model: We are already committed. No abort possible.
-    // Re-fetch post-delay books to determine actual fill.
-    const fillBudget = resolveFillBudget(config);
-    const postDelayCandidate = fillBudget
-      ? buildCandidateNoValidation(
-          pending.direction,
-          polySnap,
-          kalshiSnap,
-          fillBudget,
-        )
-      : null;
-
-    // Use post-delay fill if available, otherwise fallback to original candidate
-    const actualFill = postDelayCandidate?.estimate ?? pending.candidate;
-    const actualGap = actualFill.gap;
+  /**
+   * Books what the legs ended with: unwind PnL is realized right away, any
+   * shares still held open a position (hedged plus naked excess).
+   */
+  private finishLegs(
+    state: CoinState,
+    pending: PendingOrder,
+    legs: LegManager,
+    polySnap: MarketSnapshot,
+    kalshiSnap: MarketSnapshot,
+    nowMs: number,
+    fillSource: string,
+  ): void {
+    state.pendingOrder = null;
+    const coinLabel = polySnap.coin.toUpperCase();
+    const realized = legs.getRealizedPnl();
+    this.summary.totalProfit += realized;
+    this.summary.legRiskPnl += realized;
+    this.summary.totalFees += legs.getFeesPaid();
+
+    if (legs.poly.filledShares <= 0 && legs.kalshi.filledShares <= 0) {
+      this.risk.close(pending.riskTicket, realized, nowMs);
+      if (legs.getUnwoundShares() <= 0) {
+        this.recordCancel(
+          polySnap.coin,
+          pending,
+          `no fills (poly=${legs.poly.status} kalshi=${legs.kalshi.status})`,
+          nowMs,
+        );
+        state.lastResult = "order failed";
+        this.logger.log(
+          `${coinLabel} ARB_ORDER_FAILED ${pending.direction} poly=${legs.poly.status} kalshi=${legs.kalshi.status}`,
+          "WARN",
+        );
+        return;
+      }
+      this.summary.totalTrades += 1;
+      if (realized >= 0) {
+        this.summary.wins += 1;
+      } else {
+        this.summary.losses += 1;
+      }
+      state.lastResult = `UNWOUND net=${realized.toFixed(2)}`;
+      this.recordFill(polySnap.coin, pending, legs, null, fillSource, nowMs);
+      this.journal?.record({
+        type: "settlement",
+        ts: nowMs,
+        source: "arbitrage",
+        engine: this.name,
+        coin: polySnap.coin,
+        market: pending.marketKey,
+        orderId: pending.orderId,
+        outcomes: [],
+        pnl: realized,
+        result: realized >= 0 ? "win" : "loss",
+      });
+      this.logger.log(
+        `${coinLabel} ARB_UNWOUND ${pending.direction} shares=${legs.getUnwoundShares()} net=${realized.toFixed(
+          2,
+        )}`,
+        "WARN",
+      );
+      return;
+    }
+
+    this.risk.update(pending.riskTicket, [
+      { venue: "polymarket", cost: legs.poly.cost + legs.poly.fees },
+      { venue: "kalshi", cost: legs.kalshi.cost + legs.kalshi.fees },
+    ]);
+    this.risk.recordPnl(realized, nowMs);
+    this.openPosition(state, pending, legs, polySnap, kalshiSnap, nowMs, fillSource);
+  }
+
+  private openPosition(
+    state: CoinState,
+    pending: PendingOrder,
+    legs: LegManager,
+    polySnap: MarketSnapshot,
+    kalshiSnap: MarketSnapshot,
+    nowMs: number,
+    fillSource: string,
+  ): void {
+    const avgPoly = legAvgPrice(legs.poly);
+    const avgKalshi = legAvgPrice(legs.kalshi);
+    const shares = legs.getHedgedShares();
+    const unhedged = legs.getUnhedged();
+    const fees = legs.poly.fees + legs.kalshi.fees;
+    const costTotal = legs.poly.cost + legs.kalshi.cost + fees;
+    const actualGap = shares > 0 ? 1 - (avgPoly + avgKalshi) : 0;
     const slippage = actualGap - pending.originalGap;
 
     state.position = {
       marketKey: pending.marketKey,
+      orderId: pending.orderId,
       polySlug: polySnap.slug,
       kalshiSlug: kalshiSnap.slug ?? kalshiSnap.marketTicker ?? "kalshi",
       direction: pending.direction,
-      shares: actualFill.shares,
-      avgPoly: actualFill.avgPoly,
-      avgKalshi: actualFill.avgKalshi,
-      costTotal: actualFill.totalCost,
+      shares,
+      polyShares: legs.poly.filledShares,
+      kalshiShares: legs.kalshi.filledShares,
+      avgPoly,
+      avgKalshi,
+      costTotal,
+      riskTicket: pending.riskTicket,
+      fees,
+      unhedgedVenue: unhedged?.venue ?? null,
+      unhedgedShares: unhedged?.shares ?? 0,
+      unhedgedCost: unhedged?.cost ?? 0,
+      legRiskRealized: legs.getRealizedPnl(),
+      band: pending.band,
+      mismatchRisk: pending.mismatchRisk,
       actualGap,
       originalGap: pending.originalGap,
       slippage,
@@ -600,21 +1088,217 @@ export class ArbitrageEngine {
       kalshiCloseThresholdSource: null,
       mismatchLogged: false,
     };
-    state.pendingOrder = null;
     this.summary.totalTrades += 1;
+    this.recordFill(polySnap.coin, pending, legs, actualGap, fillSource, nowMs);
 
     const slippageLabel =
       slippage >= 0 ? `+${slippage.toFixed(4)}` : slippage.toFixed(4);
-    const fillSource = postDelayCandidate ? "post-delay" : "original";
+    const unhedgedLabel = unhedged
+      ? ` unhedged=${unhedged.venue}:${unhedged.shares} unhedgedCost=${unhedged.cost.toFixed(2)}`
+      : "";
     this.logger.log(
-      `${polySnap.coin.toUpperCase()} ARB_EXECUTED ${pending.direction} shares=${actualFill.shares} avgPoly=${actualFill.avgPoly.toFixed(
+      `${polySnap.coin.toUpperCase()} ARB_EXECUTED ${pending.direction} shares=${shares} avgPoly=${avgPoly.toFixed(
         4,
-      )} avgKalshi=${actualFill.avgKalshi.toFixed(4)} cost=${actualFill.totalCost.toFixed(
+      )} avgKalshi=${avgKalshi.toFixed(4)} cost=${costTotal.toFixed(
         2,
-      )} gap=${actualGap.toFixed(4)} origGap=${pending.originalGap.toFixed(4)} slippage=${slippageLabel} fill=${fillSource}`,
+      )} fees=${fees.toFixed(2)} gap=${actualGap.toFixed(4)} origGap=${pending.originalGap.toFixed(4)} slippage=${slippageLabel} fill=${fillSource} legs=${legs.poly.status}/${legs.kalshi.status}${unhedgedLabel}${formatBandSuffix(
+        kalshiSnap,
+        pending.band,
+      )}`,
+      unhedged ? "WARN" : "INFO",
+    );
+  }
+
+  private withFee(venue: MarketProvider, fill: LegFill): LegFill {
+    if (fill.shares <= 0) return fill;
+    return {
+      ...fill,
+      fee: this.fees[venue].orderFee(fill.shares, fill.cost / fill.shares),
+    };
+  }
+
+  private logLegImbalance(
+    coin: CoinSymbol,
+    pending: PendingOrder,
+    legs: LegManager,
+  ): void {
+    if (!legs.getUnhedged()) return;
+    this.logger.log(
+      `${coin.toUpperCase()} LEG_IMBALANCE ${pending.direction} poly=${legs.poly.filledShares}/${legs.poly.targetShares} (${legs.poly.status}) kalshi=${legs.kalshi.filledShares}/${legs.kalshi.targetShares} (${legs.kalshi.status})`,
+      "WARN",
+    );
+  }
+
+  private logLegAction(
+    coin: CoinSymbol,
+    action: LegAction,
+    fill: LegFill | null,
+    pnl: number,
+  ): void {
+    const coinLabel = coin.toUpperCase();
+    if (action.kind === "chase") {
+      this.logger.log(
+        `${coinLabel} LEG_CHASE ${action.venue} shares=${action.shares} limit=${action.limitPrice.toFixed(
+          2,
+        )} filled=${fill?.shares ?? 0}`,
+        "WARN",
+      );
+      return;
+    }
+    if (action.kind === "unwind") {
+      this.logger.log(
+        `${coinLabel} LEG_UNWIND ${action.venue} shares=${action.shares} sold=${fill?.shares ?? 0} proceeds=${(
+          fill?.cost ?? 0
+        ).toFixed(2)} pnl=${pnl.toFixed(2)}`,
+        "WARN",
+      );
+      return;
+    }
+    this.logger.log(
+      `${coinLabel} LEG_HOLD ${action.venue} naked=${action.shares} until settlement`,
+      "WARN",
     );
   }
 
+  /**
+   * Sends both legs as limit orders priced from the post-delay books plus
+   * EXECUTION_LIMIT_SLIPPAGE, then runs the leg policy on the venue reports.
+   */
+  private submitOrders(
+    state: CoinState,
+    pending: PendingOrder,
+    fill: FillEstimate,
+    settings: LegRiskSettings,
+    polySnap: MarketSnapshot,
+    kalshiSnap: MarketSnapshot,
+    nowMs: number,
+  ): void {
+    const executor = this.executor;
+    if (!executor) return;
+    const coinLabel = polySnap.coin.toUpperCase();
+    const polyTokenId = resolvePolyTokenId(pending.direction, polySnap);
+    // Kalshi trades whole contracts, so both legs use the same integer size.
+    const shares = Math.floor(fill.shares);
+    if (!polyTokenId || shares <= 0) {
+      this.logger.log(
+        `${coinLabel} ARB_ORDER_SKIPPED ${pending.direction} shares=${fill.shares}`,
+        "WARN",
+      );
+      this.recordCancel(polySnap.coin, pending, "below one contract", nowMs);
+      this.risk.close(pending.riskTicket, 0, nowMs);
+      state.pendingOrder = null;
+      return;
+    }
+
+    const limits = resolveLegLimits(pending.direction, polySnap, kalshiSnap, shares);
+    const legs = new LegManager(
+      createLeg("polymarket", polyTokenId, shares, limits?.poly ?? pending.polyLimit),
+      createLeg(
+        "kalshi",
+        resolveKalshiTokenId(pending.direction),
+        shares,
+        limits?.kalshi ?? pending.kalshiLimit,
+      ),
+      settings,
+    );
+    const orderId = randomUUID();
+    pending.submittedAtMs = nowMs;
+    this.logger.log(
+      `${coinLabel} ARB_ORDER_SENT ${pending.direction} mode=${executor.mode} shares=${shares} polyLimit=${legs.poly.limitPrice.toFixed(
+        2,
+      )} kalshiLimit=${legs.kalshi.limitPrice.toFixed(2)} id=${orderId}`,
+    );
+
+    void this.runLiveLegs(state, pending, legs, executor, orderId, polySnap, kalshiSnap);
+  }
+
+  private async runLiveLegs(
+    state: CoinState,
+    pending: PendingOrder,
+    legs: LegManager,
+    executor: ExecutionAdapter,
+    orderId: string,
+    polySnap: MarketSnapshot,
+    kalshiSnap: MarketSnapshot,
+  ): Promise<void> {
+    let sequence = 0;
+    const place = (
+      leg: ArbitrageLeg,
+      side: ExecutionSide,
+      shares: number,
+      price: number,
+    ): Promise<PlacedLeg> => {
+      sequence += 1;
+      const order: ExecutionOrder = {
+        venue: leg.venue,
+        marketId:
+          leg.venue === "polymarket"
+            ? polySnap.slug
+            : kalshiSnap.marketTicker ?? kalshiSnap.slug,
+        tokenId: leg.tokenId,
+        side,
+        price,
+        shares,
+        clientOrderId: `${orderId}-${leg.venue === "polymarket" ? "poly" : "kalshi"}-${sequence}`,
+      };
+      if (order.shares <= 0) {
+        return Promise.resolve({ fill: { shares: 0, cost: 0 }, sentShares: 0 });
+      }
+      return executor
+        .placeOrder(order)
+        .then((report) => ({
+          fill: this.withFee(leg.venue, toLegFill(report)),
+          sentShares: report.sentShares,
+        }))
+        .catch(() => ({ fill: { shares: 0, cost: 0 }, sentShares: 0 }));
+    };
+
+    const [polyPlaced, kalshiPlaced] = await Promise.all([
+      place(legs.poly, "BUY", legs.poly.targetShares, legs.poly.limitPrice),
+      place(legs.kalshi, "BUY", legs.kalshi.targetShares, legs.kalshi.limitPrice),
+    ]);
+    if (state.pendingOrder !== pending) return;
+    // Venues may round the size down (Kalshi whole contracts); the legs and
+    // the risk ticket follow what was actually sent.
+    for (const [leg, placed] of [
+      [legs.poly, polyPlaced],
+      [legs.kalshi, kalshiPlaced],
+    ] as const) {
+      if (placed.sentShares > 0) leg.targetShares = placed.sentShares;
+    }
+    this.risk.update(pending.riskTicket, [
+      { venue: "polymarket", cost: polyPlaced.sentShares * legs.poly.limitPrice },
+      { venue: "kalshi", cost: kalshiPlaced.sentShares * legs.kalshi.limitPrice },
+    ]);
+    legs.recordFill("polymarket", polyPlaced.fill);
+    legs.recordFill("kalshi", kalshiPlaced.fill);
+    this.logLegImbalance(polySnap.coin, pending, legs);
+
+    for (let action = legs.nextAction(); action; action = legs.nextAction()) {
+      const leg = legs.getLeg(action.venue);
+      if (action.kind === "chase") {
+        const { fill } = await place(leg, "BUY", action.shares, action.limitPrice);
+        legs.recordFill(action.venue, fill);
+        this.logLegAction(polySnap.coin, action, fill, 0);
+      } else if (action.kind === "unwind") {
+        const latest = state.lastSnapshots ?? { poly: polySnap, kalshi: kalshiSnap };
+        const snapshot = action.venue === "polymarket" ? latest.poly : latest.kalshi;
+        const { fill } = await place(
+          leg,
+          "SELL",
+          action.shares,
+          resolveUnwindPrice(snapshot.bestBid.get(leg.tokenId) ?? null),
+        );
+        const pnl = legs.recordUnwind(action.venue, fill);
+        this.logLegAction(polySnap.coin, action, fill, pnl);
+      } else {
+        this.logLegAction(polySnap.coin, action, null, 0);
+      }
+    }
+
+    this.finishLegs(state, pending, legs, polySnap, kalshiSnap, Date.now(), executor.mode);
+  }
+
   private maybeResolvePosition(state: CoinState, nowMs: number): void {
     const position = state.position;
     if (!position) return;
@@ -622,11 +1306,15 @@ export class ArbitrageEngine {
     const polyClosed = isSnapshotClosed(position.polySnap, nowMs);
     const kalshiClosed = isSnapshotClosed(position.kalshiSnap, nowMs);
 
-    if (polyClosed && position.polyOutcome === null) {
-      this.maybeFetchPolymarketOfficial(position, nowMs);
-    }
-    if (kalshiClosed && position.kalshiOutcome === null) {
-      this.maybeFetchKalshiOfficial(position, nowMs);
+    if (this.outcomeSource) {
+      this.applyRecordedOutcomes(position, polyClosed, kalshiClosed, nowMs);
+    } else {
+      if (polyClosed && position.polyOutcome === null) {
+        this.maybeFetchPolymarketOfficial(position, nowMs);
+      }
+      if (kalshiClosed && position.kalshiOutcome === null) {
+        this.maybeFetchKalshiOfficial(position, nowMs);
+      }
     }
 
     if (polyClosed && position.polyOutcome === null) {
@@ -709,23 +1397,42 @@ export class ArbitrageEngine {
     const polyWin = position.polyOutcome === position.polyTarget;
     const kalshiWin = position.kalshiOutcome === position.kalshiTarget;
     const payout =
-      (polyWin ? position.shares : 0) + (kalshiWin ? position.shares : 0);
+      (polyWin ? position.polyShares : 0) +
+      (kalshiWin ? position.kalshiShares : 0);
     const netPnl = payout - position.costTotal;
+    let nakedPnl = 0;
+    if (position.unhedgedVenue) {
+      const nakedWin =
+        position.unhedgedVenue === "polymarket" ? polyWin : kalshiWin;
+      nakedPnl =
+        (nakedWin ? position.unhedgedShares : 0) - position.unhedgedCost;
+      this.summary.legRiskPnl += nakedPnl;
+    }
+    // Unwind PnL was booked at entry; it still counts toward this trade's result.
+    const tradePnl = netPnl + position.legRiskRealized;
 
-    if (netPnl >= 0) {
+    if (tradePnl >= 0) {
       this.summary.wins += 1;
     } else {
       this.summary.losses += 1;
     }
     this.summary.totalProfit += netPnl;
 
-    const result = `${netPnl >= 0 ? "WIN" : "LOSS"} net=${netPnl.toFixed(
+    const legRiskLabel =
+      position.unhedgedVenue || position.legRiskRealized !== 0
+        ? ` legRisk=${(nakedPnl + position.legRiskRealized).toFixed(2)}`
+        : "";
+    // With different thresholds the settlement can land in the band between them.
+    const bandLabel =
+      polyWin && kalshiWin ? " band=bothWon" : !polyWin && !kalshiWin ? " band=bothLost" : "";
+    const result = `${tradePnl >= 0 ? "WIN" : "LOSS"} net=${tradePnl.toFixed(
       2,
-    )} poly=${position.polyOutcome} kalshi=${position.kalshiOutcome}`;
+    )} poly=${position.polyOutcome} kalshi=${position.kalshiOutcome}${legRiskLabel}${bandLabel}`;
     state.lastResult = result;
     this.logger.log(
       `${position.polySnap.coin.toUpperCase()} ARB_RESOLVED ${result}`,
     );
+    this.recordSettlement(position, tradePnl, nowMs);
 
     if (
       this.mismatchLogger &&
@@ -736,9 +1443,72 @@ export class ArbitrageEngine {
       this.logMismatch(position, nowMs);
     }
 
+    this.risk.close(position.riskTicket, netPnl, nowMs);
     state.position = null;
   }
 
+  private applyRecordedOutcomes(
+    position: ArbitragePosition,
+    polyClosed: boolean,
+    kalshiClosed: boolean,
+    nowMs: number,
+  ): void {
+    const source = this.outcomeSource;
+    if (!source) return;
+
+    if (polyClosed && position.polyOutcome === null) {
+      const recorded = source.resolve(position.polySnap);
+      if (recorded) {
+        position.polyOfficialOutcome = recorded;
+        position.polyOfficialOutcomeSource = "recorded";
+        position.polyOutcome = recorded;
+      } else {
+        const finalPrice = computeFinalPrice(position.polySnap, nowMs, {
+          ...FINAL_PRICE_OPTIONS,
+          allowStaleAfterMs: 0,
+        });
+        const threshold = resolveThreshold(position.polySnap);
+        position.polyClosePrice = finalPrice.value;
+        position.polyClosePriceSource = finalPrice.source;
+        position.polyCloseThreshold = threshold.value;
+        position.polyCloseThresholdSource = threshold.source;
+        if (finalPrice.value !== null) {
+          position.polyOutcome = computeOutcomeFromValues(
+            finalPrice.value,
+            threshold.value,
+          );
+        }
+      }
+      position.polyCloseCapturedMs = nowMs;
+    }
+
+    if (kalshiClosed && position.kalshiOutcome === null) {
+      const recorded = source.resolve(position.kalshiSnap);
+      if (recorded) {
+        position.kalshiOfficialOutcome = recorded;
+        position.kalshiOfficialOutcomeSource = "recorded";
+        position.kalshiOutcome = recorded;
+      } else {
+        const finalPrice = computeFinalPrice(position.kalshiSnap, nowMs, {
+          ...FINAL_PRICE_OPTIONS,
+          allowStaleAfterMs: 0,
+        });
+        const threshold = resolveThreshold(position.kalshiSnap);
+        position.kalshiClosePrice = finalPrice.value;
+        position.kalshiClosePriceSource = finalPrice.source;
+        position.kalshiCloseThreshold = threshold.value;
+        position.kalshiCloseThresholdSource = threshold.source;
+        if (finalPrice.value !== null) {
+          position.kalshiOutcome = computeOutcomeFromValues(
+            finalPrice.value,
+            threshold.value,
+          );
+        }
+      }
+      position.kalshiCloseCapturedMs = nowMs;
+    }
+  }
+
   private maybeFetchPolymarketOfficial(
     position: ArbitragePosition,
     nowMs: number,
@@ -811,6 +1581,9 @@ export class ArbitrageEngine {
     )
       return;
 
+    const client = this.kalshiOutcomeClient;
+    if (!client) return;
+
     position.kalshiOfficialFetchPending = true;
     position.kalshiOfficialFetchAttempts += 1;
     position.kalshiOfficialFetchLastMs = nowMs;
@@ -821,7 +1594,7 @@ export class ArbitrageEngine {
       return;
     }
 
-    void fetchKalshiOfficialOutcome(this.kalshiOutcomeClient, ticker)
+    void fetchKalshiOfficialOutcome(client, ticker)
       .then((result) => {
         position.kalshiOfficialFetchPending = false;
         if (result.outcome) {
@@ -859,6 +1632,131 @@ export class ArbitrageEngine {
       });
   }
 
+  private recordCommit(
+    coin: CoinSymbol,
+    pending: PendingOrder,
+    selected: Candidate,
+    timeLeftSec: number | null,
+    nowMs: number,
+  ): void {
+    if (!this.journal) return;
+    const base = {
+      ts: nowMs,
+      source: "arbitrage" as const,
+      engine: this.name,
+      coin,
+      market: pending.marketKey,
+    };
+    this.journal.record({
+      ...base,
+      type: "candidate",
+      orderId: pending.orderId,
+      direction: selected.direction,
+      gap: selected.estimate.gap,
+      netGap: selected.estimate.netGap,
+      shares: selected.estimate.shares,
+      cost: selected.estimate.totalCost,
+      details: {
+        timeLeftSec,
+        band: selected.band.band,
+        bandWidthPct: selected.band.widthPct,
+        pBothWin: selected.risk.pBothWin,
+        pBothLose: selected.risk.pBothLose,
+        sizeScale: selected.sizeScale,
+      },
+    });
+    this.journal.record({
+      ...base,
+      type: "order",
+      orderId: pending.orderId,
+      direction: pending.direction,
+      shares: selected.estimate.shares,
+      cost: selected.estimate.totalCost,
+      delayMs: pending.delayMs,
+    });
+  }
+
+  private recordCancel(coin: CoinSymbol, pending: PendingOrder, reason: string, nowMs: number): void {
+    this.journal?.record({
+      type: "cancel",
+      ts: nowMs,
+      source: "arbitrage",
+      engine: this.name,
+      coin,
+      market: pending.marketKey,
+      orderId: pending.orderId,
+      reason,
+    });
+  }
+
+  private recordFill(
+    coin: CoinSymbol,
+    pending: PendingOrder,
+    legs: LegManager,
+    gap: number | null,
+    fillSource: string,
+    nowMs: number,
+  ): void {
+    if (!this.journal) return;
+    const journalLegs: JournalLeg[] = [legs.poly, legs.kalshi]
+      .filter((leg) => leg.filledShares > 0)
+      .map((leg) => ({
+        venue: leg.venue,
+        side: "buy",
+        outcome: leg.venue === "polymarket" ? pending.polyTarget : leg.tokenId,
+        shares: leg.filledShares,
+        avgPrice: legAvgPrice(leg),
+        cost: leg.cost,
+        fee: leg.fees,
+      }));
+    this.journal.record({
+      type: "fill",
+      ts: nowMs,
+      source: "arbitrage",
+      engine: this.name,
+      coin,
+      market: pending.marketKey,
+      orderId: pending.orderId,
+      direction: pending.direction,
+      legs: journalLegs,
+      expectedGap: pending.originalGap,
+      gap,
+      slippage: gap === null ? null : gap - pending.originalGap,
+      realizedPnl: legs.getRealizedPnl(),
+      fillSource,
+    });
+  }
+
+  private recordSettlement(position: ArbitragePosition, pnl: number, nowMs: number): void {
+    if (!this.journal) return;
+    const outcomes = resolveJournalOutcomes(position);
+    const base = {
+      ts: nowMs,
+      source: "arbitrage" as const,
+      engine: this.name,
+      coin: position.polySnap.coin,
+      market: position.marketKey,
+      orderId: position.orderId,
+      outcomes,
+    };
+    this.journal.record({
+      ...base,
+      type: "settlement",
+      pnl,
+      result: pnl >= 0 ? "win" : "loss",
+    });
+    if (position.polyOutcome !== position.kalshiOutcome) {
+      this.journal.record({
+        ...base,
+        type: "mismatch",
+        polyThreshold: resolveThreshold(position.polySnap).value,
+        kalshiThreshold: resolveThreshold(position.kalshiSnap).value,
+        predictedBothWin: position.mismatchRisk.pBothWin,
+        predictedBothLose: position.mismatchRisk.pBothLose,
+      });
+    }
+  }
+
   private logMismatch(position: ArbitragePosition, nowMs: number): void {
     if (!this.mismatchLogger) return;
     const polyThreshold = resolveThreshold(position.polySnap).value;
@@ -900,6 +1798,8 @@ export class ArbitrageEngine {
       kalshiCloseTimeIso: kalshiCloseIso,
       polyDataStatus: position.polySnap.dataStatus,
       kalshiDataStatus: position.kalshiSnap.dataStatus,
+      predictedBothWinProb: position.mismatchRisk.pBothWin,
+      predictedBothLoseProb: position.mismatchRisk.pBothLose,
     };
 
     this.mismatchLogger.log(
@@ -915,6 +1815,12 @@ interface Candidate {
   estimate: FillEstimate;
   polyTarget: NormalizedOutcome;
   kalshiTarget: NormalizedOutcome;
+  /** The Kalshi strike this pair trades (the selected market or a ladder strike). */
+  kalshiSnap: MarketSnapshot;
+  band: StrikeBandRisk;
+  risk: MismatchRisk;
+  /** Fraction of the fill budget used after mismatch downsizing. */
+  sizeScale: number;
 }
 
 interface DisplayEstimate {
@@ -961,12 +1867,114 @@ function resolveDataStatus(
   return "healthy";
 }
 
+function resolveKalshiKey(kalshiSnap: MarketSnapshot): string {
+  return kalshiSnap.slug ?? kalshiSnap.marketTicker ?? "kalshi";
+}
+
+function resolveJournalOutcome(
+  venue: MarketProvider,
+  outcome: NormalizedOutcome | null,
+  official: NormalizedOutcome | null,
+  officialSource: string | null,
+): JournalOutcome {
+  if (official !== null && official === outcome) {
+    return {
+      venue,
+      outcome,
+      source: officialSource === "recorded" ? "recorded" : "official",
+      detail: officialSource === "recorded" ? null : officialSource,
+    };
+  }
+  return { venue, outcome: outcome ?? "UNKNOWN", source: "derived", detail: null };
+}
+
+function resolveJournalOutcomes(position: ArbitragePosition): JournalOutcome[] {
+  return [
+    resolveJournalOutcome(
+      "polymarket",
+      position.polyOutcome,
+      position.polyOfficialOutcome,
+      position.polyOfficialOutcomeSource,
+    ),
+    resolveJournalOutcome(
+      "kalshi",
+      position.kalshiOutcome,
+      position.kalshiOfficialOutcome,
+      position.kalshiOfficialOutcomeSource,
+    ),
+  ];
+}
+
+/** Ladders are re-read from the live event; a saved position only needs its own strike. */
+function withoutStrikeLadder(snapshot: MarketSnapshot): MarketSnapshot {
+  const { strikeLadder: _strikeLadder, ...rest } = snapshot;
+  return rest;
+}
+
 function buildMarketKey(
   polySnap: MarketSnapshot,
   kalshiSnap: MarketSnapshot,
 ): string {
-  const kalshiKey = kalshiSnap.slug ?? kalshiSnap.marketTicker ?? "kalshi";
-  return `${polySnap.slug}|${kalshiKey}`;
+  return `${polySnap.slug}|${resolveKalshiKey(kalshiSnap)}`;
+}
+
+function resolveStrikeBand(
+  direction: ArbitrageDirection,
+  polySnap: MarketSnapshot,
+  kalshiSnap: MarketSnapshot,
+): StrikeBandRisk {
+  const polyThreshold = resolveThreshold(polySnap).value ?? 0;
+  const kalshiStrike = resolveThreshold(kalshiSnap).value ?? 0;
+  if (polyThreshold <= 0 || kalshiStrike <= 0) {
+    // Unknown thresholds cannot be compared; treat the pair as matched.
+    return classifyStrikeBand("UP", polyThreshold, polyThreshold);
+  }
+  return classifyStrikeBand(
+    direction === "upNo" ? "UP" : "DOWN",
+    polyThreshold,
+    kalshiStrike,
+  );
+}
+
+/**
+ * Chance the venues settle the pair differently, from spot, both thresholds
+ * and realized volatility. Without volatility there is nothing to scale the
+ * time left by, so no risk is assumed.
+ */
+function resolveMismatchRisk(
+  direction: ArbitrageDirection,
+  polySnap: MarketSnapshot,
+  kalshiSnap: MarketSnapshot,
+  config: ArbitrageCoinConfig,
+): MismatchRisk {
+  const timeLeft = resolveMinTimeLeft(polySnap, kalshiSnap) ?? 0;
+  const horizonVol = resolveHorizonVol(polySnap, timeLeft);
+  if (horizonVol === null) return NO_MISMATCH_RISK;
+  const spot = polySnap.cryptoPrice;
+  return estimateMismatchRisk({
+    polyTarget: direction === "upNo" ? "UP" : "DOWN",
+    spot,
+    polyThreshold: resolveThreshold(polySnap).value ?? 0,
+    kalshiThreshold: resolveThreshold(kalshiSnap).value ?? 0,
+    horizonVol,
+    basisSd: (spot * config.settlementBasisBps) / 10_000,
+  });
+}
+
+function formatMismatchSuffix(candidate: Candidate): string {
+  const { risk, sizeScale } = candidate;
+  if (risk.pBothWin <= 0 && risk.pBothLose <= 0) return "";
+  const downsized = sizeScale < 1 ? ` downsized=${(sizeScale * 100).toFixed(0)}%` : "";
+  return ` pBothWin=${risk.pBothWin.toFixed(3)} pBothLose=${risk.pBothLose.toFixed(
+    3,
+  )} expGap=${(candidate.estimate.netGap + risk.edge).toFixed(4)}${downsized}`;
+}
+
+function formatBandSuffix(kalshiSnap: MarketSnapshot, band: StrikeBandRisk): string {
+  if (band.band === "none") return "";
+  return ` kalshi=${resolveKalshiKey(kalshiSnap)} strike=${band.kalshiStrike.toFixed(
+    2,
+  )} band=${formatStrikeBand(band)}`;
 }
 
 function isSnapshotClosed(snapshot: MarketSnapshot, now: number): boolean {
@@ -1021,12 +2029,70 @@ function isFreshEnough(
   return true;
 }
 
+function resolveLimitPrice(price: number): number {
+  const cents = Math.ceil((price + EXEC_LIMIT_SLIPPAGE) * 100 - 1e-9);
+  return Math.min(99, Math.max(1, cents)) / 100;
+}
+
+function resolveUnwindPrice(bestBid: number | null): number {
+  if (bestBid === null || !Number.isFinite(bestBid)) return 0.01;
+  const cents = Math.floor((bestBid - EXEC_LIMIT_SLIPPAGE) * 100 + 1e-9);
+  return Math.min(99, Math.max(1, cents)) / 100;
+}
+
+function resolvePolyTokenId(
+  direction: ArbitrageDirection,
+  polySnap: MarketSnapshot,
+): string | null {
+  return direction === "upNo" ? polySnap.upTokenId : polySnap.downTokenId;
+}
+
+function resolveKalshiTokenId(direction: ArbitrageDirection): string {
+  return direction === "upNo" ? "NO" : "YES";
+}
+
+/** Per-leg limit: the deepest ask needed for `shares`, plus slippage. */
+function resolveLegLimits(
+  direction: ArbitrageDirection,
+  polySnap: MarketSnapshot,
+  kalshiSnap: MarketSnapshot,
+  shares: number,
+): { poly: number; kalshi: number } | null {
+  const polyWorst = worstAskPrice(
+    resolveAsks(polySnap, resolvePolyTokenId(direction, polySnap)),
+    shares,
+  );
+  const kalshiWorst = worstAskPrice(
+    resolveAsks(kalshiSnap, resolveKalshiTokenId(direction)),
+    shares,
+  );
+  if (polyWorst === null || kalshiWorst === null) return null;
+  return {
+    poly: resolveLimitPrice(polyWorst),
+    kalshi: resolveLimitPrice(kalshiWorst),
+  };
+}
+
+interface PlacedLeg {
+  fill: LegFill;
+  sentShares: number;
+}
+
+function toLegFill(report: ExecutionReport): LegFill {
+  if (report.filledShares <= 0) return { shares: 0, cost: 0 };
+  return {
+    shares: report.filledShares,
+    cost: report.filledShares * report.avgPrice,
+  };
+}
+
 function buildCandidate(
   direction: ArbitrageDirection,
   polySnap: MarketSnapshot,
   kalshiSnap: MarketSnapshot,
   budgetUsd: number,
   config: ArbitrageCoinConfig,
+  fees: VenueFeeModels,
 ): Candidate | null {
   const polyTokenId =
     direction === "upNo" ? polySnap.upTokenId : polySnap.downTokenId;
@@ -1037,11 +2103,26 @@ function buildCandidate(
   const kalshiAsks = resolveAsks(kalshiSnap, kalshiTokenId);
   if (polyAsks.length === 0 || kalshiAsks.length === 0) return null;
 
-  const estimate = computeFillEstimate(polyAsks, kalshiAsks, budgetUsd);
+  const estimate = computeFillEstimate(polyAsks, kalshiAsks, budgetUsd, fees);
   if (!estimate) return null;
   if (estimate.totalCost < config.minSpendTotal) return null;
   if (estimate.totalCost > config.maxSpendTotal) return null;
-  if (estimate.gap < config.minGap) return null;
+  if (estimate.netGap < config.minGap) return null;
+  const band = resolveStrikeBand(direction, polySnap, kalshiSnap);
+  if (!isBandAllowed(band, config.maxLoseBandPct)) return null;
+
+  // Expected value after mismatch risk must still clear minGap; a likely
+  // double loss shrinks the size instead of refusing outright.
+  const risk = resolveMismatchRisk(direction, polySnap, kalshiSnap, config);
+  let sized = estimate;
+  let sizeScale = 1;
+  if (config.maxMismatchProb !== null && risk.pBothLose > config.maxMismatchProb) {
+    sizeScale = config.maxMismatchProb / risk.pBothLose;
+    const resized = computeFillEstimate(polyAsks, kalshiAsks, budgetUsd * sizeScale, fees);
+    if (!resized || resized.totalCost < config.minSpendTotal) return null;
+    sized = resized;
+  }
+  if (sized.netGap + risk.edge < config.minGap) return null;
 
   if (config.maxSpread != null) {
     const polySpread = computeSpread(polySnap, polyTokenId);
@@ -1061,9 +2142,13 @@ function buildCandidate(
 
   return {
     direction,
-    estimate,
+    estimate: sized,
     polyTarget: direction === "upNo" ? "UP" : "DOWN",
     kalshiTarget: direction === "upNo" ? "DOWN" : "UP",
+    kalshiSnap,
+    band,
+    risk,
+    sizeScale,
   };
 }
 
@@ -1076,6 +2161,7 @@ function buildCandidateNoValidation(
   polySnap: MarketSnapshot,
   kalshiSnap: MarketSnapshot,
   budgetUsd: number,
+  fees: VenueFeeModels,
 ): Candidate | null {
   const polyTokenId =
     direction === "upNo" ? polySnap.upTokenId : polySnap.downTokenId;
@@ -1086,7 +2172,7 @@ function buildCandidateNoValidation(
   const kalshiAsks = resolveAsks(kalshiSnap, kalshiTokenId);
   if (polyAsks.length === 0 || kalshiAsks.length === 0) return null;
 
-  const estimate = computeFillEstimate(polyAsks, kalshiAsks, budgetUsd);
+  const estimate = computeFillEstimate(polyAsks, kalshiAsks, budgetUsd, fees);
   if (!estimate) return null;
 
   return {
@@ -1094,6 +2180,10 @@ function buildCandidateNoValidation(
     estimate,
     polyTarget: direction === "upNo" ? "UP" : "DOWN",
     kalshiTarget: direction === "upNo" ? "DOWN" : "UP",
+    kalshiSnap,
+    band: resolveStrikeBand(direction, polySnap, kalshiSnap),
+    risk: NO_MISMATCH_RISK,
+    sizeScale: 1,
   };
 }
 
@@ -1102,12 +2192,14 @@ function computeDisplayEstimate(
   polySnap: MarketSnapshot,
   kalshiSnap: MarketSnapshot,
   budgetUsd: number,
+  fees: VenueFeeModels,
 ): DisplayEstimate | null {
   const candidate = buildCandidateNoValidation(
     direction,
     polySnap,
     kalshiSnap,
     budgetUsd,
+    fees,
   );
   if (candidate?.estimate) {
     return { estimate: candidate.estimate, source: "orderbook" };
@@ -1126,18 +2218,8 @@ function computeDisplayEstimate(
   const shares = Math.floor(budgetUsd / costPerShare);
   if (shares <= 0) return null;
 
-  const costPoly = shares * polyAsk;
-  const costKalshi = shares * kalshiAsk;
   return {
-    estimate: {
-      shares,
-      avgPoly: polyAsk,
-      avgKalshi: kalshiAsk,
-      costPoly,
-      costKalshi,
-      totalCost: costPoly + costKalshi,
-      gap: 1 - costPerShare,
-    },
+    estimate: buildFillEstimate(shares, shares * polyAsk, shares * kalshiAsk, fees),
     source: "best_ask",
   };
 }
@@ -1153,23 +2235,31 @@ function computeSpread(
   return Math.max(0, ask - bid);
 }
 
-function chooseCandidate(
-  upNo: Candidate | null,
-  downYes: Candidate | null,
-): Candidate | null {
-  if (upNo && !downYes) return upNo;
-  if (downYes && !upNo) return downYes;
-  if (!upNo || !downYes) return null;
+function chooseCandidate(candidates: Candidate[]): Candidate | null {
+  let best: Candidate | null = null;
+  for (const candidate of candidates) {
+    best = best ? pickBetterCandidate(best, candidate) : candidate;
+  }
+  return best;
+}
 
-  const gapDelta = Math.abs(upNo.estimate.gap - downYes.estimate.gap);
+/**
+ * Highest net gap wins. On a near tie prefer the better strike band, then
+ * the pair that puts more of the spend on Polymarket.
+ */
+function pickBetterCandidate(a: Candidate, b: Candidate): Candidate {
+  const gapDelta = Math.abs(a.estimate.netGap - b.estimate.netGap);
   if (gapDelta <= DEFAULT_TIE_EPSILON) {
-    const upPolyShare = upNo.estimate.costPoly / upNo.estimate.totalCost;
-    const downPolyShare = downYes.estimate.costPoly / downYes.estimate.totalCost;
-    if (upPolyShare > downPolyShare) return upNo;
-    if (downPolyShare > upPolyShare) return downYes;
+    const rankA = bandRank(a.band);
+    const rankB = bandRank(b.band);
+    if (rankA !== rankB) return rankA < rankB ? a : b;
+    const polyShareA = a.estimate.costPoly / a.estimate.totalCost;
+    const polyShareB = b.estimate.costPoly / b.estimate.totalCost;
+    if (polyShareA > polyShareB) return a;
+    if (polyShareB > polyShareA) return b;
   }
 
-  return upNo.estimate.gap >= downYes.estimate.gap ? upNo : downYes;
+  return a.estimate.netGap >= b.estimate.netGap ? a : b;
 }
 
 function shouldAttemptOfficialFetch(
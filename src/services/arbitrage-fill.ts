@@ -1,4 +1,6 @@
 import type { MarketSnapshot, OrderBookLevel } from "./market-data-hub";
+import type { VenueFeeModels } from "./fee-model";
+import type { SeededRng } from "./rng";
 
 export interface FillEstimate {
   shares: number;
@@ -8,12 +10,17 @@ export interface FillEstimate {
   costKalshi: number;
   totalCost: number;
   gap: number;
+  feePoly: number;
+  feeKalshi: number;
+  totalFees: number;
+  /** gap minus fees per share. */
+  netGap: number;
 }
 
-export function randomDelayMs(minMs: number, maxMs: number): number {
+export function randomDelayMs(minMs: number, maxMs: number, rng: SeededRng): number {
   const min = Math.max(0, Math.floor(minMs));
   const max = Math.max(min, Math.floor(maxMs));
-  return min + Math.floor(Math.random() * (max - min + 1));
+  return rng.int(min, max);
 }
 
 export function normalizeAsks(levels: OrderBookLevel[]): OrderBookLevel[] {
@@ -99,23 +106,40 @@ export function findMaxEqualShares(
   return { shares, costA, costB };
 }
 
+export function buildFillEstimate(
+  shares: number,
+  costPoly: number,
+  costKalshi: number,
+  fees?: VenueFeeModels,
+): FillEstimate {
+  const avgPoly = costPoly / shares;
+  const avgKalshi = costKalshi / shares;
+  const feePoly = fees ? fees.polymarket.orderFee(shares, avgPoly) : 0;
+  const feeKalshi = fees ? fees.kalshi.orderFee(shares, avgKalshi) : 0;
+  const gap = 1 - (avgPoly + avgKalshi);
+  const totalFees = feePoly + feeKalshi;
+  return {
+    shares,
+    avgPoly,
+    avgKalshi,
+    costPoly,
+    costKalshi,
+    totalCost: costPoly + costKalshi,
+    gap,
+    feePoly,
+    feeKalshi,
+    totalFees,
+    netGap: gap - totalFees / shares,
+  };
+}
+
 export function computeFillEstimate(
   asksPoly: OrderBookLevel[],
   asksKalshi: OrderBookLevel[],
   budgetUsd: number,
+  fees?: VenueFeeModels,
 ): FillEstimate | null {
   const result = findMaxEqualShares(asksPoly, asksKalshi, budgetUsd);
   if (!result) return null;
-  const avgPoly = result.costA / result.shares;
-  const avgKalshi = result.costB / result.shares;
-  const totalCost = result.costA + result.costB;
-  return {
-    shares: result.shares,
-    avgPoly,
-    avgKalshi,
-    costPoly: result.costA,
-    costKalshi: result.costB,
-    totalCost,
-    gap: 1 - (avgPoly + avgKalshi),
-  };
+  return buildFillEstimate(result.shares, result.costA, result.costB, fees);
 }
@@ -0,0 +1,243 @@
+import type { MarketProvider } from "../providers/provider";
+import type { OrderBookLevel } from "./market-data-hub";
+
+export type LegStatus = "sent" | "partial" | "filled" | "rejected";
+
+/**
+ * What to do when one leg fills and the other does not:
+ * chase  - re-send the missing shares up to `legChaseCents` worse, then unwind what is left
+ * unwind - sell the excess on the filled leg back at the bid
+ * hold   - keep the excess naked until settlement
+ */
+export type LegRiskPolicy = "chase" | "unwind" | "hold";
+
+export const LEG_RISK_POLICIES: LegRiskPolicy[] = ["chase", "unwind", "hold"];
+
+export interface LegRiskSettings {
+  policy: LegRiskPolicy;
+  chaseCents: number;
+}
+
+export interface ArbitrageLeg {
+  venue: MarketProvider;
+  tokenId: string;
+  targetShares: number;
+  limitPrice: number;
+  filledShares: number;
+  cost: number;
+  /** Venue fees paid on the shares still held. */
+  fees: number;
+  status: LegStatus;
+}
+
+export interface LegFill {
+  shares: number;
+  cost: number;
+  fee?: number;
+}
+
+export type LegAction =
+  | { kind: "chase"; venue: MarketProvider; shares: number; limitPrice: number }
+  | { kind: "unwind"; venue: MarketProvider; shares: number }
+  | { kind: "hold"; venue: MarketProvider; shares: number };
+
+export interface UnhedgedLeg {
+  venue: MarketProvider;
+  shares: number;
+  cost: number;
+}
+
+const SHARE_EPSILON = 1e-9;
+
+export function createLeg(
+  venue: MarketProvider,
+  tokenId: string,
+  targetShares: number,
+  limitPrice: number,
+): ArbitrageLeg {
+  return {
+    venue,
+    tokenId,
+    targetShares,
+    limitPrice,
+    filledShares: 0,
+    cost: 0,
+    fees: 0,
+    status: "sent",
+  };
+}
+
+export function legAvgPrice(leg: ArbitrageLeg): number {
+  return leg.filledShares > 0 ? leg.cost / leg.filledShares : 0;
+}
+
+/** Buys up to `shares` from asks priced at or below `limitPrice`, skipping depth already taken. */
+export function walkAsks(
+  asks: OrderBookLevel[],
+  shares: number,
+  limitPrice: number,
+  skipShares: number = 0,
+): LegFill {
+  let skip = Math.max(0, skipShares);
+  let remaining = Math.max(0, shares);
+  let filled = 0;
+  let cost = 0;
+  for (const level of asks) {
+    if (remaining <= 0) break;
+    if (level.price > limitPrice + SHARE_EPSILON) break;
+    let available = level.size;
+    if (skip > 0) {
+      const skipped = Math.min(skip, available);
+      skip -= skipped;
+      available -= skipped;
+    }
+    const take = Math.min(available, remaining);
+    if (take <= 0) continue;
+    filled += take;
+    cost += take * level.price;
+    remaining -= take;
+  }
+  return { shares: filled, cost };
+}
+
+/** Sells up to `shares` into bids (best first); proceeds are returned as `cost`. */
+export function walkBids(bids: OrderBookLevel[], shares: number): LegFill {
+  const sorted = bids
+    .filter((level) => Number.isFinite(level.price) && level.price > 0 && level.size > 0)
+    .sort((a, b) => b.price - a.price);
+  let remaining = Math.max(0, shares);
+  let filled = 0;
+  let proceeds = 0;
+  for (const level of sorted) {
+    if (remaining <= 0) break;
+    const take = Math.min(level.size, remaining);
+    filled += take;
+    proceeds += take * level.price;
+    remaining -= take;
+  }
+  return { shares: filled, cost: proceeds };
+}
+
+/** Price of the deepest ask needed to buy `shares`, or null when the book is too thin. */
+export function worstAskPrice(asks: OrderBookLevel[], shares: number): number | null {
+  let remaining = shares;
+  for (const level of asks) {
+    remaining -= level.size;
+    if (remaining <= 0) return level.price;
+  }
+  return null;
+}
+
+/**
+ * Tracks the two legs of one arbitrage entry and decides how to recover
+ * when they fill unevenly. It holds no venue state; the engine runs each
+ * action (against the books in paper, through the executor live) and feeds
+ * the result back.
+ */
+export class LegManager {
+  readonly poly: ArbitrageLeg;
+  readonly kalshi: ArbitrageLeg;
+  private settings: LegRiskSettings;
+  private chased = false;
+  private settled = false;
+  private unwindProceeds = 0;
+  private unwindCostBasis = 0;
+  private unwoundShares = 0;
+  private feesPaid = 0;
+
+  constructor(poly: ArbitrageLeg, kalshi: ArbitrageLeg, settings: LegRiskSettings) {
+    this.poly = poly;
+    this.kalshi = kalshi;
+    this.settings = settings;
+  }
+
+  getLeg(venue: MarketProvider): ArbitrageLeg {
+    return venue === "polymarket" ? this.poly : this.kalshi;
+  }
+
+  recordFill(venue: MarketProvider, fill: LegFill): void {
+    const leg = this.getLeg(venue);
+    if (fill.shares > 0) {
+      leg.filledShares += fill.shares;
+      leg.cost += fill.cost;
+      leg.fees += fill.fee ?? 0;
+      this.feesPaid += fill.fee ?? 0;
+    }
+    if (leg.filledShares + SHARE_EPSILON >= leg.targetShares) {
+      leg.status = "filled";
+    } else {
+      leg.status = leg.filledShares > 0 ? "partial" : "rejected";
+    }
+  }
+
+  /**
+   * Records a sell-back of `fill.shares` on `venue` (`cost` is the gross
+   * proceeds); returns the realized PnL net of entry and exit fees.
+   */
+  recordUnwind(venue: MarketProvider, fill: LegFill): number {
+    const leg = this.getLeg(venue);
+    const shares = Math.min(fill.shares, leg.filledShares);
+    if (shares <= 0) return 0;
+    const fraction = shares / leg.filledShares;
+    const entryFees = leg.fees * fraction;
+    const costBasis = legAvgPrice(leg) * shares + entryFees;
+    const exitFee = fill.fee ?? 0;
+    leg.cost -= legAvgPrice(leg) * shares;
+    leg.fees -= entryFees;
+    leg.filledShares -= shares;
+    this.unwoundShares += shares;
+    this.unwindProceeds += fill.cost - exitFee;
+    this.unwindCostBasis += costBasis;
+    this.feesPaid += exitFee;
+    return fill.cost - exitFee - costBasis;
+  }
+
+  getHedgedShares(): number {
+    return Math.min(this.poly.filledShares, this.kalshi.filledShares);
+  }
+
+  getUnhedged(): UnhedgedLeg | null {
+    const excess = this.poly.filledShares - this.kalshi.filledShares;
+    if (Math.abs(excess) <= SHARE_EPSILON) return null;
+    const leg = excess > 0 ? this.poly : this.kalshi;
+    const shares = Math.abs(excess);
+    const fees = leg.filledShares > 0 ? (leg.fees * shares) / leg.filledShares : 0;
+    return { venue: leg.venue, shares, cost: shares * legAvgPrice(leg) + fees };
+  }
+
+  getUnwoundShares(): number {
+    return this.unwoundShares;
+  }
+
+  /** All fees paid so far, including those on unwound shares. */
+  getFeesPaid(): number {
+    return this.feesPaid;
+  }
+
+  getRealizedPnl(): number {
+    return this.unwindProceeds - this.unwindCostBasis;
+  }
+
+  nextAction(): LegAction | null {
+    if (this.settled) return null;
+    const unhedged = this.getUnhedged();
+    if (!unhedged) return null;
+
+    if (this.settings.policy === "chase" && !this.chased) {
+      this.chased = true;
+      const short = unhedged.venue === "polymarket" ? this.kalshi : this.poly;
+      return {
+        kind: "chase",
+        venue: short.venue,
+        shares: unhedged.shares,
+        limitPrice: Math.min(0.99, short.limitPrice + this.settings.chaseCents / 100),
+      };
+    }
+
+    this.settled = true;
+    if (this.settings.policy === "hold") {
+      return { kind: "hold", venue: unhedged.venue, shares: unhedged.shares };
+    }
+    return { kind: "unwind", venue: unhedged.venue, shares: unhedged.shares };
+  }
+}
@@ -7,9 +7,10 @@ import {
   type EventDetails,
   type MarketDetails,
 } from "./market-service";
+import { getCoinRegistry } from "./coin-registry";
 
 const UPDOWN_SLUG_RE =
-  /^(eth|btc|sol|xrp)-(?:updown|up-or-down)-(\d+[hm])-(\d{9,13})/i;
+  /^([a-z0-9]+)-(?:updown|up-or-down)-(\d+[hmd]|hourly|daily)-(\d{9,13})/i;
 
 function parseEnvNumber(
   name: string,
@@ -27,7 +28,85 @@ function parseEnvNumber(
 const MIN_LIQUIDITY = parseEnvNumber("AUTO_MARKET_MIN_LIQUIDITY", 0, 0);
 const MIN_VOLUME_24H = parseEnvNumber("AUTO_MARKET_MIN_VOLUME_24H", 0, 0);
 
-export type CoinSymbol = "eth" | "btc" | "sol" | "xrp";
+/** Lower-case coin id from the coin registry (e.g. "eth"). */
+export type CoinSymbol = string;
+
+/** Length of one Up/Down market window. */
+export type MarketHorizon = "15m" | "1h" | "4h" | "daily";
+
+export const MARKET_HORIZONS: MarketHorizon[] = ["15m", "1h", "4h", "daily"];
+export const DEFAULT_MARKET_HORIZON: MarketHorizon = "15m";
+
+const HORIZON_DURATION_MS: Record<MarketHorizon, number> = {
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+/** Duration tokens used in Polymarket series and market slugs, preferred first. */
+const HORIZON_SLUG_TOKENS: Record<MarketHorizon, string[]> = {
+  "15m": ["15m"],
+  "1h": ["1h", "hourly"],
+  "4h": ["4h"],
+  daily: ["1d", "daily"],
+};
+
+export function horizonDurationMs(horizon: MarketHorizon): number {
+  return HORIZON_DURATION_MS[horizon];
+}
+
+export function horizonSlugTokens(horizon: MarketHorizon): string[] {
+  return HORIZON_SLUG_TOKENS[horizon];
+}
+
+/** Accepts a horizon name or any of its slug tokens (e.g. "60m", "hourly", "24h"). */
+export function parseMarketHorizon(value: string): MarketHorizon | null {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "60m") return "1h";
+  if (normalized === "240m") return "4h";
+  if (normalized === "24h") return "daily";
+  for (const horizon of MARKET_HORIZONS) {
+    if (horizon === normalized || HORIZON_SLUG_TOKENS[horizon].includes(normalized)) {
+      return horizon;
+    }
+  }
+  return null;
+}
+
+export function parseUpDownSlugHorizon(slug: string): MarketHorizon | null {
+  const match = slug.match(UPDOWN_SLUG_RE);
+  const token = match?.[2];
+  return token ? parseMarketHorizon(token) : null;
+}
+
+/** Registry coin whose Polymarket slug prefix starts an Up/Down slug. */
+export function parseUpDownSlugCoin(slug: string): CoinSymbol | null {
+  const prefix = slug.match(UPDOWN_SLUG_RE)?.[1]?.toLowerCase();
+  if (!prefix) return null;
+  const registry = getCoinRegistry();
+  return registry.ids().find((coin) => registry.get(coin).polymarketSlugPrefix === prefix) ?? null;
+}
+
+export function isUpDownSlugForHorizon(
+  slug: string | undefined,
+  coin: CoinSymbol,
+  horizon: MarketHorizon,
+): boolean {
+  if (!slug) return false;
+  const prefix = slug.match(UPDOWN_SLUG_RE)?.[1]?.toLowerCase();
+  if (prefix !== getCoinRegistry().get(coin).polymarketSlugPrefix) return false;
+  return parseUpDownSlugHorizon(slug) === horizon;
+}
+
+/** Polymarket series slugs that list a coin's Up/Down markets for one horizon. */
+export function upDownSeriesSlugs(coin: CoinSymbol, horizon: MarketHorizon): string[] {
+  const prefix = getCoinRegistry().get(coin).polymarketSlugPrefix;
+  return HORIZON_SLUG_TOKENS[horizon].flatMap((token) => [
+    `${prefix}-up-or-down-${token}`,
+    `${prefix}-updown-${token}`,
+  ]);
+}
 
 export interface AutoMarketResult {
   market: MarketDetails;
@@ -193,13 +272,11 @@ function pickClosestMarket(
 
 export async function findLatestUpDownMarket(
   coin: CoinSymbol,
-  duration: "15m" = "15m",
+  horizon: MarketHorizon = DEFAULT_MARKET_HORIZON,
   minStartMs?: number,
 ): Promise<AutoMarketResult | null> {
-  const seriesSlugs = [
-    `${coin}-up-or-down-${duration}`,
-    `${coin}-updown-${duration}`,
-  ];
+  const tokens = HORIZON_SLUG_TOKENS[horizon];
+  const seriesSlugs = upDownSeriesSlugs(coin, horizon);
   for (const seriesSlug of seriesSlugs) {
     const series = await getSeriesBySlug(seriesSlug);
     if (series?.events && series.events.length > 0) {
@@ -213,16 +290,12 @@ export async function findLatestUpDownMarket(
     }
   }
 
-  const term = `${coin} updown ${duration}`;
+  const term = `${getCoinRegistry().get(coin).polymarketSlugPrefix} updown ${tokens[0]}`;
   const search = await searchByKeyword(term, 50);
 
-  const slugPattern = new RegExp(
-    `^${coin}-(?:updown|up-or-down)-${duration}-`,
-    "i",
-  );
   const candidates = search.markets.filter(
     (market) =>
-      slugPattern.test(market.slug || "") &&
+      isUpDownSlugForHorizon(market.slug, coin, horizon) &&
       isUpDownMarket(market) &&
       isMarketTradeable(market) &&
       passesLiquidityFilters(market),
@@ -0,0 +1,240 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import type { CoinSymbol } from "./auto-market";
+import { stripJsonComments } from "./profile-config";
+
+/** One tradable asset and its identifiers on every feed and venue. */
+export interface CoinDefinition {
+  id: CoinSymbol;
+  name: string;
+  /** Extra names accepted for --coins and config keys (e.g. "ethereum"). */
+  aliases: string[];
+  /** Leading token of Polymarket Up/Down slugs, e.g. "eth" in eth-updown-15m-... */
+  polymarketSlugPrefix: string;
+  /** Default Kalshi 15m series when the Kalshi coin entry selects nothing. */
+  kalshiSeriesTicker: string | null;
+  /** Chainlink symbol on the Polymarket RTDS feed, e.g. "eth/usd". */
+  rtdsSymbol: string;
+  /** Binance spot pair for historical ticks, e.g. "ETHUSDT"; null = none. */
+  binanceSymbol: string | null;
+  /** CoinGecko id for the historical reference fallback; null = none. */
+  coingeckoId: string | null;
+}
+
+const BUILTIN_COINS: CoinDefinition[] = [
+  {
+    id: "eth",
+    name: "Ethereum",
+    aliases: ["ethereum"],
+    polymarketSlugPrefix: "eth",
+    kalshiSeriesTicker: "KXETH15M",
+    rtdsSymbol: "eth/usd",
+    binanceSymbol: "ETHUSDT",
+    coingeckoId: "ethereum",
+  },
+  {
+    id: "btc",
+    name: "Bitcoin",
+    aliases: ["bitcoin"],
+    polymarketSlugPrefix: "btc",
+    kalshiSeriesTicker: "KXBTC15M",
+    rtdsSymbol: "btc/usd",
+    binanceSymbol: "BTCUSDT",
+    coingeckoId: "bitcoin",
+  },
+  {
+    id: "sol",
+    name: "Solana",
+    aliases: ["solana"],
+    polymarketSlugPrefix: "sol",
+    kalshiSeriesTicker: "KXSOL15M",
+    rtdsSymbol: "sol/usd",
+    binanceSymbol: "SOLUSDT",
+    coingeckoId: "solana",
+  },
+  {
+    id: "xrp",
+    name: "XRP",
+    aliases: ["ripple"],
+    polymarketSlugPrefix: "xrp",
+    kalshiSeriesTicker: null,
+    rtdsSymbol: "xrp/usd",
+    binanceSymbol: "XRPUSDT",
+    coingeckoId: "ripple",
+  },
+];
+
+const COIN_ID_RE = /^[a-z0-9]+$/;
+
+/**
+ * Lookup over the configured coins. Ids are lower-case; aliases and RTDS
+ * symbols resolve back to the id, and unknown ids get default identifiers.
+ */
+export class CoinRegistry {
+  private coins: Map<CoinSymbol, CoinDefinition> = new Map();
+  private byKey: Map<string, CoinSymbol> = new Map();
+  private byRtdsSymbol: Map<string, CoinSymbol> = new Map();
+
+  constructor(definitions: CoinDefinition[]) {
+    for (const definition of definitions) {
+      this.coins.set(definition.id, definition);
+      this.byRtdsSymbol.set(definition.rtdsSymbol.toLowerCase(), definition.id);
+    }
+    // Ids win over aliases so a new coin cannot shadow an existing id.
+    for (const definition of definitions) {
+      for (const alias of definition.aliases) {
+        this.byKey.set(alias.toLowerCase(), definition.id);
+      }
+    }
+    for (const definition of definitions) {
+      this.byKey.set(definition.id, definition.id);
+    }
+  }
+
+  ids(): CoinSymbol[] {
+    return Array.from(this.coins.keys());
+  }
+
+  get(coin: CoinSymbol): CoinDefinition {
+    return this.coins.get(coin) ?? defaultDefinition(coin);
+  }
+
+  /** Resolves an id or alias (any case) to a coin id. */
+  resolve(key: string): CoinSymbol | null {
+    return this.byKey.get(key.toLowerCase().trim()) ?? null;
+  }
+
+  coinForRtdsSymbol(symbol: string): CoinSymbol | null {
+    return this.byRtdsSymbol.get(symbol.toLowerCase()) ?? null;
+  }
+}
+
+function defaultDefinition(id: CoinSymbol): CoinDefinition {
+  return {
+    id,
+    name: id.toUpperCase(),
+    aliases: [],
+    polymarketSlugPrefix: id,
+    kalshiSeriesTicker: null,
+    rtdsSymbol: `${id}/usd`,
+    binanceSymbol: `${id.toUpperCase()}USDT`,
+    coingeckoId: null,
+  };
+}
+
+function parseOptionalString(
+  value: unknown,
+  context: string,
+  label: string,
+): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new Error(`Config error: ${context} ${label} must be a non-empty string or null`);
+  }
+  return value.trim();
+}
+
+function parseRequiredString(
+  value: unknown,
+  context: string,
+  label: string,
+): string | undefined {
+  const parsed = parseOptionalString(value, context, label);
+  if (parsed === null) {
+    throw new Error(`Config error: ${context} ${label} must be a non-empty string`);
+  }
+  return parsed;
+}
+
+/**
+ * Builds the registry from the top-level `coins` section of config.json.
+ * Entries override the built-in eth/btc/sol/xrp field by field; a new id
+ * defaults to `<id>` slugs, `<id>/usd` on RTDS and `<ID>USDT` on Binance.
+ */
+export function parseCoinRegistry(raw: unknown): CoinRegistry {
+  if (raw === undefined || raw === null) return new CoinRegistry(BUILTIN_COINS);
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Config error: coins must be an object keyed by coin id");
+  }
+  const definitions = new Map<CoinSymbol, CoinDefinition>(
+    BUILTIN_COINS.map((definition) => [definition.id, definition]),
+  );
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const id = key.toLowerCase().trim();
+    const context = `coins.${key}`;
+    if (!COIN_ID_RE.test(id)) {
+      throw new Error(`Config error: ${context} id must be letters and digits only`);
+    }
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new Error(`Config error: ${context} must be an object`);
+    }
+    const record = value as Record<string, unknown>;
+    const base = definitions.get(id) ?? defaultDefinition(id);
+
+    const aliasesRaw = record.aliases;
+    if (
+      aliasesRaw !== undefined &&
+      (!Array.isArray(aliasesRaw) || aliasesRaw.some((alias) => typeof alias !== "string"))
+    ) {
+      throw new Error(`Config error: ${context} aliases must be an array of strings`);
+    }
+    const slugPrefix = parseRequiredString(
+      record.polymarketSlugPrefix,
+      context,
+      "polymarketSlugPrefix",
+    );
+    const kalshiSeriesTicker = parseOptionalString(
+      record.kalshiSeriesTicker,
+      context,
+      "kalshiSeriesTicker",
+    );
+    const binanceSymbol = parseOptionalString(record.binanceSymbol, context, "binanceSymbol");
+    const coingeckoId = parseOptionalString(record.coingeckoId, context, "coingeckoId");
+
+    definitions.set(id, {
+      id,
+      name: parseRequiredString(record.name, context, "name") ?? base.name,
+      aliases: aliasesRaw
+        ? (aliasesRaw as string[]).map((alias) => alias.toLowerCase().trim())
+        : base.aliases,
+      polymarketSlugPrefix: slugPrefix?.toLowerCase() ?? base.polymarketSlugPrefix,
+      kalshiSeriesTicker:
+        kalshiSeriesTicker === undefined
+          ? base.kalshiSeriesTicker
+          : kalshiSeriesTicker?.toUpperCase() ?? null,
+      rtdsSymbol:
+        parseRequiredString(record.rtdsSymbol, context, "rtdsSymbol")?.toLowerCase() ??
+        base.rtdsSymbol,
+      binanceSymbol:
+        binanceSymbol === undefined ? base.binanceSymbol : binanceSymbol?.toUpperCase() ?? null,
+      coingeckoId: coingeckoId === undefined ? base.coingeckoId : coingeckoId,
+    });
+  }
+  return new CoinRegistry(Array.from(definitions.values()));
+}
+
+/** Reads the `coins` section of config.json; a missing file or section gives the built-ins. */
+export function loadCoinRegistry(): CoinRegistry {
+  const path = join(process.cwd(), "config.json");
+  if (!existsSync(path)) return new CoinRegistry(BUILTIN_COINS);
+  const parsed = JSON.parse(stripJsonComments(readFileSync(path, "utf8"))) as Record<
+    string,
+    unknown
+  >;
+  return parseCoinRegistry(parsed.coins);
+}
+
+let activeRegistry: CoinRegistry | null = null;
+
+/** Process-wide registry, loaded from config.json on first use. */
+export function getCoinRegistry(): CoinRegistry {
+  if (!activeRegistry) {
+    activeRegistry = loadCoinRegistry();
+  }
+  return activeRegistry;
+}
+
+export function setCoinRegistry(registry: CoinRegistry | null): void {
+  activeRegistry = registry;
+}
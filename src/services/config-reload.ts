@@ -0,0 +1,176 @@
+import { watch, type FSWatcher } from "fs";
+import { basename, dirname } from "path";
+import type { CoinSymbol } from "./auto-market";
+
+const DEFAULT_DEBOUNCE_MS = 300;
+
+export interface ConfigWatcherOptions {
+  /** Quiet time after the last write before `onChange` runs. */
+  debounceMs?: number;
+}
+
+/**
+ * Calls `onChange` once per burst of writes to a config file. The parent
+ * directory is watched rather than the file, so editors that save by
+ * replacing the file keep triggering reloads.
+ */
+export class ConfigWatcher {
+  private watcher: FSWatcher | null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(path: string, onChange: () => void, options: ConfigWatcherOptions = {}) {
+    const name = basename(path);
+    const debounceMs = Math.max(0, options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+    this.watcher = watch(dirname(path), (_event, filename) => {
+      if (filename && filename !== name) return;
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        onChange();
+      }, debounceMs);
+    });
+  }
+
+  close(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.watcher?.close();
+    this.watcher = null;
+  }
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "unset" : JSON.stringify(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function tierKey(entry: unknown): number | null {
+  return isRecord(entry) && typeof entry.tierSeconds === "number" ? entry.tierSeconds : null;
+}
+
+/**
+ * One `path: old -> new` line per leaf that differs. Rule arrays are
+ * matched by `tierSeconds`, so inserting a tier does not shift the rest.
+ */
+export function diffConfigValues(previous: unknown, next: unknown, path = ""): string[] {
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    const byTier = [...previous, ...next].every((entry) => tierKey(entry) !== null);
+    if (!byTier) {
+      const lines: string[] = [];
+      const length = Math.max(previous.length, next.length);
+      for (let i = 0; i < length; i += 1) {
+        lines.push(...diffConfigValues(previous[i], next[i], `${path}[${i}]`));
+      }
+      return lines;
+    }
+    const before = new Map(previous.map((entry) => [tierKey(entry) as number, entry]));
+    const after = new Map(next.map((entry) => [tierKey(entry) as number, entry]));
+    const tiers = Array.from(new Set([...before.keys(), ...after.keys()])).sort((a, b) => a - b);
+    const lines: string[] = [];
+    for (const tier of tiers) {
+      const tierPath = `${path}[${tier}s]`;
+      const from = before.get(tier);
+      const to = after.get(tier);
+      if (from === undefined || to === undefined) {
+        lines.push(`${tierPath}: ${from === undefined ? "added" : "removed"}`);
+        continue;
+      }
+      lines.push(...diffConfigValues(from, to, tierPath));
+    }
+    return lines;
+  }
+  if (isRecord(previous) && isRecord(next)) {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    const lines: string[] = [];
+    for (const key of keys) {
+      lines.push(...diffConfigValues(previous[key], next[key], path ? `${path}.${key}` : key));
+    }
+    return lines;
+  }
+  if (JSON.stringify(previous) === JSON.stringify(next)) return [];
+  return [`${path || "value"}: ${formatValue(previous)} -> ${formatValue(next)}`];
+}
+
+export interface ConfigReloadPlan<T> {
+  /** Changed configs per running profile, keyed by coin. */
+  updates: Map<string, Map<CoinSymbol, T>>;
+  /** `profile COIN field: old -> new` for every applied change. */
+  changes: string[];
+  /** Edits that cannot be applied to a running engine. */
+  skipped: string[];
+}
+
+/**
+ * Compares freshly loaded configs with what each running engine trades.
+ * Only parameters of running profile/coin pairs can change in place;
+ * removed entries keep their settings, and `restartKeys` (e.g. `horizon`,
+ * which picks the data hubs) need a restart.
+ */
+export function planConfigReload<T extends object>(
+  running: Map<string, Map<CoinSymbol, T>>,
+  loaded: Map<string, Map<CoinSymbol, T>>,
+  restartKeys: Array<keyof T & string> = [],
+): ConfigReloadPlan<T> {
+  const plan: ConfigReloadPlan<T> = { updates: new Map(), changes: [], skipped: [] };
+  for (const [profile, coins] of running.entries()) {
+    const loadedCoins = loaded.get(profile);
+    if (!loadedCoins) {
+      plan.skipped.push(`${profile} is no longer in config.json; it keeps its settings until restart`);
+      continue;
+    }
+    for (const [coin, current] of coins.entries()) {
+      const label = `${profile} ${coin.toUpperCase()}`;
+      const next = loadedCoins.get(coin);
+      if (!next) {
+        plan.skipped.push(`${label} is no longer in config.json; it keeps its settings until restart`);
+        continue;
+      }
+      const blocked = restartKeys.filter((key) => diffConfigValues(current[key], next[key]).length > 0);
+      if (blocked.length > 0) {
+        plan.skipped.push(`${label} ${blocked.join(", ")} changed; restart to apply`);
+        continue;
+      }
+      const lines = diffConfigValues(current, next);
+      if (lines.length === 0) continue;
+      const updates = plan.updates.get(profile) ?? new Map<CoinSymbol, T>();
+      updates.set(coin, next);
+      plan.updates.set(profile, updates);
+      plan.changes.push(...lines.map((line) => `${label} ${line}`));
+    }
+  }
+  return plan;
+}
+
+/**
+ * Config swaps waiting for a safe point. Engines queue reloaded configs
+ * here and apply them per coin once that coin has no pending order.
+ */
+export class PendingConfigUpdates<T> {
+  private queued: Map<CoinSymbol, T> = new Map();
+
+  queue(configs: Map<CoinSymbol, T>): void {
+    for (const [coin, config] of configs.entries()) {
+      this.queued.set(coin, config);
+    }
+  }
+
+  /** Moves queued configs for idle coins into `target`; returns the coins updated. */
+  applyTo(target: Map<CoinSymbol, T>, isBusy: (coin: CoinSymbol) => boolean): CoinSymbol[] {
+    if (this.queued.size === 0) return [];
+    const applied: CoinSymbol[] = [];
+    for (const [coin, config] of this.queued.entries()) {
+      if (!target.has(coin)) {
+        this.queued.delete(coin);
+        continue;
+      }
+      if (isBusy(coin)) continue;
+      target.set(coin, config);
+      this.queued.delete(coin);
+      applied.push(coin);
+    }
+    return applied;
+  }
+}
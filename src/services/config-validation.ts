@@ -0,0 +1,552 @@
+import { readFileSync } from "fs";
+import type { CoinSymbol } from "./auto-market";
+import type { MarketProvider } from "../providers/provider";
+import { parseArbitrageConfig } from "./arbitrage-config";
+import { parseCoinRegistry, setCoinRegistry } from "./coin-registry";
+import { parseVenueFeeConfig } from "./fee-model";
+import {
+  normalizeCoinKey,
+  parseProviderConfig,
+  resolveProfileConfigForCoin,
+} from "./profile-config";
+import type { TimedTradeConfig } from "./profile-engine";
+import { parseRiskLimits } from "./risk-manager";
+import { parseStrategiesConfig } from "../strategies/registry";
+
+export const CONFIG_SCHEMA_VERSION = 2;
+
+export type ConfigIssueSeverity = "error" | "warning";
+
+export interface ConfigIssue {
+  severity: ConfigIssueSeverity;
+  /** JSON path of the offending value, e.g. `$.arbitrage.profiles.a.coins.eth.minGap`. */
+  path: string;
+  message: string;
+}
+
+/** One config exactly as the engine for `provider` would receive it. */
+export interface ResolvedProfileConfig {
+  provider: MarketProvider;
+  profile: string;
+  group: string;
+  coin: CoinSymbol;
+  config: TimedTradeConfig;
+}
+
+export interface ConfigValidationResult {
+  issues: ConfigIssue[];
+  resolved: ResolvedProfileConfig[];
+}
+
+/** The subset of JSON Schema (draft-07) that config.schema.json uses. */
+export interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+  minLength?: number;
+  format?: string;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  patternProperties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  allOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+}
+
+const PROVIDERS: MarketProvider[] = ["polymarket", "kalshi"];
+const IDENTIFIER_RE = /^[A-Za-z_$][\w$]*$/;
+const DEFINITION_REF_PREFIX = "#/definitions/";
+
+/** Reads the published schema shipped next to config.json at the repo root. */
+export function loadConfigSchema(): JsonSchema {
+  const raw = readFileSync(new URL("../../config.schema.json", import.meta.url), "utf8");
+  return JSON.parse(raw) as JsonSchema;
+}
+
+export function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return IDENTIFIER_RE.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isRecord(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const name = ref.startsWith(DEFINITION_REF_PREFIX)
+    ? ref.slice(DEFINITION_REF_PREFIX.length)
+    : null;
+  const target = name ? root.definitions?.[name] : undefined;
+  if (!target) {
+    throw new Error(`Config schema error: unresolved $ref ${ref}`);
+  }
+  return target;
+}
+
+function checkSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  issues: ConfigIssue[],
+): void {
+  const error = (message: string) => issues.push({ severity: "error", path, message });
+
+  if (schema.$ref) {
+    checkSchema(value, resolveRef(root, schema.$ref), path, root, issues);
+  }
+  for (const part of schema.allOf ?? []) {
+    checkSchema(value, part, path, root, issues);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      error(`expected ${types.join(" or ")}, got ${describeType(value)}`);
+      return;
+    }
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    error(`must be ${JSON.stringify(schema.const)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    error(
+      `must be one of ${schema.enum
+        .filter((entry) => entry !== null)
+        .map((entry) => String(entry))
+        .join(", ")}`,
+    );
+    return;
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      error(`must be >= ${schema.minimum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      error(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      error(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      error("must not be empty");
+    }
+    if (schema.format === "regex") {
+      try {
+        new RegExp(value, "i");
+      } catch {
+        error("is not a valid regular expression");
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((entry, index) => {
+      checkSchema(entry, schema.items as JsonSchema, childPath(path, index), root, issues);
+    });
+  }
+
+  if (isRecord(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        error(`missing required key ${key}`);
+      }
+    }
+    const hasKeywords =
+      schema.properties !== undefined ||
+      schema.patternProperties !== undefined ||
+      schema.additionalProperties !== undefined;
+    if (!hasKeywords) return;
+    for (const [key, entry] of Object.entries(value)) {
+      const entryPath = childPath(path, key);
+      const property = schema.properties?.[key];
+      if (property) {
+        checkSchema(entry, property, entryPath, root, issues);
+        continue;
+      }
+      const patterns = Object.entries(schema.patternProperties ?? {}).filter(
+        ([pattern]) => new RegExp(pattern).test(key),
+      );
+      if (patterns.length > 0) {
+        for (const [, patternSchema] of patterns) {
+          checkSchema(entry, patternSchema, entryPath, root, issues);
+        }
+        continue;
+      }
+      if (schema.additionalProperties === false) {
+        // The loaders skip keys they do not know, so these are only warnings.
+        issues.push({ severity: "warning", path: entryPath, message: "unknown key (ignored)" });
+      } else if (isRecord(schema.additionalProperties)) {
+        checkSchema(entry, schema.additionalProperties, entryPath, root, issues);
+      }
+    }
+  }
+}
+
+/** Checks `value` against `schema`, collecting every violation instead of stopping at the first. */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  checkSchema(value, schema, "$", schema, issues);
+  return dedupeIssues(issues);
+}
+
+function dedupeIssues(issues: ConfigIssue[]): ConfigIssue[] {
+  const seen = new Set<string>();
+  return issues.filter((issue) => {
+    const key = `${issue.severity}|${issue.path}|${issue.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function checkRuleTiers(
+  value: Record<string, unknown>,
+  path: string,
+  issues: ConfigIssue[],
+): void {
+  const tradeAllowedTimeLeft = value.tradeAllowedTimeLeft;
+  const tiers = new Map<number, string>();
+  for (const [key, rule] of Object.entries(value)) {
+    const tierSeconds = Number(key);
+    if (key.trim() === "" || !Number.isFinite(tierSeconds)) continue;
+    const rulePath = childPath(path, key);
+    if (!Number.isInteger(tierSeconds) || tierSeconds <= 0) {
+      issues.push({
+        severity: "error",
+        path: rulePath,
+        message: `tier ${key} must be a positive integer`,
+      });
+      continue;
+    }
+    const duplicate = tiers.get(tierSeconds);
+    if (duplicate !== undefined) {
+      issues.push({
+        severity: "error",
+        path: rulePath,
+        message: `tier ${key} overlaps tier ${duplicate} (both are ${tierSeconds}s)`,
+      });
+      continue;
+    }
+    tiers.set(tierSeconds, key);
+    if (typeof tradeAllowedTimeLeft === "number" && tierSeconds > tradeAllowedTimeLeft) {
+      issues.push({
+        severity: "warning",
+        path: rulePath,
+        message: `tier ${tierSeconds}s overlaps the default tier ${tradeAllowedTimeLeft}s and never applies (trading opens at tradeAllowedTimeLeft)`,
+      });
+    }
+    if (!isRecord(rule)) continue;
+    const { minimumSharePrice, maximumSharePrice, minimumSpend, maximumSpend } = rule;
+    if (
+      typeof minimumSharePrice === "number" &&
+      typeof maximumSharePrice === "number" &&
+      minimumSharePrice > maximumSharePrice
+    ) {
+      issues.push({
+        severity: "warning",
+        path: rulePath,
+        message: `minimumSharePrice ${minimumSharePrice} > maximumSharePrice ${maximumSharePrice}: the tier can never trade`,
+      });
+    }
+    if (
+      typeof minimumSpend === "number" &&
+      typeof maximumSpend === "number" &&
+      minimumSpend > maximumSpend
+    ) {
+      issues.push({
+        severity: "warning",
+        path: rulePath,
+        message: `minimumSpend ${minimumSpend} > maximumSpend ${maximumSpend}: the tier can never trade`,
+      });
+    }
+  }
+  if (
+    typeof tradeAllowedTimeLeft === "number" &&
+    Number.isInteger(tradeAllowedTimeLeft) &&
+    tradeAllowedTimeLeft > 0 &&
+    !tiers.has(tradeAllowedTimeLeft)
+  ) {
+    issues.push({
+      severity: "error",
+      path,
+      message: `missing tier ${tradeAllowedTimeLeft} (the default tier named by tradeAllowedTimeLeft)`,
+    });
+  }
+}
+
+function checkUnknownCoin(key: string, path: string, issues: ConfigIssue[]): void {
+  if (normalizeCoinKey(key)) return;
+  issues.push({
+    severity: "warning",
+    path,
+    message: `unknown coin ${key} (ignored); add it to the top-level coins section`,
+  });
+}
+
+function marketGroupIds(
+  provider: Record<string, unknown>,
+  providerPath: string,
+): Array<{ id: string; path: string }> {
+  const groups = provider.marketGroups;
+  if (!Array.isArray(groups)) return [];
+  const groupsPath = childPath(providerPath, "marketGroups");
+  const ids: Array<{ id: string; path: string }> = [];
+  groups.forEach((group, index) => {
+    if (isRecord(group) && typeof group.id === "string" && group.id.trim()) {
+      ids.push({ id: group.id.trim(), path: childPath(groupsPath, index) });
+    }
+  });
+  return ids;
+}
+
+function checkProvider(
+  provider: MarketProvider,
+  raw: Record<string, unknown>,
+  issues: ConfigIssue[],
+): void {
+  const providerPath = childPath("$.providers", provider);
+  const groups = marketGroupIds(raw, providerPath);
+  const seenGroups = new Set<string>();
+  for (const group of groups) {
+    if (seenGroups.has(group.id)) {
+      issues.push({
+        severity: "error",
+        path: group.path,
+        message: `duplicate marketGroup id ${group.id}`,
+      });
+    }
+    seenGroups.add(group.id);
+  }
+  const declared = groups.length > 0 ? seenGroups : new Set(["default"]);
+
+  const coins = raw.coins;
+  if (Array.isArray(coins)) {
+    coins.forEach((coin, index) => {
+      if (typeof coin === "string") {
+        checkUnknownCoin(coin, childPath(childPath(providerPath, "coins"), index), issues);
+      }
+    });
+  } else if (isRecord(coins)) {
+    for (const key of Object.keys(coins)) {
+      checkUnknownCoin(key, childPath(childPath(providerPath, "coins"), key), issues);
+    }
+  }
+
+  const usedGroups = new Set<string>();
+  const profiles = isRecord(raw.profiles) ? raw.profiles : {};
+  for (const [profileName, profile] of Object.entries(profiles)) {
+    if (!isRecord(profile) || !isRecord(profile.markets)) continue;
+    const marketsPath = childPath(childPath(childPath(providerPath, "profiles"), profileName), "markets");
+    for (const [groupId, group] of Object.entries(profile.markets)) {
+      if (!isRecord(group)) continue;
+      const groupPath = childPath(marketsPath, groupId);
+      usedGroups.add(groupId);
+      if (!declared.has(groupId)) {
+        issues.push({
+          severity: "warning",
+          path: groupPath,
+          message: `market group ${groupId} is not in marketGroups, so it is only used as a fallback`,
+        });
+      }
+      for (const [coinKey, config] of Object.entries(group)) {
+        const configPath = childPath(groupPath, coinKey);
+        checkUnknownCoin(coinKey, configPath, issues);
+        if (!isRecord(config)) continue;
+        checkRuleTiers(config, configPath, issues);
+        if (isRecord(config.cross)) {
+          checkRuleTiers(config.cross, childPath(configPath, "cross"), issues);
+        }
+      }
+    }
+  }
+
+  if (Object.keys(profiles).length === 0) return;
+  for (const group of groups) {
+    if (usedGroups.has(group.id)) continue;
+    issues.push({
+      severity: "warning",
+      path: group.path,
+      message: `market group ${group.id} is not used by any ${provider} profile`,
+    });
+  }
+}
+
+function checkArbitrage(raw: Record<string, unknown>, issues: ConfigIssue[]): void {
+  const profiles = isRecord(raw.profiles) ? raw.profiles : {};
+  for (const [profileName, profile] of Object.entries(profiles)) {
+    if (!isRecord(profile) || !isRecord(profile.coins)) continue;
+    const coinsPath = childPath(childPath(childPath("$.arbitrage", "profiles"), profileName), "coins");
+    for (const [coinKey, config] of Object.entries(profile.coins)) {
+      const configPath = childPath(coinsPath, coinKey);
+      checkUnknownCoin(coinKey, configPath, issues);
+      if (!isRecord(config)) continue;
+      const { minSpendTotal, maxSpendTotal, tradeStopTimeLeft, tradeAllowedTimeLeft } = config;
+      if (
+        typeof minSpendTotal === "number" &&
+        typeof maxSpendTotal === "number" &&
+        minSpendTotal > maxSpendTotal
+      ) {
+        issues.push({
+          severity: "error",
+          path: configPath,
+          message: `minSpendTotal ${minSpendTotal} > maxSpendTotal ${maxSpendTotal}`,
+        });
+      }
+      if (
+        typeof tradeStopTimeLeft === "number" &&
+        typeof tradeAllowedTimeLeft === "number" &&
+        tradeStopTimeLeft >= tradeAllowedTimeLeft
+      ) {
+        issues.push({
+          severity: "error",
+          path: childPath(configPath, "tradeStopTimeLeft"),
+          message: `tradeStopTimeLeft ${tradeStopTimeLeft} must be less than tradeAllowedTimeLeft ${tradeAllowedTimeLeft}`,
+        });
+      }
+    }
+  }
+}
+
+function hasErrorAt(issues: ConfigIssue[], path: string): boolean {
+  return issues.some(
+    (issue) =>
+      issue.severity === "error" &&
+      (issue.path === path || issue.path.startsWith(`${path}.`) || issue.path.startsWith(`${path}[`)),
+  );
+}
+
+/**
+ * Runs a section's real loader. Loaders stop at their first problem, so a
+ * failure is only reported when the schema pass found nothing under `path`.
+ */
+function dryRun<T>(issues: ConfigIssue[], path: string, load: () => T): T | null {
+  try {
+    return load();
+  } catch (error) {
+    if (!hasErrorAt(issues, path)) {
+      const message = error instanceof Error ? error.message : String(error);
+      issues.push({ severity: "error", path, message: message.replace(/^Config error: /, "") });
+    }
+    return null;
+  }
+}
+
+function resolveProvider(
+  provider: MarketProvider,
+  config: ReturnType<typeof parseProviderConfig>,
+): ResolvedProfileConfig[] {
+  const resolved: ResolvedProfileConfig[] = [];
+  for (const profile of config.profiles) {
+    const groups = new Set<string>(config.marketGroups.map((group) => group.id));
+    const coins = new Set<CoinSymbol>(config.coinOptions);
+    for (const [groupId, configs] of profile.configsByGroup.entries()) {
+      groups.add(groupId);
+      for (const coin of configs.keys()) coins.add(coin);
+    }
+    for (const group of groups) {
+      for (const coin of coins) {
+        const timed = resolveProfileConfigForCoin(profile, coin, group);
+        if (timed) {
+          resolved.push({ provider, profile: profile.name, group, coin, config: timed });
+        }
+      }
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Validates a parsed config.json in three passes: the published schema,
+ * cross-field rules the schema cannot express, and a dry run of every
+ * loader. Resolved configs come from the dry run, so they match what
+ * `resolveProfileConfigForCoin` hands the engines.
+ */
+export function validateConfig(
+  raw: unknown,
+  schema: JsonSchema = loadConfigSchema(),
+): ConfigValidationResult {
+  const issues = validateAgainstSchema(raw, schema);
+  const resolved: ResolvedProfileConfig[] = [];
+  if (!isRecord(raw)) return { issues, resolved };
+
+  // Coin keys resolve through the registry, so validate against this file's coins.
+  const registry =
+    dryRun(issues, "$.coins", () => parseCoinRegistry(raw.coins)) ??
+    parseCoinRegistry(undefined);
+  setCoinRegistry(registry);
+  try {
+    const providers = isRecord(raw.providers) ? raw.providers : {};
+    for (const provider of PROVIDERS) {
+      const section = providers[provider];
+      if (!isRecord(section)) continue;
+      checkProvider(provider, section, issues);
+    }
+    if (isRecord(raw.arbitrage)) {
+      checkArbitrage(raw.arbitrage, issues);
+    }
+
+    dryRun(issues, "$.risk", () => parseRiskLimits(raw.risk));
+    for (const provider of PROVIDERS) {
+      const section = providers[provider];
+      if (!isRecord(section)) continue;
+      const providerPath = childPath("$.providers", provider);
+      dryRun(issues, childPath(providerPath, "fees"), () =>
+        parseVenueFeeConfig(provider, section.fees),
+      );
+      const config = dryRun(issues, providerPath, () => parseProviderConfig(raw, provider));
+      if (config) {
+        resolved.push(...resolveProvider(provider, config));
+      }
+    }
+    if (raw.arbitrage !== undefined) {
+      dryRun(issues, "$.arbitrage", () => parseArbitrageConfig(raw));
+    }
+    if (raw.strategies !== undefined) {
+      dryRun(issues, "$.strategies", () => parseStrategiesConfig(raw));
+    }
+  } finally {
+    // Back to lazy loading from config.json on disk.
+    setCoinRegistry(null);
+  }
+
+  return { issues: dedupeIssues(issues), resolved };
+}
+
+export function countIssues(issues: ConfigIssue[]): { errors: number; warnings: number } {
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  return { errors, warnings: issues.length - errors };
+}
@@ -1,3 +1,5 @@
+import { getCoinRegistry } from "./coin-registry";
+
 export interface HistoricalPriceResult {
   price: number;
   timestamp: number;
@@ -12,15 +14,9 @@ export async function fetchHistoricalCryptoPrice(
   targetTime: Date,
 ): Promise<HistoricalPriceResult | null> {
   try {
-    const coinId = symbol.includes("eth")
-      ? "ethereum"
-      : symbol.includes("btc")
-        ? "bitcoin"
-        : symbol.includes("sol")
-          ? "solana"
-          : symbol.includes("xrp")
-            ? "ripple"
-            : null;
+    const registry = getCoinRegistry();
+    const coin = registry.coinForRtdsSymbol(symbol);
+    const coinId = coin ? registry.get(coin).coingeckoId : null;
 
     if (!coinId) {
       return null;
@@ -0,0 +1,115 @@
+import { existsSync, readdirSync, readFileSync, renameSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { CoinSymbol } from "./auto-market";
+import type { RiskCheckpoint } from "./risk-manager";
+
+export const CHECKPOINT_VERSION = 1;
+export const CHECKPOINT_FILE = "checkpoint.json";
+/** `--resume latest` picks the most recently saved run under logs/. */
+export const LATEST_RUN = "latest";
+
+const MAP_TAG = "$map";
+
+/** Everything a run needs to pick up where it stopped, written to `<runDir>/checkpoint.json`. */
+export interface RunCheckpoint<E = unknown> {
+  version: number;
+  runId: string;
+  savedAtMs: number;
+  /** Selection the run started with; a resume reuses it unless overridden. */
+  profiles: string[];
+  coins: CoinSymbol[];
+  /** Per engine (profile) name, whatever its `exportCheckpoint` returned. */
+  engines: Record<string, E>;
+  risk: RiskCheckpoint | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Engine state keeps order books and consumption tables in Maps, which
+// JSON would otherwise flatten to `{}`.
+function replacer(_key: string, value: unknown): unknown {
+  if (value instanceof Map) {
+    return { [MAP_TAG]: Array.from(value.entries()) };
+  }
+  return value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (isRecord(value) && Array.isArray(value[MAP_TAG]) && Object.keys(value).length === 1) {
+    return new Map(value[MAP_TAG] as Array<[unknown, unknown]>);
+  }
+  return value;
+}
+
+export function serializeCheckpoint(checkpoint: RunCheckpoint): string {
+  return JSON.stringify(checkpoint, replacer);
+}
+
+export function parseCheckpoint<E = unknown>(text: string): RunCheckpoint<E> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text, reviver);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Checkpoint error: unreadable JSON (${message})`);
+  }
+  if (!isRecord(parsed)) {
+    throw new Error("Checkpoint error: expected an object");
+  }
+  if (parsed.version !== CHECKPOINT_VERSION) {
+    throw new Error(
+      `Checkpoint error: version ${String(parsed.version)} is not supported (expected ${CHECKPOINT_VERSION})`,
+    );
+  }
+  if (typeof parsed.runId !== "string" || !isRecord(parsed.engines)) {
+    throw new Error("Checkpoint error: missing runId or engines");
+  }
+  return parsed as unknown as RunCheckpoint<E>;
+}
+
+/**
+ * Writes the checkpoint next to the run's logs. The file is replaced by a
+ * rename, so a crash mid-write leaves the previous checkpoint intact.
+ */
+export function writeCheckpoint(runDir: string, checkpoint: RunCheckpoint): void {
+  const path = join(runDir, CHECKPOINT_FILE);
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, serializeCheckpoint(checkpoint), "utf8");
+  renameSync(tmpPath, path);
+}
+
+export function readCheckpoint<E = unknown>(runDir: string): RunCheckpoint<E> {
+  const path = join(runDir, CHECKPOINT_FILE);
+  if (!existsSync(path)) {
+    throw new Error(`Checkpoint error: ${path} not found`);
+  }
+  return parseCheckpoint<E>(readFileSync(path, "utf8"));
+}
+
+/**
+ * Maps a `--resume` value to its run directory under `logsDir`: a run id
+ * (`run`, `run3`) or `latest`. Returns null when no checkpoint exists.
+ */
+export function findCheckpointRun(
+  logsDir: string,
+  runId: string,
+): { runDir: string; runId: string } | null {
+  if (runId !== LATEST_RUN) {
+    const runDir = join(logsDir, runId);
+    return existsSync(join(runDir, CHECKPOINT_FILE)) ? { runDir, runId } : null;
+  }
+  if (!existsSync(logsDir)) return null;
+  let latest: { runDir: string; runId: string; mtimeMs: number } | null = null;
+  for (const name of readdirSync(logsDir)) {
+    const runDir = join(logsDir, name);
+    const path = join(runDir, CHECKPOINT_FILE);
+    if (!existsSync(path)) continue;
+    const mtimeMs = statSync(path).mtimeMs;
+    if (!latest || mtimeMs > latest.mtimeMs) {
+      latest = { runDir, runId: name, mtimeMs };
+    }
+  }
+  return latest ? { runDir: latest.runDir, runId: latest.runId } : null;
+}
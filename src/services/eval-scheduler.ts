@@ -0,0 +1,78 @@
+export interface EvalSchedulerOptions {
+  /** Runs the engines; errors are the caller's to catch. */
+  evaluate: (nowMs: number) => void;
+  /** Earliest delayed decision the engines are waiting on, or null. */
+  nextPendingTime: () => number | null;
+  /** Safety tick for time-driven rules (time-left gates, expiry) when no data arrives. */
+  fallbackMs: number;
+  now?: () => number;
+}
+
+/**
+ * Drives live engine evaluation from hub events instead of a tight poll.
+ * `trigger` evaluates immediately (call it from a bus subscriber); a timer
+ * is armed for the next pending decision so delayed fills land on time,
+ * and a slow fallback tick covers rules that only depend on the clock.
+ */
+export class EvalScheduler {
+  private options: EvalSchedulerOptions;
+  private now: () => number;
+  private fallbackTimer: NodeJS.Timeout | null = null;
+  private pendingTimer: NodeJS.Timeout | null = null;
+  private pendingDueMs: number | null = null;
+  private evaluating = false;
+  private stopped = true;
+
+  constructor(options: EvalSchedulerOptions) {
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.fallbackTimer = setInterval(() => this.trigger(), this.options.fallbackMs);
+    this.trigger();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.fallbackTimer) {
+      clearInterval(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
+    this.clearPending();
+  }
+
+  trigger(): void {
+    // An engine that records an event may publish again; one pass covers it.
+    if (this.stopped || this.evaluating) return;
+    this.evaluating = true;
+    try {
+      this.options.evaluate(this.now());
+    } finally {
+      this.evaluating = false;
+      this.armPending();
+    }
+  }
+
+  private armPending(): void {
+    const due = this.options.nextPendingTime();
+    if (due === this.pendingDueMs) return;
+    this.clearPending();
+    if (due === null || this.stopped) return;
+    this.pendingDueMs = due;
+    this.pendingTimer = setTimeout(() => {
+      this.pendingTimer = null;
+      this.pendingDueMs = null;
+      this.trigger();
+    }, Math.max(1, due - this.now()));
+  }
+
+  private clearPending(): void {
+    if (this.pendingTimer) {
+      clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+    this.pendingDueMs = null;
+  }
+}
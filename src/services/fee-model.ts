@@ -0,0 +1,155 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import type { MarketProvider } from "../providers/provider";
+import { stripJsonComments } from "./profile-config";
+
+export type FeeLiquidity = "taker" | "maker";
+
+/**
+ * kalshi - ceil(rate * contracts * price * (1 - price)) to the cent per order
+ * bps     - basis points of notional
+ * none    - no trading fee (fixed costs still apply)
+ */
+export type FeeModelKind = "kalshi" | "bps" | "none";
+
+export interface VenueFeeConfig {
+  model: FeeModelKind;
+  takerRate: number;
+  makerRate: number;
+  takerBps: number;
+  makerBps: number;
+  /** Flat cost per order (e.g. gas). */
+  gasUsd: number;
+  /** Amortized deposit/withdrawal cost, in bps of notional. */
+  withdrawalBps: number;
+}
+
+export interface FeeModel {
+  /** Fee in USD for one order of `shares` filled at an average `price`. */
+  orderFee(shares: number, price: number, liquidity?: FeeLiquidity): number;
+}
+
+export type VenueFeeModels = Record<MarketProvider, FeeModel>;
+
+const FEE_MODEL_KINDS: FeeModelKind[] = ["kalshi", "bps", "none"];
+
+export const DEFAULT_FEE_CONFIG: Record<MarketProvider, VenueFeeConfig> = {
+  polymarket: {
+    model: "bps",
+    takerRate: 0,
+    makerRate: 0,
+    takerBps: 0,
+    makerBps: 0,
+    gasUsd: 0,
+    withdrawalBps: 0,
+  },
+  kalshi: {
+    model: "kalshi",
+    takerRate: 0.07,
+    makerRate: 0.0175,
+    takerBps: 0,
+    makerBps: 0,
+    gasUsd: 0,
+    withdrawalBps: 0,
+  },
+};
+
+const ZERO_FEE_MODEL: FeeModel = { orderFee: () => 0 };
+
+export const NO_FEES: VenueFeeModels = {
+  polymarket: ZERO_FEE_MODEL,
+  kalshi: ZERO_FEE_MODEL,
+};
+
+function ceilToCent(value: number): number {
+  return Math.ceil(value * 100 - 1e-9) / 100;
+}
+
+export function createFeeModel(config: VenueFeeConfig): FeeModel {
+  return {
+    orderFee: (shares, price, liquidity = "taker") => {
+      if (!(shares > 0) || !Number.isFinite(price)) return 0;
+      const notional = shares * price;
+      let trading = 0;
+      if (config.model === "kalshi") {
+        const rate = liquidity === "maker" ? config.makerRate : config.takerRate;
+        const clamped = Math.min(1, Math.max(0, price));
+        trading = ceilToCent(rate * shares * clamped * (1 - clamped));
+      } else if (config.model === "bps") {
+        const bps = liquidity === "maker" ? config.makerBps : config.takerBps;
+        trading = (notional * bps) / 10_000;
+      }
+      return trading + config.gasUsd + (notional * config.withdrawalBps) / 10_000;
+    },
+  };
+}
+
+function parseFeeNumber(
+  raw: Record<string, unknown>,
+  key: keyof VenueFeeConfig,
+  fallback: number,
+  context: string,
+): number {
+  const value = raw[key];
+  if (value === undefined || value === null) return fallback;
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Config error: ${context} ${key} must be a number >= 0`);
+  }
+  return parsed;
+}
+
+export function parseVenueFeeConfig(
+  venue: MarketProvider,
+  raw: unknown,
+): VenueFeeConfig {
+  const defaults = DEFAULT_FEE_CONFIG[venue];
+  if (raw === undefined || raw === null) return { ...defaults };
+  const context = `providers.${venue}.fees`;
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Config error: ${context} must be an object`);
+  }
+  const record = raw as Record<string, unknown>;
+  const model = record.model ?? defaults.model;
+  const kind = FEE_MODEL_KINDS.find((entry) => entry === model);
+  if (!kind) {
+    throw new Error(
+      `Config error: ${context} model must be one of ${FEE_MODEL_KINDS.join(", ")}`,
+    );
+  }
+  return {
+    model: kind,
+    takerRate: parseFeeNumber(record, "takerRate", defaults.takerRate, context),
+    makerRate: parseFeeNumber(record, "makerRate", defaults.makerRate, context),
+    takerBps: parseFeeNumber(record, "takerBps", defaults.takerBps, context),
+    makerBps: parseFeeNumber(record, "makerBps", defaults.makerBps, context),
+    gasUsd: parseFeeNumber(record, "gasUsd", defaults.gasUsd, context),
+    withdrawalBps: parseFeeNumber(
+      record,
+      "withdrawalBps",
+      defaults.withdrawalBps,
+      context,
+    ),
+  };
+}
+
+/** Reads `providers.<venue>.fees` from config.json; missing sections use the defaults. */
+export function loadFeeModels(): VenueFeeModels {
+  const raw = readFileSync(join(process.cwd(), "config.json"), "utf8");
+  return parseFeeModels(JSON.parse(stripJsonComments(raw)) as Record<string, unknown>);
+}
+
+/** Fee models from an already parsed config. */
+export function parseFeeModels(parsed: Record<string, unknown>): VenueFeeModels {
+  const providers = (parsed.providers ?? {}) as Record<string, unknown>;
+  const feesFor = (venue: MarketProvider): unknown => {
+    const section = providers[venue];
+    return section && typeof section === "object"
+      ? (section as Record<string, unknown>).fees
+      : undefined;
+  };
+  return {
+    polymarket: createFeeModel(parseVenueFeeConfig("polymarket", feesFor("polymarket"))),
+    kalshi: createFeeModel(parseVenueFeeConfig("kalshi", feesFor("kalshi"))),
+  };
+}
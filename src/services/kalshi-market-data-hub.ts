@@ -1,10 +1,20 @@
 import { KalshiClient } from "../clients/kalshi/kalshi-client";
-import { KalshiMarketWS, type KalshiTickerUpdate } from "../clients/kalshi/kalshi-ws";
+import {
+  KalshiMarketWS,
+  type KalshiOrderbookUpdate,
+  type KalshiTickerUpdate,
+  type KalshiTradeUpdate,
+} from "../clients/kalshi/kalshi-ws";
 import { CryptoWS, type CryptoPricePayload } from "../clients/crypto-ws";
 import { KalshiPriceFeed } from "./kalshi-price-feed";
 import { computeSignals, type SignalSnapshot, type TradeLike } from "./market-signals";
 import { RunLogger } from "./run-logger";
-import type { CoinSymbol } from "./auto-market";
+import { getCoinRegistry } from "./coin-registry";
+import {
+  DEFAULT_MARKET_HORIZON,
+  type CoinSymbol,
+  type MarketHorizon,
+} from "./auto-market";
 import type { KalshiEnvConfig } from "../clients/kalshi/kalshi-config";
 import {
   KALSHI_DEMO_BASE,
@@ -24,6 +34,7 @@ import {
   parseKalshiMarketUrl,
 } from "../clients/kalshi/kalshi-url";
 import { fetchKalshiHtmlReference } from "./kalshi-html";
+import type { MarketEventBus } from "./market-event-bus";
 
 function parseEnvNumber(
   name: string,
@@ -50,6 +61,7 @@ const KALSHI_REF_RETRY_MAX_MS = 120000;
 const KALSHI_HTML_REF_RETRY_BASE_MS = 15000;
 const KALSHI_HTML_REF_RETRY_MAX_MS = 120000;
 const KALSHI_HTML_REF_TIMEOUT_MS = 10000;
+const KALSHI_LADDER_MAX_STRIKES = parseEnvNumber("KALSHI_LADDER_MAX_STRIKES", 6, 0);
 
 // WS reconnect config
 const KALSHI_WS_RECONNECT_ATTEMPTS = parseEnvNumber("KALSHI_WS_RECONNECT_ATTEMPTS", -1, -1);
@@ -57,20 +69,6 @@ const KALSHI_WS_RECONNECT_DELAY_MS = parseEnvNumber("KALSHI_WS_RECONNECT_DELAY_M
 const KALSHI_CRYPTO_WS_RECONNECT_ATTEMPTS = parseEnvNumber("KALSHI_CRYPTO_WS_RECONNECT_ATTEMPTS", -1, -1);
 const KALSHI_CRYPTO_WS_RECONNECT_DELAY_MS = parseEnvNumber("KALSHI_CRYPTO_WS_RECONNECT_DELAY_MS", 3000, 500);
 
-const COIN_CONFIG: Record<CoinSymbol, { name: string; symbol: string }> = {
-  eth: { name: "Ethereum", symbol: "eth/usd" },
-  btc: { name: "Bitcoin", symbol: "btc/usd" },
-  sol: { name: "Solana", symbol: "sol/usd" },
-  xrp: { name: "XRP", symbol: "xrp/usd" },
-};
-
-const SYMBOL_TO_COIN: Record<string, CoinSymbol> = {
-  "eth/usd": "eth",
-  "btc/usd": "btc",
-  "sol/usd": "sol",
-  "xrp/usd": "xrp",
-};
-
 interface KalshiMarketState extends MarketSnapshot {
   marketTicker: string;
   eventTicker?: string | null;
@@ -88,6 +86,18 @@ interface KalshiMarketState extends MarketSnapshot {
   refRetryAttempts: number;
   lastRefRetryMs: number;
   priceFeed: KalshiPriceFeed | null;
+  ladder: KalshiStrikeState[];
+}
+
+/** Another strike of the selected event; only its books are tracked. */
+interface KalshiStrikeState {
+  marketTicker: string;
+  marketName: string;
+  strike: number;
+  orderBooks: Map<string, OrderBookSnapshot>;
+  bestBid: Map<string, number>;
+  bestAsk: Map<string, number>;
+  lastBookUpdateMs: number;
 }
 
 interface KalshiMarketCandidate {
@@ -255,7 +265,7 @@ function resolveSeriesTicker(market: Record<string, unknown>): string | null {
   return null;
 }
 
-function parseStrikePrice(market: Record<string, unknown>): number {
+export function parseStrikePrice(market: Record<string, unknown>): number {
   const strikeBlock =
     market.strike && typeof market.strike === "object" ? market.strike : null;
   const strikeTypeRaw = String(
@@ -383,6 +393,45 @@ function isMarketOpen(market: Record<string, unknown>): boolean {
   return status !== "closed" && status !== "settled";
 }
 
+function resolveStrikeType(market: Record<string, unknown>): string {
+  const strikeBlock =
+    market.strike && typeof market.strike === "object"
+      ? (market.strike as Record<string, unknown>)
+      : null;
+  return String(strikeBlock?.strike_type ?? market.strike_type ?? "").toLowerCase();
+}
+
+/**
+ * Builds the snapshot for a ladder strike: shared spot, timing and price
+ * history come from the selected market, books and threshold from the strike.
+ */
+function buildStrikeSnapshot(
+  state: KalshiMarketState,
+  strike: KalshiStrikeState,
+  now: number,
+): MarketSnapshot {
+  const label = formatPriceToBeatLabel(strike.strike);
+  const bookFresh = now - strike.lastBookUpdateMs <= BOOK_STALE_MS;
+  return {
+    ...state,
+    marketName: strike.marketName,
+    slug: strike.marketTicker,
+    marketTicker: strike.marketTicker,
+    priceToBeat: strike.strike,
+    referencePrice: strike.strike,
+    referenceSource: "price_to_beat",
+    upOutcome: label,
+    downOutcome: label,
+    orderBooks: strike.orderBooks,
+    bestBid: strike.bestBid,
+    bestAsk: strike.bestAsk,
+    lastBookUpdateMs: strike.lastBookUpdateMs,
+    dataStatus: bookFresh ? state.dataStatus : "stale",
+    signals: undefined,
+    strikeLadder: undefined,
+  };
+}
+
 function buildOrderBookSnapshot(
   bids: OrderBookLevel[],
   asks: OrderBookLevel[],
@@ -395,8 +444,42 @@ function buildOrderBookSnapshot(
   return { bids, asks, lastTrade, totalBidValue, totalAskValue };
 }
 
+function applyOrderbook(
+  strike: KalshiStrikeState,
+  update: {
+    yesBids: OrderBookLevel[];
+    yesAsks: OrderBookLevel[];
+    noBids: OrderBookLevel[];
+    noAsks: OrderBookLevel[];
+  },
+): void {
+  strike.orderBooks.set("YES", buildOrderBookSnapshot(update.yesBids, update.yesAsks, 0));
+  strike.orderBooks.set("NO", buildOrderBookSnapshot(update.noBids, update.noAsks, 0));
+  const levels: Array<[Map<string, number>, string, OrderBookLevel | undefined]> = [
+    [strike.bestBid, "YES", update.yesBids[0]],
+    [strike.bestAsk, "YES", update.yesAsks[0]],
+    [strike.bestBid, "NO", update.noBids[0]],
+    [strike.bestAsk, "NO", update.noAsks[0]],
+  ];
+  for (const [target, side, level] of levels) {
+    if (level) {
+      target.set(side, level.price);
+    } else {
+      target.delete(side);
+    }
+  }
+  strike.lastBookUpdateMs = Date.now();
+}
+
 export interface KalshiMarketDataHubOptions {
   requireCryptoPrice?: boolean;
+  /** Horizon the selectors point at; labels the snapshots (default 15m). */
+  horizon?: MarketHorizon;
+  /** Raw feed taps (e.g. the recorder); called before the hub applies the update. */
+  onOrderbook?: (update: KalshiOrderbookUpdate) => void;
+  onTrade?: (update: KalshiTradeUpdate) => void;
+  /** Receives the hub's typed events once they are applied to the snapshots. */
+  bus?: MarketEventBus;
 }
 
 export class KalshiMarketDataHub {
@@ -409,6 +492,10 @@ export class KalshiMarketDataHub {
   private evaluationTimer: NodeJS.Timeout | null = null;
   private kalshiFeedFallbackLogged = new Set<CoinSymbol>();
   private requireCryptoPrice: boolean;
+  private horizon: MarketHorizon;
+  private onOrderbookTap: ((update: KalshiOrderbookUpdate) => void) | null;
+  private onTradeTap: ((update: KalshiTradeUpdate) => void) | null;
+  private bus: MarketEventBus | null;
 
   constructor(
     logger: RunLogger,
@@ -419,6 +506,10 @@ export class KalshiMarketDataHub {
     this.logger = logger;
     this.kalshiClient = new KalshiClient(kalshiConfig);
     this.requireCryptoPrice = options.requireCryptoPrice !== false;
+    this.horizon = options.horizon ?? DEFAULT_MARKET_HORIZON;
+    this.onOrderbookTap = options.onOrderbook ?? null;
+    this.onTradeTap = options.onTrade ?? null;
+    this.bus = options.bus ?? null;
   }
 
   async start(coins: CoinSymbol[]): Promise<void> {
@@ -426,7 +517,8 @@ export class KalshiMarketDataHub {
       const state = await this.initializeMarket(coin);
       if (state) {
         this.states.set(coin, state);
-        this.tickerToCoin.set(state.marketTicker, coin);
+        this.registerTickers(state, coin);
+        this.publishSelection(state, null, "selected");
       } else {
         this.logger.log(
           `DATA: failed to select Kalshi market for ${coin.toUpperCase()}`,
@@ -464,6 +556,13 @@ export class KalshiMarketDataHub {
     this.kalshiFeedFallbackLogged.clear();
   }
 
+  private registerTickers(state: KalshiMarketState, coin: CoinSymbol): void {
+    this.tickerToCoin.set(state.marketTicker, coin);
+    for (const entry of state.ladder) {
+      this.tickerToCoin.set(entry.marketTicker, coin);
+    }
+  }
+
   getSnapshots(): Map<CoinSymbol, MarketSnapshot> {
     return new Map(this.states);
   }
@@ -702,6 +801,48 @@ export class KalshiMarketDataHub {
     return this.pickBestCandidate(Array.from(candidates.values()), now);
   }
 
+  /**
+   * Loads the other strikes of the selected market's event that close at the
+   * same time and share its strike type, nearest strikes first.
+   */
+  private async loadStrikeLadder(
+    selectedTicker: string,
+    market: Record<string, unknown>,
+    strike: number,
+    closeTimeMs: number | null,
+  ): Promise<KalshiStrikeState[]> {
+    const eventTicker = resolveEventTicker(market);
+    if (!eventTicker || strike <= 0 || KALSHI_LADDER_MAX_STRIKES <= 0) return [];
+    const strikeType = resolveStrikeType(market);
+    const siblings = await this.fetchMarketCandidatesByFilter({ eventTicker });
+    const ladder: KalshiStrikeState[] = [];
+    const seen = new Set<string>([selectedTicker]);
+    for (const candidate of siblings) {
+      if (seen.has(candidate.ticker)) continue;
+      seen.add(candidate.ticker);
+      if (candidate.closeTimeMs !== closeTimeMs) continue;
+      if (resolveStrikeType(candidate.market) !== strikeType) continue;
+      if (!isMarketOpen(candidate.market)) continue;
+      const siblingStrike = parseStrikePrice(candidate.market);
+      if (siblingStrike <= 0 || siblingStrike === strike) continue;
+      ladder.push({
+        marketTicker: candidate.ticker,
+        marketName: String(
+          candidate.market.title ?? candidate.market.subtitle ?? candidate.ticker,
+        ),
+        strike: siblingStrike,
+        orderBooks: new Map(),
+        bestBid: new Map(),
+        bestAsk: new Map(),
+        lastBookUpdateMs: 0,
+      });
+    }
+    return ladder
+      .sort((a, b) => Math.abs(a.strike - strike) - Math.abs(b.strike - strike))
+      .slice(0, KALSHI_LADDER_MAX_STRIKES)
+      .sort((a, b) => a.strike - b.strike);
+  }
+
   private async initializeMarket(
     coin: CoinSymbol,
   ): Promise<KalshiMarketState | null> {
@@ -780,7 +921,7 @@ export class KalshiMarketDataHub {
       String(marketData.no_sub_title ?? "No"),
     ];
 
-    const coinMeta = COIN_CONFIG[coin];
+    const coinMeta = getCoinRegistry().get(coin);
     const eventTicker = resolveEventTicker(selected);
     const seriesTicker = resolveSeriesTicker(selected);
 
@@ -796,7 +937,8 @@ export class KalshiMarketDataHub {
     const state: KalshiMarketState = {
       provider: "kalshi",
       coin,
-      symbol: coinMeta.symbol,
+      horizon: this.horizon,
+      symbol: coinMeta.rtdsSymbol,
       marketName: String(
         marketData.title ?? marketData.subtitle ?? selectedTicker,
       ),
@@ -843,6 +985,7 @@ export class KalshiMarketDataHub {
       refRetryAttempts: 0,
       lastRefRetryMs: 0,
       priceFeed: null,
+      ladder: await this.loadStrikeLadder(selectedTicker, marketData, strike, closeTime),
     };
 
     maybeUpdateOutcomeLabels(state);
@@ -858,6 +1001,13 @@ export class KalshiMarketDataHub {
     this.logger.log(
       `DATA: selected Kalshi ${coin.toUpperCase()} market ${selectedTicker}`,
     );
+    if (state.ladder.length > 0) {
+      this.logger.log(
+        `DATA: Kalshi ${coin.toUpperCase()} strike ladder ${state.ladder
+          .map((entry) => entry.strike)
+          .join(", ")}`,
+      );
+    }
 
     this.maybeRefreshHtmlReference(state, Date.now());
 
@@ -868,6 +1018,9 @@ export class KalshiMarketDataHub {
     const tickers: string[] = [];
     for (const state of this.states.values()) {
       tickers.push(state.marketTicker);
+      for (const entry of state.ladder) {
+        tickers.push(entry.marketTicker);
+      }
     }
 
     if (this.kalshiWs) {
@@ -876,8 +1029,14 @@ export class KalshiMarketDataHub {
 
     this.kalshiWs = new KalshiMarketWS(
       this.kalshiConfig,
-      (update) => this.handleOrderbook(update),
-      (trade) => this.handleTrade(trade),
+      (update) => {
+        this.onOrderbookTap?.(update);
+        this.handleOrderbook(update);
+      },
+      (trade) => {
+        this.onTradeTap?.(trade);
+        this.handleTrade(trade);
+      },
       (ticker) => this.handleTicker(ticker),
       () => {},
       (error: Error) => {
@@ -923,7 +1082,7 @@ export class KalshiMarketDataHub {
 
   private handleCryptoPrice(payload: CryptoPricePayload): void {
     const symbolKey = payload.symbol.toLowerCase();
-    const coin = SYMBOL_TO_COIN[symbolKey];
+    const coin = getCoinRegistry().coinForRtdsSymbol(symbolKey);
     if (!coin) return;
 
     const state = this.states.get(coin);
@@ -944,6 +1103,16 @@ export class KalshiMarketDataHub {
     if (state.priceHistoryWithTs.length > 180) {
       state.priceHistoryWithTs.shift();
     }
+    this.bus?.publish({
+      type: "spot",
+      provider: "kalshi",
+      coin,
+      market: state.marketTicker,
+      ts: state.lastCryptoUpdateMs,
+      symbol: state.symbol,
+      price: payload.value,
+      priceTs: ts,
+    });
   }
 
   private handleOrderbook(update: {
@@ -959,6 +1128,17 @@ export class KalshiMarketDataHub {
     const state = this.states.get(coin);
     if (!state) return;
 
+    if (update.marketTicker !== state.marketTicker) {
+      const strike = state.ladder.find(
+        (entry) => entry.marketTicker === update.marketTicker,
+      );
+      if (strike) {
+        applyOrderbook(strike, update);
+        this.publishBooks(coin, strike.marketTicker, strike.orderBooks, strike.lastBookUpdateMs);
+      }
+      return;
+    }
+
     const yesBook = buildOrderBookSnapshot(
       update.yesBids,
       update.yesAsks,
@@ -988,6 +1168,7 @@ export class KalshiMarketDataHub {
 
     state.lastBookUpdateMs = Date.now();
     this.updateDataStatus(state, Date.now());
+    this.publishBooks(coin, state.marketTicker, state.orderBooks, state.lastBookUpdateMs);
   }
 
   private handleTrade(trade: {
@@ -1001,7 +1182,7 @@ export class KalshiMarketDataHub {
     const coin = this.tickerToCoin.get(trade.marketTicker);
     if (!coin) return;
     const state = this.states.get(coin);
-    if (!state) return;
+    if (!state || trade.marketTicker !== state.marketTicker) return;
 
     // Trades prove the market is active -- count as book freshness
     state.lastBookUpdateMs = Date.now();
@@ -1009,8 +1190,9 @@ export class KalshiMarketDataHub {
     const timestamp = trade.timestampMs ?? Date.now();
     const size = trade.count ?? 0;
 
+    const prints: TradeLike[] = [];
     if (trade.yesPrice !== null) {
-      state.recentTrades.push({
+      prints.push({
         timestamp,
         price: trade.yesPrice,
         size,
@@ -1019,7 +1201,7 @@ export class KalshiMarketDataHub {
       });
     }
     if (trade.noPrice !== null) {
-      state.recentTrades.push({
+      prints.push({
         timestamp,
         price: trade.noPrice,
         size,
@@ -1029,15 +1211,26 @@ export class KalshiMarketDataHub {
     }
 
     const now = Date.now();
+    state.recentTrades.push(...prints);
     this.trimRecentTrades(state, now);
     this.updateDataStatus(state, now);
+    for (const print of prints) {
+      this.bus?.publish({
+        type: "trade",
+        provider: "kalshi",
+        coin,
+        market: state.marketTicker,
+        ts: now,
+        trade: print,
+      });
+    }
   }
 
   private handleTicker(update: KalshiTickerUpdate): void {
     const coin = this.tickerToCoin.get(update.marketTicker);
     if (!coin) return;
     const state = this.states.get(coin);
-    if (!state) return;
+    if (!state || update.marketTicker !== state.marketTicker) return;
 
     // Ticker events carry yesBid/yesAsk -- proves the book is current
     state.lastBookUpdateMs = Date.now();
@@ -1063,6 +1256,17 @@ export class KalshiMarketDataHub {
       state.bestAsk.set("YES", update.yesAsk);
     }
     this.updateDataStatus(state, Date.now());
+    this.bus?.publish({
+      type: "book",
+      provider: "kalshi",
+      coin,
+      market: state.marketTicker,
+      ts: state.lastBookUpdateMs,
+      tokenId: "YES",
+      book: null,
+      bestBid: update.yesBid,
+      bestAsk: update.yesAsk,
+    });
   }
 
   private maybeRefreshKalshiReference(state: KalshiMarketState, now: number): void {
@@ -1104,9 +1308,11 @@ export class KalshiMarketDataHub {
           state.priceToBeat = strike;
           state.referencePrice = strike;
           state.referenceSource = "price_to_beat";
+          this.publishReference(state);
         } else if (underlyingValue && underlyingValue > 0) {
           state.referencePrice = underlyingValue;
           state.referenceSource = "kalshi_underlying";
+          this.publishReference(state);
         }
 
         if (underlyingValue && underlyingValue > 0) {
@@ -1177,12 +1383,14 @@ export class KalshiMarketDataHub {
           if (state.referenceSource === "missing") {
             state.referencePrice = result.underlyingValue;
             state.referenceSource = "kalshi_underlying";
+            this.publishReference(state);
           }
         }
 
         maybeUpdateOutcomeLabels(state);
 
         if (updated) {
+          this.publishReference(state);
           this.logger.log(
             `DATA: Kalshi HTML reference price set ${result.strikePrice?.toFixed(
               2,
@@ -1237,6 +1445,10 @@ export class KalshiMarketDataHub {
         slippageNotional: SIGNAL_SLIPPAGE_NOTIONAL,
         tradeWindowMs: SIGNAL_TRADE_WINDOW_MS,
       });
+      state.strikeLadder =
+        state.ladder.length > 0
+          ? state.ladder.map((entry) => buildStrikeSnapshot(state, entry, now))
+          : undefined;
 
       if (
         state.timeLeftSec !== null &&
@@ -1263,6 +1475,63 @@ export class KalshiMarketDataHub {
     }
   }
 
+  private publishBooks(
+    coin: CoinSymbol,
+    market: string,
+    books: Map<string, OrderBookSnapshot>,
+    ts: number,
+  ): void {
+    if (!this.bus) return;
+    for (const tokenId of ["YES", "NO"]) {
+      const book = books.get(tokenId) ?? null;
+      this.bus.publish({
+        type: "book",
+        provider: "kalshi",
+        coin,
+        market,
+        ts,
+        tokenId,
+        book,
+        bestBid: book?.bids[0]?.price ?? null,
+        bestAsk: book?.asks[0]?.price ?? null,
+      });
+    }
+  }
+
+  private publishSelection(
+    state: KalshiMarketState,
+    previousMarket: string | null,
+    reason: "selected" | "rotated",
+  ): void {
+    if (!this.bus) return;
+    this.bus.publish({
+      type: "market-rotated",
+      provider: "kalshi",
+      coin: state.coin,
+      market: state.marketTicker,
+      ts: Date.now(),
+      previousMarket,
+      reason,
+    });
+    if (state.referencePrice > 0) {
+      this.publishReference(state);
+    }
+  }
+
+  private publishReference(state: KalshiMarketState): void {
+    // A late fetch for a market the hub already rotated away from is not news.
+    if (this.states.get(state.coin) !== state) return;
+    this.bus?.publish({
+      type: "reference-price",
+      provider: "kalshi",
+      coin: state.coin,
+      market: state.marketTicker,
+      ts: Date.now(),
+      price: state.referencePrice,
+      source: state.referenceSource,
+    });
+  }
+
   private trimRecentTrades(state: KalshiMarketState, now: number): void {
     const cutoff = now - SIGNAL_TRADE_WINDOW_MS;
     while (state.recentTrades.length > 0) {
@@ -1288,8 +1557,18 @@ export class KalshiMarketDataHub {
     }
 
     if (nextStatus !== state.dataStatus) {
+      const previous = state.dataStatus;
       state.dataStatus = nextStatus;
       state.lastDataStatusMs = now;
+      this.bus?.publish({
+        type: "data-status",
+        provider: "kalshi",
+        coin: state.coin,
+        market: state.marketTicker,
+        ts: now,
+        previous,
+        status: nextStatus,
+      });
 
       if (nextStatus === "healthy") {
         this.logger.log(
@@ -1336,16 +1615,24 @@ export class KalshiMarketDataHub {
     if (current) {
       current.priceFeed?.stop();
       this.tickerToCoin.delete(current.marketTicker);
+      for (const entry of current.ladder) {
+        this.tickerToCoin.delete(entry.marketTicker);
+      }
     }
 
     this.states.set(coin, next);
-    this.tickerToCoin.set(next.marketTicker, coin);
+    this.registerTickers(next, coin);
+    // Both expiry rotations and stale-data reselects come through here.
+    this.publishSelection(next, current?.marketTicker ?? null, "rotated");
     this.logger.log(
       `DATA: Kalshi reselected ${coin.toUpperCase()} -> ${next.marketTicker}`,
     );
 
     if (this.kalshiWs) {
-      this.kalshiWs.subscribe([next.marketTicker]);
+      this.kalshiWs.subscribe([
+        next.marketTicker,
+        ...next.ladder.map((entry) => entry.marketTicker),
+      ]);
     } else {
       this.connectKalshiWs();
     }
@@ -0,0 +1,141 @@
+import type { OrderBookSnapshot } from "./market-data-hub";
+import type { TradeLike } from "./market-signals";
+
+/** Price grid of both venues' binary contracts. */
+export const MAKER_TICK = 0.01;
+
+/**
+ * Our paper bid resting at one price level. It is not in the venue's book,
+ * so `queueAhead` is the displayed size that has to trade or cancel before
+ * we get filled (price-time priority).
+ */
+export interface MakerQueueState {
+  tokenId: string;
+  price: number;
+  remainingShares: number;
+  queueAhead: number;
+  /** Newest trade print already counted against the queue. */
+  lastTradeMs: number;
+  /** Crossing ask size seen per tick on the last call, already counted as fills. */
+  crossedAsks: Map<number, number>;
+}
+
+function roundToTick(price: number): number {
+  return Math.round(price / MAKER_TICK) * MAKER_TICK;
+}
+
+function bestPrice(levels: OrderBookSnapshot["bids"], pick: (a: number, b: number) => number): number | null {
+  let best: number | null = null;
+  for (const level of levels) {
+    if (!(level.size > 0) || !Number.isFinite(level.price)) continue;
+    best = best === null ? level.price : pick(best, level.price);
+  }
+  return best;
+}
+
+function sizeAt(levels: OrderBookSnapshot["bids"], price: number): number {
+  let size = 0;
+  for (const level of levels) {
+    if (Math.abs(level.price - price) < MAKER_TICK / 2) size += Math.max(0, level.size);
+  }
+  return size;
+}
+
+/**
+ * Bid price for a new maker order: the best bid plus `improvement`, kept
+ * at least one tick under the best ask so it rests instead of taking, and
+ * inside [minPrice, maxPrice]. Null when no such price exists.
+ */
+export function makerBidPrice(
+  book: OrderBookSnapshot | undefined,
+  improvement: number,
+  minPrice: number,
+  maxPrice: number,
+): number | null {
+  if (!book) return null;
+  const bestBid = bestPrice(book.bids, Math.max);
+  const bestAsk = bestPrice(book.asks, Math.min);
+  if (bestBid === null && bestAsk === null) return null;
+  let price = roundToTick((bestBid ?? (bestAsk as number) - MAKER_TICK) + improvement);
+  if (bestAsk !== null) price = Math.min(price, roundToTick(bestAsk - MAKER_TICK));
+  price = Math.min(price, Math.floor(maxPrice / MAKER_TICK + 1e-9) * MAKER_TICK);
+  if (price < minPrice || price < MAKER_TICK) return null;
+  return roundToTick(price);
+}
+
+/** Joins the back of the queue at `price`; prints up to `nowMs` are history. */
+export function joinMakerQueue(
+  tokenId: string,
+  book: OrderBookSnapshot | undefined,
+  price: number,
+  shares: number,
+  nowMs: number,
+): MakerQueueState {
+  return {
+    tokenId,
+    price,
+    remainingShares: shares,
+    queueAhead: book ? sizeAt(book.bids, price) : 0,
+    lastTradeMs: nowMs,
+    crossedAsks: new Map(),
+  };
+}
+
+/**
+ * Advances the queue with the prints since the last call and the current
+ * book, and returns the shares filled now (at our price).
+ *
+ * - Prints that hit bids (taker side not `BUY`) at our price first eat the
+ *   size ahead of us; only the volume past it fills us.
+ * - A print below our price means our level was cleared, so we fill fully.
+ * - Displayed size at our level below `queueAhead` means orders ahead
+ *   cancelled; the queue shrinks to it.
+ * - Asks at or under our price cross us, filling up to their size. A level
+ *   still shown on the next call only fills us with the size it gained.
+ *
+ * Prints sharing `lastTradeMs` with an earlier call are not counted twice,
+ * at the cost of missing prints that arrive late with that same timestamp.
+ */
+export function advanceMakerQueue(
+  order: MakerQueueState,
+  book: OrderBookSnapshot | undefined,
+  trades: TradeLike[] | undefined,
+): number {
+  const before = order.remainingShares;
+  let newestTradeMs = order.lastTradeMs;
+  for (const trade of trades ?? []) {
+    if (order.remainingShares <= 0) break;
+    if (trade.timestamp <= order.lastTradeMs) continue;
+    newestTradeMs = Math.max(newestTradeMs, trade.timestamp);
+    if (trade.tokenId !== undefined && trade.tokenId !== order.tokenId) continue;
+    if (trade.side === "BUY" || !(trade.size > 0)) continue;
+    if (trade.price > order.price + MAKER_TICK / 2) continue;
+    if (trade.price < order.price - MAKER_TICK / 2) {
+      order.queueAhead = 0;
+      order.remainingShares = 0;
+      break;
+    }
+    const throughQueue = Math.min(order.queueAhead, trade.size);
+    order.queueAhead -= throughQueue;
+    order.remainingShares -= Math.min(order.remainingShares, trade.size - throughQueue);
+  }
+  order.lastTradeMs = newestTradeMs;
+
+  if (book && order.remainingShares > 0) {
+    order.queueAhead = Math.min(order.queueAhead, sizeAt(book.bids, order.price));
+    const seen = new Map<number, number>();
+    for (const ask of book.asks) {
+      if (ask.price <= order.price + MAKER_TICK / 2 && ask.size > 0) {
+        const tick = Math.round(ask.price / MAKER_TICK);
+        seen.set(tick, (seen.get(tick) ?? 0) + ask.size);
+      }
+    }
+    let crossing = 0;
+    for (const [tick, size] of seen.entries()) {
+      crossing += Math.max(0, size - (order.crossedAsks.get(tick) ?? 0));
+    }
+    order.crossedAsks = seen;
+    order.remainingShares -= Math.min(order.remainingShares, crossing);
+  }
+  return before - order.remainingShares;
+}
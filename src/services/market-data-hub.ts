@@ -9,17 +9,21 @@ import {
 } from "./market-service";
 import type { SignalSnapshot, TradeLike } from "./market-signals";
 import {
+  DEFAULT_MARKET_HORIZON,
   findLatestUpDownMarket,
+  horizonDurationMs,
   resolveMarketStartMs,
   type CoinSymbol,
+  type MarketHorizon,
 } from "./auto-market";
 import { fetchHistoricalCryptoPrice } from "./crypto-service";
 import { fetchPolymarketHtmlReferencePrice } from "./polymarket-html";
 import { RunLogger } from "./run-logger";
+import { getCoinRegistry } from "./coin-registry";
 import { computeSignals } from "./market-signals";
+import type { MarketEventBus } from "./market-event-bus";
 import type { MarketProvider } from "../providers/provider";
 
-const MARKET_DURATION_MS = 15 * 60 * 1000;
 const BOOK_STALE_MS = parseEnvNumber("PM_BOOK_STALE_MS", 45000, 1000);
 const BOOK_RESET_MS = parseEnvNumber("PM_BOOK_RESET_MS", 90000, 5000);
 const WS_RESET_COOLDOWN_MS = parseEnvNumber("PM_WS_RESET_COOLDOWN_MS", 45000, 3000);
@@ -84,27 +88,6 @@ const HTML_REF_ENABLED = parseEnvFlag("PM_HTML_REF_ENABLED", false);
 
 const ENABLE_LIVE_SIGNALS = parseEnvFlag("LIVE_SIGNAL_PREP", true);
 
-const COIN_CONFIG: Record<CoinSymbol, { name: string; symbol: string }> = {
-  eth: { name: "Ethereum", symbol: "eth/usd" },
-  btc: { name: "Bitcoin", symbol: "btc/usd" },
-  sol: { name: "Solana", symbol: "sol/usd" },
-  xrp: { name: "XRP", symbol: "xrp/usd" },
-};
-
-const SYMBOL_TO_COIN: Record<string, CoinSymbol> = {
-  "eth/usd": "eth",
-  "btc/usd": "btc",
-  "sol/usd": "sol",
-  "xrp/usd": "xrp",
-};
-
-const COIN_HTML_SYMBOL: Record<CoinSymbol, string> = {
-  eth: "ETH",
-  btc: "BTC",
-  sol: "SOL",
-  xrp: "XRP",
-};
-
 export interface OrderBookLevel {
   price: number;
   size: number;
@@ -130,6 +113,8 @@ export interface MarketSnapshot {
   marketName: string;
   slug: string;
   seriesSlug?: string | null;
+  /** Market window length; missing means 15m. */
+  horizon?: MarketHorizon;
   marketTicker?: string | null;
   eventTicker?: string | null;
   timeLeftSec: number | null;
@@ -164,6 +149,10 @@ export interface MarketSnapshot {
   priceHistory: number[];
   priceHistoryWithTs?: PricePoint[];
   signals?: SignalSnapshot;
+  /** Trade prints inside the signal window, oldest first. */
+  recentTrades?: TradeLike[];
+  /** Kalshi only: the other strikes of the selected event, one snapshot each. */
+  strikeLadder?: MarketSnapshot[];
 }
 
 interface MarketDataState extends MarketSnapshot {
@@ -194,6 +183,13 @@ interface PendingMarketState {
 
 export interface MarketDataHubOptions {
   requireCryptoPrice?: boolean;
+  /** Which Up/Down series to follow (default 15m). */
+  horizon?: MarketHorizon;
+  /** Raw feed taps (e.g. the recorder); called before the hub applies the event. */
+  onMarketEvent?: (event: MarketEvent) => void;
+  onCryptoPrice?: (payload: CryptoPricePayload) => void;
+  /** Receives the hub's typed events once they are applied to the snapshots. */
+  bus?: MarketEventBus;
 }
 
 export class MarketDataHub {
@@ -208,10 +204,18 @@ export class MarketDataHub {
   private rotatingCoins: Set<CoinSymbol> = new Set();
   private pendingMarkets: Map<CoinSymbol, PendingMarketState> = new Map();
   private requireCryptoPrice: boolean;
+  private horizon: MarketHorizon;
+  private onMarketEvent: ((event: MarketEvent) => void) | null;
+  private onCryptoPrice: ((payload: CryptoPricePayload) => void) | null;
+  private bus: MarketEventBus | null;
 
   constructor(logger: RunLogger, options: MarketDataHubOptions = {}) {
     this.logger = logger;
     this.requireCryptoPrice = options.requireCryptoPrice !== false;
+    this.horizon = options.horizon ?? DEFAULT_MARKET_HORIZON;
+    this.onMarketEvent = options.onMarketEvent ?? null;
+    this.onCryptoPrice = options.onCryptoPrice ?? null;
+    this.bus = options.bus ?? null;
   }
 
   async start(coins: CoinSymbol[]): Promise<void> {
@@ -220,8 +224,9 @@ export class MarketDataHub {
       if (state) {
         this.states.set(coin, state);
         this.registerTokenIds(state);
+        this.publishSelection(state, null, "selected");
       } else {
-        this.logger.log(`DATA: failed to auto-select market for ${coin}`, "WARN");
+        this.logger.log(`DATA: failed to auto-select ${this.horizon} market for ${coin}`, "WARN");
         this.pendingMarkets.set(coin, {
           attempts: 1,
           lastAttemptMs: Date.now(),
@@ -263,7 +268,7 @@ export class MarketDataHub {
     coin: CoinSymbol,
     minStartMs?: number,
   ): Promise<MarketDataState | null> {
-    const selection = await findLatestUpDownMarket(coin, "15m", minStartMs);
+    const selection = await findLatestUpDownMarket(coin, this.horizon, minStartMs);
     if (!selection) return null;
 
     const market = selection.market;
@@ -316,17 +321,17 @@ export class MarketDataHub {
     }
 
     if (!marketEndMs && marketStartMs) {
-      marketEndMs = marketStartMs + MARKET_DURATION_MS;
+      marketEndMs = marketStartMs + horizonDurationMs(this.horizon);
     }
 
     const priceToBeat = extractPriceToBeat(market);
     const hasPriceToBeat = priceToBeat > 0;
-    const coinMeta = COIN_CONFIG[coin];
+    const coinMeta = getCoinRegistry().get(coin);
 
     const state: MarketDataState = {
       provider: "polymarket",
       coin,
-      symbol: coinMeta.symbol,
+      symbol: coinMeta.rtdsSymbol,
       market,
       tokenIds,
       marketStartMs,
@@ -334,6 +339,7 @@ export class MarketDataHub {
       marketName: market.question || market.slug,
       slug: market.slug,
       seriesSlug: market.seriesSlug ?? null,
+      horizon: this.horizon,
       marketTicker: null,
       eventTicker: null,
       timeLeftSec: this.getTimeLeftSec(marketEndMs),
@@ -371,7 +377,7 @@ export class MarketDataHub {
     };
 
     this.logger.log(
-      `DATA: selected ${coin.toUpperCase()} market ${market.slug} (start ${
+      `DATA: selected ${coin.toUpperCase()} ${this.horizon} market ${market.slug} (start ${
         marketStartMs ? new Date(marketStartMs).toISOString() : "unknown"
       })`,
     );
@@ -405,9 +411,18 @@ export class MarketDataHub {
     }
 
     this.marketWs = new MarketWS(
-      (event: MarketEvent) => this.handlePriceChange(event),
-      (event: MarketEvent) => this.handleOrderBook(event),
-      (event: MarketEvent) => this.handleLastTrade(event),
+      (event: MarketEvent) => {
+        this.onMarketEvent?.(event);
+        this.handlePriceChange(event);
+      },
+      (event: MarketEvent) => {
+        this.onMarketEvent?.(event);
+        this.handleOrderBook(event);
+      },
+      (event: MarketEvent) => {
+        this.onMarketEvent?.(event);
+        this.handleLastTrade(event);
+      },
       () => {},
       (error: Error) => {
         this.logger.log(`DATA: market WS error ${error.message}`, "ERROR");
@@ -452,7 +467,10 @@ export class MarketDataHub {
     }
 
     this.cryptoWs = new CryptoWS(
-      (payload: CryptoPricePayload) => this.handleCryptoPrice(payload),
+      (payload: CryptoPricePayload) => {
+        this.onCryptoPrice?.(payload);
+        this.handleCryptoPrice(payload);
+      },
       () => {},
       (error: Error) => {
         this.logger.log(`DATA: crypto WS error ${error.message}`, "ERROR");
@@ -472,7 +490,7 @@ export class MarketDataHub {
 
   private handleCryptoPrice(payload: CryptoPricePayload): void {
     const symbolKey = payload.symbol.toLowerCase();
-    const coin = SYMBOL_TO_COIN[symbolKey];
+    const coin = getCoinRegistry().coinForRtdsSymbol(symbolKey);
     if (!coin) return;
 
     const state = this.states.get(coin);
@@ -494,18 +512,30 @@ export class MarketDataHub {
     if (state.priceHistoryWithTs.length > PRICE_HISTORY_LIMIT) {
       state.priceHistoryWithTs.shift();
     }
-
+    this.bus?.publish({
+      type: "spot",
+      provider: "polymarket",
+      coin,
+      market: state.slug,
+      ts: state.lastPriceUpdateMs,
+      symbol: state.symbol,
+      price: payload.value,
+      priceTs: ts,
+    });
   }
 
   private handlePriceChange(event: MarketEvent): void {
     if (event.event_type !== "price_change" || !event.price_changes) return;
 
+    // Apply the whole message before publishing, so subscribers never see a
+    // coin with half its tokens updated or a stale data status.
+    const now = Date.now();
+    const touched = new Map<CoinSymbol, Set<string>>();
     for (const change of event.price_changes) {
       const coin = this.tokenToCoin.get(change.asset_id);
       if (!coin) continue;
       const state = this.states.get(coin);
       if (!state) continue;
-      const now = Date.now();
       state.lastPriceUpdateMs = now;
       // price_change carries best_bid/best_ask -- proves the book is current
       state.lastBookUpdateMs = now;
@@ -517,7 +547,30 @@ export class MarketDataHub {
       if (!Number.isNaN(bestAsk)) {
         state.bestAsk.set(change.asset_id, bestAsk);
       }
+      const tokens = touched.get(coin) ?? new Set<string>();
+      tokens.add(change.asset_id);
+      touched.set(coin, tokens);
+    }
+
+    for (const [coin, tokens] of touched) {
+      const state = this.states.get(coin);
+      if (!state) continue;
       this.updateDataStatus(state, now);
+      // One event per token with its final best prices, however many
+      // entries the message carried for it.
+      for (const tokenId of tokens) {
+        this.bus?.publish({
+          type: "book",
+          provider: "polymarket",
+          coin,
+          market: state.slug,
+          ts: now,
+          tokenId,
+          book: null,
+          bestBid: state.bestBid.get(tokenId) ?? null,
+          bestAsk: state.bestAsk.get(tokenId) ?? null,
+        });
+      }
     }
   }
 
@@ -554,8 +607,18 @@ export class MarketDataHub {
     state.orderBooks.set(event.asset_id, snapshot);
     if (bids[0]) state.bestBid.set(event.asset_id, bids[0].price);
     if (asks[0]) state.bestAsk.set(event.asset_id, asks[0].price);
-
     this.updateDataStatus(state, Date.now());
+    this.bus?.publish({
+      type: "book",
+      provider: "polymarket",
+      coin,
+      market: state.slug,
+      ts: state.lastBookUpdateMs,
+      tokenId: event.asset_id,
+      book: snapshot,
+      bestBid: bids[0]?.price ?? null,
+      bestAsk: asks[0]?.price ?? null,
+    });
   }
 
   private handleLastTrade(event: MarketEvent): void {
@@ -576,16 +639,24 @@ export class MarketDataHub {
     // Trades prove the market is actively trading -- count as book freshness
     state.lastBookUpdateMs = now;
 
-    state.recentTrades.push({
+    const trade: TradeLike = {
       timestamp,
       price,
       size,
       side: event.side,
       tokenId: event.asset_id,
-    });
-
+    };
+    state.recentTrades.push(trade);
     this.trimRecentTrades(state, now);
     this.updateDataStatus(state, now);
+    this.bus?.publish({
+      type: "trade",
+      provider: "polymarket",
+      coin,
+      market: state.slug,
+      ts: now,
+      trade,
+    });
   }
 
   private tick(): void {
@@ -649,8 +720,18 @@ export class MarketDataHub {
     }
 
     if (nextStatus !== state.dataStatus) {
+      const previous = state.dataStatus;
       state.dataStatus = nextStatus;
       state.lastDataStatusMs = now;
+      this.bus?.publish({
+        type: "data-status",
+        provider: "polymarket",
+        coin: state.coin,
+        market: state.slug,
+        ts: now,
+        previous,
+        status: nextStatus,
+      });
       if (nextStatus === "healthy") {
         const label = this.requireCryptoPrice ? "book + price" : "book";
         this.logger.log(
@@ -718,7 +799,7 @@ export class MarketDataHub {
     state.lastHtmlReferenceAttemptMs = Date.now();
     state.htmlReferenceAttempts += 1;
 
-    const symbol = COIN_HTML_SYMBOL[state.coin] || state.coin.toUpperCase();
+    const symbol = state.coin.toUpperCase();
 
     fetchPolymarketHtmlReferencePrice({
       slug: state.slug,
@@ -748,6 +829,7 @@ export class MarketDataHub {
         state.referenceSource = "html";
         state.lastHtmlReferenceSuccessMs = Date.now();
         state.htmlReferenceAttempts = 0;
+        this.publishReference(state);
 
         if (changed) {
           this.logger.log(
@@ -813,6 +895,7 @@ export class MarketDataHub {
           state.referencePrice = historical.price;
           state.referencePriceTimestamp = historical.timestamp;
           state.referenceSource = "historical";
+          this.publishReference(state);
           this.logger.log(
             `DATA: ${state.coin.toUpperCase()} reference price set ${historical.price.toFixed(
               2,
@@ -937,6 +1020,7 @@ export class MarketDataHub {
 
     this.states.set(coin, next);
     this.registerTokenIds(next);
+    this.publishSelection(next, current?.slug ?? null, "rotated");
     this.logger.log(`DATA: ${coin.toUpperCase()} rotating market (sub refresh)`);
     this.refreshMarketWsSubscriptions();
     if (this.cryptoWs) {
@@ -961,6 +1045,7 @@ export class MarketDataHub {
 
     this.states.set(coin, next);
     this.registerTokenIds(next);
+    this.publishSelection(next, current?.slug ?? null, "reselected");
     this.logger.log(
       `DATA: ${coin.toUpperCase()} market reselected (${next.slug})`,
     );
@@ -1000,6 +1085,7 @@ export class MarketDataHub {
         this.pendingMarkets.delete(coin);
         this.states.set(coin, state);
         this.registerTokenIds(state);
+        this.publishSelection(state, null, "selected");
         this.logger.log(
           `DATA: ${coin.toUpperCase()} market loaded after retry (${state.slug})`,
         );
@@ -1019,6 +1105,40 @@ export class MarketDataHub {
     }
   }
 
+  private publishSelection(
+    state: MarketDataState,
+    previousMarket: string | null,
+    reason: "selected" | "rotated" | "reselected",
+  ): void {
+    if (!this.bus) return;
+    this.bus.publish({
+      type: "market-rotated",
+      provider: "polymarket",
+      coin: state.coin,
+      market: state.slug,
+      ts: Date.now(),
+      previousMarket,
+      reason,
+    });
+    if (state.referencePrice > 0) {
+      this.publishReference(state);
+    }
+  }
+
+  private publishReference(state: MarketDataState): void {
+    // A late fetch for a market the hub already rotated away from is not news.
+    if (this.states.get(state.coin) !== state) return;
+    this.bus?.publish({
+      type: "reference-price",
+      provider: "polymarket",
+      coin: state.coin,
+      market: state.slug,
+      ts: Date.now(),
+      price: state.referencePrice,
+      source: state.referenceSource,
+    });
+  }
+
   private getTimeLeftSec(marketEndMs: number | null): number | null {
     if (!marketEndMs) return null;
     return (marketEndMs - Date.now()) / 1000;
@@ -0,0 +1,333 @@
+import { appendFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import type { CoinSymbol } from "./auto-market";
+import type { TradeLike } from "./market-signals";
+import type { MarketSnapshot, OrderBookSnapshot } from "./market-data-hub";
+import type { MarketProvider } from "../providers/provider";
+import type { RunLogger } from "./run-logger";
+
+const DEFAULT_MAX_QUEUE = parseEnvNumber("MARKET_BUS_MAX_QUEUE", 1000, 1);
+const DROP_LOG_INTERVAL_MS = 10_000;
+
+/** Run-directory file `recordMarketEvents` appends to. */
+export const MARKET_EVENTS_FILE = "market-events.jsonl";
+
+function parseEnvNumber(name: string, defaultValue: number, minValue: number): number {
+  const raw = process.env[name];
+  if (!raw) return defaultValue;
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed)) return defaultValue;
+  return Math.max(minValue, parsed);
+}
+
+export type DataStatus = MarketSnapshot["dataStatus"];
+export type ReferenceSource = MarketSnapshot["referenceSource"];
+
+/** Fields every hub event carries. */
+export interface MarketBusEventBase {
+  provider: MarketProvider;
+  coin: CoinSymbol;
+  /** Polymarket slug or Kalshi ticker the event belongs to. */
+  market: string;
+  /** Hub clock in ms when the update was applied. */
+  ts: number;
+}
+
+/**
+ * A book side changed. Full book messages carry `book`; best-level updates
+ * (Polymarket price_change, Kalshi ticker) only the best prices.
+ */
+export interface BookUpdateEvent extends MarketBusEventBase {
+  type: "book";
+  /** Token id, or `YES`/`NO` on Kalshi. */
+  tokenId: string;
+  book: OrderBookSnapshot | null;
+  bestBid: number | null;
+  bestAsk: number | null;
+}
+
+export interface TradeEvent extends MarketBusEventBase {
+  type: "trade";
+  trade: TradeLike;
+}
+
+export interface SpotTickEvent extends MarketBusEventBase {
+  type: "spot";
+  symbol: string;
+  price: number;
+  /** Feed timestamp of the tick, which may lag `ts`. */
+  priceTs: number;
+}
+
+/** The hub switched a coin to another market; `previousMarket` is null on the first selection. */
+export interface MarketRotatedEvent extends MarketBusEventBase {
+  type: "market-rotated";
+  previousMarket: string | null;
+  reason: "selected" | "rotated" | "reselected";
+}
+
+export interface DataStatusEvent extends MarketBusEventBase {
+  type: "data-status";
+  previous: DataStatus;
+  status: DataStatus;
+}
+
+export interface ReferencePriceEvent extends MarketBusEventBase {
+  type: "reference-price";
+  price: number;
+  source: ReferenceSource;
+}
+
+export type MarketBusEvent =
+  | BookUpdateEvent
+  | TradeEvent
+  | SpotTickEvent
+  | MarketRotatedEvent
+  | DataStatusEvent
+  | ReferencePriceEvent;
+
+export type MarketBusEventType = MarketBusEvent["type"];
+
+export type MarketBusHandler = (event: MarketBusEvent) => void | Promise<void>;
+
+export interface MarketBusSubscribeOptions {
+  /** Event types to receive; default all. */
+  types?: MarketBusEventType[];
+  coins?: CoinSymbol[];
+  providers?: MarketProvider[];
+  /** Events held while the handler is busy (default MARKET_BUS_MAX_QUEUE, 1000). */
+  maxQueue?: number;
+  /** Which event a full queue gives up: the oldest queued (default) or the new one. */
+  overflow?: "drop-oldest" | "drop-newest";
+  /**
+   * Replace a queued book or spot event with a newer one for the same book
+   * or coin, for consumers that only need the latest state.
+   */
+  coalesce?: boolean;
+}
+
+export interface MarketBusSubscriberStats {
+  name: string;
+  delivered: number;
+  dropped: number;
+  coalesced: number;
+  queued: number;
+  maxQueued: number;
+  errors: number;
+}
+
+interface Subscriber {
+  name: string;
+  handler: MarketBusHandler;
+  types: Set<MarketBusEventType> | null;
+  coins: Set<CoinSymbol> | null;
+  providers: Set<MarketProvider> | null;
+  maxQueue: number;
+  overflow: "drop-oldest" | "drop-newest";
+  coalesce: boolean;
+  queue: MarketBusEvent[];
+  busy: boolean;
+  closed: boolean;
+  stats: MarketBusSubscriberStats;
+  lastDropLogMs: number;
+  idleWaiters: Array<() => void>;
+}
+
+function coalesceKey(event: MarketBusEvent): string | null {
+  if (event.type === "book") {
+    return `book:${event.provider}:${event.market}:${event.tokenId}`;
+  }
+  if (event.type === "spot") {
+    return `spot:${event.provider}:${event.coin}`;
+  }
+  return null;
+}
+
+/**
+ * Typed fan-out between the market data hubs and their consumers. Each
+ * subscriber gets its own bounded queue: synchronous handlers run inside
+ * `publish`, while a handler that returns a promise holds later events in
+ * its queue until it settles. A full queue drops events for that subscriber
+ * only, so a slow recorder never delays an engine or the hub.
+ */
+export class MarketEventBus {
+  private subscribers: Subscriber[] = [];
+  private logger: RunLogger | null;
+
+  constructor(logger: RunLogger | null = null) {
+    this.logger = logger;
+  }
+
+  /** Registers `handler` under `name` (used in stats and logs); returns the unsubscribe. */
+  subscribe(
+    name: string,
+    handler: MarketBusHandler,
+    options: MarketBusSubscribeOptions = {},
+  ): () => void {
+    const subscriber: Subscriber = {
+      name,
+      handler,
+      types: options.types ? new Set(options.types) : null,
+      coins: options.coins ? new Set(options.coins) : null,
+      providers: options.providers ? new Set(options.providers) : null,
+      maxQueue: Math.max(1, Math.floor(options.maxQueue ?? DEFAULT_MAX_QUEUE)),
+      overflow: options.overflow ?? "drop-oldest",
+      coalesce: options.coalesce === true,
+      queue: [],
+      busy: false,
+      closed: false,
+      stats: { name, delivered: 0, dropped: 0, coalesced: 0, queued: 0, maxQueued: 0, errors: 0 },
+      lastDropLogMs: 0,
+      idleWaiters: [],
+    };
+    this.subscribers.push(subscriber);
+    return () => {
+      subscriber.closed = true;
+      subscriber.queue = [];
+      this.subscribers = this.subscribers.filter((entry) => entry !== subscriber);
+      this.notifyIdle(subscriber);
+    };
+  }
+
+  publish(event: MarketBusEvent): void {
+    for (const subscriber of this.subscribers) {
+      if (!this.matches(subscriber, event)) continue;
+      this.enqueue(subscriber, event);
+      if (!subscriber.busy) {
+        this.drain(subscriber);
+      }
+    }
+  }
+
+  getStats(): MarketBusSubscriberStats[] {
+    return this.subscribers.map((subscriber) => ({
+      ...subscriber.stats,
+      queued: subscriber.queue.length,
+    }));
+  }
+
+  /** Resolves once every subscriber has handled its queued events. */
+  async idle(): Promise<void> {
+    await Promise.all(
+      this.subscribers
+        .filter((subscriber) => subscriber.busy || subscriber.queue.length > 0)
+        .map(
+          (subscriber) =>
+            new Promise<void>((resolve) => {
+              subscriber.idleWaiters.push(resolve);
+            }),
+        ),
+    );
+  }
+
+  private matches(subscriber: Subscriber, event: MarketBusEvent): boolean {
+    if (subscriber.types && !subscriber.types.has(event.type)) return false;
+    if (subscriber.coins && !subscriber.coins.has(event.coin)) return false;
+    if (subscriber.providers && !subscriber.providers.has(event.provider)) return false;
+    return true;
+  }
+
+  private enqueue(subscriber: Subscriber, event: MarketBusEvent): void {
+    const { queue, stats } = subscriber;
+    if (subscriber.coalesce) {
+      const key = coalesceKey(event);
+      if (key !== null) {
+        const index = queue.findIndex((queued) => coalesceKey(queued) === key);
+        if (index !== -1) {
+          queue[index] = event;
+          stats.coalesced += 1;
+          return;
+        }
+      }
+    }
+
+    if (queue.length >= subscriber.maxQueue) {
+      stats.dropped += 1;
+      this.logDrop(subscriber);
+      if (subscriber.overflow === "drop-newest") return;
+      queue.shift();
+    }
+    queue.push(event);
+    stats.maxQueued = Math.max(stats.maxQueued, queue.length);
+  }
+
+  private drain(subscriber: Subscriber): void {
+    // `busy` also covers synchronous delivery, so a handler that publishes
+    // queues the nested event instead of re-entering itself.
+    subscriber.busy = true;
+    while (!subscriber.closed) {
+      const event = subscriber.queue.shift();
+      if (!event) break;
+      let result: void | Promise<void>;
+      try {
+        result = subscriber.handler(event);
+      } catch (error) {
+        this.reportError(subscriber, error);
+        continue;
+      }
+      subscriber.stats.delivered += 1;
+      if (result instanceof Promise) {
+        result
+          .catch((error: unknown) => this.reportError(subscriber, error))
+          .finally(() => this.drain(subscriber));
+        return;
+      }
+    }
+    subscriber.busy = false;
+    this.notifyIdle(subscriber);
+  }
+
+  private notifyIdle(subscriber: Subscriber): void {
+    const waiters = subscriber.idleWaiters;
+    subscriber.idleWaiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+
+  private reportError(subscriber: Subscriber, error: unknown): void {
+    subscriber.stats.errors += 1;
+    const message = error instanceof Error ? error.message : String(error);
+    this.logger?.log(`BUS: ${subscriber.name} handler error: ${message}`, "ERROR");
+  }
+
+  private logDrop(subscriber: Subscriber): void {
+    const now = Date.now();
+    if (now - subscriber.lastDropLogMs < DROP_LOG_INTERVAL_MS) return;
+    subscriber.lastDropLogMs = now;
+    this.logger?.log(
+      `BUS: ${subscriber.name} queue full (${subscriber.maxQueue}), ${subscriber.stats.dropped} events dropped so far`,
+      "WARN",
+    );
+  }
+}
+
+export function formatBusStats(stats: MarketBusSubscriberStats[]): string {
+  if (stats.length === 0) return "Bus: no subscribers";
+  return `Bus: ${stats
+    .map(
+      (entry) =>
+        `${entry.name} ${entry.delivered} delivered, ${entry.dropped} dropped, ${entry.coalesced} coalesced, queue ${entry.queued}/${entry.maxQueued} max${
+          entry.errors > 0 ? `, ${entry.errors} errors` : ""
+        }`,
+    )
+    .join(" | ")}`;
+}
+
+/**
+ * Appends the low-volume hub events (market rotations, data status changes
+ * and resolved reference prices) to a JSONL file next to the run logs.
+ */
+export function recordMarketEvents(bus: MarketEventBus, path: string): () => void {
+  const dir = dirname(path);
+  if (dir && !existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  return bus.subscribe(
+    "market-events",
+    (event) => {
+      appendFileSync(path, `${JSON.stringify(event)}\n`, { encoding: "utf8" });
+    },
+    { types: ["market-rotated", "data-status", "reference-price"] },
+  );
+}
@@ -5,6 +5,12 @@
  * (slugs, IDs, or URLs) into market metadata and CLOB Token IDs.
  */
 
+import {
+  parseUpDownSlugCoin,
+  parseUpDownSlugHorizon,
+  upDownSeriesSlugs,
+} from "./auto-market";
+
 export interface MarketToken {
   tokenId: string;
   outcome: string;
@@ -287,15 +293,15 @@ export async function getEventForMarket(
   let event = await getEventBySlug(marketSlug);
   if (event) return event;
 
-  // For Up/Down markets, the slug pattern is often like "eth-updown-4h-1234567890" or "eth-updown-15m-1234567890"
-  // Try to extract series slug and look up via series endpoint
-  const seriesMatch = marketSlug.match(/^(eth|btc|sol)-updown-(\d+[hm])-/i);
-  if (seriesMatch && seriesMatch[1] && seriesMatch[2]) {
-    const coin = seriesMatch[1];
-    const duration = seriesMatch[2];
-    const seriesSlug = `${coin.toLowerCase()}-up-or-down-${duration}`;
-    const seriesEvent = await getEventFromSeries(seriesSlug, marketSlug);
-    if (seriesEvent) return seriesEvent;
+  // For Up/Down markets (e.g. "eth-updown-4h-1234567890") look the event up
+  // through the coin's series for that horizon
+  const coin = parseUpDownSlugCoin(marketSlug);
+  const horizon = parseUpDownSlugHorizon(marketSlug);
+  if (coin && horizon) {
+    for (const seriesSlug of upDownSeriesSlugs(coin, horizon)) {
+      const seriesEvent = await getEventFromSeries(seriesSlug, marketSlug);
+      if (seriesEvent) return seriesEvent;
+    }
   }
 
   // Try to find the event by searching events endpoint
@@ -0,0 +1,112 @@
+import type { MarketSnapshot } from "./market-data-hub";
+import type { NormalizedOutcome } from "./cross-platform-compare";
+
+/**
+ * Threshold-mismatch model: Polymarket settles on Chainlink against its
+ * price to beat, Kalshi on CF Benchmarks against its strike. The final spot
+ * is lognormal around the current price with realized volatility scaled to
+ * the time left, and the Kalshi reference is that price plus normal noise
+ * (`basisSd`). Integrating over both gives how often the pair pays on both
+ * legs or on neither instead of exactly one.
+ */
+
+export interface MismatchRiskInput {
+  /** Poly side held; the Kalshi leg is the opposite side. */
+  polyTarget: NormalizedOutcome;
+  spot: number;
+  polyThreshold: number;
+  kalshiThreshold: number;
+  /** Std dev of the log price at settlement (0 = settles at spot). */
+  horizonVol: number;
+  /** Std dev of Kalshi reference minus Polymarket reference, in USD. */
+  basisSd: number;
+}
+
+export interface MismatchRisk {
+  pBothWin: number;
+  pBothLose: number;
+  /** Expected extra payout per hedged share: pBothWin - pBothLose. */
+  edge: number;
+}
+
+const GRID_SIGMAS = 6;
+const GRID_STEPS = 240;
+
+export const NO_MISMATCH_RISK: MismatchRisk = { pBothWin: 0, pBothLose: 0, edge: 0 };
+
+function erf(x: number): number {
+  // Abramowitz and Stegun 7.1.26 (max error 1.5e-7).
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly =
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t +
+      0.254829592) *
+    t;
+  return sign * (1 - poly * Math.exp(-x * x));
+}
+
+export function normalCdf(x: number): number {
+  return 0.5 * (1 + erf(x / Math.SQRT2));
+}
+
+/** Probability that the Kalshi reference settles above `threshold` given spot `price`. */
+function kalshiAboveProb(price: number, threshold: number, basisSd: number): number {
+  if (basisSd <= 0) return price >= threshold ? 1 : 0;
+  return normalCdf((price - threshold) / basisSd);
+}
+
+export function estimateMismatchRisk(input: MismatchRiskInput): MismatchRisk {
+  const { spot, polyThreshold, kalshiThreshold } = input;
+  if (!(spot > 0) || !(polyThreshold > 0) || !(kalshiThreshold > 0)) {
+    return NO_MISMATCH_RISK;
+  }
+  const vol = Math.max(0, input.horizonVol);
+  const basisSd = Math.max(0, input.basisSd);
+  const polyUp = input.polyTarget === "UP";
+
+  let pBothWin = 0;
+  let pBothLose = 0;
+  let totalWeight = 0;
+  // Cell midpoints, so no grid point sits exactly on a threshold at spot.
+  const steps = vol > 0 ? GRID_STEPS : 1;
+  const cell = (2 * GRID_SIGMAS) / steps;
+  for (let i = 0; i < steps; i += 1) {
+    const z = vol > 0 ? -GRID_SIGMAS + (i + 0.5) * cell : 0;
+    const weight = Math.exp(-0.5 * z * z);
+    const price = spot * Math.exp(z * vol);
+    const polyWin = polyUp ? price >= polyThreshold : price < polyThreshold;
+    const above = kalshiAboveProb(price, kalshiThreshold, basisSd);
+    // Kalshi holds the opposite side: NO (below) against Up, YES (above) against Down.
+    const kalshiWin = polyUp ? 1 - above : above;
+    if (polyWin) {
+      pBothWin += weight * kalshiWin;
+    } else {
+      pBothLose += weight * (1 - kalshiWin);
+    }
+    totalWeight += weight;
+  }
+  pBothWin /= totalWeight;
+  pBothLose /= totalWeight;
+  return { pBothWin, pBothLose, edge: pBothWin - pBothLose };
+}
+
+/**
+ * Std dev of the log price over `timeLeftSec`, from the per-sample
+ * volatility in `market-signals` scaled by the sampling interval of the
+ * price history (1s when timestamps are missing).
+ */
+export function resolveHorizonVol(
+  snapshot: MarketSnapshot,
+  timeLeftSec: number,
+): number | null {
+  const perSample = snapshot.signals?.priceVolatility ?? null;
+  if (perSample === null || !Number.isFinite(perSample)) return null;
+  const history = snapshot.priceHistoryWithTs ?? [];
+  let intervalSec = 1;
+  const first = history[0];
+  const last = history[history.length - 1];
+  if (first && last && history.length > 1 && last.ts > first.ts) {
+    intervalSec = (last.ts - first.ts) / 1000 / (history.length - 1);
+  }
+  return (perSample / Math.sqrt(intervalSec)) * Math.sqrt(Math.max(0, timeLeftSec));
+}
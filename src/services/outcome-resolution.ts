@@ -272,8 +272,12 @@ export async function fetchKalshiOfficialOutcome(
       finalPriceSource: null,
     };
   }
-  const record = market as Record<string, unknown>;
+  return parseKalshiOfficialOutcome(market as Record<string, unknown>);
+}
 
+export function parseKalshiOfficialOutcome(
+  record: Record<string, unknown>,
+): OfficialOutcomeResult {
   const outcomeKeys = [
     "result",
     "market_result",
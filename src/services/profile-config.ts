@@ -1,7 +1,14 @@
 import { readFileSync } from "fs";
 import { join } from "path";
-import type { CoinSymbol } from "./auto-market";
+import {
+  DEFAULT_MARKET_HORIZON,
+  MARKET_HORIZONS,
+  parseMarketHorizon,
+  type CoinSymbol,
+  type MarketHorizon,
+} from "./auto-market";
 import type { MarketProvider } from "../providers/provider";
+import { getCoinRegistry } from "./coin-registry";
 import type { MarketGroupDefinition } from "./market-groups";
 import type {
   TimedTradeConfig,
@@ -15,6 +22,7 @@ import type {
   LossGovernorConfig,
   CrossModeConfig,
   CrossModeOverrides,
+  MakerConfig,
 } from "./profile-engine";
 
 export interface ProfileDefinition {
@@ -33,6 +41,8 @@ export interface KalshiCoinSelection {
   eventTickers: string[];
   marketUrls: string[];
   autoDiscover: boolean;
+  /** Selectors for non-15m horizons; the top-level fields select 15m markets. */
+  horizons?: Partial<Record<MarketHorizon, KalshiCoinSelection>>;
 }
 
 export interface ProviderConfigResult {
@@ -101,13 +111,9 @@ export function stripJsonComments(raw: string): string {
   return result;
 }
 
+/** Resolves a coin id or alias from the coin registry; unknown coins give null. */
 export function normalizeCoinKey(key: string): CoinSymbol | null {
-  const normalized = key.toLowerCase().trim();
-  if (normalized === "eth" || normalized === "ethereum") return "eth";
-  if (normalized === "btc" || normalized === "bitcoin") return "btc";
-  if (normalized === "sol" || normalized === "solana") return "sol";
-  if (normalized === "xrp" || normalized === "ripple") return "xrp";
-  return null;
+  return getCoinRegistry().resolve(key);
 }
 
 export function sanitizeProfileName(name: string): string {
@@ -371,6 +377,50 @@ function parseLossGovernor(
   };
 }
 
+function parseMaker(
+  value: unknown,
+  context: string,
+  tradeAllowedTimeLeft: number,
+): MakerConfig | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "object") {
+    throw new Error(`Config error: ${context} maker must be an object`);
+  }
+  const raw = value as Record<string, unknown>;
+  const priceImprovement =
+    parseOptionalNumberField(raw.priceImprovement, context, "maker.priceImprovement") ?? undefined;
+  if (priceImprovement !== undefined && priceImprovement < 0) {
+    throw new Error(`Config error: ${context} maker.priceImprovement must be >= 0`);
+  }
+  const repriceThreshold = parseOptionalNumberField(
+    raw.repriceThreshold,
+    context,
+    "maker.repriceThreshold",
+  );
+  if (repriceThreshold !== null && repriceThreshold <= 0) {
+    throw new Error(`Config error: ${context} maker.repriceThreshold must be > 0`);
+  }
+  const tradeStopTimeLeft = parseOptionalNumberField(
+    raw.tradeStopTimeLeft,
+    context,
+    "maker.tradeStopTimeLeft",
+  );
+  if (
+    tradeStopTimeLeft !== null &&
+    (tradeStopTimeLeft <= 0 || tradeStopTimeLeft >= tradeAllowedTimeLeft)
+  ) {
+    throw new Error(
+      `Config error: ${context} maker.tradeStopTimeLeft must be > 0 and less than tradeAllowedTimeLeft`,
+    );
+  }
+  return {
+    enabled: parseOptionalBooleanField(raw.enabled, context, "maker.enabled"),
+    priceImprovement,
+    repriceThreshold,
+    tradeStopTimeLeft,
+  };
+}
+
 function parseCrossModeOverrides(
   value: unknown,
   context: string,
@@ -634,7 +684,8 @@ function parseCrossConfig(
   return { tradeAllowedTimeLeft, rules };
 }
 
-function parseTimedConfig(
+/** Parses one coin's config; `profileName` and `coinKey` only label errors. */
+export function parseTimedConfig(
   profileName: string,
   coinKey: string,
   value: Record<string, unknown>,
@@ -657,9 +708,22 @@ function parseTimedConfig(
   let gateModelRaw: unknown = null;
   let lossGovernorRaw: unknown = null;
   let crossModesRaw: unknown = null;
+  let makerRaw: unknown = null;
+  let horizon: MarketHorizon | undefined;
   const rulesByTier = new Map<number, TradeRule>();
   for (const [key, ruleValue] of Object.entries(value)) {
     if (key === "tradeAllowedTimeLeft") continue;
+    if (key === "horizon") {
+      const parsed =
+        typeof ruleValue === "string" ? parseMarketHorizon(ruleValue) : null;
+      if (!parsed) {
+        throw new Error(
+          `Config error: ${context} horizon must be one of ${MARKET_HORIZONS.join(", ")}`,
+        );
+      }
+      horizon = parsed;
+      continue;
+    }
     if (key === "cross") {
       if (typeof ruleValue === "object" && ruleValue !== null) {
         crossRaw = ruleValue as Record<string, unknown>;
@@ -686,6 +750,10 @@ function parseTimedConfig(
       crossModesRaw = ruleValue;
       continue;
     }
+    if (key === "maker") {
+      makerRaw = ruleValue;
+      continue;
+    }
     const tierSeconds = Number(key);
     if (!Number.isFinite(tierSeconds)) continue;
     if (!Number.isInteger(tierSeconds) || tierSeconds <= 0) {
@@ -730,8 +798,10 @@ function parseTimedConfig(
   const gateModel = parseGateModel(gateModelRaw, context);
   const lossGovernor = parseLossGovernor(lossGovernorRaw, context);
   const crossModes = parseCrossModes(crossModesRaw, context);
+  const maker = parseMaker(makerRaw, context, tradeAllowedTimeLeft);
 
   return {
+    ...(horizon ? { horizon } : {}),
     tradeAllowedTimeLeft,
     rules,
     cross,
@@ -740,11 +810,15 @@ function parseTimedConfig(
     gateModel,
     lossGovernor,
     crossModes,
+    ...(maker ? { maker } : {}),
   };
 }
 
-function parseConfigFile(): Record<string, unknown> {
-  const raw = readFileSync(join(process.cwd(), "config.json"), "utf8");
+/** Reads a config file (config.json in the working directory by default), comments allowed. */
+export function parseConfigFile(
+  path: string = join(process.cwd(), "config.json"),
+): Record<string, unknown> {
+  const raw = readFileSync(path, "utf8");
   const parsed = JSON.parse(stripJsonComments(raw));
   return parsed as Record<string, unknown>;
 }
@@ -788,6 +862,18 @@ function parseCoinList(raw: unknown): CoinSymbol[] {
   return coins;
 }
 
+/** Selection for a coin without a Kalshi entry: the registry's 15m series, if any. */
+export function defaultKalshiSelection(coin: CoinSymbol): KalshiCoinSelection {
+  const series = getCoinRegistry().get(coin).kalshiSeriesTicker;
+  return {
+    tickers: [],
+    seriesTickers: series ? [series] : [],
+    eventTickers: [],
+    marketUrls: [],
+    autoDiscover: true,
+  };
+}
+
 function parseKalshiCoins(raw: unknown): {
   coinOptions: CoinSymbol[];
   selectorsByCoin: Map<CoinSymbol, KalshiCoinSelection>;
@@ -801,13 +887,7 @@ function parseKalshiCoins(raw: unknown): {
       const coin = normalizeCoinKey(entry);
       if (!coin) continue;
       coinOptions.push(coin);
-      selectorsByCoin.set(coin, {
-        tickers: [],
-        seriesTickers: [],
-        eventTickers: [],
-        marketUrls: [],
-        autoDiscover: true,
-      });
+      selectorsByCoin.set(coin, defaultKalshiSelection(coin));
     }
     return { coinOptions, selectorsByCoin };
   }
@@ -824,34 +904,30 @@ function parseKalshiCoins(raw: unknown): {
       value && typeof value === "object"
         ? (value as Record<string, unknown>)
         : null;
-    const tickersRaw = valueRecord?.tickers;
-    const seriesRaw = valueRecord?.seriesTickers;
-    const eventRaw = valueRecord?.eventTickers;
-    const urlRaw = valueRecord?.marketUrls ?? valueRecord?.urls;
-    const autoDiscoverRaw = valueRecord?.autoDiscover;
-
-    const normalizeList = (input: unknown): string[] => {
-      if (!Array.isArray(input)) return [];
-      return input
-        .filter((item) => typeof item === "string")
-        .map((item) => item.trim())
-        .filter((item) => item.length > 0);
-    };
+    const selection = parseKalshiSelection(valueRecord);
+    const horizonsRaw = valueRecord?.horizons;
+    if (horizonsRaw && typeof horizonsRaw === "object") {
+      const horizons: Partial<Record<MarketHorizon, KalshiCoinSelection>> = {};
+      for (const [horizonKey, horizonValue] of Object.entries(
+        horizonsRaw as Record<string, unknown>,
+      )) {
+        const horizon = parseMarketHorizon(horizonKey);
+        if (!horizon) {
+          throw new Error(
+            `Config error: kalshi coins.${coinKey}.horizons.${horizonKey} is not one of ${MARKET_HORIZONS.join(", ")}`,
+          );
+        }
+        if (horizon === DEFAULT_MARKET_HORIZON) continue;
+        horizons[horizon] = parseKalshiSelection(
+          horizonValue && typeof horizonValue === "object"
+            ? (horizonValue as Record<string, unknown>)
+            : null,
+        );
+      }
+      selection.horizons = horizons;
+    }
 
-    const tickers = normalizeList(tickersRaw).map((t) => t.toUpperCase());
-    const seriesTickers = normalizeList(seriesRaw).map((t) => t.toUpperCase());
-    const eventTickers = normalizeList(eventRaw).map((t) => t.toUpperCase());
-    const marketUrls = normalizeList(urlRaw);
-    const autoDiscover =
-      typeof autoDiscoverRaw === "boolean" ? autoDiscoverRaw : true;
-
-    selectorsByCoin.set(coin, {
-      tickers,
-      seriesTickers,
-      eventTickers,
-      marketUrls,
-      autoDiscover,
-    });
+    selectorsByCoin.set(coin, selection);
     if (!coinOptions.includes(coin)) {
       coinOptions.push(coin);
     }
@@ -860,6 +936,65 @@ function parseKalshiCoins(raw: unknown): {
   return { coinOptions, selectorsByCoin };
 }
 
+function parseKalshiSelection(
+  valueRecord: Record<string, unknown> | null,
+): KalshiCoinSelection {
+  const tickersRaw = valueRecord?.tickers;
+  const seriesRaw = valueRecord?.seriesTickers;
+  const eventRaw = valueRecord?.eventTickers;
+  const urlRaw = valueRecord?.marketUrls ?? valueRecord?.urls;
+  const autoDiscoverRaw = valueRecord?.autoDiscover;
+
+  const normalizeList = (input: unknown): string[] => {
+    if (!Array.isArray(input)) return [];
+    return input
+      .filter((item) => typeof item === "string")
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  };
+
+  const tickers = normalizeList(tickersRaw).map((t) => t.toUpperCase());
+  const seriesTickers = normalizeList(seriesRaw).map((t) => t.toUpperCase());
+  const eventTickers = normalizeList(eventRaw).map((t) => t.toUpperCase());
+  const marketUrls = normalizeList(urlRaw);
+  const autoDiscover =
+    typeof autoDiscoverRaw === "boolean" ? autoDiscoverRaw : true;
+
+  return {
+    tickers,
+    seriesTickers,
+    eventTickers,
+    marketUrls,
+    autoDiscover,
+  };
+}
+
+/**
+ * Selectors to use for one horizon: the top-level ones for 15m, the
+ * `horizons` entry otherwise. A coin without an entry gets an empty
+ * selection, which the hub reports as unselectable.
+ */
+export function resolveKalshiSelectorsForHorizon(
+  selectorsByCoin: Map<CoinSymbol, KalshiCoinSelection>,
+  horizon: MarketHorizon,
+): Map<CoinSymbol, KalshiCoinSelection> {
+  if (horizon === DEFAULT_MARKET_HORIZON) return selectorsByCoin;
+  const resolved = new Map<CoinSymbol, KalshiCoinSelection>();
+  for (const [coin, selection] of selectorsByCoin.entries()) {
+    resolved.set(
+      coin,
+      selection.horizons?.[horizon] ?? {
+        tickers: [],
+        seriesTickers: [],
+        eventTickers: [],
+        marketUrls: [],
+        autoDiscover: true,
+      },
+    );
+  }
+  return resolved;
+}
+
 function parseProviderProfiles(
   provider: MarketProvider,
   raw: unknown,
@@ -941,8 +1076,14 @@ export function resolveProfileConfigForCoin(
 export function loadProviderConfig(
   provider: MarketProvider,
 ): ProviderConfigResult {
-  const parsed = parseConfigFile();
+  return parseProviderConfig(parseConfigFile(), provider);
+}
 
+/** Resolves one provider from an already parsed config.json (schemaVersion 2 or legacy). */
+export function parseProviderConfig(
+  parsed: Record<string, unknown>,
+  provider: MarketProvider,
+): ProviderConfigResult {
   const schemaVersion = parsed.schemaVersion;
   const providersRaw = parsed.providers;
 
@@ -968,13 +1109,7 @@ export function loadProviderConfig(
       }
       for (const coin of coinOptions) {
         if (!kalshiSelectorsByCoin.has(coin)) {
-          kalshiSelectorsByCoin.set(coin, {
-            tickers: [],
-            seriesTickers: [],
-            eventTickers: [],
-            marketUrls: [],
-            autoDiscover: true,
-          });
+          kalshiSelectorsByCoin.set(coin, defaultKalshiSelection(coin));
         }
       }
     } else {
@@ -1037,11 +1172,13 @@ export function loadProviderConfig(
   };
 }
 
-export function loadProfilesFromConfig(): {
+export function loadProfilesFromConfig(
+  parsed: Record<string, unknown> = parseConfigFile(),
+): {
   profiles: ProfileDefinition[];
   coinOptions: CoinSymbol[];
 } {
-  const providerConfig = loadProviderConfig("polymarket");
+  const providerConfig = parseProviderConfig(parsed, "polymarket");
   const profiles: ProfileDefinition[] = [];
 
   for (const profile of providerConfig.profiles) {
@@ -1,8 +1,21 @@
+import { randomUUID } from "crypto";
 import type { MarketSnapshot, OrderBookLevel } from "./market-data-hub";
 import type { MarketProvider } from "../providers/provider";
 import type { SignalSnapshot, TokenSignal } from "./market-signals";
-import type { CoinSymbol } from "./auto-market";
+import type { CoinSymbol, MarketHorizon } from "./auto-market";
 import { RunLogger } from "./run-logger";
+import { NO_FEES, type FeeLiquidity, type VenueFeeModels } from "./fee-model";
+import { RiskManager, type RiskLeg } from "./risk-manager";
+import { PendingConfigUpdates } from "./config-reload";
+import { resolveSeed, SeededRng } from "./rng";
+import type { JournalDetails, TradeJournal } from "./trade-journal";
+import {
+  advanceMakerQueue,
+  joinMakerQueue,
+  makerBidPrice,
+  type MakerQueueState,
+} from "./maker-queue";
+import type { ExecutionAdapter, ExecutionOrder } from "../execution/types";
 
 function parseEnvFlag(name: string, defaultValue: boolean): boolean {
   const raw = process.env[name];
@@ -13,6 +26,16 @@ function parseEnvFlag(name: string, defaultValue: boolean): boolean {
   return defaultValue;
 }
 
+function parseEnvNumber(name: string, defaultValue: number, minValue: number): number {
+  const raw = process.env[name];
+  if (!raw) return defaultValue;
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed)) return defaultValue;
+  return Math.max(minValue, parsed);
+}
+
+const EXEC_LIMIT_SLIPPAGE = parseEnvNumber("EXECUTION_LIMIT_SLIPPAGE", 0.01, 0);
+
 const forcedMinConfidenceRaw = process.env.BACKTEST_FORCE_MIN_CONFIDENCE;
 const FORCED_MIN_CONFIDENCE = Number.isFinite(Number(forcedMinConfidenceRaw))
   ? Number(forcedMinConfidenceRaw)
@@ -55,6 +78,15 @@ function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
 
+function resolveLimitPrice(price: number): number {
+  const cents = Math.ceil((price + EXEC_LIMIT_SLIPPAGE) * 100 - 1e-9);
+  return Math.min(99, Math.max(1, cents)) / 100;
+}
+
+function formatFee(fee: number): string {
+  return fee > 0 ? ` + fee ${fee.toFixed(2)}` : "";
+}
+
 function formatMetric(
   value: number | null | undefined,
   digits: number,
@@ -141,6 +173,20 @@ export interface CrossModeConfig {
   opportunistic?: CrossModeOverrides;
 }
 
+/**
+ * Posts the entry as a resting bid instead of walking the asks. The order
+ * fills from trade prints once the estimated queue ahead of it has traded.
+ */
+export interface MakerConfig {
+  enabled?: boolean;
+  /** Dollars above the best bid to post at; 0 joins it. Stays a tick under the best ask. */
+  priceImprovement?: number;
+  /** Cancel/replace at the new target price once it is this far (dollars) from ours; null never reprices. */
+  repriceThreshold?: number | null;
+  /** Seconds left at which the unfilled rest is cancelled; null rests until the close. */
+  tradeStopTimeLeft?: number | null;
+}
+
 export interface TradeRule {
   tierSeconds: number;
   minimumPriceDifference: number;
@@ -172,6 +218,8 @@ export interface CrossTradeConfig {
 }
 
 export interface TimedTradeConfig {
+  /** Up/Down market window this config trades; missing means 15m. */
+  horizon?: MarketHorizon;
   tradeAllowedTimeLeft: number;
   rules: TradeRule[];
   cross?: CrossTradeConfig;
@@ -180,9 +228,12 @@ export interface TimedTradeConfig {
   gateModel?: GateModelConfig;
   lossGovernor?: LossGovernorConfig;
   crossModes?: CrossModeConfig;
+  maker?: MakerConfig;
 }
 
 interface FakePosition {
+  /** Journal id of the order that opened the position. */
+  orderId: string;
   tokenId: string;
   outcome: string;
   shares: number;
@@ -222,15 +273,31 @@ interface CriteriaLogState {
 }
 
 interface PendingOrder {
+  /** Journal id, `<coin>-<decisionMs>`. */
+  orderId: string;
   dueMs: number;
   tokenId: string;
   outcome: string;
   rule: TradeRule;
+  /** Set once the entry is sent through a non-paper executor. */
+  submittedAtMs: number | null;
+}
+
+/** Entry posted as a maker bid; fills merge into `position`. */
+interface RestingOrder {
+  /** Journal id of the decision that posted it. */
+  orderId: string;
+  outcome: string;
+  rule: TradeRule;
+  queue: MakerQueueState;
 }
 
 interface CoinTradeState {
   position: FakePosition | null;
+  /** RiskManager ticket holding the position's exposure. */
+  riskTicket: number | null;
   pendingOrder: PendingOrder | null;
+  restingOrder: RestingOrder | null;
   simulatedConsumption: Map<string, Map<number, number>>;
   simulatedBidConsumption: Map<string, Map<number, number>>;
   crossed: boolean;
@@ -248,6 +315,12 @@ interface CoinTradeState {
   crossDebugLastKey: string | null;
 }
 
+/** A closed market whose entry was still at the venue; settled when it reports. */
+interface AwaitingReport {
+  snapshot: MarketSnapshot;
+  state: CoinTradeState;
+}
+
 interface SignalStats {
   samples: number;
   spreadSum: number;
@@ -258,6 +331,24 @@ interface SignalStats {
   confidenceCount: number;
 }
 
+interface ProfileCoinCheckpoint {
+  state: CoinTradeState;
+  /** Legs of the position's risk ticket at checkpoint time. */
+  riskLegs: RiskLeg[];
+  lastSnapshot: MarketSnapshot | null;
+  lastResult: string | null;
+}
+
+/** Engine state written to a run checkpoint; see `restoreCheckpoint`. */
+export interface ProfileEngineCheckpoint {
+  startMs: number;
+  summary: ProfileSummary;
+  pnlHistory: number[];
+  coins: Record<CoinSymbol, ProfileCoinCheckpoint>;
+  /** Position in the engine's random stream; absent in older checkpoints. */
+  rngState?: number;
+}
+
 export interface ProfileEngineOptions {
   advancedSignals?: boolean;
   signalDebug?: boolean;
@@ -268,6 +359,19 @@ export interface ProfileEngineOptions {
     coin: CoinSymbol,
     snapshot: MarketSnapshot,
   ) => TimedTradeConfig | null;
+  /** Venue fee models; defaults to no fees. */
+  fees?: VenueFeeModels;
+  /** Portfolio limits shared with the other engines; defaults to no caps. */
+  risk?: RiskManager;
+  /** Receives candidate/order/fill/settlement events; off when omitted. */
+  journal?: TradeJournal;
+  /** Draws the decision latency when none is fixed; defaults to a fresh seed. */
+  rng?: SeededRng;
+  /**
+   * Sends taker entries to the venues (dry-run or live). Paper, the default,
+   * fills against the local books.
+   */
+  executor?: ExecutionAdapter;
 }
 
 export interface ProfileSummary {
@@ -317,6 +421,8 @@ export interface ProfileMarketView {
 }
 
 const CRITERIA_LOG_COOLDOWN_MS = 15000;
+/** A maker rest worth less than this (dollars) counts as fully filled. */
+const MAKER_MIN_REST_VALUE = 0.01;
 const CROSS_LOG_COOLDOWN_MS = 30000;
 
 export class ProfileEngine {
@@ -324,6 +430,9 @@ export class ProfileEngine {
   private configs: Map<CoinSymbol, TimedTradeConfig>;
   private logger: RunLogger;
   private startMs = 0;
+  /** Clock of the current evaluate call (simulated in backtests). */
+  private lastEvaluateMs = 0;
+  private decisionCount = 0;
   private summary: ProfileSummary = {
     runtimeSec: 0,
     totalTrades: 0,
@@ -335,6 +444,8 @@ export class ProfileEngine {
   private pnlHistory: number[] = [];
   private coinStates: Map<CoinSymbol, CoinTradeState> = new Map();
   private lastSnapshots: Map<CoinSymbol, MarketSnapshot> = new Map();
+  /** Keyed by order id. */
+  private awaitingReports: Map<string, AwaitingReport> = new Map();
   private lastResultByCoin: Map<CoinSymbol, string | null> = new Map();
   private advancedSignals: boolean;
   private signalDebug: boolean;
@@ -345,6 +456,12 @@ export class ProfileEngine {
     coin: CoinSymbol,
     snapshot: MarketSnapshot,
   ) => TimedTradeConfig | null;
+  private fees: VenueFeeModels;
+  private risk: RiskManager;
+  private journal: TradeJournal | null;
+  private rng: SeededRng;
+  private executor: ExecutionAdapter | null;
+  private configUpdates = new PendingConfigUpdates<TimedTradeConfig>();
   private signalStats: SignalStats = {
     samples: 0,
     spreadSum: 0,
@@ -382,6 +499,12 @@ export class ProfileEngine {
         ? Math.max(0, Math.floor(rawLatency))
         : null;
     this.configResolver = options.configResolver;
+    this.fees = options.fees ?? NO_FEES;
+    this.risk = options.risk ?? new RiskManager();
+    this.executor =
+      options.executor && options.executor.mode !== "paper" ? options.executor : null;
+    this.journal = options.journal ?? null;
+    this.rng = options.rng ?? new SeededRng(resolveSeed());
     for (const coin of configs.keys()) {
       this.coinStates.set(coin, this.createCoinState());
     }
@@ -426,6 +549,85 @@ export class ProfileEngine {
     };
   }
 
+  /**
+   * Queues reloaded coin configs. Each one takes effect on the next
+   * evaluate where that coin has no pending or resting order; unknown coins
+   * are dropped.
+   */
+  updateConfigs(configs: Map<CoinSymbol, TimedTradeConfig>): void {
+    this.configUpdates.queue(configs);
+  }
+
+  exportCheckpoint(): ProfileEngineCheckpoint {
+    const coins: Record<CoinSymbol, ProfileCoinCheckpoint> = {};
+    for (const [coin, state] of this.coinStates.entries()) {
+      coins[coin] = {
+        state,
+        riskLegs: state.riskTicket === null ? [] : this.risk.getTicketLegs(state.riskTicket) ?? [],
+        lastSnapshot: this.lastSnapshots.get(coin) ?? null,
+        lastResult: this.lastResultByCoin.get(coin) ?? null,
+      };
+    }
+    return {
+      startMs: this.startMs,
+      summary: { ...this.summary },
+      pnlHistory: [...this.pnlHistory],
+      coins,
+      rngState: this.rng.getState(),
+    };
+  }
+
+  /**
+   * Rehydrates state saved by a previous process. An open position gets a
+   * fresh risk ticket and keeps trading while its market (slug) is live; if
+   * the market rolled over meanwhile, the next evaluate settles it from the
+   * saved snapshot.
+   */
+  restoreCheckpoint(checkpoint: ProfileEngineCheckpoint): void {
+    this.startMs = checkpoint.startMs;
+    if (checkpoint.rngState !== undefined) this.rng.setState(checkpoint.rngState);
+    this.summary = { ...checkpoint.summary };
+    this.pnlHistory = [...checkpoint.pnlHistory];
+    for (const [coin, saved] of Object.entries(checkpoint.coins)) {
+      if (!this.coinStates.has(coin)) {
+        if (saved.state.position) {
+          this.logger.log(
+            `${coin.toUpperCase()} is no longer traded by this profile; its checkpointed position was dropped`,
+            "ERROR",
+          );
+        }
+        continue;
+      }
+      const state: CoinTradeState = { ...this.createCoinState(), ...saved.state };
+      if (state.pendingOrder?.submittedAtMs) {
+        // The venue report for an in-flight entry went with the old process.
+        this.logger.log(
+          `${coin.toUpperCase()} entry ${state.pendingOrder.orderId} was in flight at checkpoint; check the venue for its fill`,
+          "ERROR",
+        );
+        state.pendingOrder = null;
+      } else if (state.pendingOrder) {
+        state.pendingOrder = { ...state.pendingOrder, submittedAtMs: null };
+      }
+      state.riskTicket = saved.state.position || saved.state.restingOrder
+        ? this.risk.adopt(this.name, coin, saved.riskLegs)
+        : null;
+      this.coinStates.set(coin, state);
+      if (saved.lastSnapshot) this.lastSnapshots.set(coin, saved.lastSnapshot);
+      this.lastResultByCoin.set(coin, saved.lastResult);
+      if (saved.state.position) {
+        this.logger.log(
+          `${coin.toUpperCase()} position restored (${saved.state.position.outcome} x${saved.state.position.shares})`,
+        );
+      }
+    }
+  }
+
+  /** Entry and cross decisions made so far (not persisted in checkpoints). */
+  getDecisionCount(): number {
+    return this.decisionCount;
+  }
+
   getPendingCoins(): Set<CoinSymbol> {
     const pending = new Set<CoinSymbol>();
     for (const [coin, state] of this.coinStates.entries()) {
@@ -439,8 +641,8 @@ export class ProfileEngine {
   getNextPendingTime(): number | null {
     let next: number | null = null;
     for (const state of this.coinStates.values()) {
-      const due = state.pendingOrder?.dueMs;
-      if (due === undefined) continue;
+      if (!state.pendingOrder || state.pendingOrder.submittedAtMs !== null) continue;
+      const due = state.pendingOrder.dueMs;
       if (next === null || due < next) {
         next = due;
       }
@@ -454,6 +656,18 @@ export class ProfileEngine {
     coinFilter?: Set<CoinSymbol>,
   ): void {
     this.summary.runtimeSec = (nowMs - this.startMs) / 1000;
+    this.lastEvaluateMs = nowMs;
+
+    const reloaded = this.configUpdates.applyTo(
+      this.configs,
+      (coin) => {
+        const state = this.coinStates.get(coin);
+        return Boolean(state?.pendingOrder || state?.restingOrder);
+      },
+    );
+    for (const coin of reloaded) {
+      this.logger.log(`${coin.toUpperCase()} config reloaded`);
+    }
 
     let openExposure = 0;
 
@@ -484,6 +698,7 @@ export class ProfileEngine {
 
       if (
         coinState?.pendingOrder &&
+        coinState.pendingOrder.submittedAtMs === null &&
         nowMs >= coinState.pendingOrder.dueMs &&
         !coinState.position
       ) {
@@ -492,6 +707,7 @@ export class ProfileEngine {
         this.executeTrade(
           coin,
           snapshot,
+          pending.orderId,
           pending.tokenId,
           pending.outcome,
           pending.rule,
@@ -500,6 +716,10 @@ export class ProfileEngine {
         );
       }
 
+      if (coinState?.restingOrder) {
+        this.workRestingOrder(coin, snapshot, config, nowMs);
+      }
+
       this.evaluateMarket(coin, snapshot, config, nowMs);
 
       this.lastSnapshots.set(coin, snapshot);
@@ -626,7 +846,9 @@ export class ProfileEngine {
   private createCoinState(): CoinTradeState {
     return {
       position: null,
+      riskTicket: null,
       pendingOrder: null,
+      restingOrder: null,
       simulatedConsumption: new Map(),
       simulatedBidConsumption: new Map(),
       crossed: false,
@@ -676,6 +898,7 @@ export class ProfileEngine {
     const next = this.createCoinState();
     if (state) {
       next.lossStreak = state.lossStreak;
+      this.releaseRisk(state, 0);
     }
     this.coinStates.set(coin, next);
   }
@@ -694,6 +917,8 @@ export class ProfileEngine {
       return;
     }
 
+    if (coinState.restingOrder) return;
+
     if (coinState.position) {
       this.evaluateCross(coin, snapshot, config, nowMs);
       return;
@@ -1045,13 +1270,25 @@ export class ProfileEngine {
     const latencyMs =
       this.decisionLatencyMs !== null
         ? this.decisionLatencyMs
-        : 250 + Math.floor(Math.random() * 251);
+        : this.rng.int(250, 500);
+    this.decisionCount += 1;
     coinState.pendingOrder = {
+      orderId: `${coin}-${nowMs}`,
       dueMs: nowMs + latencyMs,
       tokenId: favoredTokenId,
       outcome: favoredOutcome,
       rule: activeRule,
+      submittedAtMs: null,
     };
+    this.recordDecision(coin, snapshot, coinState.pendingOrder, latencyMs, nowMs, {
+      timeLeftSec: snapshot.timeLeftSec,
+      tierSec: activeRule.tierSeconds,
+      priceDiff,
+      bestAsk,
+      confidence,
+      edgeScore,
+      gateMultiplier,
+    });
 
     if (this.signalDebug && confidence !== null) {
       this.logger.log(
@@ -1071,6 +1308,7 @@ export class ProfileEngine {
   private executeTrade(
     coin: CoinSymbol,
     snapshot: MarketSnapshot,
+    orderId: string,
     tokenId: string,
     outcome: string,
     rule: TradeRule,
@@ -1098,9 +1336,11 @@ export class ProfileEngine {
       sizeScale: (rule.sizeScale ?? 1) * lossSizeMultiplier,
     };
 
+    const maker = config.maker && config.maker.enabled !== false ? config.maker : null;
     const asks = this.getAdjustedAsks(snapshot, state, tokenId);
-    if (asks.length === 0) {
+    if (asks.length === 0 && !maker) {
       this.logger.log(`${coin.toUpperCase()} no asks available`, "WARN");
+      this.recordCancel(coin, snapshot, orderId, "no asks", nowMs);
       return;
     }
 
@@ -1155,44 +1395,504 @@ export class ProfileEngine {
       confidence,
       tokenSignal,
     });
+    if (maker) {
+      if (this.executor) {
+        this.logger.log(
+          `${coin.toUpperCase()} maker entry skipped (maker bids are paper-only, execution=${this.executor.mode})`,
+          "WARN",
+        );
+        this.recordCancel(coin, snapshot, orderId, "maker bids are paper-only", nowMs);
+        return;
+      }
+      this.postRestingOrder(
+        coin,
+        snapshot,
+        orderId,
+        tokenId,
+        outcome,
+        effectiveRule,
+        maker,
+        resolvedMaxSpend,
+        nowMs,
+      );
+      return;
+    }
     const fill = this.simulateFill(asks, effectiveRule, resolvedMaxSpend);
     if (!fill) {
       this.logger.log(
         `${coin.toUpperCase()} trade skipped (insufficient liquidity)`,
         "WARN",
       );
+      this.recordCancel(coin, snapshot, orderId, "insufficient liquidity", nowMs);
       return;
     }
 
+    const fee = this.orderFee(snapshot, fill.shares, fill.avgPrice);
+    const decision = this.risk.request({
+      owner: this.name,
+      coin,
+      legs: [{ venue: snapshot.provider ?? "polymarket", cost: fill.cost + fee }],
+      nowMs,
+    });
+    if (!decision.allowed) {
+      this.recordCancel(coin, snapshot, orderId, `risk: ${decision.reason}`, nowMs);
+      return;
+    }
+    state.riskTicket = decision.ticket;
+
+    if (this.executor) {
+      this.submitEntry(coin, snapshot, state, orderId, tokenId, outcome, effectiveRule, fill, nowMs);
+      return;
+    }
+
+    this.applyConsumption(state, tokenId, fill.fills);
+    this.openPosition(coin, snapshot, state, orderId, tokenId, outcome, fill, "paper", nowMs);
+    if (this.signalDebug && resolvedMaxSpend !== effectiveRule.maximumSpend) {
+      this.logger.log(
+        `${coin.toUpperCase()} FAKE BUY ${fill.shares.toFixed(2)} @ ${fill.avgPrice.toFixed(
+          4,
+        )} (cost ${fill.cost.toFixed(2)}${formatFee(fee)}, max ${resolvedMaxSpend.toFixed(
+          2,
+        )})`,
+      );
+    } else {
+      this.logger.log(
+        `${coin.toUpperCase()} FAKE BUY ${fill.shares.toFixed(2)} @ ${fill.avgPrice.toFixed(
+          4,
+        )} (cost ${fill.cost.toFixed(2)}${formatFee(fee)})`,
+      );
+    }
+  }
+
+  /**
+   * Sends a taker entry through the executor as a limit at the worst level
+   * the book walk reached plus EXECUTION_LIMIT_SLIPPAGE (capped at the
+   * rule's maximum share price). The coin keeps a submitted pending order
+   * until the venue reports, so no second entry is made meanwhile.
+   */
+  private submitEntry(
+    coin: CoinSymbol,
+    snapshot: MarketSnapshot,
+    state: CoinTradeState,
+    orderId: string,
+    tokenId: string,
+    outcome: string,
+    rule: TradeRule,
+    fill: { shares: number; avgPrice: number; fills: OrderBookLevel[] },
+    nowMs: number,
+  ): void {
+    const executor = this.executor;
+    if (!executor) return;
+    const venue = snapshot.provider ?? "polymarket";
+    const worstPrice = fill.fills.reduce((worst, level) => Math.max(worst, level.price), 0);
+    const order: ExecutionOrder = {
+      venue,
+      marketId: venue === "kalshi" ? snapshot.marketTicker ?? snapshot.slug : snapshot.slug,
+      tokenId,
+      side: "BUY",
+      price: Math.min(resolveLimitPrice(worstPrice), rule.maximumSharePrice),
+      shares: fill.shares,
+      expectedPrice: fill.avgPrice,
+      clientOrderId: randomUUID(),
+    };
+    const pending: PendingOrder = {
+      orderId,
+      dueMs: nowMs,
+      tokenId,
+      outcome,
+      rule,
+      submittedAtMs: nowMs,
+    };
+    state.pendingOrder = pending;
+    this.logger.log(
+      `${coin.toUpperCase()} ORDER_SENT ${outcome} mode=${executor.mode} shares=${order.shares.toFixed(
+        2,
+      )} limit=${order.price.toFixed(2)} id=${order.clientOrderId}`,
+    );
+
+    void executor
+      .placeOrder(order)
+      .catch((error: unknown) => ({
+        status: "rejected" as const,
+        orderId: null,
+        sentShares: 0,
+        filledShares: 0,
+        avgPrice: 0,
+        error: error instanceof Error ? error.message : String(error),
+      }))
+      .then((report) => {
+        const doneMs = Date.now();
+        const closed = this.awaitingReports.get(orderId);
+        const live = this.coinStates.get(coin);
+        const current =
+          live?.pendingOrder === pending
+            ? live
+            : closed?.state.pendingOrder === pending
+              ? closed.state
+              : null;
+        if (!current) {
+          this.logger.log(
+            `${coin.toUpperCase()} ORDER_RESULT ${orderId} has no pending order (filled=${report.filledShares})`,
+            "WARN",
+          );
+          return;
+        }
+        current.pendingOrder = null;
+        if (report.filledShares <= 0) {
+          this.releaseRisk(current, 0);
+          this.recordCancel(
+            coin,
+            snapshot,
+            orderId,
+            `not filled: ${report.error ?? report.status}`,
+            doneMs,
+          );
+          this.logger.log(
+            `${coin.toUpperCase()} ORDER_FAILED ${outcome} ${report.error ?? report.status}`,
+            "WARN",
+          );
+          return;
+        }
+        const filled = {
+          shares: report.filledShares,
+          avgPrice: report.avgPrice,
+          cost: report.filledShares * report.avgPrice,
+        };
+        this.openPosition(
+          coin,
+          snapshot,
+          current,
+          orderId,
+          tokenId,
+          outcome,
+          filled,
+          executor.mode,
+          doneMs,
+        );
+        const fee = this.orderFee(snapshot, filled.shares, filled.avgPrice);
+        this.logger.log(
+          `${coin.toUpperCase()} ${executor.mode.toUpperCase()} BUY ${filled.shares.toFixed(2)} @ ${filled.avgPrice.toFixed(
+            4,
+          )} (cost ${filled.cost.toFixed(2)}${formatFee(fee)}, ${report.status})`,
+        );
+      })
+      .finally(() => {
+        const closed = this.awaitingReports.get(orderId);
+        if (!closed || closed.state.pendingOrder) return;
+        this.awaitingReports.delete(orderId);
+        this.settleClosedMarket(coin, closed);
+      });
+  }
+
+  /**
+   * Settles a market that closed while its entry was at the venue, now that
+   * the report is in. The coin's live state only takes the loss streak.
+   */
+  private settleClosedMarket(coin: CoinSymbol, closed: AwaitingReport): void {
+    const streak = closed.state.lossStreak;
+    this.settleMarket(coin, closed.snapshot, closed.state);
+    const live = this.coinStates.get(coin);
+    if (!live || closed.state.lossStreak === streak) return;
+    live.lossStreak = closed.state.lossStreak === 0 ? 0 : live.lossStreak + 1;
+  }
+
+  /**
+   * Opens the coin's position from an entry fill (simulated or reported by
+   * the venue) and sizes its risk ticket to what was actually bought.
+   */
+  private openPosition(
+    coin: CoinSymbol,
+    snapshot: MarketSnapshot,
+    state: CoinTradeState,
+    orderId: string,
+    tokenId: string,
+    outcome: string,
+    fill: { shares: number; avgPrice: number; cost: number },
+    fillSource: string,
+    nowMs: number,
+  ): void {
+    const venue = snapshot.provider ?? "polymarket";
+    const fee = this.orderFee(snapshot, fill.shares, fill.avgPrice);
+    if (state.riskTicket !== null) {
+      this.risk.update(state.riskTicket, [{ venue, cost: fill.cost + fee }]);
+    }
     state.position = {
+      orderId,
       tokenId,
       outcome,
       shares: fill.shares,
       avgPrice: fill.avgPrice,
-      cost: fill.cost,
+      cost: fill.cost + fee,
       openedAt: nowMs,
     };
+    this.journal?.record({
+      type: "fill",
+      ts: nowMs,
+      source: "profile",
+      engine: this.name,
+      coin,
+      market: snapshot.slug,
+      orderId,
+      direction: outcome,
+      legs: [
+        {
+          venue,
+          side: "buy",
+          outcome,
+          shares: fill.shares,
+          avgPrice: fill.avgPrice,
+          cost: fill.cost,
+          fee,
+        },
+      ],
+      expectedGap: null,
+      gap: null,
+      slippage: null,
+      realizedPnl: 0,
+      fillSource,
+    });
 
-    this.applyConsumption(state, tokenId, fill.fills);
+    state.marketHadTrade = true;
+    if (!state.marketTradeCounted) {
+      this.summary.totalTrades += 1;
+      state.marketTradeCounted = true;
+    }
+  }
+
+  private postRestingOrder(
+    coin: CoinSymbol,
+    snapshot: MarketSnapshot,
+    orderId: string,
+    tokenId: string,
+    outcome: string,
+    rule: TradeRule,
+    maker: MakerConfig,
+    maxSpend: number,
+    nowMs: number,
+  ): void {
+    const state = this.coinStates.get(coin);
+    if (!state) return;
+    const book = snapshot.orderBooks.get(tokenId);
+    const price = makerBidPrice(
+      book,
+      maker.priceImprovement ?? 0,
+      rule.minimumSharePrice,
+      rule.maximumSharePrice,
+    );
+    if (price === null) {
+      this.logger.log(`${coin.toUpperCase()} maker bid skipped (no price inside the rule)`, "WARN");
+      this.recordCancel(coin, snapshot, orderId, "no maker price", nowMs);
+      return;
+    }
+    if (!(maxSpend > 0) || maxSpend < rule.minimumSpend) {
+      this.recordCancel(coin, snapshot, orderId, "below minimum spend", nowMs);
+      return;
+    }
+    const shares = maxSpend / price;
+    const venue = snapshot.provider ?? "polymarket";
+    const decision = this.risk.request({
+      owner: this.name,
+      coin,
+      legs: [{ venue, cost: maxSpend + this.orderFee(snapshot, shares, price, "maker") }],
+      nowMs,
+    });
+    if (!decision.allowed) {
+      this.recordCancel(coin, snapshot, orderId, `risk: ${decision.reason}`, nowMs);
+      return;
+    }
+    state.riskTicket = decision.ticket;
+    state.restingOrder = {
+      orderId,
+      outcome,
+      rule,
+      queue: joinMakerQueue(tokenId, book, price, shares, nowMs),
+    };
+    this.recordMakerOrder(coin, snapshot, state.restingOrder, nowMs);
+    this.logger.log(
+      `${coin.toUpperCase()} MAKER BID ${shares.toFixed(2)} @ ${price.toFixed(2)} (${outcome}, queue ahead ${state.restingOrder.queue.queueAhead.toFixed(0)})`,
+    );
+  }
+
+  /**
+   * Fills, expires or reprices the coin's resting bid against the latest
+   * book and trade prints.
+   */
+  private workRestingOrder(
+    coin: CoinSymbol,
+    snapshot: MarketSnapshot,
+    config: TimedTradeConfig,
+    nowMs: number,
+  ): void {
+    const state = this.coinStates.get(coin);
+    const order = state?.restingOrder;
+    if (!state || !order) return;
+    if (snapshot.timeLeftSec !== null && snapshot.timeLeftSec <= 0) return;
+
+    const book = snapshot.orderBooks.get(order.queue.tokenId);
+    const filled = advanceMakerQueue(order.queue, book, snapshot.recentTrades);
+    if (filled > 0) {
+      this.applyMakerFill(coin, snapshot, state, order, filled, nowMs);
+    }
+    if (order.queue.remainingShares * order.queue.price < MAKER_MIN_REST_VALUE) {
+      state.restingOrder = null;
+      this.syncMakerRisk(state, snapshot);
+      this.logger.log(`${coin.toUpperCase()} maker bid filled`);
+      return;
+    }
+
+    const maker = config.maker;
+    const stopAt = maker?.tradeStopTimeLeft ?? null;
+    if (stopAt !== null && snapshot.timeLeftSec !== null && snapshot.timeLeftSec <= stopAt) {
+      this.cancelRestingOrder(coin, snapshot, "expired (tradeStopTimeLeft)", nowMs);
+      return;
+    }
+
+    const threshold = maker?.repriceThreshold ?? null;
+    if (threshold === null) return;
+    const target = makerBidPrice(
+      book,
+      maker?.priceImprovement ?? 0,
+      order.rule.minimumSharePrice,
+      order.rule.maximumSharePrice,
+    );
+    if (target === null || Math.abs(target - order.queue.price) < threshold - 1e-9) return;
+
+    const previous = order.queue.price;
+    const restValue = order.queue.remainingShares * previous;
+    this.recordCancel(
+      coin,
+      snapshot,
+      order.orderId,
+      `replaced ${previous.toFixed(2)} -> ${target.toFixed(2)}`,
+      nowMs,
+    );
+    order.queue = joinMakerQueue(order.queue.tokenId, book, target, restValue / target, nowMs);
+    this.recordMakerOrder(coin, snapshot, order, nowMs);
+    this.syncMakerRisk(state, snapshot);
+    this.logger.log(
+      `${coin.toUpperCase()} MAKER REPRICE ${previous.toFixed(2)} -> ${target.toFixed(2)} (${order.queue.remainingShares.toFixed(2)} left, queue ahead ${order.queue.queueAhead.toFixed(0)})`,
+    );
+  }
+
+  private applyMakerFill(
+    coin: CoinSymbol,
+    snapshot: MarketSnapshot,
+    state: CoinTradeState,
+    order: RestingOrder,
+    shares: number,
+    nowMs: number,
+  ): void {
+    const price = order.queue.price;
+    const cost = shares * price;
+    const fee = this.orderFee(snapshot, shares, price, "maker");
+    const position = state.position;
+    if (position) {
+      const totalShares = position.shares + shares;
+      position.avgPrice = (position.avgPrice * position.shares + cost) / totalShares;
+      position.shares = totalShares;
+      position.cost += cost + fee;
+    } else {
+      state.position = {
+        orderId: order.orderId,
+        tokenId: order.queue.tokenId,
+        outcome: order.outcome,
+        shares,
+        avgPrice: price,
+        cost: cost + fee,
+        openedAt: nowMs,
+      };
+    }
+    this.syncMakerRisk(state, snapshot);
+    this.journal?.record({
+      type: "fill",
+      ts: nowMs,
+      source: "profile",
+      engine: this.name,
+      coin,
+      market: snapshot.slug,
+      orderId: order.orderId,
+      direction: order.outcome,
+      legs: [
+        {
+          venue: snapshot.provider ?? "polymarket",
+          side: "buy",
+          outcome: order.outcome,
+          shares,
+          avgPrice: price,
+          cost,
+          fee,
+        },
+      ],
+      expectedGap: null,
+      gap: null,
+      slippage: null,
+      realizedPnl: 0,
+      fillSource: "maker",
+    });
 
     state.marketHadTrade = true;
     if (!state.marketTradeCounted) {
       this.summary.totalTrades += 1;
       state.marketTradeCounted = true;
     }
-    if (this.signalDebug && resolvedMaxSpend !== effectiveRule.maximumSpend) {
-      this.logger.log(
-        `${coin.toUpperCase()} FAKE BUY ${fill.shares.toFixed(2)} @ ${fill.avgPrice.toFixed(
-          4,
-        )} (cost ${fill.cost.toFixed(2)}, max ${resolvedMaxSpend.toFixed(2)})`,
-      );
+    this.logger.log(
+      `${coin.toUpperCase()} MAKER FILL ${shares.toFixed(2)} @ ${price.toFixed(2)} (cost ${cost.toFixed(
+        2,
+      )}${formatFee(fee)}, ${order.queue.remainingShares.toFixed(2)} left)`,
+    );
+  }
+
+  private cancelRestingOrder(
+    coin: CoinSymbol,
+    snapshot: MarketSnapshot,
+    reason: string,
+    nowMs: number,
+  ): void {
+    const state = this.coinStates.get(coin);
+    const order = state?.restingOrder;
+    if (!state || !order) return;
+    this.recordCancel(coin, snapshot, order.orderId, reason, nowMs);
+    state.restingOrder = null;
+    if (state.position) {
+      this.syncMakerRisk(state, snapshot);
     } else {
-      this.logger.log(
-        `${coin.toUpperCase()} FAKE BUY ${fill.shares.toFixed(2)} @ ${fill.avgPrice.toFixed(
-          4,
-        )} (cost ${fill.cost.toFixed(2)})`,
-      );
+      this.releaseRisk(state, 0);
     }
+    this.logger.log(
+      `${coin.toUpperCase()} maker bid cancelled (${reason}), ${order.queue.remainingShares.toFixed(2)} unfilled`,
+    );
+  }
+
+  /** Holds the filled position plus the unfilled rest of the bid. */
+  private syncMakerRisk(state: CoinTradeState, snapshot: MarketSnapshot): void {
+    if (state.riskTicket === null) return;
+    const rest = state.restingOrder
+      ? state.restingOrder.queue.remainingShares * state.restingOrder.queue.price
+      : 0;
+    this.risk.update(state.riskTicket, [
+      { venue: snapshot.provider ?? "polymarket", cost: (state.position?.cost ?? 0) + rest },
+    ]);
+  }
+
+  private recordMakerOrder(
+    coin: CoinSymbol,
+    snapshot: MarketSnapshot,
+    order: RestingOrder,
+    nowMs: number,
+  ): void {
+    this.journal?.record({
+      type: "order",
+      ts: nowMs,
+      source: "profile",
+      engine: this.name,
+      coin,
+      market: snapshot.slug,
+      orderId: order.orderId,
+      direction: order.outcome,
+      shares: order.queue.remainingShares,
+      cost: order.queue.remainingShares * order.queue.price,
+      delayMs: 0,
+    });
   }
 
   private evaluateCross(
@@ -1206,6 +1906,8 @@ export class ProfileEngine {
     if (state.crossed) return;
     const crossConfig = config.cross;
     if (!crossConfig) return;
+    // Flips sell and rebuy against the local books; they are not sent to venues.
+    if (this.executor) return;
     const edgeEnabled = config.edgeModel ? config.edgeModel.enabled !== false : false;
     const gateEnabled = config.gateModel ? config.gateModel.enabled !== false : false;
     const timeLeftSec = snapshot.timeLeftSec;
@@ -1534,7 +2236,8 @@ export class ProfileEngine {
       return;
     }
 
-    const realized = exitFill.proceeds - state.position.cost;
+    const exitFee = this.orderFee(snapshot, exitFill.shares, exitFill.avgPrice);
+    const realized = exitFill.proceeds - exitFee - state.position.cost;
     if (realized >= 0) {
       this.logCrossBlock(coin, snapshot, state, nowMs, "not_losing", {
         timeLeftSec,
@@ -1602,7 +2305,8 @@ export class ProfileEngine {
       return;
     }
 
-    const potentialProfit = entryFill.shares - entryFill.cost;
+    const entryFee = this.orderFee(snapshot, entryFill.shares, entryFill.avgPrice);
+    const potentialProfit = entryFill.shares - entryFill.cost - entryFee;
     const minRecovery = activeRule.minRecoveryMultiple ?? 2;
     if (potentialProfit < -realized * minRecovery) {
       this.logCrossBlock(coin, snapshot, state, nowMs, "min_recovery", {
@@ -1616,20 +2320,93 @@ export class ProfileEngine {
       return;
     }
 
+    const decision = this.risk.request({
+      owner: this.name,
+      coin,
+      legs: [{ venue: snapshot.provider ?? "polymarket", cost: entryFill.cost + entryFee }],
+      nowMs,
+      replaces: state.riskTicket,
+    });
+    if (!decision.allowed) {
+      this.logCrossBlock(coin, snapshot, state, nowMs, "risk", {
+        timeLeftSec,
+        priceDiff,
+        bestAsk,
+        realized,
+      });
+      return;
+    }
+    state.riskTicket = decision.ticket;
+
     this.applyBidConsumption(state, exitTokenId, exitFill.fills);
     state.realizedPnl += realized;
 
+    const exitOutcome = state.position.outcome;
+    const crossOrderId = `${coin}-${nowMs}`;
+    if (this.journal) {
+      const venue = snapshot.provider ?? "polymarket";
+      const base = {
+        ts: nowMs,
+        source: "profile" as const,
+        engine: this.name,
+        coin,
+        market: snapshot.slug,
+      };
+      this.journal.record({
+        ...base,
+        type: "order",
+        orderId: crossOrderId,
+        direction: targetOutcome,
+        shares: entryFill.shares,
+        cost: entryFill.cost + entryFee,
+        delayMs: 0,
+      });
+      this.journal.record({
+        ...base,
+        type: "fill",
+        orderId: crossOrderId,
+        direction: targetOutcome,
+        legs: [
+          {
+            venue,
+            side: "sell",
+            outcome: exitOutcome,
+            shares: exitFill.shares,
+            avgPrice: exitFill.avgPrice,
+            cost: exitFill.proceeds,
+            fee: exitFee,
+          },
+          {
+            venue,
+            side: "buy",
+            outcome: targetOutcome,
+            shares: entryFill.shares,
+            avgPrice: entryFill.avgPrice,
+            cost: entryFill.cost,
+            fee: entryFee,
+          },
+        ],
+        expectedGap: null,
+        gap: null,
+        slippage: null,
+        realizedPnl: realized,
+        fillSource: "cross",
+      });
+    }
+
     state.position = {
+      orderId: crossOrderId,
       tokenId: targetTokenId,
       outcome: targetOutcome,
       shares: entryFill.shares,
       avgPrice: entryFill.avgPrice,
-      cost: entryFill.cost,
+      cost: entryFill.cost + entryFee,
       openedAt: nowMs,
     };
 
     this.applyConsumption(state, targetTokenId, entryFill.fills);
     state.crossed = true;
+    this.decisionCount += 1;
     state.marketHadTrade = true;
 
     this.logger.log(
@@ -1643,6 +2420,78 @@ export class ProfileEngine {
     );
   }
 
+  private recordDecision(
+    coin: CoinSymbol,
+    snapshot: MarketSnapshot,
+    pending: PendingOrder,
+    latencyMs: number,
+    nowMs: number,
+    details: JournalDetails,
+  ): void {
+    if (!this.journal) return;
+    const base = {
+      ts: nowMs,
+      source: "profile" as const,
+      engine: this.name,
+      coin,
+      market: snapshot.slug,
+    };
+    this.journal.record({
+      ...base,
+      type: "candidate",
+      orderId: pending.orderId,
+      direction: pending.outcome,
+      gap: null,
+      netGap: null,
+      shares: null,
+      cost: null,
+      details,
+    });
+    this.journal.record({
+      ...base,
+      type: "order",
+      orderId: pending.orderId,
+      direction: pending.outcome,
+      shares: null,
+      cost: null,
+      delayMs: latencyMs,
+    });
+  }
+
+  private recordCancel(
+    coin: CoinSymbol,
+    snapshot: MarketSnapshot,
+    orderId: string,
+    reason: string,
+    nowMs: number,
+  ): void {
+    this.journal?.record({
+      type: "cancel",
+      ts: nowMs,
+      source: "profile",
+      engine: this.name,
+      coin,
+      market: snapshot.slug,
+      orderId,
+      reason,
+    });
+  }
+
+  private releaseRisk(state: CoinTradeState, pnl: number): void {
+    if (state.riskTicket === null) return;
+    this.risk.close(state.riskTicket, pnl, this.lastEvaluateMs);
+    state.riskTicket = null;
+  }
+
+  private orderFee(
+    snapshot: MarketSnapshot,
+    shares: number,
+    price: number,
+    liquidity: FeeLiquidity = "taker",
+  ): number {
+    return this.fees[snapshot.provider ?? "polymarket"].orderFee(shares, price, liquidity);
+  }
+
   private logCrossBlock(
     coin: CoinSymbol,
     snapshot: MarketSnapshot,
@@ -2316,6 +3165,25 @@ export class ProfileEngine {
     if (!state) return;
     if (state.lastResolvedSlug === snapshot.slug) return;
 
+    const inFlight = state.pendingOrder;
+    if (inFlight && inFlight.submittedAtMs !== null) {
+      // The entry is at the venue and may still fill: keep its risk ticket
+      // and settle this market when the report arrives.
+      this.awaitingReports.set(inFlight.orderId, { snapshot, state });
+      const next = this.createCoinState();
+      next.lossStreak = state.lossStreak;
+      next.lastResolvedSlug = snapshot.slug;
+      this.coinStates.set(coin, next);
+      this.logger.log(
+        `${coin.toUpperCase()} market closed with order ${inFlight.orderId} at the venue; settling when it reports`,
+        "WARN",
+      );
+      return;
+    }
+    this.settleMarket(coin, snapshot, state);
+  }
+
+  private settleMarket(coin: CoinSymbol, snapshot: MarketSnapshot, state: CoinTradeState): void {
     const threshold =
       snapshot.priceToBeat > 0
         ? snapshot.priceToBeat
@@ -2324,8 +3192,16 @@ export class ProfileEngine {
       state.lastResolvedSlug = snapshot.slug;
       this.lastResultByCoin.set(coin, "No reference price available");
       this.logger.log(`${coin.toUpperCase()} resolved with no reference`, "WARN");
+      if (state.pendingOrder) {
+        this.recordCancel(coin, snapshot, state.pendingOrder.orderId, "market closed", this.lastEvaluateMs);
+      }
+      if (state.restingOrder) {
+        this.recordCancel(coin, snapshot, state.restingOrder.orderId, "market closed", this.lastEvaluateMs);
+      }
+      this.releaseRisk(state, 0);
       state.position = null;
       state.pendingOrder = null;
+      state.restingOrder = null;
       state.simulatedConsumption.clear();
       state.simulatedBidConsumption.clear();
       state.crossed = false;
@@ -2367,8 +3243,36 @@ export class ProfileEngine {
       this.logger.log(`${coin.toUpperCase()} resolved with no trade`);
     }
 
+    if (state.pendingOrder) {
+      this.recordCancel(coin, snapshot, state.pendingOrder.orderId, "market closed", this.lastEvaluateMs);
+    }
+    if (state.restingOrder) {
+      this.recordCancel(coin, snapshot, state.restingOrder.orderId, "market closed", this.lastEvaluateMs);
+    }
+    this.journal?.record({
+      type: "settlement",
+      ts: this.lastEvaluateMs,
+      source: "profile",
+      engine: this.name,
+      coin,
+      market: snapshot.slug,
+      orderId: state.position?.orderId ?? null,
+      outcomes: [
+        {
+          venue: snapshot.provider ?? "polymarket",
+          outcome: resolvedOutcome,
+          source: "derived",
+          detail: null,
+        },
+      ],
+      pnl: netPnl,
+      result: state.marketHadTrade ? (netPnl >= 0 ? "win" : "loss") : "none",
+    });
+
+    this.releaseRisk(state, netPnl);
     state.position = null;
     state.pendingOrder = null;
+    state.restingOrder = null;
     state.simulatedConsumption.clear();
     state.simulatedBidConsumption.clear();
     state.crossed = false;
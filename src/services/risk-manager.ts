@@ -0,0 +1,383 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import type { CoinSymbol } from "./auto-market";
+import type { MarketProvider } from "../providers/provider";
+import { stripJsonComments } from "./profile-config";
+import type { RunLogger } from "./run-logger";
+
+/** Portfolio-wide caps in USD of open cost; null disables a cap. */
+export interface RiskLimits {
+  maxTotalExposure: number | null;
+  maxCoinExposure: number | null;
+  maxVenueExposure: number | null;
+  /** Realized loss per UTC day that engages the kill switch until the next day. */
+  dailyLossLimit: number | null;
+  maxConcurrentPositions: number | null;
+  /** Start with new orders halted. */
+  killSwitch: boolean;
+}
+
+export interface RiskLeg {
+  venue: MarketProvider;
+  /** Cost committed on this venue, fees included. */
+  cost: number;
+}
+
+export interface RiskRequest {
+  /** Engine (profile) asking, for logs. */
+  owner: string;
+  coin: CoinSymbol;
+  legs: RiskLeg[];
+  nowMs: number;
+  /** Open ticket this order replaces (e.g. a cross re-entry); not counted against the caps. */
+  replaces?: number | null;
+}
+
+export type RiskDecision =
+  | { allowed: true; ticket: number }
+  | { allowed: false; reason: string };
+
+export interface RiskState {
+  limits: RiskLimits;
+  totalExposure: number;
+  coinExposure: Map<CoinSymbol, number>;
+  venueExposure: Record<MarketProvider, number>;
+  openPositions: number;
+  dailyPnl: number;
+  killSwitch: boolean;
+  haltReason: string | null;
+  rejected: number;
+}
+
+/** Daily-loss bookkeeping carried across a restart (open tickets travel with the engines). */
+export interface RiskCheckpoint {
+  day: string | null;
+  dailyPnl: number;
+  haltReason: string | null;
+}
+
+interface RiskTicket {
+  owner: string;
+  coin: CoinSymbol;
+  legs: RiskLeg[];
+}
+
+export const NO_RISK_LIMITS: RiskLimits = {
+  maxTotalExposure: null,
+  maxCoinExposure: null,
+  maxVenueExposure: null,
+  dailyLossLimit: null,
+  maxConcurrentPositions: null,
+  killSwitch: false,
+};
+
+const REJECT_LOG_COOLDOWN_MS = 15000;
+const DAILY_LOSS_REASON = "daily loss limit";
+
+function ticketCost(legs: RiskLeg[]): number {
+  return legs.reduce((sum, leg) => sum + leg.cost, 0);
+}
+
+function dayKey(nowMs: number): string {
+  return new Date(nowMs).toISOString().slice(0, 10);
+}
+
+/**
+ * Shared gate every engine asks before committing an order. Exposure is
+ * held per ticket from the request until the engine closes it at
+ * settlement, so pending orders count as soon as they are committed.
+ */
+export class RiskManager {
+  private limits: RiskLimits;
+  private logger: RunLogger | null;
+  private tickets: Map<number, RiskTicket> = new Map();
+  private nextTicket = 1;
+  private currentDay: string | null = null;
+  private dailyPnl = 0;
+  private haltReason: string | null;
+  private rejected = 0;
+  private lastRejectLogMs: Map<string, number> = new Map();
+
+  constructor(limits: RiskLimits = NO_RISK_LIMITS, logger: RunLogger | null = null) {
+    this.limits = { ...limits };
+    this.logger = logger;
+    this.haltReason = limits.killSwitch ? "config" : null;
+    if (this.haltReason) {
+      this.logger?.log("RISK kill switch engaged (config): new orders halted.", "WARN");
+    }
+  }
+
+  request(request: RiskRequest): RiskDecision {
+    this.rollDay(request.nowMs);
+    const reason = this.findViolation(request);
+    if (reason) {
+      this.rejected += 1;
+      this.logRejection(request, reason);
+      return { allowed: false, reason };
+    }
+    if (request.replaces !== null && request.replaces !== undefined) {
+      this.tickets.delete(request.replaces);
+    }
+    const ticket = this.nextTicket;
+    this.nextTicket += 1;
+    this.tickets.set(ticket, {
+      owner: request.owner,
+      coin: request.coin,
+      legs: request.legs.map((leg) => ({ ...leg })),
+    });
+    return { allowed: true, ticket };
+  }
+
+  /**
+   * Books exposure that already exists, e.g. a position restored from a
+   * checkpoint. Limits are not checked: the exposure is held either way.
+   */
+  adopt(owner: string, coin: CoinSymbol, legs: RiskLeg[]): number {
+    const ticket = this.nextTicket;
+    this.nextTicket += 1;
+    this.tickets.set(ticket, { owner, coin, legs: legs.map((leg) => ({ ...leg })) });
+    return ticket;
+  }
+
+  getTicketLegs(ticket: number): RiskLeg[] | null {
+    const entry = this.tickets.get(ticket);
+    return entry ? entry.legs.map((leg) => ({ ...leg })) : null;
+  }
+
+  /** Replaces a ticket's legs with what actually filled (never rejected). */
+  update(ticket: number, legs: RiskLeg[]): void {
+    const entry = this.tickets.get(ticket);
+    if (!entry) return;
+    entry.legs = legs.map((leg) => ({ ...leg }));
+  }
+
+  /** Frees a ticket's exposure and books its realized PnL toward the daily loss. */
+  close(ticket: number, pnl: number, nowMs: number): void {
+    this.tickets.delete(ticket);
+    this.recordPnl(pnl, nowMs);
+  }
+
+  recordPnl(pnl: number, nowMs: number): void {
+    this.rollDay(nowMs);
+    if (!Number.isFinite(pnl) || pnl === 0) return;
+    this.dailyPnl += pnl;
+    const limit = this.limits.dailyLossLimit;
+    if (limit !== null && this.dailyPnl <= -limit && !this.haltReason) {
+      this.haltReason = DAILY_LOSS_REASON;
+      this.logger?.log(
+        `RISK kill switch engaged (${DAILY_LOSS_REASON}): daily PnL ${this.dailyPnl.toFixed(
+          2,
+        )} <= -${limit.toFixed(2)}, new orders halted until the next UTC day.`,
+        "ERROR",
+      );
+    }
+  }
+
+  setKillSwitch(active: boolean, reason: string = "manual"): void {
+    if (active === (this.haltReason !== null)) return;
+    this.haltReason = active ? reason : null;
+    this.logger?.log(
+      active
+        ? `RISK kill switch engaged (${reason}): new orders halted.`
+        : "RISK kill switch released: new orders allowed.",
+      "WARN",
+    );
+  }
+
+  isHalted(): boolean {
+    return this.haltReason !== null;
+  }
+
+  getState(): RiskState {
+    const venueExposure: Record<MarketProvider, number> = { polymarket: 0, kalshi: 0 };
+    const coinExposure = new Map<CoinSymbol, number>();
+    let totalExposure = 0;
+    for (const entry of this.tickets.values()) {
+      const cost = ticketCost(entry.legs);
+      totalExposure += cost;
+      coinExposure.set(entry.coin, (coinExposure.get(entry.coin) ?? 0) + cost);
+      for (const leg of entry.legs) {
+        venueExposure[leg.venue] += leg.cost;
+      }
+    }
+    return {
+      limits: { ...this.limits },
+      totalExposure,
+      coinExposure,
+      venueExposure,
+      openPositions: this.tickets.size,
+      dailyPnl: this.dailyPnl,
+      killSwitch: this.haltReason !== null,
+      haltReason: this.haltReason,
+      rejected: this.rejected,
+    };
+  }
+
+  exportCheckpoint(): RiskCheckpoint {
+    return { day: this.currentDay, dailyPnl: this.dailyPnl, haltReason: this.haltReason };
+  }
+
+  /**
+   * Carries the day's realized PnL (and a daily-loss halt) over a restart.
+   * Other halts come from config or the operator and are not restored.
+   */
+  restoreCheckpoint(checkpoint: RiskCheckpoint, nowMs: number): void {
+    if (checkpoint.day === null) return;
+    this.currentDay = checkpoint.day;
+    this.dailyPnl = checkpoint.dailyPnl;
+    if (checkpoint.haltReason === DAILY_LOSS_REASON && !this.haltReason) {
+      this.haltReason = DAILY_LOSS_REASON;
+    }
+    this.rollDay(nowMs);
+    if (this.haltReason === DAILY_LOSS_REASON) {
+      this.logger?.log(
+        `RISK kill switch engaged (${DAILY_LOSS_REASON}) carried over from the checkpoint: daily PnL ${this.dailyPnl.toFixed(
+          2,
+        )}.`,
+        "WARN",
+      );
+    }
+  }
+
+  private findViolation(request: RiskRequest): string | null {
+    if (this.haltReason) return `kill switch (${this.haltReason})`;
+    const limits = this.limits;
+    let totalExposure = 0;
+    let coinExposure = 0;
+    let openPositions = 0;
+    const venueExposure: Record<MarketProvider, number> = { polymarket: 0, kalshi: 0 };
+    for (const [id, entry] of this.tickets.entries()) {
+      if (id === request.replaces) continue;
+      const cost = ticketCost(entry.legs);
+      totalExposure += cost;
+      if (entry.coin === request.coin) coinExposure += cost;
+      for (const leg of entry.legs) {
+        venueExposure[leg.venue] += leg.cost;
+      }
+      openPositions += 1;
+    }
+    const cost = ticketCost(request.legs);
+
+    if (
+      limits.maxConcurrentPositions !== null &&
+      openPositions + 1 > limits.maxConcurrentPositions
+    ) {
+      return `max concurrent positions ${limits.maxConcurrentPositions}`;
+    }
+    if (limits.maxTotalExposure !== null && totalExposure + cost > limits.maxTotalExposure) {
+      return `total exposure ${(totalExposure + cost).toFixed(2)} > ${limits.maxTotalExposure.toFixed(2)}`;
+    }
+    if (limits.maxCoinExposure !== null && coinExposure + cost > limits.maxCoinExposure) {
+      return `${request.coin} exposure ${(coinExposure + cost).toFixed(2)} > ${limits.maxCoinExposure.toFixed(2)}`;
+    }
+    if (limits.maxVenueExposure !== null) {
+      for (const leg of request.legs) {
+        venueExposure[leg.venue] += leg.cost;
+      }
+      for (const leg of request.legs) {
+        if (venueExposure[leg.venue] > limits.maxVenueExposure) {
+          return `${leg.venue} exposure ${venueExposure[leg.venue].toFixed(2)} > ${limits.maxVenueExposure.toFixed(2)}`;
+        }
+      }
+    }
+    return null;
+  }
+
+  private rollDay(nowMs: number): void {
+    const day = dayKey(nowMs);
+    if (day === this.currentDay) return;
+    const firstDay = this.currentDay === null;
+    this.currentDay = day;
+    this.dailyPnl = 0;
+    if (!firstDay && this.haltReason === DAILY_LOSS_REASON) {
+      this.haltReason = null;
+      this.logger?.log(`RISK kill switch released (new UTC day ${day}).`, "WARN");
+    }
+  }
+
+  private logRejection(request: RiskRequest, reason: string): void {
+    if (!this.logger) return;
+    // Reasons carry amounts, so throttle on the kind of limit only.
+    const key = `${request.owner}:${request.coin}:${reason.split(" ").slice(0, 2).join(" ")}`;
+    const last = this.lastRejectLogMs.get(key) ?? -Infinity;
+    if (request.nowMs - last < REJECT_LOG_COOLDOWN_MS) return;
+    this.lastRejectLogMs.set(key, request.nowMs);
+    this.logger.log(
+      `RISK_BLOCK ${request.owner} ${request.coin.toUpperCase()} cost=${ticketCost(
+        request.legs,
+      ).toFixed(2)}: ${reason}`,
+      "WARN",
+    );
+  }
+}
+
+function parseLimit(
+  raw: Record<string, unknown>,
+  key: keyof Omit<RiskLimits, "killSwitch">,
+): number | null {
+  const value = raw[key];
+  if (value === undefined || value === null) return null;
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Config error: risk.${key} must be a number >= 0 or null`);
+  }
+  return parsed;
+}
+
+export function parseRiskLimits(raw: unknown): RiskLimits {
+  if (raw === undefined || raw === null) return { ...NO_RISK_LIMITS };
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Config error: risk must be an object");
+  }
+  const record = raw as Record<string, unknown>;
+  const killSwitch = record.killSwitch ?? false;
+  if (typeof killSwitch !== "boolean") {
+    throw new Error("Config error: risk.killSwitch must be a boolean");
+  }
+  const maxConcurrentPositions = parseLimit(record, "maxConcurrentPositions");
+  if (maxConcurrentPositions !== null && !Number.isInteger(maxConcurrentPositions)) {
+    throw new Error("Config error: risk.maxConcurrentPositions must be an integer");
+  }
+  return {
+    maxTotalExposure: parseLimit(record, "maxTotalExposure"),
+    maxCoinExposure: parseLimit(record, "maxCoinExposure"),
+    maxVenueExposure: parseLimit(record, "maxVenueExposure"),
+    dailyLossLimit: parseLimit(record, "dailyLossLimit"),
+    maxConcurrentPositions,
+    killSwitch,
+  };
+}
+
+/**
+ * Configured caps that add up exposure, positions or PnL across coins, so
+ * they only hold when every coin shares one RiskManager.
+ */
+export function crossCoinRiskLimits(limits: RiskLimits): string[] {
+  const keys = [
+    "maxTotalExposure",
+    "maxVenueExposure",
+    "dailyLossLimit",
+    "maxConcurrentPositions",
+  ] as const;
+  return keys.filter((key) => limits[key] !== null);
+}
+
+/** Reads the top-level `risk` section of config.json; missing means no caps. */
+export function loadRiskLimits(): RiskLimits {
+  const raw = readFileSync(join(process.cwd(), "config.json"), "utf8");
+  const parsed = JSON.parse(stripJsonComments(raw)) as Record<string, unknown>;
+  return parseRiskLimits(parsed.risk);
+}
+
+export function formatRiskState(state: RiskState): string {
+  const cap = (value: number | null) => (value === null ? "-" : value.toFixed(0));
+  const { limits } = state;
+  const halt = state.haltReason ? `HALTED (${state.haltReason})` : "active";
+  return `Risk: ${halt} | Exposure ${state.totalExposure.toFixed(2)}/${cap(
+    limits.maxTotalExposure,
+  )} | Poly ${state.venueExposure.polymarket.toFixed(2)} Kalshi ${state.venueExposure.kalshi.toFixed(
+    2,
+  )} /${cap(limits.maxVenueExposure)} | Positions ${state.openPositions}/${cap(
+    limits.maxConcurrentPositions,
+  )} | Day PnL ${state.dailyPnl.toFixed(2)}/-${cap(limits.dailyLossLimit)} | Blocked ${state.rejected}`;
+}
@@ -0,0 +1,464 @@
+import type {
+  CandidateEvent,
+  FillEvent,
+  JournalEvent,
+  JournalSource,
+  SettlementEvent,
+} from "./trade-journal";
+
+const TIME_LEFT_EDGES_SEC = [60, 180, 300, 600, 900, 3600];
+const ENTRY_PRICE_STEP = 0.1;
+const SLIPPAGE_STEP = 0.005;
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+const SPARK_WIDTH = 60;
+
+/** One settled market of one engine, joined to its entry order. */
+export interface ReportTrade {
+  engine: string;
+  coin: string;
+  market: string;
+  orderId: string | null;
+  ts: number;
+  pnl: number;
+  win: boolean;
+  timeLeftSec: number | null;
+  tierSec: number | null;
+  /** Sum of the bought legs' average prices (the pair price for arbitrage). */
+  entryPrice: number | null;
+}
+
+export interface ReportBucket {
+  label: string;
+  trades: number;
+  wins: number;
+  pnl: number;
+}
+
+export interface ProfileReport {
+  engine: string;
+  source: JournalSource;
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  totalPnl: number;
+  maxDrawdown: number;
+  /** Mean over standard deviation of per-trade PnL; not annualized. */
+  sharpe: number | null;
+  /** Mean over downside deviation of per-trade PnL; not annualized. */
+  sortino: number | null;
+  equity: Array<{ ts: number; pnl: number }>;
+}
+
+export interface SlippageReport {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  p10: number | null;
+  p90: number | null;
+  buckets: Array<{ label: string; count: number }>;
+}
+
+export interface RunReport {
+  profiles: ProfileReport[];
+  byCoin: ReportBucket[];
+  byTimeLeft: ReportBucket[];
+  byTier: ReportBucket[];
+  byEntryPrice: ReportBucket[];
+  slippage: SlippageReport;
+  /** `ARB_MISMATCH` lines in mismatch.log, per coin. */
+  mismatches: { total: number; byCoin: Array<{ coin: string; count: number }> };
+  candidates: number;
+  orders: number;
+  cancels: number;
+}
+
+function numberDetail(event: CandidateEvent | undefined, key: string): number | null {
+  const value = event?.details[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function timeLeftLabel(sec: number | null): string {
+  if (sec === null) return "n/a";
+  let lower = 0;
+  for (const edge of TIME_LEFT_EDGES_SEC) {
+    if (sec < edge) return `${lower}-${edge}s`;
+    lower = edge;
+  }
+  return `${lower}s+`;
+}
+
+function stepLabel(value: number, step: number, digits: number): string {
+  const lower = Math.floor(value / step + 1e-9) * step;
+  return `${lower.toFixed(digits)}..${(lower + step).toFixed(digits)}`;
+}
+
+function labelStart(label: string): number {
+  const parsed = Number.parseFloat(label);
+  return Number.isFinite(parsed) ? parsed : Number.POSITIVE_INFINITY;
+}
+
+function bucketize(
+  trades: ReportTrade[],
+  labelOf: (trade: ReportTrade) => string,
+  order: "label" | "numeric",
+): ReportBucket[] {
+  const buckets = new Map<string, ReportBucket>();
+  for (const trade of trades) {
+    const label = labelOf(trade);
+    const bucket = buckets.get(label) ?? { label, trades: 0, wins: 0, pnl: 0 };
+    bucket.trades += 1;
+    bucket.wins += trade.win ? 1 : 0;
+    bucket.pnl += trade.pnl;
+    buckets.set(label, bucket);
+  }
+  const rows = Array.from(buckets.values());
+  return order === "numeric"
+    ? rows.sort((a, b) => labelStart(a.label) - labelStart(b.label))
+    : rows.sort((a, b) => a.label.localeCompare(b.label));
+}
+
+function quantile(sorted: number[], q: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))));
+  return sorted[index] ?? null;
+}
+
+function ratioStats(pnls: number[]): { sharpe: number | null; sortino: number | null } {
+  if (pnls.length < 2) return { sharpe: null, sortino: null };
+  const mean = pnls.reduce((sum, value) => sum + value, 0) / pnls.length;
+  const variance =
+    pnls.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (pnls.length - 1);
+  const downside = pnls.reduce((sum, value) => sum + Math.min(0, value) ** 2, 0) / pnls.length;
+  return {
+    sharpe: variance > 0 ? mean / Math.sqrt(variance) : null,
+    sortino: downside > 0 ? mean / Math.sqrt(downside) : null,
+  };
+}
+
+function buildProfile(engine: string, source: JournalSource, trades: ReportTrade[]): ProfileReport {
+  const sorted = [...trades].sort((a, b) => a.ts - b.ts);
+  const equity: Array<{ ts: number; pnl: number }> = [];
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const trade of sorted) {
+    cumulative += trade.pnl;
+    peak = Math.max(peak, cumulative);
+    maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+    equity.push({ ts: trade.ts, pnl: cumulative });
+  }
+  const wins = sorted.filter((trade) => trade.win).length;
+  return {
+    engine,
+    source,
+    trades: sorted.length,
+    wins,
+    losses: sorted.length - wins,
+    winRate: sorted.length > 0 ? wins / sorted.length : null,
+    totalPnl: cumulative,
+    maxDrawdown,
+    ...ratioStats(sorted.map((trade) => trade.pnl)),
+    equity,
+  };
+}
+
+function buildSlippage(fills: FillEvent[]): SlippageReport {
+  const values = fills
+    .map((fill) => fill.slippage)
+    .filter((value): value is number => value !== null && Number.isFinite(value))
+    .sort((a, b) => a - b);
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const label = stepLabel(value, SLIPPAGE_STEP, 3);
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  return {
+    count: values.length,
+    mean: values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null,
+    median: quantile(values, 0.5),
+    p10: quantile(values, 0.1),
+    p90: quantile(values, 0.9),
+    buckets: Array.from(counts.entries())
+      .map(([label, count]) => ({ label, count }))
+      .sort((a, b) => labelStart(a.label) - labelStart(b.label)),
+  };
+}
+
+/** Counts `ARB_MISMATCH <COIN> pair=...` lines; the JSON companion lines are skipped. */
+export function countMismatchLines(lines: string[]): RunReport["mismatches"] {
+  const byCoin = new Map<string, number>();
+  for (const line of lines) {
+    const match = /ARB_MISMATCH (\S+) pair=/.exec(line);
+    if (!match?.[1]) continue;
+    const coin = match[1].toLowerCase();
+    byCoin.set(coin, (byCoin.get(coin) ?? 0) + 1);
+  }
+  const rows = Array.from(byCoin.entries())
+    .map(([coin, count]) => ({ coin, count }))
+    .sort((a, b) => a.coin.localeCompare(b.coin));
+  return { total: rows.reduce((sum, row) => sum + row.count, 0), byCoin: rows };
+}
+
+/**
+ * Builds the post-run report from journal events (any number of files
+ * concatenated) and the run's mismatch.log lines. A trade is a settlement
+ * with a result; its entry context comes from the order's candidate and
+ * first fill.
+ */
+export function buildRunReport(events: JournalEvent[], mismatchLines: string[] = []): RunReport {
+  const candidates = new Map<string, CandidateEvent>();
+  const fills = new Map<string, FillEvent>();
+  const allFills: FillEvent[] = [];
+  const settlements: SettlementEvent[] = [];
+  const sources = new Map<string, JournalSource>();
+  let candidateCount = 0;
+  let orders = 0;
+  let cancels = 0;
+  const orderKey = (engine: string, orderId: string) => `${engine}|${orderId}`;
+
+  for (const event of events) {
+    if (!sources.has(event.engine)) sources.set(event.engine, event.source);
+    if (event.type === "candidate") {
+      candidateCount += 1;
+      if (event.orderId) candidates.set(orderKey(event.engine, event.orderId), event);
+    } else if (event.type === "order") {
+      orders += 1;
+    } else if (event.type === "cancel") {
+      cancels += 1;
+    } else if (event.type === "fill") {
+      allFills.push(event);
+      const key = orderKey(event.engine, event.orderId);
+      if (!fills.has(key)) fills.set(key, event);
+    } else if (event.type === "settlement" && event.result !== "none") {
+      settlements.push(event);
+    }
+  }
+
+  const trades: ReportTrade[] = settlements.map((settlement) => {
+    const key = settlement.orderId ? orderKey(settlement.engine, settlement.orderId) : null;
+    const candidate = key ? candidates.get(key) : undefined;
+    const fill = key ? fills.get(key) : undefined;
+    const buys = fill?.legs.filter((leg) => leg.side === "buy") ?? [];
+    return {
+      engine: settlement.engine,
+      coin: settlement.coin,
+      market: settlement.market,
+      orderId: settlement.orderId,
+      ts: settlement.ts,
+      pnl: settlement.pnl,
+      win: settlement.result === "win",
+      timeLeftSec: numberDetail(candidate, "timeLeftSec"),
+      tierSec: numberDetail(candidate, "tierSec"),
+      entryPrice: buys.length > 0 ? buys.reduce((sum, leg) => sum + leg.avgPrice, 0) : null,
+    };
+  });
+
+  const tradesByEngine = new Map<string, ReportTrade[]>();
+  for (const engine of sources.keys()) tradesByEngine.set(engine, []);
+  for (const trade of trades) tradesByEngine.get(trade.engine)?.push(trade);
+
+  return {
+    profiles: Array.from(tradesByEngine.entries()).map(([engine, list]) =>
+      buildProfile(engine, sources.get(engine) ?? "arbitrage", list),
+    ),
+    byCoin: bucketize(trades, (trade) => trade.coin.toUpperCase(), "label"),
+    byTimeLeft: bucketize(trades, (trade) => timeLeftLabel(trade.timeLeftSec), "numeric"),
+    byTier: bucketize(
+      trades,
+      (trade) => (trade.tierSec === null ? "n/a" : `${trade.tierSec}s`),
+      "numeric",
+    ),
+    byEntryPrice: bucketize(
+      trades,
+      (trade) =>
+        trade.entryPrice === null ? "n/a" : stepLabel(trade.entryPrice, ENTRY_PRICE_STEP, 2),
+      "numeric",
+    ),
+    slippage: buildSlippage(allFills),
+    mismatches: countMismatchLines(mismatchLines),
+    candidates: candidateCount,
+    orders,
+    cancels,
+  };
+}
+
+function fmt(value: number | null, digits = 2): string {
+  return value === null ? "n/a" : value.toFixed(digits);
+}
+
+function pct(value: number | null): string {
+  return value === null ? "n/a" : `${(value * 100).toFixed(1)}%`;
+}
+
+function bucketWinRate(bucket: ReportBucket): number | null {
+  return bucket.trades > 0 ? bucket.wins / bucket.trades : null;
+}
+
+function sparkline(points: Array<{ pnl: number }>): string {
+  if (points.length === 0) return "";
+  const step = Math.max(1, Math.ceil(points.length / SPARK_WIDTH));
+  const sampled = points.filter((_, index) => index % step === 0 || index === points.length - 1);
+  const values = sampled.map((point) => point.pnl);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min;
+  return values
+    .map((value) => {
+      const level = span > 0 ? Math.round(((value - min) / span) * (SPARK_CHARS.length - 1)) : 0;
+      return SPARK_CHARS[level] ?? SPARK_CHARS[0];
+    })
+    .join("");
+}
+
+interface Table {
+  headers: string[];
+  rows: string[][];
+}
+
+function reportTables(report: RunReport): Array<{ title: string; table: Table }> {
+  const bucketTable = (buckets: ReportBucket[]): Table => ({
+    headers: ["Bucket", "Trades", "Win rate", "PnL"],
+    rows: buckets.map((bucket) => [
+      bucket.label,
+      String(bucket.trades),
+      pct(bucketWinRate(bucket)),
+      fmt(bucket.pnl),
+    ]),
+  });
+  return [
+    {
+      title: "Profiles",
+      table: {
+        headers: ["Profile", "Source", "Trades", "Win rate", "PnL", "Max drawdown", "Sharpe", "Sortino"],
+        rows: report.profiles.map((profile) => [
+          profile.engine,
+          profile.source,
+          String(profile.trades),
+          pct(profile.winRate),
+          fmt(profile.totalPnl),
+          fmt(profile.maxDrawdown),
+          fmt(profile.sharpe),
+          fmt(profile.sortino),
+        ]),
+      },
+    },
+    { title: "PnL by coin", table: bucketTable(report.byCoin) },
+    { title: "PnL by time left at entry", table: bucketTable(report.byTimeLeft) },
+    { title: "PnL by rule tier", table: bucketTable(report.byTier) },
+    { title: "Win rate by entry price", table: bucketTable(report.byEntryPrice) },
+    {
+      title: "Slippage (fill gap - committed gap)",
+      table: {
+        headers: ["Range", "Fills"],
+        rows: report.slippage.buckets.map((bucket) => [bucket.label, String(bucket.count)]),
+      },
+    },
+    {
+      title: "Mismatches (mismatch.log)",
+      table: {
+        headers: ["Coin", "Count"],
+        rows: report.mismatches.byCoin.map((row) => [row.coin.toUpperCase(), String(row.count)]),
+      },
+    },
+  ];
+}
+
+function overviewLines(report: RunReport): string[] {
+  const { slippage } = report;
+  return [
+    `Candidates ${report.candidates}, orders ${report.orders}, cancels ${report.cancels}`,
+    `Slippage over ${slippage.count} fills: mean ${fmt(slippage.mean, 4)}, median ${fmt(
+      slippage.median,
+      4,
+    )}, p10 ${fmt(slippage.p10, 4)}, p90 ${fmt(slippage.p90, 4)}`,
+    `Mismatches ${report.mismatches.total}`,
+  ];
+}
+
+export function formatReportMarkdown(report: RunReport, title: string): string {
+  const lines = [`# ${title}`, ""];
+  for (const line of overviewLines(report)) lines.push(`- ${line}`);
+  lines.push("", "## Equity curves", "");
+  for (const profile of report.profiles) {
+    lines.push(`- ${profile.engine}: \`${sparkline(profile.equity) || "no trades"}\` ${fmt(profile.totalPnl)}`);
+  }
+  for (const { title: heading, table } of reportTables(report)) {
+    lines.push("", `## ${heading}`, "");
+    if (table.rows.length === 0) {
+      lines.push("No data.");
+      continue;
+    }
+    lines.push(`| ${table.headers.join(" | ")} |`);
+    lines.push(`| ${table.headers.map(() => "---").join(" | ")} |`);
+    for (const row of table.rows) lines.push(`| ${row.join(" | ")} |`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function equitySvg(profile: ProfileReport): string {
+  const width = 640;
+  const height = 160;
+  const pad = 8;
+  const points = [{ ts: profile.equity[0]?.ts ?? 0, pnl: 0 }, ...profile.equity];
+  const minTs = Math.min(...points.map((point) => point.ts));
+  const maxTs = Math.max(...points.map((point) => point.ts));
+  const minPnl = Math.min(0, ...points.map((point) => point.pnl));
+  const maxPnl = Math.max(0, ...points.map((point) => point.pnl));
+  const x = (ts: number) =>
+    pad + (maxTs > minTs ? ((ts - minTs) / (maxTs - minTs)) * (width - 2 * pad) : 0);
+  const y = (pnl: number) =>
+    height - pad - (maxPnl > minPnl ? ((pnl - minPnl) / (maxPnl - minPnl)) * (height - 2 * pad) : 0);
+  const path = points.map((point) => `${x(point.ts).toFixed(1)},${y(point.pnl).toFixed(1)}`).join(" ");
+  return [
+    `<svg viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">`,
+    `<line x1="${pad}" x2="${width - pad}" y1="${y(0).toFixed(1)}" y2="${y(0).toFixed(1)}" stroke="#bbb" stroke-dasharray="4 3"/>`,
+    `<polyline fill="none" stroke="${profile.totalPnl >= 0 ? "#2a7" : "#c33"}" stroke-width="1.5" points="${path}"/>`,
+    "</svg>",
+  ].join("");
+}
+
+/** Single HTML file with inline CSS and SVG, no external assets. */
+export function formatReportHtml(report: RunReport, title: string): string {
+  const parts = [
+    "<!doctype html>",
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>`,
+    "<style>body{font-family:sans-serif;margin:24px;color:#222}table{border-collapse:collapse;margin-bottom:16px}" +
+      "th,td{border:1px solid #ddd;padding:4px 8px;text-align:right}th:first-child,td:first-child{text-align:left}" +
+      "h2{margin-top:28px}</style>",
+    "</head><body>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    "<ul>",
+    ...overviewLines(report).map((line) => `<li>${escapeHtml(line)}</li>`),
+    "</ul>",
+    "<h2>Equity curves</h2>",
+  ];
+  for (const profile of report.profiles) {
+    parts.push(
+      `<h3>${escapeHtml(profile.engine)} (PnL ${fmt(profile.totalPnl)}, max drawdown ${fmt(profile.maxDrawdown)})</h3>`,
+    );
+    parts.push(profile.equity.length > 0 ? equitySvg(profile) : "<p>No trades.</p>");
+  }
+  for (const { title: heading, table } of reportTables(report)) {
+    parts.push(`<h2>${escapeHtml(heading)}</h2>`);
+    if (table.rows.length === 0) {
+      parts.push("<p>No data.</p>");
+      continue;
+    }
+    parts.push("<table><tr>", ...table.headers.map((header) => `<th>${escapeHtml(header)}</th>`), "</tr>");
+    for (const row of table.rows) {
+      parts.push("<tr>", ...row.map((cell) => `<td>${escapeHtml(cell)}</td>`), "</tr>");
+    }
+    parts.push("</table>");
+  }
+  parts.push("</body></html>");
+  return `${parts.join("\n")}\n`;
+}
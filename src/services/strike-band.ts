@@ -0,0 +1,85 @@
+import type { MarketSnapshot } from "./market-data-hub";
+import type { NormalizedOutcome } from "./cross-platform-compare";
+
+/**
+ * What happens to an arbitrage pair when the settlement price lands between
+ * the Polymarket threshold and the Kalshi strike:
+ * none     - same threshold, exactly one leg pays
+ * winBoth  - both legs pay inside the band (one leg pays outside it)
+ * loseBoth - neither leg pays inside the band (one leg pays outside it)
+ */
+export type StrikeBand = "none" | "winBoth" | "loseBoth";
+
+export interface StrikeBandRisk {
+  band: StrikeBand;
+  polyThreshold: number;
+  kalshiStrike: number;
+  /** |kalshiStrike - polyThreshold| in USD. */
+  width: number;
+  /** Width as a percent of the Polymarket threshold. */
+  widthPct: number;
+}
+
+/**
+ * Classifies the band for Poly `polyTarget` paired with the opposite Kalshi
+ * side. Up wins above the Poly threshold and Kalshi NO wins below the
+ * strike, so a strike above the threshold pays both in between; Down/YES
+ * is the mirror image.
+ */
+export function classifyStrikeBand(
+  polyTarget: NormalizedOutcome,
+  polyThreshold: number,
+  kalshiStrike: number,
+): StrikeBandRisk {
+  const width = Math.abs(kalshiStrike - polyThreshold);
+  const widthPct = polyThreshold > 0 ? (width / polyThreshold) * 100 : 0;
+  let band: StrikeBand = "none";
+  if (width > 0) {
+    const strikeAbove = kalshiStrike > polyThreshold;
+    if (polyTarget === "UP") {
+      band = strikeAbove ? "winBoth" : "loseBoth";
+    } else {
+      band = strikeAbove ? "loseBoth" : "winBoth";
+    }
+  }
+  return { band, polyThreshold, kalshiStrike, width, widthPct };
+}
+
+/** True when the band is acceptable under `maxLoseBandPct` (null = no limit). */
+export function isBandAllowed(
+  risk: StrikeBandRisk,
+  maxLoseBandPct: number | null,
+): boolean {
+  if (risk.band !== "loseBoth" || maxLoseBandPct === null) return true;
+  return risk.widthPct <= maxLoseBandPct;
+}
+
+/** Lower is better: a winBoth band is free upside, a loseBoth band is risk. */
+export function bandRank(risk: StrikeBandRisk): number {
+  if (risk.band === "winBoth") return 0;
+  if (risk.band === "none") return 1;
+  return 2;
+}
+
+export function formatStrikeBand(risk: StrikeBandRisk): string {
+  if (risk.band === "none") return "none";
+  return `${risk.band}:${risk.width.toFixed(2)}`;
+}
+
+/** The selected Kalshi market followed by the other strikes of its event. */
+export function listKalshiStrikes(kalshiSnap: MarketSnapshot): MarketSnapshot[] {
+  return [kalshiSnap, ...(kalshiSnap.strikeLadder ?? [])];
+}
+
+/** Finds the strike snapshot whose slug (or ticker) matches `key`. */
+export function findKalshiStrike(
+  kalshiSnap: MarketSnapshot,
+  key: string,
+): MarketSnapshot | null {
+  for (const snapshot of listKalshiStrikes(kalshiSnap)) {
+    if ((snapshot.slug ?? snapshot.marketTicker ?? "kalshi") === key) {
+      return snapshot;
+    }
+  }
+  return null;
+}
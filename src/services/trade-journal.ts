@@ -0,0 +1,206 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import type { CoinSymbol } from "./auto-market";
+import type { MarketProvider } from "../providers/provider";
+
+/**
+ * Version of the journal line format. Adding optional fields keeps the
+ * version; renaming, removing or retyping a field bumps it.
+ */
+export const JOURNAL_SCHEMA_VERSION = 1;
+export const JOURNAL_FILE = "journal.jsonl";
+
+export type JournalSource = "arbitrage" | "profile" | "price-diff";
+
+/** Fields every journal line carries. */
+export interface JournalEventBase {
+  v: typeof JOURNAL_SCHEMA_VERSION;
+  /** Engine clock in ms (simulated time in backtests). */
+  ts: number;
+  source: JournalSource;
+  /** Profile name, or the route for price-diff. */
+  engine: string;
+  coin: CoinSymbol;
+  /** Polymarket slug, or `polySlug|kalshiSlug` for cross-venue pairs. */
+  market: string;
+}
+
+export interface JournalLeg {
+  venue: MarketProvider;
+  side: "buy" | "sell";
+  /** Outcome or token bought/sold (e.g. `UP`, `NO`). */
+  outcome: string;
+  shares: number;
+  avgPrice: number;
+  /** Notional before fees. */
+  cost: number;
+  fee: number;
+}
+
+export interface JournalOutcome {
+  venue: MarketProvider;
+  outcome: string;
+  /**
+   * `official`: venue API; `recorded`: outcome stored with backtest data;
+   * `derived`: computed from the close price against the threshold.
+   */
+  source: "official" | "recorded" | "derived";
+  /** Where an official outcome came from (e.g. the API field used). */
+  detail: string | null;
+}
+
+export type JournalDetails = Record<string, number | string | boolean | null>;
+
+/** An opportunity that passed the engine's checks. */
+export interface CandidateEvent extends JournalEventBase {
+  type: "candidate";
+  /** Order committed for this candidate, when the engine committed one. */
+  orderId?: string;
+  /** `upNo`/`downYes` for pairs, the favored outcome for single-venue engines. */
+  direction: string;
+  gap: number | null;
+  netGap: number | null;
+  shares: number | null;
+  cost: number | null;
+  /** Engine-specific inputs (signals, band, mismatch risk); not versioned. */
+  details: JournalDetails;
+}
+
+/** Exposure committed; an order is later filled or canceled. */
+export interface OrderEvent extends JournalEventBase {
+  type: "order";
+  orderId: string;
+  direction: string;
+  shares: number | null;
+  cost: number | null;
+  delayMs: number;
+}
+
+export interface FillEvent extends JournalEventBase {
+  type: "fill";
+  orderId: string;
+  direction: string;
+  legs: JournalLeg[];
+  /** Gap priced at commit and after the fills; null for single-venue engines. */
+  expectedGap: number | null;
+  gap: number | null;
+  /** `gap - expectedGap`. */
+  slippage: number | null;
+  /** PnL booked at fill time (leg unwinds, cross exits). */
+  realizedPnl: number;
+  /** How the fill was priced, e.g. `paper`, `live`, `post-delay`, `market-changed`. */
+  fillSource: string;
+}
+
+export interface CancelEvent extends JournalEventBase {
+  type: "cancel";
+  orderId: string;
+  reason: string;
+}
+
+export interface SettlementEvent extends JournalEventBase {
+  type: "settlement";
+  /** Order (position) settled, if the market was traded. */
+  orderId: string | null;
+  outcomes: JournalOutcome[];
+  /** Realized result of the market including unwinds and cross exits. */
+  pnl: number;
+  result: "win" | "loss" | "none";
+}
+
+/** The two venues of a pair settled differently. */
+export interface MismatchEvent extends JournalEventBase {
+  type: "mismatch";
+  orderId: string | null;
+  outcomes: JournalOutcome[];
+  polyThreshold: number | null;
+  kalshiThreshold: number | null;
+  /** Mismatch probabilities predicted at entry. */
+  predictedBothWin: number | null;
+  predictedBothLose: number | null;
+}
+
+export type JournalEvent =
+  | CandidateEvent
+  | OrderEvent
+  | FillEvent
+  | CancelEvent
+  | SettlementEvent
+  | MismatchEvent;
+
+export type JournalEventType = JournalEvent["type"];
+
+type WithoutVersion<T> = T extends unknown ? Omit<T, "v"> : never;
+export type JournalEventInput = WithoutVersion<JournalEvent>;
+
+const EVENT_TYPES: ReadonlySet<string> = new Set<JournalEventType>([
+  "candidate",
+  "order",
+  "fill",
+  "cancel",
+  "settlement",
+  "mismatch",
+]);
+
+/**
+ * Append-only JSONL stream of typed trade events, written next to the text
+ * logs so tools read fields instead of parsing log lines.
+ */
+export class TradeJournal {
+  private path: string;
+  private listeners: Array<(event: JournalEvent) => void> = [];
+
+  constructor(path: string) {
+    this.path = path;
+    const dir = dirname(path);
+    if (dir && !existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  getPath(): string {
+    return this.path;
+  }
+
+  record(event: JournalEventInput): void {
+    const versioned = { v: JOURNAL_SCHEMA_VERSION, ...event } as JournalEvent;
+    appendFileSync(this.path, `${JSON.stringify(versioned)}\n`, {
+      encoding: "utf8",
+    });
+    for (const listener of this.listeners) {
+      listener(versioned);
+    }
+  }
+
+  /** Calls `listener` with every event recorded from now on; returns the unsubscribe. */
+  subscribe(listener: (event: JournalEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((entry) => entry !== listener);
+    };
+  }
+}
+
+/** Parses one journal line; throws on other schema versions or unknown types. */
+export function parseJournalLine(line: string): JournalEvent {
+  const parsed = JSON.parse(line) as Partial<JournalEvent> | null;
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error("Journal error: expected an object per line");
+  }
+  if (parsed.v !== JOURNAL_SCHEMA_VERSION) {
+    throw new Error(
+      `Journal error: schema version ${String(parsed.v)} is not supported (expected ${JOURNAL_SCHEMA_VERSION})`,
+    );
+  }
+  if (typeof parsed.type !== "string" || !EVENT_TYPES.has(parsed.type)) {
+    throw new Error(`Journal error: unknown event type ${String(parsed.type)}`);
+  }
+  return parsed as JournalEvent;
+}
+
+export function readJournal(path: string): JournalEvent[] {
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => parseJournalLine(line));
+}
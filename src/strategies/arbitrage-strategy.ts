@@ -0,0 +1,133 @@
+import { pairSnapshots } from "../backtest/arbitrage-backtest-runner";
+import { parseCoinConfig, type ArbitrageCoinConfig } from "../services/arbitrage-config";
+import { ArbitrageEngine, type ArbitrageEngineCheckpoint } from "../services/arbitrage-engine";
+import type { CoinSymbol } from "../services/auto-market";
+import type { MarketSnapshot } from "../services/market-data-hub";
+import {
+  parseStrategyCoins,
+  reloadableCoins,
+  type Strategy,
+  type StrategyContext,
+  type StrategyDefinition,
+  type StrategyViews,
+} from "./strategy";
+
+export interface ArbitrageStrategyConfig {
+  coins: Map<CoinSymbol, ArbitrageCoinConfig>;
+}
+
+/**
+ * ArbitrageEngine behind the strategy interface. Replays only hand it coins
+ * open on both venues on the same window, as the arbitrage backtest does.
+ */
+export class ArbitrageStrategy implements Strategy<ArbitrageStrategyConfig> {
+  private engine: ArbitrageEngine | null = null;
+  private context: StrategyContext | null = null;
+  private pairReplaySnapshots = false;
+
+  init(config: ArbitrageStrategyConfig, context: StrategyContext): void {
+    this.context = context;
+    const configs = new Map<CoinSymbol, ArbitrageCoinConfig>();
+    for (const coin of context.coins) {
+      const coinConfig = config.coins.get(coin);
+      if (coinConfig && coinConfig.horizon === context.horizon) {
+        configs.set(coin, coinConfig);
+      }
+    }
+    const recordedOutcome = context.recordedOutcome;
+    this.pairReplaySnapshots = context.mode !== "paper";
+    this.engine = new ArbitrageEngine(
+      context.name,
+      configs,
+      context.logger,
+      {
+        kalshiOutcomeClient: context.kalshiClient ?? undefined,
+        outcomeSource: recordedOutcome ? { resolve: recordedOutcome } : undefined,
+        decisionLatencyMs: this.pairReplaySnapshots ? 250 : undefined,
+        fees: context.fees,
+        risk: context.risk,
+        journal: context.journal,
+        rng: context.rng,
+        executor: context.executor ?? undefined,
+      },
+      context.startTimeMs,
+    );
+  }
+
+  onSnapshot(
+    polySnapshots: Map<CoinSymbol, MarketSnapshot>,
+    kalshiSnapshots: Map<CoinSymbol, MarketSnapshot>,
+    nowMs: number,
+  ): void {
+    const engine = this.requireEngine();
+    if (this.pairReplaySnapshots) {
+      const { poly, kalshi } = pairSnapshots(polySnapshots, kalshiSnapshots);
+      engine.evaluate(poly, kalshi, nowMs);
+      return;
+    }
+    engine.evaluate(polySnapshots, kalshiSnapshots, nowMs);
+  }
+
+  // The engine books its own paper fills and settlements.
+  onFill(): void {}
+
+  onSettlement(): void {}
+
+  getViews(): StrategyViews {
+    const engine = this.requireEngine();
+    return {
+      summary: engine.getSummary(),
+      markets: engine.getMarketViews().map((view) => ({
+        coin: view.coin,
+        market: view.polySlug,
+        timeLeftSec: view.timeLeftSec,
+        position: view.position
+          ? `${view.position.shares.toFixed(2)} ${view.position.direction} @ ${(
+              view.position.avgPoly + view.position.avgKalshi
+            ).toFixed(3)}`
+          : null,
+        lastResult: view.lastResult,
+      })),
+      logs: engine.getLogs(),
+    };
+  }
+
+  getNextPendingTime(): number | null {
+    return this.requireEngine().getNextPendingTime();
+  }
+
+  updateConfig(config: ArbitrageStrategyConfig): void {
+    const context = this.context;
+    if (!context) return;
+    this.requireEngine().updateConfigs(
+      reloadableCoins(config.coins, context, (coinConfig) => coinConfig.horizon === context.horizon),
+    );
+  }
+
+  exportCheckpoint(): ArbitrageEngineCheckpoint {
+    return this.requireEngine().exportCheckpoint();
+  }
+
+  restoreCheckpoint(checkpoint: unknown, nowMs: number): void {
+    this.requireEngine().restoreCheckpoint(checkpoint as ArbitrageEngineCheckpoint, nowMs);
+  }
+
+  private requireEngine(): ArbitrageEngine {
+    if (!this.engine) {
+      throw new Error("ArbitrageStrategy used before init");
+    }
+    return this.engine;
+  }
+}
+
+export const arbitrageStrategy: StrategyDefinition<ArbitrageStrategyConfig> = {
+  type: "arbitrage",
+  description: "Cross-venue Up/Down arbitrage between Polymarket and Kalshi",
+  venues: ["polymarket", "kalshi"],
+  parseConfig: (raw, name) => ({ coins: parseStrategyCoins(raw, name, parseCoinConfig) }),
+  coins: (config, horizon) =>
+    Array.from(config.coins.entries())
+      .filter(([, coinConfig]) => coinConfig.horizon === horizon)
+      .map(([coin]) => coin),
+  create: () => new ArbitrageStrategy(),
+};
@@ -0,0 +1,125 @@
+import { DEFAULT_MARKET_HORIZON, type CoinSymbol, type MarketHorizon } from "../services/auto-market";
+import type { MarketSnapshot } from "../services/market-data-hub";
+import { parseTimedConfig } from "../services/profile-config";
+import {
+  ProfileEngine,
+  type ProfileEngineCheckpoint,
+  type TimedTradeConfig,
+} from "../services/profile-engine";
+import {
+  parseStrategyCoins,
+  reloadableCoins,
+  type Strategy,
+  type StrategyContext,
+  type StrategyDefinition,
+  type StrategyViews,
+} from "./strategy";
+
+export interface ProfileStrategyConfig {
+  coins: Map<CoinSymbol, TimedTradeConfig>;
+}
+
+function tradesOn(config: TimedTradeConfig, horizon: MarketHorizon): boolean {
+  return (config.horizon ?? DEFAULT_MARKET_HORIZON) === horizon;
+}
+
+/**
+ * ProfileEngine behind the strategy interface: Polymarket only, with the
+ * same engine options the backtest uses, in every run mode.
+ */
+export class ProfileStrategy implements Strategy<ProfileStrategyConfig> {
+  private engine: ProfileEngine | null = null;
+  private context: StrategyContext | null = null;
+
+  init(config: ProfileStrategyConfig, context: StrategyContext): void {
+    this.context = context;
+    const configs = new Map<CoinSymbol, TimedTradeConfig>();
+    for (const coin of context.coins) {
+      const coinConfig = config.coins.get(coin);
+      if (coinConfig && tradesOn(coinConfig, context.horizon)) {
+        configs.set(coin, coinConfig);
+      }
+    }
+    this.engine = new ProfileEngine(context.name, configs, context.logger, context.startTimeMs, {
+      advancedSignals: true,
+      decisionLatencyMs: 250,
+      crossDebug: true,
+      crossAllowNoFlip: true,
+      fees: context.fees,
+      risk: context.risk,
+      journal: context.journal,
+      rng: context.rng,
+      executor: context.executor ?? undefined,
+    });
+  }
+
+  onSnapshot(
+    polySnapshots: Map<CoinSymbol, MarketSnapshot>,
+    _kalshiSnapshots: Map<CoinSymbol, MarketSnapshot>,
+    nowMs: number,
+  ): void {
+    this.requireEngine().evaluate(polySnapshots, nowMs);
+  }
+
+  // The engine books its own paper fills and settlements.
+  onFill(): void {}
+
+  onSettlement(): void {}
+
+  getViews(): StrategyViews {
+    const engine = this.requireEngine();
+    return {
+      summary: engine.getSummary(),
+      markets: engine.getMarketViews().map((view) => ({
+        coin: view.coin,
+        market: view.marketSlug,
+        timeLeftSec: view.timeLeftSec,
+        position:
+          view.positionShares > 0
+            ? `${view.positionShares.toFixed(2)} @ ${view.positionAvgPrice.toFixed(3)}`
+            : null,
+        lastResult: view.lastResult,
+      })),
+      logs: engine.getLogs(),
+    };
+  }
+
+  getNextPendingTime(): number | null {
+    return this.requireEngine().getNextPendingTime();
+  }
+
+  updateConfig(config: ProfileStrategyConfig): void {
+    const context = this.context;
+    if (!context) return;
+    this.requireEngine().updateConfigs(
+      reloadableCoins(config.coins, context, (coinConfig) => tradesOn(coinConfig, context.horizon)),
+    );
+  }
+
+  exportCheckpoint(): ProfileEngineCheckpoint {
+    return this.requireEngine().exportCheckpoint();
+  }
+
+  restoreCheckpoint(checkpoint: unknown): void {
+    this.requireEngine().restoreCheckpoint(checkpoint as ProfileEngineCheckpoint);
+  }
+
+  private requireEngine(): ProfileEngine {
+    if (!this.engine) {
+      throw new Error("ProfileStrategy used before init");
+    }
+    return this.engine;
+  }
+}
+
+export const profileStrategy: StrategyDefinition<ProfileStrategyConfig> = {
+  type: "profile",
+  description: "Timed single-venue entries on Polymarket (the backtest profile engine)",
+  venues: ["polymarket"],
+  parseConfig: (raw, name) => ({ coins: parseStrategyCoins(raw, name, parseTimedConfig) }),
+  coins: (config, horizon) =>
+    Array.from(config.coins.entries())
+      .filter(([, coinConfig]) => tradesOn(coinConfig, horizon))
+      .map(([coin]) => coin),
+  create: () => new ProfileStrategy(),
+};
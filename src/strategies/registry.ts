@@ -0,0 +1,88 @@
+import { parseConfigFile } from "../services/profile-config";
+import { arbitrageStrategy } from "./arbitrage-strategy";
+import { profileStrategy } from "./profile-strategy";
+import type { Strategy, StrategyContext, StrategyDefinition } from "./strategy";
+
+/** One entry of the `strategies` section of config.json, parsed by its type. */
+export interface StrategyInstanceConfig {
+  name: string;
+  type: string;
+  definition: StrategyDefinition;
+  /** The entry as written, so sweeps can vary it and parse it again. */
+  raw: Record<string, unknown>;
+  config: unknown;
+}
+
+const registry = new Map<string, StrategyDefinition>();
+
+/** Adds a strategy type; config entries select it with `"type": "<type>"`. */
+export function registerStrategy<TConfig>(definition: StrategyDefinition<TConfig>): void {
+  const type = definition.type.trim();
+  if (!/^[a-z][a-z0-9-]*$/.test(type)) {
+    throw new Error(`Strategy type ${definition.type} must be lowercase letters, digits or dashes`);
+  }
+  if (registry.has(type)) {
+    throw new Error(`Strategy type ${type} is already registered`);
+  }
+  registry.set(type, definition as StrategyDefinition);
+}
+
+export function listStrategyTypes(): StrategyDefinition[] {
+  return Array.from(registry.values());
+}
+
+export function getStrategyDefinition(type: string): StrategyDefinition {
+  const definition = registry.get(type);
+  if (!definition) {
+    const known = Array.from(registry.keys()).join(", ");
+    throw new Error(`Config error: unknown strategy type ${type} (registered: ${known})`);
+  }
+  return definition;
+}
+
+/** Parses one `strategies` entry; also used to re-parse sweep variants. */
+export function parseStrategyInstance(
+  name: string,
+  raw: Record<string, unknown>,
+): StrategyInstanceConfig {
+  if (typeof raw.type !== "string" || raw.type.trim() === "") {
+    throw new Error(`Config error: strategy ${name} missing type`);
+  }
+  const type = raw.type.trim();
+  const definition = getStrategyDefinition(type);
+  return { name, type, definition, raw, config: definition.parseConfig(raw, name) };
+}
+
+/** Resolves the `strategies` section of an already parsed config.json; missing means none. */
+export function parseStrategiesConfig(parsed: Record<string, unknown>): StrategyInstanceConfig[] {
+  const section = parsed.strategies;
+  if (section === undefined) return [];
+  if (!section || typeof section !== "object" || Array.isArray(section)) {
+    throw new Error("Config error: strategies must be an object");
+  }
+  const instances: StrategyInstanceConfig[] = [];
+  for (const [name, value] of Object.entries(section as Record<string, unknown>)) {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new Error(`Config error: strategy ${name} must be an object`);
+    }
+    instances.push(parseStrategyInstance(name, value as Record<string, unknown>));
+  }
+  return instances;
+}
+
+export function loadStrategiesFromConfig(): StrategyInstanceConfig[] {
+  return parseStrategiesConfig(parseConfigFile());
+}
+
+/** Creates the strategy for a config entry and initializes it. */
+export function createStrategy(
+  instance: StrategyInstanceConfig,
+  context: StrategyContext,
+): Strategy {
+  const strategy = instance.definition.create();
+  strategy.init(instance.config, context);
+  return strategy;
+}
+
+registerStrategy(profileStrategy);
+registerStrategy(arbitrageStrategy);
@@ -0,0 +1,63 @@
+import type { CoinSymbol } from "../services/auto-market";
+import type { MarketSnapshot } from "../services/market-data-hub";
+import type { TradeJournal } from "../services/trade-journal";
+import type { Strategy } from "./strategy";
+
+export interface HostedStrategy {
+  name: string;
+  strategy: Strategy;
+}
+
+/**
+ * Runs a set of strategies off one journal: feeds them snapshots and routes
+ * each recorded fill and settlement back to the strategy named on it.
+ * Routes and runners drive it the same way live and in replays.
+ */
+export class StrategyHost {
+  private strategies: HostedStrategy[];
+  private byName: Map<string, Strategy>;
+  private unsubscribe: () => void;
+
+  constructor(strategies: HostedStrategy[], journal: TradeJournal) {
+    this.strategies = strategies;
+    this.byName = new Map(strategies.map((entry) => [entry.name, entry.strategy]));
+    this.unsubscribe = journal.subscribe((event) => {
+      const strategy = this.byName.get(event.engine);
+      if (!strategy) return;
+      if (event.type === "fill") {
+        strategy.onFill(event);
+      } else if (event.type === "settlement") {
+        strategy.onSettlement(event);
+      }
+    });
+  }
+
+  getStrategies(): HostedStrategy[] {
+    return this.strategies;
+  }
+
+  evaluate(
+    polySnapshots: Map<CoinSymbol, MarketSnapshot>,
+    kalshiSnapshots: Map<CoinSymbol, MarketSnapshot>,
+    nowMs: number,
+  ): void {
+    for (const { strategy } of this.strategies) {
+      strategy.onSnapshot(polySnapshots, kalshiSnapshots, nowMs);
+    }
+  }
+
+  getNextPendingTime(): number | null {
+    let next: number | null = null;
+    for (const { strategy } of this.strategies) {
+      const due = strategy.getNextPendingTime();
+      if (due !== null && (next === null || due < next)) {
+        next = due;
+      }
+    }
+    return next;
+  }
+
+  close(): void {
+    this.unsubscribe();
+  }
+}
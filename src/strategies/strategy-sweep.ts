@@ -0,0 +1,66 @@
+import { applySweepParams, expandSweepGrid, type SweepSpec, type SweepVariant } from "../backtest/sweep-grid";
+import { rankSweepRows, type SweepResultRow } from "../backtest/sweep-runner";
+import { parseStrategyInstance, type StrategyInstanceConfig } from "./registry";
+import type { StrategySummary } from "./strategy";
+
+export interface StrategySweepVariant {
+  variant: SweepVariant;
+  instance: StrategyInstanceConfig;
+}
+
+/**
+ * Strategy sweep paths address the `strategies` entry as written in
+ * config.json, e.g. `coins.eth.300.minimumPriceDifference`.
+ */
+export function checkStrategySweepPath(path: string): void {
+  const segments = path.split(".");
+  if (segments.some((segment) => segment.length === 0)) {
+    throw new Error(`Config error: sweep parameter ${path} is malformed`);
+  }
+  if (segments[0] === "type") {
+    throw new Error(`Config error: sweep parameter ${path} cannot change the strategy type`);
+  }
+}
+
+/**
+ * One strategy config per grid point, each parsed by its type like the
+ * original, so an invalid combination fails before any data is replayed.
+ */
+export function expandStrategySweep(
+  base: StrategyInstanceConfig,
+  spec: SweepSpec,
+  maxVariants: number,
+): StrategySweepVariant[] {
+  return expandSweepGrid(spec, maxVariants).map((variant) => ({
+    variant,
+    instance: parseStrategyInstance(
+      `${base.name}#${variant.id}`,
+      applySweepParams(base.raw, variant),
+    ),
+  }));
+}
+
+/** Ranks variants by their strategy summaries, like the kernel sweep. */
+export function rankStrategySweep(
+  variants: SweepVariant[],
+  summaries: Map<string, StrategySummary>,
+): SweepResultRow[] {
+  return rankSweepRows(
+    variants.map((variant) => {
+      const summary = summaries.get(variant.id);
+      return {
+        rank: 0,
+        id: variant.id,
+        params: variant.params,
+        totalTrades: summary?.totalTrades ?? 0,
+        crossTrades: 0,
+        wins: summary?.wins ?? 0,
+        losses: summary?.losses ?? 0,
+        winRate: null,
+        totalProfit: summary?.totalProfit ?? 0,
+        openExposure: summary?.openExposure ?? 0,
+        byCoin: {},
+      };
+    }),
+  );
+}
@@ -0,0 +1,169 @@
+import type { KalshiClient } from "../clients/kalshi/kalshi-client";
+import type { ExecutionAdapter } from "../execution/types";
+import type { MarketProvider } from "../providers/provider";
+import type { CoinSymbol, MarketHorizon } from "../services/auto-market";
+import type { NormalizedOutcome } from "../services/cross-platform-compare";
+import type { VenueFeeModels } from "../services/fee-model";
+import type { MarketSnapshot } from "../services/market-data-hub";
+import { normalizeCoinKey } from "../services/profile-config";
+import type { RiskManager } from "../services/risk-manager";
+import type { SeededRng } from "../services/rng";
+import type { RunLogger } from "../services/run-logger";
+import type { FillEvent, SettlementEvent, TradeJournal } from "../services/trade-journal";
+
+/** Where a strategy runs: live paper trading, a backtest, or one sweep variant. */
+export type StrategyRunMode = "paper" | "backtest" | "sweep";
+
+/** Everything the host hands a strategy in `init`. */
+export interface StrategyContext {
+  /** Instance name from config; journal lines and logs carry it. */
+  name: string;
+  mode: StrategyRunMode;
+  /** Market window the host feeds; configs for other horizons are ignored. */
+  horizon: MarketHorizon;
+  /** Coins the host feeds, a subset of `StrategyDefinition.coins`. */
+  coins: CoinSymbol[];
+  startTimeMs: number;
+  logger: RunLogger;
+  fees: VenueFeeModels;
+  risk: RiskManager;
+  /** Fills and settlements recorded here come back through `onFill`/`onSettlement`. */
+  journal: TradeJournal;
+  rng: SeededRng;
+  /** Settled outcomes recorded with backtest data; null when live. */
+  recordedOutcome: ((snapshot: MarketSnapshot) => NormalizedOutcome | null) | null;
+  /** Resolves Kalshi outcomes live; null in backtests or without credentials. */
+  kalshiClient: KalshiClient | null;
+  /** `--execution` adapter for live runs; null fills orders as paper. */
+  executor: ExecutionAdapter | null;
+}
+
+/** Totals every strategy reports; the engines' own summaries extend this. */
+export interface StrategySummary {
+  runtimeSec: number;
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  totalProfit: number;
+  openExposure: number;
+}
+
+export interface StrategyMarketView {
+  coin: CoinSymbol;
+  market: string;
+  timeLeftSec: number | null;
+  /** Open position in words, e.g. "10.00 Up @ 0.620"; null when flat. */
+  position: string | null;
+  lastResult: string | null;
+}
+
+/** What the host shows and logs for a strategy. */
+export interface StrategyViews {
+  summary: StrategySummary;
+  markets: StrategyMarketView[];
+  logs: string[];
+}
+
+/**
+ * A trading strategy the routes can run unchanged in paper mode, backtests
+ * and sweeps. The host calls `init` once, then `onSnapshot` on every
+ * evaluation with both venues' snapshots (a map is empty when the strategy
+ * does not use that venue). Strategies fill their own paper orders and
+ * record them in the context journal; the host hands each recorded fill and
+ * settlement back to the strategy that recorded it.
+ */
+export interface Strategy<TConfig = unknown> {
+  init(config: TConfig, context: StrategyContext): void;
+  onSnapshot(
+    polySnapshots: Map<CoinSymbol, MarketSnapshot>,
+    kalshiSnapshots: Map<CoinSymbol, MarketSnapshot>,
+    nowMs: number,
+  ): void;
+  onFill(fill: FillEvent): void;
+  onSettlement(settlement: SettlementEvent): void;
+  getViews(): StrategyViews;
+  /** Due time of the next delayed decision, so backtests step to it; null when none. */
+  getNextPendingTime(): number | null;
+  /**
+   * Takes a re-parsed config entry of the same type from a config.json hot
+   * reload. Strategies without it keep their settings until restart.
+   */
+  updateConfig?(config: TConfig): void;
+  /** State for a paper run checkpoint; strategies without it start fresh on `--resume`. */
+  exportCheckpoint?(): unknown;
+  /** Takes what `exportCheckpoint` returned in an earlier process, right after `init`. */
+  restoreCheckpoint?(checkpoint: unknown, nowMs: number): void;
+}
+
+/**
+ * Registry entry for a strategy type. `parseConfig` receives one entry of
+ * the `strategies` section of config.json (including `type`) and throws
+ * `Config error: ...` on invalid input.
+ */
+export interface StrategyDefinition<TConfig = unknown> {
+  type: string;
+  description: string;
+  /** Venues the strategy reads; the host only starts or loads these. */
+  venues: MarketProvider[];
+  parseConfig(raw: Record<string, unknown>, name: string): TConfig;
+  /** Coins the config trades on `horizon`. */
+  coins(config: TConfig, horizon: MarketHorizon): CoinSymbol[];
+  create(): Strategy<TConfig>;
+}
+
+/**
+ * Coin configs from a reloaded entry that a running strategy can take in
+ * place: coins it already trades that are still on the host's horizon.
+ * Anything else is logged and keeps its settings until restart.
+ */
+export function reloadableCoins<T>(
+  coins: Map<CoinSymbol, T>,
+  context: StrategyContext,
+  tradesOn: (config: T) => boolean,
+): Map<CoinSymbol, T> {
+  const updates = new Map<CoinSymbol, T>();
+  for (const coin of context.coins) {
+    const config = coins.get(coin);
+    if (!config) {
+      context.logger.log(
+        `${coin.toUpperCase()} is no longer in config.json; it keeps its settings until restart`,
+        "WARN",
+      );
+    } else if (!tradesOn(config)) {
+      context.logger.log(`${coin.toUpperCase()} horizon changed; restart to apply`, "WARN");
+    } else {
+      updates.set(coin, config);
+    }
+  }
+  return updates;
+}
+
+/**
+ * Reads the `coins` object most strategy configs share: one entry per coin
+ * id or alias, each parsed by `parseCoin`.
+ */
+export function parseStrategyCoins<T>(
+  raw: Record<string, unknown>,
+  name: string,
+  parseCoin: (name: string, coinKey: string, value: Record<string, unknown>) => T,
+): Map<CoinSymbol, T> {
+  const coinsRaw = raw.coins;
+  if (!coinsRaw || typeof coinsRaw !== "object" || Array.isArray(coinsRaw)) {
+    throw new Error(`Config error: strategy ${name} missing coins`);
+  }
+  const coins = new Map<CoinSymbol, T>();
+  for (const [coinKey, value] of Object.entries(coinsRaw as Record<string, unknown>)) {
+    const coin = normalizeCoinKey(coinKey);
+    if (!coin) {
+      throw new Error(`Config error: strategy ${name} has unknown coin ${coinKey}`);
+    }
+    if (!value || typeof value !== "object") {
+      throw new Error(`Config error: strategy ${name}.${coinKey} must be an object`);
+    }
+    coins.set(coin, parseCoin(name, coinKey, value as Record<string, unknown>));
+  }
+  if (coins.size === 0) {
+    throw new Error(`Config error: strategy ${name} has no coins`);
+  }
+  return coins;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import { pairSnapshots } from "../src/backtest/arbitrage-backtest-runner";
+import type { CoinSymbol } from "../src/services/auto-market";
+import type { MarketSnapshot } from "../src/services/market-data-hub";
+
+const polySnapshot: MarketSnapshot = {
+  provider: "polymarket",
+  coin: "eth",
+  symbol: "eth/usd",
+  marketName: "ETH Up or Down 15m",
+  slug: "eth-updown-15m-123",
+  marketTicker: null,
+  timeLeftSec: 100,
+  marketCloseTimeMs: 1_000_000,
+  priceToBeat: 0,
+  referencePrice: 0,
+  referenceSource: "missing",
+  cryptoPrice: 0,
+  cryptoPriceTimestamp: 0,
+  dataStatus: "healthy",
+  lastBookUpdateMs: 0,
+  upOutcome: "Up",
+  downOutcome: "Down",
+  upTokenId: "up",
+  downTokenId: "down",
+  orderBooks: new Map(),
+  bestBid: new Map(),
+  bestAsk: new Map(),
+  priceHistory: [],
+};
+
+const kalshiSnapshot: MarketSnapshot = {
+  ...polySnapshot,
+  provider: "kalshi",
+  slug: "KXETH15M-123",
+  marketTicker: "KXETH15M-123",
+  upTokenId: "YES",
+  downTokenId: "NO",
+};
+
+function single(snapshot: MarketSnapshot): Map<CoinSymbol, MarketSnapshot> {
+  return new Map([[snapshot.coin, snapshot]]);
+}
+
+describe("pairSnapshots", () => {
+  it("pairs coins open on the same window", () => {
+    const { poly, kalshi } = pairSnapshots(
+      single(polySnapshot),
+      single({ ...kalshiSnapshot, marketCloseTimeMs: 1_000_500 }),
+    );
+    expect(poly.get("eth")?.slug).toBe("eth-updown-15m-123");
+    expect(kalshi.get("eth")?.slug).toBe("KXETH15M-123");
+  });
+
+  it("drops mismatched windows and closed markets", () => {
+    expect(
+      pairSnapshots(
+        single(polySnapshot),
+        single({ ...kalshiSnapshot, marketCloseTimeMs: 1_900_000 }),
+      ).poly.size,
+    ).toBe(0);
+    expect(
+      pairSnapshots(
+        single({ ...polySnapshot, timeLeftSec: 0 }),
+        single(kalshiSnapshot),
+      ).poly.size,
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "bun:test";
+import {
+  LegManager,
+  createLeg,
+  walkAsks,
+  walkBids,
+  type LegRiskPolicy,
+} from "../src/services/arbitrage-legs";
+
+function createManager(policy: LegRiskPolicy): LegManager {
+  return new LegManager(
+    createLeg("polymarket", "up", 10, 0.45),
+    createLeg("kalshi", "NO", 10, 0.5),
+    { policy, chaseCents: 2 },
+  );
+}
+
+describe("walkAsks", () => {
+  it("stops at the limit and skips depth already taken", () => {
+    const asks = [
+      { price: 0.4, size: 4 },
+      { price: 0.45, size: 4 },
+      { price: 0.5, size: 10 },
+    ];
+    const entry = walkAsks(asks, 10, 0.45);
+    expect(entry.shares).toBe(8);
+    expect(entry.cost).toBeCloseTo(3.4, 9);
+    const chased = walkAsks(asks, 2, 0.5, 8);
+    expect(chased.shares).toBe(2);
+    expect(chased.cost).toBeCloseTo(1, 9);
+  });
+
+  it("sells into the best bids first", () => {
+    const fill = walkBids(
+      [
+        { price: 0.3, size: 5 },
+        { price: 0.35, size: 2 },
+      ],
+      4,
+    );
+    expect(fill.shares).toBe(4);
+    expect(fill.cost).toBeCloseTo(0.7 + 0.6, 9);
+  });
+});
+
+describe("LegManager", () => {
+  it("does nothing when both legs fill", () => {
+    const legs = createManager("chase");
+    legs.recordFill("polymarket", { shares: 10, cost: 4.4 });
+    legs.recordFill("kalshi", { shares: 10, cost: 4.9 });
+    expect(legs.poly.status).toBe("filled");
+    expect(legs.getUnhedged()).toBeNull();
+    expect(legs.nextAction()).toBeNull();
+  });
+
+  it("chases the short leg then unwinds the remainder", () => {
+    const legs = createManager("chase");
+    legs.recordFill("polymarket", { shares: 10, cost: 4.5 });
+    legs.recordFill("kalshi", { shares: 4, cost: 2 });
+    expect(legs.kalshi.status).toBe("partial");
+
+    const chase = legs.nextAction();
+    expect(chase).toEqual({ kind: "chase", venue: "kalshi", shares: 6, limitPrice: 0.52 });
+    legs.recordFill("kalshi", { shares: 2, cost: 1.04 });
+
+    const unwind = legs.nextAction();
+    expect(unwind).toEqual({ kind: "unwind", venue: "polymarket", shares: 4 });
+    const pnl = legs.recordUnwind("polymarket", { shares: 4, cost: 1.6 });
+    expect(pnl).toBeCloseTo(1.6 - 1.8, 9);
+    expect(legs.getRealizedPnl()).toBeCloseTo(-0.2, 9);
+    expect(legs.getHedgedShares()).toBe(6);
+    expect(legs.getUnhedged()).toBeNull();
+    expect(legs.nextAction()).toBeNull();
+  });
+
+  it("holds the naked leg with its cost", () => {
+    const legs = createManager("hold");
+    legs.recordFill("polymarket", { shares: 0, cost: 0 });
+    legs.recordFill("kalshi", { shares: 10, cost: 5 });
+    expect(legs.poly.status).toBe("rejected");
+    expect(legs.nextAction()).toEqual({ kind: "hold", venue: "kalshi", shares: 10 });
+    expect(legs.getUnhedged()).toEqual({ venue: "kalshi", shares: 10, cost: 5 });
+    expect(legs.nextAction()).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  diffGoldenResult,
+  diffLines,
+  formatVerifyReport,
+  verifyBacktest,
+  type GoldenResult,
+} from "../src/backtest/verify";
+
+const FIXTURE_DIR = join(import.meta.dir, "fixtures", "backtest");
+
+let tempDir: string | null = null;
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = null;
+});
+
+describe("backtest verify", () => {
+  it("replays the fixture to the golden results", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "verify-"));
+    const report = await verifyBacktest({ runDir: tempDir, fixtureDir: FIXTURE_DIR });
+    // On failure the message carries the readable diff; if the change is
+    // intended, regenerate with `bun run main.ts -- --update-golden`.
+    expect(formatVerifyReport(report).join("\n")).toEndWith("Backtest verify passed.");
+    expect(report.results.map((result) => result.profile)).toEqual(["taker", "maker", "cross"]);
+  }, 60_000);
+
+  it("diffs summaries and trade lists", () => {
+    const expected: GoldenResult = {
+      profile: "p",
+      summary: { totalTrades: 2, wins: 1, losses: 1, totalProfit: 3, openExposure: 0 },
+      trades: ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"],
+    };
+    const actual: GoldenResult = {
+      ...expected,
+      summary: { ...expected.summary, totalProfit: 4.5 },
+      trades: ["a", "b", "c", "x", "e", "f", "g", "h", "i", "j", "k"],
+    };
+    expect(diffGoldenResult(expected, expected)).toEqual([]);
+    expect(diffGoldenResult(expected, actual)).toEqual([
+      "summary totalProfit: 3 -> 4.5",
+      "trades (10 -> 11):",
+      "  b",
+      "  c",
+      "- d",
+      "+ x",
+      "  e",
+      "  f",
+      "  ...",
+      "  i",
+      "  j",
+      "+ k",
+    ]);
+    expect(diffLines(["a"], [])).toEqual(["- a"]);
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { parseCoinRegistry, setCoinRegistry } from "../src/services/coin-registry";
+import {
+  isUpDownSlugForHorizon,
+  parseUpDownSlugCoin,
+  upDownSeriesSlugs,
+} from "../src/services/auto-market";
+import { defaultKalshiSelection, normalizeCoinKey } from "../src/services/profile-config";
+
+afterEach(() => {
+  setCoinRegistry(null);
+});
+
+describe("coin registry", () => {
+  it("keeps the built-in coins and adds configured ones with defaults", () => {
+    const registry = parseCoinRegistry({
+      doge: { name: "Dogecoin", aliases: ["dogecoin"], kalshiSeriesTicker: "kxdoge15m" },
+    });
+    expect(registry.ids()).toEqual(["eth", "btc", "sol", "xrp", "doge"]);
+    expect(registry.get("doge")).toEqual({
+      id: "doge",
+      name: "Dogecoin",
+      aliases: ["dogecoin"],
+      polymarketSlugPrefix: "doge",
+      kalshiSeriesTicker: "KXDOGE15M",
+      rtdsSymbol: "doge/usd",
+      binanceSymbol: "DOGEUSDT",
+      coingeckoId: null,
+    });
+    expect(registry.resolve("Dogecoin")).toBe("doge");
+    expect(registry.coinForRtdsSymbol("DOGE/USD")).toBe("doge");
+    expect(registry.get("eth").binanceSymbol).toBe("ETHUSDT");
+  });
+
+  it("overrides built-in fields one by one", () => {
+    const registry = parseCoinRegistry({
+      xrp: { kalshiSeriesTicker: "KXXRP15M", binanceSymbol: null },
+    });
+    expect(registry.get("xrp").kalshiSeriesTicker).toBe("KXXRP15M");
+    expect(registry.get("xrp").binanceSymbol).toBeNull();
+    expect(registry.get("xrp").rtdsSymbol).toBe("xrp/usd");
+  });
+
+  it("rejects malformed entries", () => {
+    expect(() => parseCoinRegistry(["doge"])).toThrow("Config error: coins");
+    expect(() => parseCoinRegistry({ "doge-usd": {} })).toThrow("coins.doge-usd");
+    expect(() => parseCoinRegistry({ doge: { rtdsSymbol: null } })).toThrow(
+      "coins.doge rtdsSymbol",
+    );
+  });
+
+  it("drives coin keys, slugs and Kalshi defaults", () => {
+    setCoinRegistry(
+      parseCoinRegistry({
+        doge: { polymarketSlugPrefix: "dogecoin", kalshiSeriesTicker: "KXDOGE15M" },
+      }),
+    );
+    expect(normalizeCoinKey("DOGE")).toBe("doge");
+    expect(normalizeCoinKey("shib")).toBeNull();
+    expect(upDownSeriesSlugs("doge", "15m")).toEqual([
+      "dogecoin-up-or-down-15m",
+      "dogecoin-updown-15m",
+    ]);
+    expect(isUpDownSlugForHorizon("dogecoin-updown-15m-1767225600", "doge", "15m")).toBe(true);
+    expect(isUpDownSlugForHorizon("doge-updown-15m-1767225600", "doge", "15m")).toBe(false);
+    expect(parseUpDownSlugCoin("dogecoin-up-or-down-hourly-1767225600")).toBe("doge");
+    expect(parseUpDownSlugCoin("xrp-updown-4h-1767225600")).toBe("xrp");
+    expect(parseUpDownSlugCoin("shib-updown-15m-1767225600")).toBeNull();
+    expect(defaultKalshiSelection("doge").seriesTickers).toEqual(["KXDOGE15M"]);
+  });
+});
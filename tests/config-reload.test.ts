@@ -0,0 +1,256 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { CoinSymbol } from "../src/services/auto-market";
+import {
+  ConfigWatcher,
+  diffConfigValues,
+  PendingConfigUpdates,
+  planConfigReload,
+} from "../src/services/config-reload";
+import { parseFeeModels } from "../src/services/fee-model";
+import type { MarketSnapshot, OrderBookSnapshot } from "../src/services/market-data-hub";
+import type { TimedTradeConfig } from "../src/services/profile-engine";
+import { RiskManager } from "../src/services/risk-manager";
+import { SeededRng } from "../src/services/rng";
+import { RunLogger } from "../src/services/run-logger";
+import { TradeJournal } from "../src/services/trade-journal";
+import { ProfileStrategy } from "../src/strategies/profile-strategy";
+
+interface TestConfig {
+  horizon: string;
+  minGap: number;
+  rules: Array<{ tierSeconds: number; maximumSpend: number }>;
+}
+
+const config = (overrides: Partial<TestConfig> = {}): TestConfig => ({
+  horizon: "15m",
+  minGap: 0.04,
+  rules: [{ tierSeconds: 300, maximumSpend: 10 }],
+  ...overrides,
+});
+
+describe("planConfigReload", () => {
+  it("diffs changed parameters and matches rules by tier", () => {
+    expect(
+      diffConfigValues(
+        config(),
+        config({
+          minGap: 0.05,
+          rules: [
+            { tierSeconds: 120, maximumSpend: 5 },
+            { tierSeconds: 300, maximumSpend: 20 },
+          ],
+        }),
+      ),
+    ).toEqual(["minGap: 0.04 -> 0.05", "rules[120s]: added", "rules[300s].maximumSpend: 10 -> 20"]);
+  });
+
+  it("updates running coins and skips what needs a restart", () => {
+    const running = new Map([
+      [
+        "arbBotV1",
+        new Map([
+          ["eth", config()],
+          ["btc", config()],
+          ["sol", config()],
+        ]),
+      ],
+      ["gone", new Map([["eth", config()]])],
+    ]);
+    const loaded = new Map([
+      [
+        "arbBotV1",
+        new Map([
+          ["eth", config({ minGap: 0.06 })],
+          ["btc", config({ horizon: "1h", minGap: 0.06 })],
+          ["xrp", config()],
+        ]),
+      ],
+    ]);
+    const plan = planConfigReload(running, loaded, ["horizon"]);
+    expect(Array.from(plan.updates.get("arbBotV1")?.keys() ?? [])).toEqual(["eth"]);
+    expect(plan.changes).toEqual(["arbBotV1 ETH minGap: 0.04 -> 0.06"]);
+    expect(plan.skipped).toEqual([
+      "arbBotV1 BTC horizon changed; restart to apply",
+      "arbBotV1 SOL is no longer in config.json; it keeps its settings until restart",
+      "gone is no longer in config.json; it keeps its settings until restart",
+    ]);
+  });
+});
+
+describe("PendingConfigUpdates", () => {
+  it("holds a coin's config until it has no pending order", () => {
+    const target = new Map([
+      ["eth", config()],
+      ["btc", config()],
+    ]);
+    const updates = new PendingConfigUpdates<TestConfig>();
+    updates.queue(
+      new Map([
+        ["eth", config({ minGap: 0.1 })],
+        ["btc", config({ minGap: 0.2 })],
+        ["doge", config()],
+      ]),
+    );
+    const busy = new Set(["btc"]);
+    expect(updates.applyTo(target, (coin) => busy.has(coin))).toEqual(["eth"]);
+    expect(target.get("btc")?.minGap).toBe(0.04);
+    busy.clear();
+    expect(updates.applyTo(target, (coin) => busy.has(coin))).toEqual(["btc"]);
+    expect(target.get("btc")?.minGap).toBe(0.2);
+    expect(target.has("doge")).toBe(false);
+  });
+});
+
+describe("ConfigWatcher", () => {
+  let dir: string | null = null;
+  let watcher: ConfigWatcher | null = null;
+
+  afterEach(() => {
+    watcher?.close();
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    watcher = null;
+    dir = null;
+  });
+
+  it("fires once per burst of writes to the watched file", async () => {
+    dir = mkdtempSync(join(tmpdir(), "config-reload-"));
+    const path = join(dir, "config.json");
+    writeFileSync(path, "{}");
+    let calls = 0;
+    const fired = new Promise<void>((resolve) => {
+      watcher = new ConfigWatcher(
+        path,
+        () => {
+          calls += 1;
+          resolve();
+        },
+        { debounceMs: 50 },
+      );
+    });
+    writeFileSync(join(dir, "other.json"), "{}");
+    writeFileSync(path, '{"a":1}');
+    writeFileSync(path, '{"a":2}');
+    await Promise.race([fired, Bun.sleep(2000)]);
+    await Bun.sleep(100);
+    expect(calls).toBe(1);
+  });
+});
+
+describe("strategy hot reload", () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  const timed = (maximumSpend: number, horizon?: "15m" | "1h"): TimedTradeConfig => ({
+    tradeAllowedTimeLeft: 300,
+    horizon,
+    rules: [
+      {
+        tierSeconds: 300,
+        minimumPriceDifference: 5,
+        maximumSharePrice: 0.9,
+        minimumSharePrice: 0.1,
+        maximumSpend,
+        minimumSpend: 1,
+      },
+    ],
+  });
+
+  function book(bid: number, ask: number): OrderBookSnapshot {
+    return {
+      bids: [{ price: bid, size: 100 }],
+      asks: [{ price: ask, size: 100 }],
+      lastTrade: 0,
+      totalBidValue: bid * 100,
+      totalAskValue: ask * 100,
+    };
+  }
+
+  function snapshot(slug: string, timeLeftSec: number): Map<CoinSymbol, MarketSnapshot> {
+    return new Map<CoinSymbol, MarketSnapshot>([
+      [
+        "eth",
+        {
+          coin: "eth",
+          symbol: "eth/usd",
+          marketName: "ETH",
+          slug,
+          timeLeftSec,
+          priceToBeat: 3000,
+          referencePrice: 3000,
+          referenceSource: "price_to_beat",
+          cryptoPrice: 3010,
+          cryptoPriceTimestamp: 0,
+          dataStatus: "healthy",
+          lastBookUpdateMs: 0,
+          upOutcome: "Up",
+          downOutcome: "Down",
+          upTokenId: "up",
+          downTokenId: "down",
+          orderBooks: new Map([
+            ["up", book(0.48, 0.5)],
+            ["down", book(0.48, 0.5)],
+          ]),
+          bestBid: new Map([
+            ["up", 0.48],
+            ["down", 0.48],
+          ]),
+          bestAsk: new Map([
+            ["up", 0.5],
+            ["down", 0.5],
+          ]),
+          priceHistory: [],
+          recentTrades: [],
+        },
+      ],
+    ]);
+  }
+
+  it("hands reloaded profile configs to the engine once the coin is idle", () => {
+    dir = mkdtempSync(join(tmpdir(), "config-reload-"));
+    const logPath = join(dir, "taker.log");
+    const strategy = new ProfileStrategy();
+    strategy.init(
+      { coins: new Map([["eth", timed(10)]]) },
+      {
+        name: "taker",
+        mode: "paper",
+        horizon: "15m",
+        coins: ["eth"],
+        startTimeMs: 0,
+        logger: new RunLogger(logPath),
+        fees: parseFeeModels({}),
+        risk: new RiskManager(),
+        journal: new TradeJournal(join(dir, "journal.jsonl")),
+        rng: new SeededRng(1),
+        recordedOutcome: null,
+        kalshiClient: null,
+        executor: null,
+      },
+    );
+    const position = () => strategy.getViews().markets[0]?.position ?? null;
+    const none = new Map<CoinSymbol, MarketSnapshot>();
+
+    // Decided with the old spend: the reload waits for the pending order.
+    strategy.onSnapshot(snapshot("eth-1", 200), none, 1_000);
+    strategy.updateConfig({ coins: new Map([["eth", timed(4)]]) });
+    strategy.onSnapshot(snapshot("eth-1", 200), none, 1_250);
+    expect(position()).toBe("20.00 @ 0.500");
+
+    // The next market trades with the reloaded spend.
+    strategy.onSnapshot(snapshot("eth-2", 200), none, 2_000);
+    strategy.onSnapshot(snapshot("eth-2", 200), none, 2_250);
+    expect(position()).toBe("8.00 @ 0.500");
+    expect(readFileSync(logPath, "utf8")).toContain("ETH config reloaded");
+
+    // A horizon change is left for a restart.
+    strategy.updateConfig({ coins: new Map([["eth", timed(2, "1h")]]) });
+    expect(readFileSync(logPath, "utf8")).toContain("ETH horizon changed; restart to apply");
+  });
+});
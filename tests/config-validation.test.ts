@@ -0,0 +1,131 @@
+import { describe, expect, it } from "bun:test";
+import { validateConfig } from "../src/services/config-validation";
+
+const rule = (overrides: Record<string, unknown> = {}) => ({
+  minimumPriceDifference: 0.05,
+  maximumSharePrice: 0.9,
+  minimumSharePrice: 0.1,
+  maximumSpend: 20,
+  minimumSpend: 1,
+  ...overrides,
+});
+
+function baseConfig(ethConfig: Record<string, unknown>): Record<string, unknown> {
+  return {
+    schemaVersion: 2,
+    providers: {
+      polymarket: {
+        coins: ["eth", "btc"],
+        marketGroups: [
+          { id: "default", match: {} },
+          { id: "late", match: { slugRegex: "updown" } },
+        ],
+        profiles: {
+          p1: {
+            markets: {
+              default: {
+                eth: ethConfig,
+                btc: { tradeAllowedTimeLeft: 120, 120: rule() },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+const pathsOf = (issues: Array<{ path: string }>) => issues.map((issue) => issue.path);
+
+describe("validateConfig", () => {
+  it("reports every schema problem with its path at once", () => {
+    const config = baseConfig({
+      tradeAllowedTimeLeft: 300,
+      300: rule({ maximumSpend: "lots", typo: 1 }),
+    });
+    config.risk = { maxTotalExposure: -1 };
+    config.schemaVersion = 1;
+    const { issues } = validateConfig(config);
+    const errors = issues.filter((issue) => issue.severity === "error");
+    expect(pathsOf(errors)).toEqual(
+      expect.arrayContaining([
+        "$.schemaVersion",
+        '$.providers.polymarket.profiles.p1.markets.default.eth["300"].maximumSpend',
+        "$.risk.maxTotalExposure",
+      ]),
+    );
+    const warnings = issues.filter((issue) => issue.severity === "warning");
+    expect(pathsOf(warnings)).toContain(
+      '$.providers.polymarket.profiles.p1.markets.default.eth["300"].typo',
+    );
+  });
+
+  it("warns about contradictory tiers and unused market groups", () => {
+    const { issues } = validateConfig(
+      baseConfig({
+        tradeAllowedTimeLeft: 300,
+        300: rule({ minimumSharePrice: 0.7, maximumSharePrice: 0.5 }),
+        600: rule(),
+      }),
+    );
+    expect(issues.every((issue) => issue.severity === "warning")).toBe(true);
+    const messages = issues.map((issue) => `${issue.path} ${issue.message}`);
+    expect(messages).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('eth["300"] minimumSharePrice 0.7 > maximumSharePrice 0.5'),
+        expect.stringContaining('eth["600"] tier 600s overlaps the default tier 300s'),
+        expect.stringContaining("marketGroups[1] market group late is not used"),
+      ]),
+    );
+  });
+
+  it("resolves configs per profile, group and coin like the engines see them", () => {
+    const { issues, resolved } = validateConfig(
+      baseConfig({ tradeAllowedTimeLeft: 300, horizon: "hourly", 300: rule() }),
+    );
+    expect(issues.filter((issue) => issue.severity === "error")).toEqual([]);
+    const eth = resolved.filter((entry) => entry.coin === "eth");
+    // "late" has no configs of its own, so it falls back to "default".
+    expect(eth.map((entry) => entry.group)).toEqual(["default", "late"]);
+    expect(eth[1]?.config.horizon).toBe("1h");
+    expect(eth[1]?.config.rules.map((entry) => entry.tierSeconds)).toEqual([300]);
+  });
+
+  it("reports loader errors once, after the schema pass", () => {
+    const config = baseConfig({ tradeAllowedTimeLeft: 300, 300: rule() });
+    (config.providers as Record<string, unknown>).kalshi = {
+      coins: { eth: { seriesTickers: ["KXETH15M"], horizons: { "5m": {} } } },
+    };
+    config.arbitrage = { profiles: { a: { coins: { eth: { bogus: true } } } } };
+    const { issues } = validateConfig(config);
+    expect(issues).toContainEqual({
+      severity: "error",
+      path: "$.providers.kalshi",
+      message: "kalshi coins.eth.horizons.5m is not one of 15m, 1h, 4h, daily",
+    });
+    // The schema already flagged the arbitrage coin, so its loader error is not repeated.
+    const arbitrage = issues.filter((issue) => issue.path.startsWith("$.arbitrage"));
+    expect(arbitrage.some((issue) => issue.message.includes("missing required key"))).toBe(true);
+    expect(arbitrage.some((issue) => issue.path === "$.arbitrage")).toBe(false);
+  });
+
+  it("checks the strategies section against the registered types", () => {
+    const config = baseConfig({ tradeAllowedTimeLeft: 300, 300: rule() });
+    config.strategies = {
+      ok: { type: "profile", coins: { eth: { tradeAllowedTimeLeft: 300, 300: rule() } } },
+    };
+    const strategyPaths = pathsOf(validateConfig(config).issues).filter((path) =>
+      path.startsWith("$.strategies"),
+    );
+    expect(strategyPaths).toEqual([]);
+
+    config.strategies = { untyped: { coins: {} } };
+    expect(pathsOf(validateConfig(config).issues)).toContain("$.strategies.untyped");
+    config.strategies = { odd: { type: "martingale" } };
+    expect(validateConfig(config).issues).toContainEqual({
+      severity: "error",
+      path: "$.strategies",
+      message: expect.stringContaining("unknown strategy type martingale"),
+    });
+  });
+});
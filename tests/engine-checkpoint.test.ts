@@ -0,0 +1,246 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ArbitrageEngine,
+  type ArbitrageEngineCheckpoint,
+} from "../src/services/arbitrage-engine";
+import type { ArbitrageCoinConfig } from "../src/services/arbitrage-config";
+import type { CoinSymbol } from "../src/services/auto-market";
+import { NO_FEES } from "../src/services/fee-model";
+import {
+  CHECKPOINT_FILE,
+  CHECKPOINT_VERSION,
+  findCheckpointRun,
+  parseCheckpoint,
+  readCheckpoint,
+  writeCheckpoint,
+} from "../src/services/engine-checkpoint";
+import type { MarketSnapshot } from "../src/services/market-data-hub";
+import type { TimedTradeConfig } from "../src/services/profile-engine";
+import { NO_RISK_LIMITS, RiskManager } from "../src/services/risk-manager";
+import { SeededRng } from "../src/services/rng";
+import { RunLogger } from "../src/services/run-logger";
+import { TradeJournal } from "../src/services/trade-journal";
+import { ProfileStrategy } from "../src/strategies/profile-strategy";
+import type { StrategyContext } from "../src/strategies/strategy";
+import { snapshot } from "./helpers/market-snapshot";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let tempDir: string | null = null;
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = null;
+});
+
+const config: ArbitrageCoinConfig = {
+  horizon: "15m",
+  tradeAllowedTimeLeft: 600,
+  tradeStopTimeLeft: null,
+  minGap: 0.04,
+  maxSpendTotal: 1000,
+  minSpendTotal: 1,
+  maxSpread: null,
+  minDepthValue: null,
+  maxPriceStalenessSec: null,
+  fillUsd: 100,
+  legRiskPolicy: "unwind",
+  legChaseCents: 2,
+  strikeLadder: true,
+  maxLoseBandPct: 0.05,
+  settlementBasisBps: 2,
+  maxMismatchProb: 0.1,
+};
+
+const poly = snapshot({ provider: "polymarket", slug: "eth-updown" }, { up: 0.5, down: 0.5 });
+const kalshiStrike = (ticker: string, strike: number, yes: number, no: number) =>
+  snapshot(
+    {
+      provider: "kalshi",
+      slug: ticker,
+      marketTicker: ticker,
+      priceToBeat: strike,
+      referencePrice: strike,
+      upTokenId: "YES",
+      downTokenId: "NO",
+    },
+    { YES: yes, NO: no },
+  );
+const kalshi = {
+  ...kalshiStrike("KX-3000", 3000, 0.5, 0.5),
+  strikeLadder: [kalshiStrike("KX-3020", 3020, 0.6, 0.44)],
+};
+const polyMap = new Map<CoinSymbol, MarketSnapshot>([["eth", poly]]);
+const kalshiMap = new Map<CoinSymbol, MarketSnapshot>([["eth", kalshi]]);
+
+function createEngine(dir: string, risk: RiskManager): ArbitrageEngine {
+  return new ArbitrageEngine(
+    "arbBotV1",
+    new Map<CoinSymbol, ArbitrageCoinConfig>([["eth", config]]),
+    new RunLogger(join(dir, "arbBotV1.log")),
+    { decisionLatencyMs: 0, risk, outcomeSource: { resolve: () => "UP" } },
+    0,
+  );
+}
+
+describe("engine checkpoints", () => {
+  it("restores an open position, reattaches it and settles it after a restart", () => {
+    tempDir = mkdtempSync(join(tmpdir(), "engine-checkpoint-"));
+    const risk = new RiskManager();
+    const before = createEngine(tempDir, risk);
+    before.evaluate(polyMap, kalshiMap, 1_000);
+    before.evaluate(polyMap, kalshiMap, 1_001);
+    const opened = before.getMarketViews()[0]?.position;
+    expect(opened?.kalshiSlug).toBe("KX-3020");
+
+    writeCheckpoint(tempDir, {
+      version: CHECKPOINT_VERSION,
+      runId: "run",
+      savedAtMs: 1_002,
+      profiles: ["arbBotV1"],
+      coins: ["eth"],
+      engines: { arbBotV1: before.exportCheckpoint() },
+      risk: risk.exportCheckpoint(),
+    });
+    const saved = readCheckpoint<ArbitrageEngineCheckpoint>(tempDir);
+    const position = saved.engines.arbBotV1?.coins.eth?.position;
+    expect(position?.polySnap.orderBooks).toBeInstanceOf(Map);
+    expect(position?.kalshiSnap.strikeLadder).toBeUndefined();
+
+    const restoredRisk = new RiskManager();
+    const after = createEngine(tempDir, restoredRisk);
+    after.restoreCheckpoint(saved.engines.arbBotV1 as ArbitrageEngineCheckpoint, 5_000);
+    expect(after.getSummary()).toEqual(before.getSummary());
+    expect(restoredRisk.getState().totalExposure).toBeCloseTo(risk.getState().totalExposure, 9);
+
+    // Same market key: the position is picked up again instead of re-traded.
+    after.evaluate(polyMap, kalshiMap, 5_000);
+    expect(after.getMarketViews()[0]?.position).toEqual(opened ?? null);
+
+    // The market closes while the bot is down; saved snapshots settle it.
+    after.evaluate(new Map(), new Map(), 10_000_001);
+    expect(after.getSummary().totalTrades).toBe(1);
+    expect(restoredRisk.getState().openPositions).toBe(0);
+  });
+
+  it("restores a profile strategy through the strategy interface", () => {
+    tempDir = mkdtempSync(join(tmpdir(), "engine-checkpoint-"));
+    const dir = tempDir;
+    const timed: TimedTradeConfig = {
+      tradeAllowedTimeLeft: 300,
+      rules: [
+        {
+          tierSeconds: 300,
+          minimumPriceDifference: 5,
+          maximumSharePrice: 0.9,
+          minimumSharePrice: 0.1,
+          maximumSpend: 12,
+          minimumSpend: 1,
+        },
+      ],
+    };
+    const start = (risk: RiskManager) => {
+      const strategy = new ProfileStrategy();
+      const context: StrategyContext = {
+        name: "profileV1",
+        mode: "paper",
+        horizon: "15m",
+        coins: ["eth"],
+        startTimeMs: 0,
+        logger: new RunLogger(join(dir, "profileV1.log")),
+        fees: NO_FEES,
+        risk,
+        journal: new TradeJournal(join(dir, "journal.jsonl")),
+        rng: new SeededRng(1),
+        recordedOutcome: null,
+        kalshiClient: null,
+        executor: null,
+      };
+      strategy.init({ coins: new Map([["eth", timed]]) }, context);
+      return strategy;
+    };
+    const market = (timeLeftSec: number) =>
+      new Map<CoinSymbol, MarketSnapshot>([
+        [
+          "eth",
+          snapshot(
+            { provider: "polymarket", slug: "eth-updown", timeLeftSec, cryptoPrice: 3010 },
+            { up: 0.6, down: 0.4 },
+          ),
+        ],
+      ]);
+
+    const risk = new RiskManager();
+    const before = start(risk);
+    before.onSnapshot(market(200), new Map(), 1_000);
+    before.onSnapshot(market(199), new Map(), 1_300);
+    expect(before.getViews().markets[0]?.position).not.toBeNull();
+
+    writeCheckpoint(dir, {
+      version: CHECKPOINT_VERSION,
+      runId: "strategy-paper-run",
+      savedAtMs: 1_400,
+      profiles: ["profileV1"],
+      coins: ["eth"],
+      engines: { profileV1: before.exportCheckpoint() },
+      risk: risk.exportCheckpoint(),
+    });
+    const saved = readCheckpoint(dir);
+
+    const restoredRisk = new RiskManager();
+    const after = start(restoredRisk);
+    after.restoreCheckpoint(saved.engines.profileV1);
+    expect(after.getViews().summary).toEqual(before.getViews().summary);
+    expect(after.getViews().markets[0]?.position).toBe(before.getViews().markets[0]?.position ?? null);
+    expect(restoredRisk.getState().openPositions).toBe(1);
+
+    after.onSnapshot(market(0), new Map(), 5_000);
+    expect(after.getViews().summary).toMatchObject({ totalTrades: 1, wins: 1 });
+    expect(restoredRisk.getState().openPositions).toBe(0);
+  });
+
+  it("carries the day's PnL and a daily-loss halt over a restart", () => {
+    const risk = new RiskManager({ ...NO_RISK_LIMITS, dailyLossLimit: 50 });
+    risk.recordPnl(-60, 1_000);
+    expect(risk.isHalted()).toBe(true);
+
+    const sameDay = new RiskManager({ ...NO_RISK_LIMITS, dailyLossLimit: 50 });
+    sameDay.restoreCheckpoint(risk.exportCheckpoint(), 2_000);
+    expect(sameDay.isHalted()).toBe(true);
+    expect(sameDay.getState().dailyPnl).toBe(-60);
+
+    const nextDay = new RiskManager({ ...NO_RISK_LIMITS, dailyLossLimit: 50 });
+    nextDay.restoreCheckpoint(risk.exportCheckpoint(), DAY_MS + 1);
+    expect(nextDay.isHalted()).toBe(false);
+    expect(nextDay.getState().dailyPnl).toBe(0);
+  });
+
+  it("finds runs to resume and rejects unknown checkpoint versions", () => {
+    tempDir = mkdtempSync(join(tmpdir(), "engine-checkpoint-"));
+    expect(findCheckpointRun(tempDir, "latest")).toBeNull();
+    for (const [runId, savedAtSec] of [["run", 1_000], ["run2", 2_000]] as const) {
+      mkdirSync(join(tempDir, runId));
+      writeCheckpoint(join(tempDir, runId), {
+        version: CHECKPOINT_VERSION,
+        runId,
+        savedAtMs: savedAtSec * 1000,
+        profiles: [],
+        coins: [],
+        engines: {},
+        risk: null,
+      });
+      utimesSync(join(tempDir, runId, CHECKPOINT_FILE), savedAtSec, savedAtSec);
+    }
+    mkdirSync(join(tempDir, "run3"));
+    expect(findCheckpointRun(tempDir, "latest")?.runId).toBe("run2");
+    expect(findCheckpointRun(tempDir, "run")?.runDir).toBe(join(tempDir, "run"));
+    expect(findCheckpointRun(tempDir, "run3")).toBeNull();
+
+    writeFileSync(join(tempDir, "run3", CHECKPOINT_FILE), JSON.stringify({ version: 99 }));
+    expect(() => readCheckpoint(join(tempDir as string, "run3"))).toThrow("version 99");
+    expect(() => parseCheckpoint("{")).toThrow("Checkpoint error: unreadable JSON");
+  });
+});
@@ -0,0 +1,386 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { generateKeyPairSync, randomBytes } from "crypto";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Wallet } from "@ethersproject/wallet";
+import { createExecutionAdapter } from "../src/execution/execution-adapter";
+import { startMockExchange, type MockExchange } from "../src/execution/mock-exchange";
+import type {
+  ExecutionAdapter,
+  ExecutionOrder,
+  ExecutionReport,
+} from "../src/execution/types";
+import type { CoinSymbol } from "../src/services/auto-market";
+import type { MarketSnapshot } from "../src/services/market-data-hub";
+import { ProfileEngine, type TimedTradeConfig } from "../src/services/profile-engine";
+import { RiskManager } from "../src/services/risk-manager";
+import { RunLogger } from "../src/services/run-logger";
+import { readJournal, TradeJournal } from "../src/services/trade-journal";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const kalshiPrivateKeyPem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+const kalshiPublicKeyPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+
+const polyOrder: ExecutionOrder = {
+  venue: "polymarket",
+  marketId: "eth-updown-15m-1767287700",
+  tokenId: "71321045679252212594626385532706912750332728571942532289631379312455583992563",
+  side: "BUY",
+  price: 0.45,
+  shares: 10,
+  expectedPrice: 0.44,
+  clientOrderId: "test-poly-1",
+};
+
+const kalshiOrder: ExecutionOrder = {
+  venue: "kalshi",
+  marketId: "KXETH15M-26JAN011215-15",
+  tokenId: "NO",
+  side: "BUY",
+  price: 0.52,
+  shares: 10,
+  expectedPrice: 0.51,
+  clientOrderId: "test-kalshi-1",
+};
+
+function buildEnv(exchange: MockExchange): NodeJS.ProcessEnv {
+  return {
+    POLYMARKET_CLOB_PRIVATE_KEY: Wallet.createRandom().privateKey,
+    POLYMARKET_CLOB_API_KEY: "mock-key",
+    POLYMARKET_CLOB_API_SECRET: randomBytes(32).toString("base64"),
+    POLYMARKET_CLOB_API_PASSPHRASE: "mock-passphrase",
+    POLYMARKET_CLOB_API_BASE: exchange.url,
+    KALSHI_API_KEY: "mock-kalshi-key",
+    KALSHI_PRIVATE_KEY_PEM: kalshiPrivateKeyPem,
+    KALSHI_BASE_URL: exchange.kalshiBaseUrl,
+  };
+}
+
+let exchange: MockExchange | null = null;
+let tempDir: string | null = null;
+
+function createLogger(): { logger: RunLogger; logPath: string } {
+  tempDir = mkdtempSync(join(tmpdir(), "execution-"));
+  const logPath = join(tempDir, "execution.log");
+  return { logger: new RunLogger(logPath), logPath };
+}
+
+afterEach(() => {
+  exchange?.stop();
+  exchange = null;
+  if (tempDir) {
+    rmSync(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  }
+});
+
+describe("execution adapters", () => {
+  it("places signed orders on both venues through the mock exchange", async () => {
+    exchange = startMockExchange({ kalshiPublicKeyPem });
+    const { logger } = createLogger();
+    const adapter = createExecutionAdapter("live", logger, buildEnv(exchange));
+
+    const poly = await adapter.placeOrder(polyOrder);
+    const kalshi = await adapter.placeOrder(kalshiOrder);
+
+    expect(poly.status).toBe("filled");
+    expect(poly.filledShares).toBeCloseTo(10, 6);
+    expect(poly.avgPrice).toBeCloseTo(0.45, 6);
+    expect(kalshi.status).toBe("filled");
+    expect(kalshi.filledShares).toBe(10);
+    expect(kalshi.avgPrice).toBeCloseTo(0.52, 6);
+
+    expect(exchange.orders.map((order) => order.venue)).toEqual(["polymarket", "kalshi"]);
+    const kalshiBody = exchange.orders[1]?.body;
+    expect(kalshiBody?.side).toBe("no");
+    expect(kalshiBody?.no_price).toBe(52);
+    expect(kalshiBody?.client_order_id).toBe("test-kalshi-1");
+  });
+
+  it("reports partial fills and rejects", async () => {
+    exchange = startMockExchange({
+      kalshiPublicKeyPem,
+      fillRatio: { polymarket: 0.5, kalshi: 0 },
+    });
+    const { logger } = createLogger();
+    const adapter = createExecutionAdapter("live", logger, buildEnv(exchange));
+
+    const poly = await adapter.placeOrder(polyOrder);
+    const kalshi = await adapter.placeOrder(kalshiOrder);
+
+    expect(poly.status).toBe("partial");
+    expect(poly.filledShares).toBeCloseTo(5, 6);
+    expect(kalshi.status).toBe("rejected");
+    expect(kalshi.filledShares).toBe(0);
+  });
+
+  it("sends whole Kalshi contracts and rejects orders below one", async () => {
+    exchange = startMockExchange({ kalshiPublicKeyPem });
+    const { logger } = createLogger();
+    const adapter = createExecutionAdapter("live", logger, buildEnv(exchange));
+
+    const rounded = await adapter.placeOrder({ ...kalshiOrder, shares: 7.6 });
+    expect(rounded).toMatchObject({ status: "filled", sentShares: 7, filledShares: 7 });
+    expect(exchange.orders[0]?.body.count).toBe(7);
+
+    const tiny = await adapter.placeOrder({ ...kalshiOrder, shares: 0.6, clientOrderId: "tiny" });
+    expect(tiny).toMatchObject({ status: "rejected", sentShares: 0, filledShares: 0 });
+    expect(tiny.error).toContain("below one contract");
+    expect(exchange.orders).toHaveLength(1);
+
+    const dryRun = createExecutionAdapter("dry-run", logger, buildEnv(exchange));
+    expect(await dryRun.placeOrder({ ...kalshiOrder, shares: 7.6 })).toMatchObject({
+      sentShares: 7,
+      filledShares: 7,
+    });
+  });
+
+  it("logs signed payloads in dry-run without sending them", async () => {
+    exchange = startMockExchange({ kalshiPublicKeyPem });
+    const { logger, logPath } = createLogger();
+    const adapter = createExecutionAdapter("dry-run", logger, buildEnv(exchange));
+
+    const poly = await adapter.placeOrder(polyOrder);
+    const kalshi = await adapter.placeOrder(kalshiOrder);
+
+    expect(poly).toMatchObject({ status: "filled", filledShares: 10, avgPrice: 0.44 });
+    expect(kalshi).toMatchObject({ status: "filled", filledShares: 10, avgPrice: 0.51 });
+    expect(exchange.orders).toHaveLength(0);
+
+    const log = readFileSync(logPath, "utf8");
+    expect(log).toContain(`DRY_RUN_ORDER test-poly-1 polymarket POST ${exchange.url}/order`);
+    expect(log).toContain("POLY_SIGNATURE");
+    expect(log).not.toContain("mock-passphrase");
+    expect(log).toContain(`DRY_RUN_ORDER test-kalshi-1 kalshi POST ${exchange.kalshiBaseUrl}/portfolio/orders`);
+    expect(log).toContain("KALSHI-ACCESS-SIGNATURE");
+  });
+
+  it("redacts credentials and signatures in the order log", async () => {
+    exchange = startMockExchange({ kalshiPublicKeyPem });
+    const { logger, logPath } = createLogger();
+    const adapter = createExecutionAdapter("dry-run", logger, buildEnv(exchange));
+
+    await adapter.placeOrder(polyOrder);
+    await adapter.placeOrder(kalshiOrder);
+
+    const logged = readFileSync(logPath, "utf8")
+      .split("\n")
+      .filter((line) => line.includes("DRY_RUN_ORDER"))
+      .map((line) => JSON.parse(/headers=(\{.*?\}) body=/.exec(line)?.[1] ?? "{}") as Record<string, string>);
+    expect(logged).toHaveLength(2);
+    const [poly, kalshi] = logged;
+    for (const key of ["POLY_API_KEY", "POLY_PASSPHRASE", "POLY_SIGNATURE"]) {
+      expect(poly?.[key]).toBe("<redacted>");
+    }
+    for (const key of ["KALSHI-ACCESS-KEY", "KALSHI-ACCESS-SIGNATURE"]) {
+      expect(kalshi?.[key]).toBe("<redacted>");
+    }
+    // Non-secret headers stay readable for debugging.
+    expect(poly?.POLY_TIMESTAMP).toMatch(/^\d+$/);
+    expect(kalshi?.["KALSHI-ACCESS-TIMESTAMP"]).toMatch(/^\d+$/);
+    const log = readFileSync(logPath, "utf8");
+    expect(log).toContain('"owner":"<redacted>"');
+    expect(log).not.toContain("mock-key");
+    expect(log).not.toContain("mock-kalshi-key");
+  });
+});
+
+/** Holds every order until the test settles it with a report. */
+class ManualExecutionAdapter implements ExecutionAdapter {
+  readonly mode = "live" as const;
+  orders: ExecutionOrder[] = [];
+  private pending: Array<(report: ExecutionReport) => void> = [];
+
+  placeOrder(order: ExecutionOrder): Promise<ExecutionReport> {
+    this.orders.push(order);
+    return new Promise((resolve) => this.pending.push(resolve));
+  }
+
+  async settle(report: ExecutionReport): Promise<void> {
+    this.pending.shift()?.(report);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+describe("ProfileEngine execution", () => {
+  const config: TimedTradeConfig = {
+    tradeAllowedTimeLeft: 300,
+    rules: [
+      {
+        tierSeconds: 300,
+        minimumPriceDifference: 5,
+        maximumSharePrice: 0.9,
+        minimumSharePrice: 0.1,
+        maximumSpend: 12,
+        minimumSpend: 1,
+      },
+    ],
+  };
+
+  function snapshot(): MarketSnapshot {
+    const level = (price: number) => ({
+      bids: [{ price: price - 0.02, size: 100 }],
+      asks: [{ price, size: 100 }],
+      lastTrade: 0,
+      totalBidValue: (price - 0.02) * 100,
+      totalAskValue: price * 100,
+    });
+    return {
+      coin: "eth",
+      symbol: "eth/usd",
+      marketName: "ETH",
+      slug: "eth-updown",
+      timeLeftSec: 200,
+      priceToBeat: 3000,
+      referencePrice: 3000,
+      referenceSource: "price_to_beat",
+      cryptoPrice: 3010,
+      cryptoPriceTimestamp: 0,
+      dataStatus: "healthy",
+      lastBookUpdateMs: 0,
+      upOutcome: "Up",
+      downOutcome: "Down",
+      upTokenId: "up",
+      downTokenId: "down",
+      orderBooks: new Map([
+        ["up", level(0.62)],
+        ["down", level(0.38)],
+      ]),
+      bestBid: new Map([
+        ["up", 0.6],
+        ["down", 0.36],
+      ]),
+      bestAsk: new Map([
+        ["up", 0.62],
+        ["down", 0.38],
+      ]),
+      priceHistory: [],
+      recentTrades: [],
+    };
+  }
+
+  it("sends taker entries through the executor and books the venue report", async () => {
+    const { logger } = createLogger();
+    const journalPath = join(tempDir!, "journal.jsonl");
+    const executor = new ManualExecutionAdapter();
+    const risk = new RiskManager();
+    const engine = new ProfileEngine(
+      "taker",
+      new Map<CoinSymbol, TimedTradeConfig>([["eth", config]]),
+      logger,
+      0,
+      { decisionLatencyMs: 0, journal: new TradeJournal(journalPath), risk, executor },
+    );
+    const at = (ms: number) =>
+      engine.evaluate(new Map<CoinSymbol, MarketSnapshot>([["eth", snapshot()]]), ms);
+
+    at(1_000);
+    at(1_001);
+    expect(executor.orders).toHaveLength(1);
+    expect(executor.orders[0]).toMatchObject({
+      venue: "polymarket",
+      marketId: "eth-updown",
+      tokenId: "up",
+      side: "BUY",
+      price: 0.63,
+    });
+    expect(executor.orders[0]?.shares).toBeCloseTo(12 / 0.62, 6);
+    // The entry stays in flight: no position, no second order, no timer.
+    at(1_002);
+    expect(executor.orders).toHaveLength(1);
+    expect(engine.getNextPendingTime()).toBeNull();
+    expect(engine.getSummary().totalTrades).toBe(0);
+
+    await executor.settle({
+      status: "partial",
+      orderId: "venue-1",
+      sentShares: 19,
+      filledShares: 10,
+      avgPrice: 0.625,
+    });
+    expect(engine.getSummary().totalTrades).toBe(1);
+    expect(risk.getState().totalExposure).toBeCloseTo(6.25, 6);
+    const fill = readJournal(journalPath).find((event) => event.type === "fill");
+    expect(fill).toMatchObject({ fillSource: "live", orderId: "eth-1000" });
+    expect(fill?.type === "fill" ? fill.legs[0]?.shares : null).toBe(10);
+  });
+
+  it("releases the risk ticket when the venue fills nothing", async () => {
+    const { logger } = createLogger();
+    const executor = new ManualExecutionAdapter();
+    const risk = new RiskManager();
+    const engine = new ProfileEngine(
+      "taker",
+      new Map<CoinSymbol, TimedTradeConfig>([["eth", config]]),
+      logger,
+      0,
+      { decisionLatencyMs: 0, risk, executor },
+    );
+    const at = (ms: number) =>
+      engine.evaluate(new Map<CoinSymbol, MarketSnapshot>([["eth", snapshot()]]), ms);
+
+    at(1_000);
+    at(1_001);
+    expect(risk.getState().openPositions).toBe(1);
+    await executor.settle({
+      status: "rejected",
+      orderId: null,
+      sentShares: 19,
+      filledShares: 0,
+      avgPrice: 0,
+      error: "Order not matched.",
+    });
+    expect(risk.getState().openPositions).toBe(0);
+    expect(engine.getSummary().totalTrades).toBe(0);
+    // The coin is free to decide again.
+    at(2_000);
+    at(2_001);
+    expect(executor.orders).toHaveLength(2);
+  });
+
+  it("settles a fill that reports after its market closed", async () => {
+    const { logger } = createLogger();
+    const journalPath = join(tempDir!, "journal.jsonl");
+    const executor = new ManualExecutionAdapter();
+    const risk = new RiskManager();
+    const engine = new ProfileEngine(
+      "taker",
+      new Map<CoinSymbol, TimedTradeConfig>([["eth", config]]),
+      logger,
+      0,
+      { decisionLatencyMs: 0, journal: new TradeJournal(journalPath), risk, executor },
+    );
+    const at = (ms: number, timeLeftSec = 200) =>
+      engine.evaluate(
+        new Map<CoinSymbol, MarketSnapshot>([["eth", { ...snapshot(), timeLeftSec }]]),
+        ms,
+      );
+
+    at(1_000);
+    at(1_001);
+    expect(executor.orders).toHaveLength(1);
+    // The market resolves (Up) while the entry is still at the venue.
+    at(2_000, 0);
+    expect(readJournal(journalPath).some((event) => event.type === "cancel")).toBe(false);
+    expect(risk.getState().openPositions).toBe(1);
+
+    await executor.settle({
+      status: "partial",
+      orderId: "venue-1",
+      sentShares: 19,
+      filledShares: 10,
+      avgPrice: 0.625,
+    });
+    const events = readJournal(journalPath).filter((event) =>
+      ["fill", "cancel", "settlement"].includes(event.type),
+    );
+    expect(events.map((event) => event.type)).toEqual(["fill", "settlement"]);
+    const settlement = events[1];
+    expect(settlement).toMatchObject({ orderId: "eth-1000", result: "win" });
+    expect(settlement?.type === "settlement" ? settlement.pnl : null).toBeCloseTo(3.75, 6);
+    expect(engine.getSummary()).toMatchObject({ totalTrades: 1, wins: 1 });
+    expect(risk.getState().openPositions).toBe(0);
+    expect(risk.getState().dailyPnl).toBeCloseTo(3.75, 6);
+  });
+});
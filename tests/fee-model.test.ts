@@ -0,0 +1,61 @@
+import { describe, expect, it } from "bun:test";
+import {
+  DEFAULT_FEE_CONFIG,
+  createFeeModel,
+  parseVenueFeeConfig,
+} from "../src/services/fee-model";
+import { computeFillEstimate } from "../src/services/arbitrage-fill";
+
+describe("createFeeModel", () => {
+  it("rounds the kalshi fee up to the cent per order", () => {
+    const model = createFeeModel(DEFAULT_FEE_CONFIG.kalshi);
+    // 0.07 * 100 * 0.5 * 0.5 = 1.75
+    expect(model.orderFee(100, 0.5)).toBeCloseTo(1.75, 9);
+    // 0.07 * 10 * 0.3 * 0.7 = 0.147 -> 0.15
+    expect(model.orderFee(10, 0.3)).toBeCloseTo(0.15, 9);
+    // 0.0175 * 100 * 0.5 * 0.5 = 0.4375 -> 0.44
+    expect(model.orderFee(100, 0.5, "maker")).toBeCloseTo(0.44, 9);
+    expect(model.orderFee(0, 0.5)).toBe(0);
+  });
+
+  it("charges bps of notional plus gas and withdrawal costs", () => {
+    const model = createFeeModel(
+      parseVenueFeeConfig("polymarket", { takerBps: 20, gasUsd: 0.05, withdrawalBps: 10 }),
+    );
+    // notional 40 -> 0.08 trading + 0.05 gas + 0.04 withdrawal
+    expect(model.orderFee(100, 0.4)).toBeCloseTo(0.17, 9);
+  });
+});
+
+describe("parseVenueFeeConfig", () => {
+  it("falls back to venue defaults and rejects bad values", () => {
+    expect(parseVenueFeeConfig("kalshi", undefined)).toEqual(DEFAULT_FEE_CONFIG.kalshi);
+    expect(() => parseVenueFeeConfig("kalshi", { model: "flat" })).toThrow(
+      "providers.kalshi.fees model",
+    );
+    expect(() => parseVenueFeeConfig("polymarket", { takerBps: -1 })).toThrow(
+      "providers.polymarket.fees takerBps",
+    );
+  });
+});
+
+describe("computeFillEstimate fees", () => {
+  it("reports the gap net of fees per share", () => {
+    const fees = {
+      polymarket: createFeeModel(DEFAULT_FEE_CONFIG.polymarket),
+      kalshi: createFeeModel(DEFAULT_FEE_CONFIG.kalshi),
+    };
+    const estimate = computeFillEstimate(
+      [{ price: 0.45, size: 100 }],
+      [{ price: 0.5, size: 100 }],
+      100,
+      fees,
+    );
+    expect(estimate).not.toBeNull();
+    expect(estimate!.shares).toBe(100);
+    expect(estimate!.gap).toBeCloseTo(0.05, 9);
+    expect(estimate!.feePoly).toBe(0);
+    expect(estimate!.feeKalshi).toBeCloseTo(1.75, 9);
+    expect(estimate!.netGap).toBeCloseTo(0.0325, 9);
+  });
+});
@@ -0,0 +1,49 @@
+import type { MarketSnapshot, OrderBookSnapshot } from "../../src/services/market-data-hub";
+
+/** One-level book: 500 shares at `ask`, and a bid two cents under it. */
+export function book(ask: number): OrderBookSnapshot {
+  return {
+    bids: [{ price: Math.max(0.01, ask - 0.02), size: 500 }],
+    asks: [{ price: ask, size: 500 }],
+    lastTrade: 0,
+    totalBidValue: 0,
+    totalAskValue: ask * 500,
+  };
+}
+
+/** A healthy ETH Up/Down market at 3000 with one `book` per token in `asks`. */
+export function snapshot(
+  overrides: Partial<MarketSnapshot>,
+  asks: Record<string, number>,
+): MarketSnapshot {
+  const orderBooks = new Map<string, OrderBookSnapshot>();
+  const bestAsk = new Map<string, number>();
+  for (const [tokenId, ask] of Object.entries(asks)) {
+    orderBooks.set(tokenId, book(ask));
+    bestAsk.set(tokenId, ask);
+  }
+  return {
+    coin: "eth",
+    symbol: "eth/usd",
+    marketName: "ETH",
+    slug: "eth",
+    timeLeftSec: 300,
+    marketCloseTimeMs: 10_000_000,
+    priceToBeat: 3000,
+    referencePrice: 3000,
+    referenceSource: "price_to_beat",
+    cryptoPrice: 3000,
+    cryptoPriceTimestamp: 0,
+    dataStatus: "healthy",
+    lastBookUpdateMs: 0,
+    upOutcome: "Up",
+    downOutcome: "Down",
+    upTokenId: "up",
+    downTokenId: "down",
+    orderBooks,
+    bestBid: new Map(),
+    bestAsk,
+    priceHistory: [],
+    ...overrides,
+  };
+}
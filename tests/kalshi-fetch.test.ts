@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  fetchKalshiHistory,
+  normalizeKalshiMarket,
+  normalizeKalshiTrade,
+} from "../src/backtest/kalshi-fetch";
+import { loadCacheIndex } from "../src/backtest/cache-index";
+import { readJsonlFile } from "../src/backtest/jsonl";
+import type {
+  KalshiClient,
+  KalshiMarket,
+  KalshiTrade,
+} from "../src/clients/kalshi/kalshi-client";
+import type { CoinSymbol } from "../src/services/auto-market";
+import type { KalshiCoinSelection } from "../src/services/profile-config";
+import type { BacktestTradeEvent } from "../src/backtest/types";
+
+const settledMarket: KalshiMarket = {
+  ticker: "KXETH15M-26JAN011215-15",
+  title: "ETH price up in next 15 mins?",
+  open_time: "2026-01-01T17:00:00Z",
+  close_time: "2026-01-01T17:15:00Z",
+  strike_type: "greater_or_equal",
+  floor_strike: 3012.5,
+  result: "no",
+};
+
+const trades: KalshiTrade[] = [
+  {
+    trade_id: "b",
+    created_time: "2026-01-01T17:05:00Z",
+    taker_side: "no",
+    yes_price: 40,
+    no_price: 60,
+    count: 3,
+  },
+  {
+    trade_id: "a",
+    created_time: "2026-01-01T17:01:00Z",
+    taker_side: "yes",
+    yes_price_dollars: "0.5500",
+    no_price_dollars: "0.4500",
+    count: 10,
+  },
+];
+
+const selectors = new Map<CoinSymbol, KalshiCoinSelection>([
+  [
+    "eth",
+    {
+      tickers: [],
+      seriesTickers: ["KXETH15M"],
+      eventTickers: [],
+      marketUrls: [],
+      autoDiscover: false,
+    },
+  ],
+]);
+
+let venueDir = "";
+
+afterEach(() => {
+  if (venueDir) rmSync(venueDir, { recursive: true, force: true });
+});
+
+describe("kalshi-fetch", () => {
+  it("maps settled markets and trades onto the backtest layout", () => {
+    const meta = normalizeKalshiMarket(settledMarket, "eth");
+    expect(meta).toMatchObject({
+      slug: "KXETH15M-26JAN011215-15",
+      provider: "kalshi",
+      upTokenId: "YES",
+      downTokenId: "NO",
+      priceToBeat: 3012.5,
+      outcome: "DOWN",
+      endMs: Date.parse("2026-01-01T17:15:00Z"),
+    });
+    expect(normalizeKalshiTrade(trades[0]!)).toMatchObject({
+      tokenId: "NO",
+      price: 0.6,
+      size: 3,
+      side: "BUY",
+    });
+    expect(normalizeKalshiTrade(trades[1]!)?.price).toBe(0.55);
+  });
+
+  it("writes trades once and resumes from the cache index", async () => {
+    venueDir = mkdtempSync(join(tmpdir(), "kalshi-fetch-"));
+    let tradeCalls = 0;
+    const client = {
+      getMarkets: async () => ({ markets: [settledMarket] }),
+      getTrades: async () => {
+        tradeCalls += 1;
+        return { trades };
+      },
+    } as unknown as KalshiClient;
+    const startMs = Date.parse("2026-01-01T17:00:00Z");
+    const endMs = Date.parse("2026-01-01T18:00:00Z");
+
+    await fetchKalshiHistory(client, venueDir, ["eth"], selectors, startMs, endMs);
+    const written = readJsonlFile<BacktestTradeEvent>(
+      join(venueDir, "trades", `${settledMarket.ticker}.jsonl`),
+    );
+    expect(written.map((trade) => trade.tradeId)).toEqual(["a", "b"]);
+    expect(loadCacheIndex(venueDir).marketTrades[settledMarket.ticker!]?.count).toBe(2);
+
+    const second = await fetchKalshiHistory(
+      client,
+      venueDir,
+      ["eth"],
+      selectors,
+      startMs,
+      endMs,
+    );
+    expect(second.cachedMarkets).toBe(1);
+    expect(tradeCalls).toBe(1);
+  });
+});
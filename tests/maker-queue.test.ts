@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { CoinSymbol } from "../src/services/auto-market";
+import {
+  advanceMakerQueue,
+  joinMakerQueue,
+  makerBidPrice,
+} from "../src/services/maker-queue";
+import type { MarketSnapshot, OrderBookSnapshot } from "../src/services/market-data-hub";
+import type { TradeLike } from "../src/services/market-signals";
+import { ProfileEngine, type TimedTradeConfig } from "../src/services/profile-engine";
+import { RunLogger } from "../src/services/run-logger";
+import { readJournal, TradeJournal } from "../src/services/trade-journal";
+
+let tempDir: string | null = null;
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = null;
+});
+
+function book(bid: number, bidSize: number, ask: number, askSize = 100): OrderBookSnapshot {
+  return {
+    bids: [{ price: bid, size: bidSize }],
+    asks: [{ price: ask, size: askSize }],
+    lastTrade: 0,
+    totalBidValue: bid * bidSize,
+    totalAskValue: ask * askSize,
+  };
+}
+
+function sell(timestamp: number, price: number, size: number): TradeLike {
+  return { timestamp, price, size, side: "SELL", tokenId: "up" };
+}
+
+describe("maker queue", () => {
+  it("prices inside the spread and the rule", () => {
+    expect(makerBidPrice(book(0.6, 50, 0.64), 0, 0.1, 0.9)).toBeCloseTo(0.6, 9);
+    expect(makerBidPrice(book(0.6, 50, 0.64), 0.05, 0.1, 0.9)).toBeCloseTo(0.63, 9);
+    expect(makerBidPrice(book(0.6, 50, 0.64), 0, 0.1, 0.55)).toBeCloseTo(0.55, 9);
+    expect(makerBidPrice(book(0.6, 50, 0.64), 0, 0.7, 0.9)).toBeNull();
+  });
+
+  it("fills only after the volume ahead has traded", () => {
+    const order = joinMakerQueue("up", book(0.6, 100, 0.62), 0.6, 20, 1_000);
+    expect(order.queueAhead).toBe(100);
+
+    expect(advanceMakerQueue(order, book(0.6, 100, 0.62), [sell(900, 0.6, 500), sell(1_100, 0.6, 90)])).toBe(0);
+    expect(order.queueAhead).toBe(10);
+    // Buys and prints above our price do not touch the queue.
+    const noise: TradeLike[] = [
+      { timestamp: 1_200, price: 0.6, size: 50, side: "BUY", tokenId: "up" },
+      sell(1_200, 0.61, 50),
+    ];
+    expect(advanceMakerQueue(order, book(0.6, 100, 0.62), noise)).toBe(0);
+
+    expect(advanceMakerQueue(order, book(0.6, 100, 0.62), [sell(1_300, 0.6, 25)])).toBe(15);
+    expect(order.remainingShares).toBe(5);
+    // The same prints are not counted twice.
+    expect(advanceMakerQueue(order, book(0.6, 100, 0.62), [sell(1_300, 0.6, 25)])).toBe(0);
+  });
+
+  it("moves up on cancels ahead and fills when traded or crossed through", () => {
+    const order = joinMakerQueue("up", book(0.6, 100, 0.62), 0.6, 20, 0);
+    advanceMakerQueue(order, book(0.6, 30, 0.62), []);
+    expect(order.queueAhead).toBe(30);
+    expect(advanceMakerQueue(order, book(0.6, 30, 0.62), [sell(10, 0.59, 1)])).toBe(20);
+
+    const crossed = joinMakerQueue("up", book(0.6, 100, 0.62), 0.6, 20, 0);
+    expect(advanceMakerQueue(crossed, book(0.58, 100, 0.6, 8), [])).toBe(8);
+    expect(crossed.remainingShares).toBe(12);
+  });
+
+  it("counts a crossing ask once across calls", () => {
+    const order = joinMakerQueue("up", book(0.6, 100, 0.62), 0.6, 20, 0);
+    expect(advanceMakerQueue(order, book(0.58, 100, 0.6, 8), [])).toBe(8);
+    expect(advanceMakerQueue(order, book(0.58, 100, 0.6, 8), [])).toBe(0);
+    expect(order.remainingShares).toBe(12);
+    // Only the size the level gained fills us.
+    expect(advanceMakerQueue(order, book(0.58, 100, 0.6, 11), [])).toBe(3);
+    // A level that cleared and came back is new size.
+    advanceMakerQueue(order, book(0.58, 100, 0.62), []);
+    expect(advanceMakerQueue(order, book(0.58, 100, 0.6, 4), [])).toBe(4);
+    expect(order.remainingShares).toBe(5);
+  });
+});
+
+describe("ProfileEngine maker entries", () => {
+  const config: TimedTradeConfig = {
+    tradeAllowedTimeLeft: 300,
+    rules: [
+      {
+        tierSeconds: 300,
+        minimumPriceDifference: 5,
+        maximumSharePrice: 0.9,
+        minimumSharePrice: 0.1,
+        maximumSpend: 12,
+        minimumSpend: 1,
+      },
+    ],
+    maker: { enabled: true, priceImprovement: 0, tradeStopTimeLeft: 30 },
+  };
+
+  function snapshot(timeLeftSec: number, recentTrades: TradeLike[] = []): MarketSnapshot {
+    return {
+      coin: "eth",
+      symbol: "eth/usd",
+      marketName: "ETH",
+      slug: "eth-updown",
+      timeLeftSec,
+      priceToBeat: 3000,
+      referencePrice: 3000,
+      referenceSource: "price_to_beat",
+      cryptoPrice: 3010,
+      cryptoPriceTimestamp: 0,
+      dataStatus: "healthy",
+      lastBookUpdateMs: 0,
+      upOutcome: "Up",
+      downOutcome: "Down",
+      upTokenId: "up",
+      downTokenId: "down",
+      orderBooks: new Map([
+        ["up", book(0.6, 100, 0.62)],
+        ["down", book(0.36, 100, 0.38)],
+      ]),
+      bestBid: new Map([
+        ["up", 0.6],
+        ["down", 0.36],
+      ]),
+      bestAsk: new Map([
+        ["up", 0.62],
+        ["down", 0.38],
+      ]),
+      priceHistory: [],
+      recentTrades,
+    };
+  }
+
+  it("rests a bid, fills it from prints and expires the rest", () => {
+    tempDir = mkdtempSync(join(tmpdir(), "maker-"));
+    const journalPath = join(tempDir, "journal.jsonl");
+    const engine = new ProfileEngine(
+      "maker",
+      new Map<CoinSymbol, TimedTradeConfig>([["eth", config]]),
+      new RunLogger(join(tempDir, "system.log")),
+      0,
+      { decisionLatencyMs: 0, journal: new TradeJournal(journalPath) },
+    );
+    const at = (ms: number, snap: MarketSnapshot) =>
+      engine.evaluate(new Map<CoinSymbol, MarketSnapshot>([["eth", snap]]), ms);
+
+    at(1_000, snapshot(200));
+    at(1_001, snapshot(199));
+    expect(engine.getSummary().totalTrades).toBe(0);
+
+    at(2_000, snapshot(198, [sell(1_500, 0.6, 110)]));
+    expect(engine.getSummary().totalTrades).toBe(1);
+    expect(engine.getMarketViews()[0]).toMatchObject({ positionShares: 10, positionAvgPrice: 0.6 });
+
+    at(3_000, snapshot(20));
+    at(4_000, snapshot(19, [sell(3_500, 0.6, 50)]));
+    expect(engine.getMarketViews()[0]?.positionShares).toBe(10);
+
+    const events = readJournal(journalPath);
+    expect(events.map((event) => event.type)).toEqual(["candidate", "order", "order", "fill", "cancel"]);
+    expect(events.find((event) => event.type === "fill")).toMatchObject({ fillSource: "maker" });
+    expect(events.at(-1)).toMatchObject({ reason: "expired (tradeStopTimeLeft)" });
+  });
+});
@@ -0,0 +1,245 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { EvalScheduler } from "../src/services/eval-scheduler";
+import {
+  formatBusStats,
+  MarketEventBus,
+  recordMarketEvents,
+  type BookUpdateEvent,
+  type MarketBusEvent,
+} from "../src/services/market-event-bus";
+
+let tempDir: string | null = null;
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = null;
+});
+
+function book(ts: number, tokenId = "up", coin: "eth" | "btc" = "eth"): BookUpdateEvent {
+  return {
+    type: "book",
+    provider: "polymarket",
+    coin,
+    market: `${coin}-updown-15m-1`,
+    ts,
+    tokenId,
+    book: null,
+    bestBid: 0.5,
+    bestAsk: 0.52,
+  };
+}
+
+function status(ts: number): MarketBusEvent {
+  return {
+    type: "data-status",
+    provider: "kalshi",
+    coin: "eth",
+    market: "KXETH15M-1",
+    ts,
+    previous: "unknown",
+    status: "healthy",
+  };
+}
+
+/** A handler that holds each event until the test releases it. */
+function gatedHandler() {
+  const seen: number[] = [];
+  const releases: Array<() => void> = [];
+  const handler = (event: MarketBusEvent) => {
+    seen.push(event.ts);
+    return new Promise<void>((resolve) => releases.push(resolve));
+  };
+  const releaseAll = async () => {
+    while (releases.length > 0) {
+      releases.shift()?.();
+      await Promise.resolve();
+      await Promise.resolve();
+    }
+  };
+  return { seen, handler, releaseAll };
+}
+
+describe("MarketEventBus", () => {
+  it("delivers synchronously to matching subscribers only", () => {
+    const bus = new MarketEventBus();
+    const all: string[] = [];
+    const books: number[] = [];
+    bus.subscribe("all", (event) => {
+      all.push(event.type);
+    });
+    bus.subscribe(
+      "eth-books",
+      (event) => {
+        books.push(event.ts);
+      },
+      { types: ["book"], coins: ["eth"], providers: ["polymarket"] },
+    );
+
+    bus.publish(book(1));
+    bus.publish(book(2, "up", "btc"));
+    bus.publish(status(3));
+    expect(all).toEqual(["book", "book", "data-status"]);
+    expect(books).toEqual([1]);
+  });
+
+  it("queues behind a busy async handler and drops the oldest when full", async () => {
+    const bus = new MarketEventBus();
+    const slow = gatedHandler();
+    const fast: number[] = [];
+    bus.subscribe("slow", slow.handler, { maxQueue: 2 });
+    bus.subscribe("fast", (event) => {
+      fast.push(event.ts);
+    });
+
+    for (let ts = 1; ts <= 5; ts += 1) bus.publish(book(ts, `t${ts}`));
+    // The slow consumer never holds up the fast one.
+    expect(fast).toEqual([1, 2, 3, 4, 5]);
+    expect(slow.seen).toEqual([1]);
+    expect(bus.getStats().find((entry) => entry.name === "slow")).toMatchObject({
+      delivered: 1,
+      dropped: 2,
+      queued: 2,
+    });
+
+    const idle = bus.idle();
+    await slow.releaseAll();
+    await idle;
+    expect(slow.seen).toEqual([1, 4, 5]);
+  });
+
+  it("can drop the newest event or coalesce book updates instead", async () => {
+    const bus = new MarketEventBus();
+    const newest = gatedHandler();
+    const coalesced = gatedHandler();
+    bus.subscribe("newest", newest.handler, { maxQueue: 2, overflow: "drop-newest" });
+    bus.subscribe("coalesced", coalesced.handler, { maxQueue: 2, coalesce: true });
+
+    bus.publish(book(1));
+    bus.publish(book(2));
+    bus.publish(book(3));
+    bus.publish(book(4, "down"));
+    bus.publish(status(5));
+
+    await newest.releaseAll();
+    await coalesced.releaseAll();
+    await bus.idle();
+    expect(newest.seen).toEqual([1, 2, 3]);
+    // 2 was replaced by 3 for the same book; the full queue then dropped 3.
+    expect(coalesced.seen).toEqual([1, 4, 5]);
+    expect(bus.getStats().find((entry) => entry.name === "coalesced")).toMatchObject({
+      coalesced: 1,
+      dropped: 1,
+    });
+  });
+
+  it("isolates handler errors and nested publishes", () => {
+    const bus = new MarketEventBus();
+    const order: string[] = [];
+    bus.subscribe("faulty", () => {
+      throw new Error("boom");
+    });
+    bus.subscribe("republisher", (event) => {
+      order.push(`start ${event.ts}`);
+      if (event.ts === 1) bus.publish(book(2));
+      order.push(`end ${event.ts}`);
+    });
+
+    bus.publish(book(1));
+    expect(order).toEqual(["start 1", "end 1", "start 2", "end 2"]);
+    const stats = bus.getStats();
+    expect(stats[0]).toMatchObject({ name: "faulty", errors: 2, delivered: 0 });
+    expect(formatBusStats(stats)).toContain(
+      "faulty 0 delivered, 0 dropped, 0 coalesced, queue 0/1 max, 2 errors",
+    );
+  });
+
+  it("stops delivering after unsubscribe", () => {
+    const bus = new MarketEventBus();
+    const seen: number[] = [];
+    const unsubscribe = bus.subscribe("once", (event) => {
+      seen.push(event.ts);
+    });
+    bus.publish(book(1));
+    unsubscribe();
+    bus.publish(book(2));
+    expect(seen).toEqual([1]);
+    expect(bus.getStats()).toEqual([]);
+  });
+
+  it("records rotations, status changes and references to JSONL", () => {
+    tempDir = mkdtempSync(join(tmpdir(), "bus-"));
+    const bus = new MarketEventBus();
+    const path = join(tempDir, "run", "market-events.jsonl");
+    recordMarketEvents(bus, path);
+    bus.publish(book(1));
+    bus.publish(status(2));
+    bus.publish({
+      type: "market-rotated",
+      provider: "polymarket",
+      coin: "eth",
+      market: "eth-updown-15m-2",
+      ts: 3,
+      previousMarket: "eth-updown-15m-1",
+      reason: "rotated",
+    });
+    const lines = readFileSync(path, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as MarketBusEvent);
+    expect(lines.map((event) => event.type)).toEqual(["data-status", "market-rotated"]);
+  });
+});
+
+describe("EvalScheduler", () => {
+  it("evaluates on trigger and again when a pending decision falls due", async () => {
+    const evaluations: number[] = [];
+    let pending: number | null = null;
+    const scheduler = new EvalScheduler({
+      evaluate: (nowMs) => {
+        evaluations.push(nowMs);
+        if (pending !== null && nowMs >= pending) pending = null;
+      },
+      nextPendingTime: () => pending,
+      fallbackMs: 60_000,
+    });
+
+    scheduler.trigger();
+    expect(evaluations.length).toBe(0);
+
+    scheduler.start();
+    expect(evaluations.length).toBe(1);
+    const due = Date.now() + 20;
+    pending = due;
+    scheduler.trigger();
+    expect(evaluations.length).toBe(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(pending).toBeNull();
+    expect(evaluations.length).toBeGreaterThanOrEqual(3);
+    expect(evaluations.at(-1)).toBeGreaterThanOrEqual(due);
+
+    scheduler.stop();
+    const count = evaluations.length;
+    scheduler.trigger();
+    expect(evaluations.length).toBe(count);
+  });
+
+  it("does not re-enter evaluation from an event it caused", () => {
+    let calls = 0;
+    const scheduler = new EvalScheduler({
+      evaluate: () => {
+        calls += 1;
+        scheduler.trigger();
+      },
+      nextPendingTime: () => null,
+      fallbackMs: 60_000,
+    });
+    scheduler.start();
+    scheduler.trigger();
+    scheduler.stop();
+    expect(calls).toBe(2);
+  });
+});
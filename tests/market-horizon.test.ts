@@ -0,0 +1,52 @@
+import { describe, expect, it } from "bun:test";
+import {
+  horizonDurationMs,
+  isUpDownSlugForHorizon,
+  parseMarketHorizon,
+  parseUpDownSlugHorizon,
+  parseUpDownSlugStartMs,
+} from "../src/services/auto-market";
+import { resolveKalshiSelectorsForHorizon } from "../src/services/profile-config";
+import type { KalshiCoinSelection } from "../src/services/profile-config";
+
+describe("market horizons", () => {
+  it("reads the horizon from Up/Down slugs", () => {
+    expect(parseUpDownSlugHorizon("eth-updown-15m-1767225600")).toBe("15m");
+    expect(parseUpDownSlugHorizon("btc-up-or-down-hourly-1767225600")).toBe("1h");
+    expect(parseUpDownSlugHorizon("sol-updown-4h-1767225600")).toBe("4h");
+    expect(parseUpDownSlugHorizon("xrp-updown-1d-1767225600")).toBe("daily");
+    expect(parseUpDownSlugHorizon("eth-above-3000")).toBeNull();
+    expect(parseUpDownSlugStartMs("btc-updown-1h-1767225600")).toBe(1767225600000);
+  });
+
+  it("matches slugs only for the requested coin and horizon", () => {
+    expect(isUpDownSlugForHorizon("eth-updown-1h-1767225600", "eth", "1h")).toBe(true);
+    expect(isUpDownSlugForHorizon("eth-updown-15m-1767225600", "eth", "1h")).toBe(false);
+    expect(isUpDownSlugForHorizon("btc-updown-1h-1767225600", "eth", "1h")).toBe(false);
+  });
+
+  it("parses config names and aliases", () => {
+    expect(parseMarketHorizon("Hourly")).toBe("1h");
+    expect(parseMarketHorizon("24h")).toBe("daily");
+    expect(parseMarketHorizon("5m")).toBeNull();
+    expect(horizonDurationMs("4h")).toBe(4 * 60 * 60 * 1000);
+  });
+
+  it("uses the per-horizon Kalshi selectors outside 15m", () => {
+    const hourly: KalshiCoinSelection = {
+      tickers: [],
+      seriesTickers: ["KXETHH"],
+      eventTickers: [],
+      marketUrls: [],
+      autoDiscover: true,
+    };
+    const selectors = new Map<"eth" | "btc", KalshiCoinSelection>([
+      ["eth", { ...hourly, seriesTickers: ["KXETH15M"], horizons: { "1h": hourly } }],
+      ["btc", { ...hourly, seriesTickers: ["KXBTC15M"] }],
+    ]);
+    expect(resolveKalshiSelectorsForHorizon(selectors, "15m")).toBe(selectors);
+    const resolved = resolveKalshiSelectorsForHorizon(selectors, "1h");
+    expect(resolved.get("eth")?.seriesTickers).toEqual(["KXETHH"]);
+    expect(resolved.get("btc")?.seriesTickers).toEqual([]);
+  });
+});
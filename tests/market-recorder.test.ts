@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { gunzipSync } from "zlib";
+import { MarketRecorder } from "../src/backtest/market-recorder";
+import { JsonlSyncReader, resolveJsonlSource } from "../src/backtest/jsonl-stream";
+import type { CoinSymbol } from "../src/services/auto-market";
+import type { MarketSnapshot } from "../src/services/market-data-hub";
+import { readJsonlFile } from "../src/backtest/jsonl";
+import type {
+  BacktestBookEvent,
+  BacktestCryptoTick,
+  BacktestMarketMeta,
+} from "../src/backtest/types";
+
+const kalshiSnapshot: MarketSnapshot = {
+  provider: "kalshi",
+  coin: "eth",
+  symbol: "eth/usd",
+  marketName: "ETH above 3000?",
+  slug: "KXETH15M-1",
+  marketTicker: "KXETH15M-1",
+  timeLeftSec: 600,
+  marketCloseTimeMs: 10_000_000,
+  priceToBeat: 3000,
+  referencePrice: 3000,
+  referenceSource: "price_to_beat",
+  cryptoPrice: 0,
+  cryptoPriceTimestamp: 0,
+  dataStatus: "healthy",
+  lastBookUpdateMs: 0,
+  upOutcome: "Yes",
+  downOutcome: "No",
+  upTokenId: "YES",
+  downTokenId: "NO",
+  orderBooks: new Map(),
+  bestBid: new Map(),
+  bestAsk: new Map(),
+  priceHistory: [],
+};
+
+function readAll<T>(path: string): T[] {
+  const reader = new JsonlSyncReader<T>(path);
+  const records: T[] = [];
+  let next = reader.shift();
+  while (next) {
+    records.push(next);
+    next = reader.shift();
+  }
+  reader.close();
+  return records;
+}
+
+let rootDir = "";
+
+afterEach(() => {
+  if (rootDir) rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe("MarketRecorder", () => {
+  it("writes a Kalshi snapshot then only the changed levels", () => {
+    rootDir = mkdtempSync(join(tmpdir(), "recorder-"));
+    let nowMs = 1_000_000;
+    const recorder = new MarketRecorder(rootDir, {
+      coins: ["eth"],
+      sources: {
+        kalshi: () => new Map<CoinSymbol, MarketSnapshot>([["eth", kalshiSnapshot]]),
+      },
+      now: () => nowMs,
+    });
+    const book = {
+      marketTicker: "KXETH15M-1",
+      yesBids: [{ price: 0.5, size: 10 }],
+      yesAsks: [{ price: 0.55, size: 5 }],
+      noBids: [{ price: 0.45, size: 5 }],
+      noAsks: [{ price: 0.5, size: 10 }],
+    };
+    recorder.recordKalshiOrderbook(book);
+    nowMs += 100;
+    recorder.recordKalshiOrderbook({
+      ...book,
+      yesBids: [{ price: 0.51, size: 3 }],
+      noAsks: [{ price: 0.49, size: 3 }],
+    });
+    recorder.close();
+
+    const path = resolveJsonlSource(join(rootDir, "kalshi", "books"), "KXETH15M-1");
+    expect(path?.endsWith(".jsonl.gz")).toBe(true);
+    const events = readAll<BacktestBookEvent>(path!);
+    expect(events.map((event) => `${event.tokenId}:${event.kind}`)).toEqual([
+      "YES:snapshot",
+      "NO:snapshot",
+      "YES:delta",
+      "NO:delta",
+    ]);
+    expect(events[2]?.bids).toEqual([
+      { price: 0.51, size: 3 },
+      { price: 0.5, size: 0 },
+    ]);
+    expect(events[2]?.asks).toEqual([]);
+  });
+
+  it("reads a book file flushed as several gzip members back in order", () => {
+    rootDir = mkdtempSync(join(tmpdir(), "recorder-"));
+    let nowMs = 1_000_000;
+    const recorder = new MarketRecorder(rootDir, {
+      coins: ["eth"],
+      sources: {
+        kalshi: () => new Map<CoinSymbol, MarketSnapshot>([["eth", kalshiSnapshot]]),
+      },
+      flushBytes: 1,
+      now: () => nowMs,
+    });
+    const yesBids = [0.4, 0.41, 0.42, 0.43, 0.44];
+    for (const bid of yesBids) {
+      recorder.recordKalshiOrderbook({
+        marketTicker: "KXETH15M-1",
+        yesBids: [{ price: bid, size: 10 }],
+        yesAsks: [{ price: 0.6, size: 10 }],
+        noBids: [{ price: 0.4, size: 10 }],
+        noAsks: [{ price: 1 - bid, size: 10 }],
+      });
+      nowMs += 100;
+    }
+    recorder.close();
+
+    const path = resolveJsonlSource(join(rootDir, "kalshi", "books"), "KXETH15M-1");
+    // Every record went out as its own member.
+    const raw = readFileSync(path!);
+    const members = raw.toString("hex").match(/1f8b08/g)?.length ?? 0;
+    expect(members).toBeGreaterThanOrEqual(5);
+    expect(gunzipSync(raw).toString("utf8").trim().split("\n")).toHaveLength(10);
+
+    const events = readAll<BacktestBookEvent>(path!);
+    expect(events.map((event) => event.timestamp)).toEqual([
+      1_000_000, 1_000_000, 1_000_100, 1_000_100, 1_000_200, 1_000_200, 1_000_300, 1_000_300,
+      1_000_400, 1_000_400,
+    ]);
+    expect(
+      events.filter((event) => event.tokenId === "YES").map((event) => event.bids[0]?.price),
+    ).toEqual(yesBids);
+  });
+
+  it("writes the official outcome into markets.jsonl after close", async () => {
+    rootDir = mkdtempSync(join(tmpdir(), "recorder-"));
+    let nowMs = 9_500_000;
+    const answers: Array<"UP" | "DOWN" | null> = [null, "DOWN"];
+    const lookups: string[] = [];
+    const recorder = new MarketRecorder(rootDir, {
+      coins: ["eth"],
+      sources: {
+        kalshi: () => new Map<CoinSymbol, MarketSnapshot>([["eth", kalshiSnapshot]]),
+      },
+      resolveOutcome: async (venue, meta) => {
+        lookups.push(`${venue}:${meta.slug}`);
+        return answers.shift() ?? null;
+      },
+      outcomeRetryMs: 1000,
+      now: () => nowMs,
+    });
+    recorder.recordKalshiOrderbook({
+      marketTicker: "KXETH15M-1",
+      yesBids: [{ price: 0.5, size: 10 }],
+      yesAsks: [],
+      noBids: [],
+      noAsks: [],
+    });
+    const marketsPath = join(rootDir, "kalshi", "markets.jsonl");
+
+    // Still open: nothing is looked up.
+    recorder.flush();
+    await recorder.settleOutcomes();
+    expect(lookups).toEqual([]);
+
+    nowMs = 10_060_000;
+    recorder.flush();
+    await recorder.settleOutcomes();
+    expect(lookups).toEqual(["kalshi:KXETH15M-1"]);
+    expect(readJsonlFile<BacktestMarketMeta>(marketsPath)[0]?.outcome).toBeUndefined();
+
+    // Unknown results wait for the retry interval.
+    recorder.flush();
+    await recorder.settleOutcomes();
+    expect(lookups).toHaveLength(1);
+
+    nowMs += 1000;
+    recorder.flush();
+    await recorder.settleOutcomes();
+    const metas = readJsonlFile<BacktestMarketMeta>(marketsPath);
+    expect(metas).toHaveLength(1);
+    expect(metas[0]?.slug).toBe("KXETH15M-1");
+    expect(metas[0]?.outcome).toBe("DOWN");
+    expect(recorder.getStats().outcomes).toBe(1);
+
+    nowMs += 5000;
+    recorder.flush();
+    await recorder.settleOutcomes();
+    expect(lookups).toHaveLength(2);
+    recorder.close();
+  });
+
+  it("rotates crypto ticks into segments read back in order", () => {
+    rootDir = mkdtempSync(join(tmpdir(), "recorder-"));
+    const recorder = new MarketRecorder(rootDir, {
+      coins: ["eth"],
+      sources: {},
+      cryptoSegmentMs: 60_000,
+    });
+    recorder.recordCryptoPrice({ symbol: "eth/usd", timestamp: 59_000, value: 1 });
+    recorder.recordCryptoPrice({ symbol: "eth/usd", timestamp: 61_000, value: 2 });
+    recorder.recordCryptoPrice({ symbol: "btc/usd", timestamp: 61_000, value: 9 });
+    recorder.close();
+
+    const path = resolveJsonlSource(join(rootDir, "crypto"), "eth");
+    expect(path).toBe(join(rootDir, "crypto", "eth"));
+    const ticks = readAll<BacktestCryptoTick>(path!);
+    expect(ticks.map((tick) => tick.value)).toEqual([1, 2]);
+  });
+});
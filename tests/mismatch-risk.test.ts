@@ -0,0 +1,77 @@
+import { describe, expect, it } from "bun:test";
+import {
+  estimateMismatchRisk,
+  normalCdf,
+  resolveHorizonVol,
+} from "../src/services/mismatch-risk";
+import type { MarketSnapshot } from "../src/services/market-data-hub";
+
+describe("estimateMismatchRisk", () => {
+  it("has no mismatch when both venues share one threshold and reference", () => {
+    const risk = estimateMismatchRisk({
+      polyTarget: "UP",
+      spot: 3000,
+      polyThreshold: 3000,
+      kalshiThreshold: 3000,
+      horizonVol: 0.002,
+      basisSd: 0,
+    });
+    expect(risk.pBothWin).toBeCloseTo(0, 9);
+    expect(risk.pBothLose).toBeCloseTo(0, 9);
+  });
+
+  it("prices the band between different thresholds", () => {
+    // Up above 3000 plus NO below 3006: both pay when the close lands in between.
+    const risk = estimateMismatchRisk({
+      polyTarget: "UP",
+      spot: 3000,
+      polyThreshold: 3000,
+      kalshiThreshold: 3006,
+      horizonVol: 0.002,
+      basisSd: 0,
+    });
+    // ln(3006/3000) / 0.002 ~ 0.999 sigma above spot.
+    expect(risk.pBothWin).toBeCloseTo(normalCdf(0.999) - 0.5, 2);
+    expect(risk.pBothLose).toBeCloseTo(0, 9);
+
+    const mirrored = estimateMismatchRisk({
+      polyTarget: "DOWN",
+      spot: 3000,
+      polyThreshold: 3000,
+      kalshiThreshold: 3006,
+      horizonVol: 0.002,
+      basisSd: 0,
+    });
+    expect(mirrored.pBothWin).toBeCloseTo(0, 9);
+    expect(mirrored.pBothLose).toBeCloseTo(risk.pBothWin, 9);
+    expect(mirrored.edge).toBeLessThan(0);
+  });
+
+  it("spreads reference noise evenly around a shared threshold", () => {
+    const risk = estimateMismatchRisk({
+      polyTarget: "UP",
+      spot: 3000,
+      polyThreshold: 3000,
+      kalshiThreshold: 3000,
+      horizonVol: 0.001,
+      basisSd: 1,
+    });
+    expect(risk.pBothWin).toBeGreaterThan(0);
+    expect(risk.pBothLose).toBeCloseTo(risk.pBothWin, 3);
+  });
+});
+
+describe("resolveHorizonVol", () => {
+  it("scales per-sample volatility by the sampling interval and time left", () => {
+    const snapshot = {
+      signals: { priceVolatility: 0.001 },
+      priceHistoryWithTs: [
+        { price: 1, ts: 0 },
+        { price: 1, ts: 2_000 },
+        { price: 1, ts: 4_000 },
+      ],
+    } as unknown as MarketSnapshot;
+    expect(resolveHorizonVol(snapshot, 200)).toBeCloseTo(0.01, 9);
+    expect(resolveHorizonVol({ signals: undefined } as unknown as MarketSnapshot, 200)).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "bun:test";
+import {
+  createReplayKeyHandler,
+  marketRotated,
+  parseReplayTarget,
+  type ReplayControls,
+} from "../src/backtest/replay-controls";
+
+const NOW = Date.UTC(2026, 0, 5, 12, 0, 0);
+
+function recordingControls(): { controls: ReplayControls; calls: string[] } {
+  const calls: string[] = [];
+  const controls: ReplayControls = {
+    togglePause: () => calls.push("pause"),
+    stepEvent: () => calls.push("event"),
+    stepDecision: () => calls.push("decision"),
+    scaleSpeed: (factor) => calls.push(`speed ${factor}`),
+    seekTo: (targetMs) => calls.push(`seek ${new Date(targetMs).toISOString()}`),
+    seekNextRotation: () => calls.push("rotation"),
+    addBookmark: () => calls.push("bookmark"),
+    getCurrentTimeMs: () => NOW,
+    setInput: (input) => calls.push(`input ${input}`),
+    setStatus: (status) => {
+      if (status) calls.push(`status ${status}`);
+    },
+  };
+  return { controls, calls };
+}
+
+describe("parseReplayTarget", () => {
+  it("reads relative, clock, ISO and epoch targets", () => {
+    expect(parseReplayTarget("+90s", NOW)).toBe(NOW + 90_000);
+    expect(parseReplayTarget("+1.5m", NOW)).toBe(NOW + 90_000);
+    expect(parseReplayTarget("14:30", NOW)).toBe(Date.UTC(2026, 0, 5, 14, 30, 0));
+    expect(parseReplayTarget("2026-01-05T12:00:05Z", NOW)).toBe(NOW + 5_000);
+    expect(parseReplayTarget(String(NOW + 1), NOW)).toBe(NOW + 1);
+    expect(parseReplayTarget("25:00", NOW)).toBeNull();
+    expect(parseReplayTarget("soon", NOW)).toBeNull();
+  });
+
+  it("notices a coin moving to its next market", () => {
+    const before = new Map([["eth" as const, "eth-updown-1"]]);
+    expect(marketRotated(before, new Map([["eth" as const, "eth-updown-1"]]))).toBe(false);
+    expect(marketRotated(before, new Map([["eth" as const, "eth-updown-2"]]))).toBe(true);
+  });
+});
+
+describe("createReplayKeyHandler", () => {
+  it("maps keys to controls and leaves profile keys alone", () => {
+    const { controls, calls } = recordingControls();
+    const handle = createReplayKeyHandler(controls);
+    for (const key of [" ", ".", "n", "r", "+", "-", "b"]) {
+      expect(handle(key)).toBe(true);
+    }
+    expect(handle("w")).toBe(false);
+    expect(handle("\x03")).toBe(false);
+    expect(calls).toEqual(["pause", "event", "decision", "rotation", "speed 2", "speed 0.5", "bookmark"]);
+  });
+
+  it("collects a seek target until Enter", () => {
+    const { controls, calls } = recordingControls();
+    const handle = createReplayKeyHandler(controls);
+    handle("g");
+    // Typed keys go to the prompt, not to the controls or profile switching.
+    expect(handle("+5w")).toBe(true);
+    handle("\x7f");
+    handle("m\r");
+    expect(calls.at(-1)).toBe("seek 2026-01-05T12:05:00.000Z");
+    expect(calls).toContain("input +5w");
+
+    handle("g");
+    handle("later\r");
+    expect(calls.at(-1)).toStartWith('status Cannot read "later"');
+    expect(handle("b")).toBe(true);
+    expect(calls.at(-1)).toBe("bookmark");
+  });
+});
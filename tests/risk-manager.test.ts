@@ -0,0 +1,124 @@
+import { describe, expect, it } from "bun:test";
+import {
+  crossCoinRiskLimits,
+  NO_RISK_LIMITS,
+  parseRiskLimits,
+  RiskManager,
+} from "../src/services/risk-manager";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("RiskManager", () => {
+  it("enforces exposure caps across owners and frees them on close", () => {
+    const risk = new RiskManager({
+      ...NO_RISK_LIMITS,
+      maxTotalExposure: 300,
+      maxCoinExposure: 200,
+      maxVenueExposure: 150,
+    });
+    const first = risk.request({
+      owner: "a",
+      coin: "eth",
+      legs: [
+        { venue: "polymarket", cost: 60 },
+        { venue: "kalshi", cost: 40 },
+      ],
+      nowMs: 0,
+    });
+    expect(first.allowed).toBe(true);
+
+    const venue = risk.request({
+      owner: "b",
+      coin: "btc",
+      legs: [{ venue: "polymarket", cost: 100 }],
+      nowMs: 0,
+    });
+    expect(venue).toEqual({
+      allowed: false,
+      reason: "polymarket exposure 160.00 > 150.00",
+    });
+
+    const coin = risk.request({
+      owner: "b",
+      coin: "eth",
+      legs: [{ venue: "kalshi", cost: 101 }],
+      nowMs: 0,
+    });
+    expect(coin.allowed).toBe(false);
+
+    if (!first.allowed) throw new Error("expected a ticket");
+    // A re-entry that replaces the open ticket only counts once.
+    const replaced = risk.request({
+      owner: "a",
+      coin: "eth",
+      legs: [{ venue: "kalshi", cost: 150 }],
+      nowMs: 0,
+      replaces: first.ticket,
+    });
+    expect(replaced.allowed).toBe(true);
+    expect(risk.getState().openPositions).toBe(1);
+
+    if (!replaced.allowed) throw new Error("expected a ticket");
+    risk.close(replaced.ticket, 10, 0);
+    expect(risk.getState().totalExposure).toBe(0);
+    expect(risk.getState().rejected).toBe(2);
+  });
+
+  it("halts on the daily loss limit until the next UTC day", () => {
+    const risk = new RiskManager({
+      ...NO_RISK_LIMITS,
+      dailyLossLimit: 50,
+      maxConcurrentPositions: 1,
+    });
+    const order = { owner: "a", coin: "eth" as const, legs: [], nowMs: 1_000 };
+    const first = risk.request(order);
+    if (!first.allowed) throw new Error("expected a ticket");
+    expect(risk.request(order)).toEqual({
+      allowed: false,
+      reason: "max concurrent positions 1",
+    });
+
+    risk.close(first.ticket, -60, 2_000);
+    expect(risk.isHalted()).toBe(true);
+    expect(risk.request(order)).toEqual({
+      allowed: false,
+      reason: "kill switch (daily loss limit)",
+    });
+
+    expect(risk.request({ ...order, nowMs: DAY_MS + 1 }).allowed).toBe(true);
+    expect(risk.getState().dailyPnl).toBe(0);
+  });
+
+  it("keeps a manual kill switch across days", () => {
+    const risk = new RiskManager({ ...NO_RISK_LIMITS, killSwitch: true });
+    const order = { owner: "a", coin: "eth" as const, legs: [], nowMs: 0 };
+    expect(risk.request(order).allowed).toBe(false);
+    expect(risk.request({ ...order, nowMs: 3 * DAY_MS }).allowed).toBe(false);
+    risk.setKillSwitch(false);
+    expect(risk.request(order).allowed).toBe(true);
+  });
+});
+
+describe("parseRiskLimits", () => {
+  it("defaults to no caps and rejects bad values", () => {
+    expect(parseRiskLimits(undefined)).toEqual(NO_RISK_LIMITS);
+    expect(parseRiskLimits({ maxTotalExposure: 500 }).maxTotalExposure).toBe(500);
+    expect(() => parseRiskLimits({ dailyLossLimit: -1 })).toThrow(
+      "risk.dailyLossLimit",
+    );
+    expect(() => parseRiskLimits({ maxConcurrentPositions: 1.5 })).toThrow(
+      "risk.maxConcurrentPositions",
+    );
+    expect(() => parseRiskLimits({ killSwitch: "yes" })).toThrow("risk.killSwitch");
+  });
+
+  it("names the caps that span coins", () => {
+    expect(crossCoinRiskLimits(NO_RISK_LIMITS)).toEqual([]);
+    expect(
+      crossCoinRiskLimits(parseRiskLimits({ maxCoinExposure: 100, killSwitch: true })),
+    ).toEqual([]);
+    expect(
+      crossCoinRiskLimits(parseRiskLimits({ maxTotalExposure: 500, dailyLossLimit: 50 })),
+    ).toEqual(["maxTotalExposure", "dailyLossLimit"]);
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { sampleStressTrials } from "../src/backtest/stress-test";
+import { randomDelayMs } from "../src/services/arbitrage-fill";
+import { parseSeed, readSeedFile, SeededRng, writeSeedFile } from "../src/services/rng";
+
+let tempDir: string | null = null;
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = null;
+});
+
+function draws(rng: SeededRng, count: number): number[] {
+  return Array.from({ length: count }, () => rng.next());
+}
+
+describe("SeededRng", () => {
+  it("repeats its stream for the same seed", () => {
+    const first = draws(new SeededRng(42), 5);
+    expect(draws(new SeededRng(42), 5)).toEqual(first);
+    expect(draws(new SeededRng(43), 5)).not.toEqual(first);
+    for (const value of first) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it("forks streams that depend on the label only", () => {
+    const root = new SeededRng(7);
+    const engine = draws(root.fork("profile:a"), 3);
+    root.next();
+    root.fork("profile:b").next();
+    expect(draws(root.fork("profile:a"), 3)).toEqual(engine);
+    expect(draws(root.fork("profile:b"), 3)).not.toEqual(engine);
+  });
+
+  it("resumes from a saved state", () => {
+    const rng = new SeededRng(9);
+    rng.next();
+    const state = rng.getState();
+    const expected = draws(rng, 3);
+    const resumed = new SeededRng(9);
+    resumed.setState(state);
+    expect(draws(resumed, 3)).toEqual(expected);
+  });
+
+  it("draws delays and stress trials reproducibly", () => {
+    const delays = (seed: number) => {
+      const rng = new SeededRng(seed);
+      return Array.from({ length: 20 }, () => randomDelayMs(250, 300, rng));
+    };
+    expect(delays(1)).toEqual(delays(1));
+    expect(Math.min(...delays(1))).toBeGreaterThanOrEqual(250);
+    expect(Math.max(...delays(1))).toBeLessThanOrEqual(300);
+
+    const distribution = {
+      trials: 3,
+      latencyMs: { min: 15, max: 250 },
+      latencyJitterMs: 25,
+      depthHaircut: { min: 0, max: 0.5 },
+      missFillProbability: { min: 0, max: 0.2 },
+    };
+    const trials = (seed: number) => {
+      const rng = new SeededRng(seed).fork("stress");
+      return sampleStressTrials(distribution, () => rng.next());
+    };
+    expect(trials(5)).toEqual(trials(5));
+  });
+});
+
+describe("seed parsing and recording", () => {
+  it("accepts unsigned 32-bit integers", () => {
+    expect(parseSeed(" 123 ", "--seed")).toBe(123);
+    expect(() => parseSeed("-1", "--seed")).toThrow("Config error: --seed must be an integer");
+    expect(() => parseSeed("4294967296", "--seed")).toThrow("Config error: --seed");
+  });
+
+  it("writes and reads the run's seed file", () => {
+    tempDir = mkdtempSync(join(tmpdir(), "seed-"));
+    expect(readSeedFile(tempDir)).toBeNull();
+    writeSeedFile(join(tempDir, "run"), 31337);
+    expect(readSeedFile(join(tempDir, "run"))).toBe(31337);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "bun:test";
+import {
+  buildRunReport,
+  formatReportHtml,
+  formatReportMarkdown,
+} from "../src/services/run-report";
+import { JOURNAL_SCHEMA_VERSION, type JournalEvent } from "../src/services/trade-journal";
+
+const base = {
+  v: JOURNAL_SCHEMA_VERSION,
+  source: "profile",
+  engine: "tierBot",
+  coin: "eth",
+  market: "eth-updown",
+} as const;
+
+function trade(orderId: string, ts: number, timeLeftSec: number, price: number, pnl: number): JournalEvent[] {
+  return [
+    {
+      ...base,
+      ts,
+      type: "candidate",
+      orderId,
+      direction: "Up",
+      gap: null,
+      netGap: null,
+      shares: null,
+      cost: null,
+      details: { timeLeftSec, tierSec: timeLeftSec < 120 ? 60 : 300 },
+    },
+    {
+      ...base,
+      ts,
+      type: "fill",
+      orderId,
+      direction: "Up",
+      legs: [{ venue: "polymarket", side: "buy", outcome: "Up", shares: 10, avgPrice: price, cost: 10 * price, fee: 0 }],
+      expectedGap: 0.05,
+      gap: 0.05 + (pnl > 0 ? 0.002 : -0.012),
+      slippage: pnl > 0 ? 0.002 : -0.012,
+      realizedPnl: 0,
+      fillSource: "paper",
+    },
+    {
+      ...base,
+      ts: ts + 100,
+      type: "settlement",
+      orderId,
+      outcomes: [{ venue: "polymarket", outcome: "Up", source: "derived", detail: null }],
+      pnl,
+      result: pnl >= 0 ? "win" : "loss",
+    },
+  ];
+}
+
+describe("buildRunReport", () => {
+  const events: JournalEvent[] = [
+    ...trade("eth-1", 1_000, 250, 0.62, 4),
+    ...trade("eth-2", 2_000, 90, 0.81, -6),
+    ...trade("eth-3", 3_000, 240, 0.68, 3),
+    {
+      ...base,
+      ts: 4_000,
+      type: "settlement",
+      orderId: null,
+      outcomes: [],
+      pnl: 0,
+      result: "none",
+    },
+  ];
+  const mismatchLog = [
+    "[2025-01-01T00:00:00.000Z] [WARN] ARB_MISMATCH ETH pair=a|b poly=UP kalshi=DOWN",
+    '[2025-01-01T00:00:00.000Z] [WARN] ARB_MISMATCH_JSON {"pairKey":"a|b"}',
+    "[2025-01-01T00:15:00.000Z] [WARN] ARB_MISMATCH BTC pair=c|d poly=DOWN kalshi=UP",
+    "[2025-01-01T00:30:00.000Z] [WARN] ARB_MISMATCH ETH pair=e|f poly=UP kalshi=DOWN",
+  ];
+
+  it("computes equity, drawdown and ratios per profile from settlements", () => {
+    const report = buildRunReport(events, mismatchLog);
+    const [profile] = report.profiles;
+    expect(profile).toMatchObject({ engine: "tierBot", trades: 3, wins: 2, losses: 1, totalPnl: 1 });
+    expect(profile?.equity.map((point) => point.pnl)).toEqual([4, -2, 1]);
+    expect(profile?.maxDrawdown).toBe(6);
+    expect(profile?.sharpe).toBeCloseTo(1 / 3 / Math.sqrt(91 / 3), 9);
+    expect(profile?.sortino).toBeCloseTo(1 / 3 / Math.sqrt(12), 9);
+    expect(report.mismatches).toEqual({
+      total: 3,
+      byCoin: [
+        { coin: "btc", count: 1 },
+        { coin: "eth", count: 2 },
+      ],
+    });
+  });
+
+  it("buckets trades by entry context and slippage", () => {
+    const report = buildRunReport(events);
+    expect(report.byTimeLeft.map((bucket) => [bucket.label, bucket.trades, bucket.pnl])).toEqual([
+      ["60-180s", 1, -6],
+      ["180-300s", 2, 7],
+    ]);
+    expect(report.byTier.map((bucket) => bucket.label)).toEqual(["60s", "300s"]);
+    expect(report.byEntryPrice.map((bucket) => [bucket.label, bucket.wins, bucket.trades])).toEqual([
+      ["0.60..0.70", 2, 2],
+      ["0.80..0.90", 0, 1],
+    ]);
+    expect(report.slippage).toMatchObject({ count: 3, median: 0.002 });
+    expect(report.slippage.buckets.map((bucket) => bucket.label)).toEqual(["-0.015..-0.010", "0.000..0.005"]);
+  });
+
+  it("renders self-contained markdown and html", () => {
+    const report = buildRunReport(events, mismatchLog);
+    const markdown = formatReportMarkdown(report, "Run report: run");
+    expect(markdown).toContain("| tierBot | profile | 3 | 66.7% | 1.00 | 6.00 |");
+    const html = formatReportHtml(report, "Run report: <run>");
+    expect(html).toContain("<polyline");
+    expect(html).toContain("Run report: &lt;run&gt;");
+    expect(html).not.toContain("<script");
+  });
+});
@@ -0,0 +1,315 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BacktestHub } from "../src/backtest/backtest-hub";
+import { StrategyBacktestRunner } from "../src/backtest/strategy-backtest-runner";
+import { parseSweepSpec } from "../src/backtest/sweep-grid";
+import { loadBacktestData } from "../src/routes/backtest";
+import type { CoinSymbol } from "../src/services/auto-market";
+import { parseFeeModels } from "../src/services/fee-model";
+import type { MarketSnapshot } from "../src/services/market-data-hub";
+import { parseConfigFile } from "../src/services/profile-config";
+import { RiskManager, parseRiskLimits } from "../src/services/risk-manager";
+import { SeededRng } from "../src/services/rng";
+import { RunLogger } from "../src/services/run-logger";
+import { JOURNAL_FILE, TradeJournal, type FillEvent, type SettlementEvent } from "../src/services/trade-journal";
+import {
+  createStrategy,
+  getStrategyDefinition,
+  parseStrategiesConfig,
+  registerStrategy,
+} from "../src/strategies/registry";
+import type { Strategy, StrategyContext, StrategyViews } from "../src/strategies/strategy";
+import { StrategyHost } from "../src/strategies/strategy-host";
+import {
+  checkStrategySweepPath,
+  expandStrategySweep,
+  rankStrategySweep,
+} from "../src/strategies/strategy-sweep";
+
+const FIXTURE_DIR = join(import.meta.dir, "fixtures", "backtest");
+
+let tempDir: string | null = null;
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = null;
+});
+
+interface EchoConfig {
+  shares: number;
+}
+
+/** Buys once on the first snapshot and settles it on the next one. */
+class EchoStrategy implements Strategy<EchoConfig> {
+  fills: FillEvent[] = [];
+  settlements: SettlementEvent[] = [];
+  private config: EchoConfig = { shares: 0 };
+  private context: StrategyContext | null = null;
+  private step = 0;
+
+  init(config: EchoConfig, context: StrategyContext): void {
+    this.config = config;
+    this.context = context;
+  }
+
+  onSnapshot(
+    polySnapshots: Map<CoinSymbol, MarketSnapshot>,
+    _kalshiSnapshots: Map<CoinSymbol, MarketSnapshot>,
+    nowMs: number,
+  ): void {
+    const context = this.context!;
+    const base = { ts: nowMs, source: "profile" as const, engine: context.name, coin: "eth" as const };
+    const market = polySnapshots.get("eth")?.slug ?? "eth-test";
+    if (this.step === 0) {
+      context.journal.record({
+        ...base,
+        market,
+        type: "fill",
+        orderId: "o1",
+        direction: "UP",
+        legs: [
+          {
+            venue: "polymarket",
+            side: "buy",
+            outcome: "UP",
+            shares: this.config.shares,
+            avgPrice: 0.5,
+            cost: this.config.shares * 0.5,
+            fee: 0,
+          },
+        ],
+        expectedGap: null,
+        gap: null,
+        slippage: null,
+        realizedPnl: 0,
+        fillSource: "paper",
+      });
+    } else if (this.step === 1) {
+      context.journal.record({
+        ...base,
+        market,
+        type: "settlement",
+        orderId: "o1",
+        outcomes: [],
+        pnl: this.config.shares * 0.5,
+        result: "win",
+      });
+    }
+    this.step += 1;
+  }
+
+  onFill(fill: FillEvent): void {
+    this.fills.push(fill);
+  }
+
+  onSettlement(settlement: SettlementEvent): void {
+    this.settlements.push(settlement);
+  }
+
+  getViews(): StrategyViews {
+    return {
+      summary: {
+        runtimeSec: 0,
+        totalTrades: this.fills.length,
+        wins: this.settlements.filter((event) => event.result === "win").length,
+        losses: 0,
+        totalProfit: this.settlements.reduce((sum, event) => sum + event.pnl, 0),
+        openExposure: 0,
+      },
+      markets: [],
+      logs: [],
+    };
+  }
+
+  getNextPendingTime(): number | null {
+    return null;
+  }
+}
+
+registerStrategy<EchoConfig>({
+  type: "test-echo",
+  description: "test strategy",
+  venues: ["polymarket"],
+  parseConfig: (raw, name) => {
+    if (typeof raw.shares !== "number" || raw.shares <= 0) {
+      throw new Error(`Config error: strategy ${name} shares must be a positive number`);
+    }
+    return { shares: raw.shares };
+  },
+  coins: () => ["eth"],
+  create: () => new EchoStrategy(),
+});
+
+function makeContext(name: string, runDir: string, journal: TradeJournal): StrategyContext {
+  return {
+    name,
+    mode: "backtest",
+    horizon: "15m",
+    coins: ["eth"],
+    startTimeMs: 0,
+    logger: new RunLogger(join(runDir, `${name}.log`)),
+    fees: parseFeeModels({}),
+    risk: new RiskManager(parseRiskLimits(undefined)),
+    journal,
+    rng: new SeededRng(1),
+    recordedOutcome: null,
+    kalshiClient: null,
+    executor: null,
+  };
+}
+
+/** The fixture's `taker` profile written as a strategy entry. */
+function takerStrategyRaw(): Record<string, unknown> {
+  const parsed = parseConfigFile(join(FIXTURE_DIR, "config.json")) as {
+    providers: { polymarket: { profiles: { taker: { markets: { default: { eth: unknown } } } } } };
+  };
+  return {
+    type: "profile",
+    coins: { eth: parsed.providers.polymarket.profiles.taker.markets.default.eth },
+  };
+}
+
+describe("strategy registry", () => {
+  it("parses the strategies section by type", () => {
+    const instances = parseStrategiesConfig({
+      strategies: { echo: { type: "test-echo", shares: 4 }, taker: takerStrategyRaw() },
+    });
+    expect(instances.map((instance) => [instance.name, instance.type])).toEqual([
+      ["echo", "test-echo"],
+      ["taker", "profile"],
+    ]);
+    expect(instances[0]?.config).toEqual({ shares: 4 });
+    expect(instances[1]?.definition.coins(instances[1].config, "15m")).toEqual(["eth"]);
+    expect(instances[1]?.definition.coins(instances[1].config, "1h")).toEqual([]);
+    expect(parseStrategiesConfig({})).toEqual([]);
+  });
+
+  it("rejects invalid strategy entries", () => {
+    expect(() => parseStrategiesConfig({ strategies: [] })).toThrow("strategies must be an object");
+    expect(() => parseStrategiesConfig({ strategies: { a: { shares: 1 } } })).toThrow(
+      "strategy a missing type",
+    );
+    expect(() => parseStrategiesConfig({ strategies: { a: { type: "nope" } } })).toThrow(
+      "unknown strategy type nope",
+    );
+    expect(() => parseStrategiesConfig({ strategies: { a: { type: "test-echo" } } })).toThrow(
+      "strategy a shares must be a positive number",
+    );
+    expect(() =>
+      parseStrategiesConfig({ strategies: { a: { type: "profile", coins: { doge2: {} } } } }),
+    ).toThrow("strategy a has unknown coin doge2");
+    expect(() => registerStrategy({ ...getStrategyDefinition("test-echo") })).toThrow(
+      "already registered",
+    );
+  });
+
+  it("routes journal fills and settlements to the strategy that recorded them", () => {
+    tempDir = mkdtempSync(join(tmpdir(), "strategy-"));
+    const journal = new TradeJournal(join(tempDir, JOURNAL_FILE));
+    const [first, second] = parseStrategiesConfig({
+      strategies: { a: { type: "test-echo", shares: 2 }, b: { type: "test-echo", shares: 6 } },
+    });
+    const a = createStrategy(first!, makeContext("a", tempDir, journal)) as EchoStrategy;
+    const b = createStrategy(second!, makeContext("b", tempDir, journal)) as EchoStrategy;
+    const host = new StrategyHost(
+      [
+        { name: "a", strategy: a },
+        { name: "b", strategy: b },
+      ],
+      journal,
+    );
+
+    host.evaluate(new Map(), new Map(), 1_000);
+    host.evaluate(new Map(), new Map(), 2_000);
+    expect(a.fills.map((fill) => fill.legs[0]?.shares)).toEqual([2]);
+    expect(b.fills.map((fill) => fill.legs[0]?.shares)).toEqual([6]);
+    expect(a.settlements.map((event) => event.pnl)).toEqual([1]);
+    expect(b.settlements.map((event) => event.pnl)).toEqual([3]);
+
+    host.close();
+    host.evaluate(new Map(), new Map(), 3_000);
+    expect(a.fills.length).toBe(1);
+    const lines = readFileSync(join(tempDir, JOURNAL_FILE), "utf8").trim().split("\n");
+    expect(lines.length).toBe(4);
+  });
+
+  it("expands a sweep into re-parsed strategy variants", () => {
+    const [base] = parseStrategiesConfig({ strategies: { taker: takerStrategyRaw() } });
+    const spec = parseSweepSpec(
+      { parameters: { "coins.eth.300.minimumPriceDifference": [2, 4, 6] } },
+      checkStrategySweepPath,
+    );
+    const expanded = expandStrategySweep(base!, spec, 10);
+    expect(expanded.map(({ instance }) => instance.name)).toEqual(
+      expanded.map(({ variant }) => `taker#${variant.id}`),
+    );
+    expect(
+      expanded.map(
+        ({ instance }) =>
+          (instance.raw.coins as { eth: Record<string, { minimumPriceDifference: number }> }).eth[
+            "300"
+          ]?.minimumPriceDifference,
+      ),
+    ).toEqual([2, 4, 6]);
+    // The base entry is cloned, not edited.
+    expect(
+      (base!.raw.coins as { eth: Record<string, { minimumPriceDifference: number }> }).eth["300"]
+        ?.minimumPriceDifference,
+    ).toBe(4);
+
+    const summaries = new Map(
+      expanded.map(({ variant }, index) => [
+        variant.id,
+        { runtimeSec: 0, totalTrades: 1, wins: 1, losses: 0, totalProfit: index, openExposure: 0 },
+      ]),
+    );
+    const ranked = rankStrategySweep(
+      expanded.map(({ variant }) => variant),
+      summaries,
+    );
+    expect(ranked.map((row) => row.totalProfit)).toEqual([2, 1, 0]);
+    expect(ranked[0]?.rank).toBe(1);
+
+    expect(() =>
+      parseSweepSpec({ parameters: { type: ["arbitrage"] } }, checkStrategySweepPath),
+    ).toThrow("cannot change the strategy type");
+    expect(() =>
+      expandStrategySweep(
+        base!,
+        parseSweepSpec(
+          { parameters: { "coins.eth.tradeAllowedTimeLeft": [0] } },
+          checkStrategySweepPath,
+        ),
+        10,
+      ),
+    ).toThrow("tradeAllowedTimeLeft must be a positive integer");
+  });
+
+  it("replays the profile strategy over recorded data", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "strategy-"));
+    const [instance] = parseStrategiesConfig({ strategies: { taker: takerStrategyRaw() } });
+    const data = await loadBacktestData(FIXTURE_DIR, ["eth"]);
+    const hub = new BacktestHub({
+      marketsByCoin: data.marketsByCoin,
+      tradeFilesBySlug: data.tradeFilesBySlug,
+      cryptoTickFilesByCoin: data.cryptoTickFilesByCoin,
+      tradeRangesBySlug: data.tradeRangesBySlug,
+      tickRangesByCoin: data.tickRangesByCoin,
+      latencyMs: 80,
+    });
+    const journal = new TradeJournal(join(tempDir, JOURNAL_FILE));
+    const context = { ...makeContext("taker", tempDir, journal), startTimeMs: hub.getStartTimeMs() };
+    const strategy = createStrategy(instance!, context);
+    const host = new StrategyHost([{ name: "taker", strategy }], journal);
+    new StrategyBacktestRunner(hub, null, host).run();
+    hub.close();
+    host.close();
+
+    const summary = strategy.getViews().summary;
+    expect(summary.totalTrades).toBe(3);
+    expect(summary.wins + summary.losses).toBe(3);
+    expect(strategy.getViews().markets.map((view) => view.coin)).toContain("eth");
+  }, 60_000);
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatStressReport,
+  parseStressRange,
+  percentile,
+  sampleStressTrials,
+  summarizeStress,
+  type StressDistribution,
+} from "../src/backtest/stress-test";
+
+const distribution: StressDistribution = {
+  trials: 2,
+  latencyMs: { min: 100, max: 300 },
+  latencyJitterMs: 50,
+  depthHaircut: { min: 0, max: 0.5 },
+  missFillProbability: { min: 0.1, max: 0.1 },
+};
+
+describe("stress distribution", () => {
+  it("parses single values and ranges within bounds", () => {
+    expect(parseStressRange("15-250", "--latency", 0)).toEqual({ min: 15, max: 250 });
+    expect(parseStressRange("0.2", "--haircut", 0, 1)).toEqual({ min: 0.2, max: 0.2 });
+    expect(() => parseStressRange("0.5-0.1", "--haircut", 0, 1)).toThrow("range must be low-high");
+    expect(() => parseStressRange("0-1.5", "--miss-rate", 0, 1)).toThrow(
+      "Config error: --miss-rate must be within 0..1",
+    );
+    expect(() => parseStressRange("fast", "--latency", 0)).toThrow("Config error: --latency");
+  });
+
+  it("draws one execution model per trial", () => {
+    const draws = [0, 0.5, 0.5, 1, 1, 0.5];
+    let next = 0;
+    const trials = sampleStressTrials(distribution, () => draws[next++] ?? 0);
+    expect(trials).toEqual([
+      {
+        index: 1,
+        execution: { latencyBaseMs: 100, latencyJitterMs: 50, depthHaircut: 0.25, missFillProbability: 0.1 },
+      },
+      {
+        index: 2,
+        execution: { latencyBaseMs: 300, latencyJitterMs: 50, depthHaircut: 0.5, missFillProbability: 0.1 },
+      },
+    ]);
+  });
+});
+
+describe("summarizeStress", () => {
+  it("interpolates percentiles", () => {
+    expect(percentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(percentile([0, 10], 0.25)).toBe(2.5);
+    expect(percentile([], 0.5)).toBe(0);
+  });
+
+  it("reports the PnL distribution and probability of loss", () => {
+    const outcomes = [-4, 6, 2, -1, 12].map((totalProfit) => ({ totalProfit, totalTrades: 4 }));
+    const summary = summarizeStress("tierBot", outcomes, { totalProfit: 9, totalTrades: 5 });
+    expect(summary).toMatchObject({
+      profile: "tierBot",
+      trials: 5,
+      baselineProfit: 9,
+      mean: 3,
+      p50: 2,
+      worst: -4,
+      best: 12,
+      probabilityOfLoss: 0.4,
+      meanTrades: 4,
+    });
+    expect(summary.p5).toBeCloseTo(-3.4, 9);
+
+    const lines = formatStressReport("Stress run", distribution, [summary]);
+    expect(lines).toContain("- Decision latency: 100..300ms + jitter 50ms");
+    expect(lines).toContain("- Missed-fill probability: 0.10");
+    expect(lines.at(-2)).toStartWith("| tierBot | 9.00 | 3.00 | -3.40 |");
+    expect(lines.at(-2)).toEndWith("| -4.00 | 40.0% | 4.0 |");
+  });
+});
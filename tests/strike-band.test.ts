@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { classifyStrikeBand, isBandAllowed } from "../src/services/strike-band";
+import { ArbitrageEngine } from "../src/services/arbitrage-engine";
+import type { ArbitrageCoinConfig } from "../src/services/arbitrage-config";
+import type { CoinSymbol } from "../src/services/auto-market";
+import type { MarketSnapshot } from "../src/services/market-data-hub";
+import { RunLogger } from "../src/services/run-logger";
+import { snapshot } from "./helpers/market-snapshot";
+
+let tempDir: string | null = null;
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = null;
+});
+
+const config: ArbitrageCoinConfig = {
+  horizon: "15m",
+  tradeAllowedTimeLeft: 600,
+  tradeStopTimeLeft: null,
+  minGap: 0.04,
+  maxSpendTotal: 1000,
+  minSpendTotal: 1,
+  maxSpread: null,
+  minDepthValue: null,
+  maxPriceStalenessSec: null,
+  fillUsd: 100,
+  legRiskPolicy: "unwind",
+  legChaseCents: 2,
+  strikeLadder: true,
+  maxLoseBandPct: 0.05,
+  settlementBasisBps: 2,
+  maxMismatchProb: 0.1,
+};
+
+function kalshiStrike(ticker: string, strike: number, yes: number, no: number) {
+  return snapshot(
+    {
+      provider: "kalshi",
+      slug: ticker,
+      marketTicker: ticker,
+      priceToBeat: strike,
+      referencePrice: strike,
+      upTokenId: "YES",
+      downTokenId: "NO",
+    },
+    { YES: yes, NO: no },
+  );
+}
+
+function runEngine(ladder: MarketSnapshot[]): string {
+  tempDir = mkdtempSync(join(tmpdir(), "strike-band-"));
+  const logPath = join(tempDir, "arb.log");
+  const engine = new ArbitrageEngine(
+    "test",
+    new Map<CoinSymbol, ArbitrageCoinConfig>([["eth", config]]),
+    new RunLogger(logPath),
+    { decisionLatencyMs: 0 },
+    0,
+  );
+  const poly = snapshot({ provider: "polymarket", slug: "eth-updown" }, { up: 0.5, down: 0.5 });
+  // The selected market matches the Poly threshold but has no gap.
+  const primary = { ...kalshiStrike("KX-3000", 3000, 0.5, 0.5), strikeLadder: ladder };
+  const polyMap = new Map<CoinSymbol, MarketSnapshot>([["eth", poly]]);
+  const kalshiMap = new Map<CoinSymbol, MarketSnapshot>([["eth", primary]]);
+  engine.evaluate(polyMap, kalshiMap, 1_000);
+  engine.evaluate(polyMap, kalshiMap, 1_001);
+  return readFileSync(logPath, "utf8");
+}
+
+describe("classifyStrikeBand", () => {
+  it("pays both legs when the strike sits on the far side of the Poly side", () => {
+    expect(classifyStrikeBand("UP", 3000, 3010).band).toBe("winBoth");
+    expect(classifyStrikeBand("UP", 3000, 2990).band).toBe("loseBoth");
+    expect(classifyStrikeBand("DOWN", 3000, 2990).band).toBe("winBoth");
+    expect(classifyStrikeBand("DOWN", 3000, 3010).band).toBe("loseBoth");
+    expect(classifyStrikeBand("UP", 3000, 3000).band).toBe("none");
+  });
+
+  it("limits only lose-both bands by width", () => {
+    const risk = classifyStrikeBand("UP", 3000, 2990);
+    expect(risk.widthPct).toBeCloseTo(1 / 3, 9);
+    expect(isBandAllowed(risk, 0.5)).toBe(true);
+    expect(isBandAllowed(risk, 0.05)).toBe(false);
+    expect(isBandAllowed(risk, null)).toBe(true);
+    expect(isBandAllowed(classifyStrikeBand("UP", 3000, 3500), 0)).toBe(true);
+  });
+});
+
+describe("ArbitrageEngine strike ladder", () => {
+  it("trades a ladder strike whose band pays both legs", () => {
+    const log = runEngine([kalshiStrike("KX-3020", 3020, 0.6, 0.44)]);
+    expect(log).toContain("ARB_CANDIDATE upNo");
+    expect(log).toContain("kalshi=KX-3020 strike=3020.00 band=winBoth:20.00");
+    expect(log).toContain("ARB_EXECUTED upNo");
+  });
+
+  it("refuses a cheap strike whose band loses both legs", () => {
+    const log = runEngine([kalshiStrike("KX-2980", 2980, 0.6, 0.4)]);
+    expect(log).not.toContain("ARB_CANDIDATE");
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "bun:test";
+import {
+  applySweepVariant,
+  buildTierSignature,
+  expandSweepGrid,
+  parseSweepSpec,
+} from "../src/backtest/sweep-grid";
+import type { TimedTradeConfig } from "../src/services/profile-engine";
+
+const baseConfig: TimedTradeConfig = {
+  tradeAllowedTimeLeft: 180,
+  rules: [
+    {
+      tierSeconds: 60,
+      minimumPriceDifference: 10,
+      maximumSharePrice: 0.9,
+      minimumSharePrice: 0.5,
+      maximumSpend: 20,
+      minimumSpend: 5,
+    },
+    {
+      tierSeconds: 180,
+      minimumPriceDifference: 20,
+      maximumSharePrice: 0.8,
+      minimumSharePrice: 0.5,
+      maximumSpend: 10,
+      minimumSpend: 5,
+    },
+  ],
+};
+
+describe("parseSweepSpec", () => {
+  it("expands ranges and value lists", () => {
+    const spec = parseSweepSpec({
+      parameters: {
+        "rules.maximumSharePrice": { min: 0.8, max: 0.9, step: 0.05 },
+        "edgeModel.weights.gap": { values: [0.2, 0.3] },
+      },
+    });
+    expect(spec.top).toBe(20);
+    expect(spec.parameters[0]?.values).toEqual([0.8, 0.85, 0.9]);
+    expect(spec.parameters[1]?.values).toEqual([0.2, 0.3]);
+  });
+
+  it("rejects unknown roots", () => {
+    expect(() =>
+      parseSweepSpec({ parameters: { "foo.bar": [1] } }),
+    ).toThrow("unknown root");
+  });
+});
+
+describe("expandSweepGrid", () => {
+  it("builds the cartesian product with the first parameter slowest", () => {
+    const spec = parseSweepSpec({
+      parameters: { "rules.minimumPriceDifference": [5, 15], "lossGovernor.enabled": [true, false] },
+    });
+    const variants = expandSweepGrid(spec, 100);
+    expect(variants.map((variant) => variant.id)).toEqual(["v1", "v2", "v3", "v4"]);
+    expect(variants[1]?.params).toEqual({
+      "rules.minimumPriceDifference": 5,
+      "lossGovernor.enabled": false,
+    });
+    expect(() => expandSweepGrid(spec, 3)).toThrow("exceeds 3 variants");
+  });
+});
+
+describe("applySweepVariant", () => {
+  it("applies all-tier and per-tier paths without mutating the base", () => {
+    const base: TimedTradeConfig = { ...baseConfig, edgeModel: { weights: { gap: 0.2 } } };
+    const config = applySweepVariant(base, {
+      id: "v1",
+      params: {
+        "rules.minimumPriceDifference": 30,
+        "rules.180.tierSeconds": 30,
+        "edgeModel.weights.gap": 0.4,
+      },
+    });
+    expect(config.rules.map((rule) => rule.tierSeconds)).toEqual([30, 60]);
+    expect(config.rules.every((rule) => rule.minimumPriceDifference === 30)).toBe(true);
+    expect(config.edgeModel?.weights?.gap).toBe(0.4);
+    expect(baseConfig.rules[1]?.tierSeconds).toBe(180);
+    expect(base.edgeModel?.weights?.gap).toBe(0.2);
+    expect(buildTierSignature(config)).toBe("30,60|");
+  });
+
+  it("rejects paths into blocks the base profile does not configure", () => {
+    const variant = { id: "v1", params: { "edgeModel.weights.gap": 0.3 } };
+    expect(() => applySweepVariant(baseConfig, variant)).toThrow(
+      "Config error: sweep parameter edgeModel.weights.gap targets edgeModel",
+    );
+    expect(() =>
+      applySweepVariant(baseConfig, { id: "v2", params: { "gateModel.minGateMultiplier": 0.5 } }),
+    ).toThrow("targets gateModel");
+    const withModel = applySweepVariant(
+      { ...baseConfig, edgeModel: { enabled: false, weights: {} } },
+      variant,
+    );
+    expect(withModel.edgeModel).toEqual({ enabled: false, weights: { gap: 0.3 } });
+  });
+
+  it("rejects values of the wrong type", () => {
+    expect(() =>
+      applySweepVariant(baseConfig, { id: "v1", params: { "rules.minimumPriceDifference": "15" } }),
+    ).toThrow('rules.minimumPriceDifference must be a number, got "15"');
+    expect(() =>
+      applySweepVariant(baseConfig, { id: "v2", params: { "rules.maximumSpend": null } }),
+    ).toThrow("rules.maximumSpend cannot be null");
+    expect(() =>
+      applySweepVariant(baseConfig, { id: "v3", params: { "rules.maxSpread": true } }),
+    ).toThrow("rules.maxSpread must be a number");
+    const nullable = applySweepVariant(baseConfig, {
+      id: "v4",
+      params: { "rules.maxSpread": null, "rules.180.minDepthValue": 50 },
+    });
+    expect(nullable.rules[1]?.minDepthValue).toBe(50);
+  });
+
+  it("rejects duplicate tiers", () => {
+    expect(() =>
+      applySweepVariant(baseConfig, {
+        id: "v2",
+        params: { "rules.180.tierSeconds": 60 },
+      }),
+    ).toThrow("duplicate tier");
+  });
+});
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ArbitrageEngine } from "../src/services/arbitrage-engine";
+import type { ArbitrageCoinConfig } from "../src/services/arbitrage-config";
+import type { CoinSymbol } from "../src/services/auto-market";
+import type { MarketSnapshot } from "../src/services/market-data-hub";
+import { RunLogger } from "../src/services/run-logger";
+import {
+  JOURNAL_FILE,
+  JOURNAL_SCHEMA_VERSION,
+  parseJournalLine,
+  readJournal,
+  TradeJournal,
+} from "../src/services/trade-journal";
+import { snapshot } from "./helpers/market-snapshot";
+
+let tempDir: string | null = null;
+
+afterEach(() => {
+  if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  tempDir = null;
+});
+
+const config: ArbitrageCoinConfig = {
+  horizon: "15m",
+  tradeAllowedTimeLeft: 600,
+  tradeStopTimeLeft: null,
+  minGap: 0.04,
+  maxSpendTotal: 1000,
+  minSpendTotal: 1,
+  maxSpread: null,
+  minDepthValue: null,
+  maxPriceStalenessSec: null,
+  fillUsd: 100,
+  legRiskPolicy: "unwind",
+  legChaseCents: 2,
+  strikeLadder: false,
+  maxLoseBandPct: 0.05,
+  settlementBasisBps: 2,
+  maxMismatchProb: 0.1,
+};
+
+const poly = snapshot({ provider: "polymarket", slug: "eth-updown" }, { up: 0.5, down: 0.5 });
+const kalshi = snapshot(
+  {
+    provider: "kalshi",
+    slug: "KX-3000",
+    marketTicker: "KX-3000",
+    upTokenId: "YES",
+    downTokenId: "NO",
+  },
+  { YES: 0.6, NO: 0.44 },
+);
+
+describe("trade journal", () => {
+  it("records an arbitrage trade from candidate to settlement", () => {
+    tempDir = mkdtempSync(join(tmpdir(), "trade-journal-"));
+    const path = join(tempDir, JOURNAL_FILE);
+    const engine = new ArbitrageEngine(
+      "arbBotV1",
+      new Map<CoinSymbol, ArbitrageCoinConfig>([["eth", config]]),
+      new RunLogger(join(tempDir, "arbBotV1.log")),
+      {
+        decisionLatencyMs: 0,
+        outcomeSource: { resolve: () => "UP" },
+        journal: new TradeJournal(path),
+      },
+      0,
+    );
+    const polyMap = new Map<CoinSymbol, MarketSnapshot>([["eth", poly]]);
+    const kalshiMap = new Map<CoinSymbol, MarketSnapshot>([["eth", kalshi]]);
+    engine.evaluate(polyMap, kalshiMap, 1_000);
+    engine.evaluate(polyMap, kalshiMap, 1_001);
+    engine.evaluate(new Map(), new Map(), 10_000_001);
+
+    const events = readJournal(path);
+    expect(events.map((event) => event.type)).toEqual(["candidate", "order", "fill", "settlement"]);
+    for (const event of events) {
+      expect(event).toMatchObject({
+        v: JOURNAL_SCHEMA_VERSION,
+        source: "arbitrage",
+        engine: "arbBotV1",
+        coin: "eth",
+        market: "eth-updown|KX-3000",
+      });
+    }
+    const [candidate, order, fill, settlement] = events;
+    expect(candidate).toMatchObject({ direction: "upNo", gap: expect.closeTo(0.06, 9) });
+    expect(order).toMatchObject({ orderId: "eth-1000", delayMs: 0 });
+    if (fill?.type !== "fill" || settlement?.type !== "settlement") {
+      throw new Error("expected a fill and a settlement");
+    }
+    expect(fill.orderId).toBe("eth-1000");
+    expect(fill.legs.map((leg) => [leg.venue, leg.side, leg.outcome])).toEqual([
+      ["polymarket", "buy", "UP"],
+      ["kalshi", "buy", "NO"],
+    ]);
+    expect(fill.slippage).toBeCloseTo(0, 9);
+    expect(settlement.orderId).toBe("eth-1000");
+    expect(settlement.outcomes.map((outcome) => [outcome.venue, outcome.outcome, outcome.source])).toEqual([
+      ["polymarket", "UP", "recorded"],
+      ["kalshi", "UP", "recorded"],
+    ]);
+    expect(settlement.result).toBe(settlement.pnl >= 0 ? "win" : "loss");
+  });
+
+  it("rejects other schema versions and unknown event types", () => {
+    expect(() => parseJournalLine(JSON.stringify({ v: 99, type: "fill" }))).toThrow(
+      "Journal error: schema version 99",
+    );
+    expect(() => parseJournalLine(JSON.stringify({ v: JOURNAL_SCHEMA_VERSION, type: "quote" }))).toThrow(
+      "unknown event type quote",
+    );
+    tempDir = mkdtempSync(join(tmpdir(), "trade-journal-"));
+    const path = join(tempDir, JOURNAL_FILE);
+    writeFileSync(path, "");
+    new TradeJournal(path).record({
+      type: "cancel",
+      ts: 1,
+      source: "price-diff",
+      engine: "price-diff",
+      coin: "btc",
+      market: "btc-updown|KX",
+      orderId: "btc-1",
+      reason: "market closed",
+    });
+    expect(readJournal(path)).toEqual([
+      {
+        v: JOURNAL_SCHEMA_VERSION,
+        type: "cancel",
+        ts: 1,
+        source: "price-diff",
+        engine: "price-diff",
+        coin: "btc",
+        market: "btc-updown|KX",
+        orderId: "btc-1",
+        reason: "market closed",
+      },
+    ]);
+  });
+});
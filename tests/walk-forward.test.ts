@@ -0,0 +1,87 @@
+import { describe, expect, it } from "bun:test";
+import {
+  aggregateWalkForward,
+  buildWalkForwardFolds,
+  formatWalkForwardReport,
+  marketStartsInWindow,
+  parseDurationMs,
+  type WalkForwardFoldResult,
+  type WalkForwardSummary,
+} from "../src/backtest/walk-forward";
+
+const DAY_MS = 86_400_000;
+
+const summary = (totalProfit: number, wins: number, losses: number): WalkForwardSummary => ({
+  totalTrades: wins + losses,
+  wins,
+  losses,
+  totalProfit,
+});
+
+describe("walk-forward folds", () => {
+  it("parses durations", () => {
+    expect(parseDurationMs("90m", "--train")).toBe(90 * 60_000);
+    expect(parseDurationMs("12h", "--train")).toBe(12 * 3_600_000);
+    expect(parseDurationMs("3d", "--train")).toBe(3 * DAY_MS);
+    expect(() => parseDurationMs("3", "--test")).toThrow("Config error: --test must be a duration");
+  });
+
+  it("rolls train/test windows forward and drops a partial test window", () => {
+    const folds = buildWalkForwardFolds(0, 7.5 * DAY_MS, 3 * DAY_MS, DAY_MS);
+    expect(folds.map((fold) => [fold.trainStartMs, fold.testStartMs, fold.testEndMs])).toEqual([
+      [0, 3 * DAY_MS, 4 * DAY_MS],
+      [DAY_MS, 4 * DAY_MS, 5 * DAY_MS],
+      [2 * DAY_MS, 5 * DAY_MS, 6 * DAY_MS],
+      [3 * DAY_MS, 6 * DAY_MS, 7 * DAY_MS],
+    ]);
+    expect(buildWalkForwardFolds(0, 8 * DAY_MS, 3 * DAY_MS, DAY_MS, 2 * DAY_MS)).toHaveLength(3);
+    expect(() => buildWalkForwardFolds(0, 3 * DAY_MS, 3 * DAY_MS, DAY_MS)).toThrow(
+      "shorter than one train + test window",
+    );
+  });
+
+  it("assigns a market to the window it starts in", () => {
+    expect(marketStartsInWindow({ startMs: DAY_MS - 1 }, 0, DAY_MS)).toBe(true);
+    expect(marketStartsInWindow({ startMs: DAY_MS }, 0, DAY_MS)).toBe(false);
+  });
+});
+
+describe("aggregateWalkForward", () => {
+  const folds = buildWalkForwardFolds(0, 5 * DAY_MS, 2 * DAY_MS, DAY_MS);
+  const results: WalkForwardFoldResult[] = folds.map((fold, index) => ({
+    fold,
+    selected: {
+      id: `v${index + 1}`,
+      params: { "rules.maximumSpend": 10 * (index + 1) },
+      train: summary(20, 4, 1),
+    },
+    test: new Map([
+      ["base", summary(index === 1 ? -4 : 2, 1, 1)],
+      ["base (optimized)", summary(index === 2 ? -1 : 6, 2, 1)],
+    ]),
+  }));
+
+  it("sums out-of-sample folds per profile and rates the optimized one", () => {
+    const [base, optimized] = aggregateWalkForward(results, "base (optimized)");
+    expect(base).toMatchObject({
+      profile: "base",
+      folds: 3,
+      profitableFolds: 2,
+      totalProfit: 0,
+      worstFoldProfit: -4,
+      winRate: 0.5,
+      efficiency: null,
+    });
+    expect(optimized).toMatchObject({ totalProfit: 11, profitableFolds: 2, totalTrades: 9 });
+    // 11 per 3 test days against 60 per 6 train days.
+    expect(optimized?.efficiency).toBeCloseTo(11 / 3 / 10, 9);
+  });
+
+  it("formats fold and aggregate tables", () => {
+    const lines = formatWalkForwardReport("Walk-forward run", results, aggregateWalkForward(results));
+    expect(lines).toContain("| base | 3 | 2 | 0.00 | -4.00 | 6 | 50.0% | - |");
+    expect(lines.some((line) => line.startsWith("| 2 |") && line.includes("v2 (rules.maximumSpend=20)"))).toBe(
+      true,
+    );
+  });
+});